@@ -0,0 +1,42 @@
+/**
+ * Admin Audit Log CSV Export Endpoint
+ *
+ * GET /api/v1/admin/audit/export?actor=&action=&from=&to=&search= - every matching entry as CSV (requires VIEW_SYSTEM_SETTINGS)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllAuditEntries } from "@/lib/db/admin-audit-storage";
+import { buildAuditCsv, filterAuditEntries, parseAuditFilters } from "@/lib/utils/admin-audit";
+import { Permission } from "@/lib/utils/rbac";
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.VIEW_SYSTEM_SETTINGS);
+        if (response) return response;
+
+        const entries = filterAuditEntries(getAllAuditEntries(), parseAuditFilters(request.nextUrl.searchParams));
+        const filename = `admin-audit-${new Date().toISOString().split("T")[0]}.csv`;
+
+        console.log(`✅ Audit log exported by ${user.username}: ${entries.length} entries`);
+
+        return new NextResponse(buildAuditCsv(entries), {
+            status: 200,
+            headers: {
+                "Content-Type": "text/csv; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${filename}"`,
+            },
+        });
+    } catch (error: any) {
+        console.error("❌ Error exporting audit log:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to export audit log",
+            },
+            { status: 500 }
+        );
+    }
+}
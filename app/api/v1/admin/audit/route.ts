@@ -0,0 +1,51 @@
+/**
+ * Admin Audit Log Endpoint
+ * Reads management actions from lib/db/admin-audit-storage. Entries are written by the routes
+ * that perform the actions (recordAdminAction), never by the client.
+ *
+ * GET /api/v1/admin/audit?actor=&action=&from=&to=&search=&page=&limit= - filtered entries, newest first (requires VIEW_SYSTEM_SETTINGS)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllAuditEntries } from "@/lib/db/admin-audit-storage";
+import { filterAuditEntries, parseAuditFilters } from "@/lib/utils/admin-audit";
+import { Permission } from "@/lib/utils/rbac";
+import type { AdminAuditPage } from "@/lib/types/admin-audit";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_SYSTEM_SETTINGS);
+        if (response) return response;
+
+        const params = request.nextUrl.searchParams;
+        const page = Math.max(1, parseInt(params.get("page") || "1", 10) || 1);
+        const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(params.get("limit") || "", 10) || DEFAULT_LIMIT));
+
+        const all = getAllAuditEntries();
+        const filtered = filterAuditEntries(all, parseAuditFilters(params));
+        const data: AdminAuditPage = {
+            entries: filtered.slice((page - 1) * limit, page * limit),
+            total: filtered.length,
+            page,
+            limit,
+            actors: Array.from(new Set(all.map(entry => entry.actorName))).sort((a, b) => a.localeCompare(b)),
+        };
+
+        return NextResponse.json({ success: true, data });
+    } catch (error: any) {
+        console.error("❌ Error fetching audit log:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch audit log",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Admin Free Trial Request Endpoint
+ *
+ * PUT /api/v1/admin/free-trial/requests/:id - change a request's status, { status, notes? }
+ *
+ * Requires the edit_users permission. Runs on the backend with the caller's token; approvals,
+ * rejections and contacts are recorded in the admin audit log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, callBackendAsUser } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { Permission } from "@/lib/utils/rbac";
+import type { AdminAuditAction } from "@/lib/types/admin-audit";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const AUDITED_STATUSES: Record<string, AdminAuditAction> = {
+    approved: "trial.approve",
+    rejected: "trial.reject",
+    contacted: "trial.contact",
+};
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: { status?: string; notes?: string } = await request.json();
+
+        if (typeof body.status !== "string" || !body.status.trim()) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "Status is required",
+                    details: { status: "Status is required" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const notes = typeof body.notes === "string" ? body.notes : "";
+        const details = notes ? { notes } : undefined;
+        const result = await callBackendAsUser(request, {
+            method: "PUT",
+            path: `/free-trial/requests/${id}`,
+            body: { status: body.status, notes },
+        });
+
+        const auditAction = Object.prototype.hasOwnProperty.call(AUDITED_STATUSES, body.status)
+            ? AUDITED_STATUSES[body.status]
+            : undefined;
+        if (auditAction) {
+            const trial = result.data?.data ?? result.data;
+            recordAdminAction(user, {
+                action: auditAction,
+                targetType: "trial_request",
+                targetId: id,
+                targetName: trial?.business_name && trial?.email ? `${trial.business_name} (${trial.email})` : undefined,
+                outcome: result.ok ? "success" : "failure",
+                details: result.ok ? details : { ...details, error: result.message },
+            });
+        }
+
+        if (!result.ok) {
+            return backendErrorResponse(result);
+        }
+
+        console.log(`✅ Trial request ${id} marked ${body.status} by ${user.username}`);
+
+        return NextResponse.json({
+            success: true,
+            message: `Request ${body.status}`,
+            data: result.data,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating trial request:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update request",
+            },
+            { status: 500 }
+        );
+    }
+}
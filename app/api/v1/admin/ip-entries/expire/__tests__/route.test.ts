@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { useTempDataDir } from "@/lib/test-utils/route-tests";
+
+type ExpireRoute = typeof import("../route");
+type IpEntryStorage = typeof import("@/lib/db/ip-entry-storage");
+
+const tick = (secret?: string) =>
+  new NextRequest("http://localhost/api/v1/admin/ip-entries/expire", {
+    method: "POST",
+    headers: secret ? { "X-Scheduler-Secret": secret } : {},
+  });
+
+describe("POST /api/v1/admin/ip-entries/expire", () => {
+  useTempDataDir("ip-expiry-");
+
+  const originalEnv = process.env;
+  let route: ExpireRoute;
+  let storage: IpEntryStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      IP_EXPIRY_SCHEDULER_TOKEN: "ip-token",
+      IP_EXPIRY_SCHEDULER_SECRET: "ip-secret",
+      EXPORT_SCHEDULER_TOKEN: "export-token",
+      EXPORT_SCHEDULER_SECRET: "export-secret",
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock = jest.fn().mockResolvedValue(new Response(JSON.stringify({ message: "ok" }), { status: 200 }));
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      storage = require("@/lib/db/ip-entry-storage");
+      route = require("../route");
+    });
+
+    storage.saveIpEntryDetails(
+      "user-1",
+      [
+        { ipAddress: "10.0.0.1", label: "Old office", expiresAt: "2020-01-01T23:59:59.999Z" },
+        { ipAddress: "10.0.0.2", label: "Office", expiresAt: null },
+      ],
+      "admin-1"
+    );
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("rejects the export scheduler's secret", async () => {
+    const response = await route.POST(tick("export-secret"));
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("reports a missing service account token", async () => {
+    delete process.env.IP_EXPIRY_SCHEDULER_TOKEN;
+
+    const response = await route.POST(tick("ip-secret"));
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).message).toBe("IP_EXPIRY_SCHEDULER_TOKEN is not configured");
+  });
+
+  it("removes expired entries with its own service account", async () => {
+    const response = await route.POST(tick("ip-secret"));
+
+    expect((await response.json()).data).toEqual({ expired: 1, removed: 1, failed: 0 });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.Authorization).toBe("Bearer ip-token");
+    expect(JSON.parse(init.body)).toEqual({ user_id: "user-1", ip_addresses: ["10.0.0.1"] });
+    expect(storage.getIpEntryDetails("user-1").map((entry) => entry.ipAddress)).toEqual(["10.0.0.2"]);
+  });
+
+  it("keeps entries the backend refuses to remove for the next tick", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+    const response = await route.POST(tick("ip-secret"));
+
+    expect((await response.json()).data).toEqual({ expired: 1, removed: 0, failed: 1 });
+    expect(storage.getIpEntryDetails("user-1")).toHaveLength(2);
+  });
+});
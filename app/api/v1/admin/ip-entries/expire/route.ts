@@ -0,0 +1,91 @@
+/**
+ * IP Entry Expiry Scheduler Endpoint
+ *
+ * POST /api/v1/admin/ip-entries/expire - called by cron (see scripts/run-ip-expiry.js) with the
+ * X-Scheduler-Secret header. Removes every whitelisted IP whose expiry date has passed from the
+ * backend, then forgets its details. Entries the backend refuses to remove are retried next tick.
+ *
+ * Uses the IP_EXPIRY_SCHEDULER_* credentials.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSchedulerHeaders, isSchedulerRequest } from "@/lib/auth/scheduler-credentials";
+import { deleteIpEntryDetails, getAllIpEntryDetails } from "@/lib/db/ip-entry-storage";
+import { isIpEntryExpired } from "@/lib/utils/ip-ranges";
+import { config } from "@/lib/config";
+import type { IpExpiryRunSummary } from "@/lib/types/ip-permissions";
+
+export async function POST(request: NextRequest) {
+    if (!isSchedulerRequest(request, "IP_EXPIRY_SCHEDULER")) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Invalid scheduler secret",
+            },
+            { status: 401 }
+        );
+    }
+
+    const headers = getSchedulerHeaders("IP_EXPIRY_SCHEDULER");
+
+    if (!headers) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Service unavailable",
+                message: "IP_EXPIRY_SCHEDULER_TOKEN is not configured",
+            },
+            { status: 503 }
+        );
+    }
+
+    try {
+        const now = new Date();
+        const byUser = new Map<string, string[]>();
+
+        for (const details of getAllIpEntryDetails()) {
+            if (isIpEntryExpired(details, now)) {
+                byUser.set(details.userId, [...(byUser.get(details.userId) ?? []), details.ipAddress]);
+            }
+        }
+
+        const summary: IpExpiryRunSummary = { expired: 0, removed: 0, failed: 0 };
+
+        for (const [userId, ipAddresses] of byUser) {
+            summary.expired += ipAddresses.length;
+
+            try {
+                const response = await fetch(`${config.api.url}/permissions/ip/remove`, {
+                    method: "DELETE",
+                    headers: { ...headers, "Content-Type": "application/json" },
+                    body: JSON.stringify({ user_id: userId, ip_addresses: ipAddresses }),
+                });
+
+                if (!response.ok) {
+                    throw new Error(`status ${response.status}`);
+                }
+
+                deleteIpEntryDetails(userId, ipAddresses);
+                summary.removed += ipAddresses.length;
+                console.log(`✅ Removed ${ipAddresses.length} expired IP entries for user ${userId}`);
+            } catch (error: any) {
+                summary.failed += ipAddresses.length;
+                console.error(`❌ Unable to remove expired IP entries for user ${userId}:`, error.message || error);
+            }
+        }
+
+        return NextResponse.json({ success: true, data: summary });
+    } catch (error: any) {
+        console.error("❌ Error expiring IP entries:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "IP expiry tick failed",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Point Budgets Endpoint
+ * Persists thresholds and auto top-up rules via lib/db/point-budget-storage
+ *
+ * GET /api/v1/admin/point-budgets - every low-balance threshold and auto top-up rule
+ *
+ * Requires the manage_points permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllThresholds, getAllTopUpRules } from "@/lib/db/point-budget-storage";
+import { Permission } from "@/lib/utils/rbac";
+import type { PointBudgets } from "@/lib/types/point-budgets";
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const data: PointBudgets = {
+            thresholds: getAllThresholds(),
+            rules: getAllTopUpRules(),
+        };
+
+        return NextResponse.json({ success: true, data });
+    } catch (error: any) {
+        console.error("❌ Error fetching point budgets:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch point budgets",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * Single Auto Top-up Rule Endpoint
+ *
+ * PATCH  /api/v1/admin/point-budgets/rules/:id - edit a rule, or enable/disable it
+ * DELETE /api/v1/admin/point-budgets/rules/:id - delete a rule
+ *
+ * Requires the manage_points permission. Changing the schedule or re-enabling a rule
+ * moves its next run to the next future time; missed runs are not replayed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { deleteTopUpRule, findTopUpRuleById, updateTopUpRule } from "@/lib/db/point-budget-storage";
+import { getNextRunTime } from "@/lib/utils/export-schedule";
+import { describeTopUpAudience, validateTopUpRule } from "@/lib/utils/point-budgets";
+import { Permission } from "@/lib/utils/rbac";
+import type { SaveAutoTopUpRuleInput } from "@/lib/types/point-budgets";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function ruleNotFound() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: "Not found",
+            message: "Auto top-up rule not found",
+        },
+        { status: 404 }
+    );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const existing = findTopUpRuleById(id);
+
+        if (!existing) {
+            return ruleNotFound();
+        }
+
+        const body: Partial<SaveAutoTopUpRuleInput> = await request.json();
+        const merged: SaveAutoTopUpRuleInput = {
+            name: body.name ?? existing.name,
+            enabled: body.enabled ?? existing.enabled,
+            roles: body.roles ?? existing.roles,
+            paidStatus: body.paidStatus ?? existing.paidStatus,
+            userIds: body.userIds ?? existing.userIds,
+            targetBalance: body.targetBalance ?? existing.targetBalance,
+            schedule: body.schedule ?? existing.schedule,
+        };
+        const errors = validateTopUpRule(merged);
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const rescheduled = body.schedule !== undefined || (merged.enabled && !existing.enabled);
+        const updated = updateTopUpRule(id, {
+            ...merged,
+            name: merged.name.trim(),
+            userIds: merged.userIds.map((userId) => userId.trim()),
+            nextRunAt: !merged.enabled
+                ? null
+                : rescheduled
+                  ? getNextRunTime(merged.schedule, new Date())?.toISOString() ?? null
+                  : existing.nextRunAt,
+        });
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save auto top-up rule",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Auto top-up rule ${id} updated by ${user.username}`);
+        recordAdminAction(user, {
+            action: "points.top_up_rule",
+            targetType: "top_up_rule",
+            targetId: updated.id,
+            targetName: updated.name,
+            outcome: "success",
+            details: {
+                change: "updated",
+                audience: describeTopUpAudience(updated),
+                targetBalance: updated.targetBalance,
+                enabled: updated.enabled,
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Auto top-up rule updated",
+            data: updated,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating auto top-up rule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update auto top-up rule",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const existing = findTopUpRuleById(id);
+
+        if (!existing || !deleteTopUpRule(id)) {
+            return ruleNotFound();
+        }
+
+        console.log(`✅ Auto top-up rule ${id} deleted by ${user.username}`);
+        recordAdminAction(user, {
+            action: "points.top_up_rule",
+            targetType: "top_up_rule",
+            targetId: existing.id,
+            targetName: existing.name,
+            outcome: "success",
+            details: { change: "deleted" },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Auto top-up rule deleted",
+        });
+    } catch (error: any) {
+        console.error("❌ Error deleting auto top-up rule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to delete auto top-up rule",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type RulesRoute = typeof import("../route");
+
+const admin = sessionUser();
+
+const rule = {
+  name: "Daily refill",
+  roles: ["general_user"],
+  paidStatus: "paid",
+  userIds: [],
+  targetBalance: 1000,
+  schedule: { frequency: "daily", time: "00:00" },
+};
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/point-budgets/rules", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/v1/admin/point-budgets/rules", () => {
+  useTempDataDir("top-up-rules-");
+
+  let route: RulesRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a name, a positive target balance and a schedule", async () => {
+    const response = await route.POST(post({ ...rule, name: " ", targetBalance: -5, schedule: undefined }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["name", "targetBalance", "schedule"]);
+  });
+
+  it("rejects unknown roles, paid statuses and blank user IDs", async () => {
+    const response = await route.POST(
+      post({ ...rule, roles: ["constructor"], paidStatus: "hasOwnProperty", userIds: [" "] })
+    );
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["roles", "paidStatus", "userIds"]);
+  });
+
+  it("schedules the first run of an enabled rule", async () => {
+    const response = await route.POST(post(rule));
+    const { data } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data).toMatchObject({ name: "Daily refill", enabled: true, lastRunAt: null });
+    expect(new Date(data.nextRunAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("leaves a disabled rule unscheduled", async () => {
+    const response = await route.POST(post({ ...rule, enabled: false }));
+
+    expect((await response.json()).data.nextRunAt).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Auto Top-up Rules Endpoint
+ *
+ * POST /api/v1/admin/point-budgets/rules - create a rule that refills matching users on a schedule
+ *
+ * Requires the manage_points permission. Rules run from the point budget scheduler tick.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { saveTopUpRule } from "@/lib/db/point-budget-storage";
+import { getNextRunTime } from "@/lib/utils/export-schedule";
+import { describeTopUpAudience, validateTopUpRule } from "@/lib/utils/point-budgets";
+import { Permission } from "@/lib/utils/rbac";
+import type { AutoTopUpRule, SaveAutoTopUpRuleInput } from "@/lib/types/point-budgets";
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const body: SaveAutoTopUpRuleInput = await request.json();
+        const errors = validateTopUpRule(body);
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date();
+        const enabled = body.enabled !== false;
+        const rule: AutoTopUpRule = {
+            id: `topup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: body.name.trim(),
+            enabled,
+            roles: body.roles,
+            paidStatus: body.paidStatus,
+            userIds: body.userIds.map((id) => id.trim()),
+            targetBalance: body.targetBalance,
+            schedule: body.schedule,
+            nextRunAt: enabled ? getNextRunTime(body.schedule, now)?.toISOString() ?? null : null,
+            lastRunAt: null,
+            lastRunSummary: null,
+            createdBy: user.username,
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString(),
+        };
+
+        if (!saveTopUpRule(rule)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save auto top-up rule",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Auto top-up rule created by ${user.username}:`, rule.id);
+        recordAdminAction(user, {
+            action: "points.top_up_rule",
+            targetType: "top_up_rule",
+            targetId: rule.id,
+            targetName: rule.name,
+            outcome: "success",
+            details: {
+                change: "created",
+                audience: describeTopUpAudience(rule),
+                targetBalance: rule.targetBalance,
+                enabled: rule.enabled,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Auto top-up rule created",
+                data: rule,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating auto top-up rule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to create auto top-up rule",
+            },
+            { status: 500 }
+        );
+    }
+}
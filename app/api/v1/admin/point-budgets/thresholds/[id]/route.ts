@@ -0,0 +1,139 @@
+/**
+ * Single Point Threshold Endpoint
+ *
+ * PATCH  /api/v1/admin/point-budgets/thresholds/:id - change the threshold amount
+ * DELETE /api/v1/admin/point-budgets/thresholds/:id - remove the threshold and its pending alerts
+ *
+ * Requires the manage_points permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { deleteThreshold, findThresholdById, updateThreshold } from "@/lib/db/point-budget-storage";
+import { validatePointThreshold } from "@/lib/utils/point-budgets";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function thresholdNotFound() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: "Not found",
+            message: "Threshold not found",
+        },
+        { status: 404 }
+    );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const existing = findThresholdById(id);
+
+        if (!existing) {
+            return thresholdNotFound();
+        }
+
+        const body: { threshold?: number } = await request.json();
+        const { threshold: thresholdError } = validatePointThreshold({ ...existing, threshold: body.threshold });
+
+        if (thresholdError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: thresholdError,
+                    details: { threshold: thresholdError },
+                },
+                { status: 400 }
+            );
+        }
+
+        const updated = updateThreshold(id, { threshold: body.threshold });
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save threshold",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Point threshold ${id} updated by ${user.username}`);
+        recordAdminAction(user, {
+            action: "points.threshold",
+            targetType: updated.scope,
+            targetId: updated.targetId,
+            targetName: updated.targetName,
+            outcome: "success",
+            details: { change: "updated", from: existing.threshold, threshold: updated.threshold },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Threshold updated",
+            data: updated,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating point threshold:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update threshold",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const existing = findThresholdById(id);
+
+        if (!existing || !deleteThreshold(id)) {
+            return thresholdNotFound();
+        }
+
+        console.log(`✅ Point threshold ${id} deleted by ${user.username}`);
+        recordAdminAction(user, {
+            action: "points.threshold",
+            targetType: existing.scope,
+            targetId: existing.targetId,
+            targetName: existing.targetName,
+            outcome: "success",
+            details: { change: "deleted", threshold: existing.threshold },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Threshold deleted",
+        });
+    } catch (error: any) {
+        console.error("❌ Error deleting point threshold:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to delete threshold",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type ThresholdsRoute = typeof import("../route");
+
+const admin = sessionUser();
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/point-budgets/thresholds", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/v1/admin/point-budgets/thresholds", () => {
+  useTempDataDir("point-thresholds-");
+
+  let route: ThresholdsRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects an unknown scope, a missing target and a non-positive threshold", async () => {
+    const response = await route.POST(post({ scope: "team", targetId: " ", threshold: 0 }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["scope", "targetId", "threshold"]);
+  });
+
+  it("rejects roles that aren't user roles", async () => {
+    const response = await route.POST(post({ scope: "role", targetId: "toString", threshold: 100 }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ targetId: "Unknown role" });
+  });
+
+  it("saves a role threshold under the role's label", async () => {
+    const response = await route.POST(post({ scope: "role", targetId: "general_user", threshold: 100 }));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).data).toMatchObject({ targetName: "General users", threshold: 100 });
+  });
+
+  it("allows one threshold per target", async () => {
+    await route.POST(post({ scope: "user", targetId: "user-1", threshold: 100 }));
+    const response = await route.POST(post({ scope: "user", targetId: " user-1 ", threshold: 50 }));
+
+    expect(response.status).toBe(409);
+  });
+});
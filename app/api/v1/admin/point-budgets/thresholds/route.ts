@@ -0,0 +1,109 @@
+/**
+ * Point Thresholds Endpoint
+ *
+ * POST /api/v1/admin/point-budgets/thresholds - set a low-balance threshold for a user or role
+ *
+ * Requires the manage_points permission. Each user or role has at most one threshold.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { findThresholdByTarget, saveThreshold } from "@/lib/db/point-budget-storage";
+import { POINT_ROLE_LABELS, validatePointThreshold } from "@/lib/utils/point-budgets";
+import { Permission } from "@/lib/utils/rbac";
+import type { UserRole } from "@/lib/types/auth";
+import type { PointThreshold, SavePointThresholdInput } from "@/lib/types/point-budgets";
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const body: SavePointThresholdInput = await request.json();
+        const errors = validatePointThreshold(body);
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const targetId = body.targetId.trim();
+
+        if (findThresholdByTarget(body.scope, targetId)) {
+            const message = `A threshold already exists for this ${body.scope}`;
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message,
+                    details: { targetId: message },
+                },
+                { status: 409 }
+            );
+        }
+
+        const now = new Date().toISOString();
+        const threshold: PointThreshold = {
+            id: `threshold_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            scope: body.scope,
+            targetId,
+            targetName:
+                body.scope === "role"
+                    ? POINT_ROLE_LABELS[targetId as UserRole]
+                    : body.targetName?.trim() || undefined,
+            threshold: body.threshold,
+            createdBy: user.username,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        if (!saveThreshold(threshold)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save threshold",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Point threshold set by ${user.username}:`, threshold.scope, threshold.targetId);
+        recordAdminAction(user, {
+            action: "points.threshold",
+            targetType: threshold.scope,
+            targetId: threshold.targetId,
+            targetName: threshold.targetName,
+            outcome: "success",
+            details: { change: "created", threshold: threshold.threshold },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Threshold saved",
+                data: threshold,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error saving point threshold:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to save threshold",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,276 @@
+/**
+ * Point Budget Scheduler Tick Endpoint
+ *
+ * POST /api/v1/admin/point-budgets/tick - called by cron (see scripts/run-point-budgets.js)
+ * with the X-Scheduler-Secret header. Each tick:
+ *   1. runs every enabled auto top-up rule whose next run time has passed, refilling matching
+ *      users to the rule's target balance and recording a top-up in their points ledger
+ *   2. notifies users who have dropped below their low-balance threshold since they were last alerted
+ *
+ * Uses the POINT_BUDGET_SCHEDULER_* credentials. Missed top-ups are not replayed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSchedulerHeaders, isSchedulerRequest } from "@/lib/auth/scheduler-credentials";
+import {
+    clearAlert,
+    getAllAlerts,
+    getAllThresholds,
+    getAllTopUpRules,
+    saveAlert,
+    updateTopUpRule,
+} from "@/lib/db/point-budget-storage";
+import { appendLedgerEntries, getLedgerEntries } from "@/lib/db/points-ledger-storage";
+import { getNextRunTime } from "@/lib/utils/export-schedule";
+import {
+    buildLowBalanceNotification,
+    evaluatePointBudget,
+    findEffectiveThreshold,
+    getTopUpAmount,
+    matchesTopUpRule,
+} from "@/lib/utils/point-budgets";
+import { planLedgerEntries } from "@/lib/utils/points-ledger";
+import { apiEndpoints, config } from "@/lib/config";
+import type { CreateNotificationRequest } from "@/lib/api/notifications";
+import type { AutoTopUpRule, AutoTopUpRunSummary } from "@/lib/types/point-budgets";
+
+interface BudgetUser {
+    id: string;
+    username: string;
+    role: string;
+    paidStatus: string;
+    balance: number;
+}
+
+// Ledger actor for changes made by the scheduler
+const SCHEDULER_ACTOR = { id: "scheduler", username: "Auto top-up" };
+
+// Largest page the backend user list allows
+const USER_PAGE_SIZE = 100;
+
+async function fetchAllUsers(headers: Record<string, string>): Promise<BudgetUser[]> {
+    const users: BudgetUser[] = [];
+
+    for (let page = 1; ; page++) {
+        const response = await fetch(
+            `${config.api.url}${apiEndpoints.users.getAllUsers}?limit=${USER_PAGE_SIZE}&page=${page}`,
+            { headers, cache: "no-store" }
+        );
+
+        if (!response.ok) {
+            throw new Error(`Unable to list users (status ${response.status})`);
+        }
+
+        const data = await response.json();
+        const batch: any[] = Array.isArray(data?.users) ? data.users : [];
+
+        for (const user of batch) {
+            users.push({
+                id: String(user.id),
+                username: user.username,
+                role: user.role || user.user_status,
+                paidStatus: user.paid_status || user.points?.paid_status || "Unknown",
+                balance: user.point_balance ?? user.points?.current_points ?? 0,
+            });
+        }
+
+        const pagination = data?.pagination;
+        const hasMore = pagination?.total_pages
+            ? page < pagination.total_pages
+            : batch.length === USER_PAGE_SIZE;
+        if (!hasMore) return users;
+    }
+}
+
+/**
+ * Refill one user to the rule's target. Returns the points added, or null when the backend refused.
+ */
+async function topUpUser(
+    headers: Record<string, string>,
+    rule: AutoTopUpRule,
+    user: BudgetUser
+): Promise<number | null> {
+    const amount = getTopUpAmount(rule.targetBalance, user.balance);
+
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.users.list}/${user.id}/points`, {
+            method: "PATCH",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify({ points: rule.targetBalance }),
+        });
+
+        if (!response.ok) {
+            console.warn("⚠️ Auto top-up rejected:", rule.id, user.id, response.status);
+            return null;
+        }
+    } catch (error) {
+        console.warn("⚠️ Auto top-up failed:", rule.id, user.id, error);
+        return null;
+    }
+
+    appendLedgerEntries(
+        planLedgerEntries(
+            getLedgerEntries(user.id),
+            user.id,
+            {
+                username: user.username,
+                type: "top_up",
+                amount,
+                reason: `Auto top-up: ${rule.name}`,
+                currentBalance: Math.max(0, user.balance),
+            },
+            SCHEDULER_ACTOR
+        )
+    );
+
+    return amount;
+}
+
+async function runRule(
+    headers: Record<string, string>,
+    rule: AutoTopUpRule,
+    users: BudgetUser[],
+    now: Date
+): Promise<AutoTopUpRunSummary> {
+    const summary: AutoTopUpRunSummary = { matched: 0, toppedUp: 0, failed: 0, pointsAdded: 0 };
+
+    for (const user of users) {
+        if (!matchesTopUpRule(rule, user)) continue;
+        summary.matched++;
+
+        if (getTopUpAmount(rule.targetBalance, user.balance) === 0) continue;
+
+        const added = await topUpUser(headers, rule, user);
+        if (added === null) {
+            summary.failed++;
+        } else {
+            summary.toppedUp++;
+            summary.pointsAdded += added;
+            user.balance = rule.targetBalance;
+        }
+    }
+
+    updateTopUpRule(rule.id, {
+        lastRunAt: now.toISOString(),
+        nextRunAt: getNextRunTime(rule.schedule, now)?.toISOString() ?? null,
+        lastRunSummary: summary,
+    });
+    console.log(
+        `✅ Auto top-up "${rule.name}": ${summary.toppedUp}/${summary.matched} users topped up, ${summary.failed} failed`
+    );
+
+    return summary;
+}
+
+async function notifyLowBalance(headers: Record<string, string>, payload: CreateNotificationRequest) {
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.notifications.adminCreate}`, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            console.warn("⚠️ Failed to send low balance notification:", response.status);
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.warn("⚠️ Failed to send low balance notification:", error);
+        return false;
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (!isSchedulerRequest(request, "POINT_BUDGET_SCHEDULER")) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Invalid scheduler secret",
+            },
+            { status: 401 }
+        );
+    }
+
+    const headers = getSchedulerHeaders("POINT_BUDGET_SCHEDULER");
+
+    if (!headers) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Service unavailable",
+                message: "POINT_BUDGET_SCHEDULER_TOKEN is not configured",
+            },
+            { status: 503 }
+        );
+    }
+
+    try {
+        const now = new Date();
+        const thresholds = getAllThresholds();
+        const due = getAllTopUpRules().filter(
+            (rule) =>
+                rule.enabled && rule.nextRunAt && new Date(rule.nextRunAt).getTime() <= now.getTime()
+        );
+
+        if (due.length === 0 && thresholds.length === 0) {
+            return NextResponse.json({
+                success: true,
+                data: { rulesRun: 0, usersToppedUp: 0, failedTopUps: 0, pointsAdded: 0, alertsSent: 0 },
+            });
+        }
+
+        const users = await fetchAllUsers(headers);
+        let usersToppedUp = 0;
+        let failedTopUps = 0;
+        let pointsAdded = 0;
+        let alertsSent = 0;
+
+        // 1. Run due top-up rules (balances are updated in place for the threshold check)
+        for (const rule of due) {
+            const summary = await runRule(headers, rule, users, now);
+            usersToppedUp += summary.toppedUp;
+            failedTopUps += summary.failed;
+            pointsAdded += summary.pointsAdded;
+        }
+
+        // 2. Alert users who are newly below their threshold and re-arm those who recovered
+        const alerts = new Map(getAllAlerts().map((alert) => [alert.userId, alert]));
+        for (const user of users) {
+            const threshold = findEffectiveThreshold(thresholds, user.id, user.role);
+            const status = evaluatePointBudget(user.id, user.balance, threshold, alerts.get(user.id));
+
+            if (!status.low) {
+                if (alerts.has(user.id)) clearAlert(user.id);
+            } else if (status.crossed && threshold) {
+                if (await notifyLowBalance(headers, buildLowBalanceNotification(status))) {
+                    alertsSent++;
+                    saveAlert({
+                        userId: user.id,
+                        thresholdId: threshold.id,
+                        threshold: threshold.threshold,
+                        balance: user.balance,
+                        alertedAt: now.toISOString(),
+                    });
+                }
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { rulesRun: due.length, usersToppedUp, failedTopUps, pointsAdded, alertsSent },
+        });
+    } catch (error: any) {
+        console.error("❌ Error running point budget scheduler:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Point budget scheduler tick failed",
+            },
+            { status: 500 }
+        );
+    }
+}
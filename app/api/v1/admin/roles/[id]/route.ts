@@ -0,0 +1,211 @@
+/**
+ * Single Role Endpoint
+ *
+ * PATCH  /api/v1/admin/roles/:id - edit a role's permissions (and name/description/base role for custom roles)
+ * DELETE /api/v1/admin/roles/:id - delete a custom role and unassign it from its users
+ *
+ * Requires the manage_user_roles permission. Super user permissions are fixed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { deleteRole, findRoleById, getRoleMatrix, saveRole } from "@/lib/db/role-storage";
+import { isLockedRole, isRoleNameTaken, sanitizePermissions, validateRoleName } from "@/lib/utils/role-matrix";
+import { Permission } from "@/lib/utils/rbac";
+import { UserRole } from "@/lib/types/auth";
+import type { RoleDefinition, UpdateRoleInput } from "@/lib/types/roles";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function roleNotFound() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: "Not found",
+            message: "Role not found",
+        },
+        { status: 404 }
+    );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        const { id } = await params;
+        const role = findRoleById(id);
+
+        if (!role) {
+            return roleNotFound();
+        }
+
+        if (isLockedRole(role.id)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Forbidden",
+                    message: "Super user permissions can't be changed",
+                },
+                { status: 403 }
+            );
+        }
+
+        const body: UpdateRoleInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (role.builtIn && (body.name !== undefined || body.description !== undefined || body.baseRole !== undefined)) {
+            errors.role = "Only the permissions of built-in roles can be changed";
+        }
+
+        if (body.name !== undefined) {
+            const nameError = validateRoleName(body.name);
+            if (nameError) {
+                errors.name = nameError;
+            }
+        }
+
+        if (body.baseRole !== undefined && !Object.values(UserRole).includes(body.baseRole)) {
+            errors.baseRole = "Base role must be a built-in role";
+        }
+
+        if (body.permissions !== undefined && !Array.isArray(body.permissions)) {
+            errors.permissions = "Permissions must be a list";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (body.name !== undefined && isRoleNameTaken(body.name, getRoleMatrix().roles, role.id)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "A role with this name already exists",
+                    details: { name: "A role with this name already exists" },
+                },
+                { status: 409 }
+            );
+        }
+
+        const updated: RoleDefinition = {
+            ...role,
+            ...(body.name !== undefined && { name: body.name.trim() }),
+            ...(body.description !== undefined && { description: body.description.trim() }),
+            ...(body.baseRole !== undefined && { baseRole: body.baseRole }),
+            ...(body.permissions !== undefined && { permissions: sanitizePermissions(body.permissions) }),
+            updatedAt: new Date().toISOString(),
+        };
+
+        if (!saveRole(updated)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save role",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Role ${updated.id} updated by ${user.username}`);
+        recordAdminAction(user, {
+            action: "role.update",
+            targetType: "role",
+            targetId: updated.id,
+            targetName: updated.name,
+            outcome: "success",
+            details: { changes: body },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Role updated",
+            data: updated,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating role:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update role",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        const { id } = await params;
+        const role = findRoleById(id);
+
+        if (!role) {
+            return roleNotFound();
+        }
+
+        if (role.builtIn) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Forbidden",
+                    message: "Built-in roles can't be deleted",
+                },
+                { status: 403 }
+            );
+        }
+
+        if (!deleteRole(role.id)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to delete role",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Role ${role.id} deleted by ${user.username}`);
+        recordAdminAction(user, {
+            action: "role.delete",
+            targetType: "role",
+            targetId: role.id,
+            targetName: role.name,
+            outcome: "success",
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "Role deleted",
+        });
+    } catch (error: any) {
+        console.error("❌ Error deleting role:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to delete role",
+            },
+            { status: 500 }
+        );
+    }
+}
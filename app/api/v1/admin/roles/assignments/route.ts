@@ -0,0 +1,98 @@
+/**
+ * Role Assignments Endpoint
+ *
+ * PUT /api/v1/admin/roles/assignments - give a user a custom role, or remove it (roleId: null)
+ *
+ * Requires the manage_user_roles permission. Users without an assignment use their built-in role.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { findRoleById, setRoleAssignment } from "@/lib/db/role-storage";
+import { Permission } from "@/lib/utils/rbac";
+import type { AssignRoleInput, RoleAssignment } from "@/lib/types/roles";
+
+export async function PUT(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        const body: AssignRoleInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (typeof body.userId !== "string" || !body.userId.trim()) {
+            errors.userId = "User is required";
+        }
+
+        const role = body.roleId ? findRoleById(body.roleId) : null;
+        if (body.roleId && !role) {
+            errors.roleId = "Role not found";
+        } else if (role?.builtIn) {
+            errors.roleId = "Built-in roles come from the user's account; choose a custom role";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const userId = body.userId.trim();
+        const assignment: RoleAssignment | null = role
+            ? {
+                  userId,
+                  username: body.username?.trim() || userId,
+                  roleId: role.id,
+                  assignedBy: user.username,
+                  assignedAt: new Date().toISOString(),
+              }
+            : null;
+
+        if (!setRoleAssignment(userId, assignment)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save role assignment",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(
+            `✅ ${user.username} ${role ? `assigned ${role.id} to` : "removed the custom role of"} user ${body.userId}`
+        );
+        recordAdminAction(user, {
+            action: "role.assign",
+            targetType: "user",
+            targetId: userId,
+            targetName: body.username?.trim() || undefined,
+            outcome: "success",
+            details: { roleId: role?.id ?? null, roleName: role?.name ?? null },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: role ? `Assigned ${role.name}` : "Custom role removed",
+            data: assignment,
+        });
+    } catch (error: any) {
+        console.error("❌ Error assigning role:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to assign role",
+            },
+            { status: 500 }
+        );
+    }
+}
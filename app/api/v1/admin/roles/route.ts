@@ -0,0 +1,142 @@
+/**
+ * Role Matrix Endpoint
+ *
+ * GET  /api/v1/admin/roles - all roles (built-in and custom) with their permissions, and assignments
+ * POST /api/v1/admin/roles - create a custom role
+ *
+ * Requires the manage_user_roles permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { getRoleMatrix, saveRole } from "@/lib/db/role-storage";
+import {
+    getRoleIdForName,
+    isRoleNameTaken,
+    sanitizePermissions,
+    validateRoleName,
+} from "@/lib/utils/role-matrix";
+import { Permission } from "@/lib/utils/rbac";
+import { UserRole } from "@/lib/types/auth";
+import type { CreateRoleInput, RoleDefinition } from "@/lib/types/roles";
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        return NextResponse.json({
+            success: true,
+            data: getRoleMatrix(),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching roles:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch roles",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        const body: CreateRoleInput = await request.json();
+        const baseRole = body.baseRole ?? UserRole.GENERAL_USER;
+        const errors: Record<string, string> = {};
+
+        const nameError = validateRoleName(body.name);
+        if (nameError) {
+            errors.name = nameError;
+        }
+
+        if (!Object.values(UserRole).includes(baseRole)) {
+            errors.baseRole = "Base role must be a built-in role";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (isRoleNameTaken(body.name, getRoleMatrix().roles)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "A role with this name already exists",
+                    details: { name: "A role with this name already exists" },
+                },
+                { status: 409 }
+            );
+        }
+
+        const now = new Date().toISOString();
+        const role: RoleDefinition = {
+            id: getRoleIdForName(body.name),
+            name: body.name.trim(),
+            description: body.description?.trim() || "",
+            builtIn: false,
+            baseRole,
+            permissions: sanitizePermissions(body.permissions),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        if (!saveRole(role)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save role",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Role created by ${user.username}:`, role.id);
+        recordAdminAction(user, {
+            action: "role.create",
+            targetType: "role",
+            targetId: role.id,
+            targetName: role.name,
+            outcome: "success",
+            details: { baseRole: role.baseRole, permissions: role.permissions },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Role created",
+                data: role,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating role:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to create role",
+            },
+            { status: 500 }
+        );
+    }
+}
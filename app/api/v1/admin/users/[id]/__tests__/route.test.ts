@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+import { UserRole } from "@/lib/types/auth";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type UserRoute = typeof import("../route");
+type AuditStorage = typeof import("@/lib/db/admin-audit-storage");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+
+const del = (query = "") =>
+  new NextRequest(`http://localhost/api/v1/admin/users/user-1${query}`, { method: "DELETE" });
+
+describe("DELETE /api/v1/admin/users/:id", () => {
+  useTempDataDir("admin-user-delete-");
+
+  let route: UserRoute;
+  let audit: AuditStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.mocked(getSessionToken).mockReturnValue("admin-token");
+    fetchMock = jest.fn().mockResolvedValue(new Response(JSON.stringify({ message: "ok" }), { status: 200 }));
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      audit = require("@/lib/db/admin-audit-storage");
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("deletes the user on the backend and records it", async () => {
+    const response = await route.DELETE(del(), context);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls[0][0]).toContain("/delete/delete_user/user-1");
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({ action: "user.delete", targetId: "user-1", outcome: "success" });
+  });
+
+  it("deletes a super user through the super user endpoint and records it", async () => {
+    const response = await route.DELETE(del("?role=super_user"), context);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls[0][0]).toContain("/delete/delete_super_user/user-1/");
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({
+      actorId: "admin-1",
+      action: "super_user.delete",
+      targetId: "user-1",
+      outcome: "success",
+    });
+  });
+
+  it("only lets super users delete a super user", async () => {
+    jest.mocked(requirePermission).mockResolvedValue({ user: sessionUser({ role: UserRole.ADMIN_USER }) });
+
+    const response = await route.DELETE(del("?role=super_user"), context);
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("records a failed deletion with the backend's error", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ detail: "User not found" }), { status: 404 }));
+
+    const response = await route.DELETE(del(), context);
+
+    expect(response.status).toBe(404);
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({ action: "user.delete", outcome: "failure" });
+  });
+});
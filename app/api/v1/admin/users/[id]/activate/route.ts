@@ -0,0 +1,45 @@
+/**
+ * User Activation Endpoint
+ *
+ * POST /api/v1/admin/users/:id/activate - toggle the user's account between active and inactive
+ *
+ * Requires the edit_users permission. Runs on the backend with the caller's token and is
+ * recorded in the admin audit log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAdminAction } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+
+        return runAdminAction(
+            request,
+            user,
+            { method: "POST", path: `/auth/admin/users/${id}/activate`, body: {} },
+            { action: "user.activate", targetType: "user", targetId: id },
+            "User status updated"
+        );
+    } catch (error: any) {
+        console.error("❌ Error activating user:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update user status",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * Legacy API Key Endpoint
+ *
+ * POST /api/v1/admin/users/:id/api-key - generate a new single backend API key for the user,
+ *      replacing the old one. Named keys are under /api-keys.
+ *
+ * Requires the edit_users permission. Runs on the backend with the caller's token and is
+ * recorded in the admin audit log (without the key).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAdminAction } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+
+        return runAdminAction(
+            request,
+            user,
+            { method: "POST", path: `/auth/generate_api_key/${id}`, body: {} },
+            { action: "api_key.regenerate", targetType: "user", targetId: id },
+            "API key generated"
+        );
+    } catch (error: any) {
+        console.error("❌ Error generating API key:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to generate API key",
+            },
+            { status: 500 }
+        );
+    }
+}
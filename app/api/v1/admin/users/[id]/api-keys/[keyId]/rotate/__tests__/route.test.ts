@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type RotateRoute = typeof import("../route");
+type ApiKeyStorage = typeof import("@/lib/db/api-key-storage");
+
+const admin = sessionUser();
+
+const rotate = (graceHours: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/users/user-1/api-keys/key/rotate", {
+    method: "POST",
+    body: JSON.stringify({ graceHours }),
+  });
+
+describe("POST /api/v1/admin/users/:id/api-keys/:keyId/rotate", () => {
+  useTempDataDir("api-key-rotate-");
+
+  let route: RotateRoute;
+  let storage: ApiKeyStorage;
+  let keyId: string;
+
+  const context = (userId = "user-1") => ({ params: Promise.resolve({ id: userId, keyId }) });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.isolateModules(() => {
+      storage = require("@/lib/db/api-key-storage");
+      route = require("../route");
+    });
+
+    keyId = storage.createApiKey("user-1", { name: "Booking engine", scopes: ["exports"], expiresAt: null }, "root")!
+      .record.id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("only finds the user's own keys", async () => {
+    expect((await route.POST(rotate(24), context("user-2"))).status).toBe(404);
+  });
+
+  it("rejects a negative grace period", async () => {
+    const response = await route.POST(rotate(-1), context());
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["graceHours"]);
+  });
+
+  it("issues a replacement and refuses to rotate the old key again", async () => {
+    const response = await route.POST(rotate(24), context());
+    const { data } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.key).toMatchObject({ name: "Booking engine", scopes: ["exports"] });
+    expect(storage.findApiKey("user-1", keyId)).toMatchObject({ replacedById: data.key.id });
+    expect((await route.POST(rotate(24), context())).status).toBe(409);
+  });
+});
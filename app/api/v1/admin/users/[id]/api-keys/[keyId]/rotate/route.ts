@@ -0,0 +1,128 @@
+/**
+ * API Key Rotation Endpoint
+ *
+ * POST /api/v1/admin/users/:id/api-keys/:keyId/rotate - issue a replacement with the same name,
+ * scopes and expiry. The old key keeps working for the requested grace period (0 ends it now).
+ *
+ * Requires the edit_users permission. The new secret is only in this response.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { findApiKey, rotateApiKey } from "@/lib/db/api-key-storage";
+import { getApiKeyStatus, getRotationError, toApiKeySummary } from "@/lib/utils/api-keys";
+import { Permission } from "@/lib/utils/rbac";
+import type { IssuedApiKey, RotateApiKeyInput } from "@/lib/types/api-keys";
+
+interface RouteContext {
+    params: Promise<{ id: string; keyId: string }>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id, keyId } = await params;
+        const key = findApiKey(id, keyId);
+
+        if (!key) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "API key not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const body: RotateApiKeyInput = await request.json();
+        const now = new Date();
+
+        if (getApiKeyStatus(key, now) !== "active") {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "Only active keys can be rotated",
+                },
+                { status: 409 }
+            );
+        }
+
+        const rotationError = getRotationError(key, body.graceHours, now);
+
+        if (rotationError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: rotationError,
+                    details: { graceHours: rotationError },
+                },
+                { status: 400 }
+            );
+        }
+
+        const rotated = rotateApiKey(
+            keyId,
+            new Date(now.getTime() + body.graceHours * HOUR_MS).toISOString(),
+            user.username
+        );
+
+        if (!rotated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to rotate API key",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ API key ${keyId} rotated to ${rotated.record.id} by ${user.username}`);
+        recordAdminAction(user, {
+            action: "api_key.rotate",
+            targetType: "user",
+            targetId: id,
+            outcome: "success",
+            details: {
+                key: rotated.record.name,
+                oldPrefix: rotated.replaced.prefix,
+                newPrefix: rotated.record.prefix,
+                graceHours: body.graceHours,
+            },
+        });
+
+        const data: IssuedApiKey = {
+            key: toApiKeySummary(rotated.record, now),
+            secret: rotated.secret,
+            replaced: toApiKeySummary(rotated.replaced, now),
+        };
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "API key rotated",
+                data,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error rotating API key:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to rotate API key",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * Single API Key Endpoint
+ *
+ * DELETE /api/v1/admin/users/:id/api-keys/:keyId - revoke a key straight away
+ *
+ * Requires the edit_users permission. Revoked keys stay listed for history.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { findApiKey, revokeApiKey } from "@/lib/db/api-key-storage";
+import { toApiKeySummary } from "@/lib/utils/api-keys";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string; keyId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id, keyId } = await params;
+        const key = findApiKey(id, keyId);
+
+        if (!key) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "API key not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        if (key.revokedAt) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "This key has already been revoked",
+                },
+                { status: 409 }
+            );
+        }
+
+        const revoked = revokeApiKey(keyId);
+
+        if (!revoked) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to revoke API key",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ API key ${keyId} revoked by ${user.username}`);
+        recordAdminAction(user, {
+            action: "api_key.revoke",
+            targetType: "user",
+            targetId: id,
+            outcome: "success",
+            details: { key: revoked.name, prefix: revoked.prefix },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: "API key revoked",
+            data: toApiKeySummary(revoked),
+        });
+    } catch (error: any) {
+        console.error("❌ Error revoking API key:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to revoke API key",
+            },
+            { status: 500 }
+        );
+    }
+}
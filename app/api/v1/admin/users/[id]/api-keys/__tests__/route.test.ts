@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type ApiKeysRoute = typeof import("../route");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+const url = "http://localhost/api/v1/admin/users/user-1/api-keys";
+
+const post = (body: unknown) => new NextRequest(url, { method: "POST", body: JSON.stringify(body) });
+
+describe("/api/v1/admin/users/:id/api-keys", () => {
+  useTempDataDir("api-keys-");
+
+  let route: ApiKeysRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a name and at least one known scope", async () => {
+    const response = await route.POST(post({ name: " ", scopes: ["admin"] }), context);
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["name", "scopes"]);
+  });
+
+  it("rejects expiries that aren't a whole number of days in range", async () => {
+    const response = await route.POST(post({ name: "Booking engine", scopes: ["exports"], expiresInDays: 1.5 }), context);
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["expiresInDays"]);
+  });
+
+  it("returns the secret once and lists the key without it", async () => {
+    const created = await route.POST(
+      post({ name: "Booking engine", scopes: ["content:read", "content:read"], expiresInDays: 30 }),
+      context
+    );
+    const { data } = await created.json();
+    const listed = await (await route.GET(new NextRequest(url), context)).json();
+
+    expect(created.status).toBe(201);
+    expect(data.secret).toMatch(/^hita_/);
+    expect(data.key).toMatchObject({ name: "Booking engine", scopes: ["content:read"] });
+    expect(listed.data).toHaveLength(1);
+    expect(JSON.stringify(listed.data)).not.toContain(data.secret);
+  });
+
+  it("rejects a second active key with the same name", async () => {
+    await route.POST(post({ name: "Booking engine", scopes: ["exports"] }), context);
+    const response = await route.POST(post({ name: "booking engine", scopes: ["exports"] }), context);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ name: "An active key already has this name" });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * User API Keys Endpoint
+ * Persists named keys via lib/db/api-key-storage
+ *
+ * GET  /api/v1/admin/users/:id/api-keys - every key the user has had, newest first (never the secrets)
+ * POST /api/v1/admin/users/:id/api-keys - issue a named key; the secret is only in this response
+ *
+ * Requires the edit_users permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { createApiKey, getApiKeysForUser } from "@/lib/db/api-key-storage";
+import { toApiKeySummary, validateCreateApiKey } from "@/lib/utils/api-keys";
+import { Permission } from "@/lib/utils/rbac";
+import type { CreateApiKeyInput, IssuedApiKey } from "@/lib/types/api-keys";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const now = new Date();
+
+        return NextResponse.json({
+            success: true,
+            data: getApiKeysForUser(id).map((key) => toApiKeySummary(key, now)),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching API keys:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch API keys",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: CreateApiKeyInput = await request.json();
+        const now = new Date();
+        const errors = validateCreateApiKey(body, getApiKeysForUser(id), now);
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const issued = createApiKey(
+            id,
+            {
+                name: body.name.trim(),
+                scopes: Array.from(new Set(body.scopes)),
+                expiresAt: body.expiresInDays
+                    ? new Date(now.getTime() + body.expiresInDays * DAY_MS).toISOString()
+                    : null,
+            },
+            user.username
+        );
+
+        if (!issued) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save API key",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ API key ${issued.record.id} created for user ${id} by ${user.username}`);
+        recordAdminAction(user, {
+            action: "api_key.create",
+            targetType: "user",
+            targetId: id,
+            outcome: "success",
+            details: {
+                key: issued.record.name,
+                prefix: issued.record.prefix,
+                scopes: issued.record.scopes,
+                expiresAt: issued.record.expiresAt ?? "never",
+            },
+        });
+
+        const data: IssuedApiKey = { key: toApiKeySummary(issued.record, now), secret: issued.secret };
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "API key created",
+                data,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating API key:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to create API key",
+            },
+            { status: 500 }
+        );
+    }
+}
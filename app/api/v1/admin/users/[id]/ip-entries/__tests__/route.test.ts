@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type IpEntriesRoute = typeof import("../route");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+
+const request = (method: "PUT" | "DELETE", body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/users/user-1/ip-entries", {
+    method,
+    body: JSON.stringify(body),
+  });
+
+describe("/api/v1/admin/users/:id/ip-entries", () => {
+  useTempDataDir("ip-entries-");
+
+  let route: IpEntriesRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires at least one entry", async () => {
+    const response = await route.PUT(request("PUT", { entries: [] }), context);
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["entries"]);
+  });
+
+  it("reports invalid addresses, long labels and bad expiry dates per entry", async () => {
+    const response = await route.PUT(
+      request("PUT", {
+        entries: [
+          { ipAddress: "10.0.0.0/33", label: "", expiresAt: null },
+          { ipAddress: "10.0.0.1", label: "x".repeat(81), expiresAt: "soon" },
+        ],
+      }),
+      context
+    );
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual([
+      "entries.0.ipAddress",
+      "entries.1.label",
+      "entries.1.expiresAt",
+    ]);
+  });
+
+  it("stores addresses in canonical form and removes them by any spelling", async () => {
+    const saved = await route.PUT(
+      request("PUT", { entries: [{ ipAddress: "2001:DB8:0:0::/32", label: " Office ", expiresAt: null }] }),
+      context
+    );
+
+    expect((await saved.json()).data).toMatchObject([{ ipAddress: "2001:db8::/32", label: "Office" }]);
+
+    const removed = await route.DELETE(request("DELETE", { ipAddresses: ["2001:db8:0::/32"] }), context);
+
+    expect((await removed.json()).data).toEqual({ removed: 1 });
+  });
+
+  it("requires addresses to remove", async () => {
+    expect((await route.DELETE(request("DELETE", { ipAddresses: [] }), context)).status).toBe(400);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * User IP Entry Details Endpoint
+ * Persists labels and expiry dates of whitelisted IPs via lib/db/ip-entry-storage.
+ * The addresses themselves are added and removed on the backend.
+ *
+ * GET    /api/v1/admin/users/:id/ip-entries - details of the user's entries
+ * PUT    /api/v1/admin/users/:id/ip-entries - add or replace details, { entries: [{ ipAddress, label, expiresAt }] }
+ * DELETE /api/v1/admin/users/:id/ip-entries - forget details of removed entries, { ipAddresses }
+ *
+ * Addresses are stored in canonical form (see lib/utils/ip-ranges). Requires the edit_users permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { deleteIpEntryDetails, getIpEntryDetails, saveIpEntryDetails } from "@/lib/db/ip-entry-storage";
+import { getIpRangeError, parseIpRange } from "@/lib/utils/ip-ranges";
+import { Permission } from "@/lib/utils/rbac";
+import type { RemoveIpEntryDetailsInput, SaveIpEntryDetailsInput } from "@/lib/types/ip-permissions";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Most entries accepted in one request (one bulk paste)
+const MAX_ENTRIES = 500;
+const MAX_LABEL_LENGTH = 80;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+
+        return NextResponse.json({
+            success: true,
+            data: getIpEntryDetails(id),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching IP entry details:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch IP entry details",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: SaveIpEntryDetailsInput = await request.json();
+        const entries = Array.isArray(body.entries) ? body.entries : [];
+        const errors: Record<string, string> = {};
+
+        if (entries.length === 0) {
+            errors.entries = "At least one entry is required";
+        } else if (entries.length > MAX_ENTRIES) {
+            errors.entries = `At most ${MAX_ENTRIES} entries can be saved at once`;
+        }
+
+        entries.forEach((entry, index) => {
+            const ipError = getIpRangeError(String(entry?.ipAddress ?? ""));
+            if (ipError) {
+                errors[`entries.${index}.ipAddress`] = ipError;
+            }
+            if (typeof entry?.label === "string" && entry.label.trim().length > MAX_LABEL_LENGTH) {
+                errors[`entries.${index}.label`] = `Label must be ${MAX_LABEL_LENGTH} characters or fewer`;
+            }
+            if (entry?.expiresAt && isNaN(new Date(entry.expiresAt).getTime())) {
+                errors[`entries.${index}.expiresAt`] = "Expiry must be a valid date";
+            }
+        });
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const saved = saveIpEntryDetails(
+            id,
+            entries.map((entry) => ({
+                ipAddress: parseIpRange(entry.ipAddress)!.normalized,
+                label: entry.label?.trim() ?? "",
+                expiresAt: entry.expiresAt ? new Date(entry.expiresAt).toISOString() : null,
+            })),
+            user.username
+        );
+
+        if (!saved) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save IP entry details",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Saved details of ${saved.length} IP entries for user ${id} by ${user.username}`);
+
+        return NextResponse.json({
+            success: true,
+            message: "IP entry details saved",
+            data: saved,
+        });
+    } catch (error: any) {
+        console.error("❌ Error saving IP entry details:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to save IP entry details",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: RemoveIpEntryDetailsInput = await request.json();
+
+        if (!Array.isArray(body.ipAddresses) || body.ipAddresses.length === 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "At least one IP address is required",
+                    details: { ipAddresses: "At least one IP address is required" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const ipAddresses = body.ipAddresses.map((ip) => parseIpRange(String(ip))?.normalized ?? String(ip));
+        const removed = deleteIpEntryDetails(id, ipAddresses);
+
+        return NextResponse.json({
+            success: true,
+            message: `Removed details of ${removed} IP entr${removed === 1 ? "y" : "ies"}`,
+            data: { removed },
+        });
+    } catch (error: any) {
+        console.error("❌ Error removing IP entry details:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to remove IP entry details",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * User Permission Overrides Endpoint
+ *
+ * GET /api/v1/admin/users/:id/permissions?role=<built-in role> - the user's effective permissions and where each comes from
+ * PUT /api/v1/admin/users/:id/permissions - replace the user's granted and denied permissions
+ *
+ * GET requires view_all_users; PUT requires manage_user_roles. The user's built-in role is passed
+ * in because it lives on the backend; a custom role assignment from the matrix takes precedence.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { recordAdminAction } from "@/lib/db/admin-audit-storage";
+import { getRoleMatrix, setPermissionOverride } from "@/lib/db/role-storage";
+import {
+    getUserPermissionSummary,
+    sanitizePermissions,
+    validatePermissionOverrides,
+} from "@/lib/utils/role-matrix";
+import { Permission } from "@/lib/utils/rbac";
+import { UserRole } from "@/lib/types/auth";
+import type { UpdatePermissionOverridesInput, UserPermissionOverride } from "@/lib/types/roles";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function isUserRole(value: unknown): value is UserRole {
+    return Object.values(UserRole).includes(value as UserRole);
+}
+
+function invalidRole() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: "Validation failed",
+            message: "A valid built-in role is required",
+            details: { role: "A valid built-in role is required" },
+        },
+        { status: 400 }
+    );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_ALL_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const role = request.nextUrl.searchParams.get("role");
+
+        if (!isUserRole(role)) {
+            return invalidRole();
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: getUserPermissionSummary({ id, role }, getRoleMatrix()),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching user permissions:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch user permissions",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_USER_ROLES);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: UpdatePermissionOverridesInput = await request.json();
+
+        if (!isUserRole(body.role)) {
+            return invalidRole();
+        }
+
+        const overridesError = validatePermissionOverrides(body.granted, body.denied);
+        if (overridesError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: overridesError,
+                    details: { overrides: overridesError },
+                },
+                { status: 400 }
+            );
+        }
+
+        const granted = sanitizePermissions(body.granted);
+        const denied = sanitizePermissions(body.denied);
+        const override: UserPermissionOverride | null =
+            granted.length > 0 || denied.length > 0
+                ? {
+                      userId: id,
+                      username: body.username?.trim() || id,
+                      granted,
+                      denied,
+                      updatedBy: user.username,
+                      updatedAt: new Date().toISOString(),
+                  }
+                : null;
+
+        if (!setPermissionOverride(id, override)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save permission overrides",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(
+            `✅ Permission overrides for user ${id} set by ${user.username}: +${granted.length} / -${denied.length}`
+        );
+        recordAdminAction(user, {
+            action: "permissions.override",
+            targetType: "user",
+            targetId: id,
+            targetName: body.username?.trim() || undefined,
+            outcome: "success",
+            details: { granted, denied },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: override ? "Permission overrides saved" : "Permission overrides cleared",
+            data: getUserPermissionSummary({ id, role: body.role }, getRoleMatrix()),
+        });
+    } catch (error: any) {
+        console.error("❌ Error saving user permissions:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to save user permissions",
+            },
+            { status: 500 }
+        );
+    }
+}
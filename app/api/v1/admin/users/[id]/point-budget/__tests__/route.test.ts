@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type PointBudgetRoute = typeof import("../route");
+type BudgetStorage = typeof import("@/lib/db/point-budget-storage");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/users/user-1/point-budget", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/v1/admin/users/:id/point-budget", () => {
+  useTempDataDir("point-budget-");
+
+  let route: PointBudgetRoute;
+  let storage: BudgetStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.mocked(getSessionToken).mockReturnValue("admin-token");
+    fetchMock = jest.fn().mockResolvedValue(new Response(JSON.stringify({ id: "n-1" }), { status: 200 }));
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      storage = require("@/lib/db/point-budget-storage");
+      route = require("../route");
+    });
+
+    storage.saveThreshold({
+      id: "threshold-1",
+      scope: "user",
+      targetId: "user-1",
+      threshold: 100,
+      createdBy: "admin-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a numeric balance", async () => {
+    const response = await route.POST(post({ balance: "low" }), context);
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("notifies the user with the caller's token and then marks them as alerted", async () => {
+    const response = await route.POST(post({ balance: 40, role: "general_user" }), context);
+
+    expect((await response.json()).data).toMatchObject({ low: true, crossed: true });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain("/notifications/admin/create");
+    expect(init.headers.Authorization).toBe("Bearer admin-token");
+    expect(JSON.parse(init.body)).toMatchObject({ user_id: "user-1", type: "point" });
+    expect(storage.findAlert("user-1")).toMatchObject({ thresholdId: "threshold-1", balance: 40 });
+  });
+
+  it("doesn't notify twice while the balance stays low", async () => {
+    await route.POST(post({ balance: 40 }), context);
+    fetchMock.mockClear();
+
+    const response = await route.POST(post({ balance: 30 }), context);
+
+    expect((await response.json()).data).toMatchObject({ low: true, crossed: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("leaves the user unalerted when the notification fails, so the next check retries", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ detail: "Forbidden" }), { status: 403 }));
+
+    await route.POST(post({ balance: 40 }), context);
+
+    expect(storage.findAlert("user-1")).toBeUndefined();
+  });
+
+  it("re-arms the alert once the balance recovers", async () => {
+    await route.POST(post({ balance: 40 }), context);
+
+    await route.POST(post({ balance: 250 }), context);
+
+    expect(storage.findAlert("user-1")).toBeUndefined();
+  });
+});
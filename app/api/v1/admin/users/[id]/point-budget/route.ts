@@ -0,0 +1,95 @@
+/**
+ * User Point Budget Endpoint
+ *
+ * POST /api/v1/admin/users/:id/point-budget - compare the user's current balance with their threshold
+ *
+ * The dashboard sends the balance and role it just read from the backend. The response says
+ * whether the balance is low and whether this check is the one that crossed the threshold.
+ * A crossing sends the user a `point` notification with the caller's token, and is only
+ * marked as alerted once that notification was sent, so a failed send is retried next check.
+ *
+ * Requires the view_all_users permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { callBackendAsUser } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { apiEndpoints } from "@/lib/config";
+import { clearAlert, findAlert, getAllThresholds, saveAlert } from "@/lib/db/point-budget-storage";
+import {
+    buildLowBalanceNotification,
+    evaluatePointBudget,
+    findEffectiveThreshold,
+} from "@/lib/utils/point-budgets";
+import { Permission } from "@/lib/utils/rbac";
+import type { CheckPointBudgetInput } from "@/lib/types/point-budgets";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_ALL_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: CheckPointBudgetInput = await request.json();
+
+        if (!Number.isFinite(body.balance)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "Balance must be a number",
+                    details: { balance: "Balance must be a number" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const threshold = findEffectiveThreshold(getAllThresholds(), id, body.role);
+        const status = evaluatePointBudget(id, body.balance, threshold, findAlert(id));
+
+        if (status.crossed && threshold) {
+            const notification = await callBackendAsUser(request, {
+                method: "POST",
+                path: apiEndpoints.notifications.adminCreate,
+                body: buildLowBalanceNotification(status),
+            });
+
+            if (notification.ok) {
+                saveAlert({
+                    userId: id,
+                    thresholdId: threshold.id,
+                    threshold: threshold.threshold,
+                    balance: body.balance,
+                    alertedAt: new Date().toISOString(),
+                });
+                console.log(`⚠️ User ${body.username || id} dropped below ${threshold.threshold} points`);
+            } else {
+                console.warn(
+                    "⚠️ Failed to send low balance notification:",
+                    id,
+                    notification.status,
+                    notification.message
+                );
+            }
+        } else if (!status.low) {
+            clearAlert(id);
+        }
+
+        return NextResponse.json({ success: true, data: status });
+    } catch (error: any) {
+        console.error("❌ Error checking point budget:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to check point budget",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type ReverseRoute = typeof import("../route");
+type LedgerStorage = typeof import("@/lib/db/points-ledger-storage");
+type AuditStorage = typeof import("@/lib/db/admin-audit-storage");
+
+const admin = sessionUser();
+
+const post = (entryId: string, body: unknown) => ({
+  request: new NextRequest(`http://localhost/api/v1/admin/users/user-1/points-ledger/${entryId}/reverse`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  }),
+  context: { params: Promise.resolve({ id: "user-1", entryId }) },
+});
+
+describe("POST /api/v1/admin/users/:id/points-ledger/:entryId/reverse", () => {
+  useTempDataDir("points-reverse-");
+
+  let route: ReverseRoute;
+  let ledger: LedgerStorage;
+  let audit: AuditStorage;
+  let fetchMock: jest.Mock;
+  let allocationId: string;
+
+  const withBalance = (balance: number) =>
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) =>
+      init.method === "GET"
+        ? new Response(JSON.stringify({ username: "alice", points: { current_points: balance } }), { status: 200 })
+        : new Response(JSON.stringify({ message: "ok" }), { status: 200 })
+    );
+
+  const patchCalls = () => fetchMock.mock.calls.filter(([, init]) => init.method === "PATCH");
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.mocked(getSessionToken).mockReturnValue("admin-token");
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      ledger = require("@/lib/db/points-ledger-storage");
+      audit = require("@/lib/db/admin-audit-storage");
+      route = require("../route");
+    });
+
+    const base = { userId: "user-1", username: "alice", actorId: "admin-1", actorName: "root" };
+    const saved = ledger.appendLedgerEntries([
+      { ...base, type: "opening", amount: 100, reason: "Balance before ledger tracking" },
+      { ...base, type: "allocation", amount: 500, reason: "Points allocated", allocationType: "one_month_package" },
+    ]);
+    allocationId = saved![1].id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a reason", async () => {
+    withBalance(600);
+    const { request, context } = post(allocationId, { reason: " " });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ reason: "A reason is required" });
+    expect(patchCalls()).toEqual([]);
+  });
+
+  it("returns 404 for an entry that isn't in the user's ledger", async () => {
+    const { request, context } = post("ledger_missing", { reason: "Mistake" });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("deducts nothing when the backend balance no longer covers the allocation", async () => {
+    // The user spent points since the ledger last saw their balance
+    withBalance(300);
+    const { request, context } = post(allocationId, { reason: "Mistake" });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details.entryId).toMatch(/Only 300 points remain/);
+    expect(patchCalls()).toEqual([]);
+    expect(ledger.getLedgerEntries("user-1")).toHaveLength(2);
+  });
+
+  it("deducts nothing when the balance can't be read", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ detail: "Down" }), { status: 502 }));
+    const { request, context } = post(allocationId, { reason: "Mistake" });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(503);
+    expect(patchCalls()).toEqual([]);
+  });
+
+  it("rejects an allocation that has already been reversed", async () => {
+    withBalance(600);
+    const first = post(allocationId, { reason: "Mistake" });
+    await route.POST(first.request, first.context);
+    fetchMock.mockClear();
+
+    const { request, context } = post(allocationId, { reason: "Again" });
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(409);
+    expect(patchCalls()).toEqual([]);
+  });
+
+  it("deducts from the balance the backend reports and reconciles the ledger to it", async () => {
+    withBalance(550);
+    const { request, context } = post(allocationId, { reason: "Wrong user" });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(200);
+    const [url, init] = patchCalls()[0];
+    expect(url).toContain("/user/list/user-1/points");
+    expect(JSON.parse(init.body)).toEqual({ points: 50 });
+    expect((await response.json()).data.balance).toBe(50);
+    expect(ledger.getLedgerEntries("user-1").map((entry) => [entry.type, entry.amount])).toEqual([
+      ["opening", 100],
+      ["allocation", 500],
+      ["adjustment", -50],
+      ["reversal", -500],
+    ]);
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({ action: "points.reverse", outcome: "success" });
+  });
+
+  it("leaves the ledger alone and records the failure when the deduction fails", async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) =>
+      init.method === "GET"
+        ? new Response(JSON.stringify({ points: { current_points: 600 } }), { status: 200 })
+        : new Response(JSON.stringify({ detail: "Not allowed" }), { status: 403 })
+    );
+    const { request, context } = post(allocationId, { reason: "Mistake" });
+
+    const response = await route.POST(request, context);
+
+    expect(response.status).toBe(403);
+    expect(ledger.getLedgerEntries("user-1")).toHaveLength(2);
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({
+      action: "points.reverse",
+      outcome: "failure",
+      details: { error: "Not allowed" },
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Points Allocation Reversal Endpoint
+ *
+ * POST /api/v1/admin/users/:id/points-ledger/:entryId/reverse - deduct an allocation's points and record
+ * a compensating debit, { reason }
+ *
+ * Requires the manage_points permission. The reversal is checked against the backend balance before
+ * anything is deducted. The backend only sets balances outright, so that balance is read immediately
+ * before the deduction rather than taken from the caller.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+    backendErrorResponse,
+    callBackendAsUser,
+    getBackendBalance,
+    recordBackendOutcome,
+} from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { apiEndpoints } from "@/lib/config";
+import { appendLedgerEntries, getLedgerEntries } from "@/lib/db/points-ledger-storage";
+import { buildPointsLedger, getReversalError, planReconciliation } from "@/lib/utils/points-ledger";
+import { Permission } from "@/lib/utils/rbac";
+import type { ReversePointsAllocationInput } from "@/lib/types/points-ledger";
+
+interface RouteContext {
+    params: Promise<{ id: string; entryId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id, entryId } = await params;
+        const body: ReversePointsAllocationInput = await request.json();
+        const entries = getLedgerEntries(id);
+        const original = entries.find(entry => entry.id === entryId);
+
+        if (!original) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Ledger entry not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const errors: Record<string, string> = {};
+        if (typeof body.reason !== "string" || !body.reason.trim()) {
+            errors.reason = "A reason is required";
+        } else if (body.reason.length > 500) {
+            errors.reason = "Reason must be 500 characters or fewer";
+        }
+
+        const current = await getBackendBalance(request, id);
+
+        if (!current) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Service unavailable",
+                    message: "Unable to read the user's balance, so no points were deducted",
+                },
+                { status: 503 }
+            );
+        }
+
+        const base = {
+            userId: id,
+            username: original.username ?? current.username,
+            actorId: user.id,
+            actorName: user.username,
+        };
+        const reconciliation = planReconciliation(entries, current.balance, base);
+        const reversalError = getReversalError(entries, entryId, current.balance);
+
+        if (reversalError && original.reversedById) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: reversalError,
+                },
+                { status: 409 }
+            );
+        }
+        if (reversalError) {
+            errors.entryId = reversalError;
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const reason = body.reason.trim();
+        const deduction = await callBackendAsUser(request, {
+            method: "PATCH",
+            path: `${apiEndpoints.users.list}/${id}/points`,
+            body: { points: current.balance - original.amount },
+        });
+
+        recordBackendOutcome(user, deduction, {
+            action: "points.reverse",
+            targetType: "user",
+            targetId: id,
+            targetName: base.username,
+            details: { entryId, amount: original.amount, reason },
+        });
+
+        if (!deduction.ok) {
+            return backendErrorResponse(deduction);
+        }
+
+        const planned = [
+            ...(reconciliation ? [reconciliation] : []),
+            {
+                ...base,
+                type: "reversal" as const,
+                amount: -original.amount,
+                reason,
+                reversesId: original.id,
+            },
+        ];
+
+        if (!appendLedgerEntries(planned, original.id)) {
+            // The next ledger entry reconciles the deduction as an adjustment
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "The points were deducted but the reversal couldn't be saved to the ledger",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `Reversed ${original.amount.toLocaleString()} points`,
+            data: buildPointsLedger(id, getLedgerEntries(id)),
+        });
+    } catch (error: any) {
+        console.error("❌ Error reversing allocation:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to reverse allocation",
+            },
+            { status: 500 }
+        );
+    }
+}
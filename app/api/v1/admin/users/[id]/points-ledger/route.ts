@@ -0,0 +1,44 @@
+/**
+ * User Points Ledger Endpoint
+ * Persists credits and debits via lib/db/points-ledger-storage
+ *
+ * GET /api/v1/admin/users/:id/points-ledger - every entry with running balances, newest first
+ *
+ * Requires view_all_transactions. Entries are written by the routes that change the balance,
+ * from the balances the backend reports.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getLedgerEntries } from "@/lib/db/points-ledger-storage";
+import { buildPointsLedger } from "@/lib/utils/points-ledger";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_ALL_TRANSACTIONS);
+        if (response) return response;
+
+        const { id } = await params;
+
+        return NextResponse.json({
+            success: true,
+            data: buildPointsLedger(id, getLedgerEntries(id)),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching points ledger:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch points ledger",
+            },
+            { status: 500 }
+        );
+    }
+}
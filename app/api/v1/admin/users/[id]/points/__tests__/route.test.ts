@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type PointsRoute = typeof import("../route");
+type LedgerStorage = typeof import("@/lib/db/points-ledger-storage");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/users/user-1/points", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const userInfo = (balance: number) =>
+  new Response(JSON.stringify({ username: "alice", points: { current_points: balance } }), { status: 200 });
+
+describe("POST /api/v1/admin/users/:id/points", () => {
+  useTempDataDir("admin-points-");
+
+  let route: PointsRoute;
+  let ledger: LedgerStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.mocked(getSessionToken).mockReturnValue("admin-token");
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      ledger = require("@/lib/db/points-ledger-storage");
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects a missing email or an unknown allocation type", async () => {
+    const response = await route.POST(post({ allocationType: "toString" }), context);
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["email", "allocationType"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("records the change in the backend balance rather than the package size", async () => {
+    fetchMock
+      .mockResolvedValueOnce(userInfo(20))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ message: "ok" }), { status: 200 }))
+      .mockResolvedValueOnce(userInfo(470));
+
+    const response = await route.POST(
+      post({ email: "alice@example.com", allocationType: "one_month_package", reason: "Renewal" }),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(ledger.getLedgerEntries("user-1")).toMatchObject([
+      { type: "opening", amount: 20 },
+      { type: "allocation", amount: 450, allocationType: "one_month_package", reason: "Renewal", actorId: "admin-1" },
+    ]);
+  });
+
+  it("adds nothing to the ledger when the allocation can't be measured", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ message: "ok" }), { status: 200 }))
+      .mockResolvedValueOnce(userInfo(470));
+
+    const response = await route.POST(post({ email: "alice@example.com", allocationType: "guest_point" }), context);
+
+    expect(response.status).toBe(200);
+    expect(ledger.getLedgerEntries("user-1")).toEqual([]);
+  });
+
+  it("adds nothing to the ledger when the backend refuses the allocation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(userInfo(20))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ detail: "Not allowed" }), { status: 403 }));
+
+    const response = await route.POST(post({ email: "alice@example.com", allocationType: "guest_point" }), context);
+
+    expect(response.status).toBe(403);
+    expect(ledger.getLedgerEntries("user-1")).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * User Points Reset Endpoint
+ *
+ * POST /api/v1/admin/users/:id/points/reset - set the user's points to zero, { reason? }
+ *
+ * Requires the manage_points permission. Runs on the backend with the caller's token and is
+ * recorded in the admin audit log. The ledger debits the balance the backend reported just before the reset.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+    backendErrorResponse,
+    callBackendAsUser,
+    getBackendBalance,
+    recordBackendOutcome,
+} from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { appendLedgerEntries, getLedgerEntries } from "@/lib/db/points-ledger-storage";
+import { planLedgerEntries } from "@/lib/utils/points-ledger";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.MANAGE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: { reason?: string } = await request.json().catch(() => ({}));
+        const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+        if (reason.length > 500) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "Reason must be 500 characters or fewer",
+                    details: { reason: "Reason must be 500 characters or fewer" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const before = await getBackendBalance(request, id);
+        const result = await callBackendAsUser(request, {
+            method: "POST",
+            path: `/user/reset_point/${id}/`,
+            body: {},
+        });
+
+        recordBackendOutcome(user, result, {
+            action: "points.reset",
+            targetType: "user",
+            targetId: id,
+            details: reason ? { reason } : undefined,
+        });
+
+        if (!result.ok) {
+            return backendErrorResponse(result);
+        }
+
+        // Without the earlier balance the reset debits whatever the ledger holds, which still ends at zero
+        const saved = appendLedgerEntries(
+            planLedgerEntries(
+                getLedgerEntries(id),
+                id,
+                { type: "reset", username: before?.username, reason, currentBalance: before?.balance },
+                user
+            )
+        );
+        if (!saved) {
+            console.warn(`⚠️ Unable to save the ledger entry for the reset of ${id}`);
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Points reset",
+            data: result.data,
+        });
+    } catch (error: any) {
+        console.error("❌ Error resetting points:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to reset points",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * User Points Allocation Endpoint
+ *
+ * POST /api/v1/admin/users/:id/points - give the user a points package, { email, allocationType, reason? }
+ *
+ * Requires the give_points permission. Runs on the backend with the caller's token and is
+ * recorded in the admin audit log. The ledger entry is the change in the backend balance
+ * across the allocation, not the package's nominal size.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+    backendErrorResponse,
+    callBackendAsUser,
+    getBackendBalance,
+    recordBackendOutcome,
+} from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { appendLedgerEntries, getLedgerEntries } from "@/lib/db/points-ledger-storage";
+import { ALLOCATION_PACKAGE_POINTS, planLedgerEntries } from "@/lib/utils/points-ledger";
+import { Permission } from "@/lib/utils/rbac";
+import type { AllocationType } from "@/lib/types/user";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+interface AllocatePointsInput {
+    email?: string;
+    allocationType?: string;
+    reason?: string;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.GIVE_POINTS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: AllocatePointsInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (typeof body.email !== "string" || !body.email.trim()) {
+            errors.email = "The user's email is required";
+        }
+        if (
+            typeof body.allocationType !== "string" ||
+            !Object.prototype.hasOwnProperty.call(ALLOCATION_PACKAGE_POINTS, body.allocationType)
+        ) {
+            errors.allocationType = "Unknown allocation type";
+        }
+        if (body.reason !== undefined && (typeof body.reason !== "string" || body.reason.length > 500)) {
+            errors.reason = "Reason must be 500 characters or fewer";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const email = body.email!.trim();
+        const allocationType = body.allocationType as AllocationType;
+        const before = await getBackendBalance(request, id);
+        const result = await callBackendAsUser(request, {
+            method: "POST",
+            path: "/user/points/give/",
+            body: { receiver_email: email, receiver_id: id, allocation_type: allocationType },
+        });
+
+        recordBackendOutcome(user, result, {
+            action: "points.allocate",
+            targetType: "user",
+            targetId: id,
+            details: { allocation_type: allocationType, receiver_email: email },
+        });
+
+        if (!result.ok) {
+            return backendErrorResponse(result);
+        }
+
+        const after = await getBackendBalance(request, id);
+
+        if (before && after && after.balance > before.balance) {
+            const saved = appendLedgerEntries(
+                planLedgerEntries(
+                    getLedgerEntries(id),
+                    id,
+                    {
+                        type: "allocation",
+                        username: after.username,
+                        amount: after.balance - before.balance,
+                        allocationType,
+                        reason: body.reason,
+                        currentBalance: before.balance,
+                    },
+                    user
+                )
+            );
+            if (!saved) {
+                console.warn(`⚠️ Unable to save the ledger entry for the allocation to ${id}`);
+            }
+        } else {
+            // The next ledger entry reconciles the difference as an adjustment
+            console.warn(`⚠️ Couldn't measure the allocation to ${id}; it was not added to the ledger`);
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Points allocated",
+            data: result.data,
+        });
+    } catch (error: any) {
+        console.error("❌ Error allocating points:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to allocate points",
+            },
+            { status: 500 }
+        );
+    }
+}
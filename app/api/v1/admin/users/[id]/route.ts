@@ -0,0 +1,68 @@
+/**
+ * User Deletion Endpoint
+ *
+ * DELETE /api/v1/admin/users/:id - delete the user's account
+ * DELETE /api/v1/admin/users/:id?role=super_user - delete a super user's account
+ *
+ * Requires the delete_users permission; deleting a super user also requires the caller to be one.
+ * Runs on the backend with the caller's token and is recorded in the admin audit log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAdminAction } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { UserRole } from "@/lib/types/auth";
+import { isSuperUser, Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.DELETE_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+
+        if (request.nextUrl.searchParams.get("role") === UserRole.SUPER_USER) {
+            if (!isSuperUser(user)) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: "Forbidden",
+                        message: "Only super users can delete a super user",
+                    },
+                    { status: 403 }
+                );
+            }
+
+            return runAdminAction(
+                request,
+                user,
+                { method: "DELETE", path: `/delete/delete_super_user/${id}/` },
+                { action: "super_user.delete", targetType: "user", targetId: id },
+                "Super user deleted"
+            );
+        }
+
+        return runAdminAction(
+            request,
+            user,
+            { method: "DELETE", path: `/delete/delete_user/${id}` },
+            { action: "user.delete", targetType: "user", targetId: id },
+            "User deleted"
+        );
+    } catch (error: any) {
+        console.error("❌ Error deleting user:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to delete user",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type SuppliersRoute = typeof import("../route");
+type AuditStorage = typeof import("@/lib/db/admin-audit-storage");
+
+const admin = sessionUser();
+const context = { params: Promise.resolve({ id: "user-1" }) };
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/admin/users/user-1/suppliers", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/v1/admin/users/:id/suppliers", () => {
+  useTempDataDir("admin-suppliers-");
+
+  let route: SuppliersRoute;
+  let audit: AuditStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: admin });
+    jest.mocked(getSessionToken).mockReturnValue("admin-token");
+    fetchMock = jest.fn().mockResolvedValue(new Response(JSON.stringify({ message: "ok" }), { status: 200 }));
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      audit = require("@/lib/db/admin-audit-storage");
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns the permission check's response without calling the backend", async () => {
+    jest
+      .mocked(requirePermission)
+      .mockResolvedValue({ response: NextResponse.json({ success: false }, { status: 403 }) });
+
+    const response = await route.POST(post({ action: "activate", suppliers: ["hotelbeds"] }), context);
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(audit.getAllAuditEntries()).toEqual([]);
+  });
+
+  it("rejects an unknown action or an empty supplier list", async () => {
+    const response = await route.POST(post({ action: "remove", suppliers: [] }), context);
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["action", "suppliers"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("runs the action with the caller's token and records it", async () => {
+    const response = await route.POST(post({ action: "deactivate", suppliers: ["hotelbeds"] }), context);
+
+    expect(response.status).toBe(200);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain("/permissions/admin/deactivate_supplier?user_id=user-1");
+    expect(init.headers.Authorization).toBe("Bearer admin-token");
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({
+      actorId: "admin-1",
+      action: "suppliers.deactivate",
+      targetId: "user-1",
+      outcome: "success",
+      details: { suppliers: ["hotelbeds"] },
+    });
+  });
+
+  it("records a failed attempt and passes the backend's status on", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ detail: "Not allowed" }), { status: 403 }));
+
+    const response = await route.POST(post({ action: "activate", suppliers: ["hotelbeds"] }), context);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).message).toBe("Not allowed");
+    expect(audit.getAllAuditEntries()[0]).toMatchObject({
+      outcome: "failure",
+      details: { suppliers: ["hotelbeds"], error: "Not allowed" },
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * User Supplier Access Endpoint
+ *
+ * POST /api/v1/admin/users/:id/suppliers - turn suppliers on or off for the user,
+ *      { action: "activate" | "deactivate", suppliers: [...] }
+ *
+ * Requires the edit_users permission. Runs on the backend with the caller's token and is
+ * recorded in the admin audit log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAdminAction } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { Permission } from "@/lib/utils/rbac";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+interface UpdateSuppliersInput {
+    action?: string;
+    suppliers?: unknown;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_USERS);
+        if (response) return response;
+
+        const { id } = await params;
+        const body: UpdateSuppliersInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (body.action !== "activate" && body.action !== "deactivate") {
+            errors.action = "Action must be activate or deactivate";
+        }
+        if (
+            !Array.isArray(body.suppliers) ||
+            body.suppliers.length === 0 ||
+            !body.suppliers.every((supplier) => typeof supplier === "string" && supplier.trim())
+        ) {
+            errors.suppliers = "At least one supplier is required";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const action = body.action as "activate" | "deactivate";
+        const suppliers = (body.suppliers as string[]).map((supplier) => supplier.trim());
+
+        return runAdminAction(
+            request,
+            user,
+            {
+                method: "POST",
+                path: `/permissions/admin/${action}_supplier?user_id=${encodeURIComponent(id)}`,
+                body: { provider_activision_list: suppliers },
+            },
+            {
+                action: `suppliers.${action}`,
+                targetType: "user",
+                targetId: id,
+                details: { suppliers },
+            },
+            action === "activate" ? "Suppliers activated" : "Suppliers deactivated"
+        );
+    } catch (error: any) {
+        console.error("❌ Error updating suppliers:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update suppliers",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { useTempDataDir } from "@/lib/test-utils/route-tests";
+
+type VerifyRoute = typeof import("../route");
+type ApiKeyStorage = typeof import("@/lib/db/api-key-storage");
+
+const SECRET = "verify-secret";
+
+const post = (body: unknown, secret: string | null = SECRET) =>
+  new NextRequest("http://localhost/api/v1/api-keys/verify", {
+    method: "POST",
+    headers: secret ? { "x-verify-secret": secret } : {},
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/v1/api-keys/verify", () => {
+  useTempDataDir("api-keys-");
+
+  let route: VerifyRoute;
+  let storage: ApiKeyStorage;
+
+  beforeEach(() => {
+    process.env.API_KEY_VERIFY_SECRET = SECRET;
+    jest.isolateModules(() => {
+      route = require("../route");
+      storage = require("@/lib/db/api-key-storage");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.API_KEY_VERIFY_SECRET;
+  });
+
+  it("rejects callers without the verifier secret", async () => {
+    expect((await route.POST(post({ key: "hita_x" }, null))).status).toBe(401);
+    expect((await route.POST(post({ key: "hita_x" }, "wrong"))).status).toBe(401);
+  });
+
+  it("requires a key and a known scope", async () => {
+    const response = await route.POST(post({ key: " ", scope: "admin" }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["key", "scope"]);
+  });
+
+  it("answers valid: false for an unknown key", async () => {
+    const response = await route.POST(post({ key: "hita_unknown" }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toEqual({ valid: false, reason: "unknown" });
+  });
+
+  it("checks the scope of a known key and records when it was used", async () => {
+    const issued = storage.createApiKey("u1", { name: "Booking engine", scopes: ["content:read"], expiresAt: null }, "root")!;
+
+    const allowed = await (await route.POST(post({ key: issued.secret, scope: "content:read" }))).json();
+    const denied = await (await route.POST(post({ key: issued.secret, scope: "exports" }))).json();
+
+    expect(allowed.data).toMatchObject({ valid: true, userId: "u1", keyId: issued.record.id });
+    expect(denied.data).toMatchObject({ valid: false, reason: "scope" });
+    expect(storage.findApiKey("u1", issued.record.id)?.lastUsedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * API Key Verification Endpoint
+ *
+ * POST /api/v1/api-keys/verify - called by the backend or API gateway with the X-Verify-Secret header
+ * to check a named key (and optionally one scope) before serving a request. Valid checks update
+ * the key's last-used time.
+ *
+ * Always answers 200 with { valid, reason } for a well-formed request, so callers can tell
+ * an unknown key from an expired, revoked or out-of-scope one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isApiKeyVerifierRequest } from "@/lib/auth/api-key-verifier";
+import { findApiKeyBySecret, touchApiKey } from "@/lib/db/api-key-storage";
+import { API_KEY_SCOPES, checkApiKeyAccess } from "@/lib/utils/api-keys";
+import type { VerifyApiKeyInput, VerifyApiKeyResult } from "@/lib/types/api-keys";
+
+export async function POST(request: NextRequest) {
+    if (!isApiKeyVerifierRequest(request)) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Invalid verifier secret",
+            },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const body: VerifyApiKeyInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (typeof body.key !== "string" || !body.key.trim()) {
+            errors.key = "Key is required";
+        }
+        if (body.scope !== undefined && !API_KEY_SCOPES.includes(body.scope)) {
+            errors.scope = "Unknown scope";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date();
+        const key = findApiKeyBySecret(body.key.trim());
+        const data: VerifyApiKeyResult = key
+            ? checkApiKeyAccess(key, body.scope, now)
+            : { valid: false, reason: "unknown" };
+
+        if (data.valid && key) {
+            touchApiKey(key.id, now);
+        }
+
+        return NextResponse.json({ success: true, data });
+    } catch (error: any) {
+        console.error("❌ Error verifying API key:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to verify API key",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { validateSessionToken } from "@/lib/auth/server-session";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session-cookie";
+import { sessionUser } from "@/lib/test-utils/route-tests";
+import { POST } from "../route";
+
+jest.mock("@/lib/auth/server-session", () => ({ getSessionToken: jest.fn(), validateSessionToken: jest.fn() }));
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/auth/session", { method: "POST", body: JSON.stringify(body) });
+
+describe("POST /api/v1/auth/session", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a token", async () => {
+    const response = await POST(post({}));
+
+    expect(response.status).toBe(400);
+    expect(validateSessionToken).not.toHaveBeenCalled();
+  });
+
+  it("doesn't set the cookie for a token the backend rejects", async () => {
+    jest.mocked(validateSessionToken).mockResolvedValue({ status: "invalid" });
+
+    const response = await POST(post({ token: "expired" }));
+
+    expect(response.status).toBe(401);
+    expect(response.cookies.get(SESSION_COOKIE_NAME)).toBeUndefined();
+  });
+
+  it("doesn't set the cookie while the backend can't validate the token", async () => {
+    jest.mocked(validateSessionToken).mockResolvedValue({ status: "unavailable" });
+
+    const response = await POST(post({ token: "unchecked" }));
+
+    expect(response.status).toBe(503);
+    expect(response.cookies.get(SESSION_COOKIE_NAME)).toBeUndefined();
+  });
+
+  it("sets the httpOnly cookie for a validated token", async () => {
+    jest.mocked(validateSessionToken).mockResolvedValue({ status: "valid", user: sessionUser({ username: "alice" }) });
+
+    const response = await POST(post({ token: "valid-token" }));
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get(SESSION_COOKIE_NAME)).toMatchObject({ value: "valid-token", httpOnly: true });
+  });
+});
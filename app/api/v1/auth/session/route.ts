@@ -0,0 +1,137 @@
+/**
+ * Session Cookie Endpoint
+ *
+ * GET    /api/v1/auth/session - the session user with role matrix permissions
+ * POST   /api/v1/auth/session - store the access token in the httpOnly session cookie
+ * DELETE /api/v1/auth/session - clear the session cookie
+ *
+ * The middleware reads this cookie, through GET, to protect pages before they render.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionToken, validateSessionToken } from "@/lib/auth/server-session";
+import {
+    SESSION_COOKIE_NAME,
+    getSessionCookieOptions,
+    getTokenExpiry,
+} from "@/lib/auth/session-cookie";
+
+interface CreateSessionInput {
+    token?: string;
+    rememberMe?: boolean;
+}
+
+export async function GET(request: NextRequest) {
+    const token = getSessionToken(request);
+    const validation = token ? await validateSessionToken(token) : { status: "invalid" as const };
+
+    if (validation.status === "invalid") {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Missing or invalid authentication token",
+            },
+            { status: 401 }
+        );
+    }
+
+    if (validation.status === "unavailable") {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Service unavailable",
+                message: "Unable to validate the session right now",
+            },
+            { status: 503 }
+        );
+    }
+
+    return NextResponse.json({
+        success: true,
+        data: validation.user,
+    });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: CreateSessionInput = await request.json();
+        const token = typeof body.token === "string" ? body.token.trim() : "";
+
+        if (!token) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "Access token is required",
+                    details: { token: "Access token is required" },
+                },
+                { status: 400 }
+            );
+        }
+
+        // The cookie is only set for a token the backend has confirmed
+        const validation = await validateSessionToken(token);
+
+        if (validation.status === "invalid") {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        if (validation.status === "unavailable") {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Service unavailable",
+                    message: "Unable to validate the session right now",
+                },
+                { status: 503 }
+            );
+        }
+
+        const rememberMe = body.rememberMe !== false;
+        const expiry = getTokenExpiry(token);
+        const response = NextResponse.json({
+            success: true,
+            message: "Session started",
+            data: {
+                expiresAt: expiry ? new Date(expiry * 1000).toISOString() : null,
+            },
+        });
+
+        response.cookies.set(SESSION_COOKIE_NAME, token, getSessionCookieOptions(token, rememberMe));
+
+        console.log("✅ Session cookie set for user:", validation.user.username);
+
+        return response;
+    } catch (error: any) {
+        console.error("❌ Error setting session cookie:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to start session",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE() {
+    const response = NextResponse.json({
+        success: true,
+        message: "Session ended",
+    });
+
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    console.log("✅ Session cookie cleared");
+
+    return response;
+}
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session-cookie";
+import { config } from "@/lib/config";
+import { GET, POST } from "../route";
+
+const request = (path: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}) =>
+  new NextRequest(`http://localhost/api/v1/backend?path=${encodeURIComponent(path)}`, init);
+
+describe("/api/v1/backend", () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue(
+      new Response("{}", { status: 200, headers: { "content-type": "application/json", "set-cookie": "a=b" } }),
+    );
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(["user/check-me", "//evil.example/x", "/../admin", "/export/%2e%2e/admin", "/a\\b"])(
+    "rejects the path %s",
+    async (path) => {
+      const response = await GET(request(path));
+
+      expect(response.status).toBe(400);
+      expect(fetchMock).not.toHaveBeenCalled();
+    },
+  );
+
+  it("adds the session cookie's token as a bearer token", async () => {
+    const response = await GET(
+      request("/user/check-me?x=1", { headers: { cookie: `${SESSION_COOKIE_NAME}=session-token`, range: "bytes=0-9" } }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(response.headers.get("set-cookie")).toBeNull();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${config.api.url}/user/check-me?x=1`);
+    expect(init.headers.get("Authorization")).toBe("Bearer session-token");
+    expect(init.headers.get("range")).toBe("bytes=0-9");
+  });
+
+  it("forwards public calls without a token", async () => {
+    await POST(request("/auth/token", { method: "POST", body: "username=a&password=b" }));
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("POST");
+    expect(init.headers.has("Authorization")).toBe(false);
+    expect(new TextDecoder().decode(init.body)).toBe("username=a&password=b");
+  });
+
+  it("answers 502 when the backend can't be reached", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    expect((await GET(request("/user/check-me"))).status).toBe(502);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Backend Proxy Endpoint
+ *
+ * GET|POST|PUT|PATCH|DELETE /api/v1/backend?path=/user/check-me - forward the call to the backend
+ *
+ * The access token lives only in the httpOnly session cookie, so the browser calls the backend
+ * through here and this route adds the token. `path` is relative to the versioned API URL and
+ * may carry its own query string.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionToken } from "@/lib/auth/server-session";
+import { isValidBackendPath } from "@/lib/api/backend-proxy";
+import { config } from "@/lib/config";
+
+export const dynamic = "force-dynamic";
+
+// Request headers passed on to the backend, besides Authorization
+const FORWARDED_REQUEST_HEADERS = ["accept", "content-type", "range", "if-range", "x-api-key"];
+
+// Backend response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = [
+    "content-type",
+    "content-disposition",
+    "content-length",
+    "content-range",
+    "accept-ranges",
+    "etag",
+    "last-modified",
+];
+
+async function forward(request: NextRequest) {
+    const path = request.nextUrl.searchParams.get("path") ?? "";
+
+    if (!isValidBackendPath(path)) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Validation failed",
+                message: "path must be a backend path starting with /",
+                details: { path: "path must be a backend path starting with /" },
+            },
+            { status: 400 }
+        );
+    }
+
+    const headers = new Headers();
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+        const value = request.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+
+    // Sign-in and other public endpoints are called without a session
+    const token = getSessionToken(request);
+    if (token) {
+        headers.set("Authorization", `Bearer ${token}`);
+    }
+
+    let upstream: Response;
+
+    try {
+        upstream = await fetch(`${config.api.url}${path}`, {
+            method: request.method,
+            headers,
+            body: request.method === "GET" || request.method === "HEAD" ? undefined : await request.arrayBuffer(),
+            cache: "no-store",
+            signal: request.signal,
+        });
+    } catch (error: any) {
+        console.error("❌ Backend unreachable:", request.method, path, error?.message || error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Bad gateway",
+                message: "Unable to reach the backend",
+            },
+            { status: 502 }
+        );
+    }
+
+    const responseHeaders = new Headers({ "Cache-Control": "no-store" });
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+        const value = upstream.headers.get(name);
+        if (value) responseHeaders.set(name, value);
+    }
+
+    return new Response(upstream.body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers: responseHeaders,
+    });
+}
+
+export async function GET(request: NextRequest) {
+    return forward(request);
+}
+
+export async function POST(request: NextRequest) {
+    return forward(request);
+}
+
+export async function PUT(request: NextRequest) {
+    return forward(request);
+}
+
+export async function PATCH(request: NextRequest) {
+    return forward(request);
+}
+
+export async function DELETE(request: NextRequest) {
+    return forward(request);
+}
@@ -0,0 +1,234 @@
+/**
+ * Single Export Filter Preset Endpoint
+ *
+ * PATCH  /api/v1/exports/presets/:id - rename, update filters or change sharing
+ * DELETE /api/v1/exports/presets/:id - remove the preset
+ *
+ * Owners manage their own presets; admins also manage official presets.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import {
+    deletePreset,
+    findPresetById,
+    getAllPresets,
+    updatePreset,
+} from "@/lib/db/filter-preset-storage";
+import {
+    canManagePreset,
+    canViewPreset,
+    checkPresetSharing,
+    validatePresetName,
+} from "@/lib/utils/filter-presets";
+import type { User } from "@/lib/types/auth";
+import type { FilterPreset, UpdateFilterPresetInput } from "@/lib/types/exports";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Resolve the preset the caller is allowed to manage, or the error response to return
+ */
+function resolveManagedPreset(
+    user: User,
+    id: string
+): { preset: FilterPreset; response?: undefined } | { preset?: undefined; response: NextResponse } {
+    const preset = findPresetById(id);
+
+    if (!preset || !canViewPreset(user, preset)) {
+        return {
+            response: NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Filter preset not found",
+                },
+                { status: 404 }
+            ),
+        };
+    }
+
+    if (!canManagePreset(user, preset)) {
+        return {
+            response: NextResponse.json(
+                {
+                    success: false,
+                    error: "Forbidden",
+                    message: preset.isOfficial
+                        ? "Only admins can change official presets"
+                        : "You can only change your own presets",
+                },
+                { status: 403 }
+            ),
+        };
+    }
+
+    return { preset };
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const { preset, response } = resolveManagedPreset(user, id);
+
+        if (!preset) {
+            return response;
+        }
+
+        const body: UpdateFilterPresetInput = await request.json();
+        const updates: Partial<FilterPreset> = {};
+        const errors: Record<string, string> = {};
+
+        if (body.name !== undefined) {
+            const nameError = validatePresetName(body.name);
+            const name = typeof body.name === "string" ? body.name.trim() : "";
+
+            if (nameError) {
+                errors.name = nameError;
+            } else if (
+                getAllPresets().some(
+                    (other) =>
+                        other.id !== preset.id &&
+                        other.ownerId === preset.ownerId &&
+                        other.exportType === preset.exportType &&
+                        other.name.toLowerCase() === name.toLowerCase()
+                )
+            ) {
+                errors.name = "A preset with this name already exists";
+            } else {
+                updates.name = name;
+            }
+        }
+
+        if (body.filters !== undefined) {
+            if (!body.filters || typeof body.filters !== "object" || !("filters" in body.filters)) {
+                errors.filters = "Preset filters are missing";
+            } else {
+                updates.filters = body.filters;
+            }
+        }
+
+        if (body.visibility !== undefined || body.isOfficial !== undefined) {
+            const visibility = body.visibility ?? preset.visibility;
+            const isOfficial = body.isOfficial ?? preset.isOfficial;
+            const sharingError = checkPresetSharing(user, visibility, Boolean(isOfficial));
+
+            if (sharingError) {
+                errors.visibility = sharingError;
+            } else {
+                updates.visibility = visibility;
+                updates.isOfficial = Boolean(isOfficial);
+            }
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const updated = updatePreset(id, updates);
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to update filter preset",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Filter preset updated",
+            data: updated,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating filter preset:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update filter preset",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const { preset, response } = resolveManagedPreset(user, id);
+
+        if (!preset) {
+            return response;
+        }
+
+        if (!deletePreset(id)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to delete filter preset",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log("✅ Filter preset deleted:", id);
+
+        return NextResponse.json({
+            success: true,
+            message: "Filter preset deleted",
+        });
+    } catch (error: any) {
+        console.error("❌ Error deleting filter preset:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to delete filter preset",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Export Filter Presets Import Endpoint
+ *
+ * POST /api/v1/exports/presets/import - save the presets from an exported JSON file
+ *
+ * Imported presets belong to the caller. A visibility the caller can't use falls back to
+ * private, imports never create official presets, and names the caller already uses are skipped.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getAllPresets, savePresets } from "@/lib/db/filter-preset-storage";
+import { getAllowedVisibilities, parsePresetFile } from "@/lib/utils/filter-presets";
+import type { FilterPreset, FilterPresetImportResult } from "@/lib/types/exports";
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        let entries;
+        try {
+            entries = parsePresetFile(await request.json());
+        } catch (error: any) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: error.message || "Invalid presets file",
+                },
+                { status: 400 }
+            );
+        }
+
+        const allowedVisibilities = getAllowedVisibilities(user);
+        const takenNames = new Set(
+            getAllPresets()
+                .filter((preset) => preset.ownerId === user.id)
+                .map((preset) => `${preset.exportType}:${preset.name.toLowerCase()}`)
+        );
+
+        const now = new Date().toISOString();
+        const result: FilterPresetImportResult = { imported: [], skipped: [] };
+
+        entries.forEach((entry, index) => {
+            const key = `${entry.exportType}:${entry.name.toLowerCase()}`;
+
+            if (takenNames.has(key)) {
+                result.skipped.push({
+                    name: entry.name,
+                    reason: "A preset with this name already exists",
+                });
+                return;
+            }
+
+            takenNames.add(key);
+
+            const preset: FilterPreset = {
+                id: `preset_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+                name: entry.name,
+                exportType: entry.exportType,
+                filters: entry.filters,
+                visibility: allowedVisibilities.includes(entry.visibility) ? entry.visibility : "private",
+                isOfficial: false,
+                ownerId: user.id,
+                ownerName: user.username,
+                createdAt: now,
+                updatedAt: now,
+            };
+            result.imported.push(preset);
+        });
+
+        if (result.imported.length > 0 && !savePresets(result.imported)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save imported presets",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(
+            `✅ Imported ${result.imported.length} filter presets (${result.skipped.length} skipped) for`,
+            user.id
+        );
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: `Imported ${result.imported.length} preset(s)`,
+                data: result,
+            },
+            { status: result.imported.length > 0 ? 201 : 200 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error importing filter presets:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to import filter presets",
+            },
+            { status: 500 }
+        );
+    }
+}
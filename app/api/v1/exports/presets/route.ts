@@ -0,0 +1,175 @@
+/**
+ * Export Filter Presets Endpoint
+ *
+ * GET  /api/v1/exports/presets?exportType=hotel - presets the caller can see
+ * POST /api/v1/exports/presets                  - save a new preset
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getAllPresets, savePresets } from "@/lib/db/filter-preset-storage";
+import {
+    canViewPreset,
+    checkPresetSharing,
+    sortPresets,
+    validatePresetName,
+} from "@/lib/utils/filter-presets";
+import type { CreateFilterPresetInput, FilterPreset } from "@/lib/types/exports";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const exportType = request.nextUrl.searchParams.get("exportType");
+        const presets = getAllPresets().filter(
+            (preset) =>
+                canViewPreset(user, preset) && (!exportType || preset.exportType === exportType)
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: sortPresets(presets, user.id),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching filter presets:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to fetch filter presets",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const body: CreateFilterPresetInput = await request.json();
+        const visibility = body.visibility ?? "private";
+        const isOfficial = Boolean(body.isOfficial);
+        const errors: Record<string, string> = {};
+
+        const nameError = validatePresetName(body.name);
+        if (nameError) {
+            errors.name = nameError;
+        }
+
+        if (body.exportType !== "hotel" && body.exportType !== "mapping") {
+            errors.exportType = "Export type must be hotel or mapping";
+        }
+
+        if (!body.filters || typeof body.filters !== "object" || !("filters" in body.filters)) {
+            errors.filters = "Preset filters are missing";
+        }
+
+        const sharingError = checkPresetSharing(user, visibility, isOfficial);
+        if (sharingError) {
+            errors.visibility = sharingError;
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const name = body.name.trim();
+        const duplicate = getAllPresets().some(
+            (preset) =>
+                preset.ownerId === user.id &&
+                preset.exportType === body.exportType &&
+                preset.name.toLowerCase() === name.toLowerCase()
+        );
+
+        if (duplicate) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "A preset with this name already exists",
+                    details: { name: "A preset with this name already exists" },
+                },
+                { status: 409 }
+            );
+        }
+
+        const now = new Date().toISOString();
+        const preset: FilterPreset = {
+            id: `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name,
+            exportType: body.exportType,
+            filters: body.filters,
+            visibility,
+            isOfficial,
+            ownerId: user.id,
+            ownerName: user.username,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        if (!savePresets([preset])) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save filter preset",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log("✅ Filter preset created:", preset.id, preset.name, preset.visibility);
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Filter preset saved",
+                data: preset,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating filter preset:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to save filter preset",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * Single Export Schedule Endpoint
+ *
+ * PATCH  /api/v1/exports/schedules/:id - change the rule or pause/resume (owner only)
+ * DELETE /api/v1/exports/schedules/:id - remove the schedule and its run history (owner only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import {
+    deleteSchedule,
+    findScheduleById,
+    updateSchedule,
+} from "@/lib/db/export-schedule-storage";
+import { getNextRunTime, validateScheduleRule } from "@/lib/utils/export-schedule";
+import type { ExportSchedule, UpdateExportScheduleInput } from "@/lib/types/exports";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const schedule = findScheduleById(id);
+
+        if (!schedule || schedule.ownerId !== user.id) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Export schedule not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const body: UpdateExportScheduleInput = await request.json();
+        const updates: Partial<ExportSchedule> = {};
+
+        if (body.rule !== undefined) {
+            const ruleError = validateScheduleRule(body.rule);
+            if (ruleError) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: "Validation failed",
+                        message: ruleError,
+                        details: { rule: ruleError },
+                    },
+                    { status: 400 }
+                );
+            }
+            updates.rule = body.rule;
+        }
+
+        if (body.enabled !== undefined) {
+            updates.enabled = Boolean(body.enabled);
+        }
+
+        const rule = updates.rule ?? schedule.rule;
+        const enabled = updates.enabled ?? schedule.enabled;
+        updates.nextRunAt = enabled ? getNextRunTime(rule, new Date())?.toISOString() ?? null : null;
+
+        const updated = updateSchedule(id, updates);
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to update export schedule",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Export schedule updated",
+            data: updated,
+        });
+    } catch (error: any) {
+        console.error("❌ Error updating export schedule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update export schedule",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const schedule = findScheduleById(id);
+
+        if (!schedule || schedule.ownerId !== user.id) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Export schedule not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        if (!deleteSchedule(id)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to delete export schedule",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Export schedule deleted",
+        });
+    } catch (error: any) {
+        console.error("❌ Error deleting export schedule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to delete export schedule",
+            },
+            { status: 500 }
+        );
+    }
+}
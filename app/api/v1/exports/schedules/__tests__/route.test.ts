@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getActiveSuppliers } from "@/lib/auth/export-access";
+import { getSessionToken, getSessionUser } from "@/lib/auth/server-session";
+import { UserRole } from "@/lib/types/auth";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ getSessionUser: jest.fn(), getSessionToken: jest.fn() }));
+jest.mock("@/lib/auth/export-access", () => ({ getActiveSuppliers: jest.fn() }));
+
+type SchedulesRoute = typeof import("../route");
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/exports/schedules", { method: "POST", body: JSON.stringify(body) });
+
+const scheduleInput = {
+  presetId: "preset-1",
+  presetName: "Spain weekly",
+  exportType: "hotel",
+  filters: { filters: { suppliers: ["hotelbeds"], country_codes: "ES" } },
+  rule: { frequency: "daily", time: "08:00" },
+};
+
+describe("POST /api/v1/exports/schedules", () => {
+  useTempDataDir("export-schedules-");
+
+  let route: SchedulesRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(getSessionUser).mockResolvedValue(sessionUser({ id: "user-1", username: "alice", role: UserRole.ADMIN_USER }));
+    jest.mocked(getSessionToken).mockReturnValue("token");
+    jest.mocked(getActiveSuppliers).mockResolvedValue(["Hotelbeds", "agoda"]);
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a session", async () => {
+    jest.mocked(getSessionUser).mockResolvedValue(null);
+
+    const response = await route.POST(post(scheduleInput));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("requires the export_data permission", async () => {
+    jest.mocked(getSessionUser).mockResolvedValue(sessionUser({ id: "user-2", username: "bob", role: UserRole.USER }));
+
+    const response = await route.POST(post(scheduleInput));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("rejects presets without suppliers", async () => {
+    const response = await route.POST(post({ ...scheduleInput, filters: { filters: { suppliers: [] } } }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ filters: "Preset filters must list at least one supplier" });
+    expect(getActiveSuppliers).not.toHaveBeenCalled();
+  });
+
+  it("rejects suppliers the caller can't export", async () => {
+    const response = await route.POST(
+      post({ ...scheduleInput, filters: { filters: { suppliers: ["hotelbeds", "expedia"] } } })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ filters: "You can't export these suppliers: expedia" });
+  });
+
+  it("returns 503 when supplier access can't be confirmed", async () => {
+    jest.mocked(getActiveSuppliers).mockResolvedValue(null);
+
+    const response = await route.POST(post(scheduleInput));
+
+    expect(response.status).toBe(503);
+  });
+
+  it("creates the schedule for the caller's own suppliers", async () => {
+    const response = await route.POST(post(scheduleInput));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data).toMatchObject({ ownerId: "user-1", presetName: "Spain weekly", enabled: true });
+    expect(getActiveSuppliers).toHaveBeenCalledWith("token");
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Scheduled Exports Endpoint
+ *
+ * GET  /api/v1/exports/schedules - the caller's schedules
+ * POST /api/v1/exports/schedules - attach a schedule to a saved filter preset
+ *
+ * Requires the export_data permission: scheduled runs are executed by the
+ * scheduler's service account, not with the caller's own API key. The preset's
+ * suppliers must be ones the caller can export themselves.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveSuppliers } from "@/lib/auth/export-access";
+import { getSessionToken, getSessionUser } from "@/lib/auth/server-session";
+import { getSchedulesByOwner, saveSchedule } from "@/lib/db/export-schedule-storage";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import { findInaccessibleSuppliers, getNextRunTime, validateScheduleRule } from "@/lib/utils/export-schedule";
+import type { CreateExportScheduleInput, ExportSchedule } from "@/lib/types/exports";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: getSchedulesByOwner(user.id),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching export schedules:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to fetch export schedules",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        if (!hasPermission(user, Permission.EXPORT_DATA)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Forbidden",
+                    message: "You do not have permission to schedule exports",
+                },
+                { status: 403 }
+            );
+        }
+
+        const body: CreateExportScheduleInput = await request.json();
+        const errors: Record<string, string> = {};
+
+        if (!body.presetId || !body.presetName?.trim()) {
+            errors.preset = "A saved filter preset is required";
+        }
+
+        if (body.exportType !== "hotel" && body.exportType !== "mapping") {
+            errors.exportType = "Export type must be hotel or mapping";
+        }
+
+        const suppliers = body.filters?.filters?.suppliers;
+        if (!body.filters || typeof body.filters !== "object" || !("filters" in body.filters)) {
+            errors.filters = "Preset filters are missing";
+        } else if (
+            !Array.isArray(suppliers) ||
+            suppliers.length === 0 ||
+            !suppliers.every((supplier) => typeof supplier === "string")
+        ) {
+            errors.filters = "Preset filters must list at least one supplier";
+        }
+
+        const ruleError = validateScheduleRule(body.rule);
+        if (ruleError) {
+            errors.rule = ruleError;
+        }
+
+        if (!errors.filters) {
+            const accessible = await getActiveSuppliers(getSessionToken(request)!);
+
+            if (!accessible) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: "Service unavailable",
+                        message: "Unable to confirm your supplier access. Please try again.",
+                    },
+                    { status: 503 }
+                );
+            }
+
+            const denied = findInaccessibleSuppliers(suppliers, accessible);
+            if (denied.length > 0) {
+                errors.filters = `You can't export these suppliers: ${denied.join(", ")}`;
+            }
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date();
+        const enabled = body.enabled ?? true;
+        const schedule: ExportSchedule = {
+            id: `sched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            ownerId: user.id,
+            ownerName: user.username,
+            presetId: body.presetId,
+            presetName: body.presetName.trim(),
+            exportType: body.exportType,
+            filters: body.filters,
+            rule: body.rule,
+            enabled,
+            nextRunAt: enabled ? getNextRunTime(body.rule, now)?.toISOString() ?? null : null,
+            lastRunAt: null,
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString(),
+        };
+
+        if (!saveSchedule(schedule)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save export schedule",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log("✅ Export schedule created:", schedule.id, schedule.presetName);
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Export schedule created",
+                data: schedule,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating export schedule:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to create export schedule",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Scheduled Export Download Endpoint
+ *
+ * GET /api/v1/exports/schedules/runs/:runId/download - schedule owner only.
+ * Scheduled jobs belong to the scheduler's service account, so the file is
+ * fetched with its credentials and streamed back to the owner.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getSchedulerHeaders } from "@/lib/auth/scheduler-credentials";
+import { findRunById, findScheduleById } from "@/lib/db/export-schedule-storage";
+import { apiEndpoints, config } from "@/lib/config";
+import { EXPORT_FORMAT_EXTENSIONS } from "@/lib/types/exports";
+
+interface RouteContext {
+    params: Promise<{ runId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { runId } = await params;
+        const run = findRunById(runId);
+
+        if (!run || run.ownerId !== user.id) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Scheduled export run not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        if (run.status !== "completed" || !run.jobId) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Conflict",
+                    message: "This run has no file to download",
+                },
+                { status: 409 }
+            );
+        }
+
+        if (run.expiresAt && new Date(run.expiresAt).getTime() < Date.now()) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Gone",
+                    message: "Export file has expired",
+                },
+                { status: 410 }
+            );
+        }
+
+        const headers = getSchedulerHeaders("EXPORT_SCHEDULER");
+
+        if (!headers) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Service unavailable",
+                    message: "Export scheduler is not configured",
+                },
+                { status: 503 }
+            );
+        }
+
+        const upstream = await fetch(
+            `${config.api.url}${apiEndpoints.exports.download(run.jobId)}`,
+            { headers, cache: "no-store" }
+        );
+
+        if (!upstream.ok || !upstream.body) {
+            console.warn("⚠️ Scheduled export download failed:", run.jobId, upstream.status);
+
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Bad gateway",
+                    message: upstream.status === 404
+                        ? "Export file not found or has expired"
+                        : "Unable to download export file",
+                },
+                { status: upstream.status === 404 ? 404 : 502 }
+            );
+        }
+
+        const format = findScheduleById(run.scheduleId)?.filters.format ?? "json";
+        const responseHeaders: Record<string, string> = {
+            "Content-Type": upstream.headers.get("content-type") || "application/octet-stream",
+            "Content-Disposition":
+                upstream.headers.get("content-disposition") ||
+                `attachment; filename="${run.jobId}.${EXPORT_FORMAT_EXTENSIONS[format] || "json"}"`,
+            "Cache-Control": "private, no-store",
+        };
+
+        const contentLength = upstream.headers.get("content-length");
+        if (contentLength) {
+            responseHeaders["Content-Length"] = contentLength;
+        }
+
+        return new Response(upstream.body, { status: 200, headers: responseHeaders });
+    } catch (error: any) {
+        console.error("❌ Error downloading scheduled export:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to download scheduled export",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Scheduled Export Runs Endpoint
+ *
+ * GET /api/v1/exports/schedules/runs - past and in-progress runs of the caller's schedules
+ *     ?scheduleId=... limits the list to one schedule
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getRunsByOwner } from "@/lib/db/export-schedule-storage";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const scheduleId = request.nextUrl.searchParams.get("scheduleId");
+        const runs = getRunsByOwner(user.id).filter(
+            (run) => !scheduleId || run.scheduleId === scheduleId
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: runs,
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching export schedule runs:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to fetch scheduled export runs",
+            },
+            { status: 500 }
+        );
+    }
+}
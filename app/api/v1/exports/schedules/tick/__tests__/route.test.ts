@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { checkOwnerExportAccess } from "@/lib/auth/export-access";
+import type { ExportSchedule } from "@/lib/types/exports";
+import { useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/export-access", () => ({ checkOwnerExportAccess: jest.fn() }));
+jest.mock("@/lib/auth/scheduler-credentials", () => ({
+  isSchedulerRequest: () => true,
+  getSchedulerHeaders: () => ({ Authorization: "Bearer scheduler" }),
+}));
+
+type TickRoute = typeof import("../route");
+type ScheduleStorage = typeof import("@/lib/db/export-schedule-storage");
+
+const tick = () => new NextRequest("http://localhost/api/v1/exports/schedules/tick", { method: "POST" });
+
+const dueSchedule: ExportSchedule = {
+  id: "sched-1",
+  ownerId: "user-1",
+  ownerName: "alice",
+  presetId: "preset-1",
+  presetName: "Spain weekly",
+  exportType: "hotel",
+  filters: {
+    filters: {
+      suppliers: ["hotelbeds"],
+      country_codes: "All",
+      min_rating: 0,
+      max_rating: 5,
+      date_from: null,
+      date_to: null,
+      ittids: "All",
+      property_types: "All",
+    },
+    format: "csv",
+    include_locations: false,
+    include_contacts: false,
+    include_mappings: false,
+  },
+  rule: { frequency: "daily", time: "08:00" },
+  enabled: true,
+  nextRunAt: "2020-01-01T08:00:00.000Z",
+  lastRunAt: null,
+  createdAt: "2020-01-01T00:00:00.000Z",
+  updatedAt: "2020-01-01T00:00:00.000Z",
+};
+
+describe("POST /api/v1/exports/schedules/tick", () => {
+  useTempDataDir("export-tick-");
+
+  let route: TickRoute;
+  let storage: ScheduleStorage;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    fetchMock = jest.fn().mockResolvedValue(new Response(JSON.stringify({ job_id: "job-1" }), { status: 200 }));
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      storage = require("@/lib/db/export-schedule-storage");
+      route = require("../route");
+    });
+    storage.saveSchedule(dueSchedule);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("starts the run when the owner can still export", async () => {
+    jest.mocked(checkOwnerExportAccess).mockResolvedValue("allowed");
+
+    const body = await (await route.POST(tick())).json();
+
+    expect(body.data).toMatchObject({ startedRuns: 1, blockedRuns: 0, deferredRuns: 0 });
+    expect(storage.getAllRuns()[0]).toMatchObject({ status: "processing", jobId: "job-1" });
+  });
+
+  it("disables the schedule without exporting when the owner lost export_data", async () => {
+    jest.mocked(checkOwnerExportAccess).mockResolvedValue("denied");
+
+    const body = await (await route.POST(tick())).json();
+
+    expect(body.data).toMatchObject({ startedRuns: 0, blockedRuns: 1 });
+    expect(storage.findScheduleById("sched-1")).toMatchObject({ enabled: false, nextRunAt: null });
+    expect(storage.getAllRuns()[0]).toMatchObject({ status: "failed", jobId: null });
+    // Only the owner notification went out, no export job
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).not.toContain("/export");
+  });
+
+  it("leaves the schedule due when the owner can't be looked up", async () => {
+    jest.mocked(checkOwnerExportAccess).mockResolvedValue("unknown");
+
+    const body = await (await route.POST(tick())).json();
+
+    expect(body.data).toMatchObject({ startedRuns: 0, deferredRuns: 1 });
+    expect(storage.findScheduleById("sched-1")).toMatchObject({ enabled: true, nextRunAt: dueSchedule.nextRunAt });
+    expect(storage.getAllRuns()).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Export Scheduler Tick Endpoint
+ *
+ * POST /api/v1/exports/schedules/tick - called by cron (see scripts/run-export-schedules.js)
+ * with the X-Scheduler-Secret header. Each tick:
+ *   1. refreshes the status of runs that are still processing and notifies owners of finished ones
+ *   2. starts an export job for every enabled schedule whose next run time has passed, after
+ *      checking that its owner still has the export_data permission. Schedules whose owner lost
+ *      it are disabled; when the owner can't be looked up, the run waits for the next tick.
+ *
+ * Missed runs (e.g. while the scheduler was down) are not replayed; a schedule runs once and
+ * moves on to its next future time.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkOwnerExportAccess } from "@/lib/auth/export-access";
+import { getSchedulerHeaders, isSchedulerRequest } from "@/lib/auth/scheduler-credentials";
+import {
+    getAllRuns,
+    getAllSchedules,
+    saveRun,
+    updateRun,
+    updateSchedule,
+} from "@/lib/db/export-schedule-storage";
+import { getNextRunTime } from "@/lib/utils/export-schedule";
+import { apiEndpoints, config } from "@/lib/config";
+import type { CreateNotificationRequest } from "@/lib/api/notifications";
+import type {
+    ExportFilters,
+    ExportJobResponse,
+    ExportJobStatus,
+    ExportSchedule,
+    ExportScheduleRun,
+    ExportType,
+    HotelExportFilters,
+    MappingExportFilters,
+} from "@/lib/types/exports";
+
+/**
+ * Build the backend request body, dropping empty dates the backend rejects
+ */
+function toExportRequestBody(exportType: ExportType, filters: ExportFilters) {
+    if (exportType === "hotel") {
+        const hotel = filters as HotelExportFilters;
+        return {
+            ...hotel,
+            filters: {
+                ...hotel.filters,
+                date_from: hotel.filters.date_from?.trim() ? hotel.filters.date_from : null,
+                date_to: hotel.filters.date_to?.trim() ? hotel.filters.date_to : null,
+            },
+        };
+    }
+
+    const mapping = filters as MappingExportFilters;
+    const { date_from, date_to, ...rest } = mapping.filters;
+    return {
+        format: mapping.format,
+        filters: {
+            ...rest,
+            ...(date_from?.trim() ? { date_from } : {}),
+            ...(date_to?.trim() ? { date_to } : {}),
+        },
+    };
+}
+
+async function notifyOwner(headers: Record<string, string>, run: ExportScheduleRun) {
+    const succeeded = run.status === "completed";
+    const payload: CreateNotificationRequest = {
+        user_id: run.ownerId,
+        type: "export",
+        priority: succeeded ? "medium" : "high",
+        title: succeeded
+            ? `Scheduled export "${run.presetName}" is ready`
+            : `Scheduled export "${run.presetName}" failed`,
+        message: succeeded
+            ? `${run.totalRecords.toLocaleString()} records exported. Download it from Scheduled exports.`
+            : run.errorMessage || "The export job did not complete.",
+        meta_data: {
+            notification_source: "scheduled_export",
+            schedule_id: run.scheduleId,
+            run_id: run.id,
+            job_id: run.jobId,
+            action_url: "/dashboard/exports?tab=scheduled",
+            ...(succeeded
+                ? { download_url: `/api/v1/exports/schedules/runs/${run.id}/download` }
+                : {}),
+        },
+    };
+
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.notifications.adminCreate}`, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            console.warn("⚠️ Failed to notify schedule owner:", response.status);
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.warn("⚠️ Failed to notify schedule owner:", error);
+        return false;
+    }
+}
+
+/**
+ * Refresh one in-flight run. Returns true when it reached a terminal state.
+ */
+async function refreshRun(headers: Record<string, string>, run: ExportScheduleRun): Promise<boolean> {
+    const response = await fetch(`${config.api.url}${apiEndpoints.exports.status(run.jobId!)}`, {
+        headers,
+        cache: "no-store",
+    });
+
+    if (!response.ok) {
+        console.warn("⚠️ Unable to refresh scheduled export run:", run.id, response.status);
+        return false;
+    }
+
+    const status: ExportJobStatus = await response.json();
+    const finished = status.status === "completed" || status.status === "failed";
+
+    const updated = updateRun(run.id, {
+        status: status.status,
+        progress: status.progress_percentage,
+        totalRecords: status.total_records,
+        completedAt: status.completed_at,
+        expiresAt: status.expires_at,
+        errorMessage: status.error_message,
+    });
+
+    if (finished && updated && !updated.notified) {
+        const notified = await notifyOwner(headers, updated);
+        updateRun(run.id, { notified });
+    }
+
+    return finished;
+}
+
+function createRun(schedule: ExportSchedule, now: Date): ExportScheduleRun {
+    return {
+        id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        scheduleId: schedule.id,
+        ownerId: schedule.ownerId,
+        presetName: schedule.presetName,
+        exportType: schedule.exportType,
+        jobId: null,
+        status: "processing",
+        scheduledFor: schedule.nextRunAt || now.toISOString(),
+        startedAt: now.toISOString(),
+        completedAt: null,
+        progress: 0,
+        totalRecords: 0,
+        errorMessage: null,
+        expiresAt: null,
+        notified: false,
+    };
+}
+
+/**
+ * Record a failed run for a schedule whose owner can no longer export, and disable it
+ */
+async function blockRun(headers: Record<string, string>, schedule: ExportSchedule, now: Date) {
+    const run: ExportScheduleRun = {
+        ...createRun(schedule, now),
+        status: "failed",
+        completedAt: now.toISOString(),
+        errorMessage: "You no longer have permission to export data, so this schedule was turned off.",
+    };
+
+    saveRun(run);
+    updateSchedule(schedule.id, { enabled: false, nextRunAt: null, lastRunAt: now.toISOString() });
+    console.warn("⚠️ Scheduled export disabled, owner can no longer export:", schedule.id, schedule.ownerId);
+
+    const notified = await notifyOwner(headers, run);
+    updateRun(run.id, { notified });
+}
+
+/**
+ * Start the export job for a due schedule and record the run
+ */
+async function startRun(headers: Record<string, string>, schedule: ExportSchedule, now: Date) {
+    const endpoint =
+        schedule.exportType === "hotel" ? apiEndpoints.exports.hotels : apiEndpoints.exports.mappings;
+    const run = createRun(schedule, now);
+
+    try {
+        const response = await fetch(`${config.api.url}${endpoint}`, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify(toExportRequestBody(schedule.exportType, schedule.filters)),
+        });
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.job_id) {
+            run.status = "failed";
+            run.completedAt = now.toISOString();
+            run.errorMessage =
+                (data && (data.message || data.detail || data.error)) ||
+                `Export request failed with status ${response.status}`;
+        } else {
+            const job = data as ExportJobResponse;
+            run.jobId = job.job_id;
+            run.totalRecords = job.estimated_records || 0;
+        }
+    } catch (error: any) {
+        run.status = "failed";
+        run.completedAt = now.toISOString();
+        run.errorMessage = error?.message || "Unable to reach the export service";
+    }
+
+    saveRun(run);
+    updateSchedule(schedule.id, {
+        lastRunAt: now.toISOString(),
+        nextRunAt: getNextRunTime(schedule.rule, now)?.toISOString() ?? null,
+    });
+
+    if (run.status === "failed") {
+        console.warn("⚠️ Scheduled export failed to start:", schedule.id, run.errorMessage);
+        const notified = await notifyOwner(headers, run);
+        updateRun(run.id, { notified });
+    } else {
+        console.log("✅ Scheduled export started:", schedule.id, run.jobId);
+    }
+
+    return run;
+}
+
+export async function POST(request: NextRequest) {
+    if (!isSchedulerRequest(request, "EXPORT_SCHEDULER")) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Invalid scheduler secret",
+            },
+            { status: 401 }
+        );
+    }
+
+    const headers = getSchedulerHeaders("EXPORT_SCHEDULER");
+
+    if (!headers) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Service unavailable",
+                message: "EXPORT_SCHEDULER_TOKEN is not configured",
+            },
+            { status: 503 }
+        );
+    }
+
+    try {
+        const now = new Date();
+        let finished = 0;
+        let started = 0;
+        let failedToStart = 0;
+        let blocked = 0;
+        let deferred = 0;
+
+        // 1. Follow up on runs that are still processing
+        const inFlight = getAllRuns().filter((run) => run.status === "processing" && run.jobId);
+        for (const run of inFlight) {
+            try {
+                if (await refreshRun(headers, run)) finished++;
+            } catch (error) {
+                console.warn("⚠️ Error refreshing scheduled export run:", run.id, error);
+            }
+        }
+
+        // 2. Start schedules that are due
+        const due = getAllSchedules().filter(
+            (schedule) =>
+                schedule.enabled &&
+                schedule.nextRunAt &&
+                new Date(schedule.nextRunAt).getTime() <= now.getTime()
+        );
+        for (const schedule of due) {
+            const access = await checkOwnerExportAccess(schedule.ownerId, headers);
+            if (access === "unknown") {
+                deferred++;
+                continue;
+            }
+            if (access === "denied") {
+                await blockRun(headers, schedule, now);
+                blocked++;
+                continue;
+            }
+
+            const run = await startRun(headers, schedule, now);
+            if (run.status === "failed") failedToStart++;
+            else started++;
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                checkedRuns: inFlight.length,
+                finishedRuns: finished,
+                startedRuns: started,
+                failedToStart,
+                blockedRuns: blocked,
+                deferredRuns: deferred,
+            },
+        });
+    } catch (error: any) {
+        console.error("❌ Error running export scheduler:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Export scheduler tick failed",
+            },
+            { status: 500 }
+        );
+    }
+}
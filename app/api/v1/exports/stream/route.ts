@@ -0,0 +1,90 @@
+/**
+ * Export Status Stream Endpoint
+ *
+ * GET /api/v1/exports/stream - Server-Sent Events proxy for the backend export events stream.
+ * One connection carries `status` events (ExportJobStatus payloads) for all of the caller's jobs.
+ * Clients fall back to polling /export/status when this stream is unavailable or drops.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionToken } from "@/lib/auth/server-session";
+import { apiEndpoints, config } from "@/lib/config";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+    const token = getSessionToken(request);
+
+    if (!token) {
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Unauthorized",
+                message: "Missing or invalid authentication token",
+            },
+            { status: 401 }
+        );
+    }
+
+    const upstreamUrl = new URL(`${config.api.url}${apiEndpoints.exports.events}`);
+    const jobIds = request.nextUrl.searchParams.get("job_ids");
+    if (jobIds) {
+        upstreamUrl.searchParams.set("job_ids", jobIds);
+    }
+
+    let upstream: Response;
+
+    try {
+        // Aborting the client request closes the upstream connection as well
+        upstream = await fetch(upstreamUrl.toString(), {
+            headers: {
+                Authorization: `Bearer ${token}`,
+                Accept: "text/event-stream",
+            },
+            cache: "no-store",
+            signal: request.signal,
+        });
+    } catch (error: any) {
+        console.error("❌ Export stream upstream unreachable:", error?.message || error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Bad gateway",
+                message: "Export status stream is unavailable",
+            },
+            { status: 502 }
+        );
+    }
+
+    const contentType = upstream.headers.get("content-type") || "";
+
+    if (!upstream.ok || !upstream.body || !contentType.includes("text/event-stream")) {
+        console.warn("⚠️ Export stream rejected by backend:", upstream.status, contentType);
+        upstream.body?.cancel().catch(() => undefined);
+
+        const status = upstream.status === 401 || upstream.status === 403 ? upstream.status : 502;
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: status === 502 ? "Bad gateway" : "Unauthorized",
+                message: "Export status stream is unavailable",
+            },
+            { status }
+        );
+    }
+
+    console.log("✅ Export status stream opened");
+
+    return new Response(upstream.body, {
+        status: 200,
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            // Disable proxy buffering (nginx) so events are delivered immediately
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionToken, requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn(), getSessionToken: jest.fn() }));
+
+type ContentQualityRoute = typeof import("../route");
+
+const viewer = sessionUser({ id: "u-1", username: "alice" });
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/hotels/content-quality", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const hotelDetails = (mappings: unknown[]) => ({
+  hotel: { ittid: "10000001", name: "Hotel Arts" },
+  locations: [{ country_code: "es" }],
+  provider_mappings: mappings,
+});
+
+describe("POST /api/v1/hotels/content-quality", () => {
+  useTempDataDir("content-quality-");
+
+  let route: ContentQualityRoute;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: viewer });
+    jest.mocked(getSessionToken).mockReturnValue("viewer-token");
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a valid ITTID", async () => {
+    const response = await route.POST(post({ ittid: "../users" }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["ittid"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("scores the backend's details, ignoring scores sent by the client", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify(
+          hotelDetails([
+            {
+              provider_name: "agoda",
+              provider_id: "9",
+              full_details: { name: "Hotel Arts", address: { full_address: "Carrer de la Marina 19" } },
+            },
+          ])
+        ),
+        { status: 200 }
+      )
+    );
+
+    const response = await route.POST(
+      post({ ittid: " 10000001 ", suppliers: [{ supplier: "agoda", providerHotelId: "9", missing: [] }] })
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain("/content/get-full-hotel-with-itt-mapping-id/10000001");
+    expect(init.headers.Authorization).toBe("Bearer viewer-token");
+    expect((await response.json()).data).toEqual([
+      expect.objectContaining({ key: "agoda|10000001", countryCode: "ES", hotelName: "Hotel Arts", score: 20 }),
+    ]);
+  });
+
+  it("returns the backend's error when the details can't be fetched", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ detail: "Hotel not found" }), { status: 404 }));
+
+    const response = await route.POST(post({ ittid: "10000001" }));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ success: false, message: "Hotel not found" });
+  });
+
+  it("returns 404 for a hotel without supplier mappings", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify(hotelDetails([])), { status: 200 }));
+
+    const response = await route.POST(post({ ittid: "10000001" }));
+
+    expect(response.status).toBe(404);
+  });
+});
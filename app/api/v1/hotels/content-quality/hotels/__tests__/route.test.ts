@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import type { ContentQualityRecord } from "@/lib/types/content-quality";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type ContentQualityHotelsRoute = typeof import("../route");
+
+const viewer = sessionUser({ id: "u-1", username: "alice" });
+
+const get = (query: string) => new NextRequest(`http://localhost/api/v1/hotels/content-quality/hotels?${query}`);
+
+function record(ittid: string, score: number, missing: ContentQualityRecord["missing"], countryCode = "ES") {
+  return {
+    key: `agoda|${ittid}`,
+    supplier: "agoda",
+    providerHotelId: ittid,
+    ittid,
+    hotelName: "Hotel",
+    countryCode,
+    score,
+    missing,
+    scoredAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("GET /api/v1/hotels/content-quality/hotels", () => {
+  useTempDataDir("content-quality-hotels-");
+
+  let route: ContentQualityHotelsRoute;
+
+  beforeEach(() => {
+    jest.mocked(requirePermission).mockResolvedValue({ user: viewer });
+    jest.isolateModules(() => {
+      require("@/lib/db/content-quality-storage").saveContentQualityRecords([
+        record("10000001", 80, ["photos"]),
+        record("10000002", 40, ["photos", "descriptions", "roomTypes"]),
+        record("10000003", 100, [], "FR"),
+      ]);
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a supplier, a known missing check and a score between 0 and 100", async () => {
+    const response = await route.GET(get("supplier=%20&missing=toString&maxScore=120"));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["supplier", "missing", "maxScore"]);
+  });
+
+  it("lists the supplier's hotels lowest score first", async () => {
+    const { data } = await (await route.GET(get("supplier=agoda"))).json();
+
+    expect(data.map((item: ContentQualityRecord) => item.ittid)).toEqual(["10000002", "10000001", "10000003"]);
+  });
+
+  it("filters by country, missing check and maximum score", async () => {
+    const byCountry = await (await route.GET(get("supplier=agoda&country=fr"))).json();
+    const byCheck = await (await route.GET(get("supplier=agoda&missing=photos&maxScore=50"))).json();
+
+    expect(byCountry.data.map((item: ContentQualityRecord) => item.ittid)).toEqual(["10000003"]);
+    expect(byCheck.data.map((item: ContentQualityRecord) => item.ittid)).toEqual(["10000002"]);
+  });
+});
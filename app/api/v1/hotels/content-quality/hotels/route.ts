@@ -0,0 +1,74 @@
+/**
+ * Content Quality Hotels Endpoint
+ *
+ * GET /api/v1/hotels/content-quality/hotels?supplier=&country=&missing=&maxScore= - one supplier's hotel scores, lowest first (requires view_all_providers)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllContentQualityRecords } from "@/lib/db/content-quality-storage";
+import { CONTENT_QUALITY_CHECKS, isContentQualityCheckKey } from "@/lib/utils/content-quality";
+import { Permission } from "@/lib/utils/rbac";
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_ALL_PROVIDERS);
+        if (response) return response;
+
+        const searchParams = request.nextUrl.searchParams;
+        const supplier = searchParams.get("supplier")?.trim() ?? "";
+        const country = searchParams.get("country")?.toUpperCase();
+        const missing = searchParams.get("missing");
+        const maxScoreParam = searchParams.get("maxScore");
+        const maxScore = maxScoreParam === null ? 100 : Number(maxScoreParam);
+        const errors: Record<string, string> = {};
+
+        if (!supplier) {
+            errors.supplier = "Supplier is required";
+        }
+        if (missing && !isContentQualityCheckKey(missing)) {
+            errors.missing = `Missing must be one of: ${Object.keys(CONTENT_QUALITY_CHECKS).join(", ")}`;
+        }
+        if (!Number.isFinite(maxScore) || maxScore < 0 || maxScore > 100) {
+            errors.maxScore = "Max score must be a number between 0 and 100";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const records = getAllContentQualityRecords()
+            .filter(
+                (record) =>
+                    record.supplier === supplier &&
+                    (!country || record.countryCode === country) &&
+                    (!missing || record.missing.some((key) => key === missing)) &&
+                    record.score <= maxScore
+            )
+            .sort((a, b) => a.score - b.score || a.ittid.localeCompare(b.ittid));
+
+        return NextResponse.json({
+            success: true,
+            data: records,
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching content quality hotels:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch content quality hotels",
+            },
+            { status: 500 }
+        );
+    }
+}
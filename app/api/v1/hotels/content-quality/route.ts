@@ -0,0 +1,135 @@
+/**
+ * Content Quality Endpoint
+ * Keeps the latest completeness score per supplier and hotel via lib/db/content-quality-storage.
+ * Scores are worked out here (lib/utils/content-quality) from the backend's full hotel details,
+ * fetched with the caller's token, so clients only say which hotel to score.
+ *
+ * GET  /api/v1/hotels/content-quality?country= - per-supplier averages, lowest first (requires view_all_providers)
+ * POST /api/v1/hotels/content-quality           - score one hotel's suppliers and record them, { ittid } (requires view_all_hotels)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, callBackendAsUser } from "@/lib/auth/admin-actions";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllContentQualityRecords, saveContentQualityRecords } from "@/lib/db/content-quality-storage";
+import {
+    aggregateContentQuality,
+    buildContentQualityInput,
+    getContentQualityScore,
+} from "@/lib/utils/content-quality";
+import { Permission } from "@/lib/utils/rbac";
+import type { ContentQualityRecord, RecordContentQualityInput } from "@/lib/types/content-quality";
+import type { FullHotelDetailsResponse } from "@/lib/types/full-hotel-details";
+
+const ITTID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.VIEW_ALL_PROVIDERS);
+        if (response) return response;
+
+        const country = request.nextUrl.searchParams.get("country")?.toUpperCase();
+        const records = getAllContentQualityRecords().filter((record) => !country || record.countryCode === country);
+
+        return NextResponse.json({
+            success: true,
+            data: aggregateContentQuality(records),
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching content quality:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch content quality",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.VIEW_ALL_HOTELS);
+        if (response) return response;
+
+        const body: RecordContentQualityInput = await request.json();
+        const ittid = typeof body.ittid === "string" ? body.ittid.trim() : "";
+
+        if (!ittid || !ITTID_PATTERN.test(ittid)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "A valid ITTID is required",
+                    details: { ittid: "A valid ITTID is required" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const result = await callBackendAsUser(request, {
+            method: "GET",
+            path: `/content/get-full-hotel-with-itt-mapping-id/${encodeURIComponent(ittid)}`,
+        });
+        if (!result.ok) {
+            return backendErrorResponse(result);
+        }
+
+        const input = buildContentQualityInput(result.data as FullHotelDetailsResponse);
+        if (!input) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "This hotel has no supplier content to score",
+                },
+                { status: 404 }
+            );
+        }
+
+        const scoredAt = new Date().toISOString();
+        const records: ContentQualityRecord[] = input.suppliers.map((item) => ({
+            key: `${item.supplier}|${input.ittid}`,
+            supplier: item.supplier,
+            providerHotelId: String(item.providerHotelId ?? ""),
+            ittid: input.ittid,
+            hotelName: input.hotelName,
+            countryCode: input.countryCode.toUpperCase(),
+            score: getContentQualityScore(item.missing),
+            missing: item.missing,
+            scoredAt,
+        }));
+
+        if (!saveContentQualityRecords(records)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save content quality scores",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Content quality for ${input.ittid} recorded by ${user.username}: ${records.length} suppliers`);
+
+        return NextResponse.json({
+            success: true,
+            message: "Content quality recorded",
+            data: records,
+        });
+    } catch (error: any) {
+        console.error("❌ Error recording content quality:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to record content quality",
+            },
+            { status: 500 }
+        );
+    }
+}
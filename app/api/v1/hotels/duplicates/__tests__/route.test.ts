@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type DuplicatesRoute = typeof import("../route");
+
+const reviewer = sessionUser({ id: "u-1", username: "alice" });
+
+const put = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/hotels/duplicates", {
+    method: "PUT",
+    body: JSON.stringify(body),
+  });
+
+const del = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/hotels/duplicates", {
+    method: "DELETE",
+    body: JSON.stringify(body),
+  });
+
+const decision = {
+  ittidA: "10000002",
+  ittidB: "10000001",
+  nameA: "Arts Barcelona",
+  nameB: "Hotel Arts",
+  countryCode: "es",
+  confidence: 0.9,
+  decision: "same",
+};
+
+describe("PUT /api/v1/hotels/duplicates", () => {
+  useTempDataDir("duplicate-reviews-");
+
+  let route: DuplicatesRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: reviewer });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects a hotel paired with itself", async () => {
+    const response = await route.PUT(put({ ...decision, ittidB: decision.ittidA }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({ ittids: "A hotel can't be a duplicate of itself" });
+  });
+
+  it("rejects inherited object keys as decisions", async () => {
+    const response = await route.PUT(put({ ...decision, decision: "constructor" }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["decision"]);
+  });
+
+  it("rejects a confidence outside 0 to 1", async () => {
+    const response = await route.PUT(put({ ...decision, confidence: 1.5 }));
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await response.json()).details)).toEqual(["confidence"]);
+  });
+
+  it("stores the pair in key order with the reviewer from the session", async () => {
+    const response = await route.PUT(put(decision));
+
+    expect((await response.json()).data).toMatchObject({
+      key: "10000001|10000002",
+      ittidA: "10000001",
+      nameA: "Hotel Arts",
+      ittidB: "10000002",
+      countryCode: "ES",
+      reviewedBy: "alice",
+    });
+  });
+});
+
+describe("DELETE /api/v1/hotels/duplicates", () => {
+  useTempDataDir("duplicate-reviews-");
+
+  let route: DuplicatesRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: reviewer });
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    { ittidA: 10000001, ittidB: "10000002" },
+    { ittidA: "10000001", ittidB: "   " },
+    { ittidA: ["10000001"], ittidB: "10000002" },
+  ])("rejects ITTIDs that aren't non-empty strings: %j", async (body) => {
+    const response = await route.DELETE(del(body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, error: "Validation failed" });
+  });
+
+  it("trims the ITTIDs before looking the pair up", async () => {
+    await route.PUT(put(decision));
+
+    const response = await route.DELETE(del({ ittidA: " 10000002 ", ittidB: "10000001\n" }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toEqual({ key: "10000001|10000002" });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ requirePermission: jest.fn() }));
+
+type DuplicatesRoute = typeof import("../../route");
+type ExportRoute = typeof import("../route");
+
+const reviewer = sessionUser({ id: "u-1", username: "alice" });
+
+const put = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/hotels/duplicates", {
+    method: "PUT",
+    body: JSON.stringify(body),
+  });
+
+const get = (query: string) => new NextRequest(`http://localhost/api/v1/hotels/duplicates/export?${query}`);
+
+const decision = {
+  ittidA: "10000001",
+  ittidB: "10000002",
+  nameA: "=HYPERLINK(\"http://example.com\")",
+  nameB: "Hotel Arts",
+  countryCode: "es",
+  confidence: 0.9,
+  decision: "same",
+};
+
+describe("GET /api/v1/hotels/duplicates/export", () => {
+  useTempDataDir("duplicate-export-");
+
+  let route: ExportRoute;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(requirePermission).mockResolvedValue({ user: reviewer });
+
+    let reviews!: DuplicatesRoute;
+    jest.isolateModules(() => {
+      reviews = require("../../route");
+      route = require("../route");
+    });
+
+    await reviews.PUT(put(decision));
+    await reviews.PUT(put({ ...decision, ittidB: "10000003", nameA: "Arts", countryCode: "fr", decision: "different" }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("filters by country and decision", async () => {
+    const response = await route.GET(get("format=json&country=fr&decision=different"));
+    const reviews = JSON.parse(await response.text());
+
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(reviews.map((review: { ittidB: string }) => review.ittidB)).toEqual(["10000003"]);
+  });
+
+  it("defaults to a CSV download that neutralises formulas", async () => {
+    const response = await route.GET(get("decision=same"));
+    const csv = await response.text();
+
+    expect(response.headers.get("Content-Disposition")).toMatch(/attachment; filename="duplicate-reviews-.*\.csv"/);
+    expect(csv.trim().split(/\r?\n/)).toHaveLength(2);
+    expect(csv).toContain("'=HYPERLINK");
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Duplicate Hotel Reviews Export Endpoint
+ *
+ * GET /api/v1/hotels/duplicates/export?format=csv|json&country=&decision= - matching reviews as a download (requires EDIT_HOTELS)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import { getAllDuplicateReviews } from "@/lib/db/duplicate-review-storage";
+import { buildDuplicateReviewsCsv } from "@/lib/utils/hotel-duplicates";
+import { Permission } from "@/lib/utils/rbac";
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_HOTELS);
+        if (response) return response;
+
+        const searchParams = request.nextUrl.searchParams;
+        const format = searchParams.get("format") === "json" ? "json" : "csv";
+        const country = searchParams.get("country")?.toUpperCase();
+        const decision = searchParams.get("decision");
+
+        const reviews = getAllDuplicateReviews().filter(
+            (review) => (!country || review.countryCode === country) && (!decision || review.decision === decision)
+        );
+        const filename = `duplicate-reviews-${new Date().toISOString().split("T")[0]}.${format}`;
+
+        console.log(`✅ Duplicate reviews exported by ${user.username}: ${reviews.length} pairs`);
+
+        return new NextResponse(
+            format === "json" ? JSON.stringify(reviews, null, 2) : buildDuplicateReviewsCsv(reviews),
+            {
+                status: 200,
+                headers: {
+                    "Content-Type": format === "json" ? "application/json; charset=utf-8" : "text/csv; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${filename}"`,
+                },
+            }
+        );
+    } catch (error: any) {
+        console.error("❌ Error exporting duplicate reviews:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to export duplicate reviews",
+            },
+            { status: 500 }
+        );
+    }
+}
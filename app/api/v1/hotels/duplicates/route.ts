@@ -0,0 +1,196 @@
+/**
+ * Duplicate Hotel Reviews Endpoint
+ * Persists reviewers' decisions on likely duplicate ITTID pairs via lib/db/duplicate-review-storage.
+ * Candidates themselves are found in the dashboard (lib/utils/hotel-duplicates).
+ *
+ * GET    /api/v1/hotels/duplicates?country= - reviewed pairs, most recent first
+ * PUT    /api/v1/hotels/duplicates           - record a decision, { ittidA, ittidB, nameA, nameB, countryCode, confidence, decision, note? }
+ * DELETE /api/v1/hotels/duplicates           - put a pair back in the queue, { ittidA, ittidB }
+ *
+ * Requires the edit_hotels permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/server-session";
+import {
+    deleteDuplicateReview,
+    getAllDuplicateReviews,
+    saveDuplicateReview,
+} from "@/lib/db/duplicate-review-storage";
+import { DUPLICATE_DECISION_LABELS, getDuplicatePairKey } from "@/lib/utils/hotel-duplicates";
+import { Permission } from "@/lib/utils/rbac";
+import type { DuplicateDecision, SaveDuplicateReviewInput } from "@/lib/types/hotel-duplicates";
+
+const MAX_NOTE_LENGTH = 500;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.EDIT_HOTELS);
+        if (response) return response;
+
+        const country = request.nextUrl.searchParams.get("country")?.toUpperCase();
+        const reviews = getAllDuplicateReviews().filter((review) => !country || review.countryCode === country);
+
+        return NextResponse.json({
+            success: true,
+            data: reviews,
+        });
+    } catch (error: any) {
+        console.error("❌ Error fetching duplicate reviews:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to fetch duplicate reviews",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const { user, response } = await requirePermission(request, Permission.EDIT_HOTELS);
+        if (response) return response;
+
+        const body: SaveDuplicateReviewInput = await request.json();
+        const ittidA = typeof body.ittidA === "string" ? body.ittidA.trim() : "";
+        const ittidB = typeof body.ittidB === "string" ? body.ittidB.trim() : "";
+        const note = typeof body.note === "string" ? body.note.trim() : "";
+        const errors: Record<string, string> = {};
+
+        if (!ittidA || !ittidB) {
+            errors.ittids = "Both ITTIDs are required";
+        } else if (ittidA === ittidB) {
+            errors.ittids = "A hotel can't be a duplicate of itself";
+        }
+        if (
+            typeof body.decision !== "string" ||
+            !Object.prototype.hasOwnProperty.call(DUPLICATE_DECISION_LABELS, body.decision)
+        ) {
+            errors.decision = `Decision must be one of: ${Object.keys(DUPLICATE_DECISION_LABELS).join(", ")}`;
+        }
+        if (typeof body.confidence !== "number" || body.confidence < 0 || body.confidence > 1) {
+            errors.confidence = "Confidence must be a number between 0 and 1";
+        }
+        if (note.length > MAX_NOTE_LENGTH) {
+            errors.note = `Note must be ${MAX_NOTE_LENGTH} characters or fewer`;
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: Object.values(errors).join("; "),
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        // Store the pair in key order so either direction finds the same review
+        const [first, second] =
+            ittidA < ittidB
+                ? [{ ittid: ittidA, name: body.nameA }, { ittid: ittidB, name: body.nameB }]
+                : [{ ittid: ittidB, name: body.nameB }, { ittid: ittidA, name: body.nameA }];
+
+        const saved = saveDuplicateReview({
+            key: getDuplicatePairKey(ittidA, ittidB),
+            ittidA: first.ittid,
+            ittidB: second.ittid,
+            nameA: String(first.name ?? ""),
+            nameB: String(second.name ?? ""),
+            countryCode: String(body.countryCode ?? "").toUpperCase(),
+            confidence: body.confidence,
+            decision: body.decision as DuplicateDecision,
+            note,
+            reviewedBy: user.username,
+            reviewedAt: new Date().toISOString(),
+        });
+
+        if (!saved) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save duplicate review",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Duplicate pair ${saved.key} marked "${saved.decision}" by ${user.username}`);
+
+        return NextResponse.json({
+            success: true,
+            message: "Decision saved",
+            data: saved,
+        });
+    } catch (error: any) {
+        console.error("❌ Error saving duplicate review:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to save duplicate review",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const { response } = await requirePermission(request, Permission.EDIT_HOTELS);
+        if (response) return response;
+
+        const body = await request.json();
+        const ittidA = typeof body.ittidA === "string" ? body.ittidA.trim() : "";
+        const ittidB = typeof body.ittidB === "string" ? body.ittidB.trim() : "";
+
+        if (!ittidA || !ittidB) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: "Both ITTIDs are required",
+                    details: { ittids: "Both ITTIDs are required" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const key = getDuplicatePairKey(ittidA, ittidB);
+
+        if (!deleteDuplicateReview(key)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "This pair has not been reviewed",
+                },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "Pair returned to the review queue",
+            data: { key },
+        });
+    } catch (error: any) {
+        console.error("❌ Error removing duplicate review:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to remove duplicate review",
+            },
+            { status: 500 }
+        );
+    }
+}
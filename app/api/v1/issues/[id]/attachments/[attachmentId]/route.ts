@@ -0,0 +1,90 @@
+/**
+ * Issue Attachment Download Endpoint
+ *
+ * GET /api/v1/issues/:id/attachments/:attachmentId - reporter or admin.
+ * Images are served inline for previews; everything else as a download.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { findIssueById } from "@/lib/db/issue-storage";
+import { readAttachmentFile } from "@/lib/db/attachment-storage";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import { isImageAttachment } from "@/lib/utils/issue-attachments";
+
+interface RouteContext {
+    params: Promise<{ id: string; attachmentId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id, attachmentId } = await params;
+        const issue = findIssueById(id);
+        const attachment = issue?.attachments?.find((item) => item.id === attachmentId);
+
+        if (
+            !issue ||
+            !attachment ||
+            (issue.userId !== user.id && !hasPermission(user, Permission.VIEW_ALL_USERS))
+        ) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Attachment not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const data = readAttachmentFile(id, attachmentId);
+
+        if (!data) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Attachment file is missing",
+                },
+                { status: 404 }
+            );
+        }
+
+        const disposition = isImageAttachment(attachment.mimeType) ? "inline" : "attachment";
+
+        return new NextResponse(new Uint8Array(data), {
+            status: 200,
+            headers: {
+                "Content-Type": attachment.mimeType,
+                "Content-Length": String(data.length),
+                "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+                "X-Content-Type-Options": "nosniff",
+                "Cache-Control": "private, max-age=300",
+            },
+        });
+    } catch (error: any) {
+        console.error("❌ Error downloading attachment:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to download attachment",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,194 @@
+/**
+ * Issue Attachments Upload Endpoint
+ *
+ * POST /api/v1/issues/:id/attachments - multipart/form-data with one or more `files` fields.
+ * Reporter or admin only. Size, count and MIME type are validated before anything is written.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { findIssueById, updateIssue } from "@/lib/db/issue-storage";
+import { deleteAttachmentFile, saveAttachmentFile } from "@/lib/db/attachment-storage";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import {
+    ISSUE_ATTACHMENT_MAX_BYTES,
+    ISSUE_ATTACHMENT_MAX_FILES,
+    matchesDeclaredType,
+    validateAttachmentFile,
+} from "@/lib/utils/issue-attachments";
+import type { IssueAttachmentRecord } from "@/lib/types/issue";
+
+// Allow some headroom for multipart boundaries and field headers
+const MAX_REQUEST_BYTES = ISSUE_ATTACHMENT_MAX_FILES * ISSUE_ATTACHMENT_MAX_BYTES + 64 * 1024;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const issue = findIssueById(id);
+
+        if (!issue || (issue.userId !== user.id && !hasPermission(user, Permission.VIEW_ALL_USERS))) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Issue not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const contentLength = Number(request.headers.get("content-length") || 0);
+        if (contentLength > MAX_REQUEST_BYTES) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Payload too large",
+                    message: "Upload exceeds the maximum allowed size",
+                },
+                { status: 413 }
+            );
+        }
+
+        const formData = await request.formData();
+        const files = formData.getAll("files").filter((entry): entry is File => entry instanceof File);
+
+        if (files.length === 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    details: { files: "No files were uploaded" },
+                },
+                { status: 400 }
+            );
+        }
+
+        const existingCount = issue.attachments?.length || 0;
+        if (existingCount + files.length > ISSUE_ATTACHMENT_MAX_FILES) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    details: {
+                        files: `An issue can have at most ${ISSUE_ATTACHMENT_MAX_FILES} attachments`,
+                    },
+                },
+                { status: 400 }
+            );
+        }
+
+        // Validate everything before writing anything
+        const errors: string[] = [];
+        const buffers: Buffer[] = [];
+
+        for (const file of files) {
+            const error = validateAttachmentFile(file);
+            if (error) {
+                errors.push(error);
+                continue;
+            }
+
+            const buffer = Buffer.from(await file.arrayBuffer());
+            if (!matchesDeclaredType(buffer, file.type)) {
+                errors.push(`${file.name}: content does not match its file type`);
+                continue;
+            }
+
+            buffers.push(buffer);
+        }
+
+        if (errors.length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: errors.join("; "),
+                    details: { files: errors },
+                },
+                { status: 400 }
+            );
+        }
+
+        const uploadedAt = new Date().toISOString();
+        const saved: IssueAttachmentRecord[] = [];
+
+        for (let index = 0; index < files.length; index++) {
+            const file = files[index];
+            const attachment: IssueAttachmentRecord = {
+                id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                fileName: file.name,
+                mimeType: file.type,
+                size: file.size,
+                uploadedBy: user.username,
+                uploadedAt,
+            };
+
+            if (!saveAttachmentFile(id, attachment.id, buffers[index])) {
+                saved.forEach((previous) => deleteAttachmentFile(id, previous.id));
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: "Internal server error",
+                        message: `Unable to store ${file.name}`,
+                    },
+                    { status: 500 }
+                );
+            }
+
+            saved.push(attachment);
+        }
+
+        const updated = updateIssue(id, {
+            attachments: [...(issue.attachments || []), ...saved],
+        });
+
+        if (!updated) {
+            saved.forEach((attachment) => deleteAttachmentFile(id, attachment.id));
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save attachments",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: `${saved.length} attachment(s) uploaded`,
+                data: updated,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error uploading attachments:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to upload attachments",
+            },
+            { status: 500 }
+        );
+    }
+}
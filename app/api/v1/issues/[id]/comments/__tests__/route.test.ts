@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+import type { IssueRecord } from "@/lib/types/issue";
+
+jest.mock("@/lib/auth/server-session", () => ({
+  ...jest.requireActual("@/lib/auth/server-session"),
+  getSessionUser: jest.fn(),
+}));
+
+type CommentsRoute = typeof import("../route");
+type IssueStorage = typeof import("@/lib/db/issue-storage");
+
+const issue: IssueRecord = {
+  id: "issue_1",
+  title: "Export fails",
+  description: "The CSV export stops halfway through.",
+  category: "bug",
+  priority: "high",
+  status: "open",
+  createdAt: "2024-01-02T03:04:05.000Z",
+  updatedAt: "2024-01-02T03:04:05.000Z",
+  userId: "user-1",
+};
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest("http://localhost/api/v1/issues/issue_1/comments", {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+
+const context = { params: Promise.resolve({ id: "issue_1" }) };
+
+describe("POST /api/v1/issues/:id/comments", () => {
+  useTempDataDir("issue-comments-");
+
+  let route: CommentsRoute;
+  let storage: IssueStorage;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(getSessionUser).mockResolvedValue(sessionUser());
+    global.fetch = jest.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    jest.isolateModules(() => {
+      storage = require("@/lib/db/issue-storage");
+      route = require("../route");
+    });
+    storage.saveIssue(issue);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("notifies the reporter with the session cookie when there is no Authorization header", async () => {
+    const response = await route.POST(post({ body: "Fixed in the next release" }, { cookie: "hita_session=cookie-token" }), context);
+
+    expect(response.status).toBe(201);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    const [, init] = jest.mocked(global.fetch).mock.calls[0];
+    expect(init?.headers).toMatchObject({ Authorization: "Bearer cookie-token" });
+    expect(JSON.parse(String(init?.body))).toMatchObject({ user_id: "user-1", priority: "high" });
+  });
+
+  it("doesn't notify reporters about their own replies", async () => {
+    jest.mocked(getSessionUser).mockResolvedValue(sessionUser({ id: "user-1", username: "alice" }));
+
+    const response = await route.POST(post({ body: "Any news?" }, { cookie: "hita_session=cookie-token" }), context);
+
+    expect(response.status).toBe(201);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("rejects an empty comment", async () => {
+    const response = await route.POST(post({ body: "   " }), context);
+
+    expect(response.status).toBe(400);
+    expect(storage.findIssueById("issue_1")?.comments).toBeUndefined();
+  });
+});
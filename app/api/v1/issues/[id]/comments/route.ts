@@ -0,0 +1,157 @@
+/**
+ * Issue Comments API Endpoint
+ *
+ * POST /api/v1/issues/:id/comments - reporter or admin adds a reply to the thread.
+ * Staff replies raise a notification for the reporter through the backend notifications API.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionToken, getSessionUser } from "@/lib/auth/server-session";
+import { findIssueById, updateIssue } from "@/lib/db/issue-storage";
+import { apiEndpoints, config } from "@/lib/config";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import type { CreateNotificationRequest } from "@/lib/api/notifications";
+import type { IssueCommentRecord, IssueRecord } from "@/lib/types/issue";
+
+const MAX_COMMENT_LENGTH = 5000;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Create a notification for the reporter. Failures are logged, never surfaced:
+ * the comment is already saved and the reporter still sees it in the thread.
+ */
+async function notifyReporter(token: string, issue: IssueRecord, comment: IssueCommentRecord) {
+    const payload: CreateNotificationRequest = {
+        user_id: issue.userId,
+        type: "system",
+        priority: issue.priority === "critical" || issue.priority === "high" ? "high" : "medium",
+        title: `New reply on "${issue.title}"`,
+        message:
+            comment.body.length > 200 ? `${comment.body.slice(0, 197)}...` : comment.body,
+        meta_data: {
+            sent_by: comment.authorName,
+            sent_at: comment.createdAt,
+            notification_source: "issue_comment",
+            issue_id: issue.id,
+            comment_id: comment.id,
+            action_url: "/dashboard/issues",
+        },
+    };
+
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.notifications.adminCreate}`, {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${token}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            console.warn("⚠️ Failed to notify issue reporter:", response.status);
+        }
+    } catch (error) {
+        console.warn("⚠️ Failed to notify issue reporter:", error);
+    }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const issue = findIssueById(id);
+        const isStaff = hasPermission(user, Permission.VIEW_ALL_USERS);
+
+        if (!issue || (issue.userId !== user.id && !isStaff)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Issue not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const body = await request.json();
+        const text = typeof body.body === "string" ? body.body.trim() : "";
+
+        if (!text || text.length > MAX_COMMENT_LENGTH) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    details: {
+                        body: `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`,
+                    },
+                },
+                { status: 400 }
+            );
+        }
+
+        const comment: IssueCommentRecord = {
+            id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            authorId: user.id,
+            authorName: user.username,
+            isStaff,
+            body: text,
+            createdAt: new Date().toISOString(),
+        };
+
+        const updated = updateIssue(id, {
+            comments: [...(issue.comments || []), comment],
+        });
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save comment",
+                },
+                { status: 500 }
+            );
+        }
+
+        const token = getSessionToken(request);
+        if (token && user.id !== issue.userId) {
+            await notifyReporter(token, updated, comment);
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Comment added successfully",
+                data: updated,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error adding issue comment:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to add comment",
+            },
+            { status: 500 }
+        );
+    }
+}
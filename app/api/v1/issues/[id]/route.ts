@@ -0,0 +1,196 @@
+/**
+ * Single Issue API Endpoint
+ *
+ * GET   /api/v1/issues/:id  - reporter or admin
+ * PATCH /api/v1/issues/:id  - admin triage: status and priority (recorded in the issue history)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { findIssueById, updateIssue } from "@/lib/db/issue-storage";
+import { ISSUE_PRIORITIES, ISSUE_STATUSES } from "@/lib/utils/issues";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import type {
+    IssueHistoryField,
+    IssueHistoryRecord,
+    IssueRecord,
+} from "@/lib/types/issue";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const issue = findIssueById(id);
+
+        // Report foreign issues as missing so IDs can't be probed
+        if (!issue || (issue.userId !== user.id && !hasPermission(user, Permission.VIEW_ALL_USERS))) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Issue not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: issue }, { status: 200 });
+    } catch (error: any) {
+        console.error("❌ Error fetching issue:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to fetch issue",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        if (!hasPermission(user, Permission.VIEW_ALL_USERS)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Forbidden",
+                    message: "Only administrators can triage issues",
+                },
+                { status: 403 }
+            );
+        }
+
+        const { id } = await params;
+        const existing = findIssueById(id);
+
+        if (!existing) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Not found",
+                    message: "Issue not found",
+                },
+                { status: 404 }
+            );
+        }
+
+        const body = await request.json();
+        const { status, priority } = body;
+
+        const errors: Record<string, string> = {};
+
+        if (status !== undefined && !ISSUE_STATUSES.includes(status)) {
+            errors.status = "Invalid status";
+        }
+
+        if (priority !== undefined && !ISSUE_PRIORITIES.includes(priority)) {
+            errors.priority = "Invalid priority";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const updates: Partial<IssueRecord> = {};
+        const changedAt = new Date().toISOString();
+        const history: IssueHistoryRecord[] = [...(existing.history || [])];
+
+        const recordChange = (field: IssueHistoryField, from: string, to: string) => {
+            history.push({
+                id: `hist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                field,
+                from,
+                to,
+                changedBy: user.username,
+                changedAt,
+            });
+        };
+
+        if (status !== undefined && status !== existing.status) {
+            recordChange("status", existing.status, status);
+            updates.status = status;
+        }
+
+        if (priority !== undefined && priority !== existing.priority) {
+            recordChange("priority", existing.priority, priority);
+            updates.priority = priority;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ success: true, data: existing }, { status: 200 });
+        }
+
+        updates.history = history;
+
+        const updated = updateIssue(id, updates);
+
+        if (!updated) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to update issue",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Issue updated successfully",
+                data: updated,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error updating issue:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to update issue",
+            },
+            { status: 500 }
+        );
+    }
+}
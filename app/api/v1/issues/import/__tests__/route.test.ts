@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { sessionUser, useTempDataDir } from "@/lib/test-utils/route-tests";
+
+jest.mock("@/lib/auth/server-session", () => ({ getSessionUser: jest.fn() }));
+
+type ImportRoute = typeof import("../route");
+
+const post = (body: unknown) =>
+  new NextRequest("http://localhost/api/v1/issues/import", { method: "POST", body: JSON.stringify(body) });
+
+const legacyIssue = {
+  id: "issue_1700000000000_abc",
+  title: "Export fails",
+  description: "The CSV export stops halfway through.",
+  category: "bug",
+  priority: "high",
+  status: "open",
+  createdAt: "2024-01-02T03:04:05.000Z",
+  updatedAt: "2024-01-02T03:04:05.000Z",
+  userId: "user-1",
+};
+
+describe("POST /api/v1/issues/import", () => {
+  useTempDataDir("issues-import-");
+
+  let route: ImportRoute;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.mocked(getSessionUser).mockResolvedValue(sessionUser({ id: "user-1", username: "alice" }));
+    jest.isolateModules(() => {
+      route = require("../route");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires a session", async () => {
+    jest.mocked(getSessionUser).mockResolvedValue(null);
+
+    const response = await route.POST(post([legacyIssue]));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects a body that isn't a list of issues", async () => {
+    const response = await route.POST(post({ issues: [legacyIssue] }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, error: "Validation failed" });
+  });
+
+  it("skips issues already uploaded, so a retry doesn't duplicate them", async () => {
+    const first = await route.POST(post([legacyIssue]));
+    const second = await route.POST(post([legacyIssue]));
+
+    expect(first.status).toBe(201);
+    expect((await first.json()).data).toEqual({ imported: 1, skipped: 0 });
+    expect(second.status).toBe(200);
+    expect((await second.json()).data).toEqual({ imported: 0, skipped: 1 });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Legacy Issues Import Endpoint
+ *
+ * POST /api/v1/issues/import - upload issues an older issues page saved in the browser, [ ...issues ]
+ *
+ * Only the caller's own issues are kept. Issues already on the server (same ID) are skipped,
+ * so a retried upload doesn't create duplicates.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getAllIssues, saveIssues } from "@/lib/db/issue-storage";
+import { parseLegacyIssues } from "@/lib/utils/issues";
+import type { IssueRecord } from "@/lib/types/issue";
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        let issues: IssueRecord[];
+        try {
+            issues = parseLegacyIssues(await request.json(), user);
+        } catch (error: any) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    message: error.message || "Invalid issues",
+                },
+                { status: 400 }
+            );
+        }
+
+        const existingIds = new Set(getAllIssues().map((issue) => issue.id));
+        const imported = issues.filter((issue) => !existingIds.has(issue.id));
+
+        if (imported.length > 0 && !saveIssues(imported)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save uploaded issues",
+                },
+                { status: 500 }
+            );
+        }
+
+        console.log(`✅ Uploaded ${imported.length} browser-saved issues for`, user.id);
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: `Uploaded ${imported.length} issue(s)`,
+                data: { imported: imported.length, skipped: issues.length - imported.length },
+            },
+            { status: imported.length > 0 ? 201 : 200 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error uploading browser-saved issues:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to upload issues",
+            },
+            { status: 500 }
+        );
+    }
+}
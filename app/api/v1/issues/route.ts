@@ -0,0 +1,162 @@
+/**
+ * Issues API Endpoint
+ * Persists support issues via lib/db/issue-storage
+ *
+ * GET  /api/v1/issues            - issues reported by the caller
+ * GET  /api/v1/issues?scope=all  - triage queue of every issue (requires VIEW_ALL_USERS)
+ * POST /api/v1/issues            - report a new issue
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server-session";
+import { getAllIssues, getIssuesByUser, saveIssue } from "@/lib/db/issue-storage";
+import { ISSUE_CATEGORIES, ISSUE_PRIORITIES } from "@/lib/utils/issues";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import type { IssueRecord } from "@/lib/types/issue";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const scope = request.nextUrl.searchParams.get("scope");
+
+        if (scope === "all") {
+            if (!hasPermission(user, Permission.VIEW_ALL_USERS)) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: "Forbidden",
+                        message: "You don't have permission to view all issues",
+                    },
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json({ success: true, data: getAllIssues() }, { status: 200 });
+        }
+
+        return NextResponse.json({ success: true, data: getIssuesByUser(user.id) }, { status: 200 });
+    } catch (error: any) {
+        console.error("❌ Error fetching issues:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: "Unable to fetch issues",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Unauthorized",
+                    message: "Missing or invalid authentication token",
+                },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const { title, description, category, priority, userEmail } = body;
+
+        // Mirrors the client-side validation in IssueForm
+        const errors: Record<string, string> = {};
+
+        if (!title || typeof title !== "string" || title.trim().length < 5) {
+            errors.title = "Title must be at least 5 characters";
+        }
+
+        if (!description || typeof description !== "string" || description.trim().length < 20) {
+            errors.description = "Description must be at least 20 characters";
+        }
+
+        if (!ISSUE_CATEGORIES.includes(category)) {
+            errors.category = "Invalid category";
+        }
+
+        if (!ISSUE_PRIORITIES.includes(priority)) {
+            errors.priority = "Invalid priority";
+        }
+
+        if (userEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(userEmail)) {
+            errors.userEmail = "Please enter a valid email address";
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Validation failed",
+                    details: errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date().toISOString();
+        const issue: IssueRecord = {
+            id: `issue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            title: title.trim(),
+            description: description.trim(),
+            category,
+            priority,
+            status: "open",
+            createdAt: now,
+            updatedAt: now,
+            userId: user.id,
+            username: user.username,
+            userEmail: userEmail || undefined,
+        };
+
+        if (!saveIssue(issue)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Internal server error",
+                    message: "Unable to save issue",
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: "Issue submitted successfully",
+                data: issue,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("❌ Error creating issue:", error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: "Internal server error",
+                message: error.message || "Unable to create issue",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { AdminAuditService } from "@/lib/api/admin-audit";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select } from "@/lib/components/ui/select";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import { ADMIN_AUDIT_ACTIONS, ADMIN_AUDIT_ACTION_LABELS } from "@/lib/utils/admin-audit";
+import type {
+  AdminAuditAction,
+  AdminAuditEntry,
+  AdminAuditFilters,
+  AdminAuditPage,
+} from "@/lib/types/admin-audit";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  History,
+  Loader2,
+  RefreshCw,
+  Search,
+} from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const TARGET_LABELS: Record<AdminAuditEntry["targetType"], string> = {
+  user: "User",
+  trial_request: "Trial request",
+  role: "Role",
+  top_up_rule: "Auto top-up rule",
+};
+
+function formatDetails(details?: Record<string, unknown>): string {
+  if (!details) return "";
+  return Object.entries(details)
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) =>
+      `${key.replace(/_/g, " ")}: ${
+        Array.isArray(value)
+          ? value.join(", ") || "none"
+          : typeof value === "object"
+            ? JSON.stringify(value)
+            : String(value)
+      }`,
+    )
+    .join(" · ");
+}
+
+export default function AdminAuditPage() {
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user } = useAuth();
+
+  const [filters, setFilters] = useState<AdminAuditFilters>({});
+  const [searchInput, setSearchInput] = useState("");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AdminAuditPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canViewAudit = hasPermission(user, Permission.VIEW_SYSTEM_SETTINGS);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await AdminAuditService.getEntries(filters, page, PAGE_SIZE);
+
+    if (response.success && response.data) {
+      setData(response.data);
+    } else {
+      setError(response.error?.message || "Failed to load audit log");
+    }
+    setLoading(false);
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (isAuthenticated && canViewAudit) {
+      loadEntries();
+    }
+  }, [isAuthenticated, canViewAudit, loadEntries]);
+
+  // Apply the search box after typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) =>
+        (prev.search ?? "") === searchInput.trim()
+          ? prev
+          : { ...prev, search: searchInput.trim() || undefined },
+      );
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof AdminAuditFilters>(
+    key: K,
+    value: AdminAuditFilters[K] | "",
+  ) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setSearchInput("");
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    const response = await AdminAuditService.exportCsv(filters);
+
+    if (response.success && response.data) {
+      const url = window.URL.createObjectURL(response.data);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `admin-audit-${new Date().toISOString().split("T")[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } else {
+      setError(response.error?.message || "Failed to export audit log");
+    }
+    setExporting(false);
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-color" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !canViewAudit) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Access Denied
+          </h1>
+          <p className="text-[rgb(var(--text-secondary))]">
+            You need permission to view system settings to access the audit log.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary-color rounded-lg">
+            <History className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-[rgb(var(--text-primary))]">
+              Audit Log
+            </h1>
+            <p className="text-[rgb(var(--text-secondary))]">
+              Management actions taken in the dashboard
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={loadEntries}
+            disabled={loading}
+            leftIcon={<RefreshCw className={loading ? "w-4 h-4 animate-spin" : "w-4 h-4"} />}
+          >
+            Refresh
+          </Button>
+          <Button
+            onClick={handleExport}
+            loading={exporting}
+            disabled={!data || data.total === 0}
+            leftIcon={<Download className="w-4 h-4" />}
+          >
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+          <Input
+            label="Search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Target, ID or details"
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+          <Select
+            label="Actor"
+            placeholder="All actors"
+            options={(data?.actors ?? []).map((actor) => ({ value: actor, label: actor }))}
+            value={filters.actor ?? ""}
+            onChange={(e) => updateFilter("actor", e.target.value)}
+          />
+          <Select
+            label="Action"
+            placeholder="All actions"
+            options={ADMIN_AUDIT_ACTIONS.map((action) => ({
+              value: action,
+              label: ADMIN_AUDIT_ACTION_LABELS[action],
+            }))}
+            value={filters.action ?? ""}
+            onChange={(e) => updateFilter("action", e.target.value as AdminAuditAction | "")}
+          />
+          <Input
+            label="From"
+            type="date"
+            value={filters.from ?? ""}
+            max={filters.to}
+            onChange={(e) => updateFilter("from", e.target.value)}
+          />
+          <Input
+            label="To"
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from}
+            onChange={(e) => updateFilter("to", e.target.value)}
+          />
+        </div>
+        {hasFilters && (
+          <div className="mt-3 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-[rgb(var(--bg-secondary))] border-b border-[rgb(var(--border-primary))]">
+            <tr>
+              {["Time", "Actor", "Action", "Target", "Outcome", "Details"].map((heading) => (
+                <th
+                  key={heading}
+                  className="px-4 py-3 text-left text-xs font-medium text-[rgb(var(--text-secondary))] uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[rgb(var(--border-primary))]">
+            {loading && !data && (
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary-color mx-auto" />
+                </td>
+              </tr>
+            )}
+            {data && data.entries.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-4 py-12 text-center text-[rgb(var(--text-secondary))]"
+                >
+                  {hasFilters ? "No actions match these filters." : "No actions recorded yet."}
+                </td>
+              </tr>
+            )}
+            {data?.entries.map((entry) => (
+              <tr key={entry.id} className="align-top">
+                <td className="px-4 py-3 whitespace-nowrap text-[rgb(var(--text-secondary))]">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </td>
+                <td className="px-4 py-3 text-[rgb(var(--text-primary))]">
+                  {entry.actorName}
+                </td>
+                <td className="px-4 py-3 text-[rgb(var(--text-primary))]">
+                  {ADMIN_AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                </td>
+                <td className="px-4 py-3">
+                  <span className="block text-[rgb(var(--text-primary))]">
+                    {entry.targetName || entry.targetId}
+                  </span>
+                  <span className="block text-xs text-[rgb(var(--text-tertiary))]">
+                    {TARGET_LABELS[entry.targetType]}
+                    {entry.targetName && ` · ${entry.targetId}`}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  <span
+                    className={
+                      entry.outcome === "success"
+                        ? "inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                        : "inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                    }
+                  >
+                    {entry.outcome === "success" ? "Success" : "Failed"}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-xs text-[rgb(var(--text-secondary))] max-w-md break-words">
+                  {formatDetails(entry.details)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {data && data.total > 0 && (
+        <div className="mt-4 flex items-center justify-between text-sm text-[rgb(var(--text-secondary))]">
+          <span>
+            {(data.page - 1) * data.limit + 1}–{Math.min(data.page * data.limit, data.total)} of{" "}
+            {data.total}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1 || loading}
+              onClick={() => setPage((p) => p - 1)}
+              leftIcon={<ChevronLeft className="w-4 h-4" />}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages || loading}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
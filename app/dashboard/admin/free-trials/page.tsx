@@ -7,6 +7,7 @@
 
 import React, { useState, useEffect } from "react";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import { useRouter } from "next/navigation";
 import {
   CheckCircle,
@@ -47,7 +48,7 @@ interface TrialRequest {
 }
 
 export default function FreeTrialsAdminPage() {
-  const { isAuthenticated, user, token } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const router = useRouter();
   const [requests, setRequests] = useState<TrialRequest[]>([]);
   const [loading, setLoading] = useState(true);
@@ -79,33 +80,16 @@ export default function FreeTrialsAdminPage() {
     setLoading(true);
     setError(null);
     try {
-      // Get backend API URL from environment
-      const BACKEND_API_URL =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-
-      // Get token from auth context
-      const authToken = token || "mock_admin_token";
-
       const params = new URLSearchParams();
       if (filter !== "all") {
         params.append("status", filter);
       }
 
       console.log("🔄 Fetching requests with filter:", filter);
-      console.log("🔑 Using token:", authToken ? "Token present" : "No token");
-      console.log(
-        "🌐 Backend URL:",
-        `${BACKEND_API_URL}/${API_VERSION}/free-trial/requests`,
-      );
 
+      // The backend proxy authenticates the call with the session cookie
       const response = await fetch(
-        `${BACKEND_API_URL}/${API_VERSION}/free-trial/requests?${params.toString()}`,
-        {
-          headers: {
-            Authorization: `Bearer ${authToken}`,
-          },
-        },
+        backendUrl(`/free-trial/requests?${params.toString()}`),
       );
 
       const data = await response.json();
@@ -153,24 +137,15 @@ export default function FreeTrialsAdminPage() {
     setActionLoading(true);
     setError(null);
     try {
-      // Get backend API URL from environment
-      const BACKEND_API_URL =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-
-      // Get token from auth context
-      const authToken = token || "mock_admin_token";
-
       console.log("🔄 Updating request:", requestId, "to status:", newStatus);
-      console.log("🔑 Using token:", authToken ? "Token present" : "No token");
 
+      // The route records approvals, rejections and contacts in the audit log
       const response = await fetch(
-        `${BACKEND_API_URL}/${API_VERSION}/free-trial/requests/${requestId}`,
+        `/api/v1/admin/free-trial/requests/${encodeURIComponent(requestId)}`,
         {
           method: "PUT",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${authToken}`,
           },
           body: JSON.stringify({
             status: newStatus,
@@ -0,0 +1,365 @@
+"use client";
+
+/**
+ * Auto Top-up Rule Dialog
+ *
+ * Creates or edits a rule that refills matching users to a target balance
+ * on a daily/weekly/monthly or cron schedule.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select, SelectOption } from "@/lib/components/ui/select";
+import { PointBudgetService } from "@/lib/api/point-budgets";
+import {
+  MAX_SCHEDULE_DAY_OF_MONTH,
+  WEEKDAY_NAMES,
+  describeScheduleRule,
+  getUpcomingRunTimes,
+} from "@/lib/utils/export-schedule";
+import {
+  AUTO_TOP_UP_PAID_STATUS_LABELS,
+  POINT_ROLE_LABELS,
+  validateTopUpRule,
+} from "@/lib/utils/point-budgets";
+import { UserRole } from "@/lib/types/auth";
+import type { ExportScheduleFrequency, ExportScheduleRule } from "@/lib/types/exports";
+import type {
+  AutoTopUpPaidStatus,
+  AutoTopUpRule,
+  SaveAutoTopUpRuleInput,
+} from "@/lib/types/point-budgets";
+import { Check, RefreshCcw, X } from "lucide-react";
+
+export interface TopUpRuleDialogProps {
+  isOpen: boolean;
+  // Existing rule to edit; create mode when omitted
+  rule?: AutoTopUpRule | null;
+  onClose: () => void;
+  onSaved: (rule: AutoTopUpRule) => void;
+}
+
+const FREQUENCY_OPTIONS: SelectOption[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "cron", label: "Custom (cron)" },
+];
+
+const WEEKDAY_OPTIONS: SelectOption[] = WEEKDAY_NAMES.map((name, index) => ({
+  value: String(index),
+  label: name,
+}));
+
+const DAY_OF_MONTH_OPTIONS: SelectOption[] = Array.from(
+  { length: MAX_SCHEDULE_DAY_OF_MONTH },
+  (_, index) => ({ value: String(index + 1), label: String(index + 1) }),
+);
+
+const PAID_STATUS_OPTIONS: SelectOption[] = (
+  Object.keys(AUTO_TOP_UP_PAID_STATUS_LABELS) as AutoTopUpPaidStatus[]
+).map((value) => ({ value, label: AUTO_TOP_UP_PAID_STATUS_LABELS[value] }));
+
+// Refill paid users on the first of each month
+const DEFAULT_RULE: SaveAutoTopUpRuleInput = {
+  name: "",
+  enabled: true,
+  roles: [],
+  paidStatus: "paid",
+  userIds: [],
+  targetBalance: 500,
+  schedule: {
+    frequency: "monthly",
+    time: "00:00",
+    dayOfWeek: 1,
+    dayOfMonth: 1,
+    cron: "0 0 1 * *",
+  },
+};
+
+function parseUserIds(text: string): string[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+export function TopUpRuleDialog({ isOpen, rule, onClose, onSaved }: TopUpRuleDialogProps) {
+  const [form, setForm] = useState<SaveAutoTopUpRuleInput>(DEFAULT_RULE);
+  const [userIdsText, setUserIdsText] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Reset the form whenever the dialog opens for a different rule
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(
+      rule
+        ? {
+            name: rule.name,
+            enabled: rule.enabled,
+            roles: rule.roles,
+            paidStatus: rule.paidStatus,
+            userIds: rule.userIds,
+            targetBalance: rule.targetBalance,
+            schedule: { ...DEFAULT_RULE.schedule, ...rule.schedule },
+          }
+        : DEFAULT_RULE,
+    );
+    setUserIdsText(rule?.userIds.join(", ") ?? "");
+    setSubmitted(false);
+    setSaveError(null);
+  }, [isOpen, rule]);
+
+  const input = { ...form, userIds: parseUserIds(userIdsText) };
+  const errors = validateTopUpRule(input);
+  const upcoming = useMemo(
+    () => (errors.schedule ? [] : getUpcomingRunTimes(form.schedule, new Date(), 3)),
+    [form.schedule, errors.schedule],
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const update = (updates: Partial<SaveAutoTopUpRuleInput>) => {
+    setForm((prev) => ({ ...prev, ...updates }));
+    setSaveError(null);
+  };
+
+  const updateSchedule = (updates: Partial<ExportScheduleRule>) => {
+    update({ schedule: { ...form.schedule, ...updates } });
+  };
+
+  const toggleRole = (role: UserRole) => {
+    update({
+      roles: form.roles.includes(role)
+        ? form.roles.filter((item) => item !== role)
+        : [...form.roles, role],
+    });
+  };
+
+  const handleSave = async () => {
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    const response = rule
+      ? await PointBudgetService.updateRule(rule.id, input)
+      : await PointBudgetService.createRule(input);
+
+    setIsSaving(false);
+    if (response.success && response.data) {
+      onSaved(response.data);
+      onClose();
+    } else {
+      setSaveError(response.error?.message || "Failed to save rule");
+    }
+  };
+
+  const schedule = form.schedule;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-40 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="top-up-rule-title"
+        className="bg-[rgb(var(--bg-primary))] rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto z-50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-[rgb(var(--border-primary))]">
+          <h3
+            id="top-up-rule-title"
+            className="text-xl font-bold text-[rgb(var(--text-primary))] flex items-center gap-2"
+          >
+            <RefreshCcw className="w-5 h-5 text-primary-color" />
+            {rule ? "Edit Auto Top-up" : "New Auto Top-up"}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-secondary))] rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          <Input
+            label="Name"
+            placeholder="Monthly refill for paid users"
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            error={submitted ? errors.name : undefined}
+          />
+
+          <Input
+            type="number"
+            min={1}
+            label="Refill to (points)"
+            value={Number.isNaN(form.targetBalance) ? "" : form.targetBalance}
+            onChange={(e) => update({ targetBalance: e.target.valueAsNumber })}
+            error={submitted ? errors.targetBalance : undefined}
+            helperText="Users below this balance are topped up to it; users above it are left alone"
+          />
+
+          <div>
+            <p className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+              Roles
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {Object.values(UserRole).map((role) => (
+                <label
+                  key={role}
+                  className="inline-flex items-center space-x-2 text-sm text-[rgb(var(--text-primary))]"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.roles.includes(role)}
+                    onChange={() => toggleRole(role)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <span>{POINT_ROLE_LABELS[role]}</span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-[rgb(var(--text-tertiary))]">
+              Leave all unchecked to include every role
+            </p>
+          </div>
+
+          <Select
+            label="Paid status"
+            options={PAID_STATUS_OPTIONS}
+            value={form.paidStatus}
+            onChange={(e) => update({ paidStatus: e.target.value as AutoTopUpPaidStatus })}
+          />
+
+          <div>
+            <label
+              htmlFor="top-up-user-ids"
+              className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2"
+            >
+              Only these user IDs (optional)
+            </label>
+            <textarea
+              id="top-up-user-ids"
+              rows={2}
+              value={userIdsText}
+              onChange={(e) => {
+                setUserIdsText(e.target.value);
+                setSaveError(null);
+              }}
+              placeholder="Separate IDs with commas or new lines"
+              className="w-full px-3 py-2 text-sm border border-[rgb(var(--border-primary))] rounded-lg bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))]"
+            />
+          </div>
+
+          <Select
+            label="Repeat"
+            options={FREQUENCY_OPTIONS}
+            value={schedule.frequency}
+            onChange={(e) =>
+              updateSchedule({ frequency: e.target.value as ExportScheduleFrequency })
+            }
+          />
+
+          {schedule.frequency === "cron" ? (
+            <Input
+              label="Cron expression (UTC)"
+              placeholder="0 0 1 * *"
+              value={schedule.cron || ""}
+              onChange={(e) => updateSchedule({ cron: e.target.value })}
+              helperText="minute hour day-of-month month day-of-week"
+            />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {schedule.frequency === "weekly" && (
+                <Select
+                  label="Day"
+                  options={WEEKDAY_OPTIONS}
+                  value={String(schedule.dayOfWeek ?? 1)}
+                  onChange={(e) => updateSchedule({ dayOfWeek: Number(e.target.value) })}
+                />
+              )}
+              {schedule.frequency === "monthly" && (
+                <Select
+                  label="Day of month"
+                  options={DAY_OF_MONTH_OPTIONS}
+                  value={String(schedule.dayOfMonth ?? 1)}
+                  onChange={(e) => updateSchedule({ dayOfMonth: Number(e.target.value) })}
+                />
+              )}
+              <Input
+                type="time"
+                label="Time (UTC)"
+                value={schedule.time}
+                onChange={(e) => updateSchedule({ time: e.target.value })}
+              />
+            </div>
+          )}
+
+          {errors.schedule ? (
+            <p className="text-sm text-red-600">{errors.schedule}</p>
+          ) : (
+            <div className="rounded-lg bg-[rgb(var(--bg-secondary))] p-3 text-sm">
+              <p className="font-medium text-[rgb(var(--text-primary))]">
+                {describeScheduleRule(schedule)}
+              </p>
+              <p className="text-[rgb(var(--text-tertiary))] mt-2 mb-1">Next runs (your time):</p>
+              <ul className="space-y-0.5 text-[rgb(var(--text-secondary))]">
+                {upcoming.map((run) => (
+                  <li key={run.toISOString()}>{run.toLocaleString()}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <label className="inline-flex items-center space-x-2 text-sm text-[rgb(var(--text-primary))]">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <span>Enabled</span>
+          </label>
+
+          {submitted && (errors.roles || errors.paidStatus || errors.userIds) && (
+            <p className="text-sm text-red-600">
+              {[errors.roles, errors.paidStatus, errors.userIds].filter(Boolean).join("; ")}
+            </p>
+          )}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-[rgb(var(--border-primary))] bg-[rgb(var(--bg-secondary))] rounded-b-2xl">
+          <Button type="button" variant="outline" size="md" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            size="md"
+            onClick={handleSave}
+            loading={isSaving}
+            leftIcon={<Check className="w-4 h-4" />}
+          >
+            {rule ? "Save Changes" : "Create Rule"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,609 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { useNotification } from "@/lib/components/notifications/notification-provider";
+import { PointBudgetService } from "@/lib/api/point-budgets";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select } from "@/lib/components/ui/select";
+import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import { describeScheduleRule } from "@/lib/utils/export-schedule";
+import {
+  POINT_ROLE_LABELS,
+  describeTopUpAudience,
+  validatePointThreshold,
+} from "@/lib/utils/point-budgets";
+import { UserRole } from "@/lib/types/auth";
+import type { ApiError } from "@/lib/types/api";
+import type {
+  AutoTopUpRule,
+  PointBudgets,
+  PointThreshold,
+  PointThresholdScope,
+  SavePointThresholdInput,
+} from "@/lib/types/point-budgets";
+import { TopUpRuleDialog } from "./components/top-up-rule-dialog";
+import {
+  AlertCircle,
+  BellRing,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCcw,
+  RefreshCw,
+  Trash2,
+  Wallet,
+} from "lucide-react";
+
+const EMPTY_THRESHOLD: SavePointThresholdInput = {
+  scope: "role",
+  targetId: "",
+  targetName: "",
+  threshold: 100,
+};
+
+const ROLE_OPTIONS = Object.values(UserRole).map((role) => ({
+  value: role,
+  label: POINT_ROLE_LABELS[role],
+}));
+
+type PendingDelete =
+  | { kind: "threshold"; item: PointThreshold }
+  | { kind: "rule"; item: AutoTopUpRule };
+
+export default function PointBudgetsPage() {
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user } = useAuth();
+  const { addNotification } = useNotification();
+
+  const [budgets, setBudgets] = useState<PointBudgets | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [thresholdForm, setThresholdForm] = useState<SavePointThresholdInput>(EMPTY_THRESHOLD);
+  const [thresholdErrors, setThresholdErrors] = useState<Record<string, string>>({});
+  const [savingThreshold, setSavingThreshold] = useState(false);
+  const [editingThreshold, setEditingThreshold] = useState<{ id: string; value: number } | null>(
+    null,
+  );
+
+  const [ruleDialog, setRuleDialog] = useState<{ rule: AutoTopUpRule | null } | null>(null);
+  const [togglingRuleId, setTogglingRuleId] = useState<string | null>(null);
+
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const canManagePoints = hasPermission(user, Permission.MANAGE_POINTS);
+
+  const loadBudgets = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await PointBudgetService.getBudgets();
+
+    if (response.success && response.data) {
+      setBudgets(response.data);
+    } else {
+      setError(response.error?.message || "Failed to load point budgets");
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated && canManagePoints) {
+      loadBudgets();
+    }
+  }, [isAuthenticated, canManagePoints, loadBudgets]);
+
+  const notifyError = (title: string, error: ApiError | undefined, fallback: string) => {
+    addNotification({
+      type: "error",
+      title,
+      message: error?.message || fallback,
+      autoDismiss: false,
+    });
+  };
+
+  const handleAddThreshold = async () => {
+    const errors = validatePointThreshold(thresholdForm);
+    setThresholdErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSavingThreshold(true);
+    const response = await PointBudgetService.createThreshold(thresholdForm);
+
+    if (response.success && response.data) {
+      const created = response.data;
+      setBudgets((prev) => prev && { ...prev, thresholds: [...prev.thresholds, created] });
+      setThresholdForm({ ...EMPTY_THRESHOLD, scope: thresholdForm.scope });
+      addNotification({
+        type: "success",
+        title: "Threshold Saved",
+        message: `${created.targetName || created.targetId} will be alerted below ${created.threshold.toLocaleString()} points.`,
+        autoDismiss: true,
+      });
+    } else {
+      notifyError("Save Failed", response.error, "Failed to save threshold");
+    }
+    setSavingThreshold(false);
+  };
+
+  const handleSaveThreshold = async () => {
+    if (!editingThreshold) return;
+
+    setSavingThreshold(true);
+    const response = await PointBudgetService.updateThreshold(
+      editingThreshold.id,
+      editingThreshold.value,
+    );
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      setBudgets(
+        (prev) =>
+          prev && {
+            ...prev,
+            thresholds: prev.thresholds.map((item) => (item.id === updated.id ? updated : item)),
+          },
+      );
+      setEditingThreshold(null);
+    } else {
+      notifyError("Save Failed", response.error, "Failed to update threshold");
+    }
+    setSavingThreshold(false);
+  };
+
+  const handleRuleSaved = (saved: AutoTopUpRule) => {
+    setBudgets(
+      (prev) =>
+        prev && {
+          ...prev,
+          rules: prev.rules.some((item) => item.id === saved.id)
+            ? prev.rules.map((item) => (item.id === saved.id ? saved : item))
+            : [saved, ...prev.rules],
+        },
+    );
+    addNotification({
+      type: "success",
+      title: "Auto Top-up Saved",
+      message: `"${saved.name}" was saved.`,
+      autoDismiss: true,
+    });
+  };
+
+  const handleToggleRule = async (rule: AutoTopUpRule) => {
+    setTogglingRuleId(rule.id);
+    const response = await PointBudgetService.updateRule(rule.id, { enabled: !rule.enabled });
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      setBudgets(
+        (prev) =>
+          prev && {
+            ...prev,
+            rules: prev.rules.map((item) => (item.id === updated.id ? updated : item)),
+          },
+      );
+    } else {
+      notifyError("Update Failed", response.error, "Failed to update rule");
+    }
+    setTogglingRuleId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    setDeleting(true);
+    const response =
+      pendingDelete.kind === "threshold"
+        ? await PointBudgetService.deleteThreshold(pendingDelete.item.id)
+        : await PointBudgetService.deleteRule(pendingDelete.item.id);
+
+    if (response.success) {
+      setBudgets(
+        (prev) =>
+          prev &&
+          (pendingDelete.kind === "threshold"
+            ? { ...prev, thresholds: prev.thresholds.filter((item) => item.id !== pendingDelete.item.id) }
+            : { ...prev, rules: prev.rules.filter((item) => item.id !== pendingDelete.item.id) }),
+      );
+      setPendingDelete(null);
+    } else {
+      notifyError("Delete Failed", response.error, "Failed to delete");
+    }
+    setDeleting(false);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-color" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !canManagePoints) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Access Denied
+          </h1>
+          <p className="text-[rgb(var(--text-secondary))]">
+            You need permission to manage points to access point budgets.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const headingClass =
+    "px-4 py-3 text-left text-xs font-medium text-[rgb(var(--text-secondary))] uppercase tracking-wider";
+
+  return (
+    <div className="mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary-color rounded-lg">
+            <Wallet className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-[rgb(var(--text-primary))]">Point Budgets</h1>
+            <p className="text-[rgb(var(--text-secondary))]">
+              Low-balance alerts and scheduled auto top-ups
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={loadBudgets}
+          disabled={loading}
+          leftIcon={<RefreshCw className={loading ? "w-4 h-4 animate-spin" : "w-4 h-4"} />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Thresholds */}
+      <section className="mb-10">
+        <h2 className="text-lg font-semibold text-[rgb(var(--text-primary))] flex items-center mb-1">
+          <BellRing className="w-5 h-5 mr-2 text-yellow-600" />
+          Low-balance thresholds
+        </h2>
+        <p className="text-sm text-[rgb(var(--text-secondary))] mb-4">
+          Users are notified once when their balance drops below their threshold. A user&apos;s
+          own threshold replaces their role&apos;s.
+        </p>
+
+        <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-start">
+            <Select
+              label="Applies to"
+              options={[
+                { value: "role", label: "A role" },
+                { value: "user", label: "A single user" },
+              ]}
+              value={thresholdForm.scope}
+              onChange={(e) => {
+                setThresholdForm({
+                  ...thresholdForm,
+                  scope: e.target.value as PointThresholdScope,
+                  targetId: "",
+                  targetName: "",
+                });
+                setThresholdErrors({});
+              }}
+            />
+            {thresholdForm.scope === "role" ? (
+              <Select
+                label="Role"
+                placeholder="Choose a role"
+                options={ROLE_OPTIONS}
+                value={thresholdForm.targetId}
+                onChange={(e) => setThresholdForm({ ...thresholdForm, targetId: e.target.value })}
+                error={thresholdErrors.targetId}
+              />
+            ) : (
+              <>
+                <Input
+                  label="User ID"
+                  value={thresholdForm.targetId}
+                  onChange={(e) => setThresholdForm({ ...thresholdForm, targetId: e.target.value })}
+                  error={thresholdErrors.targetId}
+                />
+                <Input
+                  label="Username (optional)"
+                  value={thresholdForm.targetName ?? ""}
+                  onChange={(e) =>
+                    setThresholdForm({ ...thresholdForm, targetName: e.target.value })
+                  }
+                />
+              </>
+            )}
+            <Input
+              type="number"
+              min={1}
+              label="Alert below (points)"
+              value={Number.isNaN(thresholdForm.threshold) ? "" : thresholdForm.threshold}
+              onChange={(e) =>
+                setThresholdForm({ ...thresholdForm, threshold: e.target.valueAsNumber })
+              }
+              error={thresholdErrors.threshold}
+            />
+            <div className="md:pt-7">
+              <Button
+                onClick={handleAddThreshold}
+                loading={savingThreshold && !editingThreshold}
+                leftIcon={<Plus className="w-4 h-4" />}
+              >
+                Add threshold
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-[rgb(var(--bg-secondary))] border-b border-[rgb(var(--border-primary))]">
+              <tr>
+                {["Applies to", "Alert below", "Set by", "Updated", ""].map((heading) => (
+                  <th key={heading} className={headingClass}>
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[rgb(var(--border-primary))]">
+              {loading && !budgets && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary-color mx-auto" />
+                  </td>
+                </tr>
+              )}
+              {budgets && budgets.thresholds.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-[rgb(var(--text-secondary))]">
+                    No thresholds set yet.
+                  </td>
+                </tr>
+              )}
+              {budgets?.thresholds.map((threshold) => (
+                <tr key={threshold.id}>
+                  <td className="px-4 py-3">
+                    <span className="block text-[rgb(var(--text-primary))]">
+                      {threshold.targetName || threshold.targetId}
+                    </span>
+                    <span className="block text-xs text-[rgb(var(--text-tertiary))]">
+                      {threshold.scope === "role" ? "Role" : `User · ${threshold.targetId}`}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-[rgb(var(--text-primary))]">
+                    {editingThreshold?.id === threshold.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={Number.isNaN(editingThreshold.value) ? "" : editingThreshold.value}
+                          onChange={(e) =>
+                            setEditingThreshold({ id: threshold.id, value: e.target.valueAsNumber })
+                          }
+                          className="w-28"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={handleSaveThreshold}
+                          loading={savingThreshold}
+                          disabled={
+                            !Number.isInteger(editingThreshold.value) || editingThreshold.value <= 0
+                          }
+                        >
+                          Save
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingThreshold(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : (
+                      `${threshold.threshold.toLocaleString()} points`
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-[rgb(var(--text-secondary))]">
+                    {threshold.createdBy}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-[rgb(var(--text-secondary))]">
+                    {new Date(threshold.updatedAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setEditingThreshold({ id: threshold.id, value: threshold.threshold })
+                        }
+                        leftIcon={<Pencil className="w-4 h-4" />}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPendingDelete({ kind: "threshold", item: threshold })}
+                        leftIcon={<Trash2 className="w-4 h-4" />}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Auto top-up rules */}
+      <section>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-[rgb(var(--text-primary))] flex items-center mb-1">
+              <RefreshCcw className="w-5 h-5 mr-2 text-primary-color" />
+              Auto top-up rules
+            </h2>
+            <p className="text-sm text-[rgb(var(--text-secondary))]">
+              Each run refills matching users to the rule&apos;s balance and records it in their
+              points ledger.
+            </p>
+          </div>
+          <Button onClick={() => setRuleDialog({ rule: null })} leftIcon={<Plus className="w-4 h-4" />}>
+            New rule
+          </Button>
+        </div>
+
+        <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-[rgb(var(--bg-secondary))] border-b border-[rgb(var(--border-primary))]">
+              <tr>
+                {["Rule", "Refill to", "Schedule", "Last run", "Status", ""].map((heading) => (
+                  <th key={heading} className={headingClass}>
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[rgb(var(--border-primary))]">
+              {budgets && budgets.rules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-[rgb(var(--text-secondary))]">
+                    No auto top-up rules yet.
+                  </td>
+                </tr>
+              )}
+              {budgets?.rules.map((rule) => (
+                <tr key={rule.id} className="align-top">
+                  <td className="px-4 py-3">
+                    <span className="block font-medium text-[rgb(var(--text-primary))]">
+                      {rule.name}
+                    </span>
+                    <span className="block text-xs text-[rgb(var(--text-tertiary))]">
+                      {describeTopUpAudience(rule)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-[rgb(var(--text-primary))]">
+                    {rule.targetBalance.toLocaleString()} points
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="block text-[rgb(var(--text-primary))]">
+                      {describeScheduleRule(rule.schedule)}
+                    </span>
+                    {rule.nextRunAt && (
+                      <span className="block text-xs text-[rgb(var(--text-tertiary))]">
+                        Next: {new Date(rule.nextRunAt).toLocaleString()}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-[rgb(var(--text-secondary))]">
+                    {rule.lastRunAt ? (
+                      <>
+                        <span className="block whitespace-nowrap">
+                          {new Date(rule.lastRunAt).toLocaleString()}
+                        </span>
+                        {rule.lastRunSummary && (
+                          <span className="block text-xs">
+                            {rule.lastRunSummary.toppedUp} of {rule.lastRunSummary.matched} topped
+                            up (+{rule.lastRunSummary.pointsAdded.toLocaleString()})
+                            {rule.lastRunSummary.failed > 0 && (
+                              <span className="text-red-600">
+                                , {rule.lastRunSummary.failed} failed
+                              </span>
+                            )}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      "Never"
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={
+                        rule.enabled
+                          ? "inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                          : "inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                      }
+                    >
+                      {rule.enabled ? "Enabled" : "Paused"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleRule(rule)}
+                        loading={togglingRuleId === rule.id}
+                      >
+                        {rule.enabled ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRuleDialog({ rule })}
+                        leftIcon={<Pencil className="w-4 h-4" />}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPendingDelete({ kind: "rule", item: rule })}
+                        leftIcon={<Trash2 className="w-4 h-4" />}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <TopUpRuleDialog
+        isOpen={ruleDialog !== null}
+        rule={ruleDialog?.rule}
+        onClose={() => setRuleDialog(null)}
+        onSaved={handleRuleSaved}
+      />
+
+      <ConfirmationDialog
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleDelete}
+        title={pendingDelete?.kind === "rule" ? "Delete Auto Top-up" : "Delete Threshold"}
+        message={
+          pendingDelete?.kind === "rule"
+            ? `Delete "${pendingDelete.item.name}"? Users will no longer be topped up by it.`
+            : `Remove the threshold for ${
+                pendingDelete?.item.targetName || pendingDelete?.item.targetId
+              }? They will no longer get low-balance alerts from it.`
+        }
+        confirmText="Delete"
+        isLoading={deleting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,569 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { RoleService } from "@/lib/api/roles";
+import { UserService } from "@/lib/api/users";
+import { useNotification } from "@/lib/components/notifications/notification-provider";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select } from "@/lib/components/ui/select";
+import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import {
+  Permission,
+  PERMISSION_GROUPS,
+  getPermissionLabel,
+  hasPermission,
+} from "@/lib/utils/rbac";
+import { getMenuPreview, isLockedRole } from "@/lib/utils/role-matrix";
+import type { RoleDefinition, RoleMatrix } from "@/lib/types/roles";
+import type { UserListItem } from "@/lib/types/user";
+import { UserRole } from "@/lib/types/auth";
+import {
+  AlertCircle,
+  Eye,
+  Loader2,
+  Lock,
+  Plus,
+  Save,
+  Shield,
+  Trash2,
+  UserPlus,
+  X,
+} from "lucide-react";
+
+const baseRoleOptions = [
+  { value: UserRole.GENERAL_USER, label: "General User" },
+  { value: UserRole.USER, label: "User" },
+  { value: UserRole.ADMIN_USER, label: "Admin User" },
+  { value: UserRole.SUPER_USER, label: "Super User" },
+];
+
+function samePermissions(a: Permission[], b: Permission[]): boolean {
+  return a.length === b.length && a.every((permission) => b.includes(permission));
+}
+
+export default function AdminRolesPage() {
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user } = useAuth();
+  const { addNotification } = useNotification();
+
+  const [matrix, setMatrix] = useState<RoleMatrix | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, Permission[]>>({});
+  const [users, setUsers] = useState<UserListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingRoleId, setSavingRoleId] = useState<string | null>(null);
+  const [previewRoleId, setPreviewRoleId] = useState<string>(UserRole.GENERAL_USER);
+
+  const [newRole, setNewRole] = useState({
+    name: "",
+    description: "",
+    baseRole: UserRole.GENERAL_USER as UserRole,
+  });
+  const [creating, setCreating] = useState(false);
+  const [roleToDelete, setRoleToDelete] = useState<RoleDefinition | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const [assignUserId, setAssignUserId] = useState("");
+  const [assignRoleId, setAssignRoleId] = useState("");
+  const [assigning, setAssigning] = useState(false);
+
+  const canManageRoles = hasPermission(user, Permission.MANAGE_USER_ROLES);
+
+  const loadMatrix = useCallback(async () => {
+    setError(null);
+    const response = await RoleService.getMatrix();
+
+    if (response.success && response.data) {
+      const data = response.data;
+      setMatrix(data);
+      setDrafts((prev) =>
+        Object.fromEntries(
+          data.roles.map((role) => [role.id, prev[role.id] ?? role.permissions]),
+        ),
+      );
+    } else {
+      setError(response.error?.message || "Failed to load roles");
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !canManageRoles) return;
+
+    loadMatrix();
+    UserService.getAllUsers().then((response) => {
+      if (response.success && response.data) {
+        setUsers(response.data);
+      }
+    });
+  }, [isAuthenticated, canManageRoles, loadMatrix]);
+
+  const roles = matrix?.roles ?? [];
+  const customRoles = roles.filter((role) => !role.builtIn);
+
+  const isDirty = (role: RoleDefinition) =>
+    !samePermissions(drafts[role.id] ?? role.permissions, role.permissions);
+
+  const togglePermission = (roleId: string, permission: Permission) => {
+    setDrafts((prev) => {
+      const current = prev[roleId] ?? [];
+      return {
+        ...prev,
+        [roleId]: current.includes(permission)
+          ? current.filter((p) => p !== permission)
+          : [...current, permission],
+      };
+    });
+  };
+
+  const handleSaveRole = async (role: RoleDefinition) => {
+    setSavingRoleId(role.id);
+    const response = await RoleService.updateRole(role.id, { permissions: drafts[role.id] });
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      addNotification({
+        type: "success",
+        title: "Role Saved",
+        message: `Permissions for ${role.name} were updated.`,
+        autoDismiss: true,
+      });
+      // Update just this role so unsaved edits in other columns are kept
+      setMatrix((prev) =>
+        prev && { ...prev, roles: prev.roles.map((r) => (r.id === updated.id ? updated : r)) },
+      );
+      setDrafts((prev) => ({ ...prev, [updated.id]: updated.permissions }));
+    } else {
+      addNotification({
+        type: "error",
+        title: "Save Failed",
+        message: response.error?.message || "Failed to save role",
+        autoDismiss: false,
+      });
+    }
+    setSavingRoleId(null);
+  };
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRole.name.trim()) {
+      setError("Role name is required");
+      return;
+    }
+
+    setCreating(true);
+    // Start from the base role's current permissions so the new role is usable immediately
+    const base = roles.find((role) => role.id === newRole.baseRole);
+    const response = await RoleService.createRole({
+      ...newRole,
+      permissions: base?.permissions ?? [],
+    });
+
+    if (response.success && response.data) {
+      const created = response.data;
+      addNotification({
+        type: "success",
+        title: "Role Created",
+        message: `${created.name} was added to the matrix.`,
+        autoDismiss: true,
+      });
+      setNewRole({ name: "", description: "", baseRole: UserRole.GENERAL_USER });
+      setPreviewRoleId(created.id);
+      await loadMatrix();
+    } else {
+      setError(response.error?.message || "Failed to create role");
+    }
+    setCreating(false);
+  };
+
+  const handleDeleteRole = async () => {
+    if (!roleToDelete) return;
+
+    setDeleting(true);
+    const response = await RoleService.deleteRole(roleToDelete.id);
+
+    if (response.success) {
+      addNotification({
+        type: "success",
+        title: "Role Deleted",
+        message: `${roleToDelete.name} was deleted and unassigned from its users.`,
+        autoDismiss: true,
+      });
+      if (previewRoleId === roleToDelete.id) {
+        setPreviewRoleId(UserRole.GENERAL_USER);
+      }
+      setRoleToDelete(null);
+      await loadMatrix();
+    } else {
+      addNotification({
+        type: "error",
+        title: "Delete Failed",
+        message: response.error?.message || "Failed to delete role",
+        autoDismiss: false,
+      });
+    }
+    setDeleting(false);
+  };
+
+  const handleAssign = async (userId: string, roleId: string | null) => {
+    const target = users.find((u) => u.id === userId);
+    setAssigning(true);
+    const response = await RoleService.assignRole({
+      userId,
+      username: target?.username ?? userId,
+      roleId,
+    });
+
+    if (response.success) {
+      addNotification({
+        type: "success",
+        title: roleId ? "Role Assigned" : "Role Removed",
+        message: roleId
+          ? `${target?.username ?? userId} now uses ${roles.find((r) => r.id === roleId)?.name}.`
+          : `${target?.username ?? userId} is back on their built-in role.`,
+        autoDismiss: true,
+      });
+      setAssignUserId("");
+      setAssignRoleId("");
+      await loadMatrix();
+    } else {
+      addNotification({
+        type: "error",
+        title: "Assignment Failed",
+        message: response.error?.message || "Failed to assign role",
+        autoDismiss: false,
+      });
+    }
+    setAssigning(false);
+  };
+
+  const previewSource = roles.find((role) => role.id === previewRoleId);
+  const previewSections = useMemo(
+    () =>
+      previewSource
+        ? getMenuPreview({
+            ...previewSource,
+            permissions: drafts[previewSource.id] ?? previewSource.permissions,
+          })
+        : [],
+    [previewSource, drafts],
+  );
+
+  if (authLoading || (canManageRoles && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-color" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !canManageRoles) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Access Denied
+          </h1>
+          <p className="text-[rgb(var(--text-secondary))]">
+            You need permission to manage user roles to access this page.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-primary-color rounded-lg">
+            <Shield className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-[rgb(var(--text-primary))]">
+              Roles & Permissions
+            </h1>
+            <p className="text-[rgb(var(--text-secondary))]">
+              Edit what each role can do, create custom roles and assign them to users
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600 flex-1">{error}</p>
+          <button
+            type="button"
+            onClick={() => setError(null)}
+            className="text-red-600 hover:text-red-800"
+            aria-label="Dismiss error"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Permission matrix */}
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] mb-6 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-[rgb(var(--border-primary))]">
+              <th className="text-left p-3 font-medium text-[rgb(var(--text-primary))] min-w-[220px]">
+                Permission
+              </th>
+              {roles.map((role) => (
+                <th key={role.id} className="p-3 text-center align-top min-w-[130px]">
+                  <div className="flex items-center justify-center gap-1 font-medium text-[rgb(var(--text-primary))]">
+                    {isLockedRole(role.id) && (
+                      <Lock className="w-3 h-3 text-[rgb(var(--text-tertiary))]" aria-label="Locked" />
+                    )}
+                    {role.name}
+                  </div>
+                  <div className="text-xs font-normal text-[rgb(var(--text-tertiary))]">
+                    {role.builtIn ? "Built-in" : "Custom"}
+                  </div>
+                  <div className="flex items-center justify-center gap-1 mt-2">
+                    {isDirty(role) && (
+                      <Button
+                        size="sm"
+                        loading={savingRoleId === role.id}
+                        leftIcon={<Save className="w-3 h-3" />}
+                        onClick={() => handleSaveRole(role)}
+                      >
+                        Save
+                      </Button>
+                    )}
+                    {!role.builtIn && (
+                      <button
+                        type="button"
+                        onClick={() => setRoleToDelete(role)}
+                        className="p-1 text-[rgb(var(--text-tertiary))] hover:text-red-600"
+                        aria-label={`Delete ${role.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PERMISSION_GROUPS.map((group) => (
+              <React.Fragment key={group.label}>
+                <tr className="bg-[rgb(var(--bg-secondary))]">
+                  <td
+                    colSpan={roles.length + 1}
+                    className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-[rgb(var(--text-secondary))]"
+                  >
+                    {group.label}
+                  </td>
+                </tr>
+                {group.permissions.map((permission) => (
+                  <tr
+                    key={permission}
+                    className="border-b border-[rgb(var(--border-primary))] last:border-b-0"
+                  >
+                    <td className="px-3 py-2 text-[rgb(var(--text-primary))]">
+                      {getPermissionLabel(permission)}
+                    </td>
+                    {roles.map((role) => {
+                      const locked = isLockedRole(role.id);
+                      return (
+                        <td key={role.id} className="px-3 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={(drafts[role.id] ?? role.permissions).includes(permission)}
+                            disabled={locked}
+                            onChange={() => togglePermission(role.id, permission)}
+                            aria-label={`${role.name}: ${getPermissionLabel(permission)}`}
+                            className="h-4 w-4 rounded border-[rgb(var(--border-primary))] text-primary-color focus:ring-primary-color disabled:opacity-50"
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Create role */}
+        <form
+          onSubmit={handleCreateRole}
+          className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-6 space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-[rgb(var(--text-primary))]">
+            Create Custom Role
+          </h2>
+          <Input
+            label="Name"
+            value={newRole.name}
+            onChange={(e) => setNewRole((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Support Agent"
+            maxLength={50}
+          />
+          <Input
+            label="Description"
+            value={newRole.description}
+            onChange={(e) => setNewRole((prev) => ({ ...prev, description: e.target.value }))}
+            placeholder="What this role is for"
+          />
+          <Select
+            label="Based on"
+            helperText="Starting permissions, and the menu items that aren't permission-based"
+            options={baseRoleOptions}
+            value={newRole.baseRole}
+            onChange={(e) =>
+              setNewRole((prev) => ({ ...prev, baseRole: e.target.value as UserRole }))
+            }
+          />
+          <Button type="submit" loading={creating} leftIcon={<Plus className="w-4 h-4" />}>
+            Create Role
+          </Button>
+        </form>
+
+        {/* Menu preview */}
+        <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-6">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-[rgb(var(--text-primary))] flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Menu Preview
+            </h2>
+            <Select
+              size="sm"
+              aria-label="Role to preview"
+              options={roles.map((role) => ({ value: role.id, label: role.name }))}
+              value={previewRoleId}
+              onChange={(e) => setPreviewRoleId(e.target.value)}
+            />
+          </div>
+          {previewSource && (
+            <div className="space-y-4">
+              {previewSections.map((section) => (
+                <div key={section.id}>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-[rgb(var(--text-tertiary))] mb-1">
+                    {section.label}
+                  </p>
+                  <ul className="space-y-1">
+                    {section.items.map((item) => {
+                      const Icon = item.icon;
+                      return (
+                        <li
+                          key={item.id}
+                          className="flex items-center gap-2 text-sm text-[rgb(var(--text-primary))]"
+                        >
+                          <Icon className="w-4 h-4 text-[rgb(var(--text-secondary))]" />
+                          {item.label}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+              {isDirty(previewSource) && (
+                <p className="text-xs text-[rgb(var(--text-tertiary))]">
+                  Preview includes unsaved changes.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Assignments */}
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-6">
+        <h2 className="text-lg font-semibold text-[rgb(var(--text-primary))] mb-1">
+          Custom Role Assignments
+        </h2>
+        <p className="text-sm text-[rgb(var(--text-secondary))] mb-4">
+          Users without an assignment use the permissions of their built-in role.
+        </p>
+
+        {customRoles.length === 0 ? (
+          <p className="text-sm text-[rgb(var(--text-tertiary))]">
+            Create a custom role to assign it to users.
+          </p>
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-end gap-3 mb-6">
+            <div className="flex-1">
+              <Select
+                label="User"
+                placeholder="Select a user"
+                options={users.map((u) => ({ value: u.id, label: `${u.username} (${u.email})` }))}
+                value={assignUserId}
+                onChange={(e) => setAssignUserId(e.target.value)}
+              />
+            </div>
+            <div className="flex-1">
+              <Select
+                label="Role"
+                placeholder="Select a role"
+                options={customRoles.map((role) => ({ value: role.id, label: role.name }))}
+                value={assignRoleId}
+                onChange={(e) => setAssignRoleId(e.target.value)}
+              />
+            </div>
+            <Button
+              loading={assigning}
+              disabled={!assignUserId || !assignRoleId}
+              leftIcon={<UserPlus className="w-4 h-4" />}
+              onClick={() => handleAssign(assignUserId, assignRoleId)}
+            >
+              Assign
+            </Button>
+          </div>
+        )}
+
+        {matrix && matrix.assignments.length > 0 && (
+          <ul className="divide-y divide-[rgb(var(--border-primary))]">
+            {matrix.assignments.map((assignment) => (
+              <li key={assignment.userId} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="font-medium text-[rgb(var(--text-primary))]">
+                    {assignment.username}
+                  </span>
+                  <span className="text-[rgb(var(--text-secondary))]">
+                    {" "}→ {roles.find((role) => role.id === assignment.roleId)?.name ?? assignment.roleId}
+                  </span>
+                  <span className="block text-xs text-[rgb(var(--text-tertiary))]">
+                    Assigned by {assignment.assignedBy} on{" "}
+                    {new Date(assignment.assignedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={assigning}
+                  onClick={() => handleAssign(assignment.userId, null)}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmationDialog
+        isOpen={roleToDelete !== null}
+        onClose={() => setRoleToDelete(null)}
+        onConfirm={handleDeleteRole}
+        title="Delete Role"
+        message={`Delete "${roleToDelete?.name}"? Users assigned to it go back to their built-in role.`}
+        confirmText="Delete"
+        isLoading={deleting}
+      />
+    </div>
+  );
+}
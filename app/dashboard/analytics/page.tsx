@@ -22,7 +22,7 @@ import {
 } from "@/lib/components/analytics";
 import { useDashboardStats } from "@/lib/hooks/use-dashboard-stats";
 import { useUserManagementAnalytics } from "@/lib/hooks/use-user-management-analytics";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import {
   BarChart3,
   TrendingUp,
@@ -154,25 +154,11 @@ export default function AnalyticsPage() {
   const fetchExportData = async () => {
     setExportLoading(true);
     try {
-      // Get authentication token
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        console.error("No authentication token available for export data");
-        setExportLoading(false);
-        return;
-      }
-
-      const apiBaseUrl =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const apiVersion = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-      const apiUrl = `${apiBaseUrl}/${apiVersion}`;
-
-      const response = await fetch(`${apiUrl}/dashboard/export-data`, {
+      // The backend proxy adds the access token from the session cookie
+      const response = await fetch(backendUrl("/dashboard/export-data"), {
         method: "GET",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
       });
 
@@ -86,6 +86,27 @@ describe("ExportFilterPanel", () => {
 
       expect(screen.getByText("JSON")).toBeInTheDocument();
       expect(screen.getByText("CSV")).toBeInTheDocument();
+      expect(screen.getByText("NDJSON")).toBeInTheDocument();
+      expect(screen.getByText("Parquet")).toBeInTheDocument();
+      expect(screen.getByText("GeoJSON")).toBeInTheDocument();
+    });
+
+    it("should require location data for GeoJSON exports", () => {
+      render(
+        <ExportFilterPanel
+          onExportCreate={mockOnExportCreate}
+          isLoading={false}
+        />
+      );
+
+      const locations = screen.getByLabelText(/include location data/i);
+      fireEvent.click(locations);
+      expect(locations).not.toBeChecked();
+
+      fireEvent.click(screen.getByText("GeoJSON"));
+
+      expect(locations).toBeChecked();
+      expect(locations).toBeDisabled();
     });
 
     it("should render include options checkboxes", () => {
@@ -409,6 +409,57 @@ describe("ExportJobCard", () => {
     });
   });
 
+  describe("Download Progress", () => {
+    const completedJob: ExportJob = {
+      ...baseJob,
+      status: "completed",
+      progress: 100,
+      completedAt: new Date("2024-01-15T10:30:00Z"),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    };
+
+    it("should show received and total bytes while downloading", () => {
+      render(
+        <ExportJobCard
+          job={completedJob}
+          onRefresh={mockOnRefresh}
+          onDownload={mockOnDownload}
+          onDelete={mockOnDelete}
+          downloadProgress={{
+            receivedBytes: 5 * 1024 * 1024,
+            totalBytes: 20 * 1024 * 1024,
+            resumedFromBytes: 0,
+          }}
+        />
+      );
+
+      expect(screen.getByText("5 MB / 20 MB")).toBeInTheDocument();
+      expect(
+        screen.getByRole("progressbar", { name: "Download progress: 25%" })
+      ).toBeInTheDocument();
+    });
+
+    it("should note when a download resumed from stored chunks", () => {
+      render(
+        <ExportJobCard
+          job={completedJob}
+          onRefresh={mockOnRefresh}
+          onDownload={mockOnDownload}
+          onDelete={mockOnDelete}
+          downloadProgress={{
+            receivedBytes: 16 * 1024 * 1024,
+            totalBytes: null,
+            resumedFromBytes: 8 * 1024 * 1024,
+          }}
+        />
+      );
+
+      expect(screen.getByText("Resuming download")).toBeInTheDocument();
+      expect(screen.getByText("Resumed from 8 MB")).toBeInTheDocument();
+      expect(screen.getByText("16 MB")).toBeInTheDocument();
+    });
+  });
+
   describe("Copy Job ID", () => {
     it("should copy job ID to clipboard", async () => {
       const user = userEvent.setup();
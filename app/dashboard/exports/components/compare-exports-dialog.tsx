@@ -0,0 +1,426 @@
+"use client";
+
+/**
+ * Compare Exports Dialog
+ *
+ * Downloads two completed exports of the same type, diffs them by ITTID in the
+ * browser and offers the added/removed/changed records as a delta file.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import { Select, SelectOption } from "@/lib/components/ui/select";
+import { exportAPI } from "@/lib/api/exports";
+import {
+  buildDeltaFile,
+  checkComparableJobs,
+  diffExportRecords,
+  parseExportRecords,
+} from "@/lib/utils/export-diff";
+import { CacheManager } from "@/lib/utils/cache-manager";
+import { cn, formatDateTime, formatNumber, truncate } from "@/lib/utils";
+import type {
+  ExportDiffEntry,
+  ExportDiffResult,
+  ExportJob,
+} from "@/lib/types/exports";
+import { AlertCircle, Download, GitCompare, Loader2, X } from "lucide-react";
+
+export interface CompareExportsDialogProps {
+  isOpen: boolean;
+  jobs: ExportJob[];
+  onClose: () => void;
+}
+
+type CompareStatus =
+  | { state: "idle" }
+  | { state: "downloading"; label: string; receivedBytes: number }
+  | { state: "comparing" }
+  | { state: "done"; result: ExportDiffResult }
+  | { state: "error"; message: string };
+
+// How many ITTIDs to list per change type before "and N more"
+const PREVIEW_LIMIT = 10;
+
+const CHANGE_TYPE_STYLES: Record<ExportDiffEntry["changeType"], string> = {
+  added: "text-green-600",
+  removed: "text-red-600",
+  changed: "text-amber-600",
+};
+
+function isDownloadable(job: ExportJob): boolean {
+  return (
+    job.status === "completed" &&
+    (!job.expiresAt || new Date(job.expiresAt) >= new Date())
+  );
+}
+
+function describeJob(job: ExportJob): string {
+  return `${job.exportType === "hotel" ? "Hotel" : "Mapping"} · ${job.filters.format.toUpperCase()} · ${formatDateTime(job.createdAt)} · ${truncate(job.jobId, 12)}`;
+}
+
+export function CompareExportsDialog({
+  isOpen,
+  jobs,
+  onClose,
+}: CompareExportsDialogProps) {
+  // Newest first, so the defaults compare the latest export with the one before it
+  const completedJobs = useMemo(
+    () =>
+      jobs
+        .filter(isDownloadable)
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+        ),
+    [jobs],
+  );
+
+  const [baseJobId, setBaseJobId] = useState("");
+  const [compareJobId, setCompareJobId] = useState("");
+  const [status, setStatus] = useState<CompareStatus>({ state: "idle" });
+
+  // Default to the latest export and the previous one of the same type and format
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const latest = completedJobs[0];
+    const previous = latest
+      ? completedJobs.find(
+          (job) => job !== latest && checkComparableJobs(job, latest) === null,
+        )
+      : undefined;
+
+    setCompareJobId(latest?.jobId ?? "");
+    setBaseJobId(previous?.jobId ?? completedJobs[1]?.jobId ?? "");
+    setStatus({ state: "idle" });
+    // Only reset when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const jobOptions: SelectOption[] = useMemo(
+    () =>
+      completedJobs.map((job) => ({ value: job.jobId, label: describeJob(job) })),
+    [completedJobs],
+  );
+
+  const baseJob = completedJobs.find((job) => job.jobId === baseJobId);
+  const compareJob = completedJobs.find((job) => job.jobId === compareJobId);
+  const selectionError =
+    baseJob && compareJob ? checkComparableJobs(baseJob, compareJob) : null;
+  const isBusy =
+    status.state === "downloading" || status.state === "comparing";
+
+  if (!isOpen) return null;
+
+  const handleCompare = async () => {
+    if (!baseJob || !compareJob || selectionError) return;
+
+    // Diff older → newer regardless of which select each job was picked in
+    const [older, newer] =
+      new Date(baseJob.createdAt) <= new Date(compareJob.createdAt)
+        ? [baseJob, compareJob]
+        : [compareJob, baseJob];
+
+    try {
+      const contents: string[] = [];
+      for (const [label, job] of [
+        ["older", older],
+        ["newer", newer],
+      ] as const) {
+        setStatus({ state: "downloading", label, receivedBytes: 0 });
+        const blob = await exportAPI.downloadExport(job.jobId, (progress) => {
+          setStatus({
+            state: "downloading",
+            label,
+            receivedBytes: progress.receivedBytes,
+          });
+        });
+        contents.push(await blob.text());
+      }
+
+      setStatus({ state: "comparing" });
+      // Let the "Comparing" state render before the synchronous diff
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const format = older.filters.format;
+      const { summary, entries } = diffExportRecords(
+        parseExportRecords(contents[0], format),
+        parseExportRecords(contents[1], format),
+      );
+
+      setStatus({
+        state: "done",
+        result: {
+          exportType: older.exportType,
+          format,
+          baseJobId: older.jobId,
+          compareJobId: newer.jobId,
+          summary,
+          entries,
+        },
+      });
+    } catch (error) {
+      console.error("❌ Export comparison failed:", error);
+      setStatus({
+        state: "error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to compare exports. Please try again.",
+      });
+    }
+  };
+
+  const handleDownloadDelta = (result: ExportDiffResult) => {
+    const { content, mimeType, extension } = buildDeltaFile(result);
+    const older = completedJobs.find((job) => job.jobId === result.baseJobId);
+    const newer = completedJobs.find(
+      (job) => job.jobId === result.compareJobId,
+    );
+    const toStamp = (job?: ExportJob) =>
+      job
+        ? new Date(job.createdAt).toISOString().split("T")[0].replace(/-/g, "")
+        : "unknown";
+
+    const blobUrl = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = blobUrl;
+    link.download = `${result.exportType}_delta_${toStamp(older)}_${toStamp(newer)}.${extension}`;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(blobUrl), 100);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-40 flex items-center justify-center p-4"
+      onClick={isBusy ? undefined : onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-exports-title"
+        className="bg-[rgb(var(--bg-primary))] rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto z-50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-[rgb(var(--border-primary))]">
+          <div>
+            <h3
+              id="compare-exports-title"
+              className="text-xl font-bold text-[rgb(var(--text-primary))] flex items-center gap-2"
+            >
+              <GitCompare className="w-5 h-5 text-primary-color" />
+              Compare Exports
+            </h3>
+            <p className="text-sm text-[rgb(var(--text-tertiary))] mt-1">
+              Find ITTIDs added, removed or changed between two exports
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            aria-label="Close"
+            className="p-2 text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-secondary))] rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          {completedJobs.length < 2 ? (
+            <p className="text-sm text-[rgb(var(--text-secondary))]">
+              You need at least two completed exports that haven&apos;t expired
+              to compare.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select
+                  label="Earlier export"
+                  options={jobOptions}
+                  value={baseJobId}
+                  disabled={isBusy}
+                  onChange={(e) => {
+                    setBaseJobId(e.target.value);
+                    setStatus({ state: "idle" });
+                  }}
+                />
+                <Select
+                  label="Later export"
+                  options={jobOptions}
+                  value={compareJobId}
+                  disabled={isBusy}
+                  onChange={(e) => {
+                    setCompareJobId(e.target.value);
+                    setStatus({ state: "idle" });
+                  }}
+                />
+              </div>
+
+              {selectionError && (
+                <p className="text-sm text-red-600" role="alert">
+                  {selectionError}
+                </p>
+              )}
+            </>
+          )}
+
+          {status.state === "downloading" && (
+            <div
+              className="flex items-center gap-2 text-sm text-[rgb(var(--text-secondary))]"
+              role="status"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Downloading {status.label} export…{" "}
+              {CacheManager.formatBytes(status.receivedBytes)}
+            </div>
+          )}
+
+          {status.state === "comparing" && (
+            <div
+              className="flex items-center gap-2 text-sm text-[rgb(var(--text-secondary))]"
+              role="status"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Comparing records…
+            </div>
+          )}
+
+          {status.state === "error" && (
+            <div
+              className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700"
+              role="alert"
+            >
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {status.message}
+            </div>
+          )}
+
+          {status.state === "done" && (
+            <ComparisonSummary result={status.result} />
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-[rgb(var(--border-primary))]">
+          {status.state === "done" && (
+            <Button
+              variant="outline"
+              onClick={() => handleDownloadDelta(status.result)}
+              leftIcon={<Download className="w-4 h-4" />}
+              disabled={status.result.entries.length === 0}
+            >
+              Download Delta
+            </Button>
+          )}
+          <Button
+            onClick={handleCompare}
+            loading={isBusy}
+            disabled={!baseJob || !compareJob || !!selectionError || isBusy}
+            leftIcon={<GitCompare className="w-4 h-4" />}
+          >
+            Compare
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ComparisonSummary({ result }: { result: ExportDiffResult }) {
+  const { summary, entries } = result;
+  const counts: { label: string; value: number; className: string }[] = [
+    { label: "Added", value: summary.added, className: CHANGE_TYPE_STYLES.added },
+    { label: "Removed", value: summary.removed, className: CHANGE_TYPE_STYLES.removed },
+    { label: "Changed", value: summary.changed, className: CHANGE_TYPE_STYLES.changed },
+    { label: "Unchanged", value: summary.unchanged, className: "text-[rgb(var(--text-secondary))]" },
+  ];
+
+  const topFields = Object.entries(summary.fieldChangeCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {counts.map(({ label, value, className }) => (
+          <div
+            key={label}
+            className="p-3 rounded-lg bg-[rgb(var(--bg-secondary))] text-center"
+          >
+            <div className={cn("text-2xl font-bold", className)}>
+              {formatNumber(value)}
+            </div>
+            <div className="text-xs text-[rgb(var(--text-secondary))]">
+              {label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-[rgb(var(--text-tertiary))]">
+        {formatNumber(summary.baseRecords)} records in the earlier export,{" "}
+        {formatNumber(summary.compareRecords)} in the later one.
+        {summary.unkeyedRecords > 0 &&
+          ` ${formatNumber(summary.unkeyedRecords)} records without an ITTID were skipped.`}
+      </p>
+
+      {topFields.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Most changed fields
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {topFields.map(([field, count]) => (
+              <span
+                key={field}
+                className="px-2 py-1 rounded bg-[rgb(var(--bg-secondary))] text-xs text-[rgb(var(--text-secondary))]"
+              >
+                {field}: {formatNumber(count)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(["added", "removed", "changed"] as const).map((changeType) => {
+        const ofType = entries.filter((entry) => entry.changeType === changeType);
+        if (ofType.length === 0) return null;
+
+        return (
+          <div key={changeType}>
+            <h4
+              className={cn(
+                "text-sm font-semibold capitalize mb-1",
+                CHANGE_TYPE_STYLES[changeType],
+              )}
+            >
+              {changeType}
+            </h4>
+            <ul className="text-xs font-mono text-[rgb(var(--text-secondary))] space-y-0.5">
+              {ofType.slice(0, PREVIEW_LIMIT).map((entry) => (
+                <li key={entry.ittid}>
+                  {entry.ittid}
+                  {entry.changedFields.length > 0 &&
+                    ` — ${entry.changedFields.join(", ")}`}
+                </li>
+              ))}
+              {ofType.length > PREVIEW_LIMIT && (
+                <li className="font-sans text-[rgb(var(--text-tertiary))]">
+                  and {formatNumber(ofType.length - PREVIEW_LIMIT)} more in the
+                  delta file
+                </li>
+              )}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -6,8 +6,12 @@ import { Button } from "@/lib/components/ui/button";
 import { Input } from "@/lib/components/ui/input";
 import { Select, SelectOption } from "@/lib/components/ui/select";
 import { RadioGroup, RadioOption } from "@/lib/components/ui/radio-group";
-import { HotelExportFilters, ExportFilters } from "@/lib/types/exports";
-import { config } from "@/lib/config";
+import {
+  HotelExportFilters,
+  ExportFilters,
+  ExportFormat,
+  FilterPreset,
+} from "@/lib/types/exports";
 import {
   Download,
   Filter,
@@ -18,11 +22,14 @@ import {
   Hash,
   FileJson,
   FileSpreadsheet,
+  FileText,
+  Database,
+  MapPin,
   CheckCircle,
   RotateCcw,
 } from "lucide-react";
 import { clsx } from "clsx";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { backendUrl } from "@/lib/api/backend-proxy";
 
 // Lazy load FilterPresetsManager for better code splitting
 const FilterPresetsManager = dynamic(
@@ -44,6 +51,7 @@ const FilterPresetsManager = dynamic(
 export interface ExportFilterPanelProps {
   onExportCreate: (filters: HotelExportFilters) => Promise<void>;
   isLoading: boolean;
+  onSchedulePreset?: (preset: FilterPreset) => void;
 }
 
 // Property type options
@@ -59,6 +67,7 @@ const PROPERTY_TYPE_OPTIONS = [
 export const ExportFilterPanel = memo(function ExportFilterPanel({
   onExportCreate,
   isLoading,
+  onSchedulePreset,
 }: ExportFilterPanelProps) {
   // Supplier options state (fetched from API)
   const [supplierOptions, setSupplierOptions] = useState<SelectOption[]>([]);
@@ -73,7 +82,7 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
   const [dateTo, setDateTo] = useState<string>("");
   const [ittids, setIttids] = useState<string>("All");
   const [propertyTypes, setPropertyTypes] = useState<string[]>([]);
-  const [format, setFormat] = useState<"json" | "csv" | "excel">("json");
+  const [format, setFormat] = useState<ExportFormat>("json");
   const [includeLocations, setIncludeLocations] = useState<boolean>(true);
   const [includeContacts, setIncludeContacts] = useState<boolean>(true);
   const [includeMappings, setIncludeMappings] = useState<boolean>(true);
@@ -102,21 +111,13 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
     const fetchActiveSuppliers = async () => {
       setLoadingSuppliers(true);
       try {
-        const token = TokenStorage.getToken();
-        if (!token) {
-          console.error("No authentication token found");
-          setLoadingSuppliers(false);
-          return;
-        }
-
         console.log("Fetching active suppliers...");
         const response = await fetch(
-          `${config.api.url}/user/check-active-my-supplier`,
+          backendUrl("/user/check-active-my-supplier"),
           {
             method: "GET",
             headers: {
               "Content-Type": "application/json",
-              Authorization: `Bearer ${token}`,
             },
           },
         );
@@ -416,6 +417,14 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
     ],
   );
 
+  // GeoJSON is built from hotel coordinates, so it always includes locations
+  const handleFormatChange = (value: ExportFormat) => {
+    setFormat(value);
+    if (value === "geojson") {
+      setIncludeLocations(true);
+    }
+  };
+
   // Check if form is valid for disabling submit button
   const isFormValid =
     suppliers.length > 0 &&
@@ -441,6 +450,24 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
       description: "Microsoft Excel Format",
       icon: <FileSpreadsheet className="w-4 h-4" />,
     },
+    {
+      value: "ndjson",
+      label: "NDJSON",
+      description: "One JSON record per line",
+      icon: <FileText className="w-4 h-4" />,
+    },
+    {
+      value: "parquet",
+      label: "Parquet",
+      description: "Columnar format for warehouses",
+      icon: <Database className="w-4 h-4" />,
+    },
+    {
+      value: "geojson",
+      label: "GeoJSON",
+      description: "Hotel points for map tools",
+      icon: <MapPin className="w-4 h-4" />,
+    },
   ];
 
   return (
@@ -469,6 +496,7 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
           exportType="hotel"
           currentFilters={getCurrentFilters()}
           onLoadPreset={handleLoadPreset as (filters: ExportFilters) => void}
+          onSchedulePreset={onSchedulePreset}
         />
       </div>
 
@@ -854,7 +882,7 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
           label="Export Format"
           name="format"
           value={format}
-          onChange={(value) => setFormat(value as "json" | "csv" | "excel")}
+          onChange={(value) => handleFormatChange(value as ExportFormat)}
           options={formatOptions}
           orientation="horizontal"
         />
@@ -874,12 +902,18 @@ export const ExportFilterPanel = memo(function ExportFilterPanel({
                 type="checkbox"
                 checked={includeLocations}
                 onChange={(e) => setIncludeLocations(e.target.checked)}
+                disabled={format === "geojson"}
                 className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
                 aria-label="Include location data in export"
               />
               <span className="text-sm font-medium text-[rgb(var(--text-primary))]">
                 Include Locations
               </span>
+              {format === "geojson" && (
+                <span className="text-xs text-[rgb(var(--text-tertiary))]">
+                  (required for GeoJSON)
+                </span>
+              )}
             </label>
             <label className="flex items-center gap-2 p-3 rounded-lg border border-[rgb(var(--border-primary))] hover:bg-[rgb(var(--bg-secondary))] cursor-pointer">
               <input
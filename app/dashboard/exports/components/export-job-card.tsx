@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useState, memo, useEffect } from "react";
-import { ExportJob } from "@/lib/types/exports";
+import { ExportJob, ExportDownloadProgress } from "@/lib/types/exports";
+import { CacheManager } from "@/lib/utils/cache-manager";
 import { Badge } from "@/lib/components/ui/badge";
 import { Button } from "@/lib/components/ui/button";
 import {
@@ -32,14 +33,34 @@ export interface ExportJobCardProps {
   job: ExportJob;
   onRefresh: () => Promise<void>;
   onDownload: () => Promise<void>;
+  downloadProgress?: ExportDownloadProgress;
   onDelete: () => void;
   onCreateNew?: () => void;
 }
 
+/**
+ * Percentage of the file downloaded, or null while the total size is unknown
+ */
+export function getDownloadPercent(progress: ExportDownloadProgress): number | null {
+  if (!progress.totalBytes) return null;
+  return Math.min(100, Math.round((progress.receivedBytes / progress.totalBytes) * 100));
+}
+
+/**
+ * Byte count label, e.g. "12.5 MB / 40 MB"
+ */
+export function formatDownloadBytes(progress: ExportDownloadProgress): string {
+  const received = CacheManager.formatBytes(progress.receivedBytes);
+  return progress.totalBytes
+    ? `${received} / ${CacheManager.formatBytes(progress.totalBytes)}`
+    : received;
+}
+
 export const ExportJobCard = memo(function ExportJobCard({
   job,
   onRefresh,
   onDownload,
+  downloadProgress,
   onDelete,
   onCreateNew,
 }: ExportJobCardProps) {
@@ -250,6 +271,11 @@ export const ExportJobCard = memo(function ExportJobCard({
         </div>
       )}
 
+      {/* Download Progress (byte-level, resumes from stored chunks) */}
+      {downloadProgress && (
+        <DownloadProgressBar progress={downloadProgress} className="mb-4" />
+      )}
+
       {/* Records Count */}
       <div className="mb-4">
         <div className="flex items-center justify-between text-sm">
@@ -448,3 +474,54 @@ export const ExportJobCard = memo(function ExportJobCard({
     </article>
   );
 });
+
+/**
+ * Byte-level download progress bar, shared by the card and table layouts
+ */
+export function DownloadProgressBar({
+  progress,
+  className,
+}: {
+  progress: ExportDownloadProgress;
+  className?: string;
+}) {
+  const percent = getDownloadPercent(progress);
+
+  return (
+    <div className={className} role="status" aria-live="polite">
+      <div className="flex items-center justify-between mb-1 gap-2">
+        <span className="text-xs font-medium text-[rgb(var(--text-secondary))]">
+          {progress.resumedFromBytes > 0 ? "Resuming download" : "Downloading"}
+        </span>
+        <span className="text-xs font-semibold text-blue-600 whitespace-nowrap">
+          {formatDownloadBytes(progress)}
+        </span>
+      </div>
+      <div
+        className="w-full bg-[rgb(var(--bg-secondary))] rounded-full h-2 overflow-hidden"
+        role="progressbar"
+        aria-valuenow={percent ?? undefined}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-label={
+          percent !== null
+            ? `Download progress: ${percent}%`
+            : `Downloaded ${formatDownloadBytes(progress)}`
+        }
+      >
+        <div
+          className={cn(
+            "bg-linear-to-r from-blue-500 to-blue-600 h-2 rounded-full transition-all duration-300 ease-out",
+            percent === null && "animate-pulse"
+          )}
+          style={{ width: `${percent ?? 100}%` }}
+        />
+      </div>
+      {progress.resumedFromBytes > 0 && (
+        <div className="text-xs text-[rgb(var(--text-tertiary))] mt-1">
+          Resumed from {CacheManager.formatBytes(progress.resumedFromBytes)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,9 +15,10 @@
 
 import React, { useMemo, useRef, useEffect, useState } from "react";
 import { List as FixedSizeList } from "react-window";
-import { ExportJob } from "@/lib/types/exports";
-import { ExportJobCard } from "./export-job-card";
+import { ExportJob, ExportDownloadProgress } from "@/lib/types/exports";
+import { ExportJobCard, DownloadProgressBar } from "./export-job-card";
 import { ExportJobsListSkeleton } from "./export-job-skeleton";
+import { CompareExportsDialog } from "./compare-exports-dialog";
 import { Button } from "@/lib/components/ui/button";
 import { Badge } from "@/lib/components/ui/badge";
 import {
@@ -43,6 +44,7 @@ import {
   AlertCircle,
   Inbox,
   Trash,
+  GitCompare,
 } from "lucide-react";
 
 // Virtual scrolling configuration
@@ -55,6 +57,7 @@ export interface ExportJobsListProps {
   jobs: ExportJob[];
   onRefreshJob: (jobId: string) => Promise<void>;
   onDownload: (jobId: string) => Promise<void>;
+  downloadProgress?: Record<string, ExportDownloadProgress>;
   onDeleteJob: (jobId: string) => void;
   onClearCompleted: () => void;
   onCreateNew?: (job: ExportJob) => void;
@@ -66,6 +69,7 @@ export function ExportJobsList({
   jobs,
   onRefreshJob,
   onDownload,
+  downloadProgress = {},
   onDeleteJob,
   onClearCompleted,
   onCreateNew,
@@ -74,6 +78,7 @@ export function ExportJobsList({
 }: ExportJobsListProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
 
   // Sort jobs by created_at descending (newest first)
   const sortedJobs = useMemo(() => {
@@ -92,6 +97,12 @@ export function ExportJobsList({
     ).length;
   }, [jobs]);
 
+  // Comparing needs two completed exports
+  const canCompare = useMemo(
+    () => jobs.filter((job) => job.status === "completed").length >= 2,
+    [jobs]
+  );
+
   // Determine if virtual scrolling should be enabled
   const useVirtualScrolling = sortedJobs.length >= VIRTUAL_SCROLL_THRESHOLD;
 
@@ -125,21 +136,40 @@ export function ExportJobsList({
             />
           )}
         </div>
-        {completedJobsCount > 0 && (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={onClearCompleted}
-            leftIcon={<Trash className="w-4 h-4" />}
-            aria-label={`Clear ${completedJobsCount} completed job${
-              completedJobsCount !== 1 ? "s" : ""
-            }`}
-          >
-            Clear Completed ({completedJobsCount})
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {canCompare && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsCompareOpen(true)}
+              leftIcon={<GitCompare className="w-4 h-4" />}
+              aria-label="Compare two completed exports"
+            >
+              Compare
+            </Button>
+          )}
+          {completedJobsCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClearCompleted}
+              leftIcon={<Trash className="w-4 h-4" />}
+              aria-label={`Clear ${completedJobsCount} completed job${
+                completedJobsCount !== 1 ? "s" : ""
+              }`}
+            >
+              Clear Completed ({completedJobsCount})
+            </Button>
+          )}
+        </div>
       </div>
 
+      <CompareExportsDialog
+        isOpen={isCompareOpen}
+        jobs={jobs}
+        onClose={() => setIsCompareOpen(false)}
+      />
+
       {/* Desktop: Table View */}
       <div
         ref={containerRef}
@@ -227,6 +257,7 @@ export function ExportJobsList({
                           jobs: sortedJobs,
                           onRefreshJob,
                           onDownload,
+                          downloadProgress,
                           onDeleteJob,
                           onCreateNew,
                         } as any
@@ -241,6 +272,7 @@ export function ExportJobsList({
                     job={job}
                     onRefresh={() => onRefreshJob(job.jobId)}
                     onDownload={() => onDownload(job.jobId)}
+                    downloadProgress={downloadProgress[job.jobId]}
                     onDelete={() => onDeleteJob(job.jobId)}
                     onCreateNew={
                       onCreateNew ? () => onCreateNew(job) : undefined
@@ -288,6 +320,7 @@ export function ExportJobsList({
                 jobs: sortedJobs,
                 onRefreshJob,
                 onDownload,
+                downloadProgress,
                 onDeleteJob,
                 onCreateNew,
                 columns: 2,
@@ -302,6 +335,7 @@ export function ExportJobsList({
                   job={job}
                   onRefresh={() => onRefreshJob(job.jobId)}
                   onDownload={() => onDownload(job.jobId)}
+                  downloadProgress={downloadProgress[job.jobId]}
                   onDelete={() => onDeleteJob(job.jobId)}
                   onCreateNew={onCreateNew ? () => onCreateNew(job) : undefined}
                 />
@@ -346,6 +380,7 @@ export function ExportJobsList({
                 jobs: sortedJobs,
                 onRefreshJob,
                 onDownload,
+                downloadProgress,
                 onDeleteJob,
                 onCreateNew,
                 columns: 1,
@@ -360,6 +395,7 @@ export function ExportJobsList({
                   job={job}
                   onRefresh={() => onRefreshJob(job.jobId)}
                   onDownload={() => onDownload(job.jobId)}
+                  downloadProgress={downloadProgress[job.jobId]}
                   onDelete={() => onDeleteJob(job.jobId)}
                   onCreateNew={onCreateNew ? () => onCreateNew(job) : undefined}
                 />
@@ -377,6 +413,7 @@ interface VirtualTableRowData {
   jobs: ExportJob[];
   onRefreshJob: (jobId: string) => Promise<void>;
   onDownload: (jobId: string) => Promise<void>;
+  downloadProgress: Record<string, ExportDownloadProgress>;
   onDeleteJob: (jobId: string) => void;
   onCreateNew?: (job: ExportJob) => void;
 }
@@ -395,6 +432,7 @@ const VirtualTableRow = React.memo(
       jobs,
       onRefreshJob,
       onDownload,
+      downloadProgress,
       onDeleteJob,
       onCreateNew,
     } = props;
@@ -408,6 +446,7 @@ const VirtualTableRow = React.memo(
               job={job}
               onRefresh={() => onRefreshJob(job.jobId)}
               onDownload={() => onDownload(job.jobId)}
+              downloadProgress={downloadProgress[job.jobId]}
               onDelete={() => onDeleteJob(job.jobId)}
               onCreateNew={onCreateNew ? () => onCreateNew(job) : undefined}
             />
@@ -439,6 +478,7 @@ const VirtualCardRow = React.memo(
       jobs,
       onRefreshJob,
       onDownload,
+      downloadProgress,
       onDeleteJob,
       onCreateNew,
       columns,
@@ -457,6 +497,7 @@ const VirtualCardRow = React.memo(
               job={leftJob}
               onRefresh={() => onRefreshJob(leftJob.jobId)}
               onDownload={() => onDownload(leftJob.jobId)}
+              downloadProgress={downloadProgress[leftJob.jobId]}
               onDelete={() => onDeleteJob(leftJob.jobId)}
               onCreateNew={onCreateNew ? () => onCreateNew(leftJob) : undefined}
             />
@@ -466,6 +507,7 @@ const VirtualCardRow = React.memo(
               job={rightJob}
               onRefresh={() => onRefreshJob(rightJob.jobId)}
               onDownload={() => onDownload(rightJob.jobId)}
+              downloadProgress={downloadProgress[rightJob.jobId]}
               onDelete={() => onDeleteJob(rightJob.jobId)}
               onCreateNew={
                 onCreateNew ? () => onCreateNew(rightJob) : undefined
@@ -483,6 +525,7 @@ const VirtualCardRow = React.memo(
             job={job}
             onRefresh={() => onRefreshJob(job.jobId)}
             onDownload={() => onDownload(job.jobId)}
+            downloadProgress={downloadProgress[job.jobId]}
             onDelete={() => onDeleteJob(job.jobId)}
             onCreateNew={onCreateNew ? () => onCreateNew(job) : undefined}
           />
@@ -499,6 +542,7 @@ interface ExportJobTableRowProps {
   job: ExportJob;
   onRefresh: () => Promise<void>;
   onDownload: () => Promise<void>;
+  downloadProgress?: ExportDownloadProgress;
   onDelete: () => void;
   onCreateNew?: () => void;
 }
@@ -507,6 +551,7 @@ function ExportJobTableRow({
   job,
   onRefresh,
   onDownload,
+  downloadProgress,
   onDelete,
   onCreateNew,
 }: ExportJobTableRowProps) {
@@ -669,7 +714,9 @@ function ExportJobTableRow({
 
       {/* Progress */}
       <td className="px-6 py-4 whitespace-nowrap">
-        {job.status === "processing" ? (
+        {downloadProgress ? (
+          <DownloadProgressBar progress={downloadProgress} className="w-40" />
+        ) : job.status === "processing" ? (
           <div className="w-32">
             <div className="flex items-center justify-between mb-1">
               <span className="text-xs font-semibold text-blue-600">
@@ -1,13 +1,49 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/lib/components/ui/button";
 import { Input } from "@/lib/components/ui/input";
-import { FilterPreset, ExportFilters, ExportType } from "@/lib/types/exports";
-import { Save, FolderOpen, Trash2, X, Check } from "lucide-react";
+import { Select } from "@/lib/components/ui/select";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { FilterPresetService } from "@/lib/api/filter-presets";
+import {
+  VISIBILITY_LABELS,
+  buildPresetFile,
+  canManagePreset,
+  canPublishOfficialPresets,
+  getAllowedVisibilities,
+  parsePresetFile,
+} from "@/lib/utils/filter-presets";
+import {
+  FilterPreset,
+  FilterPresetVisibility,
+  ExportFilters,
+  ExportType,
+} from "@/lib/types/exports";
+import {
+  Save,
+  FolderOpen,
+  Trash2,
+  X,
+  Check,
+  CalendarClock,
+  BadgeCheck,
+  Download,
+  Upload,
+  Lock,
+  Users,
+  Globe,
+} from "lucide-react";
 import { clsx } from "clsx";
 
-const STORAGE_KEY = "export_filter_presets";
+// Presets used to live only in this browser; they are moved to the server once
+const LEGACY_STORAGE_KEY = "export_filter_presets";
+
+const VISIBILITY_ICONS: Record<FilterPresetVisibility, React.ElementType> = {
+  private: Lock,
+  team: Users,
+  global: Globe,
+};
 
 export interface FilterPresetsManagerProps<
   T extends ExportFilters = ExportFilters
@@ -15,89 +51,129 @@ export interface FilterPresetsManagerProps<
   exportType: ExportType;
   currentFilters: T;
   onLoadPreset: (filters: T) => void;
+  // Shown as a per-preset action when provided
+  onSchedulePreset?: (preset: FilterPreset) => void;
+}
+
+/**
+ * Upload presets saved by older versions of this component, then forget them
+ */
+async function migrateLegacyPresets() {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  try {
+    const response = await FilterPresetService.importPresets(JSON.parse(stored));
+    if (!response.success || !response.data) {
+      console.warn("⚠️ Failed to migrate browser-saved presets:", response.error?.message);
+      return;
+    }
+    console.log(
+      `✅ Moved ${response.data.imported.length} browser-saved presets to the server`
+    );
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.warn("⚠️ Failed to migrate browser-saved presets:", error);
+  }
 }
 
 export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
   exportType,
   currentFilters,
   onLoadPreset,
+  onSchedulePreset,
 }: FilterPresetsManagerProps<T>) {
+  const { user } = useAuth();
+  const allowedVisibilities = getAllowedVisibilities(user);
+  const canPublish = canPublishOfficialPresets(user);
+
   const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [presetName, setPresetName] = useState("");
   const [nameError, setNameError] = useState("");
+  const [visibility, setVisibility] = useState<FilterPresetVisibility>("private");
+  const [isOfficial, setIsOfficial] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Load presets from localStorage on mount
-  useEffect(() => {
-    loadPresetsFromStorage();
-  }, []);
+  // Load presets from the server
+  const loadPresets = useCallback(async () => {
+    const response = await FilterPresetService.getPresets(exportType);
 
-  // Load presets from localStorage
-  const loadPresetsFromStorage = () => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Convert date strings back to Date objects
-        const presetsWithDates = parsed.map((preset: any) => ({
-          ...preset,
-          createdAt: new Date(preset.createdAt),
-        }));
-        setPresets(presetsWithDates);
-      }
-    } catch (error) {
-      console.error("Failed to load presets from storage:", error);
+    if (response.success && response.data) {
+      setPresets(response.data);
+    } else {
+      console.error("Failed to load presets:", response.error);
+      setStatusMessage({
+        type: "error",
+        text: response.error?.message || "Failed to load presets",
+      });
     }
-  };
+    setIsLoading(false);
+  }, [exportType]);
 
-  // Save presets to localStorage
-  const savePresetsToStorage = (updatedPresets: FilterPreset[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedPresets));
-    } catch (error) {
-      console.error("Failed to save presets to storage:", error);
-    }
+  useEffect(() => {
+    migrateLegacyPresets().then(loadPresets);
+  }, [loadPresets]);
+
+  // Clear the status message after a few seconds
+  useEffect(() => {
+    if (!statusMessage) return;
+    const timer = setTimeout(() => setStatusMessage(null), 5000);
+    return () => clearTimeout(timer);
+  }, [statusMessage]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setPresetName("");
+    setNameError("");
+    setVisibility("private");
+    setIsOfficial(false);
   };
 
   // Save current filters as a new preset
-  const savePreset = () => {
+  const savePreset = async () => {
     // Validate preset name
     if (!presetName.trim()) {
       setNameError("Preset name is required");
       return;
     }
 
-    // Check for duplicate names
+    // Check for duplicate names among the user's own presets
     if (
       presets.some(
         (p) =>
-          p.name.toLowerCase() === presetName.trim().toLowerCase() &&
-          p.exportType === exportType
+          p.ownerId === user?.id &&
+          p.name.toLowerCase() === presetName.trim().toLowerCase()
       )
     ) {
       setNameError("A preset with this name already exists");
       return;
     }
 
-    // Create new preset
-    const newPreset: FilterPreset = {
-      id: `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    setIsSaving(true);
+    const response = await FilterPresetService.createPreset({
       name: presetName.trim(),
       exportType,
       filters: currentFilters,
-      createdAt: new Date(),
-    };
-
-    // Add to presets array
-    const updatedPresets = [...presets, newPreset];
-    setPresets(updatedPresets);
-    savePresetsToStorage(updatedPresets);
+      visibility: isOfficial ? "global" : visibility,
+      isOfficial,
+    });
+    setIsSaving(false);
 
-    // Close modal and reset form
-    setIsModalOpen(false);
-    setPresetName("");
-    setNameError("");
+    if (response.success && response.data) {
+      const created = response.data;
+      setPresets((prev) => [...prev, created]);
+      closeModal();
+    } else {
+      setNameError(response.error?.message || "Failed to save preset");
+    }
   };
 
   // Load a preset and populate filter panel
@@ -107,87 +183,274 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
   };
 
   // Delete a preset
-  const deletePreset = (presetId: string) => {
-    const updatedPresets = presets.filter((p) => p.id !== presetId);
-    setPresets(updatedPresets);
-    savePresetsToStorage(updatedPresets);
+  const deletePreset = async (preset: FilterPreset) => {
+    const response = await FilterPresetService.deletePreset(preset.id);
+
+    if (response.success) {
+      setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    } else {
+      setStatusMessage({
+        type: "error",
+        text: response.error?.message || "Failed to delete preset",
+      });
+    }
   };
 
-  // Get presets for current export type
+  // Publish a preset as official, or withdraw it
+  const toggleOfficial = async (preset: FilterPreset) => {
+    const response = await FilterPresetService.updatePreset(
+      preset.id,
+      preset.isOfficial
+        ? { isOfficial: false }
+        : { isOfficial: true, visibility: "global" }
+    );
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      setPresets((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+    } else {
+      setStatusMessage({
+        type: "error",
+        text: response.error?.message || "Failed to update preset",
+      });
+    }
+  };
+
+  // Download the listed presets as a JSON file
+  const exportPresets = () => {
+    const file = buildPresetFile(filteredPresets);
+    const blob = new Blob([JSON.stringify(file, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${exportType}-filter-presets-${file.exportedAt.slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Import presets from a JSON file
+  const importPresets = async (file: File) => {
+    try {
+      const content = JSON.parse(await file.text());
+      // Validate locally first for a quicker error message
+      parsePresetFile(content);
+
+      const response = await FilterPresetService.importPresets(content);
+      if (!response.success || !response.data) {
+        setStatusMessage({
+          type: "error",
+          text: response.error?.message || "Failed to import presets",
+        });
+        return;
+      }
+
+      const result = response.data;
+      await loadPresets();
+      setStatusMessage({
+        type: "success",
+        text:
+          `Imported ${result.imported.length} preset(s)` +
+          (result.skipped.length > 0
+            ? `, skipped ${result.skipped.length} with existing names`
+            : ""),
+      });
+    } catch (error) {
+      setStatusMessage({
+        type: "error",
+        text:
+          error instanceof SyntaxError
+            ? "The selected file is not valid JSON"
+            : error instanceof Error
+              ? error.message
+              : "Failed to import presets",
+      });
+    }
+  };
+
+  // Presets come back filtered by type; keep the guard for optimistic additions
   const filteredPresets = presets.filter((p) => p.exportType === exportType);
 
+  const describePreset = (preset: FilterPreset) => {
+    const created = `Created ${new Date(preset.createdAt).toLocaleDateString()}`;
+    if (preset.isOfficial) return `Official · ${created}`;
+    if (preset.ownerId !== user?.id) return `Shared by ${preset.ownerName} · ${created}`;
+    return `${VISIBILITY_LABELS[preset.visibility]} · ${created}`;
+  };
+
   return (
-    <div className="flex gap-2">
-      {/* Load Preset Dropdown */}
-      <div className="relative">
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-2">
+        {/* Load Preset Dropdown */}
+        <div className="relative">
+          <Button
+            type="button"
+            variant="outline"
+            size="md"
+            onClick={() => setIsDropdownOpen(!isDropdownOpen)}
+            leftIcon={<FolderOpen className="w-4 h-4" />}
+            disabled={isLoading || filteredPresets.length === 0}
+          >
+            Load Preset
+          </Button>
+
+          {isDropdownOpen && filteredPresets.length > 0 && (
+            <>
+              {/* Backdrop to close dropdown */}
+              <div
+                className="fixed inset-0 z-10"
+                onClick={() => setIsDropdownOpen(false)}
+              />
+
+              {/* Dropdown menu */}
+              <div className="absolute left-0 mt-2 w-80 bg-[rgb(var(--bg-primary))] rounded-xl shadow-xl border border-[rgb(var(--border-primary))] z-20 max-h-96 overflow-y-auto">
+                <div className="p-4">
+                  {filteredPresets.map((preset) => {
+                    const VisibilityIcon = VISIBILITY_ICONS[preset.visibility];
+                    const canManage = canManagePreset(user, preset);
+
+                    return (
+                      <div
+                        key={preset.id}
+                        className="flex items-center justify-between p-3 rounded-lg hover:bg-[rgb(var(--bg-secondary))] group"
+                      >
+                        <button
+                          type="button"
+                          onClick={() => loadPreset(preset)}
+                          className="flex-1 text-left min-w-0"
+                        >
+                          <div className="font-medium text-[rgb(var(--text-primary))] flex items-center gap-1.5">
+                            {preset.isOfficial ? (
+                              <BadgeCheck
+                                className="w-4 h-4 text-primary-color shrink-0"
+                                aria-label="Official preset"
+                              />
+                            ) : (
+                              <VisibilityIcon
+                                className="w-3.5 h-3.5 text-[rgb(var(--text-tertiary))] shrink-0"
+                                aria-label={VISIBILITY_LABELS[preset.visibility]}
+                              />
+                            )}
+                            <span className="truncate">{preset.name}</span>
+                          </div>
+                          <div className="text-xs text-[rgb(var(--text-tertiary))] mt-1 truncate">
+                            {describePreset(preset)}
+                          </div>
+                        </button>
+                        {onSchedulePreset && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setIsDropdownOpen(false);
+                              onSchedulePreset(preset);
+                            }}
+                            className="p-2 text-[rgb(var(--text-tertiary))] hover:text-primary-color opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Schedule recurring export"
+                          >
+                            <CalendarClock className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canPublish && canManage && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleOfficial(preset);
+                            }}
+                            className={clsx(
+                              "p-2 opacity-0 group-hover:opacity-100 transition-opacity",
+                              preset.isOfficial
+                                ? "text-primary-color hover:text-[rgb(var(--text-tertiary))]"
+                                : "text-[rgb(var(--text-tertiary))] hover:text-primary-color"
+                            )}
+                            title={
+                              preset.isOfficial
+                                ? "Withdraw official preset"
+                                : "Publish as official preset"
+                            }
+                          >
+                            <BadgeCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canManage && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deletePreset(preset);
+                            }}
+                            className="p-2 text-[rgb(var(--text-tertiary))] hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Delete preset"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Save Current Filters Button */}
         <Button
           type="button"
-          variant="outline"
+          variant="secondary"
           size="md"
-          onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-          leftIcon={<FolderOpen className="w-4 h-4" />}
-          disabled={filteredPresets.length === 0}
+          onClick={() => setIsModalOpen(true)}
+          leftIcon={<Save className="w-4 h-4" />}
         >
-          Load Preset
+          Save Preset
         </Button>
 
-        {isDropdownOpen && filteredPresets.length > 0 && (
-          <>
-            {/* Backdrop to close dropdown */}
-            <div
-              className="fixed inset-0 z-10"
-              onClick={() => setIsDropdownOpen(false)}
-            />
-
-            {/* Dropdown menu */}
-            <div className="absolute left-0 mt-2 w-80 bg-[rgb(var(--bg-primary))] rounded-xl shadow-xl border border-[rgb(var(--border-primary))] z-20 max-h-96 overflow-y-auto">
-              <div className="p-4">
-                {filteredPresets.map((preset) => (
-                  <div
-                    key={preset.id}
-                    className="flex items-center justify-between p-3 rounded-lg hover:bg-[rgb(var(--bg-secondary))] group"
-                  >
-                    <button
-                      type="button"
-                      onClick={() => loadPreset(preset)}
-                      className="flex-1 text-left"
-                    >
-                      <div className="font-medium text-[rgb(var(--text-primary))]">
-                        {preset.name}
-                      </div>
-                      <div className="text-xs text-[rgb(var(--text-tertiary))] mt-1">
-                        Created {preset.createdAt.toLocaleDateString()}
-                      </div>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deletePreset(preset.id);
-                      }}
-                      className="p-2 text-[rgb(var(--text-tertiary))] hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
-                      title="Delete preset"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </>
-        )}
+        {/* Import / Export */}
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="p-2 text-[rgb(var(--text-tertiary))] hover:text-primary-color rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors"
+          title="Import presets from JSON"
+        >
+          <Upload className="w-5 h-5" />
+        </button>
+        <button
+          type="button"
+          onClick={exportPresets}
+          disabled={filteredPresets.length === 0}
+          className="p-2 text-[rgb(var(--text-tertiary))] hover:text-primary-color rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Export presets to JSON"
+        >
+          <Download className="w-5 h-5" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importPresets(file);
+            e.target.value = "";
+          }}
+        />
       </div>
 
-      {/* Save Current Filters Button */}
-      <Button
-        type="button"
-        variant="secondary"
-        size="md"
-        onClick={() => setIsModalOpen(true)}
-        leftIcon={<Save className="w-4 h-4" />}
-      >
-        Save Preset
-      </Button>
+      {statusMessage && (
+        <p
+          role="status"
+          className={clsx(
+            "text-xs",
+            statusMessage.type === "success" ? "text-green-700" : "text-red-600"
+          )}
+        >
+          {statusMessage.text}
+        </p>
+      )}
 
       {/* Save Preset Modal */}
       {isModalOpen && (
@@ -195,11 +458,7 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
           {/* Modal backdrop */}
           <div
             className="fixed inset-0 bg-black/50 z-40 flex items-center justify-center p-4"
-            onClick={() => {
-              setIsModalOpen(false);
-              setPresetName("");
-              setNameError("");
-            }}
+            onClick={closeModal}
           >
             {/* Modal content */}
             <div
@@ -213,11 +472,7 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
                 </h3>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsModalOpen(false);
-                    setPresetName("");
-                    setNameError("");
-                  }}
+                  onClick={closeModal}
                   className="p-2 text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-secondary))] rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors"
                 >
                   <X className="w-5 h-5" />
@@ -225,7 +480,7 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
               </div>
 
               {/* Modal body */}
-              <div className="p-4">
+              <div className="p-4 space-y-4">
                 <Input
                   label="Preset Name"
                   placeholder="Enter a name for this preset"
@@ -243,9 +498,37 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
                     }
                   }}
                 />
-                <p className="mt-3 text-sm text-[rgb(var(--text-tertiary))]">
+
+                {allowedVisibilities.length > 1 && (
+                  <Select
+                    label="Visible to"
+                    options={allowedVisibilities.map((value) => ({
+                      value,
+                      label: VISIBILITY_LABELS[value],
+                    }))}
+                    value={isOfficial ? "global" : visibility}
+                    disabled={isOfficial}
+                    onChange={(e) =>
+                      setVisibility(e.target.value as FilterPresetVisibility)
+                    }
+                  />
+                )}
+
+                {canPublish && (
+                  <label className="flex items-center gap-2 text-sm text-[rgb(var(--text-primary))]">
+                    <input
+                      type="checkbox"
+                      checked={isOfficial}
+                      onChange={(e) => setIsOfficial(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Publish as an official preset for everyone
+                  </label>
+                )}
+
+                <p className="text-sm text-[rgb(var(--text-tertiary))]">
                   Save your current filter configuration to quickly reuse it
-                  later.
+                  later on any device.
                 </p>
               </div>
 
@@ -255,11 +538,7 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
                   type="button"
                   variant="outline"
                   size="md"
-                  onClick={() => {
-                    setIsModalOpen(false);
-                    setPresetName("");
-                    setNameError("");
-                  }}
+                  onClick={closeModal}
                 >
                   Cancel
                 </Button>
@@ -268,6 +547,7 @@ export function FilterPresetsManager<T extends ExportFilters = ExportFilters>({
                   variant="primary"
                   size="md"
                   onClick={savePreset}
+                  loading={isSaving}
                   leftIcon={<Check className="w-4 h-4" />}
                 >
                   Save Preset
@@ -5,8 +5,12 @@ import dynamic from "next/dynamic";
 import { Button } from "@/lib/components/ui/button";
 import { Input } from "@/lib/components/ui/input";
 import { RadioGroup, RadioOption } from "@/lib/components/ui/radio-group";
-import { MappingExportFilters, ExportFilters } from "@/lib/types/exports";
-import { config } from "@/lib/config";
+import {
+  MappingExportFilters,
+  ExportFilters,
+  ExportFormat,
+  FilterPreset,
+} from "@/lib/types/exports";
 import {
   Download,
   Filter,
@@ -14,11 +18,14 @@ import {
   Hash,
   FileJson,
   FileSpreadsheet,
+  FileText,
+  Database,
+  MapPin,
   CheckCircle,
   RotateCcw,
 } from "lucide-react";
 import { clsx } from "clsx";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import { SelectOption } from "@/lib/components/ui/select";
 
 // Lazy load FilterPresetsManager for better code splitting
@@ -41,11 +48,13 @@ const FilterPresetsManager = dynamic(
 export interface MappingExportPanelProps {
   onExportCreate: (filters: MappingExportFilters) => Promise<void>;
   isLoading: boolean;
+  onSchedulePreset?: (preset: FilterPreset) => void;
 }
 
 export const MappingExportPanel = memo(function MappingExportPanel({
   onExportCreate,
   isLoading,
+  onSchedulePreset,
 }: MappingExportPanelProps) {
   // Supplier options state (fetched from API)
   const [supplierOptions, setSupplierOptions] = useState<SelectOption[]>([]);
@@ -57,7 +66,7 @@ export const MappingExportPanel = memo(function MappingExportPanel({
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
   const [maxRecords, setMaxRecords] = useState<number | "All">(1000);
-  const [format, setFormat] = useState<"json" | "csv" | "excel">("json");
+  const [format, setFormat] = useState<ExportFormat>("json");
 
   // Multi-select state for suppliers
   const [selectedSupplierValues, setSelectedSupplierValues] = useState<
@@ -82,20 +91,12 @@ export const MappingExportPanel = memo(function MappingExportPanel({
     const fetchActiveSuppliers = async () => {
       setLoadingSuppliers(true);
       try {
-        const token = TokenStorage.getToken();
-        if (!token) {
-          console.error("No authentication token found");
-          setLoadingSuppliers(false);
-          return;
-        }
-
         const response = await fetch(
-          `${config.api.url}/user/check-active-my-supplier`,
+          backendUrl("/user/check-active-my-supplier"),
           {
             method: "GET",
             headers: {
               "Content-Type": "application/json",
-              Authorization: `Bearer ${token}`,
             },
           },
         );
@@ -386,6 +387,24 @@ export const MappingExportPanel = memo(function MappingExportPanel({
       description: "Microsoft Excel Format",
       icon: <FileSpreadsheet className="w-4 h-4" />,
     },
+    {
+      value: "ndjson",
+      label: "NDJSON",
+      description: "One JSON record per line",
+      icon: <FileText className="w-4 h-4" />,
+    },
+    {
+      value: "parquet",
+      label: "Parquet",
+      description: "Columnar format for warehouses",
+      icon: <Database className="w-4 h-4" />,
+    },
+    {
+      value: "geojson",
+      label: "GeoJSON",
+      description: "Mapped hotel points for map tools",
+      icon: <MapPin className="w-4 h-4" />,
+    },
   ];
 
   return (
@@ -414,6 +433,7 @@ export const MappingExportPanel = memo(function MappingExportPanel({
           exportType="mapping"
           currentFilters={getCurrentFilters()}
           onLoadPreset={handleLoadPreset as (filters: ExportFilters) => void}
+          onSchedulePreset={onSchedulePreset}
         />
       </div>
 
@@ -665,7 +685,7 @@ export const MappingExportPanel = memo(function MappingExportPanel({
           label="Export Format"
           name="format"
           value={format}
-          onChange={(value) => setFormat(value as "json" | "csv" | "excel")}
+          onChange={(value) => setFormat(value as ExportFormat)}
           options={formatOptions}
           orientation="horizontal"
         />
@@ -0,0 +1,249 @@
+"use client";
+
+/**
+ * Schedule Export Dialog
+ *
+ * Attaches a recurring schedule (daily/weekly/monthly or cron) to a saved
+ * filter preset, or edits the rule of an existing schedule.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select, SelectOption } from "@/lib/components/ui/select";
+import { ExportScheduleService } from "@/lib/api/export-schedules";
+import {
+  MAX_SCHEDULE_DAY_OF_MONTH,
+  WEEKDAY_NAMES,
+  describeScheduleRule,
+  getUpcomingRunTimes,
+  validateScheduleRule,
+} from "@/lib/utils/export-schedule";
+import type {
+  ExportSchedule,
+  ExportScheduleFrequency,
+  ExportScheduleRule,
+  FilterPreset,
+} from "@/lib/types/exports";
+import { CalendarClock, Check, X } from "lucide-react";
+
+export interface ScheduleExportDialogProps {
+  isOpen: boolean;
+  // Preset to schedule (create mode)
+  preset?: FilterPreset | null;
+  // Existing schedule to edit (edit mode)
+  schedule?: ExportSchedule | null;
+  onClose: () => void;
+  onSaved: (schedule: ExportSchedule) => void;
+}
+
+const FREQUENCY_OPTIONS: SelectOption[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "cron", label: "Custom (cron)" },
+];
+
+const WEEKDAY_OPTIONS: SelectOption[] = WEEKDAY_NAMES.map((name, index) => ({
+  value: String(index),
+  label: name,
+}));
+
+const DAY_OF_MONTH_OPTIONS: SelectOption[] = Array.from(
+  { length: MAX_SCHEDULE_DAY_OF_MONTH },
+  (_, index) => ({ value: String(index + 1), label: String(index + 1) }),
+);
+
+const DEFAULT_RULE: ExportScheduleRule = {
+  frequency: "weekly",
+  time: "06:00",
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  cron: "0 6 * * 1",
+};
+
+export function ScheduleExportDialog({
+  isOpen,
+  preset,
+  schedule,
+  onClose,
+  onSaved,
+}: ScheduleExportDialogProps) {
+  const [rule, setRule] = useState<ExportScheduleRule>(DEFAULT_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Reset the form whenever the dialog opens for a different target
+  useEffect(() => {
+    if (!isOpen) return;
+    setRule(schedule ? { ...DEFAULT_RULE, ...schedule.rule } : DEFAULT_RULE);
+    setSaveError(null);
+  }, [isOpen, schedule]);
+
+  const ruleError = validateScheduleRule(rule);
+  const upcoming = useMemo(
+    () => (ruleError ? [] : getUpcomingRunTimes(rule, new Date(), 3)),
+    [rule, ruleError],
+  );
+
+  if (!isOpen || (!preset && !schedule)) {
+    return null;
+  }
+
+  const targetName = schedule?.presetName ?? preset?.name;
+
+  const updateRule = (updates: Partial<ExportScheduleRule>) => {
+    setRule((prev) => ({ ...prev, ...updates }));
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (ruleError) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    const response = schedule
+      ? await ExportScheduleService.updateSchedule(schedule.id, { rule })
+      : await ExportScheduleService.createSchedule({
+          presetId: preset!.id,
+          presetName: preset!.name,
+          exportType: preset!.exportType,
+          filters: preset!.filters,
+          rule,
+        });
+
+    setIsSaving(false);
+    if (response.success && response.data) {
+      onSaved(response.data);
+      onClose();
+    } else {
+      setSaveError(response.error?.message || "Failed to save schedule");
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-40 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="schedule-export-title"
+        className="bg-[rgb(var(--bg-primary))] rounded-2xl shadow-2xl max-w-md w-full z-50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-[rgb(var(--border-primary))]">
+          <div>
+            <h3
+              id="schedule-export-title"
+              className="text-xl font-bold text-[rgb(var(--text-primary))] flex items-center gap-2"
+            >
+              <CalendarClock className="w-5 h-5 text-primary-color" />
+              {schedule ? "Edit Schedule" : "Schedule Export"}
+            </h3>
+            <p className="text-sm text-[rgb(var(--text-tertiary))] mt-1">
+              Preset: {targetName}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-[rgb(var(--text-tertiary))] hover:text-[rgb(var(--text-secondary))] rounded-lg hover:bg-[rgb(var(--bg-secondary))] transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          <Select
+            label="Repeat"
+            options={FREQUENCY_OPTIONS}
+            value={rule.frequency}
+            onChange={(e) =>
+              updateRule({ frequency: e.target.value as ExportScheduleFrequency })
+            }
+          />
+
+          {rule.frequency === "cron" ? (
+            <Input
+              label="Cron expression (UTC)"
+              placeholder="0 6 * * 1"
+              value={rule.cron || ""}
+              onChange={(e) => updateRule({ cron: e.target.value })}
+              helperText="minute hour day-of-month month day-of-week"
+            />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {rule.frequency === "weekly" && (
+                <Select
+                  label="Day"
+                  options={WEEKDAY_OPTIONS}
+                  value={String(rule.dayOfWeek ?? 1)}
+                  onChange={(e) => updateRule({ dayOfWeek: Number(e.target.value) })}
+                />
+              )}
+              {rule.frequency === "monthly" && (
+                <Select
+                  label="Day of month"
+                  options={DAY_OF_MONTH_OPTIONS}
+                  value={String(rule.dayOfMonth ?? 1)}
+                  onChange={(e) => updateRule({ dayOfMonth: Number(e.target.value) })}
+                />
+              )}
+              <Input
+                type="time"
+                label="Time (UTC)"
+                value={rule.time}
+                onChange={(e) => updateRule({ time: e.target.value })}
+              />
+            </div>
+          )}
+
+          {ruleError ? (
+            <p className="text-sm text-red-600">{ruleError}</p>
+          ) : (
+            <div className="rounded-lg bg-[rgb(var(--bg-secondary))] p-3 text-sm">
+              <p className="font-medium text-[rgb(var(--text-primary))]">
+                {describeScheduleRule(rule)}
+              </p>
+              <p className="text-[rgb(var(--text-tertiary))] mt-2 mb-1">Next runs (your time):</p>
+              <ul className="space-y-0.5 text-[rgb(var(--text-secondary))]">
+                {upcoming.map((run) => (
+                  <li key={run.toISOString()}>{run.toLocaleString()}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <p className="text-xs text-[rgb(var(--text-tertiary))]">
+            You&apos;ll get a notification with a download link when each run completes.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-[rgb(var(--border-primary))] bg-[rgb(var(--bg-secondary))] rounded-b-2xl">
+          <Button type="button" variant="outline" size="md" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            size="md"
+            onClick={handleSave}
+            disabled={Boolean(ruleError)}
+            loading={isSaving}
+            leftIcon={<Check className="w-4 h-4" />}
+          >
+            {schedule ? "Save Changes" : "Create Schedule"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
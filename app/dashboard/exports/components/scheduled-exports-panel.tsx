@@ -0,0 +1,330 @@
+"use client";
+
+/**
+ * Scheduled Exports Panel
+ *
+ * Lists the user's recurring export schedules with their upcoming run times,
+ * and the history of past runs with download links for completed files.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import { ExportScheduleService } from "@/lib/api/export-schedules";
+import { describeScheduleRule, getUpcomingRunTimes } from "@/lib/utils/export-schedule";
+import type { ExportSchedule, ExportScheduleRun } from "@/lib/types/exports";
+import { ScheduleExportDialog } from "./schedule-export-dialog";
+import {
+  CalendarClock,
+  CheckCircle2,
+  Download,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  RefreshCw,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { clsx } from "clsx";
+
+export interface ScheduledExportsPanelProps {
+  // Bumped by the parent after a schedule is created elsewhere
+  refreshKey?: number;
+}
+
+const UPCOMING_RUN_COUNT = 5;
+const RUNS_REFRESH_INTERVAL = 30000; // 30 seconds while runs are processing
+
+export function ScheduledExportsPanel({ refreshKey = 0 }: ScheduledExportsPanelProps) {
+  const [schedules, setSchedules] = useState<ExportSchedule[]>([]);
+  const [runs, setRuns] = useState<ExportScheduleRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ExportSchedule | null>(null);
+
+  const loadData = useCallback(async () => {
+    const [scheduleResponse, runResponse] = await Promise.all([
+      ExportScheduleService.getSchedules(),
+      ExportScheduleService.getRuns(),
+    ]);
+
+    if (scheduleResponse.success && scheduleResponse.data && runResponse.success && runResponse.data) {
+      setSchedules(scheduleResponse.data);
+      setRuns(runResponse.data);
+      setError(null);
+    } else {
+      setError(
+        scheduleResponse.error?.message || runResponse.error?.message || "Failed to load scheduled exports",
+      );
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData, refreshKey]);
+
+  const hasProcessingRuns = runs.some((run) => run.status === "processing");
+
+  useEffect(() => {
+    if (!hasProcessingRuns) return;
+    const intervalId = setInterval(loadData, RUNS_REFRESH_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [hasProcessingRuns, loadData]);
+
+  const upcomingRuns = useMemo(() => {
+    const now = new Date();
+    return schedules
+      .filter((schedule) => schedule.enabled)
+      .flatMap((schedule) =>
+        getUpcomingRunTimes(schedule.rule, now, UPCOMING_RUN_COUNT).map((runAt) => ({
+          schedule,
+          runAt,
+        })),
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, UPCOMING_RUN_COUNT);
+  }, [schedules]);
+
+  const replaceSchedule = (updated: ExportSchedule) => {
+    setSchedules((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  const handleToggle = async (schedule: ExportSchedule) => {
+    setBusyId(schedule.id);
+    const response = await ExportScheduleService.updateSchedule(schedule.id, { enabled: !schedule.enabled });
+
+    if (response.success && response.data) {
+      replaceSchedule(response.data);
+    } else {
+      setError(response.error?.message || "Failed to update schedule");
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (schedule: ExportSchedule) => {
+    if (!window.confirm(`Delete the schedule for "${schedule.presetName}" and its run history?`)) {
+      return;
+    }
+
+    setBusyId(schedule.id);
+    const response = await ExportScheduleService.deleteSchedule(schedule.id);
+
+    if (response.success) {
+      setSchedules((prev) => prev.filter((item) => item.id !== schedule.id));
+      setRuns((prev) => prev.filter((run) => run.scheduleId !== schedule.id));
+    } else {
+      setError(response.error?.message || "Failed to delete schedule");
+    }
+    setBusyId(null);
+  };
+
+  const handleDownload = async (run: ExportScheduleRun) => {
+    setBusyId(run.id);
+    const response = await ExportScheduleService.downloadRun(run.id);
+
+    if (response.success && response.data) {
+      const url = URL.createObjectURL(response.data.blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = response.data.fileName || `${run.presetName}-${run.startedAt.slice(0, 10)}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } else {
+      setError(response.error?.message || "Download failed");
+    }
+    setBusyId(null);
+  };
+
+  const isExpired = (run: ExportScheduleRun) =>
+    Boolean(run.expiresAt && new Date(run.expiresAt).getTime() < Date.now());
+
+  if (isLoading) {
+    return (
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg shadow-md border border-[rgb(var(--border-primary))] p-12 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary-color" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Schedules */}
+      <section className="bg-[rgb(var(--bg-primary))] rounded-lg shadow-md border border-[rgb(var(--border-primary))] p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-[rgb(var(--text-primary))] flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary-color" />
+            Scheduled Exports
+          </h2>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={loadData}
+            leftIcon={<RefreshCw className="w-4 h-4" />}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-[rgb(var(--text-secondary))] py-6 text-center">
+            No scheduled exports yet. Save a filter preset, then use the calendar icon in
+            &quot;Load Preset&quot; to run it on a schedule.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[rgb(var(--border-primary))]">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="py-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-semibold text-[rgb(var(--text-primary))] truncate">
+                    {schedule.presetName}
+                    <span className="ml-2 text-xs font-medium uppercase text-[rgb(var(--text-tertiary))]">
+                      {schedule.exportType}
+                    </span>
+                  </p>
+                  <p className="text-sm text-[rgb(var(--text-secondary))]">
+                    {describeScheduleRule(schedule.rule)}
+                  </p>
+                  <p className="text-xs text-[rgb(var(--text-tertiary))] mt-1">
+                    {schedule.enabled && schedule.nextRunAt
+                      ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`
+                      : "Paused"}
+                    {schedule.lastRunAt &&
+                      ` · Last run ${new Date(schedule.lastRunAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(schedule)}
+                    disabled={busyId === schedule.id}
+                    title={schedule.enabled ? "Pause schedule" : "Resume schedule"}
+                    className="p-2 text-[rgb(var(--text-tertiary))] hover:text-primary-color rounded-lg hover:bg-[rgb(var(--bg-secondary))] disabled:opacity-50"
+                  >
+                    {schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditing(schedule)}
+                    disabled={busyId === schedule.id}
+                    title="Edit schedule"
+                    className="p-2 text-[rgb(var(--text-tertiary))] hover:text-primary-color rounded-lg hover:bg-[rgb(var(--bg-secondary))] disabled:opacity-50"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(schedule)}
+                    disabled={busyId === schedule.id}
+                    title="Delete schedule"
+                    className="p-2 text-[rgb(var(--text-tertiary))] hover:text-red-600 rounded-lg hover:bg-[rgb(var(--bg-secondary))] disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Upcoming runs */}
+      {upcomingRuns.length > 0 && (
+        <section className="bg-[rgb(var(--bg-primary))] rounded-lg shadow-md border border-[rgb(var(--border-primary))] p-6">
+          <h3 className="text-lg font-semibold text-[rgb(var(--text-primary))] mb-3">
+            Upcoming Runs
+          </h3>
+          <ul className="space-y-2 text-sm">
+            {upcomingRuns.map(({ schedule, runAt }) => (
+              <li
+                key={`${schedule.id}-${runAt.toISOString()}`}
+                className="flex items-center justify-between"
+              >
+                <span className="text-[rgb(var(--text-primary))]">{schedule.presetName}</span>
+                <span className="text-[rgb(var(--text-secondary))]">{runAt.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Past runs */}
+      <section className="bg-[rgb(var(--bg-primary))] rounded-lg shadow-md border border-[rgb(var(--border-primary))] p-6">
+        <h3 className="text-lg font-semibold text-[rgb(var(--text-primary))] mb-3">Past Runs</h3>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-[rgb(var(--text-secondary))] py-4 text-center">
+            No runs yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[rgb(var(--border-primary))]">
+            {runs.map((run) => (
+              <li key={run.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="flex items-start gap-3 min-w-0">
+                  {run.status === "completed" ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+                  ) : run.status === "failed" ? (
+                    <XCircle className="w-5 h-5 text-red-500 shrink-0" />
+                  ) : (
+                    <Loader2 className="w-5 h-5 text-primary-color animate-spin shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[rgb(var(--text-primary))] truncate">
+                      {run.presetName}
+                    </p>
+                    <p className="text-xs text-[rgb(var(--text-tertiary))]">
+                      {new Date(run.startedAt).toLocaleString()}
+                      {run.status === "processing" && ` · ${run.progress}%`}
+                      {run.status === "completed" &&
+                        ` · ${run.totalRecords.toLocaleString()} records`}
+                    </p>
+                    {run.errorMessage && (
+                      <p className="text-xs text-red-600 mt-1">{run.errorMessage}</p>
+                    )}
+                  </div>
+                </div>
+                {run.status === "completed" && (
+                  <button
+                    type="button"
+                    onClick={() => handleDownload(run)}
+                    disabled={busyId === run.id || isExpired(run)}
+                    className={clsx(
+                      "text-sm font-medium flex items-center gap-1 shrink-0",
+                      isExpired(run)
+                        ? "text-[rgb(var(--text-tertiary))] cursor-not-allowed"
+                        : "text-primary-color hover:text-primary-hover disabled:opacity-50",
+                    )}
+                  >
+                    <Download className="w-4 h-4" />
+                    {isExpired(run)
+                      ? "Expired"
+                      : busyId === run.id
+                        ? "Downloading..."
+                        : "Download"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <ScheduleExportDialog
+        isOpen={editing !== null}
+        schedule={editing}
+        onClose={() => setEditing(null)}
+        onSaved={replaceSchedule}
+      />
+    </div>
+  );
+}
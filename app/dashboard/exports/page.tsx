@@ -12,37 +12,47 @@
  * - Export jobs list with download capabilities
  */
 
-import React, { useState, useRef, useCallback, useMemo } from "react";
+import React, { useState, useRef, useCallback, useMemo, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useRequireAuth } from "@/lib/hooks/use-auth";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { useExportJobs } from "@/lib/hooks/use-export-jobs";
 import { useExportPolling } from "@/lib/hooks/use-export-polling";
+import { useExportStream } from "@/lib/hooks/use-export-stream";
 import { useExportNotifications } from "@/lib/hooks/use-export-notifications";
 import { useRetryManager } from "@/lib/hooks/use-retry-manager";
 import { useKeyboardShortcuts } from "@/lib/hooks/use-keyboard-shortcuts";
 import { useNotification } from "@/lib/components/notifications/notification-provider";
 import { PermissionGuard } from "@/lib/components/auth/permission-guard";
-import { Permission } from "@/lib/utils/rbac";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
 import { SkipLink } from "@/lib/components/ui/skip-link";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import { ExportFilterPanel } from "./components/export-filter-panel";
 import { MappingExportPanel } from "./components/mapping-export-panel";
 import { ExportJobsList } from "./components/export-jobs-list";
+import { ScheduleExportDialog } from "./components/schedule-export-dialog";
+import { ScheduledExportsPanel } from "./components/scheduled-exports-panel";
 import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
 import { exportAPI } from "@/lib/api/exports";
+import { describeScheduleRule } from "@/lib/utils/export-schedule";
+import {
+  clearStoredDownload,
+  isDownloadStoreAvailable,
+} from "@/lib/utils/export-download-store";
 import { UserRole } from "@/lib/types/auth";
 import type {
   HotelExportFilters,
   MappingExportFilters,
   ExportJobStatus,
   ExportJob,
+  ExportDownloadProgress,
+  FilterPreset,
 } from "@/lib/types/exports";
-import { FileDown, Map } from "lucide-react";
+import { EXPORT_FORMAT_EXTENSIONS } from "@/lib/types/exports";
+import { CalendarClock, FileDown, Map } from "lucide-react";
 import { clsx } from "clsx";
 
-type ExportTab = "hotel" | "mapping";
+type ExportTab = "hotel" | "mapping" | "scheduled";
 
 type ConfirmationDialogState = {
   isOpen: boolean;
@@ -92,6 +102,25 @@ export default function ExportsPage() {
   // Tab state for switching between export types
   const [activeTab, setActiveTab] = useState<ExportTab>("hotel");
 
+  // Scheduled exports run under a service account, so only users who can
+  // export directly may schedule them
+  const canScheduleExports = hasPermission(user, Permission.EXPORT_DATA);
+  const [schedulingPreset, setSchedulingPreset] = useState<FilterPreset | null>(null);
+  const [scheduleRefreshKey, setScheduleRefreshKey] = useState(0);
+
+  // Byte progress of downloads in flight, keyed by job ID
+  const [downloadProgress, setDownloadProgress] = useState<
+    Record<string, ExportDownloadProgress>
+  >({});
+
+  // Open the scheduled tab when linked from a notification (?tab=scheduled)
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get("tab");
+    if (tab === "scheduled" && canScheduleExports) {
+      setActiveTab("scheduled");
+    }
+  }, [canScheduleExports]);
+
   // Loading state for initial jobs load
   // const [isLoadingJobs, setIsLoadingJobs] = useState(true); // Removed local state, using hook state instead
 
@@ -117,6 +146,7 @@ export default function ExportsPage() {
     createHotelExport,
     createMappingExport,
     refreshJobStatus,
+    applyJobStatus,
     deleteJob,
     clearCompletedJobs,
     isCreating,
@@ -124,16 +154,13 @@ export default function ExportsPage() {
     error: jobsError,
   } = useExportJobs();
 
-  // Status update handler for polling
+  // Status update handler for the stream and polling hooks
   const handleStatusUpdate = useCallback(
     (jobId: string, status: ExportJobStatus) => {
-      // The status update is handled internally by refreshJobStatus
-      // This callback is used by the polling hook to trigger updates
-      refreshJobStatus(jobId).catch((error) => {
-        console.error(`Failed to update status for job ${jobId}:`, error);
-      });
+      // Both hooks deliver the full status payload, so apply it without another fetch
+      applyJobStatus(jobId, status);
     },
-    [refreshJobStatus],
+    [applyJobStatus],
   );
 
   // Polling error handler - displays notification when polling fails after max retries
@@ -209,15 +236,18 @@ export default function ExportsPage() {
 
         // Call exportAPI.downloadExport with job ID (Requirement 4.1)
         // Handle blob response from API (Requirement 4.2)
-        const blob = await exportAPI.downloadExport(jobId);
+        // Chunks are kept in IndexedDB, so a retry or reload resumes from the last byte
+        const blob = await exportAPI.downloadExport(jobId, (progress) => {
+          setDownloadProgress((current) => ({ ...current, [jobId]: progress }));
+        });
 
         // Set appropriate filename with export type, timestamp, and format (Requirement 4.3)
         const timestamp = new Date()
           .toISOString()
           .split("T")[0]
           .replace(/-/g, "");
-        const format = job.filters.format || "json";
-        const filename = `${job.exportType}_export_${timestamp}.${format}`;
+        const extension = EXPORT_FORMAT_EXTENSIONS[job.filters.format] || "json";
+        const filename = `${job.exportType}_export_${timestamp}.${extension}`;
 
         // Create temporary blob URL for download (Requirement 4.2)
         const blobUrl = URL.createObjectURL(blob);
@@ -293,6 +323,11 @@ export default function ExportsPage() {
         }
 
         console.error("Download error:", error);
+      } finally {
+        setDownloadProgress((current) => {
+          const { [jobId]: _finished, ...rest } = current;
+          return rest;
+        });
       }
     },
     [jobs, addNotification, retryManager],
@@ -537,6 +572,13 @@ export default function ExportsPage() {
       // Delete single job
       await deleteJob(confirmDialog.jobId);
 
+      // Drop any partially downloaded chunks for the job
+      if (isDownloadStoreAvailable()) {
+        clearStoredDownload(confirmDialog.jobId).catch((error) => {
+          console.warn("⚠️ Failed to clear stored download chunks:", error);
+        });
+      }
+
       addNotification({
         type: "success",
         title: "Job Deleted",
@@ -591,16 +633,10 @@ export default function ExportsPage() {
     setApiKeyError(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const response = await fetch(`${config.api.url}/export/my-validation`, {
+      const response = await fetch(backendUrl("/export/my-validation"), {
         method: "GET",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
           "X-API-Key": apiKey.trim(),
         },
       });
@@ -705,12 +741,19 @@ export default function ExportsPage() {
     });
   }, []);
 
-  // Initialize automatic status polling for processing jobs
+  // Push status updates over a single stream while jobs are in progress
+  const { isStreaming } = useExportStream({
+    jobs,
+    onStatusUpdate: handleStatusUpdate,
+  });
+
+  // Fall back to polling processing jobs whenever the stream is not connected
   useExportPolling({
     jobs,
     onStatusUpdate: handleStatusUpdate,
     onPollingError: handlePollingError,
     pollingInterval: 5000, // Poll every 5 seconds
+    enabled: !isStreaming,
   });
 
   // Initialize notification system for job status changes
@@ -1077,12 +1120,50 @@ export default function ExportsPage() {
                   <Map className="w-5 h-5 relative z-10" aria-hidden="true" />
                   <span className="relative z-10">Mapping Exports</span>
                 </button>
+                {canScheduleExports && (
+                  <button
+                    role="tab"
+                    aria-selected={activeTab === "scheduled"}
+                    aria-controls="scheduled-panel"
+                    id="scheduled-tab"
+                    onClick={() => setActiveTab("scheduled")}
+                    aria-label="Scheduled exports tab"
+                    style={
+                      activeTab === "scheduled"
+                        ? { color: "white !important" }
+                        : undefined
+                    }
+                    className={clsx(
+                      "flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all relative",
+                      "focus:outline-none focus:ring-2 focus:ring-primary-color",
+                      "active:scale-95 active:opacity-90",
+                      activeTab === "scheduled"
+                        ? "bg-primary-color !text-white shadow-md"
+                        : "text-[rgb(var(--text-secondary))] hover:bg-[rgb(var(--bg-secondary))] active:bg-[rgb(var(--bg-secondary))]",
+                    )}
+                  >
+                    <CalendarClock
+                      className="w-5 h-5 relative z-10"
+                      aria-hidden="true"
+                    />
+                    <span className="relative z-10">Scheduled Exports</span>
+                  </button>
+                )}
               </div>
             </nav>
 
             {/* Filter Panel - Conditionally render based on active tab */}
             <main id="main-content" ref={filterPanelRef}>
-              {activeTab === "hotel" ? (
+              {activeTab === "scheduled" ? (
+                <div
+                  role="tabpanel"
+                  id="scheduled-panel"
+                  aria-labelledby="scheduled-tab"
+                  tabIndex={0}
+                >
+                  <ScheduledExportsPanel refreshKey={scheduleRefreshKey} />
+                </div>
+              ) : activeTab === "hotel" ? (
                 <div
                   role="tabpanel"
                   id="hotel-panel"
@@ -1092,6 +1173,9 @@ export default function ExportsPage() {
                   <ExportFilterPanel
                     onExportCreate={handleCreateHotelExport}
                     isLoading={isCreating}
+                    onSchedulePreset={
+                      canScheduleExports ? setSchedulingPreset : undefined
+                    }
                   />
                 </div>
               ) : (
@@ -1104,6 +1188,9 @@ export default function ExportsPage() {
                   <MappingExportPanel
                     onExportCreate={handleCreateMappingExport}
                     isLoading={isCreating}
+                    onSchedulePreset={
+                      canScheduleExports ? setSchedulingPreset : undefined
+                    }
                   />
                 </div>
               )}
@@ -1136,11 +1223,16 @@ export default function ExportsPage() {
             )}
 
             {/* Export Jobs List */}
-            <section ref={jobsListRef} aria-label="Export jobs">
+            <section
+              ref={jobsListRef}
+              aria-label="Export jobs"
+              hidden={activeTab === "scheduled"}
+            >
               <ExportJobsList
                 jobs={jobs}
                 onRefreshJob={handleRefreshJob}
                 onDownload={handleDownload}
+                downloadProgress={downloadProgress}
                 onDeleteJob={handleDeleteJob}
                 onClearCompleted={handleClearCompleted}
                 onCreateNew={handleCreateNewFromExpired}
@@ -1149,6 +1241,23 @@ export default function ExportsPage() {
               />
             </section>
 
+            {/* Schedule Export Dialog */}
+            <ScheduleExportDialog
+              isOpen={schedulingPreset !== null}
+              preset={schedulingPreset}
+              onClose={() => setSchedulingPreset(null)}
+              onSaved={(schedule) => {
+                addNotification({
+                  type: "success",
+                  title: "Export Scheduled",
+                  message: `"${schedule.presetName}": ${describeScheduleRule(schedule.rule)}. Track runs in the Scheduled Exports tab.`,
+                  autoDismiss: true,
+                  duration: 5000,
+                });
+                setScheduleRefreshKey((key) => key + 1);
+              }}
+            />
+
             {/* Confirmation Dialog */}
             <ConfirmationDialog
               isOpen={confirmDialog.isOpen}
@@ -5,16 +5,32 @@
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { HotelService } from "@/lib/api/hotels";
+import { ContentQualityService } from "@/lib/api/content-quality";
 import { useAuth } from "@/lib/contexts/auth-context";
 import type { FullHotelDetailsResponse } from "@/lib/types/full-hotel-details";
 import { Card } from "@/lib/components/ui/card";
 import { Button } from "@/lib/components/ui/button";
 import { Badge } from "@/lib/components/ui/badge";
+import { SupplierComparison } from "@/lib/components/hotels/supplier-comparison";
+import {
+  CONTENT_QUALITY_BANDS,
+  buildContentQualityInput,
+  getContentQualityBand,
+  scoreProviderContent,
+} from "@/lib/utils/content-quality";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import type { ContentQualityBand } from "@/lib/types/content-quality";
 import { Copy, Check, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
 
+const QUALITY_BAND_CLASSES: Record<ContentQualityBand, string> = {
+  good: "bg-green-100 text-green-800",
+  fair: "bg-yellow-100 text-yellow-800",
+  poor: "bg-red-100 text-red-800",
+};
+
 export default function HotelDetailsPage() {
   const params = useParams();
   const router = useRouter();
@@ -26,6 +42,8 @@ export default function HotelDetailsPage() {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<number>(0);
+  // Show suppliers side by side instead of one tab at a time
+  const [compareMode, setCompareMode] = useState<boolean>(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showAllFacilities, setShowAllFacilities] = useState<boolean>(false);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
@@ -36,6 +54,15 @@ export default function HotelDetailsPage() {
   >({});
   const currentProvider =
     hotelDetails?.provider_mappings?.[selectedProvider] || null;
+  // Content completeness per supplier, in provider_mappings order
+  const providerScores = useMemo(
+    () =>
+      hotelDetails?.provider_mappings?.map((provider) =>
+        scoreProviderContent(provider.full_details),
+      ) || [],
+    [hotelDetails],
+  );
+  const currentScore = providerScores[selectedProvider] || null;
 
   const getRetryPhotoSrc = (url: string, retryCount: number) => {
     if (retryCount <= 0) return url;
@@ -159,6 +186,33 @@ export default function HotelDetailsPage() {
     fetchHotelDetails();
   }, [ittid, user]);
 
+  // Record supplier scores for the providers dashboard. The route scores the
+  // backend's copy of the details; cached details were recorded when first
+  // fetched, and demo responses are trimmed.
+  useEffect(() => {
+    const isDemoUser =
+      user?.role !== "super_user" &&
+      user?.role !== "admin_user" &&
+      (!user?.pointBalance || user.pointBalance <= 0);
+    if (
+      !hotelDetails ||
+      isFromCache ||
+      isDemoUser ||
+      !hasPermission(user, Permission.VIEW_ALL_HOTELS)
+    ) {
+      return;
+    }
+
+    const input = buildContentQualityInput(hotelDetails);
+    if (!input) return;
+
+    ContentQualityService.recordScores(input.ittid).then((response) => {
+      if (!response.success) {
+        console.warn("⚠️ Unable to record content quality:", response.error?.message);
+      }
+    });
+  }, [hotelDetails, isFromCache]);
+
   useEffect(() => {
     const photos =
       currentProvider?.full_details?.hotel_photo
@@ -911,454 +965,533 @@ export default function HotelDetailsPage() {
         {hotelDetails.provider_mappings.length > 0 && (
           <Card className="mb-6" hover={false}>
             <div className="p-6">
-              <h2 className="text-xl font-bold text-gray-900 mb-4">
-                Provider Details
-              </h2>
-
-              {/* Provider Tabs */}
-              <div className="flex flex-wrap gap-2 mb-6 border-b-2 border-gray-200 pb-2">
-                {hotelDetails.provider_mappings.map((provider, index) => (
-                  <button
-                    key={index}
-                    onClick={() => {
-                      console.log(
-                        `🔄 Switching to provider: ${provider.provider_name} (index: ${index})`,
-                      );
-                      setSelectedProvider(index);
-                    }}
-                    className={`px-6 py-3 font-semibold transition-all duration-200 relative ${
-                      selectedProvider === index
-                        ? "bg-blue-600 text-white rounded-t-lg shadow-lg scale-105"
-                        : "bg-gray-100 text-gray-700 hover:bg-gray-200 hover:scale-102 rounded-lg"
-                    }`}
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <h2 className="text-xl font-bold text-gray-900">
+                  Provider Details
+                </h2>
+                {hotelDetails.provider_mappings.filter(
+                  (mapping) => mapping.full_details !== null,
+                ).length > 1 && (
+                  <Button
+                    variant={compareMode ? "primary" : "outline"}
+                    size="sm"
+                    onClick={() => setCompareMode((prev) => !prev)}
                   >
-                    {provider.provider_name}
-                    {selectedProvider === index && (
-                      <div className="absolute bottom-0 left-0 right-0 h-1 bg-blue-600"></div>
-                    )}
-                  </button>
-                ))}
+                    {compareMode ? "Single Supplier" : "Compare Suppliers"}
+                  </Button>
+                )}
               </div>
 
-              {/* Provider Content */}
-              {currentProvider && currentProvider.full_details && (
-                <div className="space-y-6">
-                  {/* Current Provider Header */}
-                  <div className="bg-blue-50 border-l-4 border-blue-600 p-4 rounded-r-lg">
-                    <div className="flex items-center gap-3">
-                      <svg
-                        className="h-6 w-6 text-blue-600"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+              {compareMode ? (
+                <SupplierComparison
+                  providers={hotelDetails.provider_mappings}
+                />
+              ) : (
+                <>
+                  {/* Provider Tabs */}
+                  <div className="flex flex-wrap gap-2 mb-6 border-b-2 border-gray-200 pb-2">
+                    {hotelDetails.provider_mappings.map((provider, index) => (
+                      <button
+                        key={index}
+                        onClick={() => {
+                          console.log(
+                            `🔄 Switching to provider: ${provider.provider_name} (index: ${index})`,
+                          );
+                          setSelectedProvider(index);
+                        }}
+                        className={`px-6 py-3 font-semibold transition-all duration-200 relative ${
+                          selectedProvider === index
+                            ? "bg-blue-600 text-white rounded-t-lg shadow-lg scale-105"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200 hover:scale-102 rounded-lg"
+                        }`}
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                        />
-                      </svg>
-                      <div>
-                        <p className="text-sm text-blue-600 font-medium">
-                          Currently Viewing-
-                        </p>
-                        <p className="text-lg font-bold text-blue-900">
-                          {currentProvider.provider_name} Details
-                        </p>
-                      </div>
-                    </div>
+                        {provider.provider_name}
+                        {providerScores[index] && (
+                          <span
+                            className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                              QUALITY_BAND_CLASSES[
+                                getContentQualityBand(providerScores[index].score)
+                              ]
+                            }`}
+                            title="Content quality score"
+                          >
+                            {providerScores[index].score}
+                          </span>
+                        )}
+                        {selectedProvider === index && (
+                          <div className="absolute bottom-0 left-0 right-0 h-1 bg-blue-600"></div>
+                        )}
+                      </button>
+                    ))}
                   </div>
 
-                  {/* Hotel Name */}
-                  <div className="rounded-xl border border-gray-200 bg-gray-50">
-                    <div className="flex items-center gap-4 p-4">
-                      {/* Icon Badge */}
-                      <div className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-100">
-                        <svg
-                          className="h-5 w-5 text-emerald-600"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M3 10h18M9 21V3m6 18V3"
-                          />
-                        </svg>
+                  {/* Provider Content */}
+                  {currentProvider && currentProvider.full_details && (
+                    <div className="space-y-6">
+                      {/* Current Provider Header */}
+                      <div className="bg-blue-50 border-l-4 border-blue-600 p-4 rounded-r-lg">
+                        <div className="flex items-center gap-3">
+                          <svg
+                            className="h-6 w-6 text-blue-600"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                            />
+                          </svg>
+                          <div>
+                            <p className="text-sm text-blue-600 font-medium">
+                              Currently Viewing-
+                            </p>
+                            <p className="text-lg font-bold text-blue-900">
+                              {currentProvider.provider_name} Details
+                            </p>
+                          </div>
+                        </div>
                       </div>
 
-                      <div>
-                        <p className="text-xs uppercase tracking-wide text-gray-500">
-                          Hotel Name
-                        </p>
-                        <p className="text-lg font-semibold text-gray-900">
-                          {currentProvider.full_details.name}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
+                      {/* Content Quality */}
+                      {currentScore && (
+                        <div className="rounded-xl border border-gray-200 p-4">
+                          <div className="flex flex-wrap items-center gap-3">
+                            <p className="text-sm font-medium text-gray-700">
+                              Content quality
+                            </p>
+                            <span
+                              className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                                QUALITY_BAND_CLASSES[
+                                  getContentQualityBand(currentScore.score)
+                                ]
+                              }`}
+                            >
+                              {currentScore.score}/100 ·{" "}
+                              {
+                                CONTENT_QUALITY_BANDS[
+                                  getContentQualityBand(currentScore.score)
+                                ].label
+                              }
+                            </span>
+                          </div>
+                          {currentScore.missing.length > 0 ? (
+                            <div className="flex flex-wrap items-center gap-2 mt-3">
+                              <span className="text-xs text-gray-500">
+                                Missing:
+                              </span>
+                              {currentScore.checks
+                                .filter((check) => !check.passed)
+                                .map((check) => (
+                                  <span
+                                    key={check.key}
+                                    className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700"
+                                  >
+                                    {check.label} (−{check.weight})
+                                  </span>
+                                ))}
+                            </div>
+                          ) : (
+                            <p className="text-xs text-gray-500 mt-2">
+                              Nothing missing.
+                            </p>
+                          )}
+                        </div>
+                      )}
 
-                  {/* Basic Info */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-gray-600">Provider ID</p>
-                      <p className="font-semibold text-gray-900">
-                        {currentProvider.provider_id}
-                      </p>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-gray-600">Property Type</p>
-                      <p className="font-semibold text-gray-900">
-                        {currentProvider.full_details.property_type}
-                      </p>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-gray-600">Star Rating</p>
-                      <p className="font-semibold text-gray-900">
-                        {currentProvider.full_details.star_rating} Stars
-                      </p>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-gray-600">Last Updated</p>
-                      <p className="font-semibold text-gray-900">
-                        {new Date(
-                          currentProvider.updated_at,
-                        ).toLocaleDateString()}
-                      </p>
-                    </div>
-                  </div>
+                      {/* Hotel Name */}
+                      <div className="rounded-xl border border-gray-200 bg-gray-50">
+                        <div className="flex items-center gap-4 p-4">
+                          {/* Icon Badge */}
+                          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-100">
+                            <svg
+                              className="h-5 w-5 text-emerald-600"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M3 10h18M9 21V3m6 18V3"
+                              />
+                            </svg>
+                          </div>
 
-                  {/* Description */}
-                  {currentProvider.full_details.descriptions &&
-                    currentProvider.full_details.descriptions.length > 0 && (
-                      <div>
-                        <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                          Description
-                        </h3>
-                        <div className="space-y-4">
-                          {currentProvider.full_details.descriptions.map(
-                            (desc, index) => (
-                              <div
-                                key={index}
-                                className="bg-gray-50 p-4 rounded-lg"
-                              >
-                                {desc.title && (
-                                  <h4 className="font-semibold text-gray-900 mb-2">
-                                    {desc.title}
-                                  </h4>
-                                )}
-                                <p className="text-gray-700 text-sm leading-relaxed">
-                                  {desc.text}
-                                </p>
-                              </div>
-                            ),
-                          )}
+                          <div>
+                            <p className="text-xs uppercase tracking-wide text-gray-500">
+                              Hotel Name
+                            </p>
+                            <p className="text-lg font-semibold text-gray-900">
+                              {currentProvider.full_details.name}
+                            </p>
+                          </div>
                         </div>
                       </div>
-                    )}
 
-                  {/* Contact Information */}
-                  {currentProvider.full_details.contacts && (
-                    <div>
-                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                        Contact Information
-                      </h3>
+                      {/* Basic Info */}
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {currentProvider.full_details.contacts.phone_numbers &&
-                          currentProvider.full_details.contacts.phone_numbers
-                            .length > 0 && (
-                            <div className="bg-gray-50 p-4 rounded-lg">
-                              <p className="text-sm text-gray-600 mb-2">
-                                Phone
-                              </p>
-                              {currentProvider.full_details.contacts.phone_numbers.map(
-                                (phone, index) => (
-                                  <p
-                                    key={index}
-                                    className="text-gray-900 font-medium"
-                                  >
-                                    {phone}
-                                  </p>
-                                ),
-                              )}
-                            </div>
-                          )}
-                        {currentProvider.full_details.contacts.email_address &&
-                          currentProvider.full_details.contacts.email_address
-                            .length > 0 && (
-                            <div className="bg-gray-50 p-4 rounded-lg">
-                              <p className="text-sm text-gray-600 mb-2">
-                                Email
-                              </p>
-                              {currentProvider.full_details.contacts.email_address.map(
-                                (email, index) => (
-                                  <p
+                        <div className="bg-gray-50 p-4 rounded-lg">
+                          <p className="text-sm text-gray-600">Provider ID</p>
+                          <p className="font-semibold text-gray-900">
+                            {currentProvider.provider_id}
+                          </p>
+                        </div>
+                        <div className="bg-gray-50 p-4 rounded-lg">
+                          <p className="text-sm text-gray-600">Property Type</p>
+                          <p className="font-semibold text-gray-900">
+                            {currentProvider.full_details.property_type}
+                          </p>
+                        </div>
+                        <div className="bg-gray-50 p-4 rounded-lg">
+                          <p className="text-sm text-gray-600">Star Rating</p>
+                          <p className="font-semibold text-gray-900">
+                            {currentProvider.full_details.star_rating} Stars
+                          </p>
+                        </div>
+                        <div className="bg-gray-50 p-4 rounded-lg">
+                          <p className="text-sm text-gray-600">Last Updated</p>
+                          <p className="font-semibold text-gray-900">
+                            {new Date(
+                              currentProvider.updated_at,
+                            ).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Description */}
+                      {currentProvider.full_details.descriptions &&
+                        currentProvider.full_details.descriptions.length > 0 && (
+                          <div>
+                            <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                              Description
+                            </h3>
+                            <div className="space-y-4">
+                              {currentProvider.full_details.descriptions.map(
+                                (desc, index) => (
+                                  <div
                                     key={index}
-                                    className="text-gray-900 font-medium"
+                                    className="bg-gray-50 p-4 rounded-lg"
                                   >
-                                    {email}
-                                  </p>
+                                    {desc.title && (
+                                      <h4 className="font-semibold text-gray-900 mb-2">
+                                        {desc.title}
+                                      </h4>
+                                    )}
+                                    <p className="text-gray-700 text-sm leading-relaxed">
+                                      {desc.text}
+                                    </p>
+                                  </div>
                                 ),
                               )}
                             </div>
-                          )}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Facilities */}
-                  {currentProvider.full_details.facilities &&
-                    currentProvider.full_details.facilities.length > 0 && (
-                      <div>
-                        <div className="flex items-center justify-between mb-3">
-                          <h3 className="text-lg font-semibold text-gray-900">
-                            Facilities & Amenities
-                          </h3>
-                          <Badge variant="secondary" size="sm">
-                            {currentProvider.full_details.facilities.length}{" "}
-                            Total
-                          </Badge>
-                        </div>
-                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-                          {(showAllFacilities
-                            ? currentProvider.full_details.facilities
-                            : currentProvider.full_details.facilities.slice(
-                                0,
-                                12,
-                              )
-                          ).map((facility, index) => (
-                            <div
-                              key={index}
-                              className="flex items-center gap-2 bg-gray-50 p-3 rounded-lg hover:bg-gray-100 transition-colors"
-                            >
-                              <svg
-                                className="h-5 w-5 text-blue-600 flex-shrink-0"
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
-                              >
-                                <path
-                                  strokeLinecap="round"
-                                  strokeLinejoin="round"
-                                  strokeWidth={2}
-                                  d="M5 13l4 4L19 7"
-                                />
-                              </svg>
-                              <span className="text-sm text-gray-900">
-                                {facility.title}
-                              </span>
-                            </div>
-                          ))}
-                        </div>
-                        {currentProvider.full_details.facilities.length >
-                          12 && (
-                          <div className="mt-4 text-center">
-                            <Button
-                              variant="outline"
-                              size="md"
-                              onClick={() =>
-                                setShowAllFacilities(!showAllFacilities)
-                              }
-                              className="flex items-center gap-2"
-                            >
-                              {showAllFacilities ? (
-                                <>
-                                  <ChevronUp className="w-4 h-4" />
-                                  Show Less
-                                </>
-                              ) : (
-                                <>
-                                  <ChevronDown className="w-4 h-4" />
-                                  See More (
-                                  {currentProvider.full_details.facilities
-                                    .length - 12}{" "}
-                                  more)
-                                </>
-                              )}
-                            </Button>
                           </div>
                         )}
-                      </div>
-                    )}
 
-                  {/* Hotel Photos with Scrolling */}
-                  {currentProvider.full_details.hotel_photo &&
-                    currentProvider.full_details.hotel_photo.length > 0 && (
-                      <div>
-                        <div className="flex items-center justify-between mb-3">
-                          <h3 className="text-lg font-semibold text-gray-900">
-                            Hotel Photos
+                      {/* Contact Information */}
+                      {currentProvider.full_details.contacts && (
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                            Contact Information
                           </h3>
-                          <div className="flex items-center gap-2 text-sm text-gray-500">
-                            <span className="font-medium">
-                              {currentProvider.full_details.hotel_photo.length}{" "}
-                              photos
-                            </span>
-                            {allPhotoUrls.length > 0 && (
-                              <>
-                                <span>•</span>
-                                <span className="text-xs">
-                                  Loaded {loadedPhotoCount}/
-                                  {allPhotoUrls.length}
-                                </span>
-                              </>
-                            )}
-                            {currentProvider.full_details.hotel_photo.length >
-                              12 && (
-                              <>
-                                <span>•</span>
-                                <svg
-                                  className="h-4 w-4"
-                                  fill="none"
-                                  stroke="currentColor"
-                                  viewBox="0 0 24 24"
-                                >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M19 9l-7 7-7-7"
-                                  />
-                                </svg>
-                                <span className="hidden sm:inline">
-                                  Scroll for more
-                                </span>
-                              </>
-                            )}
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {currentProvider.full_details.contacts.phone_numbers &&
+                              currentProvider.full_details.contacts.phone_numbers
+                                .length > 0 && (
+                                <div className="bg-gray-50 p-4 rounded-lg">
+                                  <p className="text-sm text-gray-600 mb-2">
+                                    Phone
+                                  </p>
+                                  {currentProvider.full_details.contacts.phone_numbers.map(
+                                    (phone, index) => (
+                                      <p
+                                        key={index}
+                                        className="text-gray-900 font-medium"
+                                      >
+                                        {phone}
+                                      </p>
+                                    ),
+                                  )}
+                                </div>
+                              )}
+                            {currentProvider.full_details.contacts.email_address &&
+                              currentProvider.full_details.contacts.email_address
+                                .length > 0 && (
+                                <div className="bg-gray-50 p-4 rounded-lg">
+                                  <p className="text-sm text-gray-600 mb-2">
+                                    Email
+                                  </p>
+                                  {currentProvider.full_details.contacts.email_address.map(
+                                    (email, index) => (
+                                      <p
+                                        key={index}
+                                        className="text-gray-900 font-medium"
+                                      >
+                                        {email}
+                                      </p>
+                                    ),
+                                  )}
+                                </div>
+                              )}
                           </div>
                         </div>
-                        <div className="relative">
-                          <div
-                            className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 max-h-[500px] overflow-y-auto pr-2"
-                            style={{
-                              scrollbarWidth: "thin",
-                              scrollbarColor: "#9ca3af #f3f4f6",
-                            }}
-                          >
-                            {currentProvider.full_details.hotel_photo.map(
-                              (photo, index) => {
-                                if (!photo.url) return null;
-                                const retryCount =
-                                  photoRetryCounts[photo.url] || 0;
-                                const photoSrc = getRetryPhotoSrc(
-                                  photo.url,
-                                  retryCount,
-                                );
-                                const isLoaded = loadedPhotos.has(photo.url);
-
-                                return (
-                                  <div
-                                    key={`${photo.url}-${index}`}
-                                    className="aspect-video bg-gray-200 rounded-lg overflow-hidden group cursor-pointer relative"
-                                    onClick={() =>
-                                      window.open(photo.url, "_blank")
-                                    }
+                      )}
+
+                      {/* Facilities */}
+                      {currentProvider.full_details.facilities &&
+                        currentProvider.full_details.facilities.length > 0 && (
+                          <div>
+                            <div className="flex items-center justify-between mb-3">
+                              <h3 className="text-lg font-semibold text-gray-900">
+                                Facilities & Amenities
+                              </h3>
+                              <Badge variant="secondary" size="sm">
+                                {currentProvider.full_details.facilities.length}{" "}
+                                Total
+                              </Badge>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+                              {(showAllFacilities
+                                ? currentProvider.full_details.facilities
+                                : currentProvider.full_details.facilities.slice(
+                                    0,
+                                    12,
+                                  )
+                              ).map((facility, index) => (
+                                <div
+                                  key={index}
+                                  className="flex items-center gap-2 bg-gray-50 p-3 rounded-lg hover:bg-gray-100 transition-colors"
+                                >
+                                  <svg
+                                    className="h-5 w-5 text-blue-600 flex-shrink-0"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
                                   >
-                                    <img
-                                      src={photoSrc}
-                                      alt={
-                                        photo.title ||
-                                        `Hotel photo ${index + 1}`
-                                      }
-                                      className={`w-full h-full object-cover group-hover:scale-110 transition-transform duration-300 ${
-                                        isLoaded ? "opacity-100" : "opacity-0"
-                                      }`}
-                                      loading="eager"
-                                      decoding="async"
-                                      onLoad={() =>
-                                        setLoadedPhotos((prev) => {
-                                          const next = new Set(prev);
-                                          next.add(photo.url);
-                                          return next;
-                                        })
-                                      }
-                                      onError={(e) => {
-                                        const currentRetry =
-                                          photoRetryCounts[photo.url] || 0;
-                                        if (currentRetry < 2) {
-                                          setPhotoRetryCounts((prev) => ({
-                                            ...prev,
-                                            [photo.url]: currentRetry + 1,
-                                          }));
-                                          return;
-                                        }
-                                        const target =
-                                          e.target as HTMLImageElement;
-                                        target.src =
-                                          "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300'%3E%3Crect fill='%23f3f4f6' width='400' height='300'/%3E%3Ctext fill='%239ca3af' font-family='sans-serif' font-size='18' x='50%25' y='50%25' text-anchor='middle' dominant-baseline='middle'%3EImage unavailable%3C/text%3E%3C/svg%3E";
-                                      }}
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M5 13l4 4L19 7"
                                     />
-                                    {!isLoaded && (
-                                      <div className="absolute inset-0 animate-pulse bg-gray-200" />
-                                    )}
-                                    {photo.title && (
-                                      <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white text-xs p-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        {photo.title}
-                                      </div>
-                                    )}
-                                  </div>
-                                );
-                              },
+                                  </svg>
+                                  <span className="text-sm text-gray-900">
+                                    {facility.title}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                            {currentProvider.full_details.facilities.length >
+                              12 && (
+                              <div className="mt-4 text-center">
+                                <Button
+                                  variant="outline"
+                                  size="md"
+                                  onClick={() =>
+                                    setShowAllFacilities(!showAllFacilities)
+                                  }
+                                  className="flex items-center gap-2"
+                                >
+                                  {showAllFacilities ? (
+                                    <>
+                                      <ChevronUp className="w-4 h-4" />
+                                      Show Less
+                                    </>
+                                  ) : (
+                                    <>
+                                      <ChevronDown className="w-4 h-4" />
+                                      See More (
+                                      {currentProvider.full_details.facilities
+                                        .length - 12}{" "}
+                                      more)
+                                    </>
+                                  )}
+                                </Button>
+                              </div>
                             )}
                           </div>
-                          {/* Fade indicator at bottom if there are many photos */}
-                          {currentProvider.full_details.hotel_photo.length >
-                            12 && (
-                            <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-white to-transparent pointer-events-none"></div>
-                          )}
-                        </div>
-                      </div>
-                    )}
+                        )}
 
-                  {/* Policies */}
-                  {currentProvider.full_details.policies && (
-                    <div>
-                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                        Policies
-                      </h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {currentProvider.full_details.policies.checkin && (
-                          <div className="bg-gray-50 p-4 rounded-lg">
-                            <h4 className="font-semibold text-gray-900 mb-2">
-                              Check-in
-                            </h4>
-                            <p className="text-sm text-gray-700">
-                              From:{" "}
-                              {
-                                currentProvider.full_details.policies.checkin
-                                  .begin_time
-                              }
-                            </p>
-                            <p className="text-sm text-gray-700">
-                              Until:{" "}
-                              {
-                                currentProvider.full_details.policies.checkin
-                                  .end_time
-                              }
-                            </p>
+                      {/* Hotel Photos with Scrolling */}
+                      {currentProvider.full_details.hotel_photo &&
+                        currentProvider.full_details.hotel_photo.length > 0 && (
+                          <div>
+                            <div className="flex items-center justify-between mb-3">
+                              <h3 className="text-lg font-semibold text-gray-900">
+                                Hotel Photos
+                              </h3>
+                              <div className="flex items-center gap-2 text-sm text-gray-500">
+                                <span className="font-medium">
+                                  {currentProvider.full_details.hotel_photo.length}{" "}
+                                  photos
+                                </span>
+                                {allPhotoUrls.length > 0 && (
+                                  <>
+                                    <span>•</span>
+                                    <span className="text-xs">
+                                      Loaded {loadedPhotoCount}/
+                                      {allPhotoUrls.length}
+                                    </span>
+                                  </>
+                                )}
+                                {currentProvider.full_details.hotel_photo.length >
+                                  12 && (
+                                  <>
+                                    <span>•</span>
+                                    <svg
+                                      className="h-4 w-4"
+                                      fill="none"
+                                      stroke="currentColor"
+                                      viewBox="0 0 24 24"
+                                    >
+                                      <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M19 9l-7 7-7-7"
+                                      />
+                                    </svg>
+                                    <span className="hidden sm:inline">
+                                      Scroll for more
+                                    </span>
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                            <div className="relative">
+                              <div
+                                className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 max-h-[500px] overflow-y-auto pr-2"
+                                style={{
+                                  scrollbarWidth: "thin",
+                                  scrollbarColor: "#9ca3af #f3f4f6",
+                                }}
+                              >
+                                {currentProvider.full_details.hotel_photo.map(
+                                  (photo, index) => {
+                                    if (!photo.url) return null;
+                                    const retryCount =
+                                      photoRetryCounts[photo.url] || 0;
+                                    const photoSrc = getRetryPhotoSrc(
+                                      photo.url,
+                                      retryCount,
+                                    );
+                                    const isLoaded = loadedPhotos.has(photo.url);
+
+                                    return (
+                                      <div
+                                        key={`${photo.url}-${index}`}
+                                        className="aspect-video bg-gray-200 rounded-lg overflow-hidden group cursor-pointer relative"
+                                        onClick={() =>
+                                          window.open(photo.url, "_blank")
+                                        }
+                                      >
+                                        <img
+                                          src={photoSrc}
+                                          alt={
+                                            photo.title ||
+                                            `Hotel photo ${index + 1}`
+                                          }
+                                          className={`w-full h-full object-cover group-hover:scale-110 transition-transform duration-300 ${
+                                            isLoaded ? "opacity-100" : "opacity-0"
+                                          }`}
+                                          loading="eager"
+                                          decoding="async"
+                                          onLoad={() =>
+                                            setLoadedPhotos((prev) => {
+                                              const next = new Set(prev);
+                                              next.add(photo.url);
+                                              return next;
+                                            })
+                                          }
+                                          onError={(e) => {
+                                            const currentRetry =
+                                              photoRetryCounts[photo.url] || 0;
+                                            if (currentRetry < 2) {
+                                              setPhotoRetryCounts((prev) => ({
+                                                ...prev,
+                                                [photo.url]: currentRetry + 1,
+                                              }));
+                                              return;
+                                            }
+                                            const target =
+                                              e.target as HTMLImageElement;
+                                            target.src =
+                                              "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300'%3E%3Crect fill='%23f3f4f6' width='400' height='300'/%3E%3Ctext fill='%239ca3af' font-family='sans-serif' font-size='18' x='50%25' y='50%25' text-anchor='middle' dominant-baseline='middle'%3EImage unavailable%3C/text%3E%3C/svg%3E";
+                                          }}
+                                        />
+                                        {!isLoaded && (
+                                          <div className="absolute inset-0 animate-pulse bg-gray-200" />
+                                        )}
+                                        {photo.title && (
+                                          <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white text-xs p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            {photo.title}
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  },
+                                )}
+                              </div>
+                              {/* Fade indicator at bottom if there are many photos */}
+                              {currentProvider.full_details.hotel_photo.length >
+                                12 && (
+                                <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-white to-transparent pointer-events-none"></div>
+                              )}
+                            </div>
                           </div>
                         )}
-                        {currentProvider.full_details.policies.checkout && (
-                          <div className="bg-gray-50 p-4 rounded-lg">
-                            <h4 className="font-semibold text-gray-900 mb-2">
-                              Check-out
-                            </h4>
-                            <p className="text-sm text-gray-700">
-                              Time:{" "}
-                              {
-                                currentProvider.full_details.policies.checkout
-                                  .time
-                              }
-                            </p>
+
+                      {/* Policies */}
+                      {currentProvider.full_details.policies && (
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                            Policies
+                          </h3>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {currentProvider.full_details.policies.checkin && (
+                              <div className="bg-gray-50 p-4 rounded-lg">
+                                <h4 className="font-semibold text-gray-900 mb-2">
+                                  Check-in
+                                </h4>
+                                <p className="text-sm text-gray-700">
+                                  From:{" "}
+                                  {
+                                    currentProvider.full_details.policies.checkin
+                                      .begin_time
+                                  }
+                                </p>
+                                <p className="text-sm text-gray-700">
+                                  Until:{" "}
+                                  {
+                                    currentProvider.full_details.policies.checkin
+                                      .end_time
+                                  }
+                                </p>
+                              </div>
+                            )}
+                            {currentProvider.full_details.policies.checkout && (
+                              <div className="bg-gray-50 p-4 rounded-lg">
+                                <h4 className="font-semibold text-gray-900 mb-2">
+                                  Check-out
+                                </h4>
+                                <p className="text-sm text-gray-700">
+                                  Time:{" "}
+                                  {
+                                    currentProvider.full_details.policies.checkout
+                                      .time
+                                  }
+                                </p>
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
+                        </div>
+                      )}
                     </div>
                   )}
-                </div>
+                </>
               )}
             </div>
           </Card>
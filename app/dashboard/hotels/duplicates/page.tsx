@@ -0,0 +1,629 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { HotelService } from "@/lib/api/hotels";
+import { HotelDuplicateService } from "@/lib/api/hotel-duplicates";
+import { ProviderUpdatesApi } from "@/lib/api/provider-updates";
+import { Button } from "@/lib/components/ui/button";
+import { Input } from "@/lib/components/ui/input";
+import { Select } from "@/lib/components/ui/select";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import {
+  DEFAULT_DUPLICATE_SEARCH,
+  DUPLICATE_DECISION_LABELS,
+  findDuplicateCandidates,
+  toDuplicateCandidateHotels,
+} from "@/lib/utils/hotel-duplicates";
+import type {
+  DuplicateCandidate,
+  DuplicateCandidateHotel,
+  DuplicateDecision,
+  DuplicateReview,
+} from "@/lib/types/hotel-duplicates";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Download,
+  Loader2,
+  Search,
+} from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+type QueueTab = "todo" | "unsure" | "reviewed" | "all";
+
+const TAB_LABELS: Record<QueueTab, string> = {
+  todo: "To review",
+  unsure: "Unsure",
+  reviewed: "Reviewed",
+  all: "All",
+};
+
+const DECISION_BUTTON_LABELS: Record<DuplicateDecision, string> = {
+  same: "Same",
+  different: "Different",
+  unsure: "Unsure",
+};
+
+const DECISION_STYLES: Record<DuplicateDecision, string> = {
+  same: "bg-green-100 text-green-800",
+  different: "bg-gray-100 text-gray-800",
+  unsure: "bg-yellow-100 text-yellow-800",
+};
+
+function confidenceStyle(confidence: number): string {
+  if (confidence >= 0.85) return "bg-red-100 text-red-800";
+  if (confidence >= 0.7) return "bg-orange-100 text-orange-800";
+  return "bg-yellow-100 text-yellow-800";
+}
+
+function describeDistance(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m apart` : `${distanceKm.toFixed(1)} km apart`;
+}
+
+function HotelColumn({ hotel, other }: { hotel: DuplicateCandidateHotel; other: DuplicateCandidateHotel }) {
+  // Fields that differ from the other hotel are highlighted
+  const differs = (a?: string | number, b?: string | number) =>
+    a !== undefined && b !== undefined && String(a).toLowerCase() !== String(b).toLowerCase();
+
+  const rows: { label: string; value?: string | number; highlight?: boolean }[] = [
+    { label: "Address", value: hotel.address, highlight: differs(hotel.address, other.address) },
+    {
+      label: "Coordinates",
+      value:
+        hotel.latitude !== undefined && hotel.longitude !== undefined
+          ? `${hotel.latitude}, ${hotel.longitude}`
+          : undefined,
+    },
+    { label: "Type", value: hotel.propertyType, highlight: differs(hotel.propertyType, other.propertyType) },
+    { label: "Stars", value: hotel.starRating, highlight: differs(hotel.starRating, other.starRating) },
+    { label: "Suppliers", value: hotel.suppliers.join(", ") },
+    { label: "GIATA", value: hotel.giataCodes.join(", ") || undefined },
+    { label: "Vervotech", value: hotel.vervotechIds.join(", ") || undefined },
+  ];
+
+  return (
+    <div className="flex-1 min-w-0 p-4">
+      <div className="flex gap-3 mb-3">
+        {hotel.photo ? (
+          <img src={hotel.photo} alt="" className="w-16 h-16 rounded object-cover shrink-0 bg-gray-100" />
+        ) : (
+          <div className="w-16 h-16 rounded bg-[rgb(var(--bg-secondary))] shrink-0" />
+        )}
+        <div className="min-w-0">
+          <p className="font-semibold text-[rgb(var(--text-primary))] break-words">{hotel.name}</p>
+          <Link
+            href={`/dashboard/hotels/details/${hotel.ittid}`}
+            className="text-xs font-mono text-primary-color hover:underline"
+          >
+            {hotel.ittid}
+          </Link>
+        </div>
+      </div>
+      <dl className="grid grid-cols-[6rem_1fr] gap-x-2 gap-y-1 text-xs">
+        {rows.map((row) => (
+          <React.Fragment key={row.label}>
+            <dt className="text-[rgb(var(--text-tertiary))]">{row.label}</dt>
+            <dd
+              className={`break-words ${
+                row.highlight ? "text-orange-700 font-medium" : "text-[rgb(var(--text-secondary))]"
+              }`}
+            >
+              {row.value ?? "—"}
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export default function HotelDuplicatesPage() {
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user } = useAuth();
+
+  const [suppliers, setSuppliers] = useState<string[]>([]);
+  const [selectedSuppliers, setSelectedSuppliers] = useState<string[]>([]);
+  const [countryCode, setCountryCode] = useState("");
+  const [minConfidence, setMinConfidence] = useState(String(DEFAULT_DUPLICATE_SEARCH.minConfidence));
+  const [maxDistanceKm, setMaxDistanceKm] = useState(String(DEFAULT_DUPLICATE_SEARCH.maxDistanceKm));
+
+  const [searchedCountry, setSearchedCountry] = useState("");
+  const [candidates, setCandidates] = useState<DuplicateCandidate[] | null>(null);
+  const [hotelCount, setHotelCount] = useState(0);
+  const [reviews, setReviews] = useState<Record<string, DuplicateReview>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [tab, setTab] = useState<QueueTab>("todo");
+  const [page, setPage] = useState(1);
+
+  const [progress, setProgress] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<"csv" | "json" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReview = hasPermission(user, Permission.EDIT_HOTELS);
+
+  useEffect(() => {
+    if (!isAuthenticated || !canReview) return;
+
+    HotelService.checkActiveMySupplier().then((response) => {
+      if (response.success && response.data) {
+        setSuppliers(response.data.on_supplier_list);
+        setSelectedSuppliers(response.data.on_supplier_list);
+      }
+    });
+  }, [isAuthenticated, canReview]);
+
+  const toggleSupplier = (supplier: string) => {
+    setSelectedSuppliers((prev) =>
+      prev.includes(supplier) ? prev.filter((s) => s !== supplier) : [...prev, supplier],
+    );
+  };
+
+  const handleFind = async () => {
+    const country = countryCode.trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(country)) {
+      setError("Enter a two-letter country code");
+      return;
+    }
+    if (selectedSuppliers.length === 0) {
+      setError("Select at least one supplier");
+      return;
+    }
+
+    setError(null);
+    setCandidates(null);
+
+    try {
+      // One supplier at a time to keep memory and backend load down
+      const results: Parameters<typeof toDuplicateCandidateHotels>[0] = [];
+      for (const [index, supplier] of selectedSuppliers.entries()) {
+        setProgress(`Loading ${supplier} (${index + 1} of ${selectedSuppliers.length})...`);
+        const response = await ProviderUpdatesApi.getBasicInfoByCountry({
+          supplier,
+          country_iso: country,
+        });
+        if (response.success && response.data) {
+          results.push({ supplier, rows: response.data.data || [] });
+        }
+      }
+
+      setProgress("Comparing hotels...");
+      const hotels = toDuplicateCandidateHotels(results);
+      const found = findDuplicateCandidates(hotels, {
+        minConfidence: Number(minConfidence),
+        maxDistanceKm: Number(maxDistanceKm),
+      });
+      const reviewsResponse = await HotelDuplicateService.getReviews(country);
+      if (!reviewsResponse.success || !reviewsResponse.data) {
+        setError(reviewsResponse.error?.message || "Failed to load saved decisions");
+        return;
+      }
+      const saved = reviewsResponse.data;
+
+      setReviews(Object.fromEntries(saved.map((review) => [review.key, review])));
+      setNotes(Object.fromEntries(saved.map((review) => [review.key, review.note])));
+      setHotelCount(hotels.length);
+      setCandidates(found);
+      setSearchedCountry(country);
+      setTab("todo");
+      setPage(1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to find duplicates");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDecision = async (candidate: DuplicateCandidate, decision: DuplicateDecision) => {
+    setSavingKey(candidate.key);
+    setError(null);
+    const response = await HotelDuplicateService.saveReview({
+      ittidA: candidate.a.ittid,
+      ittidB: candidate.b.ittid,
+      nameA: candidate.a.name,
+      nameB: candidate.b.name,
+      countryCode: searchedCountry,
+      confidence: candidate.confidence,
+      decision,
+      note: notes[candidate.key],
+    });
+
+    if (response.success && response.data) {
+      const review = response.data;
+      setReviews((prev) => ({ ...prev, [review.key]: review }));
+    } else {
+      setError(response.error?.message || "Failed to save decision");
+    }
+    setSavingKey(null);
+  };
+
+  const handleReset = async (candidate: DuplicateCandidate) => {
+    setSavingKey(candidate.key);
+    setError(null);
+    const response = await HotelDuplicateService.clearReview(candidate.a.ittid, candidate.b.ittid);
+
+    if (response.success) {
+      setReviews((prev) => {
+        const { [candidate.key]: _removed, ...rest } = prev;
+        return rest;
+      });
+    } else {
+      setError(response.error?.message || "Failed to reset decision");
+    }
+    setSavingKey(null);
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    setExporting(format);
+    setError(null);
+    const response = await HotelDuplicateService.exportReviews(format, {
+      countryCode: searchedCountry || undefined,
+    });
+
+    if (response.success && response.data) {
+      const url = window.URL.createObjectURL(response.data);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `duplicate-reviews-${new Date().toISOString().split("T")[0]}.${format}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } else {
+      setError(response.error?.message || "Failed to export decisions");
+    }
+    setExporting(null);
+  };
+
+  const counts = useMemo(() => {
+    const list = candidates ?? [];
+    return {
+      todo: list.filter((c) => !reviews[c.key]).length,
+      unsure: list.filter((c) => reviews[c.key]?.decision === "unsure").length,
+      reviewed: list.filter((c) => reviews[c.key]).length,
+      all: list.length,
+    };
+  }, [candidates, reviews]);
+
+  const visible = useMemo(
+    () =>
+      (candidates ?? []).filter((candidate) => {
+        const review = reviews[candidate.key];
+        if (tab === "todo") return !review;
+        if (tab === "unsure") return review?.decision === "unsure";
+        if (tab === "reviewed") return !!review;
+        return true;
+      }),
+    [candidates, reviews, tab],
+  );
+
+  const totalPages = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageItems = visible.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-color" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !canReview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Access Denied
+          </h1>
+          <p className="text-[rgb(var(--text-secondary))]">
+            You need permission to edit hotels to review duplicates.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary-color rounded-lg">
+            <Copy className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-[rgb(var(--text-primary))]">
+              Duplicate Review
+            </h1>
+            <p className="text-[rgb(var(--text-secondary))]">
+              ITTIDs that likely describe the same property
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleExport("json")}
+            loading={exporting === "json"}
+            leftIcon={<Download className="w-4 h-4" />}
+          >
+            Export JSON
+          </Button>
+          <Button
+            onClick={() => handleExport("csv")}
+            loading={exporting === "csv"}
+            leftIcon={<Download className="w-4 h-4" />}
+          >
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <Input
+            label="Country Code"
+            value={countryCode}
+            onChange={(e) => setCountryCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleFind()}
+            placeholder="e.g. ES"
+            maxLength={2}
+          />
+          <Select
+            label="Minimum Confidence"
+            options={[0.5, 0.6, 0.7, 0.8, 0.9].map((value) => ({
+              value: String(value),
+              label: `${Math.round(value * 100)}%`,
+            }))}
+            value={minConfidence}
+            onChange={(e) => setMinConfidence(e.target.value)}
+          />
+          <Select
+            label="Compare Hotels Within"
+            options={[0.2, 0.5, 1, 2].map((value) => ({
+              value: String(value),
+              label: value < 1 ? `${value * 1000} m` : `${value} km`,
+            }))}
+            value={maxDistanceKm}
+            onChange={(e) => setMaxDistanceKm(e.target.value)}
+          />
+          <Button
+            onClick={handleFind}
+            loading={!!progress}
+            leftIcon={<Search className="w-4 h-4" />}
+          >
+            Find Duplicates
+          </Button>
+        </div>
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-[rgb(var(--text-primary))]">
+              Suppliers ({selectedSuppliers.length} of {suppliers.length})
+            </span>
+            <div className="flex gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => setSelectedSuppliers(suppliers)}
+                className="text-primary-color hover:underline"
+              >
+                Select all
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedSuppliers([])}
+                className="text-[rgb(var(--text-secondary))] hover:underline"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {suppliers.map((supplier) => (
+              <button
+                key={supplier}
+                type="button"
+                onClick={() => toggleSupplier(supplier)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  selectedSuppliers.includes(supplier)
+                    ? "bg-primary-color text-white border-transparent"
+                    : "bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-secondary))] border-[rgb(var(--border-primary))]"
+                }`}
+              >
+                {supplier}
+              </button>
+            ))}
+          </div>
+        </div>
+        {progress && (
+          <p className="mt-3 text-sm text-[rgb(var(--text-secondary))]">{progress}</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {candidates && (
+        <>
+          {/* Queue tabs */}
+          <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex gap-1 bg-[rgb(var(--bg-secondary))] p-1 rounded-lg w-fit">
+              {(Object.keys(TAB_LABELS) as QueueTab[]).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => {
+                    setTab(key);
+                    setPage(1);
+                  }}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    tab === key
+                      ? "bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))] shadow-sm"
+                      : "text-[rgb(var(--text-secondary))]"
+                  }`}
+                >
+                  {TAB_LABELS[key]} ({counts[key]})
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-[rgb(var(--text-secondary))]">
+              {candidates.length} likely duplicate pair{candidates.length !== 1 ? "s" : ""} among{" "}
+              {hotelCount.toLocaleString()} hotels in {searchedCountry}
+            </p>
+          </div>
+
+          {pageItems.length === 0 && (
+            <div className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))] px-4 py-12 text-center text-[rgb(var(--text-secondary))]">
+              {candidates.length === 0
+                ? "No likely duplicates found. Try a lower minimum confidence."
+                : "Nothing in this list."}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {pageItems.map((candidate) => {
+              const review = reviews[candidate.key];
+              const saving = savingKey === candidate.key;
+
+              return (
+                <div
+                  key={candidate.key}
+                  className="bg-[rgb(var(--bg-primary))] rounded-lg border border-[rgb(var(--border-primary))]"
+                >
+                  {/* Why this pair */}
+                  <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-[rgb(var(--border-primary))]">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${confidenceStyle(
+                        candidate.confidence,
+                      )}`}
+                    >
+                      {Math.round(candidate.confidence * 100)}% confidence
+                    </span>
+                    <span className="text-xs text-[rgb(var(--text-secondary))]">
+                      Names {Math.round(candidate.nameSimilarity * 100)}% similar
+                    </span>
+                    {candidate.distanceKm !== null && (
+                      <span className="text-xs text-[rgb(var(--text-secondary))]">
+                        · {describeDistance(candidate.distanceKm)}
+                      </span>
+                    )}
+                    {candidate.sharedGiataCodes.length > 0 && (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                        Same GIATA {candidate.sharedGiataCodes.join(", ")}
+                      </span>
+                    )}
+                    {candidate.sharedVervotechIds.length > 0 && (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                        Same Vervotech {candidate.sharedVervotechIds.join(", ")}
+                      </span>
+                    )}
+                    {candidate.conflictingCodes && (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                        Different codes
+                      </span>
+                    )}
+                    {review && (
+                      <span
+                        className={`ml-auto inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          DECISION_STYLES[review.decision]
+                        }`}
+                        title={`${review.reviewedBy}, ${new Date(review.reviewedAt).toLocaleString()}`}
+                      >
+                        {DUPLICATE_DECISION_LABELS[review.decision]}
+                      </span>
+                    )}
+                  </div>
+
+                  {/* Side by side */}
+                  <div className="flex flex-col md:flex-row md:divide-x divide-[rgb(var(--border-primary))]">
+                    <HotelColumn hotel={candidate.a} other={candidate.b} />
+                    <HotelColumn hotel={candidate.b} other={candidate.a} />
+                  </div>
+
+                  {/* Decision */}
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2 px-4 py-3 border-t border-[rgb(var(--border-primary))]">
+                    <input
+                      type="text"
+                      value={notes[candidate.key] ?? ""}
+                      onChange={(e) =>
+                        setNotes((prev) => ({ ...prev, [candidate.key]: e.target.value }))
+                      }
+                      placeholder="Note (optional)"
+                      maxLength={500}
+                      className="flex-1 px-3 py-1.5 text-sm rounded-md border border-[rgb(var(--border-primary))] bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))]"
+                    />
+                    <div className="flex gap-2">
+                      {(Object.keys(DUPLICATE_DECISION_LABELS) as DuplicateDecision[]).map(
+                        (decision) => (
+                          <Button
+                            key={decision}
+                            size="sm"
+                            variant={review?.decision === decision ? "primary" : "outline"}
+                            disabled={saving}
+                            onClick={() => handleDecision(candidate, decision)}
+                          >
+                            {DECISION_BUTTON_LABELS[decision]}
+                          </Button>
+                        ),
+                      )}
+                      {review && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={saving}
+                          onClick={() => handleReset(candidate)}
+                        >
+                          Reset
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Pagination */}
+          {visible.length > PAGE_SIZE && (
+            <div className="mt-4 flex items-center justify-between text-sm text-[rgb(var(--text-secondary))]">
+              <span>
+                {(currentPage - 1) * PAGE_SIZE + 1}–{Math.min(currentPage * PAGE_SIZE, visible.length)} of{" "}
+                {visible.length}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                  leftIcon={<ChevronLeft className="w-4 h-4" />}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                  rightIcon={<ChevronRight className="w-4 h-4" />}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
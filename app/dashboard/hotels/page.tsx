@@ -24,6 +24,7 @@ import { CacheClearButton } from "@/lib/components/ui/cache-clear-button";
 import { HotelSearchCompact } from "@/lib/components/hotels/hotel-search-compact";
 import { HotelDetailsModal } from "@/lib/components/hotel-details-modal/HotelDetailsModal";
 import { HotelAutocompleteSearch } from "@/lib/components/hotels/hotel-autocomplete-search";
+import { HotelAreaSearch } from "@/lib/components/hotels/hotel-area-search";
 
 import { useAuth } from "@/lib/contexts/auth-context";
 import { HotelService } from "@/lib/api/hotels";
@@ -93,6 +94,11 @@ export default function HotelsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedHotelIttid, setSelectedHotelIttid] = useState<string>("");
   const [selectedHotelName, setSelectedHotelName] = useState<string>("");
+
+  // Location search: near a chosen hotel, or inside a drawn area
+  const [locationSearchMode, setLocationSearchMode] = useState<
+    "hotel" | "area"
+  >("hotel");
   const triggerButtonRef = useRef<HTMLElement>(null);
 
   const handleHotelSelect = (hotel: Hotel) => {
@@ -560,10 +566,30 @@ export default function HotelsPage() {
           </Card>
         </div>
 
-        {/* Hotel Autocomplete Search */}
+        {/* Hotel Location Search */}
         <Card className="mb-8" hover={false}>
           <CardContent className="p-6">
-            <HotelAutocompleteSearch />
+            <div className="flex border border-gray-300 rounded-lg overflow-hidden w-fit mb-6">
+              {(["hotel", "area"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setLocationSearchMode(mode)}
+                  className={`px-4 py-2 text-sm font-medium transition-colors ${
+                    locationSearchMode === mode
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {mode === "hotel" ? "Near a hotel" : "Inside an area"}
+                </button>
+              ))}
+            </div>
+            {locationSearchMode === "hotel" ? (
+              <HotelAutocompleteSearch />
+            ) : (
+              <HotelAreaSearch />
+            )}
           </CardContent>
         </Card>
 
@@ -1,18 +1,26 @@
 /**
  * Hotel Search Results Page
- * Displays nearby hotels based on location search
+ * Displays nearby hotels based on location search, or hotels inside a
+ * drawn area (the `area` parameter, see lib/utils/geo-area.ts)
  */
 
 "use client";
 
-import React, { useState, useEffect, Suspense } from "react";
+import React, { useState, useEffect, useMemo, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { HotelService } from "@/lib/api/hotels";
 import type { LocationSearchResult } from "@/lib/types/hotel";
+import { HotelResultsMap } from "@/lib/components/hotels/hotel-results-map";
 import { Card } from "@/lib/components/ui/card";
 import { Button } from "@/lib/components/ui/button";
 import { Badge } from "@/lib/components/ui/badge";
-import { Copy, Check } from "lucide-react";
+import { Copy, Check, Link2 } from "lucide-react";
+import {
+  getAreaPolygon,
+  getAreaSearchCircle,
+  isPointInArea,
+  parseSearchArea,
+} from "@/lib/utils/geo-area";
 
 function SearchResultsContent() {
   const searchParams = useSearchParams();
@@ -22,20 +30,42 @@ function SearchResultsContent() {
     useState<LocationSearchResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<"grid" | "list">("list");
+  const [viewMode, setViewMode] = useState<"grid" | "list" | "map">(
+    "list",
+  );
   const [searchTime, setSearchTime] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const itemsPerPage = 100;
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   const [selectedSupplierFilter, setSelectedSupplierFilter] =
     useState<string>("all");
 
   // Get search parameters
   const hotelName = searchParams.get("hotel");
-  const latitude = searchParams.get("lat");
-  const longitude = searchParams.get("lng");
   const countryCode = searchParams.get("country");
   const suppliersParam = searchParams.get("suppliers");
+  // Polygon or bounding box, with an optional display name
+  const areaParam = searchParams.get("area");
+  const areaName = searchParams.get("name");
+
+  const searchArea = useMemo(() => parseSearchArea(areaParam), [areaParam]);
+  const areaCircle = useMemo(
+    () => (searchArea ? getAreaSearchCircle(searchArea) : null),
+    [searchArea],
+  );
+
+  // Area searches query the circle around the area, then keep hotels inside it
+  const latitude = areaCircle
+    ? String(areaCircle.center.lat)
+    : searchParams.get("lat");
+  const longitude = areaCircle
+    ? String(areaCircle.center.lng)
+    : searchParams.get("lng");
+  // Search radius in km
+  const radius = areaCircle
+    ? String(areaCircle.radiusKm)
+    : searchParams.get("radius") || "10";
 
   // Parse suppliers from URL parameter
   const selectedSuppliers = suppliersParam
@@ -66,6 +96,12 @@ function SearchResultsContent() {
 
   useEffect(() => {
     const fetchResults = async () => {
+      if (areaParam && !searchArea) {
+        setError("The search area in the link is invalid");
+        setIsLoading(false);
+        return;
+      }
+
       if (!latitude || !longitude || !countryCode) {
         setError("Missing search parameters");
         setIsLoading(false);
@@ -81,7 +117,7 @@ function SearchResultsContent() {
         const response = await HotelService.searchHotelsByLocation({
           lat: latitude,
           lon: longitude,
-          radius: "10",
+          radius,
           supplier: selectedSuppliers,
           country_code: countryCode,
         });
@@ -91,7 +127,17 @@ function SearchResultsContent() {
         setSearchTime(parseFloat(timeTaken));
 
         if (response.success && response.data) {
-          setLocationResults(response.data);
+          if (searchArea) {
+            const hotels = response.data.hotels.filter((hotel) =>
+              isPointInArea(
+                { lat: hotel.latitude, lng: hotel.longitude },
+                searchArea,
+              ),
+            );
+            setLocationResults({ totalHotels: hotels.length, hotels });
+          } else {
+            setLocationResults(response.data);
+          }
         } else {
           setError(
             response.error?.message || "Failed to search hotels by location",
@@ -105,7 +151,7 @@ function SearchResultsContent() {
     };
 
     fetchResults();
-  }, [latitude, longitude, countryCode, suppliersParam]);
+  }, [latitude, longitude, countryCode, suppliersParam, radius, areaParam]);
 
   if (isLoading) {
     return (
@@ -260,6 +306,16 @@ function SearchResultsContent() {
     }
   };
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy search link:", err);
+    }
+  };
+
   const handleViewDetails = (hotelName: string, ittid: string) => {
     console.log("🔍 View Details clicked for:", { hotelName, ittid });
     console.log("🔄 Navigating to hotel details with ittid:", ittid);
@@ -296,7 +352,11 @@ function SearchResultsContent() {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
               <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
-                {hotelName ? `Hotels near ${hotelName}` : "Search Results"}
+                {searchArea
+                  ? `Hotels in ${areaName || "selected area"}`
+                  : hotelName
+                    ? `Hotels near ${hotelName}`
+                    : "Search Results"}
               </h1>
               <div className="flex flex-wrap items-center gap-3 mt-2">
                 <p className="text-sm text-gray-600 flex items-center gap-1.5">
@@ -318,7 +378,7 @@ function SearchResultsContent() {
                   </span>{" "}
                   hotel{filteredHotels.length !== 1 ? "s" : ""}
                   {selectedSupplierFilter !== "all" ? " (filtered)" : " found"}
-                  {totalPages > 1 && (
+                  {totalPages > 1 && viewMode !== "map" && (
                     <span className="text-gray-500">
                       {" "}
                       (Page {currentPage} of {totalPages})
@@ -375,6 +435,15 @@ function SearchResultsContent() {
 
             {/* View toggle and Filter */}
             <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                {linkCopied ? (
+                  <Check className="h-4 w-4 mr-2 text-green-600" />
+                ) : (
+                  <Link2 className="h-4 w-4 mr-2" />
+                )}
+                {linkCopied ? "Copied" : "Copy Link"}
+              </Button>
+
               {/* Supplier Filter */}
               <div className="flex items-center gap-2">
                 <label
@@ -455,11 +524,50 @@ function SearchResultsContent() {
                     />
                   </svg>
                 </button>
+                <button
+                  onClick={() => setViewMode("map")}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                    viewMode === "map"
+                      ? "bg-white text-gray-900 shadow-sm"
+                      : "text-gray-600 hover:text-gray-900"
+                  }`}
+                  aria-label="Map view"
+                >
+                  <svg
+                    className="h-5 w-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"
+                    />
+                  </svg>
+                </button>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Map view: every filtered hotel, clustered, so no pagination */}
+        {viewMode === "map" && (
+          <HotelResultsMap
+            hotels={filteredHotels}
+            center={{
+              lat: parseFloat(latitude || "0"),
+              lng: parseFloat(longitude || "0"),
+            }}
+            radiusKm={parseFloat(radius) || 10}
+            area={searchArea ? getAreaPolygon(searchArea) : undefined}
+            onSelectHotel={(hotel) =>
+              hotel.ittid && handleViewDetails(hotel.name, hotel.ittid)
+            }
+          />
+        )}
+
         {/* List view */}
         {viewMode === "list" && (
           <div className="space-y-4">
@@ -907,7 +1015,7 @@ function SearchResultsContent() {
         )}
 
         {/* Pagination */}
-        {totalPages > 1 && (
+        {totalPages > 1 && viewMode !== "map" && (
           <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
             {/* Results info */}
             <div className="text-sm text-gray-600">
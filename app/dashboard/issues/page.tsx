@@ -5,27 +5,80 @@
 
 "use client";
 
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { IssueForm } from "@/lib/components/issues/issue-form";
 import { IssueList } from "@/lib/components/issues/issue-list";
 import { IssueFilters, IssueFilterOptions } from "@/lib/components/issues/issue-filters";
 import { IssueStats } from "@/lib/components/issues/issue-stats";
 import { ExportIssues } from "@/lib/components/issues/export-issues";
+import { IssueTriageQueue } from "@/lib/components/issues/issue-triage-queue";
 import { WhatsAppButton, WhatsAppFloatingButton } from "@/lib/components/issues/whatsapp-button";
 import { Card } from "@/lib/components/ui/card";
-import type { Issue, CreateIssueInput } from "@/lib/types/issue";
-import { MessageCircle, BarChart3 } from "lucide-react";
+import { IssueService } from "@/lib/api/issues";
+import { LEGACY_ISSUES_STORAGE_KEY } from "@/lib/utils/issues";
+import { hasPermission, Permission } from "@/lib/utils/rbac";
+import type { ApiResponse } from "@/lib/types/api";
+import type { Issue, CreateIssueInput, UpdateIssueInput } from "@/lib/types/issue";
+import { MessageCircle, BarChart3, ClipboardList } from "lucide-react";
 
-// LocalStorage key for issues
-const ISSUES_STORAGE_KEY = "user_issues";
+type TabType = "issues" | "triage" | "statistics";
 
-type TabType = "issues" | "statistics";
+/**
+ * Upload this user's issues saved in the browser by older versions of this page,
+ * then forget them. Other users' issues stay until they open the page.
+ */
+async function migrateLegacyIssues(userId: string) {
+  const stored = localStorage.getItem(LEGACY_ISSUES_STORAGE_KEY);
+  if (!stored) return;
+
+  try {
+    const parsed = JSON.parse(stored);
+    const legacyIssues: any[] = Array.isArray(parsed) ? parsed : [];
+    const own = legacyIssues.filter((issue) => issue?.userId === userId);
+    const others = legacyIssues.filter((issue) => issue?.userId !== userId);
+
+    if (own.length > 0) {
+      const response = await IssueService.importLegacyIssues(own);
+      if (!response.success || !response.data) {
+        // Keep them in the browser and try again next time
+        console.warn("⚠️ Failed to migrate browser-saved issues:", response.error?.message);
+        return;
+      }
+      console.log(
+        `✅ Moved ${response.data.imported} browser-saved issues to the server (${response.data.skipped} already there)`
+      );
+    }
+
+    if (others.length > 0) {
+      localStorage.setItem(LEGACY_ISSUES_STORAGE_KEY, JSON.stringify(others));
+    } else {
+      localStorage.removeItem(LEGACY_ISSUES_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("⚠️ Failed to migrate browser-saved issues:", error);
+  }
+}
+
+/**
+ * The issue from a service response. The form, triage queue and timeline show
+ * a rejected promise's message, so failures are rethrown for them.
+ */
+function unwrapIssue(response: ApiResponse<Issue>): Issue {
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message || "Request failed");
+  }
+  return response.data;
+}
 
 export default function IssuesPage() {
   const { user } = useAuth();
+  const canTriage = hasPermission(user, Permission.VIEW_ALL_USERS);
   const [issues, setIssues] = useState<Issue[]>([]);
+  const [allIssues, setAllIssues] = useState<Issue[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isTriageLoading, setIsTriageLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>("issues");
 
@@ -37,95 +90,111 @@ export default function IssuesPage() {
     category: "all",
   });
 
-  // Load issues from localStorage on mount
+  // Load the current user's issues from the server
   useEffect(() => {
-    const loadIssues = () => {
-      try {
-        const stored = localStorage.getItem(ISSUES_STORAGE_KEY);
-        if (stored) {
-          const parsedIssues = JSON.parse(stored);
-          const issuesWithDates = parsedIssues.map((issue: any) => ({
-            ...issue,
-            createdAt: new Date(issue.createdAt),
-            updatedAt: new Date(issue.updatedAt),
-            respondedAt: issue.respondedAt ? new Date(issue.respondedAt) : undefined,
-          }));
-
-          const userIssues = user
-            ? issuesWithDates.filter((i: Issue) => i.userId === user.id)
-            : issuesWithDates;
-
-          setIssues(userIssues);
-        }
-      } catch (error) {
-        console.error("Failed to load issues:", error);
-      } finally {
-        setIsLoading(false);
+    if (!user) return;
+
+    const loadIssues = async () => {
+      setIsLoading(true);
+      setPageError(null);
+
+      await migrateLegacyIssues(user.id);
+      const response = await IssueService.getMyIssues();
+
+      if (response.success && response.data) {
+        setIssues(response.data);
+      } else {
+        console.error("Failed to load issues:", response.error);
+        setPageError(response.error?.message || "Failed to load issues");
       }
+      setIsLoading(false);
     };
 
     loadIssues();
   }, [user]);
 
-  // Filter issues based on current filters
-  const filteredIssues = useMemo(() => {
-    return issues.filter((issue) => {
-      // Search term
-      if (filters.searchTerm) {
-        const searchLower = filters.searchTerm.toLowerCase();
-        const matchesSearch =
-          issue.title.toLowerCase().includes(searchLower) ||
-          issue.description.toLowerCase().includes(searchLower);
-        if (!matchesSearch) return false;
-      }
+  // Load the triage queue when an admin opens it
+  useEffect(() => {
+    if (!canTriage || activeTab !== "triage") return;
 
-      // Status filter
-      if (filters.status !== "all" && issue.status !== filters.status) {
-        return false;
-      }
+    const loadTriageQueue = async () => {
+      setIsTriageLoading(true);
+      setPageError(null);
 
-      // Priority filter
-      if (filters.priority !== "all" && issue.priority !== filters.priority) {
-        return false;
-      }
+      const response = await IssueService.getAllIssues();
 
-      // Category filter
-      if (filters.category !== "all" && issue.category !== filters.category) {
-        return false;
+      if (response.success && response.data) {
+        setAllIssues(response.data);
+      } else {
+        console.error("Failed to load triage queue:", response.error);
+        setPageError(response.error?.message || "Failed to load triage queue");
       }
+      setIsTriageLoading(false);
+    };
 
-      return true;
-    });
-  }, [issues, filters]);
+    loadTriageQueue();
+  }, [canTriage, activeTab]);
 
-  const saveIssues = (newIssues: Issue[]) => {
-    try {
-      localStorage.setItem(ISSUES_STORAGE_KEY, JSON.stringify(newIssues));
-    } catch (error) {
-      console.error("Failed to save issues:", error);
-    }
-  };
+  // Filter issues based on current filters
+  const applyFilters = useCallback(
+    (list: Issue[]) =>
+      list.filter((issue) => {
+        // Search term
+        if (filters.searchTerm) {
+          const searchLower = filters.searchTerm.toLowerCase();
+          const matchesSearch =
+            issue.title.toLowerCase().includes(searchLower) ||
+            issue.description.toLowerCase().includes(searchLower) ||
+            (issue.username || "").toLowerCase().includes(searchLower);
+          if (!matchesSearch) return false;
+        }
+
+        // Status filter
+        if (filters.status !== "all" && issue.status !== filters.status) {
+          return false;
+        }
+
+        // Priority filter
+        if (filters.priority !== "all" && issue.priority !== filters.priority) {
+          return false;
+        }
 
-  const handleSubmitIssue = async (input: CreateIssueInput) => {
+        // Category filter
+        if (filters.category !== "all" && issue.category !== filters.category) {
+          return false;
+        }
+
+        return true;
+      }),
+    [filters]
+  );
+
+  const filteredIssues = useMemo(() => applyFilters(issues), [applyFilters, issues]);
+  const filteredTriageIssues = useMemo(() => applyFilters(allIssues), [applyFilters, allIssues]);
+
+  const handleSubmitIssue = async (input: CreateIssueInput, files: File[]) => {
     setIsSubmitting(true);
+    setPageError(null);
 
     try {
-      const newIssue: Issue = {
-        id: `issue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        ...input,
-        status: "open",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        userId: user?.id || "anonymous",
-      };
-
-      const updatedIssues = [newIssue, ...issues];
-      setIssues(updatedIssues);
-
-      const allIssues = JSON.parse(localStorage.getItem(ISSUES_STORAGE_KEY) || "[]");
-      const allUpdated = [newIssue, ...allIssues];
-      saveIssues(allUpdated);
+      let newIssue = unwrapIssue(await IssueService.createIssue(input));
+
+      if (files.length > 0) {
+        const upload = await IssueService.uploadAttachments(newIssue.id, files);
 
+        if (upload.success && upload.data) {
+          newIssue = upload.data;
+        } else {
+          // The issue itself was saved; let the reporter retry the files from the issue card
+          console.error("Failed to upload attachments:", upload.error);
+          setPageError(
+            `Issue submitted, but attachments could not be uploaded: ${upload.error?.message || "Unknown error"}`
+          );
+        }
+      }
+
+      setIssues((prev) => [newIssue, ...prev]);
+      setAllIssues((prev) => (prev.length > 0 ? [newIssue, ...prev] : prev));
     } catch (error) {
       console.error("Failed to submit issue:", error);
       throw error;
@@ -134,6 +203,25 @@ export default function IssuesPage() {
     }
   };
 
+  const replaceIssue = (updated: Issue) => {
+    const replace = (list: Issue[]) => list.map((issue) => (issue.id === updated.id ? updated : issue));
+
+    setAllIssues(replace);
+    setIssues(replace);
+  };
+
+  const handleTriageUpdate = async (issueId: string, updates: UpdateIssueInput) => {
+    replaceIssue(unwrapIssue(await IssueService.updateIssue(issueId, updates)));
+  };
+
+  const handleAddComment = async (issueId: string, body: string) => {
+    replaceIssue(unwrapIssue(await IssueService.addComment(issueId, body)));
+  };
+
+  const handleUploadAttachments = async (issueId: string, files: File[]) => {
+    replaceIssue(unwrapIssue(await IssueService.uploadAttachments(issueId, files)));
+  };
+
   return (
     <div className="mx-auto">
       {/* Header */}
@@ -177,6 +265,19 @@ export default function IssuesPage() {
             <MessageCircle className="w-4 h-4" />
             Issues
           </button>
+          {canTriage && (
+            <button
+              onClick={() => setActiveTab("triage")}
+              className={`px-6 py-3 font-medium transition-all flex items-center gap-2 ${
+                activeTab === "triage"
+                  ? "border-b-2 border-primary-color text-primary-color"
+                  : "text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
+              }`}
+            >
+              <ClipboardList className="w-4 h-4" />
+              Triage Queue
+            </button>
+          )}
           <button
             onClick={() => setActiveTab("statistics")}
             className={`px-6 py-3 font-medium transition-all flex items-center gap-2 ${
@@ -191,6 +292,12 @@ export default function IssuesPage() {
         </nav>
       </div>
 
+      {pageError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {pageError}
+        </div>
+      )}
+
       {/* Tab Content */}
       {activeTab === "issues" && (
         <div className="space-y-6">
@@ -215,12 +322,38 @@ export default function IssuesPage() {
 
             {/* Right Column - Issue List */}
             <div>
-              <IssueList issues={filteredIssues} loading={isLoading} />
+              <IssueList
+                issues={filteredIssues}
+                loading={isLoading}
+                onAddComment={handleAddComment}
+                onUploadAttachments={handleUploadAttachments}
+              />
             </div>
           </div>
         </div>
       )}
 
+      {activeTab === "triage" && canTriage && (
+        <div className="space-y-6">
+          <IssueFilters
+            filters={filters}
+            onFilterChange={setFilters}
+            resultCount={filteredTriageIssues.length}
+          />
+
+          <div className="flex justify-end">
+            <ExportIssues issues={filteredTriageIssues} />
+          </div>
+
+          <IssueTriageQueue
+            issues={filteredTriageIssues}
+            loading={isTriageLoading}
+            onUpdate={handleTriageUpdate}
+            onAddComment={handleAddComment}
+          />
+        </div>
+      )}
+
       {activeTab === "statistics" && (
         <div>
           <IssueStats issues={issues} />
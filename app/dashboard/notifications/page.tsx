@@ -1,9 +1,11 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import Link from "next/link";
 import { useRequireAuth } from "@/lib/hooks/use-auth";
 import { useNotifications } from "@/lib/hooks/use-notifications";
 import { BackendNotification } from "@/lib/api/notifications";
+import { ExportScheduleService } from "@/lib/api/export-schedules";
 import { RealTimeTimestamp } from "@/lib/components/ui/real-time-timestamp";
 import { getNotificationDisplayTimestamp } from "@/lib/utils/notification-helpers";
 import { NotificationInspector } from "@/lib/components/debug/notification-inspector";
@@ -22,6 +24,7 @@ import {
   Settings,
   Loader2,
   Search,
+  ExternalLink,
 } from "lucide-react";
 
 const getNotificationIcon = (type: string) => {
@@ -88,6 +91,30 @@ export default function NotificationsPage() {
   const [markingAsRead, setMarkingAsRead] = useState<Set<number>>(new Set());
   const [inspectingNotification, setInspectingNotification] =
     useState<BackendNotification | null>(null);
+  const [downloadingRunId, setDownloadingRunId] = useState<string | null>(
+    null,
+  );
+
+  // Download the file of a completed scheduled export run
+  const handleDownloadRun = async (runId: string) => {
+    setDownloadingRunId(runId);
+    const response = await ExportScheduleService.downloadRun(runId);
+
+    if (response.success && response.data) {
+      const url = URL.createObjectURL(response.data.blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = response.data.fileName || `scheduled-export-${runId}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } else {
+      console.error("❌ Failed to download scheduled export:", response.error);
+      alert(response.error?.message || "Download failed");
+    }
+    setDownloadingRunId(null);
+  };
 
   // Auto-sync unread count when there's a mismatch
   useEffect(() => {
@@ -581,6 +608,42 @@ export default function NotificationsPage() {
                         </button>
                       )}
 
+                      {notification.meta_data?.download_url &&
+                        notification.meta_data?.run_id && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDownloadRun(notification.meta_data.run_id);
+                            }}
+                            disabled={
+                              downloadingRunId === notification.meta_data.run_id
+                            }
+                            className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center space-x-1 disabled:text-gray-400"
+                          >
+                            <Download className="w-3 h-3" />
+                            <span>
+                              {downloadingRunId === notification.meta_data.run_id
+                                ? "Downloading..."
+                                : "Download"}
+                            </span>
+                          </button>
+                        )}
+
+                      {notification.meta_data?.action_url && (
+                        <Link
+                          href={notification.meta_data.action_url}
+                          onClick={() => {
+                            if (notification.status === "unread") {
+                              handleMarkAsRead(notification.id);
+                            }
+                          }}
+                          className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center space-x-1"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                          <span>Open</span>
+                        </Link>
+                      )}
+
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -10,7 +10,7 @@ import { useRequireAuth } from "@/lib/hooks/use-auth";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { apiClient } from "@/lib/api/client";
 import { testDashboardStatsAPI } from "@/lib/utils/api-test";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { AuthService } from "@/lib/api/auth";
 import { UserAnalyticsSection } from "@/lib/components/dashboard";
 import { LazySection } from "@/lib/components/ui/lazy-section";
 import {
@@ -262,32 +262,19 @@ export default function OptimizedDashboardPage() {
     }
   };
 
-  const handleCheckToken = () => {
-    const token = TokenStorage.getToken();
-    const refreshToken = TokenStorage.getRefreshToken();
+  const handleCheckToken = async () => {
+    // The token is in the httpOnly session cookie, so ask the session route about it
+    const response = await AuthService.getCurrentUser();
 
-    console.log("🔐 Current tokens:", {
-      hasToken: !!token,
-      hasRefreshToken: !!refreshToken,
-      tokenPreview: token ? `${token.substring(0, 20)}...` : "None",
-    });
+    console.log("🔐 Current session:", response);
 
-    if (token) {
-      try {
-        const payload = JSON.parse(atob(token.split(".")[1]));
-        const currentTime = Math.floor(Date.now() / 1000);
-        const isExpired = payload.exp < currentTime;
-
-        alert(`Token Status:
-- Expires: ${new Date(payload.exp * 1000).toLocaleString()}
-- Current: ${new Date(currentTime * 1000).toLocaleString()}
-- Is Expired: ${isExpired}
-- User: ${payload.sub || payload.username || "unknown"}`);
-      } catch (e) {
-        alert("Could not parse token: " + e);
-      }
+    if (response.success && response.data) {
+      alert(`Session Status:
+- Valid: true
+- User: ${response.data.username}
+- Role: ${response.data.roleName || response.data.role}`);
     } else {
-      alert("No authentication token found!");
+      alert(`No valid session: ${response.error?.message || "unknown error"}`);
     }
   };
 
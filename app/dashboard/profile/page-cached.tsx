@@ -4,8 +4,7 @@ import React, { useState, useEffect } from "react";
 import { useRequireAuth } from "@/lib/hooks/use-auth";
 import { useNotification } from "@/lib/components/notifications/notification-provider";
 import { NotificationService } from "@/lib/api/notifications";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import {
   User,
   Mail,
@@ -293,20 +292,13 @@ export default function CachedProfilePage() {
     setTurningOffSupplier(true);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Turning off supplier:", selectedSupplierName);
 
       const response = await fetch(
-        `${config.api.url}/permissions/turn-off-supplier`,
+        backendUrl("/permissions/turn-off-supplier"),
         {
           method: "POST",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
@@ -395,20 +387,13 @@ export default function CachedProfilePage() {
     setTurningOnSupplier(true);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Turning on supplier:", selectedSupplierName);
 
       const response = await fetch(
-        `${config.api.url}/permissions/turn-on-supplier`,
+        backendUrl("/permissions/turn-on-supplier"),
         {
           method: "POST",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
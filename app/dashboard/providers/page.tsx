@@ -13,6 +13,7 @@ import {
   Database,
   UserCheck,
   Globe,
+  BarChart3,
 } from "lucide-react";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { ProviderUpdatesApi } from "@/lib/api/provider-updates";
@@ -25,6 +26,7 @@ import type {
 } from "@/lib/api/provider-updates";
 import { useMemoryMonitor } from "@/lib/hooks/use-memory-monitor";
 import { apiClient } from "@/lib/api/client";
+import { ContentQualityPanel } from "@/lib/components/providers/content-quality-panel";
 
 export default function ProviderUpdatePage() {
   const { user } = useAuth();
@@ -121,6 +123,7 @@ export default function ProviderUpdatePage() {
     | "provider-identity"
     | "provider-mapping"
     | "provider-all-ids"
+    | "content-quality"
   >("provider-identity");
 
   useEffect(() => {
@@ -836,6 +839,11 @@ export default function ProviderUpdatePage() {
               { id: "mapping", label: "Country Mapping", icon: MapPin },
               { id: "all-ittids", label: "All ITTIDs", icon: Database },
               { id: "updates", label: "Provider Updates", icon: RefreshCw },
+              {
+                id: "content-quality",
+                label: "Content Quality",
+                icon: BarChart3,
+              },
             ]
               .filter((tab) => {
                 // Super users and admin users should see all tabs
@@ -2467,6 +2475,9 @@ export default function ProviderUpdatePage() {
           </div>
         </div>
       )}
+
+      {/* Content Quality Tab */}
+      {activeTab === "content-quality" && <ContentQualityPanel />}
     </div>
   );
 }
@@ -5,18 +5,20 @@
  *
  * Beautiful interface for monitoring and managing content synchronization
  * Features:
- * - Real-time sync status monitoring
+ * - Real-time sync status monitoring (polls the sync jobs API while jobs are active)
  * - Sync history timeline
- * - Manual sync triggers
+ * - Manual sync triggers and cancellation
  * - Sync statistics and metrics
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useRequireAuth } from "@/lib/hooks/use-auth";
-import { useAuth } from "@/lib/contexts/auth-context";
+import { useSyncJobs } from "@/lib/hooks/use-sync-jobs";
 import { PermissionGuard } from "@/lib/components/auth/permission-guard";
 import { Permission } from "@/lib/utils/rbac";
 import { RealTimeTimestamp } from "@/lib/components/ui/real-time-timestamp";
+import { ACTIVE_SYNC_STATUSES } from "@/lib/types/sync";
+import type { SyncJob, SyncJobType } from "@/lib/types/sync";
 import {
   Activity,
   RefreshCw,
@@ -28,138 +30,66 @@ import {
   AlertTriangle,
   Play,
   Settings,
-  Filter,
   Download,
+  Ban,
+  Square,
 } from "lucide-react";
 
-interface SyncJob {
-  id: string;
-  type: "hotel" | "mapping" | "content" | "full";
-  status: "running" | "completed" | "failed" | "pending";
-  startedAt: string;
-  completedAt?: string;
-  duration?: number;
-  itemsProcessed?: number;
-  itemsTotal?: number;
-  error?: string;
-  progress?: number;
-}
-
-interface SyncStats {
-  totalSyncs: number;
-  successfulSyncs: number;
-  failedSyncs: number;
-  averageDuration: number;
-  lastSyncTime: string;
-  itemsSyncedToday: number;
-}
+type SyncFilter = "all" | "running" | "completed" | "failed" | "cancelled";
 
 export default function SyncPage() {
   const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
-  const [syncJobs, setSyncJobs] = useState<SyncJob[]>([]);
-  const [syncStats, setSyncStats] = useState<SyncStats>({
+  const {
+    jobs: syncJobs,
+    stats,
+    isLoading,
+    error,
+    hasActiveJobs,
+    refresh,
+    triggerSync,
+    cancelJob,
+  } = useSyncJobs();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [selectedFilter, setSelectedFilter] = useState<SyncFilter>("all");
+
+  const syncStats = stats ?? {
     totalSyncs: 0,
     successfulSyncs: 0,
     failedSyncs: 0,
     averageDuration: 0,
-    lastSyncTime: "",
+    lastSyncTime: null,
     itemsSyncedToday: 0,
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [selectedFilter, setSelectedFilter] = useState<
-    "all" | "running" | "completed" | "failed"
-  >("all");
-
-  // Mock data for demonstration
-  useEffect(() => {
-    const loadSyncData = async () => {
-      setIsLoading(true);
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      setSyncJobs([
-        {
-          id: "1",
-          type: "full",
-          status: "running",
-          startedAt: new Date(Date.now() - 5 * 60000).toISOString(),
-          itemsProcessed: 1250,
-          itemsTotal: 5000,
-          progress: 25,
-        },
-        {
-          id: "2",
-          type: "hotel",
-          status: "completed",
-          startedAt: new Date(Date.now() - 2 * 3600000).toISOString(),
-          completedAt: new Date(Date.now() - 1.5 * 3600000).toISOString(),
-          duration: 1800,
-          itemsProcessed: 500,
-          itemsTotal: 500,
-          progress: 100,
-        },
-        {
-          id: "3",
-          type: "mapping",
-          status: "completed",
-          startedAt: new Date(Date.now() - 5 * 3600000).toISOString(),
-          completedAt: new Date(Date.now() - 4.5 * 3600000).toISOString(),
-          duration: 1800,
-          itemsProcessed: 1200,
-          itemsTotal: 1200,
-          progress: 100,
-        },
-        {
-          id: "4",
-          type: "content",
-          status: "failed",
-          startedAt: new Date(Date.now() - 8 * 3600000).toISOString(),
-          error: "Connection timeout",
-          itemsProcessed: 150,
-          itemsTotal: 1000,
-          progress: 15,
-        },
-      ]);
-
-      setSyncStats({
-        totalSyncs: 124,
-        successfulSyncs: 118,
-        failedSyncs: 6,
-        averageDuration: 1850,
-        lastSyncTime: new Date(Date.now() - 2 * 3600000).toISOString(),
-        itemsSyncedToday: 2950,
-      });
-
-      setIsLoading(false);
-    };
-
-    if (isAuthenticated) {
-      loadSyncData();
-    }
-  }, [isAuthenticated]);
+  };
+  const finishedSyncs = syncStats.successfulSyncs + syncStats.failedSyncs;
+  const successRate =
+    finishedSyncs > 0
+      ? Math.round((syncStats.successfulSyncs / finishedSyncs) * 100)
+      : 0;
 
-  const handleStartSync = async (type: SyncJob["type"]) => {
+  const handleStartSync = async (type: SyncJobType) => {
     setIsSyncing(true);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    const newJob: SyncJob = {
-      id: Date.now().toString(),
-      type,
-      status: "running",
-      startedAt: new Date().toISOString(),
-      itemsProcessed: 0,
-      itemsTotal: 0,
-      progress: 0,
-    };
+    try {
+      await triggerSync(type);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
 
-    setSyncJobs((prev) => [newJob, ...prev]);
-    setIsSyncing(false);
+  const handleCancelSync = async (jobId: string) => {
+    setCancellingId(jobId);
+    try {
+      await cancelJob(jobId);
+    } finally {
+      setCancellingId(null);
+    }
   };
 
   const filteredJobs = syncJobs.filter((job) => {
     if (selectedFilter === "all") return true;
+    if (selectedFilter === "running") {
+      return ACTIVE_SYNC_STATUSES.includes(job.status);
+    }
     return job.status === selectedFilter;
   });
 
@@ -171,6 +101,8 @@ export default function SyncPage() {
         return <XCircle className="h-5 w-5 text-red-500" />;
       case "running":
         return <RefreshCw className="h-5 w-5 text-blue-500 animate-spin" />;
+      case "cancelled":
+        return <Ban className="h-5 w-5 text-gray-400" />;
       default:
         return <Clock className="h-5 w-5 text-yellow-500" />;
     }
@@ -184,18 +116,21 @@ export default function SyncPage() {
         return "bg-red-100 text-red-800 border-red-200";
       case "running":
         return "bg-blue-100 text-blue-800 border-blue-200";
+      case "cancelled":
+        return "bg-gray-100 text-gray-700 border-gray-200";
       default:
         return "bg-yellow-100 text-yellow-800 border-yellow-200";
     }
   };
 
   const formatDuration = (seconds: number) => {
+    seconds = Math.round(seconds);
     if (seconds < 60) return `${seconds}s`;
     if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
     return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
   };
 
-  if (authLoading || isLoading) {
+  if (authLoading || (isAuthenticated && isLoading)) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-center min-h-[400px]">
@@ -218,8 +153,14 @@ export default function SyncPage() {
                 </div>
                 Sync History
               </h1>
-              <p className="text-gray-600 mt-2">
+              <p className="text-gray-600 mt-2 flex items-center gap-2">
                 Monitor and manage content synchronization operations
+                {hasActiveJobs && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 text-xs font-medium">
+                    <span className="h-2 w-2 rounded-full bg-blue-500 animate-pulse" />
+                    Live
+                  </span>
+                )}
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -238,6 +179,13 @@ export default function SyncPage() {
           </div>
         </div>
 
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 hover:shadow-xl transition-shadow">
@@ -251,8 +199,8 @@ export default function SyncPage() {
               {syncStats.totalSyncs}
             </div>
             <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
-              <TrendingUp className="h-4 w-4 text-green-500" />
-              <span>+12% from last month</span>
+              <XCircle className="h-4 w-4 text-red-500" />
+              <span>{syncStats.failedSyncs} failed</span>
             </div>
           </div>
 
@@ -264,10 +212,7 @@ export default function SyncPage() {
               <span className="text-sm text-gray-500">Success Rate</span>
             </div>
             <div className="text-3xl font-bold text-gray-900">
-              {Math.round(
-                (syncStats.successfulSyncs / syncStats.totalSyncs) * 100,
-              )}
-              %
+              {successRate}%
             </div>
             <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
               <span>{syncStats.successfulSyncs} successful</span>
@@ -287,10 +232,14 @@ export default function SyncPage() {
             <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
               <span>
                 Last sync:{" "}
-                <RealTimeTimestamp
-                  dateString={syncStats.lastSyncTime}
-                  updateInterval={30000}
-                />
+                {syncStats.lastSyncTime ? (
+                  <RealTimeTimestamp
+                    dateString={syncStats.lastSyncTime}
+                    updateInterval={30000}
+                  />
+                ) : (
+                  "never"
+                )}
               </span>
             </div>
           </div>
@@ -356,7 +305,9 @@ export default function SyncPage() {
             </h2>
             <div className="flex items-center gap-3">
               <div className="flex items-center gap-2 bg-gray-100 rounded-lg p-1">
-                {(["all", "running", "completed", "failed"] as const).map(
+                {(
+                  ["all", "running", "completed", "failed", "cancelled"] as const
+                ).map(
                   (filter) => (
                     <button
                       key={filter}
@@ -372,8 +323,12 @@ export default function SyncPage() {
                   ),
                 )}
               </div>
-              <button className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors">
-                <Filter className="h-5 w-5" />
+              <button
+                onClick={() => refresh()}
+                title="Refresh"
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <RefreshCw className="h-5 w-5" />
               </button>
               <button className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors">
                 <Download className="h-5 w-5" />
@@ -400,6 +355,11 @@ export default function SyncPage() {
                       <div>
                         <h3 className="text-lg font-semibold text-gray-900 capitalize">
                           {job.type} Sync
+                          {job.provider && (
+                            <span className="ml-2 text-sm font-normal text-gray-500 normal-case">
+                              {job.provider}
+                            </span>
+                          )}
                         </h3>
                         <p className="text-sm text-gray-500">
                           Started{" "}
@@ -410,28 +370,43 @@ export default function SyncPage() {
                         </p>
                       </div>
                     </div>
-                    <span
-                      className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(
-                        job.status,
-                      )}`}
-                    >
-                      {job.status}
-                    </span>
+                    <div className="flex items-center gap-3">
+                      {ACTIVE_SYNC_STATUSES.includes(job.status) && (
+                        <button
+                          onClick={() => handleCancelSync(job.id)}
+                          disabled={cancellingId === job.id}
+                          className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-red-700 border border-red-200 rounded-full hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Square className="h-3 w-3" />
+                          {cancellingId === job.id ? "Cancelling..." : "Cancel"}
+                        </button>
+                      )}
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(
+                          job.status,
+                        )}`}
+                      >
+                        {job.status}
+                      </span>
+                    </div>
                   </div>
 
-                  {job.status === "running" && job.progress !== undefined && (
+                  {ACTIVE_SYNC_STATUSES.includes(job.status) && (
                     <div className="mb-4">
                       <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
                         <span>
-                          {job.itemsProcessed?.toLocaleString()} /{" "}
-                          {job.itemsTotal?.toLocaleString()} items
+                          {job.status === "pending"
+                            ? "Queued"
+                            : `${(job.itemsProcessed ?? 0).toLocaleString()} / ${(
+                                job.itemsTotal ?? 0
+                              ).toLocaleString()} items`}
                         </span>
-                        <span>{job.progress}%</span>
+                        <span>{job.progress ?? 0}%</span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2.5 overflow-hidden">
                         <div
                           className="bg-gradient-to-r from-blue-500 to-indigo-600 h-2.5 rounded-full transition-all duration-300"
-                          style={{ width: `${job.progress}%` }}
+                          style={{ width: `${job.progress ?? 0}%` }}
                         />
                       </div>
                     </div>
@@ -444,7 +419,7 @@ export default function SyncPage() {
                         {job.type}
                       </span>
                     </div>
-                    {job.duration && (
+                    {job.duration !== undefined && (
                       <div>
                         <span className="text-gray-500">Duration:</span>
                         <span className="ml-2 font-medium text-gray-900">
@@ -1,6 +1,6 @@
 /**
  * User Profile Page
- * Detailed view of a specific user with profile information and activity
+ * Detailed view of a specific user with profile information, activity and effective permissions
  */
 
 "use client";
@@ -13,6 +13,7 @@ import { Button } from "@/lib/components/ui/button";
 import { Badge } from "@/lib/components/ui/badge";
 import { Card } from "@/lib/components/ui/card";
 import { UserForm } from "@/lib/components/users/user-form";
+import { EffectivePermissionsCard } from "@/lib/components/users/effective-permissions-card";
 import {
   ArrowLeft,
   Edit,
@@ -24,6 +25,7 @@ import {
   CreditCard,
   Activity,
   Shield,
+  History,
 } from "lucide-react";
 import type { UserListItem, UserFormData } from "@/lib/types/user";
 import type { UserRole } from "@/lib/types/auth";
@@ -440,6 +442,9 @@ export default function UserProfilePage() {
               </div>
             </Card>
           )}
+
+          {/* Effective Permissions Card */}
+          <EffectivePermissionsCard userId={user.id} role={user.role} />
         </div>
 
         {/* Sidebar */}
@@ -479,6 +484,16 @@ export default function UserProfilePage() {
                 )}
               </div>
             )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full mt-4"
+              onClick={() => router.push(`/dashboard/users/${user.id}/points`)}
+              leftIcon={<History className="h-4 w-4" />}
+            >
+              View Points Ledger
+            </Button>
           </Card>
 
           {/* Quick Actions Card */}
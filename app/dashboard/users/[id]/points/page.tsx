@@ -0,0 +1,375 @@
+/**
+ * User Points Ledger Page
+ * Every credit and debit on a user's balance with reason, actor and running balance.
+ * Allocations can be reversed with a compensating entry.
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { UserService } from "@/lib/api/users";
+import { PointsLedgerService } from "@/lib/api/points-ledger";
+import { Button } from "@/lib/components/ui/button";
+import { Badge } from "@/lib/components/ui/badge";
+import { Card } from "@/lib/components/ui/card";
+import { Input } from "@/lib/components/ui/input";
+import { Select } from "@/lib/components/ui/select";
+import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import { POINTS_LEDGER_TYPE_LABELS, getReversalError } from "@/lib/utils/points-ledger";
+import type {
+  PointsLedger,
+  PointsLedgerEntryType,
+  PointsLedgerRow,
+} from "@/lib/types/points-ledger";
+import type { UserListItem } from "@/lib/types/user";
+import { AlertCircle, ArrowLeft, Coins, Loader2, RotateCcw } from "lucide-react";
+
+const TYPE_BADGE_CLASSES: Record<PointsLedgerEntryType, string> = {
+  opening: "bg-gray-100 text-gray-700",
+  allocation: "bg-green-100 text-green-800",
+  reset: "bg-red-100 text-red-800",
+  reversal: "bg-orange-100 text-orange-800",
+  adjustment: "bg-blue-100 text-blue-800",
+  top_up: "bg-teal-100 text-teal-800",
+};
+
+function formatAmount(amount: number): string {
+  return `${amount > 0 ? "+" : ""}${amount.toLocaleString()}`;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function UserPointsLedgerPage() {
+  const router = useRouter();
+  const params = useParams();
+  const userId = params.id as string;
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user: currentUser } = useAuth();
+
+  const [user, setUser] = useState<UserListItem | null>(null);
+  const [ledger, setLedger] = useState<PointsLedger | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<PointsLedgerEntryType | "">("");
+  const [reversing, setReversing] = useState<PointsLedgerRow | null>(null);
+  const [reverseReason, setReverseReason] = useState("");
+  const [reverseError, setReverseError] = useState<string | null>(null);
+  const [reverseLoading, setReverseLoading] = useState(false);
+
+  const canViewLedger = hasPermission(currentUser, Permission.VIEW_ALL_TRANSACTIONS);
+  const canReverse = hasPermission(currentUser, Permission.MANAGE_POINTS);
+
+  const loadLedger = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const [userResponse, ledgerResponse] = await Promise.all([
+      UserService.getUserById(userId),
+      PointsLedgerService.getLedger(userId),
+    ]);
+    if (userResponse.success && userResponse.data) {
+      setUser(userResponse.data);
+    }
+    if (ledgerResponse.success && ledgerResponse.data) {
+      setLedger(ledgerResponse.data);
+    } else {
+      setError(ledgerResponse.error?.message || "Failed to load points ledger");
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (isAuthenticated && canViewLedger && userId) {
+      loadLedger();
+    }
+  }, [isAuthenticated, canViewLedger, userId, loadLedger]);
+
+  // The backend balance is authoritative; fall back to the ledger when it isn't reported
+  const currentBalance = user?.pointBalance ?? ledger?.balance ?? 0;
+
+  const openReverse = (entry: PointsLedgerRow) => {
+    setReversing(entry);
+    setReverseReason("");
+    setReverseError(ledger ? getReversalError(ledger.entries, entry.id, currentBalance) : null);
+  };
+
+  const handleReverse = async () => {
+    if (!reversing || !ledger) return;
+
+    const blocked = getReversalError(ledger.entries, reversing.id, currentBalance);
+    if (blocked) {
+      setReverseError(blocked);
+      return;
+    }
+    if (!reverseReason.trim()) {
+      setReverseError("Enter a reason for the reversal");
+      return;
+    }
+
+    setReverseLoading(true);
+    setReverseError(null);
+    const response = await PointsLedgerService.reverseAllocation(userId, reversing, reverseReason.trim());
+
+    if (response.success && response.data) {
+      setLedger(response.data);
+      setReversing(null);
+      const userResponse = await UserService.getUserById(userId);
+      if (userResponse.success && userResponse.data) {
+        setUser(userResponse.data);
+      }
+    } else {
+      setReverseError(response.error?.message || "Failed to reverse allocation");
+    }
+    setReverseLoading(false);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  if (!canViewLedger) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600">
+            You need permission to view transactions to see the points ledger.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const entries = (ledger?.entries ?? []).filter(
+    (entry) => !typeFilter || entry.type === typeFilter
+  );
+  const outOfSync =
+    ledger && user?.pointBalance !== undefined && ledger.entries.length > 0 && user.pointBalance !== ledger.balance;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-4 mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push(`/dashboard/users/${userId}`)}
+            leftIcon={<ArrowLeft className="h-4 w-4" />}
+          >
+            Back to User
+          </Button>
+        </div>
+
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-3">
+          <Coins className="h-6 w-6 text-blue-600" />
+          <span>Points Ledger{user ? ` · ${user.username}` : ""}</span>
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Every credit and debit with who made it, why, and the balance after it
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading && !ledger && (
+        <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Loading ledger...
+        </div>
+      )}
+
+      {ledger && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: "Current Balance", value: currentBalance.toLocaleString(), className: "text-blue-600" },
+              { label: "Ledger Balance", value: ledger.balance.toLocaleString(), className: "text-gray-900" },
+              { label: "Total Credits", value: formatAmount(ledger.totalCredits), className: "text-green-600" },
+              { label: "Total Debits", value: formatAmount(-ledger.totalDebits), className: "text-red-600" },
+            ].map((stat) => (
+              <Card key={stat.label} className="p-4">
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+              </Card>
+            ))}
+          </div>
+
+          {outOfSync && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-yellow-600 shrink-0 mt-0.5" />
+              <p className="text-sm text-yellow-800">
+                The balance changed outside the dashboard, for example by points spent on requests.
+                The next recorded change adds an adjustment entry for the difference.
+              </p>
+            </div>
+          )}
+
+          {/* Entries */}
+          <Card className="p-0 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                {ledger.entries.length} entr{ledger.entries.length === 1 ? "y" : "ies"}
+              </p>
+              <Select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as PointsLedgerEntryType | "")}
+                placeholder="All types"
+                options={(Object.keys(POINTS_LEDGER_TYPE_LABELS) as PointsLedgerEntryType[]).map(
+                  (type) => ({ value: type, label: POINTS_LEDGER_TYPE_LABELS[type] })
+                )}
+                className="w-44"
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    {["Date", "Type", "Reason", "Actor", "Amount", "Balance", ""].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
+                        {ledger.entries.length === 0
+                          ? "No point changes recorded for this user yet."
+                          : "No entries of this type."}
+                      </td>
+                    </tr>
+                  )}
+                  {entries.map((entry) => {
+                    const reversed = entry.reversedById
+                      ? ledger.entries.find((candidate) => candidate.id === entry.reversedById)
+                      : undefined;
+                    const reverses = entry.reversesId
+                      ? ledger.entries.find((candidate) => candidate.id === entry.reversesId)
+                      : undefined;
+
+                    return (
+                      <tr key={entry.id} className="align-top">
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                          {formatDateTime(entry.createdAt)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge className={TYPE_BADGE_CLASSES[entry.type]}>
+                            {POINTS_LEDGER_TYPE_LABELS[entry.type]}
+                          </Badge>
+                          {reversed && (
+                            <p className="mt-1 text-xs text-orange-700">
+                              Reversed {formatDateTime(reversed.createdAt)}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-900 max-w-xs break-words">
+                          {entry.reason}
+                          {entry.allocationType && (
+                            <span className="block text-xs text-gray-500">
+                              {entry.allocationType.replace(/_/g, " ")}
+                            </span>
+                          )}
+                          {reverses && (
+                            <span className="block text-xs text-gray-500">
+                              Reverses the allocation of {formatDateTime(reverses.createdAt)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700">{entry.actorName}</td>
+                        <td
+                          className={`px-4 py-3 font-medium whitespace-nowrap ${
+                            entry.amount < 0 ? "text-red-600" : "text-green-600"
+                          }`}
+                        >
+                          {formatAmount(entry.amount)}
+                        </td>
+                        <td className="px-4 py-3 font-medium text-gray-900">
+                          {entry.balance.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {canReverse && entry.reversible && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReverse(entry)}
+                              leftIcon={<RotateCcw className="h-4 w-4" />}
+                            >
+                              Reverse
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+
+      {reversing && (
+        <ConfirmationDialog
+          isOpen={true}
+          onClose={() => setReversing(null)}
+          onConfirm={handleReverse}
+          title="Reverse Allocation"
+          message={`Deduct ${reversing.amount.toLocaleString()} points from ${
+            user?.username ?? "this user"
+          } and record a compensating entry. The balance goes from ${currentBalance.toLocaleString()} to ${(
+            currentBalance - reversing.amount
+          ).toLocaleString()}.`}
+          confirmText="Reverse"
+          variant="warning"
+          isLoading={reverseLoading}
+        >
+          <Input
+            label="Reason"
+            value={reverseReason}
+            onChange={(e) => {
+              setReverseReason(e.target.value);
+              setReverseError(
+                ledger ? getReversalError(ledger.entries, reversing.id, currentBalance) : null
+              );
+            }}
+            placeholder="Why is this allocation being reversed?"
+            maxLength={500}
+            error={reverseError ?? undefined}
+          />
+        </ConfirmationDialog>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import { useRequireAuth } from "@/lib/hooks/use-auth";
 import { UserService } from "@/lib/api/users";
 import { UserForm } from "@/lib/components/users/user-form";
 import { Button } from "@/lib/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Upload } from "lucide-react";
 import type { UserFormData } from "@/lib/types/user";
 
 export default function CreateUserPage() {
@@ -80,11 +80,20 @@ export default function CreateUserPage() {
           </Button>
         </div>
 
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Create New User</h1>
-          <p className="mt-1 text-sm text-gray-600">
-            Add a new user to the system with appropriate role and permissions
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Create New User</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Add a new user to the system with appropriate role and permissions
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => router.push("/dashboard/users/import")}
+            leftIcon={<Upload className="h-4 w-4" />}
+          >
+            Import from CSV
+          </Button>
         </div>
       </div>
 
@@ -0,0 +1,498 @@
+/**
+ * Import Users Page
+ * Bulk-creates users from a CSV after a validated preview, then offers a results report
+ */
+
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useRequireAuth } from "@/lib/hooks/use-auth";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { UserService } from "@/lib/api/users";
+import { UserEditService } from "@/lib/api/user-edit";
+import { Button } from "@/lib/components/ui/button";
+import { availableSuppliers } from "@/lib/components/users/supplier-management-modal";
+import { Permission, hasPermission } from "@/lib/utils/rbac";
+import {
+  USER_IMPORT_TEMPLATE,
+  buildUserImportReportCsv,
+  chunkRows,
+  flagDuplicateUsers,
+  flagRestrictedRoles,
+  parseUserImportCsv,
+} from "@/lib/utils/user-import";
+import { UserRole } from "@/lib/types/auth";
+import type { UserImportResult, UserImportRow } from "@/lib/types/user";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+
+const BATCH_SIZE = 5;
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.SUPER_USER]: "Super User",
+  [UserRole.ADMIN_USER]: "Admin User",
+  [UserRole.GENERAL_USER]: "General User",
+  [UserRole.USER]: "User",
+};
+
+const RESULT_CLASSES: Record<UserImportResult["status"], string> = {
+  created: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-gray-100 text-gray-600",
+};
+
+function downloadCsv(content: string, filename: string) {
+  const blob = new Blob([content], { type: "text/csv" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Look up existing accounts for each row so duplicates show in the preview
+ */
+async function checkExistingUsers(rows: UserImportRow[]): Promise<UserImportRow[]> {
+  const usernames = new Set<string>();
+  const emails = new Set<string>();
+  const unchecked = new Set<number>();
+
+  const queries = rows.filter((row) => row.errors.length === 0);
+  for (const batch of chunkRows(queries, BATCH_SIZE)) {
+    await Promise.all(
+      batch.map(async (row) => {
+        const responses = await Promise.all([
+          UserService.searchUsers(row.username, 5),
+          UserService.searchUsers(row.email, 5),
+        ]).catch(() => null);
+        if (!responses) {
+          unchecked.add(row.line);
+          return;
+        }
+        responses.forEach((response) => {
+          if (!response.success) {
+            unchecked.add(row.line);
+            return;
+          }
+          (response.data ?? []).forEach((user) => {
+            usernames.add(user.username.toLowerCase());
+            emails.add(user.email.toLowerCase());
+          });
+        });
+      })
+    );
+  }
+
+  return flagDuplicateUsers(rows, { usernames, emails }).map((row) =>
+    unchecked.has(row.line)
+      ? { ...row, warnings: [...row.warnings, "Couldn't check for an existing account"] }
+      : row
+  );
+}
+
+/**
+ * Create one account, then apply its starting points and suppliers
+ */
+async function importRow(row: UserImportRow): Promise<UserImportResult> {
+  const base = { line: row.line, username: row.username, email: row.email };
+
+  try {
+    const account = { username: row.username, email: row.email };
+    const response =
+      row.role === UserRole.SUPER_USER
+        ? await UserService.createSuperUser(account)
+        : row.role === UserRole.ADMIN_USER
+          ? await UserService.createAdminUser({ ...account, business_id: row.businessId })
+          : await UserService.createGeneralUser(account);
+
+    if (!response.success) {
+      return { ...base, status: "failed", message: response.error?.message || "Failed to create user" };
+    }
+
+    const userId = response.data?.id;
+    if (!row.points && row.suppliers.length === 0) {
+      return { ...base, status: "created", userId };
+    }
+    if (!userId) {
+      return {
+        ...base,
+        status: "partial",
+        message: "Created, but no user ID came back to apply points and suppliers",
+      };
+    }
+
+    const problems: string[] = [];
+    if (row.points) {
+      const pointsResponse = await UserService.updateUserPoints(userId, row.points);
+      if (!pointsResponse.success) {
+        problems.push(`points: ${pointsResponse.error?.message || "request failed"}`);
+      }
+    }
+    if (row.suppliers.length > 0) {
+      const suppliersResponse = await UserEditService.activateSuppliers(userId, row.suppliers);
+      if (!suppliersResponse.success) {
+        problems.push(`suppliers: ${suppliersResponse.error?.message || "request failed"}`);
+      }
+    }
+
+    return problems.length > 0
+      ? { ...base, status: "partial", userId, message: `Created, but couldn't set ${problems.join("; ")}` }
+      : { ...base, status: "created", userId };
+  } catch (err) {
+    return { ...base, status: "failed", message: err instanceof Error ? err.message : "Failed to create user" };
+  }
+}
+
+export default function ImportUsersPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useRequireAuth();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<UserImportRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<UserImportResult[] | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  const canCreateUsers = hasPermission(user, Permission.CREATE_USERS);
+  const readyRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - readyRows.length;
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setResults(null);
+    setError(null);
+    setProblemsOnly(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setValidating(true);
+    try {
+      const parsed = parseUserImportCsv(await file.text(), availableSuppliers);
+      if (parsed.error) {
+        setError(parsed.error);
+        return;
+      }
+      setRows(await checkExistingUsers(flagRestrictedRoles(parsed.rows, user?.role)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setProgress(0);
+    const created: UserImportResult[] = [];
+    try {
+      for (const batch of chunkRows(readyRows, BATCH_SIZE)) {
+        created.push(...(await Promise.all(batch.map(importRow))));
+        setProgress(created.length);
+      }
+    } finally {
+      const byLine = new Map(created.map((result) => [result.line, result]));
+      setResults(
+        rows.map(
+          (row) =>
+            byLine.get(row.line) ?? {
+              line: row.line,
+              username: row.username,
+              email: row.email,
+              status: "skipped",
+              message: row.errors.join("; ") || "Not imported",
+            }
+        )
+      );
+      setImporting(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  if (!canCreateUsers) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600">You need permission to create users to import them.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleRows = problemsOnly
+    ? rows.filter((row) => row.errors.length > 0 || row.warnings.length > 0)
+    : rows;
+  const resultCounts = (results ?? []).reduce<Record<string, number>>((counts, result) => {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-4 mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push("/dashboard/users/create")}
+            leftIcon={<ArrowLeft className="h-4 w-4" />}
+          >
+            Back to Create User
+          </Button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Import Users</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Upload a CSV with username, email, role, points and suppliers. Separate suppliers with
+              &quot;;&quot;.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => downloadCsv(USER_IMPORT_TEMPLATE, "user-import-template.csv")}
+            leftIcon={<Download className="h-4 w-4" />}
+          >
+            Download Template
+          </Button>
+        </div>
+      </div>
+
+      {/* Upload */}
+      {!results && (
+        <div className="mb-6 bg-white rounded-lg border border-dashed border-gray-300 p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+          <FileSpreadsheet className="h-10 w-10 text-gray-400 shrink-0" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-900">
+              {fileName ?? "Choose a CSV file to preview"}
+            </p>
+            <p className="text-sm text-gray-500">
+              Nothing is created until you review the preview and start the import.
+            </p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={validating || importing}
+            leftIcon={<Upload className="h-4 w-4" />}
+          >
+            {fileName ? "Choose Another File" : "Choose File"}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {validating && (
+        <div className="mb-6 flex items-center text-sm text-gray-600">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Validating rows and checking for existing accounts...
+        </div>
+      )}
+
+      {/* Preview */}
+      {rows.length > 0 && !results && !validating && (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              <span className="font-medium text-green-700">{readyRows.length} ready</span>
+              {invalidCount > 0 && (
+                <span className="font-medium text-red-700">
+                  , {invalidCount} with problems (will be skipped)
+                </span>
+              )}
+            </p>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={problemsOnly}
+                  onChange={(e) => setProblemsOnly(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span>Only rows with problems</span>
+              </label>
+              <Button variant="ghost" onClick={reset} disabled={importing}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                loading={importing}
+                disabled={importing || readyRows.length === 0}
+              >
+                {importing
+                  ? `Importing ${progress} of ${readyRows.length}...`
+                  : `Import ${readyRows.length} User${readyRows.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  {["Line", "Username", "Email", "Role", "Points", "Suppliers", "Status"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleRows.map((row) => (
+                  <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50/50 align-top" : "align-top"}>
+                    <td className="px-4 py-3 text-gray-500">{row.line}</td>
+                    <td className="px-4 py-3 text-gray-900">{row.username}</td>
+                    <td className="px-4 py-3 text-gray-900">{row.email}</td>
+                    <td className="px-4 py-3 text-gray-700">{row.role ? ROLE_LABELS[row.role] : "—"}</td>
+                    <td className="px-4 py-3 text-gray-700">{row.points ?? "—"}</td>
+                    <td className="px-4 py-3 text-gray-700">{row.suppliers.join(", ") || "—"}</td>
+                    <td className="px-4 py-3">
+                      {row.errors.length === 0 ? (
+                        <span className="inline-flex items-center text-green-700">
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Ready
+                        </span>
+                      ) : (
+                        <ul className="space-y-0.5 text-red-700">
+                          {row.errors.map((message) => (
+                            <li key={message} className="flex items-start">
+                              <XCircle className="h-4 w-4 mr-1 shrink-0 mt-0.5" />
+                              {message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {row.warnings.map((message) => (
+                        <p key={message} className="mt-0.5 text-xs text-yellow-700">
+                          {message}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {results && (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              {resultCounts.created ?? 0} created
+              {resultCounts.partial ? `, ${resultCounts.partial} created with problems` : ""}
+              {resultCounts.failed ? `, ${resultCounts.failed} failed` : ""}
+              {resultCounts.skipped ? `, ${resultCounts.skipped} skipped` : ""}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={reset}>
+                Import Another File
+              </Button>
+              <Button
+                onClick={() =>
+                  downloadCsv(
+                    buildUserImportReportCsv(results),
+                    `user-import-report-${new Date().toISOString().split("T")[0]}.csv`
+                  )
+                }
+                leftIcon={<Download className="h-4 w-4" />}
+              >
+                Download Report
+              </Button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  {["Line", "Username", "Email", "Result", "Details"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {results.map((result) => (
+                  <tr key={result.line} className="align-top">
+                    <td className="px-4 py-3 text-gray-500">{result.line}</td>
+                    <td className="px-4 py-3 text-gray-900">{result.username}</td>
+                    <td className="px-4 py-3 text-gray-900">{result.email}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${RESULT_CLASSES[result.status]}`}
+                      >
+                        {result.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{result.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
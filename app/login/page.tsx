@@ -12,6 +12,7 @@ import { LoginForm } from "@/lib/components/auth/login-form";
 import { LoadingScreen } from "@/lib/components/ui/loading-screen";
 import { SecurityNotice } from "@/lib/components/ui";
 import { config } from "@/lib/config";
+import { RETURN_TO_PARAM, getSafeReturnPath } from "@/lib/auth/session-cookie";
 import { Suspense } from "react";
 
 // Security headers component
@@ -41,9 +42,14 @@ function LoginContent() {
   const [loginAttempts, setLoginAttempts] = useState(0);
   const [hasCheckedAuth, setHasCheckedAuth] = useState(false);
 
-  // Get redirect URL from query params or default to dashboard
-  const redirectTo = searchParams.get("redirect") || "/dashboard";
-  const returnUrl = searchParams.get("returnUrl");
+  // Get redirect URL from query params or default to dashboard.
+  // The middleware sends returnTo; redirect/returnUrl are older client-side links.
+  const redirectTo = getSafeReturnPath(
+    searchParams.get(RETURN_TO_PARAM) || searchParams.get("redirect"),
+  );
+  const returnUrl = searchParams.get("returnUrl")
+    ? getSafeReturnPath(searchParams.get("returnUrl"))
+    : null;
 
   // Redirect if already authenticated (only once)
   useEffect(() => {
@@ -53,8 +59,9 @@ function LoginContent() {
       if (isAuthenticated) {
         console.log("✅ User is authenticated, redirecting from login page");
         const targetUrl = returnUrl || redirectTo;
-        console.log("🔄 Redirecting to:", targetUrl);
 
+        // The session was confirmed from the session cookie, which the middleware also checks
+        console.log("🔄 Redirecting to:", targetUrl);
         // Use replace instead of push to prevent back button issues
         router.replace(targetUrl);
       } else {
@@ -1,55 +1,58 @@
 import "@testing-library/jest-dom";
 
-// Mock IntersectionObserver
-global.IntersectionObserver = class IntersectionObserver {
-  constructor() {}
-  disconnect() {}
-  observe() {}
-  unobserve() {}
-};
+// Browser mocks. Route handler tests run in the node environment, without a DOM.
+if (typeof window !== "undefined") {
+  // Mock IntersectionObserver
+  global.IntersectionObserver = class IntersectionObserver {
+    constructor() {}
+    disconnect() {}
+    observe() {}
+    unobserve() {}
+  };
 
-// Mock ResizeObserver
-global.ResizeObserver = class ResizeObserver {
-  constructor() {}
-  disconnect() {}
-  observe() {}
-  unobserve() {}
-};
+  // Mock ResizeObserver
+  global.ResizeObserver = class ResizeObserver {
+    constructor() {}
+    disconnect() {}
+    observe() {}
+    unobserve() {}
+  };
 
-// Mock matchMedia
-Object.defineProperty(window, "matchMedia", {
-  writable: true,
-  value: jest.fn().mockImplementation((query) => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-});
+  // Mock matchMedia
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: jest.fn().mockImplementation((query) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  });
 
-// Mock window.scrollTo
-Object.defineProperty(window, "scrollTo", {
-  writable: true,
-  value: jest.fn(),
-});
+  // Mock window.scrollTo
+  Object.defineProperty(window, "scrollTo", {
+    writable: true,
+    value: jest.fn(),
+  });
 
-// Mock CSS.supports for backdrop-filter
-Object.defineProperty(CSS, "supports", {
-  writable: true,
-  value: jest.fn().mockImplementation((property, value) => {
-    if (
-      property === "backdrop-filter" ||
-      property === "-webkit-backdrop-filter"
-    ) {
-      return true;
-    }
-    return false;
-  }),
-});
+  // Mock CSS.supports for backdrop-filter
+  Object.defineProperty(CSS, "supports", {
+    writable: true,
+    value: jest.fn().mockImplementation((property, value) => {
+      if (
+        property === "backdrop-filter" ||
+        property === "-webkit-backdrop-filter"
+      ) {
+        return true;
+      }
+      return false;
+    }),
+  });
+}
 
 // Suppress console warnings during tests
 const originalConsoleWarn = console.warn;
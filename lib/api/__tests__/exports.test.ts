@@ -0,0 +1,115 @@
+import { ExportAPI } from "../exports";
+
+// In-memory stand-in for the IndexedDB chunk store
+const mockStore = new Map<string, { meta: any; chunks: Blob[] }>();
+
+jest.mock("@/lib/utils/export-download-store", () => ({
+  isDownloadStoreAvailable: () => true,
+  getStoredDownload: async (jobId: string) => mockStore.get(jobId)?.meta ?? null,
+  appendChunk: async (download: any, previous: any, data: Blob) => {
+    const entry = mockStore.get(download.jobId) ?? { meta: null, chunks: [] };
+    entry.chunks.push(data);
+    entry.meta = {
+      ...download,
+      receivedBytes: (previous?.receivedBytes ?? 0) + data.size,
+      chunkCount: entry.chunks.length,
+      updatedAt: Date.now(),
+    };
+    mockStore.set(download.jobId, entry);
+    return entry.meta;
+  },
+  assembleDownload: async (download: any) => new Blob(mockStore.get(download.jobId)!.chunks),
+  clearStoredDownload: async (jobId: string) => {
+    mockStore.delete(jobId);
+  },
+}));
+
+const FILE = "hotel_id,name\n1,Hotel Arts\n";
+
+const response = (status: number, body: string, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    body: null,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    blob: async () => new Blob([body]),
+    json: async () => JSON.parse(body),
+  }) as unknown as Response;
+
+const partial = (start: number, end: number) =>
+  response(206, FILE.slice(start, end + 1), { "content-range": `bytes ${start}-${end}/${FILE.length}` });
+
+const rangeStart = (init: RequestInit) => Number(/bytes=(\d+)-/.exec((init.headers as any).Range)![1]);
+
+// jsdom's Blob has no text()
+const readText = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+describe("ExportAPI.downloadExport", () => {
+  let api: ExportAPI;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    mockStore.clear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    api = new ExportAPI();
+    jest.spyOn(api as any, "delay").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it("resumes from the stored bytes after the connection drops", async () => {
+    fetchMock
+      .mockResolvedValueOnce(partial(0, 9))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockImplementation(async (_url, init) => partial(rangeStart(init), FILE.length - 1));
+
+    const blob = await api.downloadExport("job-1");
+
+    expect(await readText(blob)).toBe(FILE);
+    expect(fetchMock.mock.calls.map(([, init]) => rangeStart(init))).toEqual([0, 10, 10]);
+  });
+
+  it("takes the whole body when the server ignores the Range header", async () => {
+    fetchMock.mockResolvedValue(response(200, FILE));
+
+    const blob = await api.downloadExport("job-1");
+
+    expect(await readText(blob)).toBe(FILE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after three retries when the network stays down", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    await expect(api.downloadExport("job-1")).rejects.toThrow("The connection was lost");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("fails instead of looping on an empty chunk", async () => {
+    fetchMock.mockResolvedValue(response(206, "", { "content-range": `bytes 0-0/${FILE.length}` }));
+
+    await expect(api.downloadExport("job-1")).rejects.toThrow("empty part");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry errors that aren't network failures", async () => {
+    fetchMock.mockResolvedValue(partial(0, FILE.length - 1));
+    jest
+      .spyOn(jest.requireMock("@/lib/utils/export-download-store"), "appendChunk")
+      .mockRejectedValueOnce(new TypeError("Cannot read properties of undefined"));
+
+    await expect(api.downloadExport("job-1")).rejects.toThrow("Cannot read properties of undefined");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
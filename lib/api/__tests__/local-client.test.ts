@@ -0,0 +1,99 @@
+import { LocalApiClient, mapApiResponse } from "../local-client";
+
+const response = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    blob: async () => new Blob([JSON.stringify(body)]),
+    json: async () => body,
+  }) as unknown as Response;
+
+describe("LocalApiClient", () => {
+  let client: LocalApiClient;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    client = new LocalApiClient();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  it("sends JSON bodies with the session cookie and no token", async () => {
+    fetchMock.mockResolvedValue(response(201, { success: true, data: { id: "1" } }));
+
+    const result = await client.post<{ id: string }>("/api/v1/issues", { title: "Broken" });
+
+    expect(result).toEqual({ success: true, data: { id: "1" } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("/api/v1/issues");
+    expect(init).toMatchObject({
+      method: "POST",
+      credentials: "same-origin",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: "Broken" }),
+    });
+    expect(init.headers).not.toHaveProperty("Authorization");
+  });
+
+  it("leaves FormData bodies for the browser to encode", async () => {
+    fetchMock.mockResolvedValue(response(200, { success: true, data: null }));
+    const form = new FormData();
+    form.append("file", new Blob(["x"]), "x.txt");
+
+    await client.post("/api/v1/issues/1/attachments", form);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.body).toBe(form);
+    expect(init.headers).toBeUndefined();
+  });
+
+  it("returns the route's message and details when it fails", async () => {
+    fetchMock.mockResolvedValue(
+      response(400, {
+        success: false,
+        error: "Validation failed",
+        message: "title is required",
+        details: ["title is required"],
+      }),
+    );
+
+    const result = await client.get("/api/v1/issues");
+
+    expect(result).toEqual({
+      success: false,
+      error: { status: 400, message: "title is required", details: ["title is required"] },
+    });
+  });
+
+  it("returns status 0 when the route can't be reached", async () => {
+    fetchMock.mockRejectedValue(new Error("Failed to fetch"));
+
+    const result = await client.get("/api/v1/issues");
+
+    expect(result).toEqual({ success: false, error: { status: 0, message: "Failed to fetch" } });
+  });
+
+  it("reads the file name of a download", async () => {
+    fetchMock.mockResolvedValue(
+      response(200, "a,b", { "content-disposition": 'attachment; filename="audit-log.csv"' }),
+    );
+
+    const result = await client.download("/api/v1/admin/audit/export");
+
+    expect(result.success).toBe(true);
+    expect(result.data?.fileName).toBe("audit-log.csv");
+  });
+});
+
+describe("mapApiResponse", () => {
+  it("maps data and passes failures through", () => {
+    expect(mapApiResponse({ success: true, data: 2 }, (n) => n * 2)).toEqual({ success: true, data: 4 });
+
+    const error = { status: 404, message: "Not found" };
+    expect(mapApiResponse<number, number>({ success: false, error }, (n) => n * 2)).toEqual({
+      success: false,
+      error,
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Admin Audit Log API Service
+ * Talks to the Next.js route handlers under /api/v1/admin/audit. Entries are written by the
+ * routes that perform each action, so there is nothing to record from here.
+ * For the caller's own API activity see audit.ts.
+ */
+
+import { localApiClient, mapApiResponse } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import { toAuditQuery } from '@/lib/utils/admin-audit';
+import type { AdminAuditFilters, AdminAuditPage } from '@/lib/types/admin-audit';
+
+const AUDIT_BASE_URL = '/api/v1/admin/audit';
+
+export class AdminAuditService {
+    /**
+     * Get one page of audit entries matching the filters, newest first
+     */
+    static async getEntries(
+        filters: AdminAuditFilters,
+        page: number = 1,
+        limit: number = 50
+    ): Promise<ApiResponse<AdminAuditPage>> {
+        const query = toAuditQuery(filters);
+        query.set('page', String(page));
+        query.set('limit', String(limit));
+
+        return localApiClient.get<AdminAuditPage>(`${AUDIT_BASE_URL}?${query.toString()}`);
+    }
+
+    /**
+     * Download every entry matching the filters as CSV
+     */
+    static async exportCsv(filters: AdminAuditFilters): Promise<ApiResponse<Blob>> {
+        const query = toAuditQuery(filters).toString();
+        const response = await localApiClient.download(`${AUDIT_BASE_URL}/export${query ? `?${query}` : ''}`);
+
+        return mapApiResponse(response, file => file.blob);
+    }
+}
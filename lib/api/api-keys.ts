@@ -0,0 +1,42 @@
+/**
+ * API Keys Service
+ * Talks to the Next.js route handlers under /api/v1/admin/users/:id/api-keys
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type { ApiKeySummary, CreateApiKeyInput, IssuedApiKey } from '@/lib/types/api-keys';
+
+const USERS_BASE_URL = '/api/v1/admin/users';
+
+export class ApiKeyService {
+    /**
+     * Every key the user has had, newest first
+     */
+    static async listKeys(userId: string): Promise<ApiResponse<ApiKeySummary[]>> {
+        return localApiClient.get<ApiKeySummary[]>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/api-keys`);
+    }
+
+    /**
+     * Issue a named key. The secret is only returned here.
+     */
+    static async createKey(userId: string, input: CreateApiKeyInput): Promise<ApiResponse<IssuedApiKey>> {
+        return localApiClient.post<IssuedApiKey>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/api-keys`, input);
+    }
+
+    /**
+     * Replace a key, keeping the old one working for `graceHours`
+     */
+    static async rotateKey(userId: string, keyId: string, graceHours: number): Promise<ApiResponse<IssuedApiKey>> {
+        return localApiClient.post<IssuedApiKey>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/api-keys/${encodeURIComponent(keyId)}/rotate`,
+            { graceHours }
+        );
+    }
+
+    static async revokeKey(userId: string, keyId: string): Promise<ApiResponse<ApiKeySummary>> {
+        return localApiClient.delete<ApiKeySummary>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/api-keys/${encodeURIComponent(keyId)}`
+        );
+    }
+}
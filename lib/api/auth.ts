@@ -1,8 +1,11 @@
 /**
  * Authentication API service
+ * The access token is kept only in the httpOnly session cookie. Page scripts never store it;
+ * backend calls go through the same-origin backend proxy and route handlers read the cookie.
  */
 
 import { apiClient } from './client';
+import { localApiClient } from './local-client';
 import { apiEndpoints, config } from '@/lib/config';
 import { TokenStorage } from '@/lib/auth/token-storage';
 // Mock authentication removed - using only real API
@@ -72,7 +75,7 @@ export class AuthService {
     /**
      * Login user with credentials - ONLY uses real API
      * @param credentials - Login credentials (username and password)
-     * @param rememberMe - If true, tokens are stored in localStorage (persistent). If false, stored in sessionStorage (session-only)
+     * @param rememberMe - If true, the session cookie outlives the browser session. If false, it is a session cookie
      */
     static async login(credentials: LoginCredentials, rememberMe: boolean = true): Promise<ApiResponse<AuthResponse>> {
         console.log("🔐 AuthService.login called with:", { username: credentials.username });
@@ -107,13 +110,21 @@ export class AuthService {
                 console.log("✅ API login successful");
                 console.log("🔍 Raw token:", response.data.access_token.substring(0, 50) + "...");
 
-                // Store tokens immediately (don't fail on validation)
-                console.log("💾 Storing API tokens...", { rememberMe });
-                TokenStorage.setToken(response.data.access_token, rememberMe);
-                if (response.data.refresh_token) {
-                    TokenStorage.setRefreshToken(response.data.refresh_token, rememberMe);
+                // Tokens stored by earlier versions are replaced by the cookie
+                TokenStorage.clearTokens();
+
+                // The httpOnly session cookie is the only place the token is kept. Without it every
+                // protected page would send the user back to login.
+                console.log("💾 Starting session...", { rememberMe });
+                if (!(await this.syncSessionCookie(response.data.access_token, rememberMe))) {
+                    return {
+                        success: false,
+                        error: {
+                            status: 503,
+                            message: 'Unable to start your session right now. Please try again.',
+                        },
+                    };
                 }
-                console.log("✅ API tokens stored successfully");
 
                 // Validate the access token (but don't fail if validation fails)
                 const isValidToken = this.isValidJWT(response.data.access_token);
@@ -143,13 +154,13 @@ export class AuthService {
     }
 
     /**
-     * Logout user - clears tokens and optionally calls API logout
+     * Logout user - calls API logout, then clears the session cookie
      */
     static async logout(): Promise<void> {
         try {
             console.log("🚪 AuthService: Logging out user...");
 
-            // Call logout endpoint first
+            // Call logout endpoint first, while the session cookie still authenticates it
             try {
                 console.log("🔄 AuthService: Calling logout API...");
                 const response = await apiClient.post(apiEndpoints.auth.logout, {}, true, 0); // No retries for logout
@@ -162,93 +173,45 @@ export class AuthService {
                 console.warn("⚠️ AuthService: Logout API call failed, continuing with local logout:", apiError);
             }
 
-            // Clear tokens from storage
-            console.log("🧹 AuthService: Clearing tokens from storage...");
+            console.log("🧹 AuthService: Clearing the session...");
             TokenStorage.clearTokens();
-
-            // Verify tokens are cleared
-            const tokenAfter = TokenStorage.getToken();
-            const refreshTokenAfter = TokenStorage.getRefreshToken();
-            console.log("🔍 AuthService: Token after clear:", tokenAfter ? "STILL EXISTS" : "CLEARED");
-            console.log("🔍 AuthService: Refresh token after clear:", refreshTokenAfter ? "STILL EXISTS" : "CLEARED");
+            await this.syncSessionCookie(null);
 
             console.log("✅ AuthService: Logout completed");
         } catch (error) {
             console.error('❌ AuthService: Logout error:', error);
             // Still clear tokens even if API call fails
             TokenStorage.clearTokens();
+            await this.syncSessionCookie(null);
         }
     }
 
     /**
-     * Get current user profile - tries real API first, then fallback
+     * Get the session user. The session route validates the cookie's token against the backend
+     * and adds the role matrix permissions (custom role assignments, edited role permissions and
+     * per-user overrides).
      */
     static async getCurrentUser(): Promise<ApiResponse<User>> {
         console.log("👤 AuthService.getCurrentUser called");
 
-        // Get the current token
-        const token = TokenStorage.getToken();
+        const response = await localApiClient.get<User>('/api/v1/auth/session');
 
-        if (!token) {
-            return {
-                success: false,
-                error: {
-                    status: 401,
-                    message: 'No authentication token available',
-                },
-            };
-        }
-
-        try {
-            const apiUrl = `${config.api.url}${apiEndpoints.users.profile}`;
-            console.log("📡 Making request to:", apiUrl);
-
-            const response = await apiClient.get<any>(apiEndpoints.users.profile);
-            console.log("📡 User profile response:", response);
-
-            if (response.success && response.data) {
-                // Map backend user data to frontend User type
-                const backendUser = response.data;
-                console.log("🔄 Mapping backend user:", backendUser);
-                const mappedUser: User = this.mapBackendUserToFrontend(backendUser);
-                console.log("✅ Mapped user:", mappedUser);
-
-                return {
-                    success: true,
-                    data: mappedUser
-                };
-            } else {
-                console.warn("❌ User profile request failed:", response.error);
-                // Don't throw error, let it fall through to the fallback logic
-                console.log("🔄 API failed, proceeding to token fallback...");
-            }
-        } catch (error) {
-            console.error('❌ API failed, using token fallback:', error);
+        if (response.success) {
+            console.log("✅ Session user loaded:", response.data?.username);
+        } else {
+            console.warn("❌ Session user request failed:", response.error);
         }
 
-        // Create user from JWT token as fallback (moved outside try-catch)
-        if (token && this.isValidJWT(token)) {
-            console.log("🔄 Creating user from JWT token as fallback");
-            try {
-                const payload = JSON.parse(atob(token.split('.')[1]));
-                const fallbackUser = this.createFallbackUser(payload.sub || 'user', token);
-                console.log("✅ Created fallback user:", fallbackUser);
-                return {
-                    success: true,
-                    data: fallbackUser
-                };
-            } catch (tokenError) {
-                console.warn("❌ Failed to create user from token:", tokenError);
-            }
-        }
+        return response;
+    }
 
-        return {
-            success: false,
-            error: {
-                status: 500,
-                message: 'Unable to fetch user profile from server',
-            },
-        };
+    /**
+     * Move an access token stored by an earlier version into the session cookie, so those
+     * sessions survive the upgrade. Returns false when there was no token or it was rejected.
+     */
+    static async restoreStoredSession(): Promise<boolean> {
+        const token = TokenStorage.takeStoredToken();
+        return token ? this.syncSessionCookie(token) : false;
     }
 
     /**
@@ -264,88 +227,27 @@ export class AuthService {
     }
 
     /**
-     * Check if user is authenticated - simplified check
-     */
-    static isAuthenticated(): boolean {
-        const token = TokenStorage.getToken();
-
-        if (!token) {
-            console.log("❌ No token found, user not authenticated");
-            return false;
-        }
-
-        console.log("✅ Token found, user authenticated");
-        return true;
-    }
-
-    /**
-     * Check if token is expired (separate method for internal use)
-     */
-    static isTokenExpired(): boolean {
-        const token = TokenStorage.getToken();
-        if (!token) return true;
-
-        try {
-            const payload = JSON.parse(atob(token.split('.')[1]));
-            const currentTime = Math.floor(Date.now() / 1000);
-            return payload.exp < currentTime;
-        } catch (error) {
-            return true;
-        }
-    }
-
-    /**
-     * Get stored token
+     * Set (or clear, when token is null) the httpOnly session cookie used by the middleware.
+     * Returns false when the session route rejects the token or can't be reached.
      */
-    static getToken(): string | null {
-        return TokenStorage.getToken();
-    }
-
-    /**
-     * Refresh authentication token - ONLY uses real API
-     */
-    static async refreshToken(): Promise<ApiResponse<AuthResponse>> {
-        const refreshToken = TokenStorage.getRefreshToken();
-
-        if (!refreshToken) {
-            console.log("❌ No refresh token available, skipping refresh");
-            return {
-                success: false,
-                error: {
-                    status: 401,
-                    message: 'No refresh token available',
-                },
-            };
-        }
+    static async syncSessionCookie(token: string | null, rememberMe: boolean = true): Promise<boolean> {
+        if (typeof window === 'undefined') return false;
 
         try {
-            console.log("🔄 Attempting to refresh token with real API...");
-
-            const response = await apiClient.post<AuthResponse>(
-                apiEndpoints.auth.refresh,
-                { refresh_token: refreshToken },
-                false
-            );
+            const response = await fetch('/api/v1/auth/session', {
+                method: token ? 'POST' : 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'same-origin',
+                body: token ? JSON.stringify({ token, rememberMe }) : undefined,
+            });
 
-            // Update stored tokens if refresh successful
-            if (response.success && response.data) {
-                console.log("✅ Token refreshed successfully");
-                TokenStorage.setToken(response.data.access_token);
-                if (response.data.refresh_token) {
-                    TokenStorage.setRefreshToken(response.data.refresh_token);
-                }
+            if (!response.ok) {
+                console.warn("⚠️ Session cookie sync failed:", response.status);
             }
-
-            return response;
+            return response.ok;
         } catch (error) {
-            console.error("❌ Token refresh failed:", error);
-            return {
-                success: false,
-                error: {
-                    status: 500,
-                    message: error instanceof Error ? error.message : 'Token refresh failed',
-                },
-            };
+            console.warn("⚠️ Session cookie sync failed:", error);
+            return false;
         }
     }
 
@@ -384,48 +286,51 @@ export class AuthService {
     /**
      * Create a fallback user object when user profile fetch fails
      */
-    static createFallbackUser(username: string, token: string): User {
+    static createFallbackUser(username: string, token?: string): User {
         // Try to decode JWT token to get user info
         let userId = username;
         let role: UserRole = UserRole.GENERAL_USER;
         let email = `${username}@example.com`;
 
-        try {
-            const payload = JSON.parse(atob(token.split('.')[1]));
+        // Without a token (e.g. the session route was unavailable) the user gets the least access
+        if (token) {
+            try {
+                const payload = JSON.parse(atob(token.split('.')[1]));
 
-            // Extract user info from JWT payload
-            if (payload.sub) {
-                userId = payload.sub;
-            }
-            if (payload.user_id) {
-                userId = payload.user_id;
-            }
+                // Extract user info from JWT payload
+                if (payload.sub) {
+                    userId = payload.sub;
+                }
+                if (payload.user_id) {
+                    userId = payload.user_id;
+                }
 
-            // Map role from JWT
-            if (payload.role) {
-                switch (payload.role) {
-                    case 'super_user':
-                        role = UserRole.SUPER_USER;
-                        break;
-                    case 'admin_user':
-                        role = UserRole.ADMIN_USER;
-                        break;
-                    case 'general_user':
-                    default:
-                        role = UserRole.GENERAL_USER;
-                        break;
+                // Map role from JWT
+                if (payload.role) {
+                    switch (payload.role) {
+                        case 'super_user':
+                            role = UserRole.SUPER_USER;
+                            break;
+                        case 'admin_user':
+                            role = UserRole.ADMIN_USER;
+                            break;
+                        case 'general_user':
+                        default:
+                            role = UserRole.GENERAL_USER;
+                            break;
+                    }
                 }
-            }
 
-            console.log("🔄 Created fallback user from JWT:", {
-                userId,
-                username,
-                role,
-                exp: new Date(payload.exp * 1000).toISOString()
-            });
+                console.log("🔄 Created fallback user from JWT:", {
+                    userId,
+                    username,
+                    role,
+                    exp: new Date(payload.exp * 1000).toISOString()
+                });
 
-        } catch (error) {
-            console.warn('Failed to decode JWT token for fallback user:', error);
+            } catch (error) {
+                console.warn('Failed to decode JWT token for fallback user:', error);
+            }
         }
 
         return {
@@ -0,0 +1,30 @@
+/**
+ * Backend proxy paths
+ * The browser reaches the backend through /api/v1/backend, which adds the access token from the
+ * httpOnly session cookie, so the token is never stored where page scripts can read it.
+ */
+
+export const BACKEND_PROXY_URL = '/api/v1/backend';
+
+// Longest backend path (with its query string) the proxy forwards
+const MAX_BACKEND_PATH_LENGTH = 2048;
+
+/**
+ * Same-origin URL for a backend path, relative to the versioned API URL (e.g. '/user/check-me')
+ */
+export function backendUrl(path: string): string {
+    return `${BACKEND_PROXY_URL}?path=${encodeURIComponent(path)}`;
+}
+
+/**
+ * Whether a path can be appended to the backend API URL without leaving it
+ */
+export function isValidBackendPath(path: string): boolean {
+    if (!path.startsWith('/') || path.startsWith('//') || path.length > MAX_BACKEND_PATH_LENGTH) {
+        return false;
+    }
+
+    // fetch() resolves percent-encoded dot segments too
+    const pathname = path.split(/[?#]/)[0].replace(/%2e/gi, '.');
+    return !pathname.includes('\\') && !pathname.split('/').some((segment) => segment === '..' || segment === '.');
+}
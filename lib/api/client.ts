@@ -1,7 +1,10 @@
 import { isDevelopmentMode, shouldLogAsError, getApiErrorMessage } from '../utils/dev-mode-helper';
+import { backendUrl } from './backend-proxy';
 
 /**
  * API Client for making HTTP requests to the backend
+ * In the browser, requests go through the same-origin backend proxy, which adds the access token
+ * from the httpOnly session cookie.
  */
 
 export interface RequestConfig {
@@ -124,23 +127,6 @@ export class ApiClient {
     };
 
     if (requiresAuth) {
-      const token = typeof localStorage !== 'undefined' ? localStorage.getItem('admin_auth_token') : null;
-      if (token) {
-        requestHeaders['Authorization'] = `Bearer ${token}`;
-        console.log('✅ Token added to headers');
-      } else {
-        console.warn('⚠️ No auth token found in localStorage');
-        // For authenticated endpoints without token, return early with auth error
-        return {
-          success: false,
-          error: {
-            status: 401,
-            message: 'Authentication required. Please log in to continue.',
-            details: { reason: 'no_token' }
-          }
-        };
-      }
-
       // Add X-API-Key header if available (required for export endpoints and general users)
       const isExportEndpoint = endpoint.includes('/export') ||
         endpoint.includes('/download') ||
@@ -169,8 +155,8 @@ export class ApiClient {
     const requestConfig: RequestInit = {
       method,
       headers: requestHeaders,
-      mode: 'cors',
-      credentials: 'omit', // Changed from 'include' to avoid CORS issues
+      // The session cookie only goes to the same-origin proxy, never to the backend itself
+      credentials: 'same-origin',
       // Use the abort controller for better connection handling
       signal: abortController.signal,
     };
@@ -191,8 +177,12 @@ export class ApiClient {
       }
     }
 
-    // Support absolute URLs; otherwise, prepend baseUrl
-    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.baseUrl}${endpoint}`;
+    // Support absolute URLs; otherwise go through the proxy in the browser, or prepend baseUrl on the server
+    const url = /^https?:\/\//.test(endpoint)
+      ? endpoint
+      : typeof window !== 'undefined'
+        ? backendUrl(endpoint)
+        : `${this.baseUrl}${endpoint}`;
 
     try {
       console.log(`🌐 Making request to: ${url}`);
@@ -215,10 +205,7 @@ export class ApiClient {
         if (!isApiKeyError) {
           // Only redirect to login if it's NOT an API key error
           console.warn('🔒 Authentication error detected - redirecting to login');
-          if (typeof window !== 'undefined') {
-            // Clear auth token from localStorage (Requirement 6.3)
-            localStorage.removeItem('admin_auth_token');
-
+          if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
             // Store session expired message to show on login page (Requirement 6.3)
             sessionStorage.setItem('auth_error_message', 'Your session has expired. Please log in again.');
 
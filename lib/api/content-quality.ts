@@ -0,0 +1,49 @@
+/**
+ * Content Quality Service
+ * Talks to the Next.js route handlers under /api/v1/hotels/content-quality, which keep
+ * the latest completeness score per supplier and hotel.
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    ContentQualityCheckKey,
+    ContentQualityRecord,
+    RecordContentQualityInput,
+    SupplierContentQuality,
+} from '@/lib/types/content-quality';
+
+const CONTENT_QUALITY_BASE_URL = '/api/v1/hotels/content-quality';
+
+export class ContentQualityService {
+    /**
+     * Per-supplier averages, lowest first
+     */
+    static async getSupplierSummary(countryCode?: string): Promise<ApiResponse<SupplierContentQuality[]>> {
+        const query = countryCode ? `?country=${encodeURIComponent(countryCode)}` : '';
+        return localApiClient.get<SupplierContentQuality[]>(`${CONTENT_QUALITY_BASE_URL}${query}`);
+    }
+
+    /**
+     * One supplier's hotel scores, lowest first
+     */
+    static async getSupplierHotels(
+        supplier: string,
+        filters: { countryCode?: string; missing?: ContentQualityCheckKey; maxScore?: number } = {}
+    ): Promise<ApiResponse<ContentQualityRecord[]>> {
+        const query = new URLSearchParams({ supplier });
+        if (filters.countryCode) query.set('country', filters.countryCode);
+        if (filters.missing) query.set('missing', filters.missing);
+        if (filters.maxScore !== undefined) query.set('maxScore', String(filters.maxScore));
+
+        return localApiClient.get<ContentQualityRecord[]>(`${CONTENT_QUALITY_BASE_URL}/hotels?${query.toString()}`);
+    }
+
+    /**
+     * Score every supplier of one hotel from its full details on the backend and record the results
+     */
+    static async recordScores(ittid: string): Promise<ApiResponse<ContentQualityRecord[]>> {
+        const input: RecordContentQualityInput = { ittid };
+        return localApiClient.post<ContentQualityRecord[]>(CONTENT_QUALITY_BASE_URL, input);
+    }
+}
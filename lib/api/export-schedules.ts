@@ -0,0 +1,63 @@
+/**
+ * Export Schedule API Service
+ * Talks to the Next.js route handlers under /api/v1/exports/schedules
+ */
+
+import { localApiClient, type LocalDownload } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    CreateExportScheduleInput,
+    ExportSchedule,
+    ExportScheduleRun,
+    UpdateExportScheduleInput,
+} from '@/lib/types/exports';
+
+const SCHEDULES_BASE_URL = '/api/v1/exports/schedules';
+
+export class ExportScheduleService {
+    /**
+     * Get the current user's schedules
+     */
+    static async getSchedules(): Promise<ApiResponse<ExportSchedule[]>> {
+        return localApiClient.get<ExportSchedule[]>(SCHEDULES_BASE_URL);
+    }
+
+    /**
+     * Attach a schedule to a saved filter preset
+     */
+    static async createSchedule(input: CreateExportScheduleInput): Promise<ApiResponse<ExportSchedule>> {
+        return localApiClient.post<ExportSchedule>(SCHEDULES_BASE_URL, input);
+    }
+
+    /**
+     * Change a schedule's rule or pause/resume it
+     */
+    static async updateSchedule(
+        scheduleId: string,
+        updates: UpdateExportScheduleInput
+    ): Promise<ApiResponse<ExportSchedule>> {
+        return localApiClient.patch<ExportSchedule>(`${SCHEDULES_BASE_URL}/${encodeURIComponent(scheduleId)}`, updates);
+    }
+
+    /**
+     * Delete a schedule and its run history
+     */
+    static async deleteSchedule(scheduleId: string): Promise<ApiResponse<void>> {
+        return localApiClient.delete<void>(`${SCHEDULES_BASE_URL}/${encodeURIComponent(scheduleId)}`);
+    }
+
+    /**
+     * Get past and in-progress runs, optionally for a single schedule
+     */
+    static async getRuns(scheduleId?: string): Promise<ApiResponse<ExportScheduleRun[]>> {
+        const query = scheduleId ? `?scheduleId=${encodeURIComponent(scheduleId)}` : '';
+        return localApiClient.get<ExportScheduleRun[]>(`${SCHEDULES_BASE_URL}/runs${query}`);
+    }
+
+    /**
+     * Fetch a completed run's export file
+     */
+    static async downloadRun(runId: string): Promise<ApiResponse<LocalDownload>> {
+        return localApiClient.download(`${SCHEDULES_BASE_URL}/runs/${encodeURIComponent(runId)}/download`);
+    }
+}
@@ -4,13 +4,67 @@
 
 import { apiClient } from './client';
 import type { ApiResponse } from './client';
+import { backendUrl } from './backend-proxy';
+import { EXPORT_FORMATS } from '@/lib/types/exports';
+import {
+    appendChunk,
+    assembleDownload,
+    clearStoredDownload,
+    getStoredDownload,
+    isDownloadStoreAvailable,
+} from '@/lib/utils/export-download-store';
 import type {
+    ExportDownloadProgress,
+    ExportFormat,
     ExportJobResponse,
     ExportJobStatus,
     HotelExportFilters,
     MappingExportFilters,
 } from '@/lib/types/exports';
 
+// Size of each Range request when downloading export files
+const DOWNLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8 MB
+
+/**
+ * Parse a Content-Range header ("bytes 0-1023/4096"). The total is null when the server sends "*".
+ */
+const parseContentRange = (header: string | null): { start: number; end: number; total: number | null } | null => {
+    const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+    if (!match) return null;
+
+    return {
+        start: Number(match[1]),
+        end: Number(match[2]),
+        total: match[3] === '*' ? null : Number(match[3]),
+    };
+};
+
+/**
+ * A download request or body read that failed because the connection dropped.
+ * Only these are retried; other errors (including bugs) surface straight away.
+ */
+class DownloadNetworkError extends Error {
+    constructor() {
+        super('The connection was lost while downloading the export file. Check your connection and try again.');
+        this.name = 'DownloadNetworkError';
+    }
+}
+
+/**
+ * Await a fetch or body read, turning the TypeError fetch rejects with on network failure
+ * into a DownloadNetworkError
+ */
+const overNetwork = async <T>(pending: Promise<T>): Promise<T> => {
+    try {
+        return await pending;
+    } catch (error) {
+        if (error instanceof TypeError) {
+            throw new DownloadNetworkError();
+        }
+        throw error;
+    }
+};
+
 /**
  * Helper function to log errors in development mode
  */
@@ -54,15 +108,24 @@ const getErrorMessage = (status: number, defaultMessage: string, context: string
     }
 };
 
+/**
+ * Helper function to reject formats the backend can't produce before sending the request
+ */
+const unsupportedFormatError = (format: ExportFormat): ApiResponse<ExportJobResponse> => ({
+    success: false,
+    error: {
+        status: 400,
+        message: `Unsupported export format "${format}". Choose one of: ${EXPORT_FORMATS.join(', ')}.`,
+    },
+});
+
 /**
  * Helper function to handle 401 errors by redirecting to login
- * Requirement 6.3: Detect 401 errors, clear auth token, redirect to login, show "Session expired" message
+ * Requirement 6.3: Detect 401 errors, redirect to login, show "Session expired" message
  */
 const handleAuthError = () => {
     if (typeof window !== 'undefined') {
         logError('Authentication', 'Session expired, redirecting to login');
-        // Clear auth token from localStorage (Requirement 6.3)
-        localStorage.removeItem('admin_auth_token');
 
         // Store session expired message to show on login page (Requirement 6.3)
         sessionStorage.setItem('auth_error_message', 'Your session has expired. Please log in again.');
@@ -84,6 +147,21 @@ export class ExportAPI {
     async createHotelExport(
         filters: HotelExportFilters
     ): Promise<ApiResponse<ExportJobResponse>> {
+        if (!EXPORT_FORMATS.includes(filters.format)) {
+            return unsupportedFormatError(filters.format);
+        }
+
+        // GeoJSON features are built from each hotel's latitude/longitude
+        if (filters.format === 'geojson' && !filters.include_locations) {
+            return {
+                success: false,
+                error: {
+                    status: 400,
+                    message: 'GeoJSON exports need location data. Enable "Include Locations" and try again.',
+                },
+            };
+        }
+
         try {
             console.log('🔍 Original hotel filters (nested):', JSON.stringify(filters, null, 2));
 
@@ -165,6 +243,10 @@ export class ExportAPI {
     async createMappingExport(
         filters: MappingExportFilters
     ): Promise<ApiResponse<ExportJobResponse>> {
+        if (!EXPORT_FORMATS.includes(filters.format)) {
+            return unsupportedFormatError(filters.format);
+        }
+
         try {
             console.log('🔍 Original filters (nested):', JSON.stringify(filters, null, 2));
 
@@ -309,13 +391,19 @@ export class ExportAPI {
     }
 
     /**
-     * Download a completed export file with retry logic
+     * Download a completed export file with retry logic.
+     * The file is fetched in HTTP Range chunks stored in IndexedDB, so failed or
+     * interrupted downloads resume from the last stored byte.
      * @param jobId - The unique job identifier for the completed export
+     * @param onProgress - Called after each chunk with byte-level progress
      * @returns Promise with file Blob for download
      * @throws Error with user-friendly message on failure
      */
-    async downloadExport(jobId: string): Promise<Blob> {
-        return this.downloadExportWithRetry(jobId, 3);
+    async downloadExport(
+        jobId: string,
+        onProgress?: (progress: ExportDownloadProgress) => void
+    ): Promise<Blob> {
+        return this.downloadExportWithRetry(jobId, 3, 1000, onProgress);
     }
 
     /**
@@ -323,47 +411,34 @@ export class ExportAPI {
      * @param jobId - The unique job identifier for the completed export
      * @param retriesLeft - Number of retry attempts remaining
      * @param retryDelay - Delay in milliseconds before retry (default: 1000ms)
+     * @param onProgress - Called after each chunk with byte-level progress
      * @returns Promise with file Blob for download
      * @throws Error with user-friendly message on failure
      */
     private async downloadExportWithRetry(
         jobId: string,
         retriesLeft: number,
-        retryDelay: number = 1000
+        retryDelay: number = 1000,
+        onProgress?: (progress: ExportDownloadProgress) => void
     ): Promise<Blob> {
+        // Bytes received during this attempt; an attempt that made progress doesn't use up a retry
+        let receivedThisAttempt = 0;
+
         try {
             console.log(`📥 Downloading export file for job: ${jobId}`);
 
-            // Get authentication token
-            const token = typeof localStorage !== 'undefined'
-                ? localStorage.getItem('admin_auth_token')
-                : null;
-
-            if (!token) {
-                const error = new Error('Your session has expired. Please log in again.');
-                logError('downloadExport', 'Authentication token not found');
-
-                // Redirect to login on auth error
-                handleAuthError();
-                throw error;
-            }
-
             // Get API key for general users
             const apiKey = typeof localStorage !== 'undefined'
                 ? localStorage.getItem('user_api_key')
                 : null;
 
-            // Construct the download URL
-            const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://127.0.0.1:8001';
-            const apiVersion = process.env.NEXT_PUBLIC_API_VERSION || 'v1.0';
-            const downloadUrl = `${baseUrl}/${apiVersion}/export/download/${jobId}`;
+            // The backend proxy adds the access token from the session cookie
+            const downloadUrl = backendUrl(`/export/download/${jobId}`);
 
             console.log(`🌐 Fetching from: ${downloadUrl}`);
 
             // Prepare headers
-            const headers: Record<string, string> = {
-                'Authorization': `Bearer ${token}`,
-            };
+            const headers: Record<string, string> = {};
 
             // Add API key header if available (required for general users)
             if (apiKey) {
@@ -373,82 +448,136 @@ export class ExportAPI {
                 console.log('ℹ️ No API key found (admin/super admin user)');
             }
 
-            // Make the download request
-            const response = await fetch(downloadUrl, {
-                method: 'GET',
-                headers,
-                mode: 'cors',
-                credentials: 'omit',
-            });
-
-            if (!response.ok) {
-                // Try to parse error message from response
-                let errorMessage = `Download failed with status ${response.status}`;
-
-                try {
-                    const errorData = await response.json();
-                    errorMessage = errorData.message || errorData.error || errorMessage;
-                } catch {
-                    errorMessage = response.statusText || errorMessage;
+            // Without IndexedDB there is nowhere to keep chunks, so fetch the file in one request
+            if (!isDownloadStoreAvailable()) {
+                const response = await overNetwork(fetch(downloadUrl, {
+                    method: 'GET',
+                    headers,
+                }));
+
+                if (!response.ok) {
+                    return this.handleFailedDownload(response, jobId, retriesLeft, retryDelay, onProgress);
                 }
 
-                logError('downloadExport', `Download failed with status ${response.status}: ${errorMessage}`);
+                return overNetwork(this.readWholeResponse(response, onProgress));
+            }
 
-                // Handle specific error cases
-                if (response.status === 401) {
-                    handleAuthError();
-                    throw new Error('Your session has expired. Please log in again.');
-                }
+            let stored = await getStoredDownload(jobId);
+            const resumedFromBytes = stored?.receivedBytes ?? 0;
 
-                if (response.status === 403) {
-                    throw new Error("You don't have permission to download this export.");
+            if (stored) {
+                console.log(`🔄 Resuming download for job ${jobId} from byte ${resumedFromBytes}`);
+                onProgress?.({ receivedBytes: resumedFromBytes, totalBytes: stored.totalBytes, resumedFromBytes });
+            }
+
+            while (!stored || stored.totalBytes === null || stored.receivedBytes < stored.totalBytes) {
+                const start = stored?.receivedBytes ?? 0;
+                const rangeHeaders: Record<string, string> = {
+                    ...headers,
+                    'Range': `bytes=${start}-${start + DOWNLOAD_CHUNK_SIZE - 1}`,
+                };
+
+                // If the file changed since the stored chunks, the server sends it whole instead
+                if (stored?.etag) {
+                    rangeHeaders['If-Range'] = stored.etag;
                 }
 
-                if (response.status === 404) {
-                    throw new Error(`Export file for job '${jobId}' not found or has expired.`);
+                const response = await overNetwork(fetch(downloadUrl, {
+                    method: 'GET',
+                    headers: rangeHeaders,
+                }));
+
+                if (response.status === 416) {
+                    // Nothing past the stored bytes: the file is complete when its size was unknown
+                    if (stored && stored.totalBytes === null) {
+                        break;
+                    }
+
+                    // Stored chunks don't match the file on the server; start over
+                    if (stored) {
+                        await clearStoredDownload(jobId);
+                        stored = null;
+                        continue;
+                    }
+
+                    return new Blob([]);
                 }
 
-                // Retry on server errors (5xx) if retries are available
-                if (response.status >= 500 && retriesLeft > 0) {
-                    logError('downloadExport', `Server error, retrying in ${retryDelay}ms...`);
-                    await this.delay(retryDelay);
-                    return this.downloadExportWithRetry(jobId, retriesLeft - 1, retryDelay * 1.5);
+                if (!response.ok) {
+                    return this.handleFailedDownload(response, jobId, retriesLeft, retryDelay, onProgress);
                 }
 
-                if (response.status >= 500) {
-                    throw new Error('Server error occurred while downloading. Please try again later.');
+                // Server ignored the Range header (or If-Range didn't match): take the whole body
+                if (response.status !== 206) {
+                    if (stored) {
+                        await clearStoredDownload(jobId);
+                    }
+                    return overNetwork(this.readWholeResponse(response, onProgress));
                 }
 
-                throw new Error(getErrorMessage(response.status, errorMessage, 'download'));
-            }
+                const range = parseContentRange(response.headers.get('content-range'));
+
+                if (range && range.start !== start) {
+                    throw new Error('The server returned an unexpected part of the export file. Please try again.');
+                }
 
-            // Check content type to handle both blob and JSON responses
-            const contentType = response.headers.get('content-type') || '';
+                const chunk = await overNetwork(response.blob());
 
-            let blob: Blob;
+                // A 206 always carries bytes; an empty one would otherwise be requested again forever
+                if (chunk.size === 0) {
+                    throw new Error('The server returned an empty part of the export file. Please try again.');
+                }
 
-            if (contentType.includes('application/json')) {
-                // Backend returned JSON data - convert to blob
-                console.log('📄 Backend returned JSON data, converting to blob...');
-                const jsonData = await response.json();
-                const jsonString = JSON.stringify(jsonData, null, 2);
-                blob = new Blob([jsonString], { type: 'application/json' });
-            } else {
-                // Backend returned blob directly
-                blob = await response.blob();
+                stored = await appendChunk(
+                    {
+                        jobId,
+                        totalBytes: range?.total ?? stored?.totalBytes ?? null,
+                        etag: stored?.etag ?? response.headers.get('etag'),
+                        contentType: stored?.contentType
+                            ?? response.headers.get('content-type')
+                            ?? 'application/octet-stream',
+                    },
+                    stored,
+                    chunk
+                );
+                receivedThisAttempt += chunk.size;
+
+                onProgress?.({
+                    receivedBytes: stored.receivedBytes,
+                    totalBytes: stored.totalBytes,
+                    resumedFromBytes,
+                });
+
+                // Without a total size, a short chunk means the end of the file
+                if (stored.totalBytes === null && chunk.size < DOWNLOAD_CHUNK_SIZE) {
+                    break;
+                }
             }
 
+            const blob = await assembleDownload(stored);
+            await clearStoredDownload(jobId);
+
             console.log(`✅ Export file downloaded successfully (${blob.size} bytes)`);
 
             return blob;
         } catch (error) {
             logError('downloadExport', error);
 
-            // Check if this is a network error and retry if possible
-            if (error instanceof TypeError && error.message.includes('fetch') && retriesLeft > 0) {
-                logError('downloadExport', `Network error, retrying in ${retryDelay}ms...`);
+            if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+                throw new Error('Not enough browser storage to download this export. Free up disk space and try again.');
+            }
+
+            // Network errors (including a connection dropped mid-chunk) resume from the stored bytes
+            if (error instanceof DownloadNetworkError && retriesLeft > 0) {
+                const nextRetries = receivedThisAttempt > 0 ? retriesLeft : retriesLeft - 1;
+                logError('downloadExport', `Network error, resuming in ${retryDelay}ms...`);
                 await this.delay(retryDelay);
-                return this.downloadExportWithRetry(jobId, retriesLeft - 1, retryDelay * 1.5);
+                return this.downloadExportWithRetry(
+                    jobId,
+                    nextRetries,
+                    receivedThisAttempt > 0 ? 1000 : retryDelay * 1.5,
+                    onProgress
+                );
             }
 
             // Re-throw the error if it's already a user-friendly Error
@@ -461,6 +590,92 @@ export class ExportAPI {
         }
     }
 
+    /**
+     * Turn a failed download response into a user-friendly error, retrying server errors
+     */
+    private async handleFailedDownload(
+        response: Response,
+        jobId: string,
+        retriesLeft: number,
+        retryDelay: number,
+        onProgress?: (progress: ExportDownloadProgress) => void
+    ): Promise<Blob> {
+        // Try to parse error message from response
+        let errorMessage = `Download failed with status ${response.status}`;
+
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.message || errorData.error || errorMessage;
+        } catch {
+            errorMessage = response.statusText || errorMessage;
+        }
+
+        logError('downloadExport', `Download failed with status ${response.status}: ${errorMessage}`);
+
+        // Handle specific error cases
+        if (response.status === 401) {
+            handleAuthError();
+            throw new Error('Your session has expired. Please log in again.');
+        }
+
+        if (response.status === 403) {
+            throw new Error("You don't have permission to download this export.");
+        }
+
+        if (response.status === 404) {
+            if (isDownloadStoreAvailable()) {
+                await clearStoredDownload(jobId);
+            }
+            throw new Error(`Export file for job '${jobId}' not found or has expired.`);
+        }
+
+        // Retry on server errors (5xx) if retries are available
+        if (response.status >= 500 && retriesLeft > 0) {
+            logError('downloadExport', `Server error, retrying in ${retryDelay}ms...`);
+            await this.delay(retryDelay);
+            return this.downloadExportWithRetry(jobId, retriesLeft - 1, retryDelay * 1.5, onProgress);
+        }
+
+        if (response.status >= 500) {
+            throw new Error('Server error occurred while downloading. Please try again later.');
+        }
+
+        throw new Error(getErrorMessage(response.status, errorMessage, 'download'));
+    }
+
+    /**
+     * Read a complete (non-ranged) response body, reporting progress as it streams in
+     */
+    private async readWholeResponse(
+        response: Response,
+        onProgress?: (progress: ExportDownloadProgress) => void
+    ): Promise<Blob> {
+        const contentType = response.headers.get('content-type') || 'application/octet-stream';
+        const contentLength = Number(response.headers.get('content-length')) || null;
+
+        if (!response.body || !onProgress) {
+            return response.blob();
+        }
+
+        const reader = response.body.getReader();
+        const parts: Uint8Array[] = [];
+        let receivedBytes = 0;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            parts.push(value);
+            receivedBytes += value.length;
+            onProgress({ receivedBytes, totalBytes: contentLength, resumedFromBytes: 0 });
+        }
+
+        const blob = new Blob(parts as BlobPart[], { type: contentType });
+        console.log(`✅ Export file downloaded successfully (${blob.size} bytes)`);
+
+        return blob;
+    }
+
     /**
      * Delay helper for retry logic with exponential backoff
      * @param ms - Milliseconds to delay
@@ -0,0 +1,54 @@
+/**
+ * Export Filter Preset API Service
+ * Talks to the Next.js route handlers under /api/v1/exports/presets
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    CreateFilterPresetInput,
+    ExportType,
+    FilterPreset,
+    FilterPresetImportResult,
+    UpdateFilterPresetInput,
+} from '@/lib/types/exports';
+
+const PRESETS_BASE_URL = '/api/v1/exports/presets';
+
+export class FilterPresetService {
+    /**
+     * Get the presets the current user can see, optionally for one export type
+     */
+    static async getPresets(exportType?: ExportType): Promise<ApiResponse<FilterPreset[]>> {
+        const query = exportType ? `?exportType=${encodeURIComponent(exportType)}` : '';
+        return localApiClient.get<FilterPreset[]>(`${PRESETS_BASE_URL}${query}`);
+    }
+
+    /**
+     * Save a new preset
+     */
+    static async createPreset(input: CreateFilterPresetInput): Promise<ApiResponse<FilterPreset>> {
+        return localApiClient.post<FilterPreset>(PRESETS_BASE_URL, input);
+    }
+
+    /**
+     * Rename a preset, replace its filters or change who can see it
+     */
+    static async updatePreset(presetId: string, updates: UpdateFilterPresetInput): Promise<ApiResponse<FilterPreset>> {
+        return localApiClient.patch<FilterPreset>(`${PRESETS_BASE_URL}/${encodeURIComponent(presetId)}`, updates);
+    }
+
+    /**
+     * Delete a preset
+     */
+    static async deletePreset(presetId: string): Promise<ApiResponse<void>> {
+        return localApiClient.delete<void>(`${PRESETS_BASE_URL}/${encodeURIComponent(presetId)}`);
+    }
+
+    /**
+     * Import presets from the parsed contents of a presets JSON file
+     */
+    static async importPresets(content: unknown): Promise<ApiResponse<FilterPresetImportResult>> {
+        return localApiClient.post<FilterPresetImportResult>(`${PRESETS_BASE_URL}/import`, content);
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Hotel Duplicates Service
+ * Talks to the Next.js route handlers under /api/v1/hotels/duplicates, which keep
+ * reviewers' decisions on likely duplicate ITTID pairs.
+ */
+
+import { localApiClient, mapApiResponse } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type { DuplicateDecision, DuplicateReview, SaveDuplicateReviewInput } from '@/lib/types/hotel-duplicates';
+
+const DUPLICATES_BASE_URL = '/api/v1/hotels/duplicates';
+
+export class HotelDuplicateService {
+    static async getReviews(countryCode?: string): Promise<ApiResponse<DuplicateReview[]>> {
+        const query = countryCode ? `?country=${encodeURIComponent(countryCode)}` : '';
+        return localApiClient.get<DuplicateReview[]>(`${DUPLICATES_BASE_URL}${query}`);
+    }
+
+    /**
+     * Record or change the decision on a pair
+     */
+    static async saveReview(input: SaveDuplicateReviewInput): Promise<ApiResponse<DuplicateReview>> {
+        return localApiClient.put<DuplicateReview>(DUPLICATES_BASE_URL, input);
+    }
+
+    /**
+     * Forget the decision so the pair shows up in the queue again
+     */
+    static async clearReview(ittidA: string, ittidB: string): Promise<ApiResponse<{ key: string }>> {
+        return localApiClient.delete<{ key: string }>(DUPLICATES_BASE_URL, { ittidA, ittidB });
+    }
+
+    /**
+     * Download reviewed pairs as CSV or JSON
+     */
+    static async exportReviews(
+        format: 'csv' | 'json',
+        filters: { countryCode?: string; decision?: DuplicateDecision } = {}
+    ): Promise<ApiResponse<Blob>> {
+        const query = new URLSearchParams({ format });
+        if (filters.countryCode) query.set('country', filters.countryCode);
+        if (filters.decision) query.set('decision', filters.decision);
+
+        const response = await localApiClient.download(`${DUPLICATES_BASE_URL}/export?${query.toString()}`);
+        return mapApiResponse(response, file => file.blob);
+    }
+}
@@ -8,6 +8,19 @@ export { UserService } from './users';
 export { UserEditService } from './user-edit';
 export { HotelService } from './hotels';
 export { ProvidersApi } from './providers';
+export { SyncJobsApi } from './sync-jobs';
+export { IssueService } from './issues';
+export { ExportScheduleService } from './export-schedules';
+export { FilterPresetService } from './filter-presets';
+export { RoleService } from './roles';
+export { PermissionOverrideService } from './permission-overrides';
+export { AdminAuditService } from './admin-audit';
+export { PointsLedgerService } from './points-ledger';
+export { PointBudgetService } from './point-budgets';
+export { ApiKeyService } from './api-keys';
+export { IpPermissionService } from './ip-permissions';
+export { HotelDuplicateService } from './hotel-duplicates';
+export { ContentQualityService } from './content-quality';
 export * from '@/lib/types/api';
 export * from '@/lib/types/auth';
 export * from '@/lib/types/user';
@@ -0,0 +1,39 @@
+/**
+ * IP Permissions Service
+ * Talks to the Next.js route handlers under /api/v1/admin/users/:id/ip-entries.
+ * The whitelist itself lives on the backend; these calls keep each entry's label and expiry.
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type { IpEntryDetails, SaveIpEntryDetailsInput } from '@/lib/types/ip-permissions';
+
+const USERS_BASE_URL = '/api/v1/admin/users';
+
+export class IpPermissionService {
+    static async getEntryDetails(userId: string): Promise<ApiResponse<IpEntryDetails[]>> {
+        return localApiClient.get<IpEntryDetails[]>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/ip-entries`);
+    }
+
+    /**
+     * Add or replace the label and expiry of entries
+     */
+    static async saveEntryDetails(
+        userId: string,
+        entries: SaveIpEntryDetailsInput['entries']
+    ): Promise<ApiResponse<IpEntryDetails[]>> {
+        return localApiClient.put<IpEntryDetails[]>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/ip-entries`, {
+            entries,
+        });
+    }
+
+    /**
+     * Forget the details of entries removed from the whitelist
+     */
+    static async removeEntryDetails(userId: string, ipAddresses: string[]): Promise<ApiResponse<{ removed: number }>> {
+        return localApiClient.delete<{ removed: number }>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/ip-entries`,
+            { ipAddresses }
+        );
+    }
+}
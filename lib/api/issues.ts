@@ -0,0 +1,128 @@
+/**
+ * Issue API Service
+ * Talks to the Next.js route handlers under /api/v1/issues
+ */
+
+import { localApiClient, mapApiResponse } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    CreateIssueInput,
+    Issue,
+    IssueAttachment,
+    IssueRecord,
+    UpdateIssueInput,
+} from '@/lib/types/issue';
+
+const ISSUES_BASE_URL = '/api/v1/issues';
+
+export class IssueService {
+    /**
+     * Convert a persisted issue into the UI model (ISO strings -> Date)
+     */
+    static toIssue(record: IssueRecord): Issue {
+        return {
+            ...record,
+            createdAt: new Date(record.createdAt),
+            updatedAt: new Date(record.updatedAt),
+            respondedAt: record.respondedAt ? new Date(record.respondedAt) : undefined,
+            comments: (record.comments || []).map(comment => ({
+                ...comment,
+                createdAt: new Date(comment.createdAt),
+            })),
+            attachments: (record.attachments || []).map(attachment => ({
+                ...attachment,
+                uploadedAt: new Date(attachment.uploadedAt),
+            })),
+            history: (record.history || []).map(entry => ({
+                ...entry,
+                changedAt: new Date(entry.changedAt),
+            })),
+        };
+    }
+
+    /**
+     * Get issues reported by the current user
+     */
+    static async getMyIssues(): Promise<ApiResponse<Issue[]>> {
+        const response = await localApiClient.get<IssueRecord[]>(ISSUES_BASE_URL);
+        return mapApiResponse(response, records => records.map(record => this.toIssue(record)));
+    }
+
+    /**
+     * Get every issue for the triage queue (Admin only)
+     */
+    static async getAllIssues(): Promise<ApiResponse<Issue[]>> {
+        const response = await localApiClient.get<IssueRecord[]>(`${ISSUES_BASE_URL}?scope=all`);
+        return mapApiResponse(response, records => records.map(record => this.toIssue(record)));
+    }
+
+    /**
+     * Get a single issue
+     */
+    static async getIssue(issueId: string): Promise<ApiResponse<Issue>> {
+        const response = await localApiClient.get<IssueRecord>(`${ISSUES_BASE_URL}/${encodeURIComponent(issueId)}`);
+        return mapApiResponse(response, record => this.toIssue(record));
+    }
+
+    /**
+     * Report a new issue
+     */
+    static async createIssue(input: CreateIssueInput): Promise<ApiResponse<Issue>> {
+        const response = await localApiClient.post<IssueRecord>(ISSUES_BASE_URL, input);
+        return mapApiResponse(response, record => this.toIssue(record));
+    }
+
+    /**
+     * Upload issues an older version of the issues page saved in this browser
+     */
+    static async importLegacyIssues(issues: unknown[]): Promise<ApiResponse<{ imported: number; skipped: number }>> {
+        return localApiClient.post<{ imported: number; skipped: number }>(`${ISSUES_BASE_URL}/import`, issues);
+    }
+
+    /**
+     * Update status or priority (Admin only). Changes are recorded in the issue history.
+     */
+    static async updateIssue(issueId: string, updates: UpdateIssueInput): Promise<ApiResponse<Issue>> {
+        const response = await localApiClient.patch<IssueRecord>(
+            `${ISSUES_BASE_URL}/${encodeURIComponent(issueId)}`,
+            updates
+        );
+        return mapApiResponse(response, record => this.toIssue(record));
+    }
+
+    /**
+     * Add a reply to the issue's comment thread
+     */
+    static async addComment(issueId: string, body: string): Promise<ApiResponse<Issue>> {
+        const response = await localApiClient.post<IssueRecord>(
+            `${ISSUES_BASE_URL}/${encodeURIComponent(issueId)}/comments`,
+            { body }
+        );
+        return mapApiResponse(response, record => this.toIssue(record));
+    }
+
+    /**
+     * Upload one or more files to an issue (multipart/form-data)
+     */
+    static async uploadAttachments(issueId: string, files: File[]): Promise<ApiResponse<Issue>> {
+        const formData = new FormData();
+        files.forEach(file => formData.append('files', file));
+
+        const response = await localApiClient.post<IssueRecord>(
+            `${ISSUES_BASE_URL}/${encodeURIComponent(issueId)}/attachments`,
+            formData
+        );
+        return mapApiResponse(response, record => this.toIssue(record));
+    }
+
+    /**
+     * Fetch an attachment's content. The endpoint needs the session,
+     * so previews and downloads go through a Blob rather than a plain URL.
+     */
+    static async downloadAttachment(issueId: string, attachment: IssueAttachment): Promise<ApiResponse<Blob>> {
+        const response = await localApiClient.download(
+            `${ISSUES_BASE_URL}/${encodeURIComponent(issueId)}/attachments/${encodeURIComponent(attachment.id)}`
+        );
+        return mapApiResponse(response, file => file.blob);
+    }
+}
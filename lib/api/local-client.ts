@@ -0,0 +1,139 @@
+/**
+ * Local route client
+ * Calls the dashboard's own route handlers under /api/v1. The httpOnly session cookie
+ * authenticates these same-origin requests, so no token is attached here.
+ * Like apiClient, failures come back as an ApiResponse error rather than a thrown error.
+ */
+
+import type { ApiResponse } from '@/lib/types/api';
+
+export interface LocalRequestOptions {
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    // Sent as JSON, except FormData, which goes out as multipart
+    body?: unknown;
+}
+
+export interface LocalDownload {
+    blob: Blob;
+    fileName: string | null;
+}
+
+async function failure<T>(response: Response): Promise<ApiResponse<T>> {
+    const result = await response.json().catch(() => ({}));
+
+    return {
+        success: false,
+        error: {
+            status: response.status,
+            message: result.message || result.error || `Request failed (${response.status})`,
+            details: result.details,
+        },
+    };
+}
+
+function networkFailure<T>(error: unknown): ApiResponse<T> {
+    return {
+        success: false,
+        error: {
+            status: 0,
+            message: error instanceof Error ? error.message : 'Network error',
+        },
+    };
+}
+
+function getFileName(response: Response): string | null {
+    const disposition = response.headers.get('content-disposition') || '';
+    const match = disposition.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+
+    return match ? decodeURIComponent(match[1]) : null;
+}
+
+export class LocalApiClient {
+    async request<T>(url: string, options: LocalRequestOptions = {}): Promise<ApiResponse<T>> {
+        const { method = 'GET', body } = options;
+        const isFormData = typeof FormData !== 'undefined' && body instanceof FormData;
+
+        try {
+            const response = await fetch(url, {
+                method,
+                credentials: 'same-origin',
+                // Let the browser set the multipart boundary for FormData bodies
+                headers: isFormData || body === undefined ? undefined : { 'Content-Type': 'application/json' },
+                body: isFormData ? body : body === undefined ? undefined : JSON.stringify(body),
+            });
+
+            if (!response.ok) {
+                return failure<T>(response);
+            }
+
+            const result = await response.json().catch(() => ({}));
+
+            if (!result.success) {
+                return {
+                    success: false,
+                    error: {
+                        status: response.status,
+                        message: result.message || result.error || 'Unexpected response',
+                    },
+                };
+            }
+
+            return { success: true, data: result.data as T };
+        } catch (error) {
+            return networkFailure<T>(error);
+        }
+    }
+
+    async get<T>(url: string): Promise<ApiResponse<T>> {
+        return this.request<T>(url);
+    }
+
+    async post<T>(url: string, body?: unknown): Promise<ApiResponse<T>> {
+        return this.request<T>(url, { method: 'POST', body });
+    }
+
+    async put<T>(url: string, body?: unknown): Promise<ApiResponse<T>> {
+        return this.request<T>(url, { method: 'PUT', body });
+    }
+
+    async patch<T>(url: string, body?: unknown): Promise<ApiResponse<T>> {
+        return this.request<T>(url, { method: 'PATCH', body });
+    }
+
+    async delete<T>(url: string, body?: unknown): Promise<ApiResponse<T>> {
+        return this.request<T>(url, { method: 'DELETE', body });
+    }
+
+    /**
+     * Fetch a file (an export or an attachment) with the name the route gives it
+     */
+    async download(url: string): Promise<ApiResponse<LocalDownload>> {
+        try {
+            const response = await fetch(url, { credentials: 'same-origin' });
+
+            if (!response.ok) {
+                return failure<LocalDownload>(response);
+            }
+
+            return {
+                success: true,
+                data: { blob: await response.blob(), fileName: getFileName(response) },
+            };
+        } catch (error) {
+            return networkFailure<LocalDownload>(error);
+        }
+    }
+}
+
+/**
+ * Convert a successful response's data, passing failures through unchanged
+ */
+export function mapApiResponse<T, U>(response: ApiResponse<T>, map: (data: T) => U): ApiResponse<U> {
+    if (!response.success) {
+        return { success: false, error: response.error };
+    }
+
+    return { success: true, data: map(response.data as T) };
+}
+
+export const localApiClient = new LocalApiClient();
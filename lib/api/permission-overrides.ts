@@ -0,0 +1,38 @@
+/**
+ * User Permission Override API Service
+ * Talks to the Next.js route handlers under /api/v1/admin/users/:id/permissions
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type { UserRole } from '@/lib/types/auth';
+import type { PermissionOverrides, UserPermissionSummary } from '@/lib/types/roles';
+
+const USERS_BASE_URL = '/api/v1/admin/users';
+
+export class PermissionOverrideService {
+    /**
+     * Get a user's effective permissions and where each one comes from
+     */
+    static async getUserPermissions(userId: string, role: UserRole): Promise<ApiResponse<UserPermissionSummary>> {
+        return localApiClient.get<UserPermissionSummary>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/permissions?role=${encodeURIComponent(role)}`
+        );
+    }
+
+    /**
+     * Replace a user's granted and denied permissions. Empty lists remove the overrides.
+     */
+    static async updateOverrides(
+        userId: string,
+        username: string,
+        role: UserRole,
+        overrides: PermissionOverrides
+    ): Promise<ApiResponse<UserPermissionSummary>> {
+        return localApiClient.put<UserPermissionSummary>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/permissions`, {
+            username,
+            role,
+            ...overrides,
+        });
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Point Budgets API Service
+ * Talks to the Next.js route handlers under /api/v1/admin/point-budgets
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    AutoTopUpRule,
+    CheckPointBudgetInput,
+    PointBudgets,
+    PointBudgetStatus,
+    PointThreshold,
+    SaveAutoTopUpRuleInput,
+    SavePointThresholdInput,
+} from '@/lib/types/point-budgets';
+
+const BUDGETS_BASE_URL = '/api/v1/admin/point-budgets';
+const USERS_BASE_URL = '/api/v1/admin/users';
+
+export class PointBudgetService {
+    /**
+     * Get every threshold and auto top-up rule
+     */
+    static async getBudgets(): Promise<ApiResponse<PointBudgets>> {
+        return localApiClient.get<PointBudgets>(BUDGETS_BASE_URL);
+    }
+
+    static async createThreshold(input: SavePointThresholdInput): Promise<ApiResponse<PointThreshold>> {
+        return localApiClient.post<PointThreshold>(`${BUDGETS_BASE_URL}/thresholds`, input);
+    }
+
+    static async updateThreshold(id: string, threshold: number): Promise<ApiResponse<PointThreshold>> {
+        return localApiClient.patch<PointThreshold>(`${BUDGETS_BASE_URL}/thresholds/${encodeURIComponent(id)}`, {
+            threshold,
+        });
+    }
+
+    static async deleteThreshold(id: string): Promise<ApiResponse<void>> {
+        return localApiClient.delete<void>(`${BUDGETS_BASE_URL}/thresholds/${encodeURIComponent(id)}`);
+    }
+
+    static async createRule(input: SaveAutoTopUpRuleInput): Promise<ApiResponse<AutoTopUpRule>> {
+        return localApiClient.post<AutoTopUpRule>(`${BUDGETS_BASE_URL}/rules`, input);
+    }
+
+    static async updateRule(id: string, input: Partial<SaveAutoTopUpRuleInput>): Promise<ApiResponse<AutoTopUpRule>> {
+        return localApiClient.patch<AutoTopUpRule>(`${BUDGETS_BASE_URL}/rules/${encodeURIComponent(id)}`, input);
+    }
+
+    static async deleteRule(id: string): Promise<ApiResponse<void>> {
+        return localApiClient.delete<void>(`${BUDGETS_BASE_URL}/rules/${encodeURIComponent(id)}`);
+    }
+
+    /**
+     * Compare a user's balance with their threshold. The first check that finds it below
+     * the threshold also sends the user a `point` notification from the server.
+     */
+    static async checkBalance(userId: string, input: CheckPointBudgetInput): Promise<ApiResponse<PointBudgetStatus>> {
+        return localApiClient.post<PointBudgetStatus>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/point-budget`,
+            input
+        );
+    }
+}
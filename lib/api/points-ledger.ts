@@ -0,0 +1,34 @@
+/**
+ * Points Ledger API Service
+ * Talks to the Next.js route handlers under /api/v1/admin/users/:id/points-ledger
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type { PointsLedger, PointsLedgerRow } from '@/lib/types/points-ledger';
+
+const USERS_BASE_URL = '/api/v1/admin/users';
+
+export class PointsLedgerService {
+    /**
+     * Get a user's ledger with running balances, newest first
+     */
+    static async getLedger(userId: string): Promise<ApiResponse<PointsLedger>> {
+        return localApiClient.get<PointsLedger>(`${USERS_BASE_URL}/${encodeURIComponent(userId)}/points-ledger`);
+    }
+
+    /**
+     * Deduct an allocation's points on the backend and record the compensating entry.
+     * The route checks the reversal against the backend balance before deducting anything.
+     */
+    static async reverseAllocation(
+        userId: string,
+        entry: PointsLedgerRow,
+        reason: string
+    ): Promise<ApiResponse<PointsLedger>> {
+        return localApiClient.post<PointsLedger>(
+            `${USERS_BASE_URL}/${encodeURIComponent(userId)}/points-ledger/${encodeURIComponent(entry.id)}/reverse`,
+            { reason }
+        );
+    }
+}
@@ -3,6 +3,7 @@
  */
 
 import { apiClient } from './client';
+import { SyncJobsApi } from './sync-jobs';
 import type { ApiResponse, PaginatedResponse } from '@/lib/types/api';
 import type {
     Provider,
@@ -198,14 +199,18 @@ export class ProvidersApi {
     }
 
     /**
-     * Trigger provider content sync
+     * Trigger provider content sync. The returned syncId is a sync job id that
+     * can be followed with SyncJobsApi.getJob.
      */
     static async triggerProviderSync(providerName: string): Promise<ApiResponse<{ syncId: string }>> {
         try {
-            const response = await apiClient.post<{ syncId: string }>('/content/providers/sync', {
-                provider: providerName,
-            });
-            return response;
+            const response = await SyncJobsApi.triggerSync({ type: 'hotel', provider: providerName });
+
+            if (!response.success || !response.data) {
+                return { success: false, error: response.error };
+            }
+
+            return { success: true, data: { syncId: response.data.id } };
         } catch (error) {
             console.error('Failed to trigger provider sync:', error);
             return {
@@ -0,0 +1,54 @@
+/**
+ * Role Matrix API Service
+ * Talks to the Next.js route handlers under /api/v1/admin/roles
+ */
+
+import { localApiClient } from './local-client';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    AssignRoleInput,
+    CreateRoleInput,
+    RoleAssignment,
+    RoleDefinition,
+    RoleMatrix,
+    UpdateRoleInput,
+} from '@/lib/types/roles';
+
+const ROLES_BASE_URL = '/api/v1/admin/roles';
+
+export class RoleService {
+    /**
+     * Get every role with its permissions, and the custom role assignments
+     */
+    static async getMatrix(): Promise<ApiResponse<RoleMatrix>> {
+        return localApiClient.get<RoleMatrix>(ROLES_BASE_URL);
+    }
+
+    /**
+     * Create a custom role
+     */
+    static async createRole(input: CreateRoleInput): Promise<ApiResponse<RoleDefinition>> {
+        return localApiClient.post<RoleDefinition>(ROLES_BASE_URL, input);
+    }
+
+    /**
+     * Change a role's permissions, or a custom role's name, description and base role
+     */
+    static async updateRole(roleId: string, updates: UpdateRoleInput): Promise<ApiResponse<RoleDefinition>> {
+        return localApiClient.patch<RoleDefinition>(`${ROLES_BASE_URL}/${encodeURIComponent(roleId)}`, updates);
+    }
+
+    /**
+     * Delete a custom role
+     */
+    static async deleteRole(roleId: string): Promise<ApiResponse<void>> {
+        return localApiClient.delete<void>(`${ROLES_BASE_URL}/${encodeURIComponent(roleId)}`);
+    }
+
+    /**
+     * Give a user a custom role, or remove it with roleId null
+     */
+    static async assignRole(input: AssignRoleInput): Promise<ApiResponse<RoleAssignment | null>> {
+        return localApiClient.put<RoleAssignment | null>(`${ROLES_BASE_URL}/assignments`, input);
+    }
+}
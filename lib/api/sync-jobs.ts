@@ -0,0 +1,125 @@
+/**
+ * Content sync jobs API functions
+ */
+
+import { apiClient } from './client';
+import { apiEndpoints, config } from '@/lib/config';
+import type { ApiResponse } from '@/lib/types/api';
+import type {
+    SyncJob,
+    SyncJobListParams,
+    SyncJobListResponse,
+    SyncStats,
+    TriggerSyncRequest,
+} from '@/lib/types/sync';
+
+/**
+ * Resolve an endpoint against the sync service override when one is configured,
+ * otherwise leave it relative so apiClient prefixes the main API URL.
+ */
+function syncUrl(endpoint: string): string {
+    const base = config.sync.apiUrl.replace(/\/+$/, '');
+    return base ? `${base}${endpoint}` : endpoint;
+}
+
+export class SyncJobsApi {
+    /**
+     * List sync jobs, newest first
+     */
+    static async listJobs(params: SyncJobListParams = {}): Promise<ApiResponse<SyncJobListResponse>> {
+        try {
+            const searchParams = new URLSearchParams();
+
+            if (params.status) searchParams.append('status', params.status);
+            if (params.type) searchParams.append('type', params.type);
+            if (params.provider) searchParams.append('provider', params.provider);
+            if (params.limit) searchParams.append('limit', params.limit.toString());
+
+            const query = searchParams.toString();
+            const endpoint = `${apiEndpoints.sync.jobs}${query ? `?${query}` : ''}`;
+
+            return await apiClient.get<SyncJobListResponse>(syncUrl(endpoint));
+        } catch (error) {
+            console.error('Failed to fetch sync jobs:', error);
+            return {
+                success: false,
+                error: {
+                    status: 500,
+                    message: 'Failed to fetch sync jobs',
+                },
+            };
+        }
+    }
+
+    /**
+     * Get a single sync job
+     */
+    static async getJob(jobId: string): Promise<ApiResponse<SyncJob>> {
+        try {
+            return await apiClient.get<SyncJob>(syncUrl(apiEndpoints.sync.job(encodeURIComponent(jobId))));
+        } catch (error) {
+            console.error('Failed to fetch sync job:', error);
+            return {
+                success: false,
+                error: {
+                    status: 500,
+                    message: 'Failed to fetch sync job',
+                },
+            };
+        }
+    }
+
+    /**
+     * Start a new sync job. The job is returned in `pending` or `running` state.
+     */
+    static async triggerSync(request: TriggerSyncRequest): Promise<ApiResponse<SyncJob>> {
+        try {
+            return await apiClient.post<SyncJob>(syncUrl(apiEndpoints.sync.jobs), request, true, 0);
+        } catch (error) {
+            console.error('Failed to trigger sync:', error);
+            return {
+                success: false,
+                error: {
+                    status: 500,
+                    message: 'Failed to trigger sync',
+                },
+            };
+        }
+    }
+
+    /**
+     * Cancel a pending or running sync job
+     */
+    static async cancelJob(jobId: string): Promise<ApiResponse<SyncJob>> {
+        try {
+            return await apiClient.post<SyncJob>(syncUrl(apiEndpoints.sync.cancel(encodeURIComponent(jobId))), undefined, true, 0);
+        } catch (error) {
+            console.error('Failed to cancel sync job:', error);
+            return {
+                success: false,
+                error: {
+                    status: 500,
+                    message: 'Failed to cancel sync job',
+                },
+            };
+        }
+    }
+
+    /**
+     * Get aggregate sync statistics
+     */
+    static async getStats(): Promise<ApiResponse<SyncStats>> {
+        try {
+            return await apiClient.get<SyncStats>(syncUrl(apiEndpoints.sync.stats));
+        } catch (error) {
+            console.error('Failed to fetch sync stats:', error);
+            return {
+                success: false,
+                error: {
+                    status: 500,
+                    message: 'Failed to fetch sync statistics',
+                },
+            };
+        }
+    }
+}
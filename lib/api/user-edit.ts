@@ -1,11 +1,16 @@
 /**
  * User Edit Management API service
  * Handles all user editing operations including point allocation, supplier management,
- * user activation, point reset, user deletion, and API key generation
+ * user activation, point reset, user deletion, and API key generation.
+ * Management actions go through the route handlers under /api/v1/admin/users, which run them on
+ * the backend and record them in the admin audit log. Point changes are also recorded in the points ledger.
  */
 
 import { apiClient } from './client';
+import { localApiClient } from './local-client';
+import type { LocalRequestOptions } from './local-client';
 import type { ApiResponse } from '@/lib/types/api';
+import type { PermissionOverrides } from '@/lib/types/roles';
 import { generateMockUserDetails, mockSuccessResponse } from './mock-data';
 
 /**
@@ -48,22 +53,23 @@ export interface DetailedUserInfo {
         email: string;
         role: string;
     };
+    // Dashboard-side grants and denies on top of the role (loaded from the role matrix, not the backend)
+    permission_overrides?: PermissionOverrides | null;
 }
 
+
 /**
- * Point allocation request payload
+ * Ledger details for a point change: why it was made
  */
-export interface PointAllocationRequest {
-    receiver_email: string;
-    receiver_id: string;
-    allocation_type: AllocationType;
+export interface PointsLedgerContext {
+    reason?: string;
 }
 
 /**
- * Supplier management request payload
+ * What a user management route returns: the backend's reply, which usually carries a message
  */
-export interface SupplierManagementRequest {
-    provider_activision_list: string[];
+export interface UserActionResult {
+    message?: string;
 }
 
 /**
@@ -71,6 +77,13 @@ export interface SupplierManagementRequest {
  * Provides methods for all user editing operations
  */
 export class UserEditService {
+    /**
+     * Call a user management route
+     */
+    private static action<T>(path: string, options: LocalRequestOptions): Promise<ApiResponse<T>> {
+        return localApiClient.request<T>(`/api/v1/admin/users/${path}`, options);
+    }
+
     /**
      * Endpoint 1: Get detailed user information
      * GET /user/check-user-info/{user_id}
@@ -101,22 +114,20 @@ export class UserEditService {
 
     /**
      * Endpoint 2: Allocate points to user
-     * POST /user/points/give/
+     * POST /api/v1/admin/users/{user_id}/points (backend: POST /user/points/give/)
      */
     static async allocatePoints(
         userId: string,
         email: string,
-        allocationType: AllocationType
-    ): Promise<ApiResponse<any>> {
+        allocationType: AllocationType,
+        ledger: PointsLedgerContext = {}
+    ): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Allocating points:', { userId, email, allocationType });
 
-        const payload: PointAllocationRequest = {
-            receiver_email: email,
-            receiver_id: userId,
-            allocation_type: allocationType,
-        };
-
-        const response = await apiClient.post<any>('/user/points/give/', payload);
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}/points`, {
+            method: 'POST',
+            body: { email, allocationType, reason: ledger.reason },
+        });
 
         if (response.success) {
             console.log('✅ Points allocated successfully');
@@ -136,22 +147,18 @@ export class UserEditService {
 
     /**
      * Endpoint 3: Activate suppliers for user
-     * POST /permissions/admin/activate_supplier?user_id={user_id}
+     * POST /api/v1/admin/users/{user_id}/suppliers (backend: POST /permissions/admin/activate_supplier)
      */
     static async activateSuppliers(
         userId: string,
         suppliers: string[]
-    ): Promise<ApiResponse<any>> {
+    ): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Activating suppliers for user:', { userId, suppliers });
 
-        const payload: SupplierManagementRequest = {
-            provider_activision_list: suppliers,
-        };
-
-        const response = await apiClient.post<any>(
-            `/permissions/admin/activate_supplier?user_id=${userId}`,
-            payload
-        );
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}/suppliers`, {
+            method: 'POST',
+            body: { action: 'activate', suppliers },
+        });
 
         if (response.success) {
             console.log('✅ Suppliers activated successfully');
@@ -171,22 +178,18 @@ export class UserEditService {
 
     /**
      * Endpoint 4: Deactivate suppliers for user
-     * POST /permissions/admin/deactivate_supplier?user_id={user_id}
+     * POST /api/v1/admin/users/{user_id}/suppliers (backend: POST /permissions/admin/deactivate_supplier)
      */
     static async deactivateSuppliers(
         userId: string,
         suppliers: string[]
-    ): Promise<ApiResponse<any>> {
+    ): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Deactivating suppliers for user:', { userId, suppliers });
 
-        const payload: SupplierManagementRequest = {
-            provider_activision_list: suppliers,
-        };
-
-        const response = await apiClient.post<any>(
-            `/permissions/admin/deactivate_supplier?user_id=${userId}`,
-            payload
-        );
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}/suppliers`, {
+            method: 'POST',
+            body: { action: 'deactivate', suppliers },
+        });
 
         if (response.success) {
             console.log('✅ Suppliers deactivated successfully');
@@ -206,15 +209,12 @@ export class UserEditService {
 
     /**
      * Endpoint 5: Activate user account
-     * POST /auth/admin/users/{user_id}/activate
+     * POST /api/v1/admin/users/{user_id}/activate (backend: POST /auth/admin/users/{user_id}/activate)
      */
-    static async activateUser(userId: string): Promise<ApiResponse<any>> {
+    static async activateUser(userId: string): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Activating user:', userId);
 
-        const response = await apiClient.post<any>(
-            `/auth/admin/users/${userId}/activate`,
-            {}
-        );
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}/activate`, { method: 'POST' });
 
         if (response.success) {
             console.log('✅ User activated successfully');
@@ -234,15 +234,18 @@ export class UserEditService {
 
     /**
      * Endpoint 6: Reset user points to zero
-     * POST /user/reset_point/{user_id}/
+     * POST /api/v1/admin/users/{user_id}/points/reset (backend: POST /user/reset_point/{user_id}/)
      */
-    static async resetUserPoints(userId: string): Promise<ApiResponse<any>> {
+    static async resetUserPoints(
+        userId: string,
+        ledger: PointsLedgerContext = {}
+    ): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Resetting points for user:', userId);
 
-        const response = await apiClient.post<any>(
-            `/user/reset_point/${userId}/`,
-            {}
-        );
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}/points/reset`, {
+            method: 'POST',
+            body: { reason: ledger.reason },
+        });
 
         if (response.success) {
             console.log('✅ User points reset successfully');
@@ -262,14 +265,12 @@ export class UserEditService {
 
     /**
      * Endpoint 7: Delete user account
-     * DELETE /delete/delete_user/{user_id}
+     * DELETE /api/v1/admin/users/{user_id} (backend: DELETE /delete/delete_user/{user_id})
      */
-    static async deleteUser(userId: string): Promise<ApiResponse<any>> {
+    static async deleteUser(userId: string): Promise<ApiResponse<UserActionResult>> {
         console.log('📡 Deleting user:', userId);
 
-        const response = await apiClient.delete<any>(
-            `/delete/delete_user/${userId}`
-        );
+        const response = await this.action<UserActionResult>(encodeURIComponent(userId), { method: 'DELETE' });
 
         if (response.success) {
             console.log('✅ User deleted successfully');
@@ -287,17 +288,34 @@ export class UserEditService {
         return response;
     }
 
+    /**
+     * Delete a super user's account
+     * DELETE /api/v1/admin/users/{user_id}?role=super_user (backend: DELETE /delete/delete_super_user/{user_id}/)
+     */
+    static async deleteSuperUser(userId: string): Promise<ApiResponse<UserActionResult>> {
+        console.log('📡 Deleting super user:', userId);
+
+        const response = await this.action<UserActionResult>(`${encodeURIComponent(userId)}?role=super_user`, { method: 'DELETE' });
+
+        if (response.success) {
+            console.log('✅ Super user deleted successfully');
+        } else {
+            console.error('❌ Failed to delete super user:', response.error);
+        }
+
+        return response;
+    }
+
     /**
      * Endpoint 8: Generate API key for user
-     * POST /auth/generate_api_key/{user_id}
+     * POST /api/v1/admin/users/{user_id}/api-key (backend: POST /auth/generate_api_key/{user_id})
      */
     static async generateApiKey(userId: string): Promise<ApiResponse<{ api_key: string }>> {
         console.log('📡 Generating API key for user:', userId);
 
-        const response = await apiClient.post<{ api_key: string }>(
-            `/auth/generate_api_key/${userId}`,
-            {}
-        );
+        const response = await this.action<{ api_key: string }>(`${encodeURIComponent(userId)}/api-key`, {
+            method: 'POST',
+        });
 
         if (response.success) {
             console.log('✅ API key generated successfully');
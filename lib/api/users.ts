@@ -3,6 +3,8 @@
  */
 
 import { apiClient } from './client';
+import { UserEditService } from './user-edit';
+import type { UserActionResult } from './user-edit';
 import { apiEndpoints } from '@/lib/config';
 import type { ApiResponse, PaginatedResponse } from '@/lib/types/api';
 import type { User } from '@/lib/types/auth';
@@ -319,19 +321,17 @@ export class UserService {
     }
 
     /**
-     * Delete user (generic)
+     * Delete user (generic), through the audited admin route
      */
-    static async deleteUser(id: string): Promise<ApiResponse<void>> {
-        console.log("📡 Deleting user:", id);
-        return apiClient.delete<void>(apiEndpoints.users.deleteUser(id));
+    static async deleteUser(id: string): Promise<ApiResponse<UserActionResult>> {
+        return UserEditService.deleteUser(id);
     }
 
     /**
-     * Delete super user
+     * Delete super user, through the audited admin route
      */
-    static async deleteSuperUser(id: string): Promise<ApiResponse<void>> {
-        console.log("📡 Deleting super user:", id);
-        return apiClient.delete<void>(apiEndpoints.users.deleteSuperUser(id));
+    static async deleteSuperUser(id: string): Promise<ApiResponse<UserActionResult>> {
+        return UserEditService.deleteSuperUser(id);
     }
 
     /**
@@ -0,0 +1,32 @@
+import { getSafeReturnPath, getSessionCookieOptions, getTokenExpiry } from "../session-cookie";
+
+const makeToken = (payload: object) =>
+  `header.${btoa(JSON.stringify(payload)).replace(/=+$/, "")}.signature`;
+
+describe("session cookie helpers", () => {
+  const now = Date.UTC(2024, 0, 1);
+  const nowSeconds = now / 1000;
+
+  it("reads the JWT expiry", () => {
+    expect(getTokenExpiry(makeToken({ exp: 1700000000 }))).toBe(1700000000);
+    expect(getTokenExpiry(makeToken({ sub: "user" }))).toBeNull();
+    expect(getTokenExpiry("not-a-jwt")).toBeNull();
+  });
+
+  it("keeps the cookie httpOnly and no longer-lived than the token", () => {
+    const options = getSessionCookieOptions(makeToken({ exp: nowSeconds + 3600 }), true, now);
+
+    expect(options).toMatchObject({ httpOnly: true, sameSite: "lax", path: "/", maxAge: 3600 });
+    expect(getSessionCookieOptions(makeToken({}), true, now).maxAge).toBe(60 * 60 * 24 * 30);
+    expect(getSessionCookieOptions(makeToken({}), false, now).maxAge).toBeUndefined();
+  });
+
+  it("only returns to same-origin paths", () => {
+    expect(getSafeReturnPath("/dashboard/exports?tab=scheduled")).toBe("/dashboard/exports?tab=scheduled");
+    expect(getSafeReturnPath("https://evil.example")).toBe("/dashboard");
+    expect(getSafeReturnPath("//evil.example")).toBe("/dashboard");
+    expect(getSafeReturnPath("/\\evil.example")).toBe("/dashboard");
+    expect(getSafeReturnPath("/login?returnTo=/dashboard")).toBe("/dashboard");
+    expect(getSafeReturnPath(null, "/home")).toBe("/home");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * User management actions (server-side only)
+ * Route handlers run each action on the backend with the caller's own token and write
+ * the audit entry themselves, so the audit log only holds actions that were actually attempted.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiEndpoints, config } from '@/lib/config';
+import { getSessionToken } from '@/lib/auth/server-session';
+import { recordAdminAction } from '@/lib/db/admin-audit-storage';
+import type { User } from '@/lib/types/auth';
+import type { RecordAdminAuditInput } from '@/lib/types/admin-audit';
+
+export interface BackendResult {
+    ok: boolean;
+    status: number; // 0 when the backend couldn't be reached
+    data: any;
+    message: string;
+}
+
+export interface AdminBackendAction {
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    path: string;
+    body?: unknown;
+}
+
+const ERROR_LABELS: Record<number, string> = {
+    400: 'Validation failed',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not found',
+    409: 'Conflict',
+    422: 'Validation failed',
+};
+
+function getBackendMessage(data: any, status: number): string {
+    const message = data?.message ?? data?.detail ?? data?.error;
+    return typeof message === 'string' && message ? message : `Request failed with status ${status}`;
+}
+
+/**
+ * Call the backend with the session user's token
+ */
+export async function callBackendAsUser(request: NextRequest, action: AdminBackendAction): Promise<BackendResult> {
+    try {
+        const response = await fetch(`${config.api.url}${action.path}`, {
+            method: action.method,
+            headers: {
+                Authorization: `Bearer ${getSessionToken(request)}`,
+                'Content-Type': 'application/json',
+            },
+            body: action.body === undefined ? undefined : JSON.stringify(action.body),
+            cache: 'no-store',
+        });
+        const data = await response.json().catch(() => null);
+
+        return {
+            ok: response.ok,
+            status: response.status,
+            data,
+            message: response.ok ? '' : getBackendMessage(data, response.status),
+        };
+    } catch (error: any) {
+        console.error('❌ Error calling backend:', action.method, action.path, error);
+        return { ok: false, status: 0, data: null, message: 'Unable to reach the backend' };
+    }
+}
+
+/**
+ * The route response for a failed backend call, keeping the backend's status
+ */
+export function backendErrorResponse(result: BackendResult): NextResponse {
+    const status = result.status || 503;
+
+    return NextResponse.json(
+        {
+            success: false,
+            error: ERROR_LABELS[status] ?? (status >= 500 ? 'Service unavailable' : 'Request failed'),
+            message: result.message,
+        },
+        { status }
+    );
+}
+
+/**
+ * The user's points balance as the backend reports it, or null when it can't be read
+ */
+export async function getBackendBalance(
+    request: NextRequest,
+    userId: string
+): Promise<{ balance: number; username?: string } | null> {
+    const result = await callBackendAsUser(request, {
+        method: 'GET',
+        path: apiEndpoints.users.getUserInfo(userId),
+    });
+    const balance = result.data?.points?.current_points;
+
+    if (!result.ok || typeof balance !== 'number' || !Number.isFinite(balance)) {
+        console.warn(`⚠️ Couldn't read the points balance for ${userId}:`, result.status, result.message);
+        return null;
+    }
+
+    return {
+        balance,
+        username: typeof result.data.username === 'string' ? result.data.username : undefined,
+    };
+}
+
+/**
+ * Record a backend call's outcome in the audit log. Failed attempts keep the backend's error.
+ */
+export function recordBackendOutcome(
+    user: User,
+    result: BackendResult,
+    audit: Omit<RecordAdminAuditInput, 'outcome'>
+): void {
+    recordAdminAction(user, {
+        ...audit,
+        outcome: result.ok ? 'success' : 'failure',
+        details: result.ok ? audit.details : { ...audit.details, error: result.message },
+    });
+
+    if (!result.ok) {
+        console.warn(`⚠️ ${audit.action} failed for ${audit.targetId}:`, result.status, result.message);
+    } else {
+        console.log(`✅ ${user.username}: ${audit.action} for ${audit.targetId}`);
+    }
+}
+
+/**
+ * Run an action on the backend as the session user, record the outcome in the audit log and
+ * return the route response. Failed attempts are recorded too, with the backend's error.
+ */
+export async function runAdminAction(
+    request: NextRequest,
+    user: User,
+    action: AdminBackendAction,
+    audit: Omit<RecordAdminAuditInput, 'outcome'>,
+    successMessage: string
+): Promise<NextResponse> {
+    const result = await callBackendAsUser(request, action);
+
+    recordBackendOutcome(user, result, audit);
+
+    if (!result.ok) {
+        return backendErrorResponse(result);
+    }
+
+    return NextResponse.json({
+        success: true,
+        message: successMessage,
+        data: result.data,
+    });
+}
@@ -0,0 +1,26 @@
+/**
+ * Credentials for the API key verification endpoint (server-side only)
+ *
+ * API_KEY_VERIFY_SECRET - shared secret the backend or gateway sends in the X-Verify-Secret header
+ *                         when it asks the dashboard whether a named API key is valid
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Check that a request comes from the configured key verifier
+ */
+export function isApiKeyVerifierRequest(request: NextRequest): boolean {
+    const secret = process.env.API_KEY_VERIFY_SECRET;
+    const provided = request.headers.get('x-verify-secret');
+
+    if (!secret || !provided) {
+        return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(provided);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,66 @@
+/**
+ * Export access checks for scheduled exports (server-side only)
+ * Scheduled runs use the scheduler's service account, so the owner's own access is checked
+ * when a schedule is created and again before each run.
+ */
+
+import { apiEndpoints, config } from '@/lib/config';
+import { AuthService } from '@/lib/api/auth';
+import { applyRoleToUser } from '@/lib/db/role-storage';
+import { hasPermission, Permission } from '@/lib/utils/rbac';
+
+export type OwnerExportAccess = 'allowed' | 'denied' | 'unknown';
+
+/**
+ * Suppliers the token's user can export, or null when the backend can't say
+ */
+export async function getActiveSuppliers(token: string): Promise<string[] | null> {
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.users.checkActiveSupplier}`, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            cache: 'no-store',
+        });
+
+        if (!response.ok) {
+            console.warn('⚠️ Unable to load active suppliers:', response.status);
+            return null;
+        }
+
+        const data = await response.json();
+        return Array.isArray(data?.on_supplier_list) ? data.on_supplier_list.map(String) : null;
+    } catch (error) {
+        console.error('❌ Error loading active suppliers:', error);
+        return null;
+    }
+}
+
+/**
+ * Whether a schedule owner may still export, looked up with the scheduler's headers.
+ * 'unknown' means the backend couldn't be asked; the run should wait for the next tick.
+ */
+export async function checkOwnerExportAccess(
+    ownerId: string,
+    headers: Record<string, string>
+): Promise<OwnerExportAccess> {
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.users.getUserInfo(ownerId)}`, {
+            headers,
+            cache: 'no-store',
+        });
+
+        if (response.status === 404) return 'denied';
+        if (!response.ok) {
+            console.warn('⚠️ Unable to look up schedule owner:', ownerId, response.status);
+            return 'unknown';
+        }
+
+        const backendUser = await response.json();
+        if (backendUser?.is_active === false) return 'denied';
+
+        const owner = applyRoleToUser(AuthService.mapBackendUserToFrontend({ ...backendUser, id: ownerId }));
+        return hasPermission(owner, Permission.EXPORT_DATA) ? 'allowed' : 'denied';
+    } catch (error) {
+        console.error('❌ Error looking up schedule owner:', error);
+        return 'unknown';
+    }
+}
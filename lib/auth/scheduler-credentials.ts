@@ -0,0 +1,58 @@
+/**
+ * Service credentials for the cron-triggered schedulers (server-side only)
+ *
+ * Each scheduler has its own service account and trigger secret, so each can be granted only
+ * the backend access it needs and rotated on its own:
+ *
+ * <NAME>_TOKEN   - backend token of the scheduler's service account
+ * <NAME>_API_KEY - optional X-API-Key for that account
+ * <NAME>_SECRET  - shared secret the cron trigger sends in the X-Scheduler-Secret header
+ *
+ * EXPORT_SCHEDULER       - creates scheduled export jobs, downloads their files and sends completion notifications
+ * POINT_BUDGET_SCHEDULER - lists users, sets their points and sends low-balance notifications
+ * IP_EXPIRY_SCHEDULER    - removes expired IPs from users' whitelists
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export type SchedulerName = 'EXPORT_SCHEDULER' | 'POINT_BUDGET_SCHEDULER' | 'IP_EXPIRY_SCHEDULER';
+
+/**
+ * Headers for backend calls made on behalf of a scheduler, or null when it isn't configured
+ */
+export function getSchedulerHeaders(scheduler: SchedulerName): Record<string, string> | null {
+    const token = process.env[`${scheduler}_TOKEN`];
+
+    if (!token) {
+        return null;
+    }
+
+    const headers: Record<string, string> = {
+        Authorization: `Bearer ${token}`,
+    };
+
+    const apiKey = process.env[`${scheduler}_API_KEY`];
+    if (apiKey) {
+        headers['X-API-Key'] = apiKey;
+    }
+
+    return headers;
+}
+
+/**
+ * Check that a request comes from the scheduler's configured cron trigger
+ */
+export function isSchedulerRequest(request: NextRequest, scheduler: SchedulerName): boolean {
+    const secret = process.env[`${scheduler}_SECRET`];
+    const provided = request.headers.get('x-scheduler-secret');
+
+    if (!secret || !provided) {
+        return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(provided);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
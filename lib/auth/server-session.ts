@@ -0,0 +1,123 @@
+/**
+ * Server-side session resolution for Next.js route handlers
+ * Validates the caller's Bearer token (or session cookie) against the backend profile endpoint
+ * and attaches the user's permissions from the role matrix
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { apiEndpoints, config } from '@/lib/config';
+import { AuthService } from '@/lib/api/auth';
+import type { User } from '@/lib/types/auth';
+import { applyRoleToUser } from '@/lib/db/role-storage';
+import { hasPermission, type Permission } from '@/lib/utils/rbac';
+import { SESSION_COOKIE_NAME } from './session-cookie';
+
+export type SessionValidation =
+    | { status: 'valid'; user: User }
+    | { status: 'invalid' } // backend rejected the token
+    | { status: 'unavailable' }; // backend couldn't be reached, so the token is neither accepted nor rejected
+
+/**
+ * Extract the Bearer token from the Authorization header
+ */
+export function getBearerToken(request: NextRequest): string | null {
+    const authHeader = request.headers.get('authorization');
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return null;
+    }
+
+    return authHeader.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Get the caller's session token: the Authorization header first, then the httpOnly session cookie
+ */
+export function getSessionToken(request: NextRequest): string | null {
+    return getBearerToken(request) ?? (request.cookies.get(SESSION_COOKIE_NAME)?.value || null);
+}
+
+/**
+ * Validate a session token against the backend profile endpoint
+ */
+export async function validateSessionToken(token: string): Promise<SessionValidation> {
+    try {
+        const response = await fetch(`${config.api.url}${apiEndpoints.users.profile}`, {
+            headers: {
+                Authorization: `Bearer ${token}`,
+                'Content-Type': 'application/json',
+            },
+            cache: 'no-store',
+        });
+
+        if (response.status === 401 || response.status === 403) {
+            console.warn('⚠️ Session validation rejected by backend:', response.status);
+            return { status: 'invalid' };
+        }
+
+        if (!response.ok) {
+            console.warn('⚠️ Session validation failed with status:', response.status);
+            return { status: 'unavailable' };
+        }
+
+        const backendUser = await response.json();
+        return { status: 'valid', user: applyRoleToUser(AuthService.mapBackendUserToFrontend(backendUser)) };
+    } catch (error) {
+        console.error('❌ Error validating session token:', error);
+        return { status: 'unavailable' };
+    }
+}
+
+/**
+ * Resolve the authenticated user for a route handler request.
+ * Returns null when the token is missing, rejected by the backend, or the backend is unreachable.
+ */
+export async function getSessionUser(request: NextRequest): Promise<User | null> {
+    const token = getSessionToken(request);
+
+    if (!token) {
+        return null;
+    }
+
+    const validation = await validateSessionToken(token);
+    return validation.status === 'valid' ? validation.user : null;
+}
+
+/**
+ * Resolve the session user and require a permission.
+ * Returns the user, or the 401/403 response for the route handler to return.
+ */
+export async function requirePermission(
+    request: NextRequest,
+    permission: Permission
+): Promise<{ user: User; response?: undefined } | { user?: undefined; response: NextResponse }> {
+    const user = await getSessionUser(request);
+
+    if (!user) {
+        return {
+            response: NextResponse.json(
+                {
+                    success: false,
+                    error: 'Unauthorized',
+                    message: 'Missing or invalid authentication token',
+                },
+                { status: 401 }
+            ),
+        };
+    }
+
+    if (!hasPermission(user, permission)) {
+        return {
+            response: NextResponse.json(
+                {
+                    success: false,
+                    error: 'Forbidden',
+                    message: "You don't have permission to perform this action",
+                },
+                { status: 403 }
+            ),
+        };
+    }
+
+    return { user };
+}
@@ -0,0 +1,75 @@
+/**
+ * Session cookie helpers
+ * The access token is mirrored into an httpOnly cookie so the middleware can validate the
+ * session before a protected page renders. Shared by the middleware, the session route and AuthService.
+ */
+
+export const SESSION_COOKIE_NAME = 'hita_session';
+
+// Query parameter the middleware uses to send users back after logging in
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Cookie lifetime for "remember me" sessions when the token carries no expiry
+const REMEMBER_ME_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+export interface SessionCookieOptions {
+    httpOnly: true;
+    secure: boolean;
+    sameSite: 'lax';
+    path: string;
+    maxAge?: number;
+}
+
+/**
+ * Read the expiry (seconds since epoch) from a JWT, or null when the token has none
+ */
+export function getTokenExpiry(token: string): number | null {
+    try {
+        const payload = token.split('.')[1];
+        if (!payload) return null;
+
+        const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof decoded.exp === 'number' ? decoded.exp : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cookie options for a session token.
+ * The cookie never outlives the token; without "remember me" it ends with the browser session.
+ */
+export function getSessionCookieOptions(token: string, rememberMe: boolean, now: number = Date.now()): SessionCookieOptions {
+    const options: SessionCookieOptions = {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+    };
+
+    const expiry = getTokenExpiry(token);
+    const secondsLeft = expiry !== null ? Math.max(0, expiry - Math.floor(now / 1000)) : null;
+
+    if (rememberMe) {
+        options.maxAge = secondsLeft ?? REMEMBER_ME_MAX_AGE;
+    } else if (secondsLeft !== null) {
+        options.maxAge = secondsLeft;
+    }
+
+    return options;
+}
+
+/**
+ * Only allow same-origin paths as a post-login destination, so returnTo can't be used as an open redirect
+ */
+export function getSafeReturnPath(value: string | null | undefined, fallback: string = '/dashboard'): string {
+    if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+        return fallback;
+    }
+
+    if (value === '/login' || value.startsWith('/login?')) {
+        return fallback;
+    }
+
+    return value;
+}
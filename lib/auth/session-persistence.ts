@@ -2,8 +2,6 @@
  * Session persistence utilities to maintain authentication across page refreshes
  */
 
-import { TokenStorage } from './token-storage';
-
 export interface SessionData {
     isAuthenticated: boolean;
     lastActivity: number;
@@ -66,18 +64,13 @@ export class SessionPersistence {
     }
 
     /**
-     * Check if session is valid
+     * Check if session is valid. The token itself is in the httpOnly session cookie,
+     * which only the server can check.
      */
     static isSessionValid(): boolean {
         const session = this.getSession();
-        const hasToken = TokenStorage.hasToken();
-
-        // If no session exists but we have a token, consider it valid (fresh login)
-        if (!session.isAuthenticated && hasToken) {
-            return true;
-        }
 
-        return session.isAuthenticated && hasToken &&
+        return session.isAuthenticated &&
             (Date.now() - session.lastActivity) < this.SESSION_TIMEOUT;
     }
 
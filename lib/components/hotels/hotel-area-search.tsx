@@ -0,0 +1,372 @@
+/**
+ * Hotel Area Search Component
+ * Draw a polygon or bounding box on the map (or paste coordinates) and search
+ * for hotels inside it. The area is passed to the results page in the URL.
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Input } from "@/lib/components/ui/input";
+import { Button } from "@/lib/components/ui/button";
+import { TileMap } from "./tile-map";
+import {
+  MAX_AREA_RADIUS_KM,
+  getAreaPolygon,
+  parseCoordinateList,
+  serializeSearchArea,
+  validateSearchArea,
+} from "@/lib/utils/geo-area";
+import type { GeoPoint, SearchArea } from "@/lib/types/hotel";
+
+export interface HotelAreaSearchProps {
+  className?: string;
+}
+
+type AreaMode = "polygon" | "bbox";
+
+interface BoundsFields {
+  south: string;
+  west: string;
+  north: string;
+  east: string;
+}
+
+const EMPTY_BOUNDS: BoundsFields = { south: "", west: "", north: "", east: "" };
+
+function formatCoordinate(value: number): string {
+  return String(Number(value.toFixed(5)));
+}
+
+function boundsFromCorners(a: GeoPoint, b: GeoPoint): BoundsFields {
+  return {
+    south: formatCoordinate(Math.min(a.lat, b.lat)),
+    west: formatCoordinate(Math.min(a.lng, b.lng)),
+    north: formatCoordinate(Math.max(a.lat, b.lat)),
+    east: formatCoordinate(Math.max(a.lng, b.lng)),
+  };
+}
+
+export function HotelAreaSearch({ className }: HotelAreaSearchProps) {
+  const router = useRouter();
+
+  const [mode, setMode] = useState<AreaMode>("polygon");
+  const [mapCenter, setMapCenter] = useState<GeoPoint>({ lat: 30, lng: 10 });
+  const [mapZoom, setMapZoom] = useState<number>(2);
+  const [goTo, setGoTo] = useState<string>("");
+
+  // Polygon vertices, in drawing order
+  const [points, setPoints] = useState<GeoPoint[]>([]);
+  const [pasteText, setPasteText] = useState<string>("");
+
+  // Bounding box: first click is one corner, second click the opposite corner
+  const [firstCorner, setFirstCorner] = useState<GeoPoint | null>(null);
+  const [bounds, setBounds] = useState<BoundsFields>(EMPTY_BOUNDS);
+
+  const [countryCode, setCountryCode] = useState<string>("");
+  const [areaName, setAreaName] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  const boundsArea: SearchArea | null = Object.values(bounds).every((value) =>
+    value.trim(),
+  )
+    ? {
+        kind: "bbox",
+        south: Number(bounds.south),
+        west: Number(bounds.west),
+        north: Number(bounds.north),
+        east: Number(bounds.east),
+      }
+    : null;
+
+  const area: SearchArea | null =
+    mode === "polygon"
+      ? points.length > 0
+        ? { kind: "polygon", points }
+        : null
+      : boundsArea;
+
+  const handleModeChange = (next: AreaMode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const handleMapClick = (latLng: GeoPoint) => {
+    setError(null);
+
+    if (mode === "polygon") {
+      setPoints((prev) => [...prev, latLng]);
+    } else if (!firstCorner) {
+      setFirstCorner(latLng);
+      setBounds(EMPTY_BOUNDS);
+    } else {
+      setBounds(boundsFromCorners(firstCorner, latLng));
+      setFirstCorner(null);
+    }
+  };
+
+  const handleClear = () => {
+    setPoints([]);
+    setFirstCorner(null);
+    setBounds(EMPTY_BOUNDS);
+    setError(null);
+  };
+
+  const handleGoTo = () => {
+    const parsed = parseCoordinateList(goTo);
+    if (!parsed || parsed.length !== 1) {
+      setError('Enter a location as "latitude, longitude"');
+      return;
+    }
+
+    setError(null);
+    setMapCenter(parsed[0]);
+    setMapZoom(11);
+  };
+
+  const handlePaste = () => {
+    const parsed = parseCoordinateList(pasteText);
+    if (!parsed || parsed.length === 0) {
+      setError('Paste one "latitude, longitude" pair per line');
+      return;
+    }
+
+    setError(null);
+    setPoints(parsed);
+    setMapCenter(parsed[0]);
+  };
+
+  const handleSearch = () => {
+    if (!area) {
+      setError(
+        mode === "polygon"
+          ? "Click the map to draw the area, or paste its coordinates"
+          : "Click two opposite corners on the map, or enter the bounds",
+      );
+      return;
+    }
+
+    const areaError = validateSearchArea(area);
+    if (areaError) {
+      setError(areaError);
+      return;
+    }
+    if (!/^[A-Za-z]{2}$/.test(countryCode.trim())) {
+      setError("Enter the two-letter country code of the area");
+      return;
+    }
+
+    const params = new URLSearchParams({
+      area: serializeSearchArea(area),
+      country: countryCode.trim().toUpperCase(),
+    });
+    if (areaName.trim()) {
+      params.set("name", areaName.trim());
+    }
+
+    router.push(`/dashboard/hotels/search-results?${params.toString()}`);
+  };
+
+  const outline = area ? getAreaPolygon(area) : [];
+
+  return (
+    <div className={` ${className || ""}`}>
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">
+            Search Hotels in an Area
+          </h2>
+          <p className="text-sm text-gray-600">
+            Draw a polygon or a bounding box on the map. Areas can reach up to{" "}
+            {MAX_AREA_RADIUS_KM} km from their centre.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex border border-gray-300 rounded-lg overflow-hidden">
+            {(["polygon", "bbox"] as AreaMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleModeChange(option)}
+                className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+                  mode === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {option === "polygon" ? "Polygon" : "Bounding box"}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <input
+              type="text"
+              value={goTo}
+              onChange={(e) => setGoTo(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleGoTo()}
+              placeholder="Go to lat, lng"
+              className="w-44 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button variant="outline" size="sm" onClick={handleGoTo}>
+              Go
+            </Button>
+          </div>
+        </div>
+
+        <TileMap
+          center={mapCenter}
+          zoom={mapZoom}
+          onViewChange={(center, zoom) => {
+            setMapCenter(center);
+            setMapZoom(zoom);
+          }}
+          onMapClick={handleMapClick}
+          doubleClickZoom={false}
+          height={420}
+        >
+          {(view) => {
+            const pixels = outline.map((point) => view.toPoint(point));
+            const corner = firstCorner ? view.toPoint(firstCorner) : null;
+
+            return (
+              <svg
+                className="absolute inset-0 pointer-events-none"
+                width={view.width}
+                height={view.height}
+              >
+                {pixels.length > 2 ? (
+                  <polygon
+                    points={pixels.map(({ x, y }) => `${x},${y}`).join(" ")}
+                    fill="rgb(37 99 235 / 0.12)"
+                    stroke="rgb(37 99 235)"
+                    strokeWidth={2}
+                  />
+                ) : (
+                  <polyline
+                    points={pixels.map(({ x, y }) => `${x},${y}`).join(" ")}
+                    fill="none"
+                    stroke="rgb(37 99 235)"
+                    strokeWidth={2}
+                  />
+                )}
+                {mode === "polygon" &&
+                  pixels.map(({ x, y }, index) => (
+                    <circle
+                      key={index}
+                      cx={x}
+                      cy={y}
+                      r={4}
+                      fill="white"
+                      stroke="rgb(37 99 235)"
+                      strokeWidth={2}
+                    />
+                  ))}
+                {corner && (
+                  <circle
+                    cx={corner.x}
+                    cy={corner.y}
+                    r={5}
+                    fill="rgb(220 38 38)"
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                )}
+              </svg>
+            );
+          }}
+        </TileMap>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-gray-500">
+            {mode === "polygon"
+              ? `${points.length} point${points.length !== 1 ? "s" : ""}. Click the map to add a point; drag to pan.`
+              : firstCorner
+                ? "Click the opposite corner."
+                : "Click one corner of the box, then the opposite corner."}
+          </p>
+          <div className="flex gap-2">
+            {mode === "polygon" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPoints((prev) => prev.slice(0, -1))}
+                disabled={points.length === 0}
+              >
+                Undo
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleClear}>
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {mode === "polygon" ? (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Or paste coordinates
+            </label>
+            <textarea
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              rows={3}
+              placeholder={"41.3851, 2.1734\n41.4036, 2.1744\n41.3917, 2.1649"}
+              className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handlePaste}
+              disabled={!pasteText.trim()}
+            >
+              Use Coordinates
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {(Object.keys(EMPTY_BOUNDS) as (keyof BoundsFields)[]).map((edge) => (
+              <Input
+                key={edge}
+                label={edge.charAt(0).toUpperCase() + edge.slice(1)}
+                type="number"
+                step="any"
+                value={bounds[edge]}
+                onChange={(e) =>
+                  setBounds((prev) => ({ ...prev, [edge]: e.target.value }))
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Input
+            label="Country Code"
+            value={countryCode}
+            onChange={(e) => setCountryCode(e.target.value)}
+            placeholder="e.g. ES"
+            maxLength={2}
+          />
+          <Input
+            label="Area Name (optional)"
+            value={areaName}
+            onChange={(e) => setAreaName(e.target.value)}
+            placeholder="e.g. Barcelona old town"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <Button variant="primary" onClick={handleSearch}>
+          Search This Area
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Hotel Results Map Component
+ * Plots location search results as clustered markers around the search centre,
+ * with the search radius drawn as a circle, or the searched area as a polygon.
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { config } from "@/lib/config";
+import { TileMap } from "./tile-map";
+import {
+  MIN_MAP_ZOOM,
+  clusterMarkers,
+  getZoomForRadius,
+  isValidLatLng,
+  metersPerPixel,
+  project,
+  unproject,
+  type LatLng,
+  type MarkerCluster,
+} from "@/lib/utils/map-geometry";
+import type { LocationHotel } from "@/lib/types/hotel";
+
+interface HotelResultsMapProps {
+  hotels: LocationHotel[];
+  center: LatLng;
+  radiusKm: number;
+  onSelectHotel: (hotel: LocationHotel) => void;
+  // Outline of a searched area, drawn instead of the radius circle
+  area?: LatLng[];
+  height?: number;
+}
+
+// Markers closer than this many pixels are drawn as one cluster
+const CLUSTER_CELL_SIZE = 48;
+
+export function HotelResultsMap({
+  hotels,
+  center,
+  radiusKm,
+  onSelectHotel,
+  area,
+  height = 560,
+}: HotelResultsMapProps) {
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [viewCenter, setViewCenter] = useState<LatLng>(center);
+  const [openCluster, setOpenCluster] = useState<MarkerCluster<LocationHotel> | null>(
+    null,
+  );
+
+  const maxZoom = config.map.maxZoom;
+
+  // Fit the search radius whenever the search changes
+  useEffect(() => {
+    setViewCenter(center);
+    setZoom(null);
+    setOpenCluster(null);
+  }, [center.lat, center.lng, radiusKm]);
+
+  const currentZoom =
+    zoom ??
+    (width > 0
+      ? getZoomForRadius(radiusKm, center.lat, Math.min(width, height), maxZoom)
+      : MIN_MAP_ZOOM);
+
+  const mappable = useMemo(
+    () => hotels.filter((hotel) => isValidLatLng(hotel.latitude, hotel.longitude)),
+    [hotels],
+  );
+
+  // Cluster in world pixels so clusters don't change while panning
+  const worldClusters = useMemo(
+    () =>
+      clusterMarkers(
+        mappable,
+        (hotel) => project({ lat: hotel.latitude, lng: hotel.longitude }, currentZoom),
+        CLUSTER_CELL_SIZE,
+      ),
+    [mappable, currentZoom],
+  );
+
+  const handleViewChange = (next: LatLng, nextZoom: number) => {
+    if (nextZoom !== currentZoom) setOpenCluster(null);
+    setViewCenter(next);
+    setZoom(nextZoom);
+  };
+
+  const handleClusterClick = (cluster: MarkerCluster<LocationHotel>) => {
+    if (cluster.items.length === 1) {
+      onSelectHotel(cluster.items[0]);
+      return;
+    }
+
+    const samePlace = cluster.items.every(
+      (hotel) =>
+        hotel.latitude === cluster.items[0].latitude &&
+        hotel.longitude === cluster.items[0].longitude,
+    );
+
+    // Zoom in to split the cluster; list hotels that can't be split
+    if (currentZoom < maxZoom && !samePlace) {
+      handleViewChange(
+        unproject({ x: cluster.x, y: cluster.y }, currentZoom),
+        Math.min(maxZoom, currentZoom + 2),
+      );
+    } else {
+      setOpenCluster(cluster);
+    }
+  };
+
+  return (
+    <TileMap
+      center={viewCenter}
+      zoom={currentZoom}
+      onViewChange={handleViewChange}
+      onResize={setWidth}
+      height={height}
+    >
+      {(view) => {
+        const centerPoint = view.toPoint(center);
+        const origin = project(view.center, view.zoom);
+        const clusters = worldClusters.filter((cluster) => {
+          const x = cluster.x - origin.x + view.width / 2;
+          const y = cluster.y - origin.y + view.height / 2;
+          return (
+            x > -CLUSTER_CELL_SIZE &&
+            y > -CLUSTER_CELL_SIZE &&
+            x < view.width + CLUSTER_CELL_SIZE &&
+            y < view.height + CLUSTER_CELL_SIZE
+          );
+        });
+
+        return (
+          <>
+            {/* Search area or radius, and centre */}
+            <svg
+              className="absolute inset-0 pointer-events-none"
+              width={view.width}
+              height={view.height}
+            >
+              {area ? (
+                <polygon
+                  points={area
+                    .map((point) => {
+                      const { x, y } = view.toPoint(point);
+                      return `${x},${y}`;
+                    })
+                    .join(" ")}
+                  fill="rgb(37 99 235 / 0.08)"
+                  stroke="rgb(37 99 235)"
+                  strokeWidth={2}
+                />
+              ) : (
+                <>
+                  <circle
+                    cx={centerPoint.x}
+                    cy={centerPoint.y}
+                    r={(radiusKm * 1000) / metersPerPixel(center.lat, view.zoom)}
+                    fill="rgb(37 99 235 / 0.08)"
+                    stroke="rgb(37 99 235)"
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                  />
+                  <circle
+                    cx={centerPoint.x}
+                    cy={centerPoint.y}
+                    r={6}
+                    fill="rgb(220 38 38)"
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                </>
+              )}
+            </svg>
+
+            {/* Markers */}
+            {clusters.map((cluster) => {
+              const single = cluster.items.length === 1;
+              const size = single
+                ? 16
+                : Math.min(48, 24 + Math.log2(cluster.items.length) * 4);
+
+              return (
+                <button
+                  key={`${cluster.items[0].ittid}-${cluster.items[0].name}-${cluster.items.length}`}
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleClusterClick(cluster);
+                  }}
+                  title={single ? cluster.items[0].name : `${cluster.items.length} hotels`}
+                  aria-label={
+                    single ? cluster.items[0].name : `${cluster.items.length} hotels`
+                  }
+                  className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md flex items-center justify-center text-xs font-semibold text-white transition-transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    single ? "bg-blue-600" : "bg-indigo-600"
+                  }`}
+                  style={{
+                    left: cluster.x - origin.x + view.width / 2,
+                    top: cluster.y - origin.y + view.height / 2,
+                    width: size,
+                    height: size,
+                  }}
+                >
+                  {!single && cluster.items.length}
+                </button>
+              );
+            })}
+
+            {/* Hotels at one spot */}
+            {openCluster && (
+              <div
+                className="absolute top-3 left-3 w-72 max-h-80 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 cursor-default"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+              >
+                <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+                  <span className="text-sm font-semibold text-gray-900">
+                    {openCluster.items.length} hotels here
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setOpenCluster(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Close"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                {openCluster.items.map((hotel, index) => (
+                  <button
+                    key={`${hotel.ittid}-${index}`}
+                    type="button"
+                    onClick={() => onSelectHotel(hotel)}
+                    className="block w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                  >
+                    <span className="font-medium text-gray-900">{hotel.name}</span>
+                    {hotel.address && (
+                      <span className="block text-xs text-gray-500 truncate">
+                        {hotel.address}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Legend */}
+            <div className="absolute bottom-2 left-2 px-2 py-1 bg-white/90 rounded text-xs text-gray-700 shadow-sm pointer-events-none">
+              {mappable.length} hotel{mappable.length !== 1 ? "s" : ""}{" "}
+              {area ? "in the selected area" : `within ${radiusKm} km`}
+              {mappable.length < hotels.length &&
+                ` (${hotels.length - mappable.length} without coordinates)`}
+            </div>
+          </>
+        );
+      }}
+    </TileMap>
+  );
+}
@@ -6,4 +6,7 @@ export { HotelSearch } from './hotel-search';
 export { HotelCard, HotelCardGrid } from './hotel-card';
 export { HotelDetailsView } from './hotel-details';
 export { HotelManagement } from './hotel-management';
-export { HotelAutocompleteSearch } from './hotel-autocomplete-search';
\ No newline at end of file
+export { HotelAutocompleteSearch } from './hotel-autocomplete-search';
+export { HotelAreaSearch } from './hotel-area-search';
+export { HotelResultsMap } from './hotel-results-map';
+export { SupplierComparison } from './supplier-comparison';
@@ -0,0 +1,260 @@
+/**
+ * Supplier Comparison Component
+ * Shows two or more suppliers' content for a hotel in columns, with fields they
+ * disagree on highlighted and the richest supplier per field marked.
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  compareSupplierContent,
+  type ComparisonCell,
+  type ComparisonRow,
+} from "@/lib/utils/supplier-comparison";
+import type { ProviderMappingDetail } from "@/lib/types/full-hotel-details";
+
+interface SupplierComparisonProps {
+  providers: ProviderMappingDetail[];
+  // Suppliers shown initially
+  initialCount?: number;
+}
+
+// List items and description characters shown before "Show all"
+const COLLAPSED_ITEMS = 12;
+const COLLAPSED_TEXT = 400;
+
+function CellContent({
+  row,
+  cell,
+  expanded,
+}: {
+  row: ComparisonRow;
+  cell: ComparisonCell;
+  expanded: boolean;
+}) {
+  if (cell.text === null) {
+    return <span className="text-sm italic text-gray-400">Not provided</span>;
+  }
+
+  if (cell.items) {
+    const items = expanded ? cell.items : cell.items.slice(0, COLLAPSED_ITEMS);
+    return (
+      <div>
+        <p className="text-sm font-semibold text-gray-900 mb-2">
+          {cell.count} {row.label.toLowerCase()}
+        </p>
+        <ul className="flex flex-wrap gap-1">
+          {items.map((item, index) => (
+            <li
+              key={`${item.label}-${index}`}
+              className={`px-2 py-0.5 rounded text-xs ${
+                item.shared ? "bg-gray-100 text-gray-700" : "bg-amber-100 text-amber-900"
+              }`}
+              title={item.shared ? undefined : "Not listed by every supplier"}
+            >
+              {item.label}
+            </li>
+          ))}
+          {!expanded && cell.items.length > COLLAPSED_ITEMS && (
+            <li className="px-2 py-0.5 text-xs text-gray-500">
+              +{cell.items.length - COLLAPSED_ITEMS} more
+            </li>
+          )}
+        </ul>
+      </div>
+    );
+  }
+
+  if (row.field === "photos") {
+    return <span className="text-sm text-gray-900">{cell.count} photos</span>;
+  }
+
+  if (row.field === "descriptions") {
+    const text =
+      expanded || cell.text.length <= COLLAPSED_TEXT
+        ? cell.text
+        : `${cell.text.slice(0, COLLAPSED_TEXT)}…`;
+    return (
+      <div>
+        <p className="text-xs text-gray-500 mb-1">{cell.count?.toLocaleString()} characters</p>
+        <p className="text-sm text-gray-700 whitespace-pre-line">{text}</p>
+      </div>
+    );
+  }
+
+  return <span className="text-sm text-gray-900">{cell.text}</span>;
+}
+
+export function SupplierComparison({ providers, initialCount = 3 }: SupplierComparisonProps) {
+  const comparable = useMemo(
+    () => providers.filter((provider) => provider.full_details !== null),
+    [providers],
+  );
+
+  const [selected, setSelected] = useState<number[]>(() =>
+    comparable.slice(0, initialCount).map((provider) => provider.id),
+  );
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+
+  const compared = useMemo(
+    () => comparable.filter((provider) => selected.includes(provider.id)),
+    [comparable, selected],
+  );
+  const comparison = useMemo(() => compareSupplierContent(compared), [compared]);
+
+  const toggleSupplier = (id: number) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
+  const toggleRow = (field: string) => {
+    setExpandedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  if (comparable.length < 2) {
+    return (
+      <p className="text-sm text-gray-600">
+        At least two suppliers with content are needed to compare.
+      </p>
+    );
+  }
+
+  const disagreements = comparison.rows.filter((row) => row.disagree).length;
+  const mostFilled = Math.max(...comparison.filled);
+
+  return (
+    <div className="space-y-4">
+      {/* Supplier picker */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">
+          Compare suppliers ({compared.length} selected)
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {comparable.map((provider) => (
+            <button
+              key={provider.id}
+              type="button"
+              onClick={() => toggleSupplier(provider.id)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                selected.includes(provider.id)
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {provider.provider_name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {compared.length < 2 ? (
+        <p className="text-sm text-gray-600">Select at least two suppliers.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+            <span>
+              <span className="font-semibold text-gray-900">{disagreements}</span> of{" "}
+              {comparison.rows.length} fields disagree
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded bg-amber-100 border border-amber-300" />
+              Disagreement
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block px-1.5 rounded bg-green-100 text-green-800 font-medium">
+                Most
+              </span>
+              Richest content
+            </span>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-left border-collapse">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="sticky left-0 z-10 bg-gray-50 px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider w-36">
+                    Field
+                  </th>
+                  {comparison.suppliers.map((supplier, index) => (
+                    <th
+                      key={`${supplier}-${index}`}
+                      className="px-4 py-3 text-sm font-semibold text-gray-900 min-w-[16rem]"
+                    >
+                      {supplier}
+                      <span
+                        className={`block text-xs font-normal ${
+                          comparison.filled[index] === mostFilled
+                            ? "text-green-700"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {comparison.filled[index]} of {comparison.rows.length} fields filled
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {comparison.rows.map((row) => {
+                  const expandable = row.cells.some(
+                    (cell) =>
+                      (cell.items?.length ?? 0) > COLLAPSED_ITEMS ||
+                      (row.field === "descriptions" && (cell.text?.length ?? 0) > COLLAPSED_TEXT),
+                  );
+                  const expanded = expandedRows.has(row.field);
+
+                  return (
+                    <tr key={row.field} className="align-top">
+                      <th
+                        scope="row"
+                        className={`sticky left-0 z-10 px-4 py-3 text-sm font-medium ${
+                          row.disagree ? "bg-amber-50 text-amber-900" : "bg-white text-gray-700"
+                        }`}
+                      >
+                        {row.label}
+                        {row.disagree && (
+                          <span className="block text-xs font-normal">Disagree</span>
+                        )}
+                        {expandable && (
+                          <button
+                            type="button"
+                            onClick={() => toggleRow(row.field)}
+                            className="block mt-1 text-xs font-normal text-blue-600 hover:text-blue-700"
+                          >
+                            {expanded ? "Show less" : "Show all"}
+                          </button>
+                        )}
+                      </th>
+                      {row.cells.map((cell, index) => (
+                        <td
+                          key={index}
+                          className={`px-4 py-3 ${
+                            row.disagree && cell.text !== null ? "bg-amber-50" : ""
+                          }`}
+                        >
+                          {row.richest.includes(index) && (
+                            <span className="inline-block mb-1 px-1.5 rounded bg-green-100 text-green-800 text-xs font-medium">
+                              Most
+                            </span>
+                          )}
+                          <CellContent row={row} cell={cell} expanded={expanded} />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
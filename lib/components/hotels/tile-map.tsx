@@ -0,0 +1,197 @@
+/**
+ * Tile Map Component
+ * A pannable, zoomable tile map (tiles from config.map.tileUrl). The view is controlled
+ * by the parent; overlays are rendered by `children` with the current projection.
+ */
+
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { config } from "@/lib/config";
+import {
+  MIN_MAP_ZOOM,
+  getVisibleTiles,
+  project,
+  toViewportPoint,
+  unproject,
+  type LatLng,
+  type Point,
+} from "@/lib/utils/map-geometry";
+
+export interface TileMapView {
+  center: LatLng;
+  zoom: number;
+  width: number;
+  height: number;
+  // Viewport pixel of a coordinate, and back
+  toPoint: (latLng: LatLng) => Point;
+  toLatLng: (point: Point) => LatLng;
+}
+
+interface TileMapProps {
+  center: LatLng;
+  zoom: number;
+  onViewChange: (center: LatLng, zoom: number) => void;
+  height?: number;
+  // Clicks that weren't the end of a drag
+  onMapClick?: (latLng: LatLng) => void;
+  doubleClickZoom?: boolean;
+  onResize?: (width: number) => void;
+  children?: (view: TileMapView) => React.ReactNode;
+  className?: string;
+}
+
+export function TileMap({
+  center,
+  zoom,
+  onViewChange,
+  height = 560,
+  onMapClick,
+  doubleClickZoom = true,
+  onResize,
+  children,
+  className = "",
+}: TileMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; origin: LatLng; moved: boolean } | null>(
+    null,
+  );
+  // Set when the last pointer gesture was a drag, so its click is ignored
+  const draggedRef = useRef(false);
+  const [width, setWidth] = useState(0);
+
+  const maxZoom = config.map.maxZoom;
+
+  // Track the container width so tiles fill it
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const measure = () => {
+      setWidth(element.clientWidth);
+      onResize?.(element.clientWidth);
+    };
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const view: TileMapView = {
+    center,
+    zoom,
+    width,
+    height,
+    toPoint: (latLng) => toViewportPoint(latLng, center, zoom, width, height),
+    toLatLng: (point) => {
+      const origin = project(center, zoom);
+      return unproject(
+        { x: origin.x + point.x - width / 2, y: origin.y + point.y - height / 2 },
+        zoom,
+      );
+    },
+  };
+
+  const setZoom = (next: number) => {
+    onViewChange(center, Math.max(MIN_MAP_ZOOM, Math.min(maxZoom, next)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, origin: center, moved: false };
+    draggedRef.current = false;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 3) return;
+
+    drag.moved = true;
+    const origin = project(drag.origin, zoom);
+    onViewChange(unproject({ x: origin.x - dx, y: origin.y - dy }, zoom), zoom);
+  };
+
+  const handlePointerUp = () => {
+    draggedRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onMapClick || draggedRef.current) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    onMapClick(view.toLatLng({ x: e.clientX - rect.left, y: e.clientY - rect.top }));
+  };
+
+  const tiles =
+    width > 0 ? getVisibleTiles(center, zoom, width, height, config.map.tileUrl) : [];
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-lg border border-gray-200 bg-gray-100 select-none touch-none ${
+        onMapClick ? "cursor-crosshair" : "cursor-grab active:cursor-grabbing"
+      } ${className}`}
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={handleClick}
+      onDoubleClick={doubleClickZoom ? () => setZoom(zoom + 1) : undefined}
+    >
+      {/* Tiles */}
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: 256, height: 256 }}
+        />
+      ))}
+
+      {width > 0 && children?.(view)}
+
+      {/* Zoom controls */}
+      <div
+        className="absolute top-3 right-3 flex flex-col bg-white rounded-md shadow border border-gray-200 cursor-default"
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={() => setZoom(zoom + 1)}
+          disabled={zoom >= maxZoom}
+          className="p-2 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+          aria-label="Zoom in"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setZoom(zoom - 1)}
+          disabled={zoom <= MIN_MAP_ZOOM}
+          className="p-2 text-gray-700 hover:bg-gray-50 border-t border-gray-200 disabled:opacity-40"
+          aria-label="Zoom out"
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Attribution */}
+      <div className="absolute bottom-0 right-0 px-1.5 py-0.5 bg-white/80 text-[10px] text-gray-600 pointer-events-none">
+        {config.map.attribution}
+      </div>
+    </div>
+  );
+}
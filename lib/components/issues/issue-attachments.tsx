@@ -0,0 +1,210 @@
+/**
+ * Issue Attachments Component
+ * Image previews and download links for files attached to an issue
+ */
+
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { IssueService } from "@/lib/api/issues";
+import { CacheManager } from "@/lib/utils/cache-manager";
+import {
+  ISSUE_ATTACHMENT_ACCEPT,
+  ISSUE_ATTACHMENT_MAX_FILES,
+  isImageAttachment,
+  validateAttachmentFile,
+} from "@/lib/utils/issue-attachments";
+import type { Issue, IssueAttachment } from "@/lib/types/issue";
+import { Download, FileText, Loader, Paperclip, Upload } from "lucide-react";
+
+interface IssueAttachmentsProps {
+  issue: Issue;
+  onUpload?: (files: File[]) => Promise<void>;
+}
+
+function AttachmentPreview({ issueId, attachment }: { issueId: string; attachment: IssueAttachment }) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    IssueService.downloadAttachment(issueId, attachment).then((response) => {
+      if (cancelled) return;
+      if (!response.success || !response.data) {
+        console.error("Failed to load attachment preview:", response.error);
+        setFailed(true);
+        return;
+      }
+      objectUrl = URL.createObjectURL(response.data);
+      setPreviewUrl(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [issueId, attachment]);
+
+  if (failed) {
+    return (
+      <div className="w-full h-24 flex items-center justify-center text-xs text-[rgb(var(--text-tertiary))]">
+        Preview unavailable
+      </div>
+    );
+  }
+
+  if (!previewUrl) {
+    return (
+      <div className="w-full h-24 flex items-center justify-center">
+        <Loader className="w-4 h-4 animate-spin text-[rgb(var(--text-tertiary))]" />
+      </div>
+    );
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={previewUrl}
+      alt={attachment.fileName}
+      className="w-full h-24 object-cover rounded"
+    />
+  );
+}
+
+export function IssueAttachments({ issue, onUpload }: IssueAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const attachments = issue.attachments || [];
+  const remaining = ISSUE_ATTACHMENT_MAX_FILES - attachments.length;
+
+  const handleDownload = async (attachment: IssueAttachment) => {
+    setDownloadingId(attachment.id);
+    setError(null);
+
+    const response = await IssueService.downloadAttachment(issue.id, attachment);
+
+    if (response.success && response.data) {
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } else {
+      setError(response.error?.message || "Download failed");
+    }
+    setDownloadingId(null);
+  };
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+
+    if (!onUpload || files.length === 0) return;
+
+    const validationErrors = files
+      .map((file) => validateAttachmentFile(file))
+      .filter((message): message is string => message !== null);
+
+    if (files.length > remaining) {
+      validationErrors.push(`You can attach ${remaining} more file(s) to this issue`);
+    }
+
+    if (validationErrors.length > 0) {
+      setError(validationErrors.join("; "));
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      await onUpload(files);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (attachments.length === 0 && !onUpload) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-[rgb(var(--text-secondary))] flex items-center gap-1">
+          <Paperclip className="w-4 h-4" />
+          Attachments ({attachments.length})
+        </h4>
+        {onUpload && remaining > 0 && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="text-xs text-primary-color hover:text-primary-hover font-medium flex items-center gap-1 disabled:opacity-50"
+            >
+              {isUploading ? <Loader className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+              {isUploading ? "Uploading..." : "Add files"}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ISSUE_ATTACHMENT_ACCEPT}
+              onChange={handleFilesSelected}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {attachments.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="border border-[rgb(var(--border-primary))] rounded-lg p-2 flex flex-col gap-2"
+            >
+              {isImageAttachment(attachment.mimeType) ? (
+                <AttachmentPreview issueId={issue.id} attachment={attachment} />
+              ) : (
+                <div className="w-full h-24 flex items-center justify-center bg-[rgb(var(--bg-secondary))] rounded">
+                  <FileText className="w-8 h-8 text-[rgb(var(--text-tertiary))]" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-[rgb(var(--text-primary))] truncate" title={attachment.fileName}>
+                  {attachment.fileName}
+                </p>
+                <p className="text-xs text-[rgb(var(--text-tertiary))]">
+                  {CacheManager.formatBytes(attachment.size)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDownload(attachment)}
+                disabled={downloadingId === attachment.id}
+                className="text-xs text-primary-color hover:text-primary-hover font-medium flex items-center gap-1 disabled:opacity-50"
+              >
+                <Download className="w-3 h-3" />
+                {downloadingId === attachment.id ? "Downloading..." : "Download"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
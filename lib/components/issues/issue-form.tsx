@@ -4,16 +4,23 @@
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { Card } from "@/lib/components/ui/card";
 import { Input } from "@/lib/components/ui/input";
 import { Button } from "@/lib/components/ui/button";
 import { Select, SelectOption } from "@/lib/components/ui/select";
-import { AlertCircle, CheckCircle2, Send } from "lucide-react";
+import { AlertCircle, CheckCircle2, Paperclip, Send, X } from "lucide-react";
+import { CacheManager } from "@/lib/utils/cache-manager";
+import {
+  ISSUE_ATTACHMENT_ACCEPT,
+  ISSUE_ATTACHMENT_MAX_BYTES,
+  ISSUE_ATTACHMENT_MAX_FILES,
+  validateAttachmentFile,
+} from "@/lib/utils/issue-attachments";
 import type { IssueCategory, IssuePriority, CreateIssueInput } from "@/lib/types/issue";
 
 interface IssueFormProps {
-  onSubmit: (issue: CreateIssueInput) => Promise<void>;
+  onSubmit: (issue: CreateIssueInput, files: File[]) => Promise<void>;
   isSubmitting?: boolean;
 }
 
@@ -40,9 +47,36 @@ export function IssueForm({ onSubmit, isSubmitting = false }: IssueFormProps) {
     userEmail: "",
   });
 
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   const [errors, setErrors] = useState<Partial<Record<keyof CreateIssueInput, string>>>({});
   const [submitSuccess, setSubmitSuccess] = useState(false);
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const validationErrors = selected
+      .map((file) => validateAttachmentFile(file))
+      .filter((message): message is string => message !== null);
+    const accepted = selected.filter((file) => validateAttachmentFile(file) === null);
+    const combined = [...files, ...accepted];
+
+    if (combined.length > ISSUE_ATTACHMENT_MAX_FILES) {
+      validationErrors.push(`You can attach up to ${ISSUE_ATTACHMENT_MAX_FILES} files`);
+    }
+
+    setFiles(combined.slice(0, ISSUE_ATTACHMENT_MAX_FILES));
+    setFileError(validationErrors.length > 0 ? validationErrors.join("; ") : null);
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(files.filter((_, i) => i !== index));
+    setFileError(null);
+  };
+
   const validate = (): boolean => {
     const newErrors: Partial<Record<keyof CreateIssueInput, string>> = {};
 
@@ -74,7 +108,7 @@ export function IssueForm({ onSubmit, isSubmitting = false }: IssueFormProps) {
     }
 
     try {
-      await onSubmit(formData);
+      await onSubmit(formData, files);
       setSubmitSuccess(true);
       
       // Reset form
@@ -85,6 +119,8 @@ export function IssueForm({ onSubmit, isSubmitting = false }: IssueFormProps) {
         priority: "medium",
         userEmail: "",
       });
+      setFiles([]);
+      setFileError(null);
       setErrors({});
 
       // Hide success message after 5 seconds
@@ -171,6 +207,60 @@ export function IssueForm({ onSubmit, isSubmitting = false }: IssueFormProps) {
           </p>
         </div>
 
+        {/* Attachments (Optional) */}
+        <div>
+          <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+            Attachments (Optional)
+          </label>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={files.length >= ISSUE_ATTACHMENT_MAX_FILES}
+            className="w-full px-3 py-3 border border-dashed border-[rgb(var(--border-primary))] rounded-lg text-sm text-[rgb(var(--text-secondary))] hover:border-primary-color hover:text-primary-color transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Paperclip className="w-4 h-4" />
+            Attach screenshots or export files
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ISSUE_ATTACHMENT_ACCEPT}
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          {fileError && <p className="mt-1 text-sm text-red-600">{fileError}</p>}
+          {files.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {files.map((file, index) => (
+                <li
+                  key={`${file.name}-${index}`}
+                  className="flex items-center justify-between text-xs text-[rgb(var(--text-primary))] bg-[rgb(var(--bg-secondary))] rounded px-2 py-1"
+                >
+                  <span className="truncate">{file.name}</span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    <span className="text-[rgb(var(--text-tertiary))]">
+                      {CacheManager.formatBytes(file.size)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeFile(index)}
+                      className="text-red-600 hover:text-red-700"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-1 text-xs text-[rgb(var(--text-tertiary))]">
+            Images, PDF, CSV, Excel, JSON, ZIP or text · up to {ISSUE_ATTACHMENT_MAX_FILES} files,{" "}
+            {ISSUE_ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB each
+          </p>
+        </div>
+
         {/* Email (Optional) */}
         <Input
           label="Email (Optional)"
@@ -7,12 +7,16 @@
 import React, { useState } from "react";
 import { Card } from "@/lib/components/ui/card";
 import { Badge } from "@/lib/components/ui/badge";
+import { IssueTimeline } from "./issue-timeline";
+import { IssueAttachments } from "./issue-attachments";
 import type { Issue, IssueStatus } from "@/lib/types/issue";
 import { Clock, CheckCircle, XCircle, AlertCircle, Loader } from "lucide-react";
 
 interface IssueListProps {
   issues: Issue[];
   loading?: boolean;
+  onAddComment?: (issueId: string, body: string) => Promise<void>;
+  onUploadAttachments?: (issueId: string, files: File[]) => Promise<void>;
 }
 
 const statusConfig: Record<IssueStatus, { label: string; variant: "success" | "error" | "warning" | "info"; icon: React.ReactNode }> = {
@@ -52,7 +56,12 @@ const priorityColors: Record<string, string> = {
   critical: "bg-red-100 text-red-800 border-red-200",
 };
 
-export function IssueList({ issues, loading = false }: IssueListProps) {
+export function IssueList({
+  issues,
+  loading = false,
+  onAddComment,
+  onUploadAttachments,
+}: IssueListProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   if (loading) {
@@ -146,20 +155,23 @@ export function IssueList({ issues, loading = false }: IssueListProps) {
                         </p>
                       </div>
 
-                      {issue.response && (
-                        <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                          <h4 className="text-sm font-medium text-green-900 mb-1 flex items-center gap-2">
-                            <CheckCircle className="w-4 h-4" />
-                            Support Response
-                          </h4>
-                          <p className="text-sm text-green-800">{issue.response}</p>
-                          {issue.respondedAt && (
-                            <p className="text-xs text-green-600 mt-1">
-                              Responded on {new Date(issue.respondedAt).toLocaleString()}
-                            </p>
-                          )}
-                        </div>
-                      )}
+                      {/* Keep clicks inside the thread from collapsing the card */}
+                      <div onClick={(e) => e.stopPropagation()} className="space-y-4">
+                        <IssueAttachments
+                          issue={issue}
+                          onUpload={
+                            onUploadAttachments
+                              ? (files) => onUploadAttachments(issue.id, files)
+                              : undefined
+                          }
+                        />
+                        <IssueTimeline
+                          issue={issue}
+                          onAddComment={
+                            onAddComment ? (body) => onAddComment(issue.id, body) : undefined
+                          }
+                        />
+                      </div>
 
                       {issue.userEmail && (
                         <p className="text-xs text-[rgb(var(--text-tertiary))] mt-3">
@@ -0,0 +1,159 @@
+/**
+ * Issue Timeline Component
+ * Merges the comment thread and status/priority history into one chronological view
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import type { Issue } from "@/lib/types/issue";
+import { ArrowRight, MessageSquare, Send, Shield, Flag } from "lucide-react";
+
+interface IssueTimelineProps {
+  issue: Issue;
+  onAddComment?: (body: string) => Promise<void>;
+}
+
+type TimelineItem =
+  | { kind: "comment"; id: string; at: Date; author: string; isStaff: boolean; body: string }
+  | { kind: "change"; id: string; at: Date; field: string; from: string; to: string; author: string };
+
+const formatValue = (value: string) =>
+  value.replace("_", " ").replace(/^\w/, (c) => c.toUpperCase());
+
+export function IssueTimeline({ issue, onAddComment }: IssueTimelineProps) {
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const items = useMemo<TimelineItem[]>(() => {
+    const entries: TimelineItem[] = [];
+
+    // Issues answered before threads existed carry a single legacy response
+    if (issue.response && issue.respondedAt) {
+      entries.push({
+        kind: "comment",
+        id: `${issue.id}-legacy-response`,
+        at: issue.respondedAt,
+        author: issue.respondedBy || "Support",
+        isStaff: true,
+        body: issue.response,
+      });
+    }
+
+    (issue.comments || []).forEach((comment) =>
+      entries.push({
+        kind: "comment",
+        id: comment.id,
+        at: comment.createdAt,
+        author: comment.authorName,
+        isStaff: comment.isStaff,
+        body: comment.body,
+      })
+    );
+
+    (issue.history || []).forEach((entry) =>
+      entries.push({
+        kind: "change",
+        id: entry.id,
+        at: entry.changedAt,
+        field: entry.field,
+        from: entry.from,
+        to: entry.to,
+        author: entry.changedBy,
+      })
+    );
+
+    return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+  }, [issue]);
+
+  const handleSend = async () => {
+    if (!onAddComment || !draft.trim()) return;
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      await onAddComment(draft.trim());
+      setDraft("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send reply");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+        Activity
+      </h4>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-[rgb(var(--text-tertiary))] mb-3">
+          No replies or status changes yet
+        </p>
+      ) : (
+        <ol className="relative border-l border-[rgb(var(--border-primary))] ml-2 mb-3 space-y-3">
+          {items.map((item) => (
+            <li key={item.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-[rgb(var(--bg-primary))] border border-[rgb(var(--border-primary))]" />
+              {item.kind === "comment" ? (
+                <div
+                  className={`rounded-lg p-3 text-sm ${
+                    item.isStaff
+                      ? "bg-green-50 border border-green-200 text-green-900"
+                      : "bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))]"
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs font-medium mb-1">
+                    {item.isStaff ? <Shield className="w-3 h-3" /> : <MessageSquare className="w-3 h-3" />}
+                    <span>{item.isStaff ? `${item.author} (Support)` : item.author}</span>
+                    <span className="font-normal opacity-75">{item.at.toLocaleString()}</span>
+                  </div>
+                  <p className="whitespace-pre-wrap">{item.body}</p>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-1 text-xs text-[rgb(var(--text-secondary))]">
+                  <Flag className="w-3 h-3" />
+                  <span className="font-medium">{item.author}</span>
+                  <span>changed {item.field}</span>
+                  <span className="font-medium">{formatValue(item.from)}</span>
+                  <ArrowRight className="w-3 h-3" />
+                  <span className="font-medium">{formatValue(item.to)}</span>
+                  <span className="opacity-75">· {item.at.toLocaleString()}</span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {onAddComment && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write a reply..."
+            rows={3}
+            className="w-full px-3 py-2 border border-[rgb(var(--border-primary))] rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-color bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))] text-sm"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end">
+            <Button
+              variant="secondary"
+              size="sm"
+              loading={isSending}
+              disabled={isSending || !draft.trim()}
+              leftIcon={<Send className="w-4 h-4" />}
+              onClick={handleSend}
+            >
+              Send Reply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
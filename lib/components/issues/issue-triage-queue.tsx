@@ -0,0 +1,225 @@
+/**
+ * Issue Triage Queue Component
+ * Admin view of every reported issue with status controls and the reply thread
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { Card } from "@/lib/components/ui/card";
+import { Button } from "@/lib/components/ui/button";
+import { Select, SelectOption } from "@/lib/components/ui/select";
+import { IssueTimeline } from "./issue-timeline";
+import { IssueAttachments } from "./issue-attachments";
+import type { Issue, IssuePriority, IssueStatus, UpdateIssueInput } from "@/lib/types/issue";
+import { Clock, Inbox, Save, User } from "lucide-react";
+
+interface IssueTriageQueueProps {
+  issues: Issue[];
+  loading?: boolean;
+  onUpdate: (issueId: string, updates: UpdateIssueInput) => Promise<void>;
+  onAddComment: (issueId: string, body: string) => Promise<void>;
+}
+
+interface TriageDraft {
+  status: IssueStatus;
+  priority: IssuePriority;
+}
+
+const statusOptions: SelectOption[] = [
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "resolved", label: "Resolved" },
+  { value: "closed", label: "Closed" },
+];
+
+const priorityOptions: SelectOption[] = [
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+  { value: "critical", label: "Critical" },
+];
+
+const categoryEmoji: Record<string, string> = {
+  bug: "🐛",
+  feature: "✨",
+  help: "❓",
+  other: "📝",
+};
+
+export function IssueTriageQueue({
+  issues,
+  loading = false,
+  onUpdate,
+  onAddComment,
+}: IssueTriageQueueProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TriageDraft | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const openIssue = (issue: Issue) => {
+    if (expandedId === issue.id) {
+      setExpandedId(null);
+      setDraft(null);
+      return;
+    }
+
+    setExpandedId(issue.id);
+    setError(null);
+    setDraft({
+      status: issue.status,
+      priority: issue.priority,
+    });
+  };
+
+  const handleSave = async (issue: Issue) => {
+    if (!draft) return;
+
+    setSavingId(issue.id);
+    setError(null);
+
+    try {
+      await onUpdate(issue.id, {
+        status: draft.status,
+        priority: draft.priority,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update issue");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-color mx-auto mb-4" />
+            <p className="text-sm text-[rgb(var(--text-secondary))]">Loading triage queue...</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (issues.length === 0) {
+    return (
+      <Card className="p-6">
+        <div className="text-center py-12">
+          <Inbox className="w-16 h-16 mx-auto mb-4 text-[rgb(var(--text-tertiary))]" />
+          <h3 className="text-lg font-semibold text-[rgb(var(--text-primary))] mb-2">
+            Triage Queue Empty
+          </h3>
+          <p className="text-sm text-[rgb(var(--text-secondary))]">
+            No issues match the current filters
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-bold text-[rgb(var(--text-primary))]">
+          Triage Queue ({issues.length})
+        </h2>
+        <p className="text-sm text-[rgb(var(--text-secondary))] mt-1">
+          Update status and reply to issues reported by all users
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {issues.map((issue) => {
+          const isExpanded = expandedId === issue.id;
+
+          return (
+            <div
+              key={issue.id}
+              className="border border-[rgb(var(--border-primary))] rounded-lg p-4"
+            >
+              <button
+                type="button"
+                className="w-full text-left"
+                onClick={() => openIssue(issue)}
+                aria-expanded={isExpanded}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-xl">{categoryEmoji[issue.category]}</span>
+                  <h3 className="font-semibold text-[rgb(var(--text-primary))] truncate">
+                    {issue.title}
+                  </h3>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-[rgb(var(--text-tertiary))]">
+                  <span className="flex items-center gap-1">
+                    <User className="w-3 h-3" />
+                    {issue.username || issue.userId}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {issue.createdAt.toLocaleDateString()}
+                  </span>
+                  <span className="uppercase">{issue.status.replace("_", " ")}</span>
+                  <span className="uppercase">{issue.priority}</span>
+                </div>
+              </button>
+
+              {isExpanded && draft && (
+                <div className="mt-4 pt-4 border-t border-[rgb(var(--border-primary))] space-y-4 animate-fade-in">
+                  <p className="text-sm text-[rgb(var(--text-primary))] whitespace-pre-wrap">
+                    {issue.description}
+                  </p>
+
+                  {issue.userEmail && (
+                    <p className="text-xs text-[rgb(var(--text-tertiary))]">
+                      Contact: {issue.userEmail}
+                    </p>
+                  )}
+
+                  <IssueAttachments issue={issue} />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Select
+                      label="Status"
+                      value={draft.status}
+                      onChange={(e) => setDraft({ ...draft, status: e.target.value as IssueStatus })}
+                      options={statusOptions}
+                    />
+                    <Select
+                      label="Priority"
+                      value={draft.priority}
+                      onChange={(e) => setDraft({ ...draft, priority: e.target.value as IssuePriority })}
+                      options={priorityOptions}
+                    />
+                  </div>
+
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+
+                  <div className="flex justify-end">
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      loading={savingId === issue.id}
+                      disabled={savingId === issue.id}
+                      leftIcon={<Save className="w-4 h-4" />}
+                      onClick={() => handleSave(issue)}
+                    >
+                      Save Changes
+                    </Button>
+                  </div>
+
+                  <IssueTimeline
+                    issue={issue}
+                    onAddComment={(body) => onAddComment(issue.id, body)}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
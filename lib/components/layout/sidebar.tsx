@@ -186,7 +186,7 @@ export function Sidebar({ isOpen, onClose, onToggle, userRole }: SidebarProps) {
     (user?.pointBalance === 0 || !user?.pointBalance);
 
   // Get menu sections filtered by user role
-  let menuSections = getMenuSectionsByRole(userRole);
+  let menuSections = getMenuSectionsByRole(userRole, user?.permissions);
 
   // Filter out exports for demo users
   if (isDemoUser) {
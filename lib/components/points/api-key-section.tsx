@@ -12,8 +12,8 @@ import {
   AlertCircle,
   Trash2,
 } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
+import { NamedApiKeysPanel } from "./named-api-keys-panel";
 
 interface ApiKeyInfo {
   api_key: string;
@@ -23,7 +23,10 @@ interface ApiKeyInfo {
 }
 
 export function ApiKeySection() {
-  const [activeTab, setActiveTab] = useState<"generate" | "revoke">("generate");
+  // The backend only accepts the legacy key until it checks named keys through /api/v1/api-keys/verify
+  const [activeTab, setActiveTab] = useState<"named" | "generate" | "revoke">(
+    "generate",
+  );
 
   // Generate API Key State
   const [generateUserId, setGenerateUserId] = useState("");
@@ -67,21 +70,14 @@ export function ApiKeySection() {
     setGenerateSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Generating API key for user:", generateUserId);
       console.log("Active for days:", activeForDays);
 
       const response = await fetch(
-        `${config.api.url}/auth/generate-api-key/${generateUserId.trim()}`,
+        backendUrl(`/auth/generate-api-key/${generateUserId.trim()}`),
         {
           method: "POST",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
@@ -132,20 +128,13 @@ export function ApiKeySection() {
     setRevokeSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Revoking API key for user:", revokeUserId);
 
       const response = await fetch(
-        `${config.api.url}/auth/revoke-api-key/${revokeUserId.trim()}`,
+        backendUrl(`/auth/revoke-api-key/${revokeUserId.trim()}`),
         {
           method: "DELETE",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
         },
@@ -206,7 +195,7 @@ export function ApiKeySection() {
               : "border-transparent text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
           }`}
         >
-          Generate API Key
+          Legacy Key
         </button>
         <button
           onClick={() => setActiveTab("revoke")}
@@ -216,10 +205,23 @@ export function ApiKeySection() {
               : "border-transparent text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
           }`}
         >
-          Revoke API Key
+          Revoke Legacy Key
+        </button>
+        <button
+          onClick={() => setActiveTab("named")}
+          className={`px-4 py-2 font-medium text-sm transition-all duration-200 border-b-2 ${
+            activeTab === "named"
+              ? "border-purple-600 dark:border-purple-400 text-purple-600 dark:text-purple-400"
+              : "border-transparent text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
+          }`}
+        >
+          Named Keys
         </button>
       </div>
 
+      {/* Named Keys Tab */}
+      {activeTab === "named" && <NamedApiKeysPanel />}
+
       {/* Generate API Key Tab */}
       {activeTab === "generate" && (
         <form
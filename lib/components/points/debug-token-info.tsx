@@ -1,24 +1,19 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React from "react";
 import { Shield, CheckCircle, XCircle } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 
+// The token itself is in the httpOnly session cookie, so only the session state is shown
 export function DebugTokenInfo() {
-  const [tokenInfo, setTokenInfo] = useState<{
-    hasToken: boolean;
-    tokenPreview: string;
-  } | null>(null);
+  const { isAuthenticated, isLoading, user } = useAuth();
 
-  useEffect(() => {
-    const token = TokenStorage.getToken();
-    setTokenInfo({
-      hasToken: !!token,
-      tokenPreview: token ? `${token.substring(0, 20)}...` : "No token",
-    });
-  }, []);
+  if (isLoading) return null;
 
-  if (!tokenInfo) return null;
+  const tokenInfo = {
+    hasToken: isAuthenticated,
+    tokenPreview: user ? `Signed in as ${user.username}` : "No session",
+  };
 
   return (
     <div className="mb-4 p-4 bg-[rgb(var(--bg-secondary))] border border-[rgb(var(--border-primary))] rounded-md">
@@ -32,7 +27,7 @@ export function DebugTokenInfo() {
         <div>
           <p className="text-sm font-medium text-[rgb(var(--text-primary))]">
             Authentication Status:{" "}
-            {tokenInfo.hasToken ? "✓ Token Found" : "✗ No Token"}
+            {tokenInfo.hasToken ? "✓ Session Found" : "✗ No Session"}
           </p>
           <p className="text-xs text-[rgb(var(--text-secondary))] font-mono">
             {tokenInfo.tokenPreview}
@@ -2,8 +2,7 @@
 
 import React, { useState } from "react";
 import { Gift, Send, CheckCircle, AlertCircle, RotateCcw } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
 
 interface GivePointsResponse {
   message: string;
@@ -66,19 +65,12 @@ export function GivePointsSection() {
     setGiveSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Giving points to:", giveReceiverId);
       console.log("Allocation type:", allocationType);
 
-      const response = await fetch(`${config.api.url}/user/points/give`, {
+      const response = await fetch(backendUrl("/user/points/give"), {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
@@ -125,20 +117,13 @@ export function GivePointsSection() {
     setResetSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
       console.log("Resetting points for user:", resetUserId);
 
       const response = await fetch(
-        `${config.api.url}/user/reset-point/${resetUserId.trim()}`,
+        backendUrl(`/user/reset-point/${resetUserId.trim()}`),
         {
           method: "POST",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
         },
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Globe,
   Plus,
@@ -9,9 +9,23 @@ import {
   AlertCircle,
   List,
   Loader2,
+  Pencil,
+  Search,
+  Clock,
 } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
+import { IpPermissionService } from "@/lib/api/ip-permissions";
+import {
+  describeIpRange,
+  findMatchingIpRules,
+  findOverlappingEntries,
+  getIpRangeError,
+  isIpEntryExpired,
+  parseBulkIpInput,
+  parseIpRange,
+  toIpExpiryTimestamp,
+} from "@/lib/utils/ip-ranges";
+import type { IpEntryDetails } from "@/lib/types/ip-permissions";
 
 interface IpEntry {
   id: number;
@@ -37,7 +51,12 @@ interface ApiResponse {
   };
 }
 
-type TabType = "list" | "activate" | "deactivate";
+type TabType = "list" | "activate" | "deactivate" | "test";
+
+// Details are keyed by the canonical form, whatever form the backend returns
+function entryKey(ipAddress: string): string {
+  return parseIpRange(ipAddress)?.normalized ?? ipAddress;
+}
 
 export function IpAddressPermissionSection() {
   const [activeTab, setActiveTab] = useState<TabType>("list");
@@ -53,6 +72,96 @@ export function IpAddressPermissionSection() {
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Labels and expiry dates, keyed by canonical address
+  const [details, setDetails] = useState<Record<string, IpEntryDetails>>({});
+  const [listUserId, setListUserId] = useState<string | null>(null);
+
+  // Bulk add
+  const [bulkText, setBulkText] = useState("");
+  const [bulkLabel, setBulkLabel] = useState("");
+  const [bulkExpiry, setBulkExpiry] = useState("");
+
+  const [editing, setEditing] = useState<{
+    ipAddress: string;
+    label: string;
+    expiry: string;
+  } | null>(null);
+  const [savingDetails, setSavingDetails] = useState(false);
+
+  const [testIp, setTestIp] = useState("");
+
+  const listMatchesUser = listUserId !== null && listUserId === userId.trim();
+
+  const bulkRows = useMemo(
+    () =>
+      parseBulkIpInput(
+        bulkText,
+        listMatchesUser ? ipList.map((entry) => entry.ip_address) : [],
+        bulkLabel,
+      ),
+    [bulkText, bulkLabel, ipList, listMatchesUser],
+  );
+  const bulkToAdd = bulkRows.filter((row) => !row.error && !row.duplicate);
+
+  const overlaps = useMemo(
+    () => findOverlappingEntries(ipList.map((entry) => entry.ip_address)),
+    [ipList],
+  );
+
+  const expiredEntries = ipList.filter((entry) =>
+    isIpEntryExpired(details[entryKey(entry.ip_address)]),
+  );
+
+  const testError = testIp.trim() ? getIpRangeError(testIp) : null;
+  const testMatches = useMemo(
+    () =>
+      findMatchingIpRules(
+        testIp,
+        ipList.map((entry) => ({
+          ipAddress: entry.ip_address,
+          details: details[entryKey(entry.ip_address)],
+        })),
+      ),
+    [testIp, ipList, details],
+  );
+  const appliedRule = testMatches.find((match) => !match.expired);
+
+  const removeFromBackend = async (ipAddresses: string[]) => {
+    const response = await fetch(backendUrl("/permissions/ip/remove"), {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        user_id: userId,
+        ip_addresses: ipAddresses,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        errorData.message || errorData.detail || "Failed to remove IP address",
+      );
+    }
+
+    const result = await response.json();
+
+    // Labels and expiry dates of removed entries are no longer needed
+    IpPermissionService.removeEntryDetails(userId, ipAddresses).then((response) => {
+      if (!response.success) {
+        console.warn("Failed to remove IP entry details:", response.error?.message);
+      }
+    });
+    setDetails((prev) => {
+      const next = { ...prev };
+      ipAddresses.forEach((ip) => delete next[entryKey(ip)]);
+      return next;
+    });
+
+    return result;
+  };
+
   const handleShowList = async () => {
     if (!userId.trim()) {
       setError("Please enter a user ID");
@@ -64,20 +173,12 @@ export function IpAddressPermissionSection() {
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const apiBaseUrl =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
       const response = await fetch(
-        `${apiBaseUrl}/v1.0/permissions/ip/list/${userId}`,
+        backendUrl(`/permissions/ip/list/${userId}`),
         {
           method: "GET",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
           },
         },
       );
@@ -96,9 +197,20 @@ export function IpAddressPermissionSection() {
       setIpList(entries);
       setUserInfo(data.user);
       setManagedBy(data.managed_by);
+      setListUserId(userId.trim());
+
+      const detailsResponse = await IpPermissionService.getEntryDetails(userId.trim());
+      if (detailsResponse.success && detailsResponse.data) {
+        setDetails(
+          Object.fromEntries(detailsResponse.data.map((item) => [item.ipAddress, item])),
+        );
+      } else {
+        console.warn("Failed to load IP entry details:", detailsResponse.error?.message);
+        setDetails({});
+      }
 
       setSuccess(
-        `Found ${entries.length} active IP address${entries.length !== 1 ? "es" : ""} for ${data.user?.username || "user"}`,
+        `Found ${entries.length} active IP entr${entries.length !== 1 ? "ies" : "y"} for ${data.user?.username || "user"}`,
       );
       setTimeout(() => setSuccess(null), 5000);
     } catch (err) {
@@ -115,32 +227,33 @@ export function IpAddressPermissionSection() {
       return;
     }
 
-    if (!newIp.trim()) {
-      setError("Please enter an IP address");
+    if (bulkToAdd.length === 0) {
+      setError(
+        bulkRows.length === 0
+          ? "Please enter at least one IP address or CIDR range"
+          : "Nothing to add. Fix the highlighted rows first",
+      );
       return;
     }
 
+    const expiresAt = bulkExpiry ? toIpExpiryTimestamp(bulkExpiry) : null;
+    const addresses = bulkToAdd.map((row) => row.range!.normalized);
+
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
       const response = await fetch(
-        `${config.api.url}/permissions/ip/active-permission`,
+        backendUrl("/permissions/ip/active-permission"),
         {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
             id: userId,
-            ip: [newIp],
+            ip: addresses,
           }),
         },
       );
@@ -156,16 +269,37 @@ export function IpAddressPermissionSection() {
 
       const result = await response.json();
       console.log("Activate IP response:", result);
-      setSuccess(`Successfully activated IP address: ${newIp}`);
-      setNewIp("");
 
-      // Refresh the IP list if we're on the list tab
-      if (activeTab === "list") {
-        setTimeout(() => {
-          handleShowList();
-        }, 1000);
+      let detailsError: string | null = null;
+      const detailsResponse = await IpPermissionService.saveEntryDetails(
+        userId.trim(),
+        bulkToAdd.map((row) => ({
+          ipAddress: row.range!.normalized,
+          label: row.label,
+          expiresAt,
+        })),
+      );
+      if (detailsResponse.success && detailsResponse.data) {
+        const saved = detailsResponse.data;
+        setDetails((prev) => ({
+          ...prev,
+          ...Object.fromEntries(saved.map((item) => [item.ipAddress, item])),
+        }));
+      } else {
+        console.warn("Failed to save IP entry details:", detailsResponse.error?.message);
+        detailsError =
+          "IP addresses were activated, but their labels and expiry could not be saved";
       }
 
+      setBulkText("");
+
+      // Refresh the list so overlap checks include the new entries
+      await handleShowList();
+      setError(detailsError);
+      setSuccess(
+        `Successfully activated ${addresses.length} IP entr${addresses.length !== 1 ? "ies" : "y"}`,
+      );
+
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
       console.error("Error activating IP:", err);
@@ -188,40 +322,24 @@ export function IpAddressPermissionSection() {
       return;
     }
 
+    const ipError = getIpRangeError(newIp);
+    if (ipError) {
+      setError(ipError);
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const apiBaseUrl =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const response = await fetch(`${apiBaseUrl}/v1.0/permissions/ip/remove`, {
-        method: "DELETE",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          ip_addresses: [newIp],
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.message ||
-            errorData.detail ||
-            "Failed to deactivate IP address",
-        );
-      }
-
-      const result = await response.json();
+      // Remove the entry as the backend lists it, falling back to the canonical form
+      const listed = ipList.find(
+        (entry) => entryKey(entry.ip_address) === entryKey(newIp),
+      );
+      const result = await removeFromBackend([
+        listed?.ip_address ?? entryKey(newIp),
+      ]);
       console.log("Remove IP response:", result);
 
       // Update success message based on response
@@ -261,35 +379,7 @@ export function IpAddressPermissionSection() {
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const apiBaseUrl =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const response = await fetch(`${apiBaseUrl}/v1.0/permissions/ip/remove`, {
-        method: "DELETE",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          ip_addresses: [ipAddress],
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.message ||
-            errorData.detail ||
-            "Failed to remove IP address",
-        );
-      }
-
-      const result = await response.json();
+      const result = await removeFromBackend([ipAddress]);
       console.log("Remove IP from list response:", result);
 
       // Update success message based on response
@@ -315,6 +405,57 @@ export function IpAddressPermissionSection() {
     }
   };
 
+  const handleRemoveExpired = async () => {
+    const ipAddresses = expiredEntries.map((entry) => entry.ip_address);
+    if (ipAddresses.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await removeFromBackend(ipAddresses);
+      setIpList((prev) =>
+        prev.filter((entry) => !ipAddresses.includes(entry.ip_address)),
+      );
+      setSuccess(
+        `Removed ${ipAddresses.length} expired IP entr${ipAddresses.length !== 1 ? "ies" : "y"}`,
+      );
+      setTimeout(() => setSuccess(null), 5000);
+    } catch (err) {
+      console.error("Error removing expired IPs:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to remove expired IPs",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!editing || !listUserId) return;
+
+    setSavingDetails(true);
+    setError(null);
+
+    const response = await IpPermissionService.saveEntryDetails(listUserId, [
+      {
+        ipAddress: editing.ipAddress,
+        label: editing.label,
+        expiresAt: editing.expiry ? toIpExpiryTimestamp(editing.expiry) : null,
+      },
+    ]);
+
+    if (response.success && response.data?.[0]) {
+      const [saved] = response.data;
+      setDetails((prev) => ({ ...prev, [saved.ipAddress]: saved }));
+      setEditing(null);
+    } else {
+      setError(response.error?.message || "Failed to save IP entry details");
+    }
+    setSavingDetails(false);
+  };
+
   return (
     <div className="bg-[rgb(var(--bg-primary))] rounded-lg shadow-md p-6 border border-[rgb(var(--border-primary))] h-full">
       <div className="flex items-center justify-between mb-6">
@@ -360,8 +501,8 @@ export function IpAddressPermissionSection() {
                 : "text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
             }`}
           >
-            <CheckCircle className="w-4 h-4 inline mr-1" />
-            Activate IP
+            <Plus className="w-4 h-4 inline mr-1" />
+            Add IPs
           </button>
           <button
             onClick={() => setActiveTab("deactivate")}
@@ -374,6 +515,17 @@ export function IpAddressPermissionSection() {
             <Trash2 className="w-4 h-4 inline mr-1" />
             Deactivate IP
           </button>
+          <button
+            onClick={() => setActiveTab("test")}
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === "test"
+                ? "text-cyan-600 dark:text-cyan-400 border-b-2 border-cyan-600 dark:border-cyan-400"
+                : "text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
+            }`}
+          >
+            <Search className="w-4 h-4 inline mr-1" />
+            Test IP
+          </button>
         </div>
 
         {/* Tab Content */}
@@ -417,90 +569,278 @@ export function IpAddressPermissionSection() {
                       </div>
                     </div>
                   )}
-                  <p className="text-sm font-medium text-[rgb(var(--text-secondary))]">
-                    Active IP Addresses ({ipList.length})
-                  </p>
-                  {ipList.map((entry) => (
-                    <div
-                      key={entry.id}
-                      className="p-4 bg-[rgb(var(--bg-secondary))] rounded-md border border-[rgb(var(--border-primary))] hover:border-cyan-500 dark:hover:border-cyan-400 transition-colors"
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-[rgb(var(--text-primary))] font-mono font-bold text-lg flex items-center">
-                          <Globe className="w-4 h-4 mr-2 text-cyan-600 dark:text-cyan-400" />
-                          {entry.ip_address}
-                        </span>
-                        <div className="flex items-center space-x-2">
-                          <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-black text-xs font-semibold rounded-full">
-                            ACTIVE
-                          </span>
-                          <button
-                            onClick={() =>
-                              handleRemoveIpFromList(entry.ip_address)
-                            }
-                            disabled={removingIp === entry.ip_address}
-                            className="p-1 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-50"
-                            title="Remove IP address"
-                          >
-                            {removingIp === entry.ip_address ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-[rgb(var(--text-secondary))]">
+                      Active IP Addresses ({ipList.length})
+                    </p>
+                    {expiredEntries.length > 0 && (
+                      <button
+                        onClick={handleRemoveExpired}
+                        disabled={loading}
+                        className="px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-800 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                      >
+                        Remove expired ({expiredEntries.length})
+                      </button>
+                    )}
+                  </div>
+                  {ipList.map((entry) => {
+                    const key = entryKey(entry.ip_address);
+                    const range = parseIpRange(entry.ip_address);
+                    const entryDetails = details[key];
+                    const expired = isIpEntryExpired(entryDetails);
+                    const isEditing = editing?.ipAddress === key;
+
+                    return (
+                      <div
+                        key={entry.id}
+                        className="p-4 bg-[rgb(var(--bg-secondary))] rounded-md border border-[rgb(var(--border-primary))] hover:border-cyan-500 dark:hover:border-cyan-400 transition-colors"
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <div>
+                            <span className="text-[rgb(var(--text-primary))] font-mono font-bold text-lg flex items-center">
+                              <Globe className="w-4 h-4 mr-2 text-cyan-600 dark:text-cyan-400" />
+                              {entry.ip_address}
+                            </span>
+                            {entryDetails?.label && (
+                              <p className="ml-6 text-sm text-[rgb(var(--text-secondary))]">
+                                {entryDetails.label}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {expired ? (
+                              <span className="px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs font-semibold rounded-full">
+                                EXPIRED
+                              </span>
                             ) : (
-                              <Trash2 className="w-4 h-4" />
+                              <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-black text-xs font-semibold rounded-full">
+                                ACTIVE
+                              </span>
                             )}
-                          </button>
+                            <button
+                              onClick={() =>
+                                setEditing({
+                                  ipAddress: key,
+                                  label: entryDetails?.label ?? "",
+                                  expiry:
+                                    entryDetails?.expiresAt?.slice(0, 10) ?? "",
+                                })
+                              }
+                              className="p-1 text-[rgb(var(--text-secondary))] hover:text-cyan-600 hover:bg-cyan-50 dark:hover:bg-cyan-900/20 rounded transition-colors"
+                              title="Edit label and expiry"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() =>
+                                handleRemoveIpFromList(entry.ip_address)
+                              }
+                              disabled={removingIp === entry.ip_address}
+                              className="p-1 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-50"
+                              title="Remove IP address"
+                            >
+                              {removingIp === entry.ip_address ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                            </button>
+                          </div>
                         </div>
-                      </div>
-                      <div className="grid grid-cols-2 gap-2 text-xs">
-                        <div>
-                          <span className="text-[rgb(var(--text-secondary))]">
-                            Created:
-                          </span>
-                          <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
-                            {new Date(entry.created_at).toLocaleString()}
-                          </span>
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <div>
+                            <span className="text-[rgb(var(--text-secondary))]">
+                              Created:
+                            </span>
+                            <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
+                              {new Date(entry.created_at).toLocaleString()}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="text-[rgb(var(--text-secondary))]">
+                              Updated:
+                            </span>
+                            <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
+                              {new Date(entry.updated_at).toLocaleString()}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="text-[rgb(var(--text-secondary))]">
+                              Expires:
+                            </span>
+                            <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
+                              {entryDetails?.expiresAt
+                                ? new Date(
+                                    entryDetails.expiresAt,
+                                  ).toLocaleDateString()
+                                : "Never"}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="text-[rgb(var(--text-secondary))]">
+                              Covers:
+                            </span>
+                            <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
+                              {range ? describeIpRange(range) : "Unknown"}
+                            </span>
+                          </div>
                         </div>
-                        <div>
+                        <div className="mt-2 text-xs">
                           <span className="text-[rgb(var(--text-secondary))]">
-                            Updated:
+                            Entry ID:
                           </span>
-                          <span className="ml-2 text-[rgb(var(--text-primary))] font-medium">
-                            {new Date(entry.updated_at).toLocaleString()}
+                          <span className="ml-2 text-[rgb(var(--text-primary))] font-mono">
+                            #{entry.id}
                           </span>
                         </div>
+                        {overlaps[entry.ip_address] && (
+                          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                            Overlaps {overlaps[entry.ip_address].join(", ")}
+                          </p>
+                        )}
+                        {isEditing && (
+                          <div className="mt-3 pt-3 border-t border-[rgb(var(--border-primary))] grid grid-cols-1 sm:grid-cols-[1fr_auto_auto] gap-2 items-end">
+                            <input
+                              type="text"
+                              value={editing.label}
+                              onChange={(e) =>
+                                setEditing({ ...editing, label: e.target.value })
+                              }
+                              maxLength={80}
+                              placeholder="Label, e.g. Partner AWS egress"
+                              className="px-3 py-1.5 text-sm border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))]"
+                            />
+                            <input
+                              type="date"
+                              value={editing.expiry}
+                              onChange={(e) =>
+                                setEditing({ ...editing, expiry: e.target.value })
+                              }
+                              className="px-3 py-1.5 text-sm border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-primary))] text-[rgb(var(--text-primary))]"
+                            />
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={handleSaveDetails}
+                                disabled={savingDetails}
+                                className="px-3 py-1.5 text-sm bg-cyan-600 dark:bg-cyan-500 text-white rounded-md hover:bg-cyan-700 disabled:opacity-50"
+                              >
+                                {savingDetails ? "Saving..." : "Save"}
+                              </button>
+                              <button
+                                onClick={() => setEditing(null)}
+                                className="px-3 py-1.5 text-sm text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
-                      <div className="mt-2 text-xs">
-                        <span className="text-[rgb(var(--text-secondary))]">
-                          Entry ID:
-                        </span>
-                        <span className="ml-2 text-[rgb(var(--text-primary))] font-mono">
-                          #{entry.id}
-                        </span>
-                      </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
           )}
 
-          {/* Activate IP Tab */}
+          {/* Add IPs Tab */}
           {activeTab === "activate" && (
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
-                  IP Address
+                  IP Addresses or CIDR Ranges
                 </label>
-                <input
-                  type="text"
-                  value={newIp}
-                  onChange={(e) => setNewIp(e.target.value)}
-                  placeholder="Enter IP address (e.g., 127.0.0.1)"
-                  className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                <textarea
+                  value={bulkText}
+                  onChange={(e) => setBulkText(e.target.value)}
+                  rows={5}
+                  placeholder={"203.0.113.0/24 Partner AWS eu-west\n2001:db8:1200::/40\n198.51.100.7"}
+                  className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] font-mono text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                 />
+                <p className="mt-1 text-xs text-[rgb(var(--text-tertiary))]">
+                  One entry per line or separated by commas. Text after an
+                  address becomes its label.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+                    Default Label
+                  </label>
+                  <input
+                    type="text"
+                    value={bulkLabel}
+                    onChange={(e) => setBulkLabel(e.target.value)}
+                    maxLength={80}
+                    placeholder="Used when a line has no label"
+                    className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+                    Expires On
+                  </label>
+                  <input
+                    type="date"
+                    value={bulkExpiry}
+                    onChange={(e) => setBulkExpiry(e.target.value)}
+                    className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-[rgb(var(--text-tertiary))]">
+                    Leave empty to keep the entries until removed
+                  </p>
+                </div>
               </div>
+
+              {!listMatchesUser && userId.trim() && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  Load this user&apos;s IP list on the Show Listed tab to check
+                  for duplicates and overlaps.
+                </p>
+              )}
+
+              {bulkRows.length > 0 && (
+                <div className="max-h-60 overflow-y-auto border border-[rgb(var(--border-primary))] rounded-md divide-y divide-[rgb(var(--border-primary))]">
+                  {bulkRows.map((row, index) => (
+                    <div
+                      key={`${row.line}-${index}`}
+                      className="px-3 py-2 text-sm flex items-start justify-between gap-2"
+                    >
+                      <div>
+                        <span className="font-mono text-[rgb(var(--text-primary))]">
+                          {row.range?.normalized ?? row.input}
+                        </span>
+                        {row.label && (
+                          <span className="ml-2 text-[rgb(var(--text-secondary))]">
+                            {row.label}
+                          </span>
+                        )}
+                        {row.error && (
+                          <p className="text-xs text-red-600 dark:text-red-400">
+                            Line {row.line}: {row.error}
+                          </p>
+                        )}
+                        {!row.error && row.overlaps.length > 0 && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400">
+                            Overlaps {row.overlaps.join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <span className="text-xs text-[rgb(var(--text-tertiary))] shrink-0">
+                        {row.error
+                          ? "Skipped"
+                          : row.duplicate
+                            ? "Already listed"
+                            : describeIpRange(row.range!)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <button
                 onClick={handleActivateIp}
-                disabled={loading}
+                disabled={loading || bulkToAdd.length === 0}
                 className="w-full px-4 py-2 bg-green-600 dark:bg-green-500 text-white rounded-md hover:bg-green-700 dark:hover:bg-green-600 disabled:opacity-50 flex items-center justify-center space-x-2 transition-all duration-200 hover:shadow-lg hover:scale-105 active:scale-95"
               >
                 {loading ? (
@@ -508,7 +848,11 @@ export function IpAddressPermissionSection() {
                 ) : (
                   <CheckCircle className="w-4 h-4" />
                 )}
-                <span>{loading ? "Activating..." : "Activate IP Address"}</span>
+                <span>
+                  {loading
+                    ? "Activating..."
+                    : `Activate ${bulkToAdd.length} IP Entr${bulkToAdd.length !== 1 ? "ies" : "y"}`}
+                </span>
               </button>
             </div>
           )}
@@ -524,7 +868,7 @@ export function IpAddressPermissionSection() {
                   type="text"
                   value={newIp}
                   onChange={(e) => setNewIp(e.target.value)}
-                  placeholder="Enter IP address (e.g., 127.0.0.1)"
+                  placeholder="Enter IP address or CIDR range (e.g., 127.0.0.1)"
                   className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                 />
               </div>
@@ -544,6 +888,81 @@ export function IpAddressPermissionSection() {
               </button>
             </div>
           )}
+
+          {/* Test IP Tab */}
+          {activeTab === "test" && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+                  IP Address to Test
+                </label>
+                <input
+                  type="text"
+                  value={testIp}
+                  onChange={(e) => setTestIp(e.target.value)}
+                  placeholder="e.g., 203.0.113.42 or 2001:db8::1"
+                  className="w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                />
+                {testError && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                    {testError}
+                  </p>
+                )}
+              </div>
+
+              {!listMatchesUser ? (
+                <p className="text-sm text-[rgb(var(--text-secondary))]">
+                  Load the user&apos;s IP list on the Show Listed tab first.
+                </p>
+              ) : (
+                testIp.trim() &&
+                !testError && (
+                  <div className="space-y-2">
+                    {appliedRule ? (
+                      <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md text-sm text-green-700 dark:text-green-400">
+                        Allowed by{" "}
+                        <span className="font-mono font-semibold">
+                          {appliedRule.ipAddress}
+                        </span>
+                        {appliedRule.label && ` (${appliedRule.label})`}
+                      </div>
+                    ) : (
+                      <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-600 dark:text-red-400">
+                        No active entry allows this address
+                      </div>
+                    )}
+                    {testMatches.map((match) => (
+                      <div
+                        key={match.ipAddress}
+                        className="px-3 py-2 bg-[rgb(var(--bg-secondary))] rounded-md border border-[rgb(var(--border-primary))] flex items-center justify-between text-sm"
+                      >
+                        <span>
+                          <span className="font-mono text-[rgb(var(--text-primary))]">
+                            {match.ipAddress}
+                          </span>
+                          {match.label && (
+                            <span className="ml-2 text-[rgb(var(--text-secondary))]">
+                              {match.label}
+                            </span>
+                          )}
+                        </span>
+                        {match.expired ? (
+                          <span className="flex items-center text-xs text-red-600 dark:text-red-400">
+                            <Clock className="w-3 h-3 mr-1" />
+                            Expired
+                          </span>
+                        ) : (
+                          <span className="text-xs text-[rgb(var(--text-tertiary))]">
+                            {match === appliedRule ? "Applies" : "Also matches"}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+          )}
         </div>
 
         {/* Success Message */}
@@ -0,0 +1,448 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Copy,
+  Plus,
+  RefreshCw,
+  RotateCw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { ApiKeyService } from "@/lib/api/api-keys";
+import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_LABELS,
+  API_KEY_STATUS_LABELS,
+  MAX_API_KEY_EXPIRY_DAYS,
+  ROTATION_GRACE_OPTIONS,
+} from "@/lib/utils/api-keys";
+import type {
+  ApiKeyScope,
+  ApiKeyStatus,
+  ApiKeySummary,
+  IssuedApiKey,
+} from "@/lib/types/api-keys";
+
+const STATUS_CLASSES: Record<ApiKeyStatus, string> = {
+  active:
+    "border-green-600 dark:border-green-400 text-green-600 dark:text-green-400",
+  rotating:
+    "border-orange-600 dark:border-orange-400 text-orange-600 dark:text-orange-400",
+  expired:
+    "border-gray-500 dark:border-gray-400 text-gray-500 dark:text-gray-400",
+  revoked: "border-red-600 dark:border-red-400 text-red-600 dark:text-red-400",
+};
+
+const inputClass =
+  "w-full px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] focus:ring-2 focus:ring-purple-500 focus:border-transparent";
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString() : fallback;
+}
+
+/**
+ * Named API keys for one user: issue, rotate with a grace period, revoke
+ */
+export function NamedApiKeysPanel() {
+  const [userId, setUserId] = useState("");
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New key form
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["content:read"]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [creating, setCreating] = useState(false);
+
+  // Secret shown once after create or rotate
+  const [issued, setIssued] = useState<IssuedApiKey | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [rotating, setRotating] = useState<{ key: ApiKeySummary; graceHours: number } | null>(
+    null,
+  );
+  const [revoking, setRevoking] = useState<ApiKeySummary | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadKeys = async (id = userId.trim()) => {
+    if (!id) {
+      setError("Please enter a user ID");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setIssued(null);
+
+    const response = await ApiKeyService.listKeys(id);
+
+    if (response.success && response.data) {
+      setKeys(response.data);
+      setLoadedUserId(id);
+    } else {
+      setError(response.error?.message || "Failed to load API keys");
+      setLoadedUserId(null);
+    }
+    setLoading(false);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((item) => item !== scope) : [...prev, scope],
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!loadedUserId) return;
+
+    setCreating(true);
+    setError(null);
+
+    const response = await ApiKeyService.createKey(loadedUserId, {
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiresInDays.trim() ? Number(expiresInDays) : null,
+    });
+
+    if (response.success && response.data) {
+      const result = response.data;
+      setKeys((prev) => [result.key, ...prev]);
+      setIssued(result);
+      setName("");
+    } else {
+      setError(response.error?.message || "Failed to create API key");
+    }
+    setCreating(false);
+  };
+
+  const handleRotate = async () => {
+    if (!loadedUserId || !rotating) return;
+
+    setActionLoading(true);
+    setError(null);
+
+    const response = await ApiKeyService.rotateKey(
+      loadedUserId,
+      rotating.key.id,
+      rotating.graceHours,
+    );
+
+    if (response.success && response.data) {
+      const result = response.data;
+      setKeys((prev) => [
+        result.key,
+        ...prev.map((key) => (key.id === result.replaced?.id ? result.replaced : key)),
+      ]);
+      setIssued(result);
+      setRotating(null);
+    } else {
+      setError(response.error?.message || "Failed to rotate API key");
+    }
+    setActionLoading(false);
+  };
+
+  const handleRevoke = async () => {
+    if (!loadedUserId || !revoking) return;
+
+    setActionLoading(true);
+    setError(null);
+
+    const response = await ApiKeyService.revokeKey(loadedUserId, revoking.id);
+
+    if (response.success && response.data) {
+      const revoked = response.data;
+      setKeys((prev) => prev.map((key) => (key.id === revoked.id ? revoked : key)));
+      setRevoking(null);
+    } else {
+      setError(response.error?.message || "Failed to revoke API key");
+    }
+    setActionLoading(false);
+  };
+
+  const handleCopy = () => {
+    if (!issued) return;
+    navigator.clipboard.writeText(issued.secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4 flex-1 flex flex-col">
+      <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md flex items-start space-x-3">
+        <AlertCircle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 shrink-0 mt-0.5" />
+        <p className="text-sm text-yellow-700 dark:text-yellow-400">
+          Named keys only work with services that check them through the dashboard&apos;s verify endpoint.
+          Until the HITA API does, give API users the legacy key.
+        </p>
+      </div>
+
+      {/* User lookup */}
+      <div>
+        <label className="block text-sm font-medium text-[rgb(var(--text-secondary))] mb-2">
+          User ID
+        </label>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                loadKeys();
+              }
+            }}
+            placeholder="Enter user ID"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => loadKeys()}
+            disabled={loading || !userId.trim()}
+            className="px-4 py-2 bg-purple-600 dark:bg-purple-500 text-white rounded-md hover:bg-purple-700 dark:hover:bg-purple-600 disabled:opacity-50 flex items-center space-x-2 transition-all duration-200"
+          >
+            {loading ? (
+              <RefreshCw className="w-4 h-4 animate-spin" />
+            ) : (
+              <Search className="w-4 h-4" />
+            )}
+            <span>Load</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Newly issued secret */}
+      {issued && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md space-y-3">
+          <p className="text-sm font-medium text-green-700 dark:text-green-400">
+            {issued.replaced ? "Key rotated" : "Key created"}: {issued.key.name}
+          </p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={issued.secret}
+              readOnly
+              className="flex-1 px-4 py-2 border border-[rgb(var(--border-primary))] rounded-md bg-[rgb(var(--bg-secondary))] text-[rgb(var(--text-primary))] font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="px-4 py-2 bg-[rgb(var(--bg-tertiary))] text-[rgb(var(--text-primary))] rounded-md hover:bg-[rgb(var(--bg-hover))] flex items-center space-x-2 border border-[rgb(var(--border-primary))]"
+            >
+              {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              <span>{copied ? "Copied!" : "Copy"}</span>
+            </button>
+          </div>
+          {issued.replaced?.graceEndsAt && issued.replaced.status === "rotating" && (
+            <p className="text-xs text-[rgb(var(--text-secondary))]">
+              The old key keeps working until{" "}
+              {new Date(issued.replaced.graceEndsAt).toLocaleString()}.
+            </p>
+          )}
+          <p className="text-sm text-red-600 dark:text-red-400">
+            <strong>Important:</strong> Store this key securely. It will not be shown again.
+          </p>
+        </div>
+      )}
+
+      {loadedUserId && (
+        <>
+          {/* Keys */}
+          <div className="space-y-3">
+            {keys.length === 0 && (
+              <p className="text-sm text-[rgb(var(--text-secondary))]">
+                This user has no named keys yet.
+              </p>
+            )}
+            {keys.map((key) => (
+              <div
+                key={key.id}
+                className="p-4 bg-[rgb(var(--bg-secondary))] rounded-lg border border-[rgb(var(--border-primary))] space-y-2"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-[rgb(var(--text-primary))]">{key.name}</p>
+                    <p className="text-xs font-mono text-[rgb(var(--text-tertiary))]">
+                      {key.prefix}…
+                    </p>
+                  </div>
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border-2 bg-transparent ${STATUS_CLASSES[key.status]}`}
+                  >
+                    {API_KEY_STATUS_LABELS[key.status]}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {key.scopes.map((scope) => (
+                    <span
+                      key={scope}
+                      className="inline-flex px-2 py-0.5 rounded-full text-xs border border-purple-600 dark:border-purple-400 text-purple-600 dark:text-purple-400"
+                    >
+                      {API_KEY_SCOPE_LABELS[scope]}
+                    </span>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-[rgb(var(--text-secondary))]">
+                  <span>Created: {formatDate(key.createdAt, "")}</span>
+                  <span>Expires: {formatDate(key.expiresAt, "Never")}</span>
+                  <span className="flex items-center">
+                    <Clock className="w-3 h-3 mr-1" />
+                    Last used: {formatDate(key.lastUsedAt, "Never")}
+                  </span>
+                </div>
+                {key.status === "rotating" && key.graceEndsAt && (
+                  <p className="text-xs text-orange-600 dark:text-orange-400">
+                    Replaced; keeps working until {new Date(key.graceEndsAt).toLocaleString()}
+                  </p>
+                )}
+                {(key.status === "active" || key.status === "rotating") && (
+                  <div className="flex justify-end space-x-2">
+                    {key.status === "active" && (
+                      <button
+                        type="button"
+                        onClick={() => setRotating({ key, graceHours: 24 })}
+                        className="px-3 py-1 text-sm rounded-md border border-[rgb(var(--border-primary))] text-[rgb(var(--text-primary))] hover:bg-[rgb(var(--bg-hover))] flex items-center space-x-1"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                        <span>Rotate</span>
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setRevoking(key)}
+                      className="px-3 py-1 text-sm rounded-md border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center space-x-1"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Revoke</span>
+                    </button>
+                  </div>
+                )}
+                {rotating?.key.id === key.id && (
+                  <div className="pt-2 border-t border-[rgb(var(--border-primary))] flex flex-col sm:flex-row sm:items-end gap-2">
+                    <div className="flex-1">
+                      <label className="block text-xs font-medium text-[rgb(var(--text-secondary))] mb-1">
+                        Keep the old key working for
+                      </label>
+                      <select
+                        value={rotating.graceHours}
+                        onChange={(e) =>
+                          setRotating({ key, graceHours: Number(e.target.value) })
+                        }
+                        className={inputClass}
+                      >
+                        {ROTATION_GRACE_OPTIONS.map((option) => (
+                          <option key={option.hours} value={option.hours}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRotate}
+                      disabled={actionLoading}
+                      className="px-4 py-2 bg-purple-600 dark:bg-purple-500 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {actionLoading ? "Rotating..." : "Rotate key"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRotating(null)}
+                      className="px-4 py-2 rounded-md text-[rgb(var(--text-secondary))] hover:text-[rgb(var(--text-primary))]"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* New key */}
+          <form
+            onSubmit={handleCreate}
+            className="space-y-3 border-t border-[rgb(var(--border-primary))] pt-4"
+          >
+            <h3 className="text-sm font-semibold text-[rgb(var(--text-primary))]">New key</h3>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Booking engine"
+              maxLength={60}
+              className={inputClass}
+              required
+            />
+            <div className="flex flex-wrap gap-4">
+              {API_KEY_SCOPES.map((scope) => (
+                <label
+                  key={scope}
+                  className="inline-flex items-center space-x-2 text-sm text-[rgb(var(--text-primary))]"
+                >
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <span>{API_KEY_SCOPE_LABELS[scope]}</span>
+                </label>
+              ))}
+            </div>
+            <div>
+              <input
+                type="number"
+                min="1"
+                max={MAX_API_KEY_EXPIRY_DAYS}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                placeholder="Never expires"
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-[rgb(var(--text-tertiary))]">
+                Days until the key expires. Leave empty for a key that never expires.
+              </p>
+            </div>
+            <button
+              type="submit"
+              disabled={creating || !name.trim() || scopes.length === 0}
+              className="w-full px-6 py-3 bg-purple-600 dark:bg-purple-500 text-white rounded-md hover:bg-purple-700 dark:hover:bg-purple-600 disabled:opacity-50 flex items-center justify-center space-x-2 transition-all duration-200 font-medium"
+            >
+              {creating ? (
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              ) : (
+                <Plus className="w-5 h-5" />
+              )}
+              <span>{creating ? "Creating..." : "Create Key"}</span>
+            </button>
+          </form>
+        </>
+      )}
+
+      <ConfirmationDialog
+        isOpen={revoking !== null}
+        onClose={() => setRevoking(null)}
+        onConfirm={handleRevoke}
+        title="Revoke API Key"
+        message={`Revoke "${revoking?.name}" (${revoking?.prefix}…)? Integrations using it stop working immediately.`}
+        confirmText="Revoke"
+        isLoading={actionLoading}
+      />
+    </div>
+  );
+}
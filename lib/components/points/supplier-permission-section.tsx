@@ -9,7 +9,7 @@ import {
   AlertCircle,
   Loader2,
 } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
+import { backendUrl } from "@/lib/api/backend-proxy";
 
 interface SupplierListResponse {
   active_supplier: number;
@@ -36,22 +36,12 @@ export function SupplierPermissionSection() {
   const fetchAvailableSuppliers = async () => {
     setFetchingSuppliers(true);
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const BACKEND_API_URL =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-
       const response = await fetch(
-        `${BACKEND_API_URL}/${API_VERSION}/user/check-active-my-supplier`,
+        backendUrl("/user/check-active-my-supplier"),
         {
           method: "GET",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
           },
         },
       );
@@ -86,30 +76,12 @@ export function SupplierPermissionSection() {
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const BACKEND_API_URL =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-
-      console.log("🌐 Environment check:");
-      console.log("  - BACKEND_API_URL:", BACKEND_API_URL);
-      console.log("  - API_VERSION:", API_VERSION);
-      console.log(
-        "  - Full URL:",
-        `${BACKEND_API_URL}/${API_VERSION}/permissions/admin/give-supplier-active?user_id=${userId}`,
-      );
-
       const response = await fetch(
-        `${BACKEND_API_URL}/${API_VERSION}/permissions/admin/give-supplier-active?user_id=${userId}`,
+        backendUrl(`/permissions/admin/give-supplier-active?user_id=${userId}`),
         {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
             provider_activision_list: [selectedActiveSupplier],
@@ -154,22 +126,12 @@ export function SupplierPermissionSection() {
     setSuccess(null);
 
     try {
-      const token = TokenStorage.getToken();
-      if (!token) {
-        throw new Error("Authentication token not found");
-      }
-
-      const BACKEND_API_URL =
-        process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001";
-      const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || "v1.0";
-
       const response = await fetch(
-        `${BACKEND_API_URL}/${API_VERSION}/permissions/admin/give-supplier-deactivate?user_id=${userId}`,
+        backendUrl(`/permissions/admin/give-supplier-deactivate?user_id=${userId}`),
         {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
             provider_deactivation_list: [selectedDeactiveSupplier],
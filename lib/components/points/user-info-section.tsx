@@ -10,9 +10,11 @@ import {
   Activity,
   Coins,
   RefreshCw,
+  AlertTriangle,
 } from "lucide-react";
-import { TokenStorage } from "@/lib/auth/token-storage";
-import { config } from "@/lib/config";
+import { backendUrl } from "@/lib/api/backend-proxy";
+import { PointBudgetService } from "@/lib/api/point-budgets";
+import type { PointBudgetStatus } from "@/lib/types/point-budgets";
 
 interface UserInfo {
   id: string;
@@ -54,6 +56,9 @@ export function UserInfoSection() {
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<PointBudgetStatus | null>(
+    null,
+  );
 
   // Read user ID from URL query parameter and handle changes
   useEffect(() => {
@@ -85,21 +90,15 @@ export function UserInfoSection() {
 
     setLoading(true);
     setError(null);
+    setBudgetStatus(null);
 
     try {
-      // Get the token using TokenStorage utility
-      const token = TokenStorage.getToken();
-
-      if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-      }
-
+      // The backend proxy adds the access token from the session cookie
       const response = await fetch(
-        `${config.api.url}/user/check-user-info/${id}`,
+        backendUrl(`/user/check-user-info/${id}`),
         {
           method: "GET",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
           },
         },
@@ -125,6 +124,7 @@ export function UserInfoSection() {
       const data = await response.json();
       setUserInfo(data);
       setError(null);
+      checkPointBudget(data);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to fetch user info";
@@ -139,6 +139,21 @@ export function UserInfoSection() {
     }
   };
 
+  // Compare the balance with the user's low-balance threshold; the banner is best-effort
+  const checkPointBudget = async (info: UserInfo) => {
+    const response = await PointBudgetService.checkBalance(info.id, {
+      username: info.username,
+      role: info.role,
+      balance: info.points.current_points,
+    });
+
+    if (response.success && response.data) {
+      setBudgetStatus(response.data);
+    } else if (process.env.NODE_ENV === "development") {
+      console.error("Error checking point budget:", response.error);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter") {
       fetchUserInfo();
@@ -310,6 +325,27 @@ export function UserInfoSection() {
               <Coins className="w-5 h-5 mr-2 text-yellow-600 dark:text-yellow-400" />
               Points Information
             </h3>
+            {budgetStatus?.low && budgetStatus.threshold && (
+              <div className="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+                    Low point balance
+                  </p>
+                  <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                    {budgetStatus.balance.toLocaleString()} points left, below
+                    the {budgetStatus.threshold.threshold.toLocaleString()}{" "}
+                    point threshold set for{" "}
+                    {budgetStatus.threshold.scope === "user"
+                      ? "this user"
+                      : budgetStatus.threshold.targetName?.toLowerCase() ||
+                        budgetStatus.threshold.targetId}
+                    .
+                    {budgetStatus.crossed && " The user has been notified."}
+                  </p>
+                </div>
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="bg-[rgb(var(--bg-secondary))] p-4 rounded-lg border border-[rgb(var(--border-primary))]">
                 <p className="text-sm text-primary-color mb-1">Total Points</p>
@@ -0,0 +1,547 @@
+/**
+ * Content Quality Panel
+ * Per-supplier content completeness scores, sortable and filterable, with a
+ * drill-down into each supplier's weakest hotels. Only hotels someone opened or scored
+ * are included, so each average is shown with its sample size and overall coverage.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowDown, ArrowUp, BarChart3, RefreshCw } from "lucide-react";
+import { ContentQualityService } from "@/lib/api/content-quality";
+import { HotelService } from "@/lib/api/hotels";
+import {
+  CONTENT_QUALITY_BANDS,
+  CONTENT_QUALITY_CHECKS,
+  getContentQualityBand,
+  getContentQualityCoverage,
+} from "@/lib/utils/content-quality";
+import type {
+  ContentQualityBand,
+  ContentQualityCheckKey,
+  ContentQualityRecord,
+  SupplierContentQuality,
+} from "@/lib/types/content-quality";
+
+type SortKey = "supplier" | "hotels" | "averageScore" | "lowestScore" | "poorHotels" | "lastScoredAt";
+
+const BAND_CLASSES: Record<ContentQualityBand, string> = {
+  good: "bg-green-100 text-green-800",
+  fair: "bg-yellow-100 text-yellow-800",
+  poor: "bg-red-100 text-red-800",
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "supplier", label: "Supplier" },
+  { key: "hotels", label: "Hotels scored" },
+  { key: "averageScore", label: "Average" },
+  { key: "lowestScore", label: "Lowest" },
+  { key: "poorHotels", label: "Poor hotels" },
+  { key: "lastScoredAt", label: "Last scored" },
+];
+
+// ITTIDs scored per run of "Score hotels"
+const MAX_ITTIDS_PER_RUN = 50;
+const HOTELS_PER_PAGE = 25;
+
+function ScoreBadge({ score }: { score: number }) {
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${
+        BAND_CLASSES[getContentQualityBand(score)]
+      }`}
+    >
+      {score}
+    </span>
+  );
+}
+
+// Share as a percentage, without rounding a small non-zero share down to 0%
+function formatShare(part: number, whole: number): string {
+  const percent = (part / whole) * 100;
+  if (percent > 0 && percent < 0.1) return "<0.1%";
+  return `${percent.toFixed(percent < 10 ? 1 : 0)}%`;
+}
+
+function ScoredCount({ scored, total }: { scored: number; total?: number }) {
+  return (
+    <>
+      {scored.toLocaleString()}
+      {total ? (
+        <span className="text-gray-500">
+          {" "}
+          of {total.toLocaleString()} ({formatShare(scored, total)})
+        </span>
+      ) : null}
+    </>
+  );
+}
+
+function topGaps(summary: SupplierContentQuality): string {
+  return (Object.entries(summary.missingCounts) as Array<[ContentQualityCheckKey, number]>)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([key, count]) => `${CONTENT_QUALITY_CHECKS[key].label} (${Math.round((count / summary.hotels) * 100)}%)`)
+    .join(", ");
+}
+
+export function ContentQualityPanel() {
+  const [summaries, setSummaries] = useState<SupplierContentQuality[]>([]);
+  // Country the loaded summaries are filtered to
+  const [loadedCountry, setLoadedCountry] = useState("");
+  // Hotels per supplier (lower-case name), for coverage; empty when the backend doesn't say
+  const [supplierTotals, setSupplierTotals] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Supplier table filters and sorting
+  const [countryCode, setCountryCode] = useState("");
+  const [supplierQuery, setSupplierQuery] = useState("");
+  const [bandFilter, setBandFilter] = useState<ContentQualityBand | "">("");
+  const [sortKey, setSortKey] = useState<SortKey>("averageScore");
+  const [sortAscending, setSortAscending] = useState(true);
+
+  // Drill-down into one supplier's hotels
+  const [selectedSupplier, setSelectedSupplier] = useState<string | null>(null);
+  const [hotels, setHotels] = useState<ContentQualityRecord[]>([]);
+  const [hotelsLoading, setHotelsLoading] = useState(false);
+  const [missingFilter, setMissingFilter] = useState<ContentQualityCheckKey | "">("");
+  const [maxScore, setMaxScore] = useState(100);
+  const [hotelPage, setHotelPage] = useState(1);
+
+  // Scoring hotels on demand
+  const [ittidInput, setIttidInput] = useState("");
+  const [scoring, setScoring] = useState<{ done: number; total: number; failed: string[] } | null>(null);
+
+  const loadSummaries = async () => {
+    setLoading(true);
+    setError(null);
+    const country = countryCode.trim();
+    const response = await ContentQualityService.getSupplierSummary(country || undefined);
+
+    if (response.success && response.data) {
+      setSummaries(response.data);
+      setLoadedCountry(country);
+    } else {
+      setError(response.error?.message || "Failed to load content quality");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSummaries();
+
+    HotelService.checkActiveSuppliers().then((response) => {
+      if (!response.success || !response.data) return;
+      setSupplierTotals(
+        new Map(
+          response.data.accessibleSuppliers.map((supplier) => [supplier.supplierName.toLowerCase(), supplier.totalHotels])
+        )
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!selectedSupplier) return;
+    let isCancelled = false;
+
+    const loadHotels = async () => {
+      setHotelsLoading(true);
+      const response = await ContentQualityService.getSupplierHotels(selectedSupplier, {
+        countryCode: countryCode.trim() || undefined,
+        missing: missingFilter || undefined,
+        maxScore,
+      });
+      if (isCancelled) return;
+
+      if (response.success && response.data) {
+        setHotels(response.data);
+        setHotelPage(1);
+      } else {
+        setError(response.error?.message || "Failed to load hotels");
+      }
+      setHotelsLoading(false);
+    };
+
+    loadHotels();
+    return () => {
+      isCancelled = true;
+    };
+    // Country is applied with the Load button, like the supplier table
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedSupplier, missingFilter, maxScore, summaries]);
+
+  const visibleSummaries = useMemo(() => {
+    const query = supplierQuery.trim().toLowerCase();
+    const direction = sortAscending ? 1 : -1;
+
+    return summaries
+      .filter(
+        (summary) =>
+          (!query || summary.supplier.toLowerCase().includes(query)) &&
+          (!bandFilter || getContentQualityBand(summary.averageScore) === bandFilter)
+      )
+      .sort((a, b) => {
+        const left = a[sortKey];
+        const right = b[sortKey];
+        const compared =
+          typeof left === "number" && typeof right === "number"
+            ? left - right
+            : String(left).localeCompare(String(right));
+        return compared * direction || a.supplier.localeCompare(b.supplier);
+      });
+  }, [summaries, supplierQuery, bandFilter, sortKey, sortAscending]);
+
+  // Hotel counts are per supplier, so coverage can't be worked out for one country
+  const coverage = loadedCountry ? null : getContentQualityCoverage(visibleSummaries, supplierTotals);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const handleScoreHotels = async () => {
+    const ittids = Array.from(new Set(ittidInput.split(/[\s,;]+/).filter(Boolean)));
+    if (ittids.length === 0) return;
+    if (ittids.length > MAX_ITTIDS_PER_RUN) {
+      setError(`Score up to ${MAX_ITTIDS_PER_RUN} ITTIDs at a time`);
+      return;
+    }
+
+    setError(null);
+    const failed: string[] = [];
+    setScoring({ done: 0, total: ittids.length, failed });
+
+    // One at a time so the content API isn't flooded
+    for (const [index, ittid] of ittids.entries()) {
+      const response = await ContentQualityService.recordScores(ittid);
+      if (!response.success) {
+        console.warn(`⚠️ Unable to score ${ittid}:`, response.error?.message);
+        failed.push(ittid);
+      }
+      setScoring({ done: index + 1, total: ittids.length, failed: [...failed] });
+    }
+
+    setIttidInput("");
+    await loadSummaries();
+  };
+
+  const hotelPages = Math.max(1, Math.ceil(hotels.length / HOTELS_PER_PAGE));
+  const pagedHotels = hotels.slice((hotelPage - 1) * HOTELS_PER_PAGE, hotelPage * HOTELS_PER_PAGE);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Content Quality</h2>
+            <p className="text-sm text-gray-600">
+              How complete each supplier&apos;s hotel content is, out of 100. Hotels are scored when
+              their details are opened, or below.
+            </p>
+          </div>
+          <button
+            onClick={loadSummaries}
+            disabled={loading}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Load
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Country code</label>
+            <input
+              type="text"
+              value={countryCode}
+              onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === "Enter" && loadSummaries()}
+              placeholder="All countries"
+              maxLength={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+            <input
+              type="text"
+              value={supplierQuery}
+              onChange={(e) => setSupplierQuery(e.target.value)}
+              placeholder="Filter suppliers"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Average score</label>
+            <select
+              value={bandFilter}
+              onChange={(e) => setBandFilter(e.target.value as ContentQualityBand | "")}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All</option>
+              {(Object.keys(CONTENT_QUALITY_BANDS) as ContentQualityBand[]).map((band) => (
+                <option key={band} value={band}>
+                  {CONTENT_QUALITY_BANDS[band].label} ({CONTENT_QUALITY_BANDS[band].min}+)
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center">
+            <AlertCircle className="h-4 w-4 text-red-500 mr-2" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {visibleSummaries.length > 0 && (
+          <div className="mb-4 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+            Scores only cover hotels that were opened or scored here, so they lean toward the hotels people
+            look at and aren&apos;t a random sample of each supplier&apos;s content. Read averages with a small
+            n with care.{" "}
+            {coverage
+              ? `${coverage.scored.toLocaleString()} of ${coverage.total.toLocaleString()} hotels (${formatShare(
+                  coverage.scored,
+                  coverage.total
+                )}) from these suppliers have been scored.`
+              : loadedCountry
+                ? "Coverage isn't shown for a single country because hotel counts are only known per supplier."
+                : "Coverage isn't available because the suppliers' hotel counts couldn't be loaded."}
+          </div>
+        )}
+
+        {visibleSummaries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th
+                      key={column.key}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => handleSort(column.key)}
+                        className="flex items-center gap-1 uppercase hover:text-gray-700"
+                      >
+                        {column.label}
+                        {sortKey === column.key &&
+                          (sortAscending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Most often missing
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleSummaries.map((summary) => (
+                  <tr
+                    key={summary.supplier}
+                    onClick={() => setSelectedSupplier(summary.supplier)}
+                    className={`cursor-pointer hover:bg-gray-50 ${
+                      selectedSupplier === summary.supplier ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{summary.supplier}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <ScoredCount
+                        scored={summary.hotels}
+                        total={loadedCountry ? undefined : supplierTotals.get(summary.supplier.toLowerCase())}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <ScoreBadge score={summary.averageScore} />
+                      <span className="ml-2 text-xs text-gray-500">n={summary.hotels.toLocaleString()}</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <ScoreBadge score={summary.lowestScore} />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {summary.poorHotels.toLocaleString()} (
+                      {Math.round((summary.poorHotels / summary.hotels) * 100)}%)
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {new Date(summary.lastScoredAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{topGaps(summary) || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !loading && (
+            <div className="text-center py-8 text-gray-500">
+              <BarChart3 className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p className="text-lg font-medium">No scores yet</p>
+              <p className="text-sm">
+                {summaries.length > 0
+                  ? "No suppliers match these filters"
+                  : "Open hotel details or score some ITTIDs below"}
+              </p>
+            </div>
+          )
+        )}
+      </div>
+
+      {/* Selected supplier's hotels */}
+      {selectedSupplier && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{selectedSupplier} hotels</h3>
+              <p className="text-sm text-gray-600">
+                {hotels.length.toLocaleString()} matching, lowest score first
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <select
+                value={missingFilter}
+                onChange={(e) => setMissingFilter(e.target.value as ContentQualityCheckKey | "")}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Missing anything</option>
+                {(Object.keys(CONTENT_QUALITY_CHECKS) as ContentQualityCheckKey[]).map((key) => (
+                  <option key={key} value={key}>
+                    Missing {CONTENT_QUALITY_CHECKS[key].label.toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={maxScore}
+                onChange={(e) => setMaxScore(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={100}>Any score</option>
+                <option value={CONTENT_QUALITY_BANDS.good.min - 1}>Below good</option>
+                <option value={CONTENT_QUALITY_BANDS.fair.min - 1}>Poor only</option>
+              </select>
+              <button
+                onClick={() => setSelectedSupplier(null)}
+                className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+
+          {hotelsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : pagedHotels.length > 0 ? (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {["ITTID", "Hotel", "Provider ID", "Country", "Score", "Missing"].map((label) => (
+                        <th
+                          key={label}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {pagedHotels.map((record) => (
+                      <tr key={record.key}>
+                        <td className="px-4 py-3 text-sm">
+                          <Link
+                            href={`/dashboard/hotels/details/${record.ittid}`}
+                            className="text-blue-600 hover:text-blue-700 font-mono"
+                          >
+                            {record.ittid}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{record.hotelName || "—"}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 font-mono">{record.providerHotelId}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{record.countryCode || "—"}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <ScoreBadge score={record.score} />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {record.missing.map((key) => CONTENT_QUALITY_CHECKS[key].label).join(", ") || "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {hotelPages > 1 && (
+                <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                  <span>
+                    Page {hotelPage} of {hotelPages}
+                  </span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setHotelPage((prev) => prev - 1)}
+                      disabled={hotelPage <= 1}
+                      className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setHotelPage((prev) => prev + 1)}
+                      disabled={hotelPage >= hotelPages}
+                      className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-center py-8 text-sm text-gray-500">No hotels match these filters</p>
+          )}
+        </div>
+      )}
+
+      {/* Score hotels on demand */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900">Score hotels</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Paste up to {MAX_ITTIDS_PER_RUN} ITTIDs to fetch their details and score every supplier.
+        </p>
+        <textarea
+          value={ittidInput}
+          onChange={(e) => setIttidInput(e.target.value)}
+          rows={3}
+          placeholder="10000001, 10000002"
+          disabled={scoring !== null && scoring.done < scoring.total}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-4 mt-3">
+          <button
+            onClick={handleScoreHotels}
+            disabled={!ittidInput.trim() || (scoring !== null && scoring.done < scoring.total)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Score hotels
+          </button>
+          {scoring && (
+            <span className="text-sm text-gray-600">
+              Scored {scoring.done - scoring.failed.length} of {scoring.total}
+              {scoring.failed.length > 0 && `, couldn't load ${scoring.failed.join(", ")}`}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,4 +2,5 @@
  * Provider components exports
  */
 
-export { ExportModal } from './export-modal';
\ No newline at end of file
+export { ExportModal } from './export-modal';
+export { ContentQualityPanel } from './content-quality-panel';
\ No newline at end of file
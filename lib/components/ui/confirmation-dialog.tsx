@@ -22,6 +22,8 @@ interface ConfirmationDialogProps {
   cancelText?: string;
   variant?: "danger" | "warning" | "info";
   isLoading?: boolean;
+  // Extra content below the message, such as a reason field
+  children?: React.ReactNode;
 }
 
 const variantConfig = {
@@ -55,6 +57,7 @@ export function ConfirmationDialog({
   cancelText = "Cancel",
   variant = "danger",
   isLoading = false,
+  children,
 }: ConfirmationDialogProps) {
   const config = variantConfig[variant];
   const Icon = config.icon;
@@ -111,6 +114,8 @@ export function ConfirmationDialog({
             {message}
           </p>
 
+          {children && <div className="w-full text-left">{children}</div>}
+
           {/* Warning text for destructive actions */}
           {variant === "danger" && (
             <p
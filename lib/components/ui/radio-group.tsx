@@ -41,7 +41,7 @@ export function RadioGroup({
 
       <div
         className={clsx("space-y-2", {
-          "flex space-y-0 space-x-4": orientation === "horizontal",
+          "flex flex-wrap gap-4 space-y-0": orientation === "horizontal",
         })}
       >
         {options.map((option) => (
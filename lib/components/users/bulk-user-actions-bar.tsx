@@ -0,0 +1,376 @@
+/**
+ * Bulk User Actions Bar Component
+ * Applies one action to every selected user, reports each row's outcome
+ * and retries only the rows that failed
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/lib/components/ui/button";
+import { Select } from "@/lib/components/ui/select";
+import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import { UserEditService } from "@/lib/api/user-edit";
+import { allocationTypes } from "./point-allocation-modal";
+import { availableSuppliers } from "./supplier-management-modal";
+import {
+  BULK_USER_ACTIONS,
+  BULK_USER_ACTION_LABELS,
+  describeBulkAction,
+  getFailedUserIds,
+  mergeBulkResults,
+  runBulkUserAction,
+  validateBulkAction,
+} from "@/lib/utils/bulk-user-actions";
+import type {
+  BulkUserAction,
+  BulkUserActionOptions,
+  BulkUserResult,
+  UserListItem,
+} from "@/lib/types/user";
+import {
+  CheckCircle,
+  Loader2,
+  RotateCcw,
+  Users,
+  X,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface BulkUserActionsBarProps {
+  selectedUsers: UserListItem[];
+  onClearSelection: () => void;
+  onComplete?: () => void;
+}
+
+interface BulkRun {
+  action: BulkUserAction;
+  options: BulkUserActionOptions;
+  users: UserListItem[];
+  results: BulkUserResult[];
+}
+
+const DIALOG_VARIANTS: Record<BulkUserAction, "danger" | "warning" | "info"> = {
+  allocate_points: "info",
+  activate_suppliers: "info",
+  deactivate_suppliers: "warning",
+  toggle_status: "warning",
+  reset_points: "danger",
+  delete: "danger",
+};
+
+function runAction(
+  action: BulkUserAction,
+  options: BulkUserActionOptions,
+  user: UserListItem
+) {
+  switch (action) {
+    case "allocate_points":
+      return UserEditService.allocatePoints(user.id, user.email, options.allocationType!, {
+        reason: "Bulk allocation",
+      });
+    case "activate_suppliers":
+      return UserEditService.activateSuppliers(user.id, options.suppliers!);
+    case "deactivate_suppliers":
+      return UserEditService.deactivateSuppliers(user.id, options.suppliers!);
+    case "toggle_status":
+      return UserEditService.activateUser(user.id);
+    case "reset_points":
+      return UserEditService.resetUserPoints(user.id, { reason: "Bulk reset" });
+    case "delete":
+      return UserEditService.deleteUser(user.id);
+  }
+}
+
+export function BulkUserActionsBar({
+  selectedUsers,
+  onClearSelection,
+  onComplete,
+}: BulkUserActionsBarProps) {
+  const [action, setAction] = useState<BulkUserAction | "">("");
+  const [options, setOptions] = useState<BulkUserActionOptions>({});
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [lastRun, setLastRun] = useState<BulkRun | null>(null);
+
+  if (selectedUsers.length === 0 && !lastRun) return null;
+
+  const allocationLabel = allocationTypes.find(
+    (type) => type.value === options.allocationType
+  )?.label;
+
+  const toggleSupplier = (supplierId: string) => {
+    setOptions((prev) => {
+      const suppliers = prev.suppliers ?? [];
+      return {
+        ...prev,
+        suppliers: suppliers.includes(supplierId)
+          ? suppliers.filter((id) => id !== supplierId)
+          : [...suppliers, supplierId],
+      };
+    });
+    setValidationError(null);
+  };
+
+  const execute = async (
+    runActionType: BulkUserAction,
+    runOptions: BulkUserActionOptions,
+    users: UserListItem[]
+  ) => {
+    setRunning(true);
+    setProgress({ done: 0, total: users.length });
+    try {
+      const results = await runBulkUserAction(
+        users,
+        (user) => runAction(runActionType, runOptions, user),
+        (_, done) => setProgress({ done, total: users.length })
+      );
+      if (results.some((result) => result.status === "success")) {
+        onComplete?.();
+      }
+      return results;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!action) {
+      setValidationError("Choose an action");
+      return;
+    }
+    const error = validateBulkAction(action, options);
+    setValidationError(error);
+    if (!error) setConfirmOpen(true);
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    setConfirmOpen(false);
+    const users = [...selectedUsers];
+    const results = await execute(action, options, users);
+    setLastRun({ action, options, users, results });
+    if (action === "delete") onClearSelection();
+  };
+
+  const handleRetryFailed = async () => {
+    if (!lastRun) return;
+    const failedIds = new Set(getFailedUserIds(lastRun.results));
+    const retried = await execute(
+      lastRun.action,
+      lastRun.options,
+      lastRun.users.filter((user) => failedIds.has(user.id))
+    );
+    setLastRun({
+      ...lastRun,
+      results: mergeBulkResults(lastRun.results, retried),
+    });
+  };
+
+  const failedCount = lastRun ? getFailedUserIds(lastRun.results).length : 0;
+  const succeededCount = lastRun ? lastRun.results.length - failedCount : 0;
+  const showSupplierPicker =
+    action === "activate_suppliers" || action === "deactivate_suppliers";
+
+  return (
+    <div className="border-b border-gray-200/50">
+      {selectedUsers.length > 0 && (
+        <div className="p-4 bg-gradient-to-r from-amber-50 to-orange-100 border-l-4 border-amber-500 space-y-3">
+          <div className="flex flex-col lg:flex-row lg:items-end gap-3">
+            <div className="flex items-center space-x-3 lg:mr-auto">
+              <div className="p-2 rounded-lg bg-amber-500 text-white">
+                <Users className="h-4 w-4" />
+              </div>
+              <div>
+                <p className="font-medium text-amber-900">
+                  {selectedUsers.length} user
+                  {selectedUsers.length > 1 ? "s" : ""} selected
+                </p>
+                <p className="text-sm text-amber-700">
+                  Choose an action to apply to selected users
+                </p>
+              </div>
+            </div>
+
+            <Select
+              value={action}
+              onChange={(e) => {
+                setAction(e.target.value as BulkUserAction | "");
+                setValidationError(null);
+              }}
+              placeholder="Choose an action"
+              options={BULK_USER_ACTIONS.map((value) => ({
+                value,
+                label: BULK_USER_ACTION_LABELS[value],
+              }))}
+              disabled={running}
+              className="w-full lg:w-52"
+            />
+
+            {action === "allocate_points" && (
+              <Select
+                value={options.allocationType ?? ""}
+                onChange={(e) => {
+                  setOptions((prev) => ({
+                    ...prev,
+                    allocationType: e.target.value
+                      ? (e.target.value as BulkUserActionOptions["allocationType"])
+                      : undefined,
+                  }));
+                  setValidationError(null);
+                }}
+                placeholder="Allocation type"
+                options={allocationTypes.map((type) => ({
+                  value: type.value,
+                  label: type.label,
+                }))}
+                disabled={running}
+                className="w-full lg:w-52"
+              />
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Button
+                size="sm"
+                onClick={handleApply}
+                loading={running}
+                disabled={running}
+              >
+                Apply
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onClearSelection}
+                disabled={running}
+              >
+                Clear Selection
+              </Button>
+            </div>
+          </div>
+
+          {showSupplierPicker && (
+            <div className="flex flex-wrap gap-2">
+              {availableSuppliers.map((supplier) => {
+                const checked = options.suppliers?.includes(supplier.id) ?? false;
+                return (
+                  <label
+                    key={supplier.id}
+                    className={cn(
+                      "inline-flex items-center space-x-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer",
+                      checked
+                        ? "border-amber-500 bg-white text-amber-900"
+                        : "border-amber-200 bg-white/60 text-gray-700"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      onChange={() => toggleSupplier(supplier.id)}
+                      disabled={running}
+                      className="h-4 w-4 text-amber-600 focus:ring-amber-500 border-gray-300 rounded"
+                    />
+                    <span>{supplier.name}</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          {validationError && (
+            <p className="text-sm text-red-600">{validationError}</p>
+          )}
+
+          {running && (
+            <p className="flex items-center text-sm text-amber-800">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Processing {progress.done} of {progress.total}...
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Results of the last bulk run */}
+      {lastRun && (
+        <div className="p-4 bg-white space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm font-medium text-gray-900">
+              {BULK_USER_ACTION_LABELS[lastRun.action]}:{" "}
+              <span className="text-green-700">{succeededCount} succeeded</span>
+              {failedCount > 0 && (
+                <span className="text-red-700">, {failedCount} failed</span>
+              )}
+            </p>
+            <div className="flex items-center space-x-2">
+              {failedCount > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRetryFailed}
+                  loading={running}
+                  disabled={running}
+                  leftIcon={<RotateCcw className="h-4 w-4" />}
+                >
+                  Retry failed ({failedCount})
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLastRun(null)}
+                disabled={running}
+                leftIcon={<X className="h-4 w-4" />}
+              >
+                Dismiss
+              </Button>
+            </div>
+          </div>
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {lastRun.results.map((result) => (
+              <li
+                key={result.userId}
+                className="flex items-center justify-between px-3 py-2 text-sm"
+              >
+                <span className="flex items-center space-x-2 text-gray-900">
+                  {result.status === "success" ? (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-600" />
+                  )}
+                  <span>{result.username}</span>
+                </span>
+                <span
+                  className={
+                    result.status === "success"
+                      ? "text-green-700"
+                      : "text-red-700 text-right"
+                  }
+                >
+                  {result.status === "success" ? "Done" : result.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {action && (
+        <ConfirmationDialog
+          isOpen={confirmOpen}
+          onClose={() => setConfirmOpen(false)}
+          onConfirm={handleConfirm}
+          title={`${BULK_USER_ACTION_LABELS[action]} for ${selectedUsers.length} user${
+            selectedUsers.length === 1 ? "" : "s"
+          }?`}
+          message={describeBulkAction(action, options, selectedUsers, allocationLabel)}
+          confirmText={BULK_USER_ACTION_LABELS[action]}
+          variant={DIALOG_VARIANTS[action]}
+          isLoading={running}
+        />
+      )}
+    </div>
+  );
+}
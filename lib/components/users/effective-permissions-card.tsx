@@ -0,0 +1,140 @@
+/**
+ * Effective Permissions Card Component
+ * Lists every permission a user has and where it comes from:
+ * their role, a per-user grant, or a per-user deny
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card } from "@/lib/components/ui/card";
+import { Badge } from "@/lib/components/ui/badge";
+import { PermissionOverrideService } from "@/lib/api/permission-overrides";
+import { PERMISSION_GROUPS, getPermissionLabel } from "@/lib/utils/rbac";
+import { getPermissionSourceLabel } from "@/lib/utils/role-matrix";
+import type { UserRole } from "@/lib/types/auth";
+import type { PermissionSource, UserPermissionSummary } from "@/lib/types/roles";
+import { KeyRound, Loader2 } from "lucide-react";
+
+interface EffectivePermissionsCardProps {
+  userId: string;
+  role: UserRole;
+}
+
+const SOURCE_BADGE_CLASSES: Record<PermissionSource, string> = {
+  role: "bg-blue-100 text-blue-800",
+  grant: "bg-green-100 text-green-800",
+  deny: "bg-red-100 text-red-800",
+  none: "bg-gray-100 text-gray-600",
+};
+
+export function EffectivePermissionsCard({ userId, role }: EffectivePermissionsCardProps) {
+  const [summary, setSummary] = useState<UserPermissionSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    PermissionOverrideService.getUserPermissions(userId, role).then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setSummary(response.data);
+      } else {
+        setError(response.error?.message || "Failed to load permissions");
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, role]);
+
+  const overrideCount = summary?.overrides
+    ? summary.overrides.granted.length + summary.overrides.denied.length
+    : 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <KeyRound className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Effective Permissions
+          </h2>
+        </div>
+        {summary && (
+          <span className="text-sm text-gray-600">
+            {summary.roleName}
+            {overrideCount > 0 &&
+              ` + ${overrideCount} override${overrideCount === 1 ? "" : "s"}`}
+          </span>
+        )}
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading permissions...
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summary && (
+        <div className="space-y-4">
+          {summary.locked && (
+            <p className="text-sm text-gray-600">
+              Super users always have every permission.
+            </p>
+          )}
+          {PERMISSION_GROUPS.map((group) => (
+            <div key={group.label}>
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                {group.label}
+              </p>
+              <ul className="divide-y divide-gray-100">
+                {group.permissions.map((permission) => {
+                  const entry = summary.permissions.find((p) => p.permission === permission);
+                  if (!entry) return null;
+                  return (
+                    <li
+                      key={permission}
+                      className="flex items-center justify-between py-1.5"
+                    >
+                      <span
+                        className={
+                          entry.granted
+                            ? "text-sm text-gray-900"
+                            : "text-sm text-gray-400 line-through"
+                        }
+                      >
+                        {getPermissionLabel(permission)}
+                      </span>
+                      <Badge className={SOURCE_BADGE_CLASSES[entry.source]}>
+                        {getPermissionSourceLabel(entry.source, summary.roleName)}
+                      </Badge>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+          {summary.overrides && (
+            <p className="text-xs text-gray-500">
+              Overrides last changed by {summary.overrides.updatedBy} on{" "}
+              {new Date(summary.overrides.updatedAt).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import { Input } from "@/lib/components/ui/input";
 import { Select } from "@/lib/components/ui/select";
 import { Badge } from "@/lib/components/ui/badge";
 import { Card, CardContent } from "@/lib/components/ui/card";
+import { BulkUserActionsBar } from "./bulk-user-actions-bar";
 import { UserListItem } from "@/lib/types/user";
 import { UserRole } from "@/lib/types/auth";
 import {
@@ -39,6 +40,7 @@ interface EnhancedUserTableProps {
   onView?: (user: UserListItem) => void;
   onDelete?: (user: UserListItem) => void;
   onSelectionChange?: (selectedUsers: UserListItem[]) => void;
+  onBulkActionComplete?: () => void;
   className?: string;
 }
 
@@ -63,6 +65,7 @@ export function EnhancedUserTable({
   onView,
   onDelete,
   onSelectionChange,
+  onBulkActionComplete,
   className,
 }: EnhancedUserTableProps) {
   const [state, setState] = useState<TableState>({
@@ -204,9 +207,11 @@ export function EnhancedUserTable({
    */
   const handleSelectAll = (selected: boolean) => {
     setState((prev) => {
-      const newSelected = selected
-        ? new Set(paginatedUsers.map((user) => user.id))
-        : new Set<string>();
+      // Only the visible page changes, so selections on other pages are kept
+      const newSelected = new Set(prev.selectedUsers);
+      paginatedUsers.forEach((user) =>
+        selected ? newSelected.add(user.id) : newSelected.delete(user.id)
+      );
 
       // Notify parent of selection change
       const selectedUserObjects = users.filter((user) =>
@@ -221,6 +226,19 @@ export function EnhancedUserTable({
     });
   };
 
+  /**
+   * Clear selection
+   */
+  const clearSelection = () => {
+    setState((prev) => ({ ...prev, selectedUsers: new Set<string>() }));
+    onSelectionChange?.([]);
+  };
+
+  const selectedUserObjects = useMemo(
+    () => users.filter((user) => state.selectedUsers.has(user.id)),
+    [users, state.selectedUsers]
+  );
+
   /**
    * Get role display info
    */
@@ -379,6 +397,13 @@ export function EnhancedUserTable({
           </div>
         </div>
 
+        {/* Bulk actions */}
+        <BulkUserActionsBar
+          selectedUsers={selectedUserObjects}
+          onClearSelection={clearSelection}
+          onComplete={onBulkActionComplete}
+        />
+
         {/* Table */}
         <div className="overflow-x-auto">
           <table className="w-full">
@@ -8,4 +8,7 @@ export { UserDetailView } from './user-detail-view';
 export { EnhancedUserTable } from './enhanced-user-table';
 export { UserManagementPage, UserManagementPageWithProvider } from './user-management-page';
 export { UserEditModal } from './user-edit-modal';
-export { ApiKeyDisplay } from './api-key-display';
\ No newline at end of file
+export { ApiKeyDisplay } from './api-key-display';
+export { PermissionOverridesSection } from './permission-overrides-section';
+export { EffectivePermissionsCard } from './effective-permissions-card';
+export { BulkUserActionsBar } from './bulk-user-actions-bar';
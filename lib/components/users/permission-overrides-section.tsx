@@ -0,0 +1,285 @@
+/**
+ * Permission Overrides Section Component
+ * Grants or denies single permissions for one user on top of their role,
+ * e.g. export access for a general user without promoting them
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardHeader, CardContent } from "@/lib/components/ui/card";
+import { Button } from "@/lib/components/ui/button";
+import { useToast } from "@/lib/components/ui/toast";
+import { PermissionOverrideService } from "@/lib/api/permission-overrides";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  Permission,
+  PERMISSION_GROUPS,
+  getPermissionLabel,
+  hasPermission,
+} from "@/lib/utils/rbac";
+import { getPermissionSourceLabel } from "@/lib/utils/role-matrix";
+import type { UserRole } from "@/lib/types/auth";
+import type {
+  PermissionOverrides,
+  UserPermissionSummary,
+} from "@/lib/types/roles";
+import { AlertCircle, KeyRound, Loader2, Lock, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type OverrideChoice = "role" | "grant" | "deny";
+
+interface PermissionOverridesSectionProps {
+  userId: string;
+  username: string;
+  role: UserRole;
+  onOverridesChange?: (overrides: PermissionOverrides | null) => void;
+}
+
+const CHOICES: { value: OverrideChoice; label: string }[] = [
+  { value: "role", label: "Role" },
+  { value: "grant", label: "Grant" },
+  { value: "deny", label: "Deny" },
+];
+
+function toChoices(summary: UserPermissionSummary): Record<string, OverrideChoice> {
+  const choices: Record<string, OverrideChoice> = {};
+  summary.overrides?.granted.forEach((permission) => (choices[permission] = "grant"));
+  summary.overrides?.denied.forEach((permission) => (choices[permission] = "deny"));
+  return choices;
+}
+
+export function PermissionOverridesSection({
+  userId,
+  username,
+  role,
+  onOverridesChange,
+}: PermissionOverridesSectionProps) {
+  // Hooks
+  const toast = useToast();
+  const { user: currentUser } = useAuth();
+  const canEdit = hasPermission(currentUser, Permission.MANAGE_USER_ROLES);
+
+  // State management
+  const [summary, setSummary] = useState<UserPermissionSummary | null>(null);
+  const [choices, setChoices] = useState<Record<string, OverrideChoice>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the user's permissions when the section opens
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    PermissionOverrideService.getUserPermissions(userId, role).then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setSummary(response.data);
+        setChoices(toChoices(response.data));
+        onOverridesChange?.(response.data.overrides);
+      } else {
+        setError(response.error?.message || "Failed to load permissions");
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, role]);
+
+  const savedChoices = summary ? toChoices(summary) : {};
+  const isDirty =
+    Object.keys({ ...savedChoices, ...choices }).some(
+      (permission) => (choices[permission] ?? "role") !== (savedChoices[permission] ?? "role"),
+    );
+
+  const setChoice = (permission: Permission, choice: OverrideChoice) => {
+    setChoices((prev) => {
+      const next = { ...prev };
+      if (choice === "role") {
+        delete next[permission];
+      } else {
+        next[permission] = choice;
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Save the overrides; an empty selection removes them
+   */
+  const handleSave = async () => {
+    const overrides: PermissionOverrides = {
+      granted: Object.keys(choices).filter((p) => choices[p] === "grant") as Permission[],
+      denied: Object.keys(choices).filter((p) => choices[p] === "deny") as Permission[],
+    };
+
+    setSaving(true);
+    setError(null);
+
+    const response = await PermissionOverrideService.updateOverrides(
+      userId,
+      username,
+      role,
+      overrides,
+    );
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      setSummary(updated);
+      setChoices(toChoices(updated));
+      onOverridesChange?.(updated.overrides);
+      toast.success("Permissions Updated", `Saved permission overrides for ${username}`);
+    } else {
+      const errorMsg = response.error?.message || "Failed to save permissions";
+      setError(errorMsg);
+      toast.error("Save Failed", errorMsg);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-gray-50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="p-2 rounded-lg bg-amber-100" aria-hidden="true">
+              <KeyRound className="h-5 w-5 text-amber-600" />
+            </div>
+            <h3
+              className="text-lg font-semibold text-gray-900"
+              id="permission-overrides-heading"
+            >
+              Permission Overrides
+            </h3>
+          </div>
+          {summary && (
+            <span className="text-xs text-gray-500">Role: {summary.roleName}</span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent
+        className="space-y-4"
+        aria-labelledby="permission-overrides-heading"
+      >
+        {loading && (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+            Loading permissions...
+          </div>
+        )}
+
+        {error && (
+          <div
+            className="p-3 rounded-xl bg-red-50 border border-red-200 flex items-start space-x-2"
+            role="alert"
+          >
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" aria-hidden="true" />
+            <p className="text-sm font-medium text-red-900 flex-1">{error}</p>
+          </div>
+        )}
+
+        {summary?.locked && (
+          <div className="p-3 rounded-xl bg-purple-50 border border-purple-100 flex items-center space-x-2 text-sm text-purple-800">
+            <Lock className="h-4 w-4" aria-hidden="true" />
+            <span>Super users always have every permission; overrides don&apos;t apply.</span>
+          </div>
+        )}
+
+        {summary && !summary.locked && (
+          <>
+            <p className="text-xs text-gray-500">
+              Grant or deny single permissions without changing the user&apos;s role. A deny
+              always wins.
+            </p>
+            {PERMISSION_GROUPS.map((group) => (
+              <div key={group.label}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                  {group.label}
+                </p>
+                <ul className="divide-y divide-gray-100">
+                  {group.permissions.map((permission) => {
+                    const entry = summary.permissions.find((p) => p.permission === permission);
+                    const choice = choices[permission] ?? "role";
+                    return (
+                      <li
+                        key={permission}
+                        className="flex items-center justify-between gap-3 py-2"
+                      >
+                        <div>
+                          <p className="text-sm text-gray-900">
+                            {getPermissionLabel(permission)}
+                          </p>
+                          {entry && (
+                            <p
+                              className={cn(
+                                "text-xs",
+                                entry.granted ? "text-green-700" : "text-gray-500",
+                              )}
+                            >
+                              {getPermissionSourceLabel(entry.source, summary.roleName)}
+                            </p>
+                          )}
+                        </div>
+                        <div
+                          className="inline-flex rounded-lg border border-gray-200 overflow-hidden"
+                          role="radiogroup"
+                          aria-label={getPermissionLabel(permission)}
+                        >
+                          {CHOICES.map((option) => (
+                            <button
+                              key={option.value}
+                              type="button"
+                              role="radio"
+                              aria-checked={choice === option.value}
+                              disabled={!canEdit || saving}
+                              onClick={() => setChoice(permission, option.value)}
+                              className={cn(
+                                "px-2.5 py-1 text-xs font-medium transition-colors disabled:cursor-not-allowed",
+                                choice === option.value
+                                  ? option.value === "grant"
+                                    ? "bg-green-600 text-white"
+                                    : option.value === "deny"
+                                      ? "bg-red-600 text-white"
+                                      : "bg-gray-700 text-white"
+                                  : "bg-white text-gray-600 hover:bg-gray-50",
+                              )}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+
+            {canEdit ? (
+              <Button
+                onClick={handleSave}
+                disabled={!isDirty}
+                loading={saving}
+                className="w-full"
+                leftIcon={<Save className="h-4 w-4" />}
+              >
+                Save Permission Overrides
+              </Button>
+            ) : (
+              <p className="text-xs text-gray-500 text-center">
+                You need permission to manage user roles to change overrides.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -34,7 +34,7 @@ type AllocationType =
   | "per_request_point"
   | "guest_point";
 
-const allocationTypes: {
+export const allocationTypes: {
   value: AllocationType;
   label: string;
   description: string;
@@ -12,6 +12,7 @@ import { Button } from "@/lib/components/ui/button";
 import { Select, SelectOption } from "@/lib/components/ui/select";
 import { useToast } from "@/lib/components/ui/toast";
 import { UserEditService, AllocationType } from "@/lib/api/user-edit";
+import { ALLOCATION_PACKAGE_POINTS } from "@/lib/utils/points-ledger";
 import { Coins, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -65,14 +66,7 @@ export function PointAllocationSection({
    */
   const getEstimatedPoints = (allocationType: AllocationType): number => {
     // These are estimated values - actual values come from backend
-    const pointsMap: Record<AllocationType, number> = {
-      admin_user_package: 10000,
-      one_year_package: 5000,
-      one_month_package: 500,
-      per_request_point: 10,
-      guest_point: 100,
-    };
-    return pointsMap[allocationType] || 0;
+    return ALLOCATION_PACKAGE_POINTS[allocationType] || 0;
   };
 
   /**
@@ -26,7 +26,7 @@ interface SupplierManagementModalProps {
   onSuccess?: () => void;
 }
 
-const availableSuppliers = [
+export const availableSuppliers = [
   { id: "hotelbeds", name: "HotelBeds", logo: "🏨" },
   { id: "expedia", name: "Expedia", logo: "✈️" },
   { id: "booking", name: "Booking.com", logo: "🌐" },
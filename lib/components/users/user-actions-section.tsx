@@ -13,6 +13,7 @@ import React, { useState } from "react";
 import { Card, CardHeader, CardContent } from "@/lib/components/ui/card";
 import { Button } from "@/lib/components/ui/button";
 import { ConfirmationDialog } from "@/lib/components/ui/confirmation-dialog";
+import { Input } from "@/lib/components/ui/input";
 import { useToast } from "@/lib/components/ui/toast";
 import { UserEditService } from "@/lib/api/user-edit";
 import {
@@ -52,6 +53,8 @@ export function UserActionsSection({
   const [confirmationAction, setConfirmationAction] =
     useState<ConfirmationAction>(null);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [resetReason, setResetReason] = useState("");
+  const [resetReasonError, setResetReasonError] = useState<string | null>(null);
 
   /**
    * Handle activate/deactivate user
@@ -117,9 +120,12 @@ export function UserActionsSection({
     });
 
     try {
-      const response = await UserEditService.resetUserPoints(userId);
+      const response = await UserEditService.resetUserPoints(userId, {
+        reason: resetReason.trim(),
+      });
 
       if (response.success) {
+        setResetReason("");
         const message = "User points reset to zero successfully";
         toast.success("Points Reset", message);
         onActionComplete("reset-points", true, message);
@@ -246,7 +252,10 @@ export function UserActionsSection({
         message: `Are you sure you want to reset all points for this user? The user currently has ${currentPoints} points. This will set their points to zero.`,
         confirmText: "Reset Points",
         variant: "warning" as const,
-        onConfirm: handleResetPoints,
+        onConfirm: () =>
+          resetReason.trim()
+            ? handleResetPoints()
+            : setResetReasonError("Enter a reason so the reset is explained in the ledger"),
       };
     } else if (confirmationAction === "delete-user") {
       return {
@@ -410,7 +419,22 @@ export function UserActionsSection({
           onClose={closeConfirmation}
           isLoading={isAnyActionLoading}
           {...confirmationProps}
-        />
+        >
+          {confirmationAction === "reset-points" && (
+            <Input
+              label="Reason"
+              value={resetReason}
+              onChange={(e) => {
+                setResetReason(e.target.value);
+                setResetReasonError(null);
+              }}
+              error={resetReasonError ?? undefined}
+              placeholder="Why are these points being cleared?"
+              maxLength={500}
+              helperText="Recorded in the points ledger"
+            />
+          )}
+        </ConfirmationDialog>
       )}
     </>
   );
@@ -8,6 +8,7 @@
  * - Point reset
  * - User deletion
  * - API key generation
+ * - Permission overrides
  */
 
 "use client";
@@ -23,6 +24,8 @@ import { useToast } from "@/lib/components/ui/toast";
 import { UserEditService, DetailedUserInfo } from "@/lib/api/user-edit";
 import { PointAllocationSection } from "./point-allocation-section";
 import { UserActionsSection } from "./user-actions-section";
+import { PermissionOverridesSection } from "./permission-overrides-section";
+import { UserRole } from "@/lib/types/auth";
 import {
   User,
   Mail,
@@ -709,6 +712,22 @@ export function UserEditModal({
                     onOptimisticUpdate={applyOptimisticUpdate}
                   />
 
+                  {/* Permission Overrides Section */}
+                  {Object.values(UserRole).includes(
+                    displayDetails.role as UserRole
+                  ) && (
+                    <PermissionOverridesSection
+                      userId={displayDetails.id}
+                      username={displayDetails.username}
+                      role={displayDetails.role as UserRole}
+                      onOverridesChange={(overrides) =>
+                        setUserDetails((prev) =>
+                          prev ? { ...prev, permission_overrides: overrides } : prev
+                        )
+                      }
+                    />
+                  )}
+
                   {/* User Actions Section */}
                   <UserActionsSection
                     userId={displayDetails.id}
@@ -25,7 +25,6 @@ import {
   Settings,
   User,
   RefreshCw,
-  Download,
   Upload,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -41,7 +40,6 @@ export function UserManagementPage({ className }: UserManagementPageProps) {
   // State
   const [users, setUsers] = useState<UserListItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedUsers, setSelectedUsers] = useState<UserListItem[]>([]);
 
   // Modal states
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -379,47 +377,6 @@ export function UserManagementPage({ className }: UserManagementPageProps) {
         </Card>
       </div>
 
-      {/* Bulk Actions */}
-      {selectedUsers.length > 0 && (
-        <Card className="border-0 shadow-lg bg-gradient-to-r from-amber-50 to-orange-100 border-l-4 border-amber-500">
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <div className="p-2 rounded-lg bg-amber-500 text-white">
-                  <Users className="h-4 w-4" />
-                </div>
-                <div>
-                  <p className="font-medium text-amber-900">
-                    {selectedUsers.length} user
-                    {selectedUsers.length > 1 ? "s" : ""} selected
-                  </p>
-                  <p className="text-sm text-amber-700">
-                    Choose an action to apply to selected users
-                  </p>
-                </div>
-              </div>
-
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setSelectedUsers([])}
-                >
-                  Clear Selection
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  leftIcon={<Download className="h-4 w-4" />}
-                >
-                  Export Selected
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
       {/* User Table */}
       <EnhancedUserTable
         users={users}
@@ -427,7 +384,7 @@ export function UserManagementPage({ className }: UserManagementPageProps) {
         onEdit={openEditModal}
         onView={openDetailModal}
         onDelete={handleDeleteUser}
-        onSelectionChange={setSelectedUsers}
+        onBulkActionComplete={loadUsers}
       />
 
       {/* Create User Modal */}
@@ -25,6 +25,20 @@ export const config = {
         version: process.env.NEXT_PUBLIC_APP_VERSION || '1.0.0',
     },
 
+    // Content sync jobs. Leave the URL empty to use the main API; point it at a
+    // separate service (e.g. the local stand-in, `npm run mock:sync`) to override.
+    sync: {
+        apiUrl: process.env.NEXT_PUBLIC_SYNC_API_URL || '',
+        pollInterval: parseInt(process.env.NEXT_PUBLIC_SYNC_POLL_INTERVAL || '3000', 10),
+    },
+
+    // Map tiles for the hotel map view. Point the URL at a local tile server to work offline.
+    map: {
+        tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+        attribution: process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || '© OpenStreetMap contributors',
+        maxZoom: parseInt(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM || '19', 10),
+    },
+
     // Environment
     isDevelopment: process.env.NODE_ENV === 'development',
     isProduction: process.env.NODE_ENV === 'production',
@@ -101,6 +115,21 @@ export const apiEndpoints = {
         mappings: '/export/mappings',
         status: (jobId: string) => `/export/status/${jobId}`,
         download: (jobId: string) => `/export/download/${jobId}`,
+        // Server-Sent Events stream of status updates for all of the caller's jobs
+        events: '/export/events',
+    },
+
+    // Content Sync Jobs
+    sync: {
+        jobs: '/content/sync/jobs',
+        job: (jobId: string) => `/content/sync/jobs/${jobId}`,
+        cancel: (jobId: string) => `/content/sync/jobs/${jobId}/cancel`,
+        stats: '/content/sync/stats',
+    },
+
+    // Notifications
+    notifications: {
+        adminCreate: '/notifications/admin/create',
     },
 
     // Additional endpoints
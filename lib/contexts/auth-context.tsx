@@ -13,6 +13,7 @@ import React, {
   ReactNode,
 } from "react";
 import { AuthService } from "@/lib/api/auth";
+import { backendUrl } from "@/lib/api/backend-proxy";
 import { SessionPersistence } from "@/lib/auth/session-persistence";
 import type { User, AuthState, LoginCredentials } from "@/lib/types/auth";
 
@@ -20,8 +21,7 @@ import type { User, AuthState, LoginCredentials } from "@/lib/types/auth";
 type AuthAction =
   | { type: "SET_LOADING"; payload: boolean }
   | { type: "SET_USER"; payload: User | null }
-  | { type: "SET_TOKEN"; payload: string | null }
-  | { type: "LOGIN_SUCCESS"; payload: { user: User; token: string } }
+  | { type: "LOGIN_SUCCESS"; payload: { user: User } }
   | { type: "LOGOUT" }
   | { type: "SET_ERROR"; payload: string | null };
 
@@ -39,7 +39,6 @@ interface AuthContextType extends AuthState {
 // Initial state
 const initialState: AuthState = {
   user: null,
-  token: null,
   isAuthenticated: false,
   isLoading: true,
 };
@@ -58,18 +57,11 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         user: action.payload,
         isAuthenticated: !!action.payload,
       };
-    case "SET_TOKEN":
-      return {
-        ...state,
-        token: action.payload,
-        isAuthenticated: !!action.payload,
-      };
     case "LOGIN_SUCCESS":
       console.log("🔄 AUTH REDUCER: LOGIN_SUCCESS", action.payload);
       const newState = {
         ...state,
         user: action.payload.user,
-        token: action.payload.token,
         isAuthenticated: true,
         isLoading: false,
       };
@@ -79,7 +71,6 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       return {
         ...state,
         user: null,
-        token: null,
         isAuthenticated: false,
         isLoading: false,
       };
@@ -156,143 +147,99 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.log("🔄 Initializing auth state...");
       dispatch({ type: "SET_LOADING", payload: true });
 
-      // Quick check if user is authenticated
-      const hasToken = AuthService.isAuthenticated();
-
-      if (!hasToken) {
-        console.log("❌ No valid token found, user not authenticated");
-        dispatch({ type: "LOGOUT" });
-        SessionPersistence.clearSession();
-        dispatch({ type: "SET_LOADING", payload: false });
-        return;
+      // Sessions from before the session cookie existed kept the token in storage
+      if (await AuthService.restoreStoredSession()) {
+        console.log("✅ Stored session moved into the session cookie");
       }
 
-      console.log("✅ Token found, setting up user session...");
-      const token = AuthService.getToken();
-      dispatch({ type: "SET_TOKEN", payload: token });
+      // The httpOnly session cookie is checked by the session route
+      const userResponse = await AuthService.getCurrentUser();
 
-      // Try to fetch current user, but don't fail if it doesn't work
-      try {
-        const userResponse = await AuthService.getCurrentUser();
+      if (userResponse.success && userResponse.data) {
+        console.log(
+          "✅ User profile loaded successfully:",
+          userResponse.data,
+        );
+        dispatch({ type: "SET_USER", payload: userResponse.data });
 
-        if (userResponse.success && userResponse.data) {
-          console.log(
-            "✅ User profile loaded successfully:",
-            userResponse.data,
-          );
-          dispatch({ type: "SET_USER", payload: userResponse.data });
-
-          // Update session with user data
-          SessionPersistence.saveSession({
-            isAuthenticated: true,
-            userId: userResponse.data.id,
-            username: userResponse.data.username,
-          });
-
-          // Fetch and store API key for general users only (not super_user or admin_user)
-          if (
-            userResponse.data.role !== "super_user" &&
-            userResponse.data.role !== "admin_user"
-          ) {
-            console.log("🔑 Fetching API key for general user...");
-            try {
-              const apiKeyResponse = await fetch(
-                `${process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001"}/${process.env.NEXT_PUBLIC_API_VERSION || "v1.0"}/auth/check-api-key`,
-                {
-                  method: "GET",
-                  headers: {
-                    Authorization: `Bearer ${token}`,
-                    "Content-Type": "application/json",
-                  },
+        // Update session with user data
+        SessionPersistence.saveSession({
+          isAuthenticated: true,
+          userId: userResponse.data.id,
+          username: userResponse.data.username,
+        });
+
+        // Fetch and store API key for general users only (not super_user or admin_user)
+        if (
+          userResponse.data.role !== "super_user" &&
+          userResponse.data.role !== "admin_user"
+        ) {
+          console.log("🔑 Fetching API key for general user...");
+          try {
+            const apiKeyResponse = await fetch(
+              backendUrl("/auth/check-api-key"),
+              {
+                method: "GET",
+                headers: {
+                  "Content-Type": "application/json",
                 },
-              );
+              },
+            );
 
-              if (apiKeyResponse.ok) {
-                const apiKeyData = await apiKeyResponse.json();
-                if (apiKeyData?.security?.apiKey) {
-                  localStorage.setItem(
-                    "user_api_key",
-                    apiKeyData.security.apiKey,
-                  );
-                  console.log(
-                    "✅ API key fetched and stored during initialization",
-                  );
-                }
-              } else {
-                console.warn(
-                  "⚠️ Failed to fetch API key during initialization:",
-                  apiKeyResponse.status,
+            if (apiKeyResponse.ok) {
+              const apiKeyData = await apiKeyResponse.json();
+              if (apiKeyData?.security?.apiKey) {
+                localStorage.setItem(
+                  "user_api_key",
+                  apiKeyData.security.apiKey,
+                );
+                console.log(
+                  "✅ API key fetched and stored during initialization",
                 );
               }
-            } catch (apiKeyError) {
+            } else {
               console.warn(
-                "⚠️ Error fetching API key during initialization:",
-                apiKeyError,
+                "⚠️ Failed to fetch API key during initialization:",
+                apiKeyResponse.status,
               );
-              // Don't fail initialization if API key fetch fails
             }
-          } else {
-            console.log("ℹ️ Skipping API key fetch for super_user/admin_user");
+          } catch (apiKeyError) {
+            console.warn(
+              "⚠️ Error fetching API key during initialization:",
+              apiKeyError,
+            );
+            // Don't fail initialization if API key fetch fails
           }
         } else {
-          console.warn("⚠️ User profile fetch failed, using fallback user");
-          // Create a fallback user to keep session active
-          const session = SessionPersistence.getSession();
-          const fallbackUser = AuthService.createFallbackUser(
-            session.username || "user",
-            token || "",
-          );
-          dispatch({ type: "SET_USER", payload: fallbackUser });
-
-          // Still save session data
-          SessionPersistence.saveSession({
-            isAuthenticated: true,
-            userId: fallbackUser.id,
-            username: fallbackUser.username,
-          });
+          console.log("ℹ️ Skipping API key fetch for super_user/admin_user");
         }
-      } catch (userError) {
-        console.warn("⚠️ User fetch error, using fallback:", userError);
-        // Always create a fallback user if we have a token
+      } else if (
+        userResponse.error?.status !== 401 &&
+        SessionPersistence.getSession().isAuthenticated
+      ) {
+        // The session couldn't be checked right now, so keep a known session going
+        console.warn("⚠️ Session check unavailable, using fallback user");
         const session = SessionPersistence.getSession();
         const fallbackUser = AuthService.createFallbackUser(
           session.username || "user",
-          token || "",
-        );
-        dispatch({ type: "SET_USER", payload: fallbackUser });
-
-        SessionPersistence.saveSession({
-          isAuthenticated: true,
-          userId: fallbackUser.id,
-          username: fallbackUser.username,
-        });
-      }
-    } catch (error) {
-      console.error("❌ Auth initialization failed:", error);
-
-      // Always try to maintain session if we have a token
-      const token = AuthService.getToken();
-      if (token) {
-        console.log(
-          "⚠️ Keeping user session active despite initialization error",
-        );
-        const session = SessionPersistence.getSession();
-        const fallbackUser = AuthService.createFallbackUser(
-          session.username || "user",
-          token,
         );
         dispatch({ type: "SET_USER", payload: fallbackUser });
 
+        // Still save session data
         SessionPersistence.saveSession({
           isAuthenticated: true,
           userId: fallbackUser.id,
           username: fallbackUser.username,
         });
       } else {
-        console.log("❌ No token available, logging out");
+        console.log("❌ No valid session, user not authenticated");
         dispatch({ type: "LOGOUT" });
         SessionPersistence.clearSession();
       }
+    } catch (error) {
+      console.error("❌ Auth initialization failed:", error);
+      dispatch({ type: "LOGOUT" });
+      SessionPersistence.clearSession();
     } finally {
       dispatch({ type: "SET_LOADING", payload: false });
       console.log("🔄 Auth initialization completed");
@@ -302,7 +249,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   /**
    * Login user
    * @param credentials - Login credentials (username and password)
-   * @param rememberMe - If true, tokens are stored in localStorage (persistent). If false, stored in sessionStorage (session-only)
+   * @param rememberMe - If true, the session cookie outlives the browser session. If false, it is a session cookie
    */
   const login = async (
     credentials: LoginCredentials,
@@ -346,7 +293,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
           type: "LOGIN_SUCCESS",
           payload: {
             user: user,
-            token: response.data.access_token,
           },
         });
 
@@ -362,11 +308,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
           console.log("🔑 Fetching API key for general user...");
           try {
             const apiKeyResponse = await fetch(
-              `${process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8001"}/${process.env.NEXT_PUBLIC_API_VERSION || "v1.0"}/auth/check-api-key`,
+              backendUrl("/auth/check-api-key"),
               {
                 method: "GET",
                 headers: {
-                  Authorization: `Bearer ${response.data.access_token}`,
                   "Content-Type": "application/json",
                 },
               },
@@ -413,7 +358,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
         console.log("🔍 Final auth state after login:", {
           isAuthenticated: true,
           user: user,
-          token: response.data.access_token,
         });
 
         return { success: true };
@@ -445,10 +389,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.log("🚪 AuthContext: Starting logout process...");
       setIsLoggingOut(true);
 
-      // Clear tokens from storage first (immediate local logout)
-      console.log("🧹 AuthContext: Clearing tokens and session...");
+      // Clear the session first (immediate local logout)
+      console.log("🧹 AuthContext: Clearing session...");
       SessionPersistence.clearSession();
 
+      // End the backend session and drop the session cookie before redirecting so the middleware sees the logout
+      await AuthService.logout();
+
       // Clear cache for the user
       if (state.user) {
         try {
@@ -482,11 +429,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
       dispatch({ type: "LOGOUT" });
       setError(null);
 
-      // Call logout API in background (don't wait for it)
-      AuthService.logout().catch((error) => {
-        console.warn("⚠️ Logout API call failed (continuing anyway):", error);
-      });
-
       console.log("✅ AuthContext: Local logout completed successfully");
 
       // Force redirect to login page immediately
@@ -575,9 +517,8 @@ export function useAuth(): AuthContextType {
       isAuthenticated: context.isAuthenticated,
       isLoading: context.isLoading,
       user: context.user,
-      hasToken: !!context.token,
     });
-  }, [context.isAuthenticated, context.isLoading, context.user, context.token]);
+  }, [context.isAuthenticated, context.isLoading, context.user]);
 
   return context;
 }
@@ -0,0 +1,42 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+type AttachmentStorage = typeof import("../attachment-storage");
+
+describe("attachment storage", () => {
+  let dataDir: string;
+  let storage: AttachmentStorage;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "attachment-storage-"));
+    jest.spyOn(process, "cwd").mockReturnValue(dataDir);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.isolateModules(() => {
+      storage = require("../attachment-storage");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("writes, reads and deletes an attachment's bytes", () => {
+    const bytes = Buffer.from("hello");
+
+    expect(storage.saveAttachmentFile("issue_1", "att_1", bytes)).toBe(true);
+    expect(storage.readAttachmentFile("issue_1", "att_1")).toEqual(bytes);
+
+    storage.deleteAttachmentFile("issue_1", "att_1");
+    expect(storage.readAttachmentFile("issue_1", "att_1")).toBeUndefined();
+  });
+
+  it("keeps IDs with path segments inside the attachments directory", () => {
+    storage.saveAttachmentFile("../../escape", "../secret", Buffer.from("x"));
+
+    expect(fs.existsSync(path.join(dataDir, "data", "issue-attachments", "escape", "secret"))).toBe(true);
+    expect(fs.existsSync(path.join(dataDir, "secret"))).toBe(false);
+  });
+});
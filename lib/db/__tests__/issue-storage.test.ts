@@ -0,0 +1,66 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { IssueRecord } from "@/lib/types/issue";
+
+type IssueStorage = typeof import("../issue-storage");
+
+const issue = (id: string, createdAt: string, userId = "user-1"): IssueRecord => ({
+  id,
+  title: `Issue ${id}`,
+  description: "Something went wrong somewhere.",
+  category: "bug",
+  priority: "medium",
+  status: "open",
+  createdAt,
+  updatedAt: createdAt,
+  userId,
+});
+
+describe("issue storage", () => {
+  let dataDir: string;
+  let storage: IssueStorage;
+
+  beforeEach(() => {
+    // Each test gets its own data/ directory
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "issue-storage-"));
+    jest.spyOn(process, "cwd").mockReturnValue(dataDir);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.isolateModules(() => {
+      storage = require("../issue-storage");
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("creates an empty issues file on first use", () => {
+    expect(JSON.parse(fs.readFileSync(path.join(dataDir, "data", "issues.json"), "utf-8"))).toEqual([]);
+    expect(storage.getAllIssues()).toEqual([]);
+  });
+
+  it("returns issues newest first and filters them by reporter", () => {
+    storage.saveIssue(issue("a", "2026-01-01T00:00:00.000Z"));
+    storage.saveIssues([issue("b", "2026-02-01T00:00:00.000Z", "user-2"), issue("c", "2026-03-01T00:00:00.000Z")]);
+
+    expect(storage.getAllIssues().map((item) => item.id)).toEqual(["c", "b", "a"]);
+    expect(storage.getIssuesByUser("user-1").map((item) => item.id)).toEqual(["c", "a"]);
+    expect(storage.findIssueById("b")?.userId).toBe("user-2");
+  });
+
+  it("updates an issue and bumps updatedAt", () => {
+    storage.saveIssue(issue("a", "2026-01-01T00:00:00.000Z"));
+
+    const updated = storage.updateIssue("a", { status: "resolved" });
+
+    expect(updated?.status).toBe("resolved");
+    expect(updated?.updatedAt).not.toBe("2026-01-01T00:00:00.000Z");
+    expect(storage.findIssueById("a")?.status).toBe("resolved");
+  });
+
+  it("returns undefined when updating an unknown issue", () => {
+    expect(storage.updateIssue("missing", { status: "closed" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Simple File-based Storage for the Admin Audit Log
+ * Append-only; keeps the newest MAX_AUDIT_ENTRIES entries.
+ * Each entry rewrites the whole file, so entries from two actions at once can be lost and the
+ * oldest entries past the limit are dropped for good. Compliance use needs an append-only store.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { User } from '@/lib/types/auth';
+import type { AdminAuditEntry, RecordAdminAuditInput } from '@/lib/types/admin-audit';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const AUDIT_FILE = path.join(DATA_DIR, 'admin-audit.json');
+const MAX_AUDIT_ENTRIES = 10000;
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize file if it doesn't exist
+if (!fs.existsSync(AUDIT_FILE)) {
+    fs.writeFileSync(AUDIT_FILE, JSON.stringify([], null, 2));
+}
+
+/**
+ * Read all audit entries (newest first)
+ */
+export function getAllAuditEntries(): AdminAuditEntry[] {
+    try {
+        const entries: AdminAuditEntry[] = JSON.parse(fs.readFileSync(AUDIT_FILE, 'utf-8'));
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+        console.error('Error reading audit log:', error);
+        return [];
+    }
+}
+
+/**
+ * Append an entry, dropping the oldest ones past the limit
+ */
+export function appendAuditEntry(entry: Omit<AdminAuditEntry, 'id' | 'createdAt'>): AdminAuditEntry | null {
+    const saved: AdminAuditEntry = {
+        ...entry,
+        id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: new Date().toISOString(),
+    };
+
+    try {
+        const entries = [saved, ...getAllAuditEntries()].slice(0, MAX_AUDIT_ENTRIES);
+        fs.writeFileSync(AUDIT_FILE, JSON.stringify(entries, null, 2));
+        return saved;
+    } catch (error) {
+        console.error('Error writing audit log:', error);
+        return null;
+    }
+}
+
+/**
+ * Record an action taken by a session user
+ */
+export function recordAdminAction(actor: Pick<User, 'id' | 'username'>, input: RecordAdminAuditInput): AdminAuditEntry | null {
+    return appendAuditEntry({ ...input, actorId: actor.id, actorName: actor.username });
+}
@@ -0,0 +1,168 @@
+/**
+ * Simple File-based Storage for Named API Keys
+ * Only SHA-256 hashes of the secrets are stored. Revoked and expired keys are kept for history.
+ * Every verify call reads the whole file, so with many keys or several app instances the keys
+ * need a shared database with an index on the hash.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ApiKeyRecord, ApiKeyScope } from '@/lib/types/api-keys';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const API_KEYS_FILE = path.join(DATA_DIR, 'api-keys.json');
+
+const SECRET_PREFIX = 'hita_';
+const DISPLAY_PREFIX_LENGTH = SECRET_PREFIX.length + 6;
+
+// Last-used times are written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize file if it doesn't exist
+if (!fs.existsSync(API_KEYS_FILE)) {
+    fs.writeFileSync(API_KEYS_FILE, JSON.stringify([], null, 2));
+}
+
+function readAllKeys(): ApiKeyRecord[] {
+    try {
+        return JSON.parse(fs.readFileSync(API_KEYS_FILE, 'utf-8'));
+    } catch (error) {
+        console.error('Error reading API keys:', error);
+        return [];
+    }
+}
+
+function writeAllKeys(keys: ApiKeyRecord[]): boolean {
+    try {
+        fs.writeFileSync(API_KEYS_FILE, JSON.stringify(keys, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing API keys:', error);
+        return false;
+    }
+}
+
+function hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+}
+
+function newKey(
+    userId: string,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt: string | null,
+    createdBy: string
+): { record: ApiKeyRecord; secret: string } {
+    const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    return {
+        secret,
+        record: {
+            id: `key_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            userId,
+            name,
+            prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+            hash: hashSecret(secret),
+            scopes,
+            expiresAt,
+            createdBy,
+            createdAt: new Date().toISOString(),
+            lastUsedAt: null,
+            revokedAt: null,
+        },
+    };
+}
+
+/**
+ * A user's keys (newest first)
+ */
+export function getApiKeysForUser(userId: string): ApiKeyRecord[] {
+    return readAllKeys()
+        .filter(key => key.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function findApiKey(userId: string, id: string): ApiKeyRecord | undefined {
+    return readAllKeys().find(key => key.userId === userId && key.id === id);
+}
+
+/**
+ * Find the key a secret belongs to, whatever its status
+ */
+export function findApiKeyBySecret(secret: string): ApiKeyRecord | undefined {
+    const hash = hashSecret(secret);
+    return readAllKeys().find(key => key.hash === hash);
+}
+
+/**
+ * Issue a new key. The secret is returned once and never stored.
+ */
+export function createApiKey(
+    userId: string,
+    input: { name: string; scopes: ApiKeyScope[]; expiresAt: string | null },
+    createdBy: string
+): { record: ApiKeyRecord; secret: string } | null {
+    const issued = newKey(userId, input.name, input.scopes, input.expiresAt, createdBy);
+    return writeAllKeys([...readAllKeys(), issued.record]) ? issued : null;
+}
+
+/**
+ * Replace a key with a new one that has the same name, scopes and expiry.
+ * The old key keeps working until `graceEndsAt`.
+ */
+export function rotateApiKey(
+    id: string,
+    graceEndsAt: string,
+    createdBy: string
+): { record: ApiKeyRecord; replaced: ApiKeyRecord; secret: string } | null {
+    const keys = readAllKeys();
+    const index = keys.findIndex(key => key.id === id);
+
+    if (index === -1) {
+        return null;
+    }
+
+    const old = keys[index];
+    const issued = newKey(old.userId, old.name, old.scopes, old.expiresAt, createdBy);
+    const replaced: ApiKeyRecord = { ...old, replacedById: issued.record.id, graceEndsAt };
+    keys[index] = replaced;
+
+    return writeAllKeys([...keys, issued.record]) ? { ...issued, replaced } : null;
+}
+
+/**
+ * Revoke a key. Returns the updated record, or undefined if not found.
+ */
+export function revokeApiKey(id: string): ApiKeyRecord | undefined {
+    const keys = readAllKeys();
+    const index = keys.findIndex(key => key.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    keys[index] = { ...keys[index], revokedAt: new Date().toISOString() };
+    return writeAllKeys(keys) ? keys[index] : undefined;
+}
+
+/**
+ * Record that a key was used
+ */
+export function touchApiKey(id: string, usedAt: Date = new Date()): void {
+    const keys = readAllKeys();
+    const key = keys.find(item => item.id === id);
+
+    if (!key) return;
+    if (key.lastUsedAt && usedAt.getTime() - new Date(key.lastUsedAt).getTime() < LAST_USED_RESOLUTION_MS) {
+        return;
+    }
+
+    key.lastUsedAt = usedAt.toISOString();
+    writeAllKeys(keys);
+}
@@ -0,0 +1,62 @@
+/**
+ * Simple File-based Storage for Issue Attachments
+ * Binary files live under data/issue-attachments/<issueId>/; metadata lives on the issue record.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const ATTACHMENTS_DIR = path.join(process.cwd(), 'data', 'issue-attachments');
+
+// Ensure attachments directory exists
+if (!fs.existsSync(ATTACHMENTS_DIR)) {
+    fs.mkdirSync(ATTACHMENTS_DIR, { recursive: true });
+}
+
+/**
+ * IDs are generated server-side, but never let one escape the attachments directory
+ */
+function attachmentPath(issueId: string, attachmentId: string): string {
+    const safeIssueId = path.basename(issueId);
+    const safeAttachmentId = path.basename(attachmentId);
+    return path.join(ATTACHMENTS_DIR, safeIssueId, safeAttachmentId);
+}
+
+/**
+ * Write an attachment's bytes to disk
+ */
+export function saveAttachmentFile(issueId: string, attachmentId: string, data: Buffer): boolean {
+    try {
+        const filePath = attachmentPath(issueId, attachmentId);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, data);
+        console.log('✅ Attachment saved to file:', issueId, attachmentId);
+        return true;
+    } catch (error) {
+        console.error('❌ Error saving attachment:', error);
+        return false;
+    }
+}
+
+/**
+ * Read an attachment's bytes from disk
+ */
+export function readAttachmentFile(issueId: string, attachmentId: string): Buffer | undefined {
+    try {
+        return fs.readFileSync(attachmentPath(issueId, attachmentId));
+    } catch (error) {
+        console.error('Error reading attachment:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Remove an attachment's bytes (used to roll back a failed upload)
+ */
+export function deleteAttachmentFile(issueId: string, attachmentId: string): void {
+    try {
+        fs.rmSync(attachmentPath(issueId, attachmentId), { force: true });
+    } catch (error) {
+        console.error('Error deleting attachment:', error);
+    }
+}
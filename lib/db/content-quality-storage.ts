@@ -0,0 +1,51 @@
+/**
+ * Simple File-based Storage for Content Quality Scores
+ * The latest score per supplier and hotel, keyed by `${supplier}|${ittid}`.
+ * Every summary reads the whole file, which grows with each hotel anyone opens; a database
+ * could keep the per-supplier totals instead. Use a real database for production.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ContentQualityRecord } from '@/lib/types/content-quality';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const SCORES_FILE = path.join(DATA_DIR, 'content-quality.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize scores file if it doesn't exist
+if (!fs.existsSync(SCORES_FILE)) {
+    fs.writeFileSync(SCORES_FILE, JSON.stringify([], null, 2));
+}
+
+function writeRecords(records: ContentQualityRecord[]): boolean {
+    try {
+        fs.writeFileSync(SCORES_FILE, JSON.stringify(records, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing content quality scores:', error);
+        return false;
+    }
+}
+
+export function getAllContentQualityRecords(): ContentQualityRecord[] {
+    try {
+        return JSON.parse(fs.readFileSync(SCORES_FILE, 'utf-8'));
+    } catch (error) {
+        console.error('Error reading content quality scores:', error);
+        return [];
+    }
+}
+
+/**
+ * Add or replace scores, one per supplier and hotel
+ */
+export function saveContentQualityRecords(records: ContentQualityRecord[]): boolean {
+    const replaced = new Set(records.map(record => record.key));
+    const others = getAllContentQualityRecords().filter(record => !replaced.has(record.key));
+    return writeRecords([...others, ...records]);
+}
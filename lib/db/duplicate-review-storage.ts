@@ -0,0 +1,65 @@
+/**
+ * Simple File-based Storage for Duplicate Hotel Reviews
+ * One decision per ITTID pair, keyed by lib/utils/hotel-duplicates getDuplicatePairKey.
+ * The last reviewer to save a pair wins and earlier decisions are not kept; a database
+ * would let decisions keep their history. Use a real database for production.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DuplicateReview } from '@/lib/types/hotel-duplicates';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const REVIEWS_FILE = path.join(DATA_DIR, 'duplicate-reviews.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize reviews file if it doesn't exist
+if (!fs.existsSync(REVIEWS_FILE)) {
+    fs.writeFileSync(REVIEWS_FILE, JSON.stringify([], null, 2));
+}
+
+function writeReviews(reviews: DuplicateReview[]): boolean {
+    try {
+        fs.writeFileSync(REVIEWS_FILE, JSON.stringify(reviews, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing duplicate reviews:', error);
+        return false;
+    }
+}
+
+/**
+ * All reviews, most recently reviewed first
+ */
+export function getAllDuplicateReviews(): DuplicateReview[] {
+    try {
+        const reviews: DuplicateReview[] = JSON.parse(fs.readFileSync(REVIEWS_FILE, 'utf-8'));
+        return reviews.sort((a, b) => b.reviewedAt.localeCompare(a.reviewedAt));
+    } catch (error) {
+        console.error('Error reading duplicate reviews:', error);
+        return [];
+    }
+}
+
+/**
+ * Add or replace the decision on a pair
+ */
+export function saveDuplicateReview(review: DuplicateReview): DuplicateReview | null {
+    const others = getAllDuplicateReviews().filter(item => item.key !== review.key);
+    return writeReviews([review, ...others]) ? review : null;
+}
+
+/**
+ * Put a pair back in the queue. Returns false if it had no decision.
+ */
+export function deleteDuplicateReview(key: string): boolean {
+    const all = getAllDuplicateReviews();
+    const kept = all.filter(item => item.key !== key);
+
+    if (kept.length === all.length) return false;
+    return writeReviews(kept);
+}
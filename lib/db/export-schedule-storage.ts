@@ -0,0 +1,175 @@
+/**
+ * Simple File-based Storage for Scheduled Exports
+ * The tick reads and rewrites both files on every run, so only one app instance may run it;
+ * more instances need a shared database that locks a schedule while it runs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ExportSchedule, ExportScheduleRun } from '@/lib/types/exports';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const SCHEDULES_FILE = path.join(DATA_DIR, 'export-schedules.json');
+const RUNS_FILE = path.join(DATA_DIR, 'export-schedule-runs.json');
+
+// Only keep the most recent runs per schedule
+const MAX_RUNS_PER_SCHEDULE = 50;
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize files if they don't exist
+for (const file of [SCHEDULES_FILE, RUNS_FILE]) {
+    if (!fs.existsSync(file)) {
+        fs.writeFileSync(file, JSON.stringify([], null, 2));
+    }
+}
+
+function readFile<T>(file: string): T[] {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        console.error(`Error reading ${path.basename(file)}:`, error);
+        return [];
+    }
+}
+
+function writeFile<T>(file: string, items: T[]): boolean {
+    try {
+        fs.writeFileSync(file, JSON.stringify(items, null, 2));
+        return true;
+    } catch (error) {
+        console.error(`Error writing ${path.basename(file)}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Read all schedules (newest first)
+ */
+export function getAllSchedules(): ExportSchedule[] {
+    return readFile<ExportSchedule>(SCHEDULES_FILE).sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt)
+    );
+}
+
+/**
+ * Get schedules owned by a single user
+ */
+export function getSchedulesByOwner(ownerId: string): ExportSchedule[] {
+    return getAllSchedules().filter(schedule => schedule.ownerId === ownerId);
+}
+
+/**
+ * Find schedule by ID
+ */
+export function findScheduleById(id: string): ExportSchedule | undefined {
+    return getAllSchedules().find(schedule => schedule.id === id);
+}
+
+/**
+ * Save a new schedule
+ */
+export function saveSchedule(schedule: ExportSchedule): boolean {
+    return writeFile(SCHEDULES_FILE, [...getAllSchedules(), schedule]);
+}
+
+/**
+ * Update an existing schedule. Returns the updated record, or undefined if not found.
+ */
+export function updateSchedule(
+    id: string,
+    updates: Partial<Omit<ExportSchedule, 'id' | 'ownerId' | 'createdAt'>>
+): ExportSchedule | undefined {
+    const schedules = getAllSchedules();
+    const index = schedules.findIndex(schedule => schedule.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    const updated: ExportSchedule = {
+        ...schedules[index],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+    };
+    schedules[index] = updated;
+
+    return writeFile(SCHEDULES_FILE, schedules) ? updated : undefined;
+}
+
+/**
+ * Delete a schedule and its run history
+ */
+export function deleteSchedule(id: string): boolean {
+    const schedules = getAllSchedules();
+    const remaining = schedules.filter(schedule => schedule.id !== id);
+
+    if (remaining.length === schedules.length) {
+        return false;
+    }
+
+    writeFile(RUNS_FILE, readFile<ExportScheduleRun>(RUNS_FILE).filter(run => run.scheduleId !== id));
+    return writeFile(SCHEDULES_FILE, remaining);
+}
+
+/**
+ * Read all runs (newest first)
+ */
+export function getAllRuns(): ExportScheduleRun[] {
+    return readFile<ExportScheduleRun>(RUNS_FILE).sort((a, b) =>
+        b.startedAt.localeCompare(a.startedAt)
+    );
+}
+
+/**
+ * Get runs for a single owner
+ */
+export function getRunsByOwner(ownerId: string): ExportScheduleRun[] {
+    return getAllRuns().filter(run => run.ownerId === ownerId);
+}
+
+/**
+ * Find run by ID
+ */
+export function findRunById(id: string): ExportScheduleRun | undefined {
+    return getAllRuns().find(run => run.id === id);
+}
+
+/**
+ * Save a new run, pruning the oldest runs of the same schedule
+ */
+export function saveRun(run: ExportScheduleRun): boolean {
+    const runs = [run, ...getAllRuns()];
+    let kept = 0;
+
+    const pruned = runs.filter(item => {
+        if (item.scheduleId !== run.scheduleId) return true;
+        kept++;
+        return kept <= MAX_RUNS_PER_SCHEDULE;
+    });
+
+    return writeFile(RUNS_FILE, pruned);
+}
+
+/**
+ * Update an existing run. Returns the updated record, or undefined if not found.
+ */
+export function updateRun(
+    id: string,
+    updates: Partial<Omit<ExportScheduleRun, 'id' | 'scheduleId' | 'ownerId'>>
+): ExportScheduleRun | undefined {
+    const runs = getAllRuns();
+    const index = runs.findIndex(run => run.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    const updated: ExportScheduleRun = { ...runs[index], ...updates };
+    runs[index] = updated;
+
+    return writeFile(RUNS_FILE, runs) ? updated : undefined;
+}
@@ -0,0 +1,99 @@
+/**
+ * Simple File-based Storage for Export Filter Presets
+ * Presets are read and written per request on the local disk, so users only see the same
+ * presets everywhere while the dashboard runs as a single instance.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FilterPreset } from '@/lib/types/exports';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const PRESETS_FILE = path.join(DATA_DIR, 'filter-presets.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize presets file if it doesn't exist
+if (!fs.existsSync(PRESETS_FILE)) {
+    fs.writeFileSync(PRESETS_FILE, JSON.stringify([], null, 2));
+}
+
+/**
+ * Read all presets
+ */
+export function getAllPresets(): FilterPreset[] {
+    try {
+        return JSON.parse(fs.readFileSync(PRESETS_FILE, 'utf-8'));
+    } catch (error) {
+        console.error('Error reading filter presets:', error);
+        return [];
+    }
+}
+
+/**
+ * Write all presets
+ */
+function writePresets(presets: FilterPreset[]): boolean {
+    try {
+        fs.writeFileSync(PRESETS_FILE, JSON.stringify(presets, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing filter presets:', error);
+        return false;
+    }
+}
+
+/**
+ * Find preset by ID
+ */
+export function findPresetById(id: string): FilterPreset | undefined {
+    return getAllPresets().find(preset => preset.id === id);
+}
+
+/**
+ * Save one or more new presets in a single write
+ */
+export function savePresets(newPresets: FilterPreset[]): boolean {
+    return writePresets([...getAllPresets(), ...newPresets]);
+}
+
+/**
+ * Update an existing preset. Returns the updated record, or undefined if not found.
+ */
+export function updatePreset(
+    id: string,
+    updates: Partial<Omit<FilterPreset, 'id' | 'ownerId' | 'createdAt'>>
+): FilterPreset | undefined {
+    const presets = getAllPresets();
+    const index = presets.findIndex(preset => preset.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    const updated: FilterPreset = {
+        ...presets[index],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+    };
+    presets[index] = updated;
+
+    return writePresets(presets) ? updated : undefined;
+}
+
+/**
+ * Delete a preset
+ */
+export function deletePreset(id: string): boolean {
+    const presets = getAllPresets();
+    const remaining = presets.filter(preset => preset.id !== id);
+
+    if (remaining.length === presets.length) {
+        return false;
+    }
+
+    return writePresets(remaining);
+}
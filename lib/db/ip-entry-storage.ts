@@ -0,0 +1,78 @@
+/**
+ * Simple File-based Storage for IP Entry Details
+ * Labels and expiry dates of whitelisted IPs. The backend keeps the addresses themselves, so an
+ * IP removed outside the dashboard leaves its details behind here. Use a real database
+ * for production.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { IpEntryDetails } from '@/lib/types/ip-permissions';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const IP_ENTRIES_FILE = path.join(DATA_DIR, 'ip-entries.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize file if it doesn't exist
+if (!fs.existsSync(IP_ENTRIES_FILE)) {
+    fs.writeFileSync(IP_ENTRIES_FILE, JSON.stringify([], null, 2));
+}
+
+function readAllDetails(): IpEntryDetails[] {
+    try {
+        return JSON.parse(fs.readFileSync(IP_ENTRIES_FILE, 'utf-8'));
+    } catch (error) {
+        console.error('Error reading IP entries:', error);
+        return [];
+    }
+}
+
+function writeAllDetails(details: IpEntryDetails[]): boolean {
+    try {
+        fs.writeFileSync(IP_ENTRIES_FILE, JSON.stringify(details, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing IP entries:', error);
+        return false;
+    }
+}
+
+export function getAllIpEntryDetails(): IpEntryDetails[] {
+    return readAllDetails();
+}
+
+export function getIpEntryDetails(userId: string): IpEntryDetails[] {
+    return readAllDetails().filter(item => item.userId === userId);
+}
+
+/**
+ * Add or replace the details of several entries of one user
+ */
+export function saveIpEntryDetails(
+    userId: string,
+    entries: { ipAddress: string; label: string; expiresAt: string | null }[],
+    updatedBy: string
+): IpEntryDetails[] | null {
+    const updatedAt = new Date().toISOString();
+    const saved: IpEntryDetails[] = entries.map(entry => ({ userId, ...entry, updatedBy, updatedAt }));
+    const addresses = new Set(saved.map(item => item.ipAddress));
+    const others = readAllDetails().filter(item => item.userId !== userId || !addresses.has(item.ipAddress));
+
+    return writeAllDetails([...others, ...saved]) ? saved : null;
+}
+
+/**
+ * Forget the details of removed entries. Returns how many were deleted.
+ */
+export function deleteIpEntryDetails(userId: string, ipAddresses: string[]): number {
+    const addresses = new Set(ipAddresses);
+    const all = readAllDetails();
+    const kept = all.filter(item => item.userId !== userId || !addresses.has(item.ipAddress));
+
+    if (kept.length === all.length) return 0;
+    return writeAllDetails(kept) ? all.length - kept.length : 0;
+}
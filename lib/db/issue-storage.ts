@@ -0,0 +1,113 @@
+/**
+ * Simple File-based Storage for Support Issues
+ * Every list reads and sorts the whole file; with many issues, a database with an index on
+ * userId and createdAt keeps the issues page fast.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { IssueRecord } from '@/lib/types/issue';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const ISSUES_FILE = path.join(DATA_DIR, 'issues.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize file if it doesn't exist
+if (!fs.existsSync(ISSUES_FILE)) {
+    fs.writeFileSync(ISSUES_FILE, JSON.stringify([], null, 2));
+}
+
+function writeIssues(issues: IssueRecord[]): void {
+    fs.writeFileSync(ISSUES_FILE, JSON.stringify(issues, null, 2));
+}
+
+/**
+ * Read all issues from file (newest first)
+ */
+export function getAllIssues(): IssueRecord[] {
+    try {
+        const data = fs.readFileSync(ISSUES_FILE, 'utf-8');
+        const issues: IssueRecord[] = JSON.parse(data);
+        return issues.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+        console.error('Error reading issues:', error);
+        return [];
+    }
+}
+
+/**
+ * Get issues reported by a single user
+ */
+export function getIssuesByUser(userId: string): IssueRecord[] {
+    return getAllIssues().filter(issue => issue.userId === userId);
+}
+
+/**
+ * Find issue by ID
+ */
+export function findIssueById(id: string): IssueRecord | undefined {
+    return getAllIssues().find(issue => issue.id === id);
+}
+
+/**
+ * Save a new issue
+ */
+export function saveIssue(issue: IssueRecord): boolean {
+    try {
+        const issues = getAllIssues();
+        issues.push(issue);
+        writeIssues(issues);
+        console.log('✅ Issue saved to file:', issue.id);
+        return true;
+    } catch (error) {
+        console.error('❌ Error saving issue:', error);
+        return false;
+    }
+}
+
+/**
+ * Save several new issues in one write (uploads of browser-saved issues)
+ */
+export function saveIssues(newIssues: IssueRecord[]): boolean {
+    try {
+        writeIssues([...getAllIssues(), ...newIssues]);
+        console.log('✅ Issues saved to file:', newIssues.length);
+        return true;
+    } catch (error) {
+        console.error('❌ Error saving issues:', error);
+        return false;
+    }
+}
+
+/**
+ * Apply a partial update to an issue. Returns the updated issue, or undefined if not found.
+ */
+export function updateIssue(
+    id: string,
+    updates: Partial<Omit<IssueRecord, 'id' | 'userId' | 'createdAt'>>
+): IssueRecord | undefined {
+    try {
+        const issues = getAllIssues();
+        const index = issues.findIndex(issue => issue.id === id);
+
+        if (index === -1) {
+            return undefined;
+        }
+
+        issues[index] = {
+            ...issues[index],
+            ...updates,
+            updatedAt: new Date().toISOString(),
+        };
+        writeIssues(issues);
+        console.log('✅ Issue updated:', id);
+        return issues[index];
+    } catch (error) {
+        console.error('❌ Error updating issue:', error);
+        return undefined;
+    }
+}
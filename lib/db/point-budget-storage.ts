@@ -0,0 +1,204 @@
+/**
+ * Simple File-based Storage for Point Budgets
+ * Low-balance thresholds, the users currently alerted for one, and auto top-up rules.
+ * The alert list is what stops a user being notified on every check, so a scheduler tick
+ * and a dashboard check for the same user can race on it. Use a real database for production.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { AutoTopUpRule, PointAlertState, PointThreshold } from '@/lib/types/point-budgets';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const THRESHOLDS_FILE = path.join(DATA_DIR, 'point-thresholds.json');
+const ALERTS_FILE = path.join(DATA_DIR, 'point-alerts.json');
+const RULES_FILE = path.join(DATA_DIR, 'point-top-up-rules.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize files if they don't exist
+for (const file of [THRESHOLDS_FILE, ALERTS_FILE, RULES_FILE]) {
+    if (!fs.existsSync(file)) {
+        fs.writeFileSync(file, JSON.stringify([], null, 2));
+    }
+}
+
+function readFile<T>(file: string): T[] {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        console.error(`Error reading ${path.basename(file)}:`, error);
+        return [];
+    }
+}
+
+function writeFile<T>(file: string, items: T[]): boolean {
+    try {
+        fs.writeFileSync(file, JSON.stringify(items, null, 2));
+        return true;
+    } catch (error) {
+        console.error(`Error writing ${path.basename(file)}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Read all thresholds (role thresholds first, then users by name)
+ */
+export function getAllThresholds(): PointThreshold[] {
+    return readFile<PointThreshold>(THRESHOLDS_FILE).sort((a, b) =>
+        a.scope !== b.scope
+            ? (a.scope === 'role' ? -1 : 1)
+            : (a.targetName || a.targetId).localeCompare(b.targetName || b.targetId)
+    );
+}
+
+/**
+ * Find threshold by ID
+ */
+export function findThresholdById(id: string): PointThreshold | undefined {
+    return getAllThresholds().find(threshold => threshold.id === id);
+}
+
+/**
+ * Find the threshold set for one user or role
+ */
+export function findThresholdByTarget(scope: PointThreshold['scope'], targetId: string): PointThreshold | undefined {
+    return getAllThresholds().find(threshold => threshold.scope === scope && threshold.targetId === targetId);
+}
+
+/**
+ * Save a new threshold
+ */
+export function saveThreshold(threshold: PointThreshold): boolean {
+    return writeFile(THRESHOLDS_FILE, [...getAllThresholds(), threshold]);
+}
+
+/**
+ * Update an existing threshold. Returns the updated record, or undefined if not found.
+ */
+export function updateThreshold(
+    id: string,
+    updates: Partial<Pick<PointThreshold, 'threshold' | 'targetName'>>
+): PointThreshold | undefined {
+    const thresholds = getAllThresholds();
+    const index = thresholds.findIndex(threshold => threshold.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    const updated: PointThreshold = {
+        ...thresholds[index],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+    };
+    thresholds[index] = updated;
+
+    return writeFile(THRESHOLDS_FILE, thresholds) ? updated : undefined;
+}
+
+/**
+ * Delete a threshold and clear the alerts raised for it
+ */
+export function deleteThreshold(id: string): boolean {
+    const thresholds = getAllThresholds();
+    const remaining = thresholds.filter(threshold => threshold.id !== id);
+
+    if (remaining.length === thresholds.length) {
+        return false;
+    }
+
+    writeFile(ALERTS_FILE, getAllAlerts().filter(alert => alert.thresholdId !== id));
+    return writeFile(THRESHOLDS_FILE, remaining);
+}
+
+/**
+ * Users currently below their threshold who have been notified
+ */
+export function getAllAlerts(): PointAlertState[] {
+    return readFile<PointAlertState>(ALERTS_FILE);
+}
+
+export function findAlert(userId: string): PointAlertState | undefined {
+    return getAllAlerts().find(alert => alert.userId === userId);
+}
+
+/**
+ * Record that a user has been alerted, replacing any earlier alert
+ */
+export function saveAlert(alert: PointAlertState): boolean {
+    return writeFile(ALERTS_FILE, [...getAllAlerts().filter(item => item.userId !== alert.userId), alert]);
+}
+
+/**
+ * Re-arm a user's alert once their balance has recovered
+ */
+export function clearAlert(userId: string): boolean {
+    const alerts = getAllAlerts();
+    const remaining = alerts.filter(alert => alert.userId !== userId);
+
+    return remaining.length === alerts.length || writeFile(ALERTS_FILE, remaining);
+}
+
+/**
+ * Read all auto top-up rules (newest first)
+ */
+export function getAllTopUpRules(): AutoTopUpRule[] {
+    return readFile<AutoTopUpRule>(RULES_FILE).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find rule by ID
+ */
+export function findTopUpRuleById(id: string): AutoTopUpRule | undefined {
+    return getAllTopUpRules().find(rule => rule.id === id);
+}
+
+/**
+ * Save a new rule
+ */
+export function saveTopUpRule(rule: AutoTopUpRule): boolean {
+    return writeFile(RULES_FILE, [...getAllTopUpRules(), rule]);
+}
+
+/**
+ * Update an existing rule. Returns the updated record, or undefined if not found.
+ */
+export function updateTopUpRule(
+    id: string,
+    updates: Partial<Omit<AutoTopUpRule, 'id' | 'createdBy' | 'createdAt'>>
+): AutoTopUpRule | undefined {
+    const rules = getAllTopUpRules();
+    const index = rules.findIndex(rule => rule.id === id);
+
+    if (index === -1) {
+        return undefined;
+    }
+
+    const updated: AutoTopUpRule = {
+        ...rules[index],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+    };
+    rules[index] = updated;
+
+    return writeFile(RULES_FILE, rules) ? updated : undefined;
+}
+
+/**
+ * Delete a rule
+ */
+export function deleteTopUpRule(id: string): boolean {
+    const rules = getAllTopUpRules();
+    const remaining = rules.filter(rule => rule.id !== id);
+
+    if (remaining.length === rules.length) {
+        return false;
+    }
+
+    return writeFile(RULES_FILE, remaining);
+}
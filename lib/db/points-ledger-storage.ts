@@ -0,0 +1,73 @@
+/**
+ * Simple File-based Storage for the Points Ledger
+ * Entries are kept in the order they were recorded; nothing is ever removed.
+ * Routes read the file, plan entries against it and write it back, so two changes to the same
+ * user's points at once can lose an entry. A database should append inside a transaction.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PointsLedgerEntry } from '@/lib/types/points-ledger';
+import type { PlannedLedgerEntry } from '@/lib/utils/points-ledger';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const LEDGER_FILE = path.join(DATA_DIR, 'points-ledger.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize file if it doesn't exist
+if (!fs.existsSync(LEDGER_FILE)) {
+    fs.writeFileSync(LEDGER_FILE, JSON.stringify([], null, 2));
+}
+
+function readAllEntries(): PointsLedgerEntry[] {
+    try {
+        return JSON.parse(fs.readFileSync(LEDGER_FILE, 'utf-8'));
+    } catch (error) {
+        console.error('Error reading points ledger:', error);
+        return [];
+    }
+}
+
+function writeAllEntries(entries: PointsLedgerEntry[]): boolean {
+    try {
+        fs.writeFileSync(LEDGER_FILE, JSON.stringify(entries, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing points ledger:', error);
+        return false;
+    }
+}
+
+/**
+ * A user's entries, oldest first
+ */
+export function getLedgerEntries(userId: string): PointsLedgerEntry[] {
+    return readAllEntries().filter(entry => entry.userId === userId);
+}
+
+/**
+ * Append entries in order, optionally marking an allocation as reversed by the last of them
+ */
+export function appendLedgerEntries(
+    planned: PlannedLedgerEntry[],
+    reversedEntryId?: string
+): PointsLedgerEntry[] | null {
+    const createdAt = new Date().toISOString();
+    const saved: PointsLedgerEntry[] = planned.map(entry => ({
+        ...entry,
+        id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt,
+    }));
+
+    const entries = readAllEntries();
+    if (reversedEntryId) {
+        const original = entries.find(entry => entry.id === reversedEntryId);
+        if (original) original.reversedById = saved[saved.length - 1]?.id;
+    }
+
+    return writeAllEntries([...entries, ...saved]) ? saved : null;
+}
@@ -0,0 +1,149 @@
+/**
+ * Simple File-based Storage for the Role Matrix
+ * Stores custom roles, edited built-in role permissions, custom role assignments and
+ * per-user permission overrides.
+ * Every session check reads this file through applyRoleToUser, so role changes made on one app
+ * instance aren't seen by others until the matrix moves to a shared database.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { User } from '@/lib/types/auth';
+import type {
+    RoleAssignment,
+    RoleDefinition,
+    RoleMatrix,
+    UserPermissionOverride,
+} from '@/lib/types/roles';
+import { getUserPermissionSummary, mergeRoles } from '@/lib/utils/role-matrix';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const ROLES_FILE = path.join(DATA_DIR, 'roles.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Initialize roles file if it doesn't exist
+if (!fs.existsSync(ROLES_FILE)) {
+    fs.writeFileSync(ROLES_FILE, JSON.stringify({ roles: [], assignments: [], overrides: [] }, null, 2));
+}
+
+/**
+ * Read the stored matrix (custom roles and built-in overrides only)
+ */
+function readStoredMatrix(): RoleMatrix {
+    try {
+        const stored = JSON.parse(fs.readFileSync(ROLES_FILE, 'utf-8'));
+        return {
+            roles: Array.isArray(stored.roles) ? stored.roles : [],
+            assignments: Array.isArray(stored.assignments) ? stored.assignments : [],
+            overrides: Array.isArray(stored.overrides) ? stored.overrides : [],
+        };
+    } catch (error) {
+        console.error('Error reading roles:', error);
+        return { roles: [], assignments: [], overrides: [] };
+    }
+}
+
+/**
+ * Write the stored matrix
+ */
+function writeStoredMatrix(matrix: RoleMatrix): boolean {
+    try {
+        fs.writeFileSync(ROLES_FILE, JSON.stringify(matrix, null, 2));
+        return true;
+    } catch (error) {
+        console.error('Error writing roles:', error);
+        return false;
+    }
+}
+
+/**
+ * Get the full matrix: built-in roles (with any edits) plus custom roles, assignments and overrides
+ */
+export function getRoleMatrix(): RoleMatrix {
+    const stored = readStoredMatrix();
+    return { ...stored, roles: mergeRoles(stored.roles) };
+}
+
+/**
+ * Find a role by ID
+ */
+export function findRoleById(id: string): RoleDefinition | undefined {
+    return getRoleMatrix().roles.find(role => role.id === id);
+}
+
+/**
+ * Create or replace a role
+ */
+export function saveRole(role: RoleDefinition): boolean {
+    const stored = readStoredMatrix();
+    const roles = stored.roles.filter(existing => existing.id !== role.id);
+
+    return writeStoredMatrix({ ...stored, roles: [...roles, role] });
+}
+
+/**
+ * Delete a custom role and unassign it from its users
+ */
+export function deleteRole(id: string): boolean {
+    const stored = readStoredMatrix();
+
+    return writeStoredMatrix({
+        ...stored,
+        roles: stored.roles.filter(role => role.id !== id),
+        assignments: stored.assignments.filter(assignment => assignment.roleId !== id),
+    });
+}
+
+/**
+ * Assign a custom role to a user, or remove their assignment when roleId is null
+ */
+export function setRoleAssignment(userId: string, assignment: RoleAssignment | null): boolean {
+    const stored = readStoredMatrix();
+    const assignments = stored.assignments.filter(existing => existing.userId !== userId);
+
+    if (assignment) {
+        assignments.push(assignment);
+    }
+
+    return writeStoredMatrix({ ...stored, assignments });
+}
+
+/**
+ * Set a user's permission overrides, or remove them when override is null
+ */
+export function setPermissionOverride(userId: string, override: UserPermissionOverride | null): boolean {
+    const stored = readStoredMatrix();
+    const overrides = stored.overrides.filter(existing => existing.userId !== userId);
+
+    if (override) {
+        overrides.push(override);
+    }
+
+    return writeStoredMatrix({ ...stored, overrides });
+}
+
+/**
+ * Attach the user's effective role and permissions (role permissions plus overrides) from the matrix
+ */
+export function applyRoleToUser(user: User): User {
+    const summary = getUserPermissionSummary(user, getRoleMatrix());
+
+    if (!summary) {
+        return user;
+    }
+
+    return {
+        ...user,
+        roleId: summary.roleId,
+        roleName: summary.roleName,
+        permissions: summary.permissions.filter(entry => entry.granted).map(entry => entry.permission),
+        permissionOverrides:
+            summary.overrides && !summary.locked
+                ? { granted: summary.overrides.granted, denied: summary.overrides.denied }
+                : undefined,
+    };
+}
@@ -8,6 +8,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/contexts/auth-context';
 import type { UserRole } from '@/lib/types/auth';
+import { RETURN_TO_PARAM } from '@/lib/auth/session-cookie';
 
 /**
  * Hook for protected routes - redirects to login if not authenticated
@@ -36,29 +37,22 @@ export function useRequireAuth(redirectTo: string = '/login') {
             hasRedirected
         });
 
-        // Check if we have any tokens in storage
-        const hasToken = localStorage.getItem('admin_auth_token') || sessionStorage.getItem('admin_auth_token');
-
         // Only redirect if:
-        // 1. Not loading
+        // 1. Not loading (the session cookie has been checked)
         // 2. Not authenticated 
         // 3. Haven't redirected yet
         // 4. Initial load is complete (to prevent premature redirects)
-        // 5. No token in storage (definitely not authenticated)
         if (!isLoading &&
             !isAuthenticated &&
             !hasRedirected &&
-            initialLoadComplete &&
-            !hasToken) {
+            initialLoadComplete) {
 
-            console.log("🚪 No token found, redirecting to login");
+            console.log("🚪 No session found, redirecting to login");
             setHasRedirected(true);
 
             const currentPath = window.location.pathname;
-            const loginUrl = `${redirectTo}?redirect=${encodeURIComponent(currentPath)}`;
+            const loginUrl = `${redirectTo}?${RETURN_TO_PARAM}=${encodeURIComponent(currentPath)}`;
             router.push(loginUrl);
-        } else if (!isLoading && !isAuthenticated && hasToken) {
-            console.log("⚠️ Token exists but not authenticated, waiting for auth to resolve...");
         }
     }, [isAuthenticated, isLoading, user, router, redirectTo, hasRedirected, initialLoadComplete]);
 
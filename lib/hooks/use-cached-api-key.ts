@@ -8,8 +8,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { usePersistentCache, CACHE_CONFIGS } from './use-persistent-cache';
-import { TokenStorage } from '@/lib/auth/token-storage';
-import { config } from '@/lib/config';
+import { backendUrl } from '@/lib/api/backend-proxy';
 
 interface ApiKeyData {
     security: {
@@ -27,16 +26,9 @@ interface ApiKeyData {
 async function fetchApiKeyWithCache(): Promise<ApiKeyData> {
     console.log('🔄 Fetching fresh API key data...');
 
-    const token = TokenStorage.getToken();
-
-    if (!token) {
-        console.error('❌ No authentication token found');
-        throw new Error("Authentication token not found. Please login again.");
-    }
-
-    const apiUrl = `${config.api.url}/auth/check-api-key`;
+    // The backend proxy adds the access token from the session cookie
+    const apiUrl = backendUrl('/auth/check-api-key');
     console.log('📡 Making request to:', apiUrl);
-    console.log('🔑 Using token:', token.substring(0, 20) + '...');
 
     try {
         const response = await fetch(
@@ -44,7 +36,6 @@ async function fetchApiKeyWithCache(): Promise<ApiKeyData> {
             {
                 method: "GET",
                 headers: {
-                    Authorization: `Bearer ${token}`,
                     "Content-Type": "application/json",
                 },
             }
@@ -8,8 +8,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { usePersistentCache, CACHE_CONFIGS } from './use-persistent-cache';
-import { TokenStorage } from '@/lib/auth/token-storage';
-import { config } from '@/lib/config';
+import { backendUrl } from '@/lib/api/backend-proxy';
 
 interface UserProfile {
     id: string;
@@ -33,18 +32,12 @@ interface UserProfile {
 async function fetchProfileWithCache(): Promise<UserProfile> {
     console.log('🔄 Fetching fresh profile data...');
 
-    const token = TokenStorage.getToken();
-
-    if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-    }
-
-    const apiUrl = `${config.api.url}/user/check-me`;
+    // The backend proxy adds the access token from the session cookie
+    const apiUrl = backendUrl('/user/check-me');
 
     const response = await fetch(apiUrl, {
         method: "GET",
         headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
         },
     });
@@ -8,8 +8,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { usePersistentCache, CACHE_CONFIGS } from './use-persistent-cache';
-import { TokenStorage } from '@/lib/auth/token-storage';
-import { config } from '@/lib/config';
+import { backendUrl } from '@/lib/api/backend-proxy';
 
 interface SupplierInfo {
     supplier_info: {
@@ -33,20 +32,14 @@ interface SupplierInfo {
 async function fetchSupplierInfoWithCache(supplierName: string): Promise<SupplierInfo> {
     console.log('🔄 Fetching fresh supplier info data for:', supplierName);
 
-    const token = TokenStorage.getToken();
-
-    if (!token) {
-        throw new Error("Authentication token not found. Please login again.");
-    }
-
-    const apiUrl = `${config.api.url}/hotels/get-supplier-info?supplier=${supplierName}`;
+    // The backend proxy adds the access token from the session cookie
+    const apiUrl = backendUrl(`/hotels/get-supplier-info?supplier=${supplierName}`);
 
     const response = await fetch(
         apiUrl,
         {
             method: "GET",
             headers: {
-                Authorization: `Bearer ${token}`,
                 "Content-Type": "application/json",
             },
         }
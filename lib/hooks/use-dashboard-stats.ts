@@ -8,7 +8,6 @@
 import { useState, useEffect } from "react";
 import { apiClient } from "@/lib/api/client";
 import { apiEndpoints, config } from "@/lib/config";
-import { TokenStorage } from "@/lib/auth/token-storage";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { UserRole } from "@/lib/types/auth";
 
@@ -105,15 +104,6 @@ export const useDashboardStats = (realTimeInterval?: number): UseDashboardStatsR
                 role: user.role
             });
 
-            // Check authentication status
-            const token = TokenStorage.getToken();
-            const refreshToken = TokenStorage.getRefreshToken();
-            console.log('🔐 Auth status:', {
-                hasToken: !!token,
-                hasRefreshToken: !!refreshToken,
-                tokenLength: token?.length || 0
-            });
-
             // Try to fetch real data from the API using the API client
             let response;
             try {
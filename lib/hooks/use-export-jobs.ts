@@ -22,6 +22,7 @@ interface UseExportJobsReturn {
     createHotelExport: (filters: HotelExportFilters) => Promise<void>;
     createMappingExport: (filters: MappingExportFilters) => Promise<void>;
     refreshJobStatus: (jobId: string) => Promise<void>;
+    applyJobStatus: (jobId: string, status: ExportJobStatus) => void;
     refreshJobs: () => Promise<void>;
     deleteJob: (jobId: string) => Promise<void>;
     clearCompletedJobs: () => Promise<void>;
@@ -474,6 +475,38 @@ export function useExportJobs(): UseExportJobsReturn {
         [retryManager, addNotification]
     );
 
+    /**
+     * Merge a status payload into a job without fetching it again
+     * (used for pushed updates and after a status refresh)
+     */
+    const applyJobStatus = useCallback((jobId: string, statusData: ExportJobStatus): void => {
+        setJobs((prevJobs) =>
+            prevJobs.map((job) => {
+                if (job.jobId === jobId) {
+                    return {
+                        ...job,
+                        status: statusData.status,
+                        progress: statusData.progress_percentage,
+                        processedRecords: statusData.processed_records,
+                        totalRecords: statusData.total_records,
+                        startedAt: statusData.started_at
+                            ? new Date(statusData.started_at)
+                            : job.startedAt,
+                        completedAt: statusData.completed_at
+                            ? new Date(statusData.completed_at)
+                            : job.completedAt,
+                        expiresAt: statusData.expires_at
+                            ? new Date(statusData.expires_at)
+                            : job.expiresAt,
+                        errorMessage: statusData.error_message,
+                        downloadUrl: statusData.download_url,
+                    };
+                }
+                return job;
+            })
+        );
+    }, []);
+
     /**
      * Refresh the status of a specific job
      */
@@ -494,32 +527,7 @@ export function useExportJobs(): UseExportJobsReturn {
 
             const statusData = response.data;
 
-            // Update the job in state
-            setJobs((prevJobs) =>
-                prevJobs.map((job) => {
-                    if (job.jobId === jobId) {
-                        return {
-                            ...job,
-                            status: statusData.status,
-                            progress: statusData.progress_percentage,
-                            processedRecords: statusData.processed_records,
-                            totalRecords: statusData.total_records,
-                            startedAt: statusData.started_at
-                                ? new Date(statusData.started_at)
-                                : job.startedAt,
-                            completedAt: statusData.completed_at
-                                ? new Date(statusData.completed_at)
-                                : job.completedAt,
-                            expiresAt: statusData.expires_at
-                                ? new Date(statusData.expires_at)
-                                : job.expiresAt,
-                            errorMessage: statusData.error_message,
-                            downloadUrl: statusData.download_url,
-                        };
-                    }
-                    return job;
-                })
-            );
+            applyJobStatus(jobId, statusData);
 
             console.log('Job status refreshed successfully:', statusData);
         } catch (err) {
@@ -529,7 +537,7 @@ export function useExportJobs(): UseExportJobsReturn {
             setError(errorMessage);
             throw err;
         }
-    }, []);
+    }, [applyJobStatus]);
 
     /**
      * Delete a job from the list (API + local state)
@@ -652,6 +660,7 @@ export function useExportJobs(): UseExportJobsReturn {
         createHotelExport,
         createMappingExport,
         refreshJobStatus,
+        applyJobStatus,
         refreshJobs,
         deleteJob,
         clearCompletedJobs,
@@ -9,6 +9,7 @@
  * - Response caching: Caches status responses for 5 seconds
  * - Concurrent request limiting: Limits to 5 simultaneous polling requests
  * - Proper cleanup: Cleans up all intervals on unmount
+ * - Fallback mode: Can be disabled while useExportStream is connected
  */
 
 import { useEffect, useRef, useCallback } from 'react';
@@ -20,6 +21,7 @@ interface UseExportPollingOptions {
     onStatusUpdate: (jobId: string, status: ExportJobStatus) => void;
     onPollingError?: (jobId: string, errorMessage: string) => void; // Callback for polling errors
     pollingInterval?: number; // default: 5000ms
+    enabled?: boolean; // default: true; set false while a push channel is delivering updates
 }
 
 interface PollingState {
@@ -61,6 +63,7 @@ export function useExportPolling({
     onStatusUpdate,
     onPollingError,
     pollingInterval = DEFAULT_POLLING_INTERVAL,
+    enabled = true,
 }: UseExportPollingOptions): void {
     // Store polling state for each job
     const pollingStatesRef = useRef<Map<string, PollingState>>(new Map());
@@ -103,7 +106,10 @@ export function useExportPolling({
         const pollingStates = pollingStatesRef.current;
 
         // Get jobs that need polling (status = "pending" or "processing") - Requirement 2.1
-        const processingJobs = jobs.filter((job) => job.status === 'pending' || job.status === 'processing');
+        // When disabled, every job is treated as not needing a poll so existing intervals are stopped
+        const processingJobs = enabled
+            ? jobs.filter((job) => job.status === 'pending' || job.status === 'processing')
+            : [];
 
         // Start polling for new processing jobs
         processingJobs.forEach((job) => {
@@ -290,7 +296,7 @@ export function useExportPolling({
             });
             pollingStates.clear();
         };
-    }, [jobs, onStatusUpdate, pollingInterval, getCachedStatus, cacheStatus]);
+    }, [jobs, onStatusUpdate, pollingInterval, enabled, getCachedStatus, cacheStatus]);
 
     // Set up Page Visibility API to pause polling when tab is inactive
     useEffect(() => {
@@ -0,0 +1,140 @@
+/**
+ * Custom hook for push-based export job status updates
+ * Keeps a single Server-Sent Events connection (via /api/v1/exports/stream) open
+ * while any job is pending or processing, and reports whether it is live so
+ * useExportPolling can take over whenever the stream is down.
+ *
+ * - One connection for all jobs instead of one poll per job
+ * - Reconnects with exponential backoff after the stream drops
+ * - Closes the connection when there is nothing left to watch
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { parseServerSentEvents } from '@/lib/utils/sse';
+import type { ExportJob, ExportJobStatus } from '@/lib/types/exports';
+
+interface UseExportStreamOptions {
+    jobs: ExportJob[];
+    onStatusUpdate: (jobId: string, status: ExportJobStatus) => void;
+    enabled?: boolean;
+}
+
+interface UseExportStreamResult {
+    isStreaming: boolean;
+}
+
+const STREAM_URL = '/api/v1/exports/stream';
+const INITIAL_RECONNECT_DELAY = 5000; // 5 seconds
+const MAX_RECONNECT_DELAY = 60000; // 1 minute
+
+export function useExportStream({
+    jobs,
+    onStatusUpdate,
+    enabled = true,
+}: UseExportStreamOptions): UseExportStreamResult {
+    const [isStreaming, setIsStreaming] = useState(false);
+
+    // Read the latest values from inside the long-lived connection
+    const onStatusUpdateRef = useRef(onStatusUpdate);
+    const jobIdsRef = useRef<Set<string>>(new Set());
+
+    useEffect(() => {
+        onStatusUpdateRef.current = onStatusUpdate;
+    }, [onStatusUpdate]);
+
+    useEffect(() => {
+        jobIdsRef.current = new Set(jobs.map((job) => job.jobId));
+    }, [jobs]);
+
+    const hasActiveJobs = jobs.some((job) => job.status === 'pending' || job.status === 'processing');
+    const shouldConnect = enabled && hasActiveJobs;
+
+    useEffect(() => {
+        if (!shouldConnect) {
+            setIsStreaming(false);
+            return;
+        }
+
+        let stopped = false;
+        let controller: AbortController | null = null;
+        let reconnectTimer: NodeJS.Timeout | null = null;
+        let reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+        const handleEvent = (event: string, data: string) => {
+            if (event !== 'status' && event !== 'message') return;
+
+            try {
+                const status = JSON.parse(data) as ExportJobStatus;
+                if (status?.job_id && jobIdsRef.current.has(status.job_id)) {
+                    onStatusUpdateRef.current(status.job_id, status);
+                }
+            } catch (error) {
+                console.warn('⚠️ Ignoring malformed export stream event:', error);
+            }
+        };
+
+        const connect = async () => {
+            controller = new AbortController();
+
+            try {
+                // Authenticated by the session cookie
+                const response = await fetch(STREAM_URL, {
+                    headers: {
+                        Accept: 'text/event-stream',
+                    },
+                    cache: 'no-store',
+                    signal: controller.signal,
+                });
+
+                if (!response.ok || !response.body) {
+                    throw new Error(`Export stream unavailable (status ${response.status})`);
+                }
+
+                console.log('📡 Export status stream connected - polling paused');
+                setIsStreaming(true);
+                reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = '';
+
+                while (!stopped) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+
+                    buffer += decoder.decode(value, { stream: true });
+                    const { events, remainder } = parseServerSentEvents(buffer);
+                    buffer = remainder;
+                    events.forEach(({ event, data }) => handleEvent(event, data));
+                }
+
+                if (!stopped) {
+                    console.warn('⚠️ Export status stream closed by server');
+                }
+            } catch (error) {
+                if (!stopped) {
+                    console.warn('⚠️ Export status stream error:', error instanceof Error ? error.message : error);
+                }
+            }
+
+            if (stopped) return;
+
+            // Polling resumes while we wait to reconnect
+            setIsStreaming(false);
+            console.log(`🔄 Reconnecting export stream in ${reconnectDelay}ms`);
+            reconnectTimer = setTimeout(connect, reconnectDelay);
+            reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+        };
+
+        connect();
+
+        return () => {
+            stopped = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            controller?.abort();
+            setIsStreaming(false);
+        };
+    }, [shouldConnect]);
+
+    return { isStreaming };
+}
@@ -0,0 +1,177 @@
+/**
+ * Custom hook for content sync jobs
+ * Loads the job history and statistics, and keeps them live while any job is active
+ *
+ * - Polls only while a job is pending or running
+ * - Pauses polling when the tab is hidden and refreshes when it becomes visible again
+ * - Backs off exponentially on repeated API errors
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SyncJobsApi } from '@/lib/api/sync-jobs';
+import { config } from '@/lib/config';
+import { ACTIVE_SYNC_STATUSES } from '@/lib/types/sync';
+import type { SyncJob, SyncJobType, SyncStats } from '@/lib/types/sync';
+
+interface UseSyncJobsOptions {
+    limit?: number;
+    pollingInterval?: number;
+}
+
+interface UseSyncJobsResult {
+    jobs: SyncJob[];
+    stats: SyncStats | null;
+    isLoading: boolean;
+    error: string | null;
+    hasActiveJobs: boolean;
+    refresh: () => Promise<void>;
+    triggerSync: (type: SyncJobType, provider?: string) => Promise<SyncJob | null>;
+    cancelJob: (jobId: string) => Promise<boolean>;
+}
+
+const MAX_BACKOFF_INTERVAL = 30000;
+
+export function useSyncJobs({
+    limit = 50,
+    pollingInterval = config.sync.pollInterval,
+}: UseSyncJobsOptions = {}): UseSyncJobsResult {
+    const [jobs, setJobs] = useState<SyncJob[]>([]);
+    const [stats, setStats] = useState<SyncStats | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const errorCountRef = useRef(0);
+    const inFlightRef = useRef(false);
+    const mountedRef = useRef(true);
+
+    const hasActiveJobs = jobs.some((job) => ACTIVE_SYNC_STATUSES.includes(job.status));
+
+    const refresh = useCallback(async () => {
+        // Skip overlapping refreshes from the poller and manual actions
+        if (inFlightRef.current) return;
+        inFlightRef.current = true;
+
+        try {
+            const [jobsResponse, statsResponse] = await Promise.all([
+                SyncJobsApi.listJobs({ limit }),
+                SyncJobsApi.getStats(),
+            ]);
+
+            if (!mountedRef.current) return;
+
+            if (jobsResponse.success && jobsResponse.data) {
+                setJobs(jobsResponse.data.jobs);
+            }
+            if (statsResponse.success && statsResponse.data) {
+                setStats(statsResponse.data);
+            }
+
+            if (jobsResponse.success && statsResponse.success) {
+                errorCountRef.current = 0;
+                setError(null);
+            } else {
+                errorCountRef.current += 1;
+                setError(
+                    jobsResponse.error?.message ||
+                    statsResponse.error?.message ||
+                    'Failed to load sync status'
+                );
+            }
+        } finally {
+            inFlightRef.current = false;
+            if (mountedRef.current) setIsLoading(false);
+        }
+    }, [limit]);
+
+    // Initial load
+    useEffect(() => {
+        mountedRef.current = true;
+        refresh();
+
+        return () => {
+            mountedRef.current = false;
+        };
+    }, [refresh]);
+
+    // Poll while something is running
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+
+        let timeoutId: NodeJS.Timeout | null = null;
+        let stopped = false;
+
+        const schedule = () => {
+            if (stopped) return;
+            const delay = Math.min(
+                pollingInterval * Math.pow(2, errorCountRef.current),
+                MAX_BACKOFF_INTERVAL
+            );
+            timeoutId = setTimeout(tick, delay);
+        };
+
+        const tick = async () => {
+            if (typeof document !== 'undefined' && document.hidden) {
+                // Resumed by the visibilitychange handler
+                timeoutId = null;
+                return;
+            }
+            await refresh();
+            schedule();
+        };
+
+        const handleVisibilityChange = () => {
+            if (!document.hidden && timeoutId === null && !stopped) {
+                tick();
+            }
+        };
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        schedule();
+
+        return () => {
+            stopped = true;
+            if (timeoutId) clearTimeout(timeoutId);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [hasActiveJobs, pollingInterval, refresh]);
+
+    const triggerSync = useCallback(async (type: SyncJobType, provider?: string) => {
+        const response = await SyncJobsApi.triggerSync({ type, provider });
+
+        if (!response.success || !response.data) {
+            setError(response.error?.message || 'Failed to start sync');
+            return null;
+        }
+
+        const job = response.data;
+        setError(null);
+        setJobs((prev) => [job, ...prev.filter((existing) => existing.id !== job.id)]);
+        return job;
+    }, []);
+
+    const cancelJob = useCallback(async (jobId: string) => {
+        const response = await SyncJobsApi.cancelJob(jobId);
+
+        if (!response.success || !response.data) {
+            setError(response.error?.message || 'Failed to cancel sync');
+            return false;
+        }
+
+        const cancelled = response.data;
+        setError(null);
+        setJobs((prev) => prev.map((job) => (job.id === cancelled.id ? cancelled : job)));
+        refresh();
+        return true;
+    }, [refresh]);
+
+    return {
+        jobs,
+        stats,
+        isLoading,
+        error,
+        hasActiveJobs,
+        refresh,
+        triggerSync,
+        cancelJob,
+    };
+}
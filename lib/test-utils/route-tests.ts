@@ -0,0 +1,40 @@
+/**
+ * Shared setup for route handler tests
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { UserRole, type User } from "@/lib/types/auth";
+
+/**
+ * A session user for mocked session helpers; a super user unless overridden
+ */
+export function sessionUser(overrides: Partial<User> = {}): User {
+  return {
+    id: "admin-1",
+    username: "root",
+    email: "root@example.com",
+    role: UserRole.SUPER_USER,
+    isActive: true,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/**
+ * Give each test in the enclosing describe an empty data directory. process.cwd() points at it,
+ * so file storage modules required after this hook write there. Call it before other hooks.
+ */
+export function useTempDataDir(prefix: string): void {
+  let dataDir = "";
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    jest.spyOn(process, "cwd").mockReturnValue(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+}
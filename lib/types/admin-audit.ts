@@ -0,0 +1,64 @@
+/**
+ * Admin audit log types
+ * Management actions taken in the dashboard: who did what to whom, and whether it worked
+ */
+
+export type AdminAuditAction =
+    | 'points.allocate'
+    | 'points.reset'
+    | 'points.reverse'
+    | 'points.threshold'
+    | 'points.top_up_rule'
+    | 'suppliers.activate'
+    | 'suppliers.deactivate'
+    | 'user.activate'
+    | 'user.delete'
+    | 'super_user.delete'
+    | 'api_key.regenerate'
+    | 'api_key.create'
+    | 'api_key.rotate'
+    | 'api_key.revoke'
+    | 'trial.approve'
+    | 'trial.reject'
+    | 'trial.contact'
+    | 'role.create'
+    | 'role.update'
+    | 'role.delete'
+    | 'role.assign'
+    | 'permissions.override';
+
+export type AdminAuditTargetType = 'user' | 'trial_request' | 'role' | 'top_up_rule';
+
+export type AdminAuditOutcome = 'success' | 'failure';
+
+export interface AdminAuditEntry {
+    id: string;
+    actorId: string;
+    actorName: string;
+    action: AdminAuditAction;
+    targetType: AdminAuditTargetType;
+    targetId: string;
+    targetName?: string;
+    outcome: AdminAuditOutcome;
+    details?: Record<string, unknown>;
+    createdAt: string;
+}
+
+// What a route records; the actor always comes from the session
+export type RecordAdminAuditInput = Omit<AdminAuditEntry, 'id' | 'actorId' | 'actorName' | 'createdAt'>;
+
+export interface AdminAuditFilters {
+    actor?: string;
+    action?: AdminAuditAction;
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    search?: string;
+}
+
+export interface AdminAuditPage {
+    entries: AdminAuditEntry[];
+    total: number;
+    page: number;
+    limit: number;
+    actors: string[]; // everyone who appears in the log, for the actor filter
+}
@@ -0,0 +1,65 @@
+/**
+ * API key types
+ * Named keys per user with optional expiry, scopes and rotation grace periods
+ */
+
+export type ApiKeyScope = 'content:read' | 'exports';
+
+export type ApiKeyStatus = 'active' | 'rotating' | 'expired' | 'revoked';
+
+// Stored record. Only a hash of the secret is kept; the secret is shown once when created.
+export interface ApiKeyRecord {
+    id: string;
+    userId: string;
+    name: string;
+    // First characters of the secret, so users can tell keys apart
+    prefix: string;
+    hash: string;
+    scopes: ApiKeyScope[];
+    expiresAt: string | null;
+    createdBy: string;
+    createdAt: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    // Set when the key has been rotated: the replacement, and when this key stops working
+    replacedById?: string;
+    graceEndsAt?: string;
+}
+
+// What the dashboard sees: the record without its hash, plus its current status
+export interface ApiKeySummary extends Omit<ApiKeyRecord, 'hash'> {
+    status: ApiKeyStatus;
+}
+
+// Returned once, when a key is created or rotated
+export interface IssuedApiKey {
+    key: ApiKeySummary;
+    secret: string;
+    // The key that was rotated out, with its grace period
+    replaced?: ApiKeySummary;
+}
+
+export interface CreateApiKeyInput {
+    name: string;
+    scopes: ApiKeyScope[];
+    // Empty for a key that never expires
+    expiresInDays?: number | null;
+}
+
+export interface RotateApiKeyInput {
+    // How long the old key keeps working; 0 revokes it immediately
+    graceHours: number;
+}
+
+export interface VerifyApiKeyInput {
+    key: string;
+    scope?: ApiKeyScope;
+}
+
+export interface VerifyApiKeyResult {
+    valid: boolean;
+    reason?: 'unknown' | 'expired' | 'revoked' | 'scope';
+    userId?: string;
+    keyId?: string;
+    scopes?: ApiKeyScope[];
+}
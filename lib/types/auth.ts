@@ -2,6 +2,9 @@
  * Authentication related types
  */
 
+import type { Permission } from '@/lib/utils/rbac';
+import type { PermissionOverrides } from './roles';
+
 export interface LoginCredentials {
     username: string;
     password: string;
@@ -24,6 +27,11 @@ export interface User {
     updatedAt?: string;
     pointBalance?: number;
     activeSuppliers?: string[];
+    // Resolved from the server-side role matrix; absent until the session endpoint has been read
+    roleId?: string;
+    roleName?: string;
+    permissions?: Permission[];
+    permissionOverrides?: PermissionOverrides;
 }
 
 export enum UserRole {
@@ -35,7 +43,6 @@ export enum UserRole {
 
 export interface AuthState {
     user: User | null;
-    token: string | null;
     isAuthenticated: boolean;
     isLoading: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Content Quality Types
+ * Completeness scores for suppliers' hotel content (ProviderFullDetails)
+ */
+
+export type ContentQualityCheckKey =
+    | 'name'
+    | 'address'
+    | 'coordinates'
+    | 'starRating'
+    | 'propertyType'
+    | 'descriptions'
+    | 'photos'
+    | 'roomTypes'
+    | 'facilities'
+    | 'policies'
+    | 'contacts';
+
+export type ContentQualityBand = 'good' | 'fair' | 'poor';
+
+export interface ContentQualityCheck {
+    key: ContentQualityCheckKey;
+    label: string;
+    // Points out of 100 this check is worth
+    weight: number;
+    passed: boolean;
+}
+
+export interface ContentQualityScore {
+    // 0-100
+    score: number;
+    checks: ContentQualityCheck[];
+    missing: ContentQualityCheckKey[];
+}
+
+// One supplier's score for one hotel, as last seen
+export interface ContentQualityRecord {
+    // `${supplier}|${ittid}`
+    key: string;
+    supplier: string;
+    providerHotelId: string;
+    ittid: string;
+    hotelName: string;
+    countryCode: string;
+    score: number;
+    missing: ContentQualityCheckKey[];
+    scoredAt: string;
+}
+
+export interface SupplierContentQuality {
+    supplier: string;
+    hotels: number;
+    averageScore: number;
+    lowestScore: number;
+    // Hotels scoring below the fair band
+    poorHotels: number;
+    // How many hotels fail each check
+    missingCounts: Partial<Record<ContentQualityCheckKey, number>>;
+    lastScoredAt: string;
+}
+
+// What the dashboard sends: the hotel to score. Scores come from the backend's details, not the client.
+export interface RecordContentQualityInput {
+    ittid: string;
+}
+
+// One hotel's supplier results, built on the server from its full details
+export interface SaveContentQualityInput {
+    ittid: string;
+    hotelName: string;
+    countryCode: string;
+    suppliers: Array<{
+        supplier: string;
+        providerHotelId: string;
+        missing: ContentQualityCheckKey[];
+    }>;
+}
@@ -39,7 +39,7 @@ export interface HotelExportFilters {
         ittids: string | 'All';
         property_types: string[] | 'All';
     };
-    format: 'json' | 'csv' | 'excel';
+    format: ExportFormat;
     include_locations: boolean;
     include_contacts: boolean;
     include_mappings: boolean;
@@ -54,7 +54,7 @@ export interface MappingExportFilters {
         date_to: string;
         max_records: number | 'All';
     };
-    format: 'json' | 'csv' | 'excel';
+    format: ExportFormat;
 }
 
 // Union type for all export filters
@@ -67,7 +67,59 @@ export type ExportType = 'hotel' | 'mapping';
 export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
 
 // Export format types
-export type ExportFormat = 'json' | 'csv' | 'excel';
+// ndjson: one JSON record per line; geojson: a FeatureCollection of hotel points built
+// from latitude/longitude (needs location data)
+export type ExportFormat = 'json' | 'csv' | 'excel' | 'ndjson' | 'parquet' | 'geojson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'excel', 'ndjson', 'parquet', 'geojson'];
+
+// File extension used when saving a downloaded export
+export const EXPORT_FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+    json: 'json',
+    csv: 'csv',
+    excel: 'xlsx',
+    ndjson: 'ndjson',
+    parquet: 'parquet',
+    geojson: 'geojson',
+};
+
+// Byte-level progress of an export file download
+export interface ExportDownloadProgress {
+    receivedBytes: number;
+    totalBytes: number | null; // null when the server doesn't report the file size
+    resumedFromBytes: number; // bytes already stored by an earlier, interrupted attempt
+}
+
+// Export job comparison (two completed exports of the same type, diffed by ITTID)
+export type ExportDiffChangeType = 'added' | 'removed' | 'changed';
+
+export interface ExportDiffEntry {
+    ittid: string;
+    changeType: ExportDiffChangeType;
+    changedFields: string[]; // empty for added/removed
+    before: Record<string, unknown>[]; // rows in the older export (mapping exports can have several per ITTID)
+    after: Record<string, unknown>[]; // rows in the newer export
+}
+
+export interface ExportDiffSummary {
+    baseRecords: number;
+    compareRecords: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    unkeyedRecords: number; // rows without an ITTID, left out of the comparison
+    fieldChangeCounts: Record<string, number>;
+}
+
+export interface ExportDiffResult {
+    exportType: ExportType;
+    format: ExportFormat;
+    baseJobId: string;
+    compareJobId: string;
+    summary: ExportDiffSummary;
+    entries: ExportDiffEntry[];
+}
 
 // Client-side export job state
 export interface ExportJob {
@@ -108,11 +160,109 @@ export interface Notification {
     };
 }
 
-// Filter preset
+// Who can see a saved preset: only its owner, the admin team, or every user
+export type FilterPresetVisibility = 'private' | 'team' | 'global';
+
+// Filter preset (persisted server-side, ISO date strings)
 export interface FilterPreset {
     id: string;
     name: string;
     exportType: ExportType;
     filters: ExportFilters;
-    createdAt: Date;
+    visibility: FilterPresetVisibility;
+    isOfficial: boolean; // Published by an admin, always global
+    ownerId: string;
+    ownerName: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CreateFilterPresetInput {
+    name: string;
+    exportType: ExportType;
+    filters: ExportFilters;
+    visibility?: FilterPresetVisibility;
+    isOfficial?: boolean;
+}
+
+export interface UpdateFilterPresetInput {
+    name?: string;
+    filters?: ExportFilters;
+    visibility?: FilterPresetVisibility;
+    isOfficial?: boolean;
+}
+
+// Portable JSON file used to import/export presets
+export interface FilterPresetFile {
+    version: 1;
+    exportedAt: string;
+    presets: Array<Pick<FilterPreset, 'name' | 'exportType' | 'filters' | 'visibility'>>;
+}
+
+export interface FilterPresetImportResult {
+    imported: FilterPreset[];
+    skipped: Array<{ name: string; reason: string }>;
+}
+
+// Schedule recurrence. Times are UTC; `cron` is a standard 5-field expression.
+export type ExportScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export interface ExportScheduleRule {
+    frequency: ExportScheduleFrequency;
+    time: string; // HH:MM (UTC), ignored for cron
+    dayOfWeek?: number; // 0 (Sunday) - 6, weekly only
+    dayOfMonth?: number; // 1 - 28, monthly only
+    cron?: string; // cron only
+}
+
+// Scheduled export attached to a saved filter preset (persisted server-side, ISO date strings)
+export interface ExportSchedule {
+    id: string;
+    ownerId: string;
+    ownerName: string;
+    presetId: string;
+    presetName: string;
+    exportType: ExportType;
+    filters: ExportFilters;
+    rule: ExportScheduleRule;
+    enabled: boolean;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type ExportScheduleRunStatus = 'processing' | 'completed' | 'failed';
+
+// One execution of a schedule
+export interface ExportScheduleRun {
+    id: string;
+    scheduleId: string;
+    ownerId: string;
+    presetName: string;
+    exportType: ExportType;
+    jobId: string | null;
+    status: ExportScheduleRunStatus;
+    scheduledFor: string;
+    startedAt: string;
+    completedAt: string | null;
+    progress: number;
+    totalRecords: number;
+    errorMessage: string | null;
+    expiresAt: string | null;
+    notified: boolean;
+}
+
+export interface CreateExportScheduleInput {
+    presetId: string;
+    presetName: string;
+    exportType: ExportType;
+    filters: ExportFilters;
+    rule: ExportScheduleRule;
+    enabled?: boolean;
+}
+
+export interface UpdateExportScheduleInput {
+    rule?: ExportScheduleRule;
+    enabled?: boolean;
 }
@@ -0,0 +1,62 @@
+/**
+ * Duplicate hotel types
+ * Pairs of ITTIDs that likely describe the same property, and reviewers' decisions on them
+ */
+
+export type DuplicateDecision = 'same' | 'different' | 'unsure';
+
+// One ITTID as seen across the suppliers loaded for a country
+export interface DuplicateCandidateHotel {
+    ittid: string;
+    name: string;
+    address?: string;
+    latitude?: number;
+    longitude?: number;
+    propertyType?: string;
+    starRating?: number;
+    photo?: string;
+    suppliers: string[];
+    giataCodes: string[];
+    vervotechIds: string[];
+}
+
+export interface DuplicateCandidate {
+    // "<ittid>|<ittid>", lower ITTID first
+    key: string;
+    a: DuplicateCandidateHotel;
+    b: DuplicateCandidateHotel;
+    // 0-1
+    confidence: number;
+    nameSimilarity: number;
+    // null when either hotel has no coordinates
+    distanceKm: number | null;
+    sharedGiataCodes: string[];
+    sharedVervotechIds: string[];
+    // Both hotels carry GIATA or Vervotech codes and none of them match
+    conflictingCodes: boolean;
+}
+
+export interface DuplicateReview {
+    key: string;
+    ittidA: string;
+    ittidB: string;
+    nameA: string;
+    nameB: string;
+    countryCode: string;
+    confidence: number;
+    decision: DuplicateDecision;
+    note: string;
+    reviewedBy: string;
+    reviewedAt: string;
+}
+
+export interface SaveDuplicateReviewInput {
+    ittidA: string;
+    ittidB: string;
+    nameA: string;
+    nameB: string;
+    countryCode: string;
+    confidence: number;
+    decision: DuplicateDecision;
+    note?: string;
+}
@@ -131,6 +131,16 @@ export interface LocationSearchParams {
     suppliers?: string[];
 }
 
+export interface GeoPoint {
+    lat: number;
+    lng: number;
+}
+
+// Area search: results of a point-and-radius search that fall inside the area
+export type SearchArea =
+    | { kind: 'bbox'; south: number; west: number; north: number; east: number }
+    | { kind: 'polygon'; points: GeoPoint[] };
+
 export interface LocationSearchResult {
     totalHotels: number;
     hotels: LocationHotel[];
@@ -0,0 +1,66 @@
+/**
+ * IP permission types
+ * Single addresses and CIDR ranges (IPv4 and IPv6) with labels and expiry dates
+ */
+
+export type IpVersion = 4 | 6;
+
+// A parsed address or range. Single addresses are ranges with a full-length prefix.
+export interface IpRange {
+    version: IpVersion;
+    // Canonical form, e.g. "10.0.0.0/8", "2001:db8::/32" or "203.0.113.7"
+    normalized: string;
+    prefix: number;
+    start: bigint;
+    end: bigint;
+}
+
+// Label and expiry kept by the dashboard; the backend only stores the address
+export interface IpEntryDetails {
+    userId: string;
+    ipAddress: string;
+    label: string;
+    // End of the day (UTC) the entry stops being allowed; null never expires
+    expiresAt: string | null;
+    updatedBy: string;
+    updatedAt: string;
+}
+
+export interface SaveIpEntryDetailsInput {
+    entries: {
+        ipAddress: string;
+        label?: string;
+        expiresAt?: string | null;
+    }[];
+}
+
+export interface RemoveIpEntryDetailsInput {
+    ipAddresses: string[];
+}
+
+// One line of a bulk paste
+export interface BulkIpRow {
+    line: number;
+    input: string;
+    label: string;
+    range: IpRange | null;
+    error?: string;
+    // Already on the user's list
+    duplicate: boolean;
+    // Existing entries or earlier rows this one overlaps
+    overlaps: string[];
+}
+
+// A rule that covers a tested address, most specific first
+export interface IpRuleMatch {
+    ipAddress: string;
+    label: string;
+    prefix: number;
+    expired: boolean;
+}
+
+export interface IpExpiryRunSummary {
+    expired: number;
+    removed: number;
+    failed: number;
+}
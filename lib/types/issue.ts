@@ -5,6 +5,34 @@
 export type IssueCategory = 'bug' | 'feature' | 'help' | 'other';
 export type IssuePriority = 'low' | 'medium' | 'high' | 'critical';
 export type IssueStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+export type IssueHistoryField = 'status' | 'priority';
+
+export interface IssueComment {
+    id: string;
+    authorId: string;
+    authorName: string;
+    isStaff: boolean;
+    body: string;
+    createdAt: Date;
+}
+
+export interface IssueAttachment {
+    id: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    uploadedBy: string;
+    uploadedAt: Date;
+}
+
+export interface IssueHistoryEntry {
+    id: string;
+    field: IssueHistoryField;
+    from: string;
+    to: string;
+    changedBy: string;
+    changedAt: Date;
+}
 
 export interface Issue {
     id: string;
@@ -16,10 +44,14 @@ export interface Issue {
     createdAt: Date;
     updatedAt: Date;
     userId: string;
+    username?: string;
     userEmail?: string;
-    attachments?: string[];
+    attachments?: IssueAttachment[];
     response?: string;
     respondedAt?: Date;
+    respondedBy?: string;
+    comments?: IssueComment[];
+    history?: IssueHistoryEntry[];
 }
 
 export interface CreateIssueInput {
@@ -29,3 +61,35 @@ export interface CreateIssueInput {
     priority: IssuePriority;
     userEmail?: string;
 }
+
+export interface UpdateIssueInput {
+    status?: IssueStatus;
+    priority?: IssuePriority;
+}
+
+export type IssueCommentRecord = Omit<IssueComment, 'createdAt'> & { createdAt: string };
+export type IssueAttachmentRecord = Omit<IssueAttachment, 'uploadedAt'> & { uploadedAt: string };
+export type IssueHistoryRecord = Omit<IssueHistoryEntry, 'changedAt'> & { changedAt: string };
+
+/**
+ * Issue as persisted by /api/v1/issues (dates serialized as ISO strings)
+ */
+export interface IssueRecord {
+    id: string;
+    title: string;
+    description: string;
+    category: IssueCategory;
+    priority: IssuePriority;
+    status: IssueStatus;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+    username?: string;
+    userEmail?: string;
+    attachments?: IssueAttachmentRecord[];
+    response?: string;
+    respondedAt?: string;
+    respondedBy?: string;
+    comments?: IssueCommentRecord[];
+    history?: IssueHistoryRecord[];
+}
@@ -0,0 +1,90 @@
+/**
+ * Point budget types
+ * Low-balance thresholds per user or role, and scheduled auto top-up rules
+ */
+
+import type { ExportScheduleRule } from './exports';
+import type { UserRole } from './auth';
+
+export type PointThresholdScope = 'user' | 'role';
+
+// Alert when a balance drops below `threshold`. A user threshold beats a role threshold.
+export interface PointThreshold {
+    id: string;
+    scope: PointThresholdScope;
+    // User ID, or the role value for role thresholds
+    targetId: string;
+    targetName?: string;
+    threshold: number;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A user who is below their threshold and has already been notified.
+// Removed once the balance is back at or above it, so the next crossing alerts again.
+export interface PointAlertState {
+    userId: string;
+    thresholdId: string;
+    threshold: number;
+    balance: number;
+    alertedAt: string;
+}
+
+export type AutoTopUpPaidStatus = 'any' | 'paid' | 'unpaid';
+
+export interface AutoTopUpRunSummary {
+    matched: number;
+    toppedUp: number;
+    failed: number;
+    pointsAdded: number;
+}
+
+// Refill every matching user to `targetBalance` points on a schedule
+export interface AutoTopUpRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    // Empty matches every role
+    roles: UserRole[];
+    paidStatus: AutoTopUpPaidStatus;
+    // When set, only these users are topped up (still filtered by role and paid status)
+    userIds: string[];
+    targetBalance: number;
+    schedule: ExportScheduleRule;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    lastRunSummary: AutoTopUpRunSummary | null;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type SavePointThresholdInput = Pick<PointThreshold, 'scope' | 'targetId' | 'targetName' | 'threshold'>;
+
+export type SaveAutoTopUpRuleInput = Pick<
+    AutoTopUpRule,
+    'name' | 'enabled' | 'roles' | 'paidStatus' | 'userIds' | 'targetBalance' | 'schedule'
+>;
+
+export interface PointBudgets {
+    thresholds: PointThreshold[];
+    rules: AutoTopUpRule[];
+}
+
+// What the dashboard knows about a user's balance when it asks for their budget status
+export interface CheckPointBudgetInput {
+    username?: string;
+    role?: string;
+    balance: number;
+}
+
+export interface PointBudgetStatus {
+    userId: string;
+    balance: number;
+    // The threshold that applies to this user, if any
+    threshold: PointThreshold | null;
+    low: boolean;
+    // True only on the check that first saw the balance below the threshold
+    crossed: boolean;
+}
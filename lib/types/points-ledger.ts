@@ -0,0 +1,63 @@
+/**
+ * Points ledger types
+ * Every credit and debit on a user's balance, with who made it, why, and the balance after it
+ */
+
+import type { AllocationType } from './user';
+
+export type PointsLedgerEntryType =
+    | 'opening'
+    | 'allocation'
+    | 'reset'
+    | 'reversal'
+    | 'adjustment'
+    | 'top_up';
+
+export interface PointsLedgerEntry {
+    id: string;
+    userId: string;
+    username?: string;
+    type: PointsLedgerEntryType;
+    // Signed: credits are positive, debits negative
+    amount: number;
+    reason: string;
+    allocationType?: AllocationType;
+    actorId: string;
+    actorName: string;
+    // Set on reversal entries, pointing at the allocation they undo
+    reversesId?: string;
+    // Set on allocations once they have been reversed
+    reversedById?: string;
+    createdAt: string;
+}
+
+export interface PointsLedgerRow extends PointsLedgerEntry {
+    balance: number;
+    reversible: boolean;
+}
+
+export interface PointsLedger {
+    userId: string;
+    // Newest first
+    entries: PointsLedgerRow[];
+    balance: number;
+    totalCredits: number;
+    totalDebits: number;
+}
+
+// Entries the routes derive from the backend balance around each change
+export interface RecordPointsLedgerInput {
+    username?: string;
+    // Top-ups are only recorded by the point budget scheduler
+    type: 'allocation' | 'reset' | 'top_up';
+    // Allocations and top-ups only; resets debit whatever the balance was
+    amount?: number;
+    allocationType?: AllocationType;
+    reason?: string;
+    // Balance reported by the backend just before the action, used to reconcile the ledger
+    currentBalance?: number;
+}
+
+export interface ReversePointsAllocationInput {
+    reason: string;
+}
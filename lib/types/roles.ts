@@ -0,0 +1,89 @@
+/**
+ * Role and permission matrix types
+ */
+
+import type { UserRole } from './auth';
+import type { Permission } from '@/lib/utils/rbac';
+
+export interface RoleDefinition {
+    id: string; // built-in roles use their UserRole value; custom roles get a "role_" slug
+    name: string;
+    description: string;
+    builtIn: boolean;
+    // Menu items without a required permission follow this built-in role's access
+    baseRole: UserRole;
+    permissions: Permission[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Custom role given to a user; users without one use their built-in role
+export interface RoleAssignment {
+    userId: string;
+    username: string;
+    roleId: string;
+    assignedBy: string;
+    assignedAt: string;
+}
+
+// Per-user exceptions on top of the user's role. A denied permission wins over a grant.
+export interface PermissionOverrides {
+    granted: Permission[];
+    denied: Permission[];
+}
+
+export interface UserPermissionOverride extends PermissionOverrides {
+    userId: string;
+    username: string;
+    updatedBy: string;
+    updatedAt: string;
+}
+
+export interface RoleMatrix {
+    roles: RoleDefinition[];
+    assignments: RoleAssignment[];
+    overrides: UserPermissionOverride[];
+}
+
+export interface CreateRoleInput {
+    name: string;
+    description?: string;
+    baseRole?: UserRole;
+    permissions?: Permission[];
+}
+
+export interface UpdateRoleInput {
+    name?: string;
+    description?: string;
+    baseRole?: UserRole;
+    permissions?: Permission[];
+}
+
+export interface AssignRoleInput {
+    userId: string;
+    username: string;
+    roleId: string | null; // null removes the custom role
+}
+
+export interface UpdatePermissionOverridesInput extends PermissionOverrides {
+    username: string;
+    role: UserRole; // the user's built-in role, used when they have no custom role
+}
+
+// Where an effective permission comes from: the role, a per-user grant or deny, or nowhere
+export type PermissionSource = 'role' | 'grant' | 'deny' | 'none';
+
+export interface EffectivePermission {
+    permission: Permission;
+    granted: boolean;
+    source: PermissionSource;
+}
+
+export interface UserPermissionSummary {
+    userId: string;
+    roleId: string;
+    roleName: string;
+    locked: boolean; // super users ignore overrides
+    overrides: UserPermissionOverride | null;
+    permissions: EffectivePermission[];
+}
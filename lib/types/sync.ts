@@ -0,0 +1,49 @@
+/**
+ * Content synchronization job types
+ */
+
+export type SyncJobType = "hotel" | "mapping" | "content" | "full";
+export type SyncJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface SyncJob {
+    id: string;
+    type: SyncJobType;
+    status: SyncJobStatus;
+    provider?: string;
+    startedAt: string;
+    completedAt?: string;
+    duration?: number; // seconds
+    itemsProcessed?: number;
+    itemsTotal?: number;
+    progress?: number; // 0-100
+    error?: string;
+    triggeredBy?: string;
+}
+
+export interface SyncStats {
+    totalSyncs: number;
+    successfulSyncs: number;
+    failedSyncs: number;
+    averageDuration: number; // seconds
+    lastSyncTime: string | null;
+    itemsSyncedToday: number;
+}
+
+export interface SyncJobListParams {
+    status?: SyncJobStatus;
+    type?: SyncJobType;
+    provider?: string;
+    limit?: number;
+}
+
+export interface SyncJobListResponse {
+    jobs: SyncJob[];
+    total: number;
+}
+
+export interface TriggerSyncRequest {
+    type: SyncJobType;
+    provider?: string;
+}
+
+export const ACTIVE_SYNC_STATUSES: SyncJobStatus[] = ["pending", "running"];
@@ -3,6 +3,7 @@
  */
 
 import { User, UserRole } from './auth';
+import type { PermissionOverrides } from './roles';
 
 export interface UserListItem extends User {
     lastLogin?: string;
@@ -81,6 +82,8 @@ export interface DetailedUserInfo {
         email: string;
         role: string;
     };
+    // Dashboard-side grants and denies on top of the role (loaded from the role matrix, not the backend)
+    permission_overrides?: PermissionOverrides | null;
 }
 
 export type AllocationType =
@@ -109,4 +112,46 @@ export interface ActionResponse<T = any> {
         message: string;
         details?: any;
     };
-}
\ No newline at end of file
+}
+
+// Actions the users table can run on several selected users at once
+export type BulkUserAction =
+    | 'allocate_points'
+    | 'activate_suppliers'
+    | 'deactivate_suppliers'
+    | 'toggle_status'
+    | 'reset_points'
+    | 'delete';
+
+export interface BulkUserActionOptions {
+    allocationType?: AllocationType;
+    suppliers?: string[];
+}
+
+export interface BulkUserResult {
+    userId: string;
+    username: string;
+    status: 'success' | 'failed';
+    message?: string;
+}
+
+export interface UserImportRow {
+    line: number;
+    username: string;
+    email: string;
+    role: UserRole | null;
+    points: number | null;
+    suppliers: string[];
+    businessId: string;
+    errors: string[];
+    warnings: string[];
+}
+
+export interface UserImportResult {
+    line: number;
+    username: string;
+    email: string;
+    status: 'created' | 'partial' | 'failed' | 'skipped';
+    userId?: string;
+    message?: string;
+}
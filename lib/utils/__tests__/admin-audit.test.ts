@@ -0,0 +1,56 @@
+import { buildAuditCsv, filterAuditEntries, parseAuditFilters, toAuditQuery } from "../admin-audit";
+import type { AdminAuditEntry } from "@/lib/types/admin-audit";
+
+function entry(overrides: Partial<AdminAuditEntry>): AdminAuditEntry {
+  return {
+    id: "audit_1",
+    actorId: "u_root",
+    actorName: "root",
+    action: "points.allocate",
+    targetType: "user",
+    targetId: "u_42",
+    targetName: "alice",
+    outcome: "success",
+    createdAt: "2026-03-10T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("admin audit helpers", () => {
+  const entries = [
+    entry({ id: "a" }),
+    entry({ id: "b", actorName: "admin2", actorId: "u_2", action: "user.delete", createdAt: "2026-03-12T08:00:00.000Z" }),
+    entry({ id: "c", action: "trial.approve", targetType: "trial_request", targetId: "t_9", targetName: "Acme Travel", createdAt: "2026-03-15T23:59:00.000Z" }),
+  ];
+  const ids = (list: AdminAuditEntry[]) => list.map((e) => e.id);
+
+  it("filters by actor, action, inclusive date range and search", () => {
+    expect(ids(filterAuditEntries(entries, { actor: "ROOT" }))).toEqual(["a", "c"]);
+    expect(ids(filterAuditEntries(entries, { action: "user.delete" }))).toEqual(["b"]);
+    expect(ids(filterAuditEntries(entries, { from: "2026-03-12", to: "2026-03-15" }))).toEqual(["b", "c"]);
+    expect(ids(filterAuditEntries(entries, { search: "acme" }))).toEqual(["c"]);
+    expect(ids(filterAuditEntries(entries, { search: "trial approved" }))).toEqual(["c"]);
+  });
+
+  it("round-trips filters through query parameters and ignores unknown actions", () => {
+    const query = toAuditQuery({ actor: "root", action: "user.delete", from: "2026-03-01" });
+    expect(query.toString()).toBe("actor=root&action=user.delete&from=2026-03-01");
+    expect(parseAuditFilters(query)).toEqual({ actor: "root", action: "user.delete", from: "2026-03-01" });
+    expect(parseAuditFilters(new URLSearchParams("action=drop_tables")).action).toBeUndefined();
+  });
+
+  it("exports CSV with quoted cells and JSON details", () => {
+    const csv = buildAuditCsv([entry({ targetName: 'Smith, "Al"', details: { suppliers: ["a", "b"] } })]);
+    const [header, row] = csv.trim().split("\r\n");
+
+    expect(header).toBe("Time,Actor,Actor ID,Action,Target Type,Target ID,Target,Outcome,Details");
+    expect(row).toContain('"Smith, ""Al"""');
+    expect(row).toContain('"{""suppliers"":[""a"",""b""]}"');
+  });
+
+  it("stops target names from running as spreadsheet formulas", () => {
+    const [, row] = buildAuditCsv([entry({ targetName: "=cmd|' /C calc'!A0" })]).trim().split("\r\n");
+
+    expect(row).toContain(",'=cmd|' /C calc'!A0,");
+  });
+});
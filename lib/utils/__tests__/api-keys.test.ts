@@ -0,0 +1,86 @@
+import {
+  checkApiKeyAccess,
+  getApiKeyStatus,
+  getRotationError,
+  validateCreateApiKey,
+} from "../api-keys";
+import type { ApiKeyRecord } from "@/lib/types/api-keys";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+function apiKey(overrides: Partial<ApiKeyRecord>): ApiKeyRecord {
+  return {
+    id: "k1",
+    userId: "u1",
+    name: "Booking engine",
+    prefix: "hita_abc123",
+    hash: "hash",
+    scopes: ["content:read"],
+    expiresAt: null,
+    createdBy: "root",
+    createdAt: "2026-05-01T10:00:00.000Z",
+    lastUsedAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe("getApiKeyStatus", () => {
+  it("reports active, expired and revoked keys", () => {
+    expect(getApiKeyStatus(apiKey({}), NOW)).toBe("active");
+    expect(getApiKeyStatus(apiKey({ expiresAt: "2026-05-31T00:00:00.000Z" }), NOW)).toBe("expired");
+    expect(getApiKeyStatus(apiKey({ revokedAt: "2026-05-20T00:00:00.000Z" }), NOW)).toBe("revoked");
+  });
+
+  it("keeps a rotated key working until its grace period ends", () => {
+    const rotated = apiKey({ replacedById: "k2", graceEndsAt: "2026-06-02T12:00:00.000Z" });
+
+    expect(getApiKeyStatus(rotated, NOW)).toBe("rotating");
+    expect(getApiKeyStatus(rotated, new Date("2026-06-03T00:00:00.000Z"))).toBe("expired");
+  });
+});
+
+describe("checkApiKeyAccess", () => {
+  it("accepts a usable key with the requested scope", () => {
+    expect(checkApiKeyAccess(apiKey({}), "content:read", NOW)).toMatchObject({ valid: true, userId: "u1" });
+    expect(checkApiKeyAccess(apiKey({}), undefined, NOW)).toMatchObject({ valid: true });
+  });
+
+  it("gives the reason a key is refused", () => {
+    expect(checkApiKeyAccess(apiKey({}), "exports", NOW)).toMatchObject({ valid: false, reason: "scope" });
+    expect(
+      checkApiKeyAccess(apiKey({ revokedAt: "2026-05-20T00:00:00.000Z" }), "content:read", NOW)
+    ).toMatchObject({ valid: false, reason: "revoked" });
+  });
+});
+
+describe("getRotationError", () => {
+  it("only rotates active keys", () => {
+    const rotated = apiKey({ replacedById: "k2", graceEndsAt: "2026-06-02T12:00:00.000Z" });
+
+    expect(getRotationError(rotated, 24, NOW)).toBe("Only active keys can be rotated");
+  });
+
+  it("rejects a negative grace period", () => {
+    expect(getRotationError(apiKey({}), -1, NOW)).toEqual(expect.any(String));
+    expect(getRotationError(apiKey({}), 0, NOW)).toBeNull();
+  });
+});
+
+describe("validateCreateApiKey", () => {
+  const existing = [apiKey({}), apiKey({ id: "k0", name: "Old", revokedAt: "2026-05-20T00:00:00.000Z" })];
+
+  it("rejects duplicate active names, missing scopes and out-of-range expiries", () => {
+    expect(
+      validateCreateApiKey({ name: "booking ENGINE", scopes: [], expiresInDays: 0 }, existing, NOW)
+    ).toEqual({
+      name: "An active key already has this name",
+      scopes: "Choose at least one scope",
+      expiresInDays: expect.any(String),
+    });
+  });
+
+  it("lets a revoked key's name be reused", () => {
+    expect(validateCreateApiKey({ name: "Old", scopes: ["exports"], expiresInDays: null }, existing, NOW)).toEqual({});
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  describeBulkAction,
+  getFailedUserIds,
+  mergeBulkResults,
+  runBulkUserAction,
+  validateBulkAction,
+} from "../bulk-user-actions";
+
+const users = [
+  { id: "u1", username: "alice" },
+  { id: "u2", username: "bob" },
+  { id: "u3", username: "carol" },
+];
+
+describe("bulk user action helpers", () => {
+  it("runs every row and records failures without stopping the batch", async () => {
+    const progress: number[] = [];
+    const results = await runBulkUserAction(
+      users,
+      async (user) => {
+        if (user.id === "u2") throw new Error("Network error");
+        if (user.id === "u3") return { success: false, error: { message: "User not found" } };
+        return { success: true };
+      },
+      (_, done) => progress.push(done)
+    );
+
+    expect(results.map((r) => r.status)).toEqual(["success", "failed", "failed"]);
+    expect(results[1].message).toBe("Network error");
+    expect(results[2].message).toBe("User not found");
+    expect(progress).toEqual([1, 2, 3]);
+    expect(getFailedUserIds(results)).toEqual(["u2", "u3"]);
+  });
+
+  it("merges retried rows back into the original order", () => {
+    const merged = mergeBulkResults(
+      [
+        { userId: "u1", username: "alice", status: "success" },
+        { userId: "u2", username: "bob", status: "failed", message: "Timeout" },
+        { userId: "u3", username: "carol", status: "failed", message: "Timeout" },
+      ],
+      [{ userId: "u3", username: "carol", status: "success" }]
+    );
+
+    expect(merged.map((r) => `${r.userId}:${r.status}`)).toEqual([
+      "u1:success",
+      "u2:failed",
+      "u3:success",
+    ]);
+  });
+
+  it("validates options and summarises the affected users", () => {
+    expect(validateBulkAction("allocate_points", {})).toBe("Choose an allocation type");
+    expect(validateBulkAction("activate_suppliers", { suppliers: [] })).toBe("Choose at least one supplier");
+    expect(validateBulkAction("delete", {})).toBeNull();
+
+    const many = Array.from({ length: 7 }, (_, i) => ({ id: `u${i}`, username: `user${i}` }));
+    expect(describeBulkAction("activate_suppliers", { suppliers: ["hotelbeds", "agoda"] }, users)).toBe(
+      "Activate hotelbeds, agoda for 3 users: alice, bob, carol."
+    );
+    expect(describeBulkAction("delete", {}, many)).toBe(
+      "Permanently delete 7 users: user0, user1, user2, user3, user4 and 2 more."
+    );
+  });
+});
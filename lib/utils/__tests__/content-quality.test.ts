@@ -0,0 +1,128 @@
+import {
+  aggregateContentQuality,
+  getContentQualityBand,
+  getContentQualityCoverage,
+  isContentQualityCheckKey,
+  scoreProviderContent,
+} from "../content-quality";
+import type { ContentQualityRecord, SupplierContentQuality } from "@/lib/types/content-quality";
+import type { ProviderFullDetails } from "@/lib/types/full-hotel-details";
+
+function record(overrides: Partial<ContentQualityRecord>): ContentQualityRecord {
+  return {
+    key: "hotelbeds|10000001",
+    supplier: "hotelbeds",
+    providerHotelId: "1",
+    ittid: "10000001",
+    hotelName: "Hotel",
+    countryCode: "ES",
+    score: 100,
+    missing: [],
+    scoredAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function summary(supplier: string, hotels: number): SupplierContentQuality {
+  return {
+    supplier,
+    hotels,
+    averageScore: 80,
+    lowestScore: 60,
+    poorHotels: 0,
+    missingCounts: {},
+    lastScoredAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("scoreProviderContent", () => {
+  const details = {
+    name: "Hotel Arts",
+    star_rating: "5",
+    property_type: "Hotel",
+    address: { full_address: "Carrer de la Marina 19", latitude: 0, longitude: 0 },
+    descriptions: [{ title: null, text: "  " }],
+    hotel_photo: [{ picture_id: 1, title: "", url: "https://example.com/1.jpg" }],
+    room_type: [],
+    facilities: [{ type: "", title: "Pool", icon: "" }],
+    policies: { checkin: { begin_time: "15:00" } },
+    contacts: { phone_numbers: [], email_address: [], website: ["https://example.com"] },
+  } as unknown as ProviderFullDetails;
+
+  it("treats placeholder coordinates, blank descriptions and no room types as missing", () => {
+    expect(scoreProviderContent(details).missing).toEqual(["coordinates", "descriptions", "roomTypes"]);
+  });
+
+  it("takes each missing check's weight off 100", () => {
+    const { score } = scoreProviderContent(details);
+
+    expect(score).toBe(60);
+    expect(getContentQualityBand(score)).toBe("fair");
+  });
+
+  it("scores a supplier with no content at all as 0", () => {
+    expect(scoreProviderContent(null).score).toBe(0);
+  });
+});
+
+describe("isContentQualityCheckKey", () => {
+  it("accepts check keys and rejects inherited object keys", () => {
+    expect(isContentQualityCheckKey("photos")).toBe(true);
+    expect(isContentQualityCheckKey("toString")).toBe(false);
+    expect(isContentQualityCheckKey("__proto__")).toBe(false);
+  });
+});
+
+describe("aggregateContentQuality", () => {
+  const summaries = aggregateContentQuality([
+    record({ score: 100 }),
+    record({ key: "hotelbeds|10000002", ittid: "10000002", score: 40, missing: ["photos", "descriptions"] }),
+    record({
+      key: "agoda|10000001",
+      supplier: "agoda",
+      score: 60,
+      missing: ["photos"],
+      scoredAt: "2026-02-01T00:00:00.000Z",
+    }),
+  ]);
+
+  it("lists the lowest average first", () => {
+    expect(summaries.map((item) => item.supplier)).toEqual(["agoda", "hotelbeds"]);
+  });
+
+  it("averages scores per supplier and counts the gaps", () => {
+    expect(summaries[1]).toEqual({
+      supplier: "hotelbeds",
+      hotels: 2,
+      averageScore: 70,
+      lowestScore: 40,
+      poorHotels: 1,
+      missingCounts: { photos: 1, descriptions: 1 },
+      lastScoredAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("getContentQualityCoverage", () => {
+  it("adds up scored hotels against the suppliers' hotel counts", () => {
+    const totals = new Map([
+      ["hotelbeds", 1000],
+      ["agoda", 500],
+    ]);
+
+    expect(getContentQualityCoverage([summary("HotelBeds", 20), summary("agoda", 5)], totals)).toEqual({
+      scored: 25,
+      total: 1500,
+    });
+  });
+
+  it("leaves out suppliers whose hotel count is unknown", () => {
+    const totals = new Map([["hotelbeds", 1000]]);
+
+    expect(getContentQualityCoverage([summary("hotelbeds", 20), summary("agoda", 5)], totals)).toEqual({
+      scored: 20,
+      total: 1000,
+    });
+    expect(getContentQualityCoverage([summary("agoda", 5)], totals)).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { escapeCsvCell, guardCsvFormula, parseCsv, toCsv } from "../csv";
+
+describe("csv", () => {
+  it("parses quoted cells and skips blank lines", () => {
+    expect(parseCsv('ittid,name\r\n1,"Hotel ""A"", Paris"\n\n2,B\n')).toEqual([
+      ["ittid", "name"],
+      ["1", 'Hotel "A", Paris'],
+      ["2", "B"],
+    ]);
+  });
+
+  it("quotes cells with commas, quotes or line breaks and writes objects as JSON", () => {
+    expect(escapeCsvCell('Hotel "A", Paris')).toBe('"Hotel ""A"", Paris"');
+    expect(escapeCsvCell({ reason: "typo" })).toBe('"{""reason"":""typo""}"');
+    expect(escapeCsvCell(null)).toBe("");
+  });
+
+  it("writes rows that read back the same", () => {
+    const rows = [
+      ["line", "message"],
+      ["2", "Email, already\nused"],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("prefixes text that a spreadsheet would run as a formula", () => {
+    expect(["=HYPERLINK(\"x\")", "+1", "-2+3", "@SUM(A1)", "\tcmd"].map(guardCsvFormula)).toEqual([
+      "'=HYPERLINK(\"x\")",
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tcmd",
+    ]);
+  });
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect([-5, 0, "Hotel - Paris", "a=b", null].map(guardCsvFormula)).toEqual([-5, 0, "Hotel - Paris", "a=b", null]);
+  });
+
+  it("guards cells in toCsv only, so escapeCsvCell keeps values exact", () => {
+    expect(toCsv([["=1+1", -3]])).toBe("'=1+1,-3\r\n");
+    expect(escapeCsvCell("=1+1")).toBe("=1+1");
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  buildDeltaFile,
+  checkComparableJobs,
+  diffExportRecords,
+  parseExportRecords,
+} from "../export-diff";
+import type { ExportDiffResult, ExportJob } from "@/lib/types/exports";
+
+const makeJob = (overrides: Partial<ExportJob> & { format?: string }): ExportJob => {
+  const { format = "json", ...rest } = overrides;
+  return {
+    jobId: "exp_1",
+    exportType: "hotel",
+    status: "completed",
+    progress: 100,
+    processedRecords: 10,
+    totalRecords: 10,
+    createdAt: new Date("2024-01-08T00:00:00Z"),
+    startedAt: null,
+    completedAt: null,
+    expiresAt: null,
+    estimatedCompletionTime: null,
+    errorMessage: null,
+    downloadUrl: null,
+    filters: { filters: {}, format } as any,
+    ...rest,
+  };
+};
+
+describe("export diffing", () => {
+  it("only compares completed exports of the same type and format", () => {
+    const base = makeJob({ jobId: "exp_1" });
+
+    expect(checkComparableJobs(base, makeJob({ jobId: "exp_2" }))).toBeNull();
+    expect(checkComparableJobs(base, base)).toMatch(/two different/);
+    expect(checkComparableJobs(base, makeJob({ jobId: "exp_2", status: "processing" }))).toMatch(/completed/);
+    expect(checkComparableJobs(base, makeJob({ jobId: "exp_2", exportType: "mapping" }))).toMatch(/same type/);
+    expect(checkComparableJobs(base, makeJob({ jobId: "exp_2", format: "csv" }))).toMatch(/same file format/);
+    expect(
+      checkComparableJobs(makeJob({ format: "parquet" }), makeJob({ jobId: "exp_2", format: "parquet" }))
+    ).toMatch(/can't be compared/);
+  });
+
+  it("parses CSV and wrapped JSON records", () => {
+    expect(parseExportRecords("ittid,name\n1,A", "csv")).toEqual([{ ittid: "1", name: "A" }]);
+    expect(parseExportRecords(JSON.stringify({ total: 1, hotels: [{ ittid: "1" }] }), "json")).toEqual([
+      { ittid: "1" },
+    ]);
+    expect(() => parseExportRecords("{bad", "json")).toThrow("File is not valid JSON");
+  });
+
+  it("flattens GeoJSON features into their properties", () => {
+    const collection = {
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", geometry: { type: "Point", coordinates: [2.35, 48.85] }, properties: { ittid: "1" } },
+      ],
+    };
+
+    expect(parseExportRecords(JSON.stringify(collection), "geojson")).toEqual([
+      { ittid: "1", coordinates: [2.35, 48.85] },
+    ]);
+  });
+
+  it("reports added, removed and changed ITTIDs", () => {
+    const { summary, entries } = diffExportRecords(
+      [
+        { ittid: "1", name: "A", rating: 4 },
+        { ittid: "2", name: "B", rating: 3 },
+        { ittid: "3", name: "C", rating: 5 },
+        { name: "no id" },
+      ],
+      [
+        { ittid: "1", name: "A", rating: 4 },
+        { ittid: "3", name: "C (renamed)", rating: 5 },
+        { ITTID: "4", name: "D", rating: 2 },
+      ]
+    );
+
+    expect(summary).toMatchObject({ added: 1, removed: 1, changed: 1, unchanged: 1, unkeyedRecords: 1 });
+    expect(summary.fieldChangeCounts).toEqual({ name: 1 });
+    expect(entries.map((entry) => [entry.changeType, entry.ittid, entry.changedFields])).toEqual([
+      ["added", "4", []],
+      ["removed", "2", []],
+      ["changed", "3", ["name"]],
+    ]);
+  });
+
+  it("ignores row order within an ITTID for mapping exports", () => {
+    const { summary } = diffExportRecords(
+      [
+        { ittid: "1", supplier: "hotelbeds", supplier_id: "10" },
+        { ittid: "1", supplier: "expedia", supplier_id: "20" },
+      ],
+      [
+        { ittid: "1", supplier: "expedia", supplier_id: "20" },
+        { ittid: "1", supplier: "hotelbeds", supplier_id: "10" },
+      ]
+    );
+
+    expect(summary.unchanged).toBe(1);
+    expect(summary.changed).toBe(0);
+  });
+
+  it("builds a CSV delta with the change type on each row", () => {
+    const { summary, entries } = diffExportRecords(
+      [{ ittid: "1", name: "A" }, { ittid: "2", name: "B" }],
+      [{ ittid: "2", name: "B, renamed" }, { ittid: "3", name: "C" }]
+    );
+    const result: ExportDiffResult = {
+      exportType: "hotel",
+      format: "csv",
+      baseJobId: "exp_1",
+      compareJobId: "exp_2",
+      summary,
+      entries,
+    };
+
+    const delta = buildDeltaFile(result);
+
+    expect(delta.extension).toBe("csv");
+    expect(delta.content.split("\r\n")).toEqual([
+      "change_type,changed_fields,ittid,name",
+      "added,,3,C",
+      "removed,,1,A",
+      'changed,name,2,"B, renamed"',
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  describeScheduleRule,
+  findInaccessibleSuppliers,
+  getNextRunTime,
+  getUpcomingRunTimes,
+  parseCronExpression,
+  validateScheduleRule,
+} from "../export-schedule";
+
+describe("export schedule rules", () => {
+  // Wednesday 2024-01-10 12:30 UTC
+  const now = new Date("2024-01-10T12:30:00Z");
+
+  describe("parseCronExpression", () => {
+    it("parses lists, ranges and steps", () => {
+      const cron = parseCronExpression("*/15 9-11 1,15 * 1-5");
+
+      expect(cron?.minutes).toEqual([0, 15, 30, 45]);
+      expect(cron?.hours).toEqual([9, 10, 11]);
+      expect(Array.from(cron!.daysOfMonth)).toEqual([1, 15]);
+      expect(Array.from(cron!.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("treats 7 as Sunday", () => {
+      expect(Array.from(parseCronExpression("0 0 * * 7")!.daysOfWeek)).toEqual([0]);
+    });
+
+    it("rejects malformed expressions", () => {
+      expect(parseCronExpression("0 0 * *")).toBeNull();
+      expect(parseCronExpression("60 0 * * *")).toBeNull();
+      expect(parseCronExpression("*/0 0 * * *")).toBeNull();
+      expect(parseCronExpression("5-1 0 * * *")).toBeNull();
+    });
+  });
+
+  describe("getNextRunTime", () => {
+    it("runs later the same day for daily rules", () => {
+      expect(getNextRunTime({ frequency: "daily", time: "18:00" }, now)?.toISOString()).toBe(
+        "2024-01-10T18:00:00.000Z",
+      );
+    });
+
+    it("rolls over to tomorrow once today's time has passed", () => {
+      expect(getNextRunTime({ frequency: "daily", time: "06:00" }, now)?.toISOString()).toBe(
+        "2024-01-11T06:00:00.000Z",
+      );
+    });
+
+    it("finds the next matching weekday", () => {
+      expect(
+        getNextRunTime({ frequency: "weekly", time: "06:00", dayOfWeek: 1 }, now)?.toISOString(),
+      ).toBe("2024-01-15T06:00:00.000Z");
+    });
+
+    it("moves monthly rules into the next month", () => {
+      expect(
+        getNextRunTime({ frequency: "monthly", time: "00:00", dayOfMonth: 5 }, now)?.toISOString(),
+      ).toBe("2024-02-05T00:00:00.000Z");
+    });
+
+    it("never returns the current minute", () => {
+      expect(getNextRunTime({ frequency: "daily", time: "12:30" }, now)?.toISOString()).toBe(
+        "2024-01-11T12:30:00.000Z",
+      );
+    });
+
+    it("matches either day field when both are restricted", () => {
+      // 13th of the month or any Friday, whichever comes first
+      expect(
+        getNextRunTime({ frequency: "cron", time: "", cron: "0 8 13 * 5" }, now)?.toISOString(),
+      ).toBe("2024-01-12T08:00:00.000Z");
+    });
+
+    it("requires both day fields when the day of month is a step over *", () => {
+      // Odd days of the month that are also Fridays
+      expect(
+        getNextRunTime({ frequency: "cron", time: "", cron: "0 8 */2 * 5" }, now)?.toISOString(),
+      ).toBe("2024-01-19T08:00:00.000Z");
+    });
+
+    it("returns null for dates that never occur", () => {
+      expect(getNextRunTime({ frequency: "cron", time: "", cron: "0 0 31 2 *" }, now)).toBeNull();
+    });
+  });
+
+  it("lists consecutive upcoming runs", () => {
+    const runs = getUpcomingRunTimes({ frequency: "cron", time: "", cron: "0 */12 * * *" }, now, 3);
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2024-01-11T00:00:00.000Z",
+      "2024-01-11T12:00:00.000Z",
+      "2024-01-12T00:00:00.000Z",
+    ]);
+  });
+
+  it("validates rules", () => {
+    expect(validateScheduleRule({ frequency: "weekly", time: "06:00", dayOfWeek: 1 })).toBeNull();
+    expect(validateScheduleRule({ frequency: "daily", time: "6am" })).toMatch(/HH:MM/);
+    expect(validateScheduleRule({ frequency: "monthly", time: "06:00", dayOfMonth: 31 })).toMatch(
+      /Day of month/,
+    );
+    expect(validateScheduleRule({ frequency: "cron", time: "", cron: "0 0 31 2 *" })).toMatch(
+      /never matches/,
+    );
+  });
+
+  it("describes rules", () => {
+    expect(describeScheduleRule({ frequency: "weekly", time: "06:00", dayOfWeek: 1 })).toBe(
+      "Every Monday at 06:00 UTC",
+    );
+  });
+
+  it("lists requested suppliers the owner can't export, ignoring case", () => {
+    expect(findInaccessibleSuppliers(["Hotelbeds", "agoda", "expedia"], ["hotelbeds", "Agoda"])).toEqual([
+      "expedia",
+    ]);
+    expect(findInaccessibleSuppliers(["hotelbeds"], [])).toEqual(["hotelbeds"]);
+  });
+});
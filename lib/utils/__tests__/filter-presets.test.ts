@@ -0,0 +1,111 @@
+import {
+  buildPresetFile,
+  canManagePreset,
+  canViewPreset,
+  checkPresetSharing,
+  parsePresetFile,
+  sortPresets,
+} from "../filter-presets";
+import { UserRole, type User } from "@/lib/types/auth";
+import type { FilterPreset } from "@/lib/types/exports";
+
+const makeUser = (id: string, role: UserRole): User => ({
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  role,
+  isActive: true,
+  createdAt: "2024-01-01T00:00:00Z",
+});
+
+const makePreset = (overrides: Partial<FilterPreset>): FilterPreset => ({
+  id: "preset_1",
+  name: "Preset",
+  exportType: "hotel",
+  filters: { filters: {}, format: "json" } as any,
+  visibility: "private",
+  isOfficial: false,
+  ownerId: "owner",
+  ownerName: "owner",
+  createdAt: "2024-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("filter preset rules", () => {
+  const owner = makeUser("owner", UserRole.GENERAL_USER);
+  const otherUser = makeUser("other", UserRole.GENERAL_USER);
+  const admin = makeUser("admin", UserRole.ADMIN_USER);
+
+  it("limits visibility by audience", () => {
+    const privatePreset = makePreset({ visibility: "private" });
+    const teamPreset = makePreset({ visibility: "team" });
+    const globalPreset = makePreset({ visibility: "global" });
+
+    expect(canViewPreset(owner, privatePreset)).toBe(true);
+    expect(canViewPreset(otherUser, privatePreset)).toBe(false);
+    expect(canViewPreset(admin, privatePreset)).toBe(false);
+
+    expect(canViewPreset(otherUser, teamPreset)).toBe(false);
+    expect(canViewPreset(admin, teamPreset)).toBe(true);
+
+    expect(canViewPreset(otherUser, globalPreset)).toBe(true);
+    expect(canViewPreset(null, globalPreset)).toBe(false);
+  });
+
+  it("lets owners manage their presets and admins manage official ones", () => {
+    const ownPreset = makePreset({ visibility: "global" });
+    const officialPreset = makePreset({ visibility: "global", isOfficial: true });
+
+    expect(canManagePreset(owner, ownPreset)).toBe(true);
+    expect(canManagePreset(admin, ownPreset)).toBe(false);
+    expect(canManagePreset(owner, officialPreset)).toBe(false);
+    expect(canManagePreset(admin, officialPreset)).toBe(true);
+  });
+
+  it("only lets admins share or publish presets", () => {
+    expect(checkPresetSharing(owner, "private", false)).toBeNull();
+    expect(checkPresetSharing(owner, "team", false)).toMatch(/only admins/i);
+    expect(checkPresetSharing(owner, "global", true)).toMatch(/only admins/i);
+
+    expect(checkPresetSharing(admin, "team", false)).toBeNull();
+    expect(checkPresetSharing(admin, "global", true)).toBeNull();
+    expect(checkPresetSharing(admin, "team", true)).toMatch(/everyone/);
+  });
+
+  it("sorts official presets first, then the user's own", () => {
+    const sorted = sortPresets(
+      [
+        makePreset({ id: "shared", name: "A shared", ownerId: "other", visibility: "global" }),
+        makePreset({ id: "mine", name: "Z mine" }),
+        makePreset({ id: "official", name: "M official", ownerId: "admin", isOfficial: true }),
+      ],
+      "owner"
+    );
+
+    expect(sorted.map((preset) => preset.id)).toEqual(["official", "mine", "shared"]);
+  });
+
+  it("round-trips presets through the JSON file format", () => {
+    const file = buildPresetFile(
+      [makePreset({ name: "Weekly US", visibility: "team" })],
+      new Date("2024-02-01T00:00:00Z")
+    );
+
+    expect(file.exportedAt).toBe("2024-02-01T00:00:00.000Z");
+    expect(file.presets[0]).not.toHaveProperty("ownerId");
+    expect(parsePresetFile(JSON.stringify(file))).toEqual(file.presets);
+  });
+
+  it("accepts the legacy browser storage array and rejects bad entries", () => {
+    const legacy = [{ id: "p1", name: " Old ", exportType: "mapping", filters: { filters: {} } }];
+
+    expect(parsePresetFile(legacy)).toEqual([
+      { name: "Old", exportType: "mapping", filters: { filters: {} }, visibility: "private" },
+    ]);
+    expect(() => parsePresetFile({})).toThrow("File does not contain any presets");
+    expect(() => parsePresetFile([{ name: "x", exportType: "rooms", filters: { filters: {} } }])).toThrow(
+      /Preset 1: export type/
+    );
+  });
+});
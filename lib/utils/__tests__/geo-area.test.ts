@@ -0,0 +1,96 @@
+import {
+  getAreaSearchCircle,
+  isPointInArea,
+  parseCoordinateList,
+  parseSearchArea,
+  serializeSearchArea,
+  validateSearchArea,
+} from "../geo-area";
+import type { SearchArea } from "@/lib/types/hotel";
+
+describe("serializeSearchArea", () => {
+  it("round-trips a bounding box through the URL form", () => {
+    const bbox: SearchArea = { kind: "bbox", south: 41.37, west: 2.15, north: 41.41, east: 2.2 };
+
+    expect(serializeSearchArea(bbox)).toBe("bbox:41.37,2.15,41.41,2.2");
+    expect(parseSearchArea(serializeSearchArea(bbox))).toEqual(bbox);
+  });
+
+  it("rounds polygon points to five decimals", () => {
+    const polygon: SearchArea = {
+      kind: "polygon",
+      points: [
+        { lat: 41.381234567, lng: 2.17 },
+        { lat: 41.4, lng: 2.17 },
+        { lat: 41.39, lng: 2.16 },
+      ],
+    };
+
+    expect(serializeSearchArea(polygon)).toBe("poly:41.38123,2.17;41.4,2.17;41.39,2.16");
+  });
+});
+
+describe("parseSearchArea", () => {
+  it("rejects inverted boxes, polygons with fewer than three points and unknown kinds", () => {
+    expect(parseSearchArea("bbox:41.41,2.15,41.37,2.2")).toBeNull();
+    expect(parseSearchArea("poly:41.38,2.17;41.4,2.17")).toBeNull();
+    expect(parseSearchArea("circle:1,2")).toBeNull();
+  });
+});
+
+describe("validateSearchArea", () => {
+  it("rejects areas that are too large to search", () => {
+    expect(validateSearchArea({ kind: "bbox", south: 40, west: 0, north: 44, east: 4 })).toMatch(/too large/);
+  });
+});
+
+describe("parseCoordinateList", () => {
+  it("reads one point per line, skipping blank lines", () => {
+    expect(parseCoordinateList("41.38, 2.17\n\n41.4 2.17")).toEqual([
+      { lat: 41.38, lng: 2.17 },
+      { lat: 41.4, lng: 2.17 },
+    ]);
+  });
+
+  it("rejects lines that aren't coordinates", () => {
+    expect(parseCoordinateList("41.38, 2.17\nnorth")).toBeNull();
+  });
+});
+
+describe("isPointInArea", () => {
+  // An L-shaped polygon: the notch at the top right is outside it
+  const area: SearchArea = {
+    kind: "polygon",
+    points: [
+      { lat: 0, lng: 0 },
+      { lat: 0.2, lng: 0 },
+      { lat: 0.2, lng: 0.1 },
+      { lat: 0.1, lng: 0.1 },
+      { lat: 0.1, lng: 0.2 },
+      { lat: 0, lng: 0.2 },
+    ],
+  };
+
+  it("keeps points inside both arms of a concave polygon", () => {
+    expect(isPointInArea({ lat: 0.05, lng: 0.15 }, area)).toBe(true);
+    expect(isPointInArea({ lat: 0.15, lng: 0.05 }, area)).toBe(true);
+  });
+
+  it("drops points in the polygon's notch", () => {
+    expect(isPointInArea({ lat: 0.15, lng: 0.15 }, area)).toBe(false);
+  });
+
+  it("checks bounding boxes", () => {
+    expect(isPointInArea({ lat: 0.05, lng: 0.05 }, { kind: "bbox", south: 0, west: 0, north: 0.1, east: 0.1 })).toBe(true);
+  });
+});
+
+describe("getAreaSearchCircle", () => {
+  it("covers the area from its centre", () => {
+    const circle = getAreaSearchCircle({ kind: "bbox", south: 0, west: 0, north: 0.2, east: 0.2 });
+
+    // Half the diagonal of a 0.2 degree square at the equator, about 15.7 km
+    expect(circle.center).toEqual({ lat: 0.1, lng: 0.1 });
+    expect(circle.radiusKm).toBe(15.8);
+  });
+});
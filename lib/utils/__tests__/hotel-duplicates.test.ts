@@ -0,0 +1,105 @@
+import {
+  buildDuplicateReviewsCsv,
+  findDuplicateCandidates,
+  getNameSimilarity,
+  toDuplicateCandidateHotels,
+} from "../hotel-duplicates";
+import type { DuplicateCandidateHotel, DuplicateReview } from "@/lib/types/hotel-duplicates";
+
+function hotel(overrides: Partial<DuplicateCandidateHotel>): DuplicateCandidateHotel {
+  return {
+    ittid: "10000000",
+    name: "Hotel",
+    suppliers: ["hotelbeds"],
+    giataCodes: [],
+    vervotechIds: [],
+    ...overrides,
+  };
+}
+
+function review(overrides: Partial<DuplicateReview>): DuplicateReview {
+  return {
+    key: "10000001|10000009",
+    ittidA: "10000001",
+    ittidB: "10000009",
+    nameA: "Arts",
+    nameB: "Arts Barcelona",
+    countryCode: "ES",
+    confidence: 0.92,
+    decision: "same",
+    note: "",
+    reviewedBy: "alice",
+    reviewedAt: "2026-10-19T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("getNameSimilarity", () => {
+  it("ignores generic words like 'Hotel'", () => {
+    expect(getNameSimilarity("Hotel Arts Barcelona", "Arts Barcelona")).toBe(1);
+  });
+
+  it("ignores accents", () => {
+    expect(getNameSimilarity("Hôtel Le Café", "Hotel Le Cafe")).toBe(1);
+  });
+});
+
+describe("findDuplicateCandidates", () => {
+  const candidates = findDuplicateCandidates([
+    hotel({ ittid: "10000001", name: "Hotel Arts Barcelona", latitude: 41.3866, longitude: 2.1963 }),
+    hotel({ ittid: "10000002", name: "Arts Barcelona", latitude: 41.3867, longitude: 2.1964 }),
+    // Same building name, far across town
+    hotel({ ittid: "10000003", name: "Arts Barcelona", latitude: 41.41, longitude: 2.13 }),
+    // Different name, but the same GIATA code and no coordinates
+    hotel({ ittid: "10000004", name: "H10 Casanova", giataCodes: ["5512"] }),
+    hotel({ ittid: "10000005", name: "Casanova by H10", giataCodes: ["5512"] }),
+    // Next door with a different name
+    hotel({ ittid: "10000006", name: "Mandarin Oriental", latitude: 41.3866, longitude: 2.1962 }),
+  ]);
+
+  it("pairs only nearby similar names and shared codes, most confident first", () => {
+    expect(candidates.map((candidate) => candidate.key)).toEqual(["10000001|10000002", "10000004|10000005"]);
+  });
+
+  it("is confident about a nearby pair with the same name", () => {
+    expect(candidates[0]).toMatchObject({ nameSimilarity: 1, sharedGiataCodes: [] });
+    expect(candidates[0].confidence).toBeGreaterThan(0.95);
+  });
+
+  it("pairs hotels without coordinates on a shared GIATA code", () => {
+    expect(candidates[1]).toMatchObject({ distanceKm: null, sharedGiataCodes: ["5512"] });
+  });
+});
+
+describe("toDuplicateCandidateHotels", () => {
+  const row = { name: "Arts", addr: "Marina 19", ptype: "Hotel", photo: "", star: 5, lat: 41.38, lon: 2.19, vervotech: "", giata: "77" };
+  const hotels = toDuplicateCandidateHotels([
+    { supplier: "hotelbeds", rows: [{ ...row, hotelbeds: ["10000001"] }] },
+    { supplier: "agoda", rows: [{ ...row, giata: "77,78", agoda: ["10000001", "10000009"] }] },
+  ]);
+
+  it("merges suppliers and codes for the same ITTID", () => {
+    expect(hotels).toHaveLength(2);
+    expect(hotels[0]).toMatchObject({ ittid: "10000001", suppliers: ["hotelbeds", "agoda"], giataCodes: ["77", "78"] });
+  });
+
+  it("adds every ITTID a supplier row maps to", () => {
+    expect(hotels[1]).toMatchObject({ ittid: "10000009", suppliers: ["agoda"] });
+  });
+});
+
+describe("buildDuplicateReviewsCsv", () => {
+  it("writes one quoted row per decision", () => {
+    const csv = buildDuplicateReviewsCsv([review({ nameB: 'Arts, "Marina"' })]);
+
+    expect(csv.split("\r\n")[1]).toBe('10000001,Arts,10000009,"Arts, ""Marina""",ES,0.92,same,,alice,2026-10-19T10:00:00.000Z');
+  });
+
+  it("stops hotel names and notes from running as spreadsheet formulas", () => {
+    const csv = buildDuplicateReviewsCsv([review({ nameA: "=HYPERLINK(\"http://x\")", note: "@SUM(A1)" })]);
+
+    expect(csv.split("\r\n")[1]).toBe(
+      `10000001,"'=HYPERLINK(""http://x"")",10000009,Arts Barcelona,ES,0.92,same,'@SUM(A1),alice,2026-10-19T10:00:00.000Z`
+    );
+  });
+});
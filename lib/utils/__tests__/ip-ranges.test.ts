@@ -0,0 +1,88 @@
+import {
+  findMatchingIpRules,
+  getIpRangeError,
+  parseBulkIpInput,
+  parseIpRange,
+} from "../ip-ranges";
+
+describe("parseIpRange", () => {
+  it("normalizes IPv4 addresses and ranges", () => {
+    expect(parseIpRange("10.0.0.0/8")).toMatchObject({ version: 4, prefix: 8, normalized: "10.0.0.0/8" });
+    expect(parseIpRange("203.0.113.7")?.normalized).toBe("203.0.113.7");
+  });
+
+  it("compresses IPv6 ranges and writes mapped IPv4 addresses in hex", () => {
+    expect(parseIpRange("2001:DB8:0:0::/32")?.normalized).toBe("2001:db8::/32");
+    expect(parseIpRange("::ffff:192.0.2.1")?.normalized).toBe("::ffff:c000:201");
+  });
+});
+
+describe("getIpRangeError", () => {
+  it("suggests the network address when host bits are set", () => {
+    expect(getIpRangeError("10.0.0.1/8")).toBe('"10.0.0.1/8" has host bits set; did you mean 10.0.0.0/8?');
+  });
+
+  it("rejects malformed addresses", () => {
+    expect(getIpRangeError("10.0.0.010")).toEqual(expect.stringContaining("not a valid IPv4"));
+    expect(getIpRangeError("2001:db8::1::2")).toEqual(expect.stringContaining("not a valid IPv6"));
+  });
+
+  it("rejects ranges that allow everything or have an impossible prefix", () => {
+    expect(getIpRangeError("0.0.0.0/0")).toEqual(expect.stringContaining("every IPv4 address"));
+    expect(getIpRangeError("10.0.0.0/33")).toBe("Prefix length must be between 1 and 32 for IPv4");
+  });
+});
+
+describe("parseBulkIpInput", () => {
+  const rows = parseBulkIpInput(
+    "10.1.0.0/16 Office VPN\n10.1.2.0/24, 192.168.0.1\n10.1.2.0/24\nnot-an-ip",
+    ["192.168.0.1", "10.0.0.0/8"],
+    "Partner"
+  );
+
+  it("reads a label after each address and falls back to the default one", () => {
+    expect(rows.map((row) => [row.input, row.label])).toEqual([
+      ["10.1.0.0/16", "Office VPN"],
+      ["10.1.2.0/24", "Partner"],
+      ["192.168.0.1", "Partner"],
+      ["10.1.2.0/24", "Partner"],
+      ["not-an-ip", "Partner"],
+    ]);
+  });
+
+  it("flags existing entries, repeats within the paste and invalid addresses", () => {
+    expect(rows.map((row) => [row.duplicate, row.error ?? null])).toEqual([
+      [false, null],
+      [false, null],
+      [true, null],
+      [false, "Listed more than once"],
+      [false, expect.any(String)],
+    ]);
+  });
+
+  it("lists the existing and pasted ranges an entry overlaps", () => {
+    expect(rows[1].overlaps).toEqual(["10.0.0.0/8", "10.1.0.0/16"]);
+  });
+});
+
+describe("findMatchingIpRules", () => {
+  const entries = [
+    { ipAddress: "10.0.0.0/8", details: { label: "Corporate", expiresAt: null } },
+    { ipAddress: "10.1.2.0/24", details: { label: "Old range", expiresAt: "2026-01-01T23:59:59.999Z" } },
+    { ipAddress: "2001:db8::/32" },
+  ];
+
+  it("lists the most specific rule first and marks expired ones", () => {
+    const matches = findMatchingIpRules("10.1.2.3", entries, new Date("2026-06-01T00:00:00.000Z"));
+
+    expect(matches.map((match) => [match.ipAddress, match.expired])).toEqual([
+      ["10.1.2.0/24", true],
+      ["10.0.0.0/8", false],
+    ]);
+  });
+
+  it("matches IPv6 addresses and returns nothing when no rule covers the address", () => {
+    expect(findMatchingIpRules("2001:db8::1", entries)).toHaveLength(1);
+    expect(findMatchingIpRules("192.0.2.1", entries)).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  ISSUE_ATTACHMENT_MAX_BYTES,
+  isImageAttachment,
+  matchesDeclaredType,
+  validateAttachmentFile,
+} from "../issue-attachments";
+
+describe("validateAttachmentFile", () => {
+  it("accepts supported files within the size limit", () => {
+    expect(validateAttachmentFile({ name: "log.txt", size: 120, type: "text/plain" })).toBeNull();
+  });
+
+  it("rejects unsupported types, empty files and oversized files", () => {
+    expect(validateAttachmentFile({ name: "run.exe", size: 10, type: "application/x-msdownload" })).toBe(
+      "run.exe: unsupported file type (application/x-msdownload)"
+    );
+    expect(validateAttachmentFile({ name: "empty.png", size: 0, type: "image/png" })).toBe("empty.png: file is empty");
+    expect(
+      validateAttachmentFile({ name: "big.pdf", size: ISSUE_ATTACHMENT_MAX_BYTES + 1, type: "application/pdf" })
+    ).toBe("big.pdf: exceeds the 10 MB limit");
+  });
+});
+
+describe("matchesDeclaredType", () => {
+  it("checks the magic bytes of binary types", () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+
+    expect(matchesDeclaredType(png, "image/png")).toBe(true);
+    expect(matchesDeclaredType(png, "image/jpeg")).toBe(false);
+    expect(matchesDeclaredType(new Uint8Array([0x4d, 0x5a]), "application/pdf")).toBe(false);
+  });
+
+  it("accepts any content for text types", () => {
+    expect(matchesDeclaredType(new Uint8Array([0x4d, 0x5a]), "text/csv")).toBe(true);
+  });
+});
+
+describe("isImageAttachment", () => {
+  it("only treats previewable image types as images", () => {
+    expect(isImageAttachment("image/webp")).toBe(true);
+    expect(isImageAttachment("application/pdf")).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { parseLegacyIssues } from "../issues";
+
+const owner = { id: "user-1", username: "alice" };
+const now = "2026-03-01T00:00:00.000Z";
+
+const legacyIssue = (overrides: Record<string, unknown> = {}) => ({
+  id: "issue_1700000000000_abc",
+  title: "Export fails",
+  description: "The CSV export stops halfway through.",
+  category: "bug",
+  priority: "high",
+  status: "resolved",
+  createdAt: "2024-01-02T03:04:05.000Z",
+  updatedAt: "2024-01-03T03:04:05.000Z",
+  userId: "user-1",
+  response: "Fixed in the next release",
+  respondedAt: "2024-01-03T03:04:05.000Z",
+  ...overrides,
+});
+
+describe("parseLegacyIssues", () => {
+  it("keeps the original dates, status and response", () => {
+    const [issue] = parseLegacyIssues([legacyIssue()], owner, now);
+
+    expect(issue).toMatchObject({
+      id: "issue_1700000000000_abc",
+      status: "resolved",
+      createdAt: "2024-01-02T03:04:05.000Z",
+      updatedAt: "2024-01-03T03:04:05.000Z",
+      userId: "user-1",
+      username: "alice",
+      response: "Fixed in the next release",
+    });
+  });
+
+  it("drops other users' issues and issues without a title or description", () => {
+    const issues = parseLegacyIssues(
+      [legacyIssue({ userId: "user-2" }), legacyIssue({ title: "  " }), legacyIssue({ description: undefined }), null],
+      owner,
+      now
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("falls back to defaults for unknown values and unreadable dates", () => {
+    const [issue] = parseLegacyIssues(
+      [legacyIssue({ category: "toString", priority: "urgent", status: "archived", createdAt: "soon", updatedAt: null })],
+      owner,
+      now
+    );
+
+    expect(issue).toMatchObject({ category: "other", priority: "medium", status: "open", createdAt: now, updatedAt: now });
+  });
+
+  it("lists old attachment names in the description", () => {
+    const [issue] = parseLegacyIssues([legacyIssue({ attachments: ["screenshot.png", 42] })], owner, now);
+
+    expect(issue.description).toBe(
+      "The CSV export stops halfway through.\n\nAttachments (not uploaded): screenshot.png"
+    );
+    expect(issue).not.toHaveProperty("attachments");
+  });
+
+  it("rejects content that isn't a list", () => {
+    expect(() => parseLegacyIssues({ issues: [] }, owner)).toThrow("Expected a list of issues");
+  });
+});
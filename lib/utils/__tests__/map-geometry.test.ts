@@ -0,0 +1,75 @@
+import {
+  buildTileUrl,
+  clusterMarkers,
+  getVisibleTiles,
+  getZoomForRadius,
+  project,
+  unproject,
+} from "../map-geometry";
+
+describe("project", () => {
+  it("puts the origin in the middle of the single zoom 0 tile", () => {
+    expect(project({ lat: 0, lng: 0 }, 0)).toEqual({ x: 128, y: 128 });
+  });
+
+  it("round-trips through unproject", () => {
+    const point = unproject(project({ lat: 51.5074, lng: -0.1278 }, 12), 12);
+
+    expect(point.lat).toBeCloseTo(51.5074, 6);
+    expect(point.lng).toBeCloseTo(-0.1278, 6);
+  });
+});
+
+describe("buildTileUrl", () => {
+  it("fills the zoom and tile coordinates", () => {
+    expect(buildTileUrl("http://localhost:8080/{z}/{x}/{y}.png", 3, 4, 2)).toBe("http://localhost:8080/3/4/2.png");
+  });
+
+  it("picks a subdomain from the tile coordinates", () => {
+    expect(buildTileUrl("https://{s}.tiles.test/{z}/{x}/{y}", 1, 1, 0)).toBe("https://b.tiles.test/1/1/0");
+  });
+});
+
+describe("getVisibleTiles", () => {
+  it("lists every tile the viewport overlaps with its offset", () => {
+    // At zoom 1 the world is 2x2 tiles; a 512px viewport on the origin shows all four
+    const tiles = getVisibleTiles({ lat: 0, lng: 0 }, 1, 512, 512, "{z}/{x}/{y}");
+
+    expect(tiles.map((tile) => [tile.url, tile.left, tile.top])).toEqual([
+      ["1/0/0", 0, 0],
+      ["1/1/0", 256, 0],
+      ["1/0/1", 0, 256],
+      ["1/1/1", 256, 256],
+    ]);
+  });
+});
+
+describe("clusterMarkers", () => {
+  it("groups markers within the cluster radius around their average position", () => {
+    const clusters = clusterMarkers(
+      [
+        { id: "a", x: 10, y: 10 },
+        { id: "b", x: 30, y: 20 },
+        { id: "c", x: 200, y: 200 },
+      ],
+      (item) => item,
+      48
+    );
+
+    expect(clusters).toEqual([
+      { x: 20, y: 15, items: [expect.objectContaining({ id: "a" }), expect.objectContaining({ id: "b" })] },
+      { x: 200, y: 200, items: [expect.objectContaining({ id: "c" })] },
+    ]);
+  });
+});
+
+describe("getZoomForRadius", () => {
+  it("fits the search radius in the viewport", () => {
+    // 20 km across at about 38 m per pixel
+    expect(getZoomForRadius(10, 0, 600, 19)).toBe(12);
+  });
+
+  it("never zooms in past the tile server's maximum", () => {
+    expect(getZoomForRadius(10, 0, 600, 8)).toBe(8);
+  });
+});
@@ -0,0 +1,20 @@
+import { canAccessPath, findMenuItemForPath } from "../menu-config";
+import { UserRole } from "@/lib/types/auth";
+
+describe("menu path access", () => {
+  it("matches the most specific menu item on segment boundaries", () => {
+    expect(findMenuItemForPath("/dashboard/users/42")?.id).toBe("users");
+    expect(findMenuItemForPath("/dashboard/admin/free-trials")?.id).toBe("waiting-users");
+    expect(findMenuItemForPath("/dashboard/usersettings")?.id).toBe("dashboard");
+    expect(findMenuItemForPath("/admin/permissions")?.id).toBe("admin-permissions");
+    expect(findMenuItemForPath("/pricing")).toBeNull();
+  });
+
+  it("gates paths by the menu's required roles", () => {
+    expect(canAccessPath("/dashboard/exports", UserRole.GENERAL_USER)).toBe(true);
+    expect(canAccessPath("/dashboard/users", UserRole.GENERAL_USER)).toBe(false);
+    expect(canAccessPath("/dashboard/users", UserRole.ADMIN_USER)).toBe(true);
+    expect(canAccessPath("/admin/users", UserRole.ADMIN_USER)).toBe(false);
+    expect(canAccessPath("/admin/users", UserRole.SUPER_USER)).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  evaluatePointBudget,
+  findEffectiveThreshold,
+  getTopUpAmount,
+  matchesTopUpRule,
+  validatePointThreshold,
+  validateTopUpRule,
+} from "../point-budgets";
+import { UserRole } from "@/lib/types/auth";
+import type { PointThreshold } from "@/lib/types/point-budgets";
+
+function threshold(overrides: Partial<PointThreshold>): PointThreshold {
+  return {
+    id: "t1",
+    scope: "role",
+    targetId: UserRole.GENERAL_USER,
+    threshold: 100,
+    createdBy: "root",
+    createdAt: "2026-05-01T10:00:00.000Z",
+    updatedAt: "2026-05-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const validRule = {
+  name: "Monthly refill",
+  roles: [UserRole.GENERAL_USER],
+  paidStatus: "paid" as const,
+  userIds: [],
+  targetBalance: 1000,
+  schedule: { frequency: "daily" as const, time: "00:00" },
+};
+
+describe("findEffectiveThreshold", () => {
+  const thresholds = [
+    threshold({ id: "role", threshold: 100 }),
+    threshold({ id: "user", scope: "user", targetId: "u1", threshold: 500 }),
+  ];
+
+  it("prefers a user's own threshold over their role's", () => {
+    expect(findEffectiveThreshold(thresholds, "u1", UserRole.GENERAL_USER)?.id).toBe("user");
+    expect(findEffectiveThreshold(thresholds, "u2", UserRole.GENERAL_USER)?.id).toBe("role");
+  });
+
+  it("returns null when neither the user nor their role has one", () => {
+    expect(findEffectiveThreshold(thresholds, "u3", UserRole.ADMIN_USER)).toBeNull();
+  });
+});
+
+describe("evaluatePointBudget", () => {
+  const applied = threshold({ id: "user", scope: "user", targetId: "u1", threshold: 500 });
+
+  it("reports a crossing for a user who hasn't been alerted", () => {
+    expect(evaluatePointBudget("u1", 499, applied)).toMatchObject({ low: true, crossed: true });
+  });
+
+  it("doesn't report the crossing again once the user has been alerted", () => {
+    const alert = {
+      userId: "u1",
+      thresholdId: "user",
+      threshold: 500,
+      balance: 499,
+      alertedAt: "2026-05-02T10:00:00.000Z",
+    };
+
+    expect(evaluatePointBudget("u1", 300, applied, alert)).toMatchObject({ low: true, crossed: false });
+  });
+
+  it("treats a balance at the threshold as not low", () => {
+    expect(evaluatePointBudget("u1", 500, applied)).toMatchObject({ low: false, crossed: false });
+  });
+});
+
+describe("matchesTopUpRule", () => {
+  const rule = { roles: [UserRole.GENERAL_USER], paidStatus: "paid" as const, userIds: [] };
+
+  it("matches on role and paid status", () => {
+    expect(matchesTopUpRule(rule, { id: "u1", role: UserRole.GENERAL_USER, paidStatus: "Paid" })).toBe(true);
+    expect(matchesTopUpRule(rule, { id: "u1", role: UserRole.GENERAL_USER, paidStatus: "Unpaid" })).toBe(false);
+    expect(matchesTopUpRule(rule, { id: "u1", role: UserRole.ADMIN_USER, paidStatus: "Paid" })).toBe(false);
+  });
+
+  it("only matches listed users when the rule lists any", () => {
+    expect(
+      matchesTopUpRule({ ...rule, userIds: ["u2"] }, { id: "u1", role: UserRole.GENERAL_USER, paidStatus: "Paid" })
+    ).toBe(false);
+  });
+});
+
+describe("getTopUpAmount", () => {
+  it("tops up only the shortfall", () => {
+    expect(getTopUpAmount(1000, 250)).toBe(750);
+    expect(getTopUpAmount(1000, 1200)).toBe(0);
+  });
+
+  it("refills a negative balance to the target", () => {
+    expect(getTopUpAmount(1000, -20)).toBe(1000);
+  });
+});
+
+describe("validatePointThreshold", () => {
+  it("accepts a role threshold for a known role", () => {
+    expect(validatePointThreshold({ scope: "role", targetId: UserRole.GENERAL_USER, threshold: 100 })).toEqual({});
+  });
+
+  it("rejects inherited object keys as roles", () => {
+    expect(validatePointThreshold({ scope: "role", targetId: "toString", threshold: 100 })).toEqual({
+      targetId: "Unknown role",
+    });
+  });
+});
+
+describe("validateTopUpRule", () => {
+  it("accepts a complete rule", () => {
+    expect(validateTopUpRule(validRule)).toEqual({});
+  });
+
+  it("reports each invalid field", () => {
+    expect(
+      validateTopUpRule({
+        name: " ",
+        roles: [],
+        paidStatus: "any",
+        userIds: [],
+        targetBalance: 0,
+        schedule: { frequency: "monthly", time: "00:00", dayOfMonth: 31 },
+      })
+    ).toEqual({
+      name: "Name is required",
+      targetBalance: "Target balance must be a positive whole number of points",
+      schedule: expect.any(String),
+    });
+  });
+
+  it("rejects inherited object keys as roles or paid statuses", () => {
+    expect(
+      validateTopUpRule({ ...validRule, roles: ["constructor" as UserRole], paidStatus: "toString" as any })
+    ).toEqual({
+      roles: "Roles must be known user roles",
+      paidStatus: "Paid status must be any, paid or unpaid",
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  buildPointsLedger,
+  getLedgerBalance,
+  getReversalError,
+  planLedgerEntries,
+  planReconciliation,
+  type PlannedLedgerEntry,
+} from "../points-ledger";
+import type { PointsLedgerEntry } from "@/lib/types/points-ledger";
+
+const actor = { id: "u_root", username: "root" };
+
+function save(planned: PlannedLedgerEntry[], existing: PointsLedgerEntry[]): PointsLedgerEntry[] {
+  return [
+    ...existing,
+    ...planned.map((entry, index) => ({
+      ...entry,
+      id: `e${existing.length + index + 1}`,
+      createdAt: "2026-05-01T10:00:00.000Z",
+    })),
+  ];
+}
+
+describe("planReconciliation", () => {
+  const base = { userId: "u1", actorId: actor.id, actorName: actor.username };
+
+  it("opens the ledger from the backend balance", () => {
+    expect(planReconciliation([], 40, base)).toMatchObject({ type: "opening", amount: 40 });
+  });
+
+  it("adjusts for points spent outside the dashboard", () => {
+    const entries = save(planLedgerEntries([], "u1", { type: "allocation", amount: 500 }, actor), []);
+
+    expect(planReconciliation(entries, 400, base)).toMatchObject({ type: "adjustment", amount: -100 });
+  });
+
+  it("plans nothing when the balances agree or the backend balance is unknown", () => {
+    const entries = save(planLedgerEntries([], "u1", { type: "allocation", amount: 500 }, actor), []);
+
+    expect(planReconciliation(entries, 500, base)).toBeNull();
+    expect(planReconciliation(entries, undefined, base)).toBeNull();
+  });
+});
+
+describe("planLedgerEntries", () => {
+  it("reconciles before an allocation", () => {
+    const planned = planLedgerEntries([], "u1", { type: "allocation", amount: 500, currentBalance: 40 }, actor);
+
+    expect(planned.map((e) => [e.type, e.amount])).toEqual([
+      ["opening", 40],
+      ["allocation", 500],
+    ]);
+  });
+
+  it("resets the reconciled balance to zero and keeps the reason", () => {
+    const entries = save(planLedgerEntries([], "u1", { type: "allocation", amount: 500 }, actor), []);
+    const planned = planLedgerEntries(entries, "u1", { type: "reset", reason: "Contract ended", currentBalance: 440 }, actor);
+
+    expect(getLedgerBalance(save(planned, entries))).toBe(0);
+    expect(planned[1]).toMatchObject({ type: "reset", amount: -440, reason: "Contract ended" });
+  });
+});
+
+describe("buildPointsLedger", () => {
+  let entries = save(
+    planLedgerEntries([], "u1", { type: "allocation", amount: 500, currentBalance: 40 }, actor),
+    []
+  );
+  // 100 points were spent on requests before the reset
+  entries = save(
+    planLedgerEntries(entries, "u1", { type: "reset", reason: "Contract ended", currentBalance: 440 }, actor),
+    entries
+  );
+  const ledger = buildPointsLedger("u1", entries);
+
+  it("lists entries newest first with running balances", () => {
+    expect(ledger.entries.map((e) => [e.type, e.amount, e.balance])).toEqual([
+      ["reset", -440, 0],
+      ["adjustment", -100, 440],
+      ["allocation", 500, 540],
+      ["opening", 40, 40],
+    ]);
+  });
+
+  it("totals credits and debits", () => {
+    expect(ledger.balance).toBe(0);
+    expect(ledger.totalCredits).toBe(540);
+    expect(ledger.totalDebits).toBe(540);
+  });
+
+  it("only marks unreversed allocations as reversible", () => {
+    expect(ledger.entries.map((e) => e.reversible)).toEqual([false, false, true, false]);
+    expect(
+      buildPointsLedger("u1", [{ ...entries[1], reversedById: "e9" }]).entries[0].reversible
+    ).toBe(false);
+  });
+});
+
+describe("getReversalError", () => {
+  const entries = save(planLedgerEntries([], "u1", { type: "allocation", amount: 500 }, actor), []);
+
+  it("allows reversing an allocation the balance still covers", () => {
+    expect(getReversalError(entries, "e1")).toBeNull();
+    expect(getReversalError(entries, "e1", 500)).toBeNull();
+  });
+
+  it("refuses when the balance no longer covers the allocation", () => {
+    expect(getReversalError(entries, "e1", 200)).toBe(
+      "Only 200 points remain, so the allocation of 500 can't be reversed"
+    );
+  });
+
+  it("refuses reversed allocations, other entry types and unknown entries", () => {
+    expect(getReversalError([{ ...entries[0], reversedById: "e2" }], "e1")).toBe(
+      "This allocation has already been reversed"
+    );
+    expect(getReversalError([{ ...entries[0], type: "reset", amount: -500 }], "e1")).toBe(
+      "Only allocations can be reversed"
+    );
+    expect(getReversalError(entries, "missing")).toBe("Ledger entry not found");
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  getMenuPreview,
+  getUserPermissionSummary,
+  isRoleNameTaken,
+  mergeRoles,
+  resolveUserRole,
+  validatePermissionOverrides,
+  validateRoleName,
+} from "../role-matrix";
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, Permission, hasPermission } from "../rbac";
+import { UserRole, type User } from "@/lib/types/auth";
+import type { RoleDefinition } from "@/lib/types/roles";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+function customRole(overrides: Partial<RoleDefinition> = {}): RoleDefinition {
+  return {
+    id: "role_support_agent",
+    name: "Support Agent",
+    description: "",
+    builtIn: false,
+    baseRole: UserRole.GENERAL_USER,
+    permissions: [Permission.VIEW_ALL_USERS],
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("role matrix", () => {
+  it("merges stored edits into built-in roles but keeps super user locked", () => {
+    const roles = mergeRoles(
+      [
+        { ...customRole(), id: UserRole.USER, permissions: [Permission.EXPORT_DATA] },
+        { ...customRole(), id: UserRole.SUPER_USER, permissions: [] },
+        customRole(),
+      ],
+      NOW,
+    );
+
+    expect(roles.map((role) => role.id)).toEqual([
+      UserRole.SUPER_USER,
+      UserRole.ADMIN_USER,
+      UserRole.USER,
+      UserRole.GENERAL_USER,
+      "role_support_agent",
+    ]);
+    expect(roles[0].permissions).toEqual(ALL_PERMISSIONS);
+    expect(roles[1].permissions).toEqual(DEFAULT_ROLE_PERMISSIONS[UserRole.ADMIN_USER]);
+    expect(roles[2].permissions).toEqual([Permission.EXPORT_DATA]);
+    expect(roles[2].builtIn).toBe(true);
+  });
+
+  it("validates names and detects clashes with existing roles", () => {
+    const roles = mergeRoles([customRole()], NOW);
+
+    expect(validateRoleName("  ")).toBe("Role name is required");
+    expect(validateRoleName("x".repeat(51))).toMatch(/50 characters/);
+    expect(validateRoleName("Auditor")).toBeNull();
+    expect(isRoleNameTaken("support agent", roles)).toBe(true);
+    expect(isRoleNameTaken("Support-Agent", roles)).toBe(true);
+    expect(isRoleNameTaken("Support Agent", roles, "role_support_agent")).toBe(false);
+    expect(isRoleNameTaken("Auditor", roles)).toBe(false);
+  });
+
+  it("resolves a user's assigned custom role before their built-in role", () => {
+    const matrix = {
+      roles: mergeRoles([customRole()], NOW),
+      assignments: [
+        {
+          userId: "u1",
+          username: "alice",
+          roleId: "role_support_agent",
+          assignedBy: "root",
+          assignedAt: NOW,
+        },
+      ],
+      overrides: [],
+    };
+
+    expect(resolveUserRole({ id: "u1", role: UserRole.USER }, matrix)?.id).toBe("role_support_agent");
+    expect(resolveUserRole({ id: "u2", role: UserRole.USER }, matrix)?.id).toBe(UserRole.USER);
+  });
+
+  it("previews permission-gated menu items for a custom role", () => {
+    const labels = (role: RoleDefinition) =>
+      getMenuPreview(role).flatMap((section) => section.items.map((item) => item.id));
+
+    expect(labels(customRole())).toContain("users");
+    expect(labels(customRole({ permissions: [] }))).not.toContain("users");
+  });
+
+  it("explains each permission as role, grant, deny or none", () => {
+    const matrix = {
+      roles: mergeRoles([], NOW),
+      assignments: [],
+      overrides: [
+        {
+          userId: "u1",
+          username: "alice",
+          granted: [Permission.EXPORT_DATA],
+          denied: [Permission.VIEW_DASHBOARD_STATS],
+          updatedBy: "root",
+          updatedAt: NOW,
+        },
+      ],
+    };
+    const sources = (id: string, role: UserRole) =>
+      Object.fromEntries(
+        getUserPermissionSummary({ id, role }, matrix)!.permissions.map((entry) => [entry.permission, entry.source]),
+      );
+
+    const alice = sources("u1", UserRole.GENERAL_USER);
+    expect(alice[Permission.EXPORT_DATA]).toBe("grant");
+    expect(alice[Permission.VIEW_DASHBOARD_STATS]).toBe("deny");
+    expect(alice[Permission.VIEW_ANALYTICS]).toBe("none");
+
+    // Super users ignore overrides
+    expect(sources("u1", UserRole.SUPER_USER)[Permission.VIEW_DASHBOARD_STATS]).toBe("role");
+  });
+
+  it("applies overrides in hasPermission and rejects conflicting overrides", () => {
+    const user: User = {
+      id: "u1",
+      username: "alice",
+      email: "alice@example.com",
+      role: UserRole.GENERAL_USER,
+      isActive: true,
+      createdAt: NOW,
+      permissionOverrides: { granted: [Permission.EXPORT_DATA], denied: [Permission.VIEW_DASHBOARD_STATS] },
+    };
+
+    expect(hasPermission(user, Permission.EXPORT_DATA)).toBe(true);
+    expect(hasPermission(user, Permission.VIEW_DASHBOARD_STATS)).toBe(false);
+    expect(hasPermission(user, Permission.VIEW_ANALYTICS)).toBe(false);
+
+    expect(validatePermissionOverrides([Permission.EXPORT_DATA], [])).toBeNull();
+    expect(validatePermissionOverrides([Permission.EXPORT_DATA], [Permission.EXPORT_DATA])).toMatch(/both/);
+    expect(validatePermissionOverrides(["fly"], [])).toMatch(/Unknown/);
+  });
+});
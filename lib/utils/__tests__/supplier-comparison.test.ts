@@ -0,0 +1,90 @@
+import { compareSupplierContent, normalizeComparisonText } from "../supplier-comparison";
+import type { ProviderFullDetails, ProviderMappingDetail } from "@/lib/types/full-hotel-details";
+
+function provider(id: number, name: string, details: Partial<ProviderFullDetails> | null): ProviderMappingDetail {
+  return {
+    id,
+    ittid: "10000001",
+    provider_name: name,
+    provider_id: `${id}`,
+    updated_at: "2026-01-01T00:00:00Z",
+    full_details: details as ProviderFullDetails | null,
+  };
+}
+
+function rowOf(comparison: ReturnType<typeof compareSupplierContent>, field: string) {
+  return comparison.rows.find((row) => row.field === field)!;
+}
+
+describe("normalizeComparisonText", () => {
+  it("ignores case and accents", () => {
+    expect(normalizeComparisonText("Hôtel Le Café")).toBe(normalizeComparisonText("hotel le cafe"));
+  });
+});
+
+describe("compareSupplierContent", () => {
+  describe("text fields", () => {
+    const comparison = compareSupplierContent([
+      provider(1, "hotelbeds", { name: "Hôtel Le Café", star_rating: "4", property_type: "Hotel" }),
+      provider(2, "agoda", { name: "hotel le cafe", star_rating: "4.0", property_type: "Apartment" }),
+      provider(3, "expedia", null),
+    ]);
+
+    it("keeps the suppliers in order", () => {
+      expect(comparison.suppliers).toEqual(["hotelbeds", "agoda", "expedia"]);
+    });
+
+    it("doesn't flag differences in case, accents or number formatting", () => {
+      expect(rowOf(comparison, "name").disagree).toBe(false);
+      expect(rowOf(comparison, "starRating").disagree).toBe(false);
+    });
+
+    it("flags real disagreements", () => {
+      expect(rowOf(comparison, "propertyType").disagree).toBe(true);
+    });
+
+    it("leaves a supplier without content empty and counts filled fields", () => {
+      expect(rowOf(comparison, "name").cells[2].text).toBeNull();
+      expect(comparison.filled).toEqual([3, 3, 0]);
+    });
+  });
+
+  describe("list fields", () => {
+    const comparison = compareSupplierContent([
+      provider(1, "hotelbeds", {
+        facilities: [{ title: "Pool" }, { title: "WiFi" }, { title: "Spa" }] as ProviderFullDetails["facilities"],
+        hotel_photo: [{}, {}] as ProviderFullDetails["hotel_photo"],
+        descriptions: [{ text: "A short one." }] as ProviderFullDetails["descriptions"],
+      }),
+      provider(2, "agoda", {
+        facilities: [{ title: "wifi" }, { title: "Pool" }] as ProviderFullDetails["facilities"],
+        hotel_photo: [{}, {}, {}] as ProviderFullDetails["hotel_photo"],
+        descriptions: [{ text: "A much longer description of the hotel." }] as ProviderFullDetails["descriptions"],
+      }),
+    ]);
+
+    it("marks the items every supplier lists", () => {
+      const facilities = rowOf(comparison, "facilities");
+
+      expect(facilities.disagree).toBe(true);
+      expect(facilities.cells[0].items).toEqual([
+        { label: "Pool", shared: true },
+        { label: "WiFi", shared: true },
+        { label: "Spa", shared: false },
+      ]);
+    });
+
+    it("marks the supplier with the most facilities or photos", () => {
+      expect(rowOf(comparison, "facilities").richest).toEqual([0]);
+      expect(rowOf(comparison, "photos").disagree).toBe(true);
+      expect(rowOf(comparison, "photos").richest).toEqual([1]);
+    });
+
+    it("compares descriptions by length", () => {
+      const descriptions = rowOf(comparison, "descriptions");
+
+      expect(descriptions.cells[0].count).toBe("A short one.".length);
+      expect(descriptions.richest).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { buildUserImportReportCsv, flagDuplicateUsers, flagRestrictedRoles, parseUserImportCsv } from "../user-import";
+import { UserRole } from "@/lib/types/auth";
+
+const suppliers = [
+  { id: "hotelbeds", name: "HotelBeds" },
+  { id: "booking", name: "Booking.com" },
+];
+
+describe("user import helpers", () => {
+  it("parses rows and flags bad emails, roles, points and unknown suppliers", () => {
+    const csv = [
+      "Username,Email,Role,Initial Points,Suppliers,business_id",
+      "alice,alice@example.com,,100,HotelBeds;booking.com,",
+      "bob,not-an-email,manager,-5,hotelbeds|acme,",
+      "carol,carol@example.com,admin,,,",
+    ].join("\n");
+
+    const { rows, error } = parseUserImportCsv(csv, suppliers);
+
+    expect(error).toBeUndefined();
+    expect(rows[0]).toMatchObject({
+      line: 2,
+      role: UserRole.GENERAL_USER,
+      points: 100,
+      suppliers: ["hotelbeds", "booking"],
+      errors: [],
+    });
+    expect(rows[1].errors).toEqual([
+      '"not-an-email" is not a valid email address',
+      'Unknown role "manager"',
+      'Points must be a whole number of 0 or more, got "-5"',
+      'Unknown supplier "acme"',
+    ]);
+    expect(rows[2].errors).toEqual(["Admin users need a business_id"]);
+  });
+
+  it("reads the user role as itself and rejects it, since only super, admin and general users can be created", () => {
+    const { rows } = parseUserImportCsv(
+      "username,email,role\nalice,alice@example.com,user\nbob,bob@example.com,constructor\n",
+      suppliers
+    );
+
+    expect(rows[0].role).toBe(UserRole.USER);
+    expect(rows[0].errors).toEqual(['Users with the "user" role can\'t be imported; use general_user']);
+    expect(rows[1].errors).toEqual(['Unknown role "constructor"']);
+  });
+
+  it("only lets super users import super users", () => {
+    const { rows } = parseUserImportCsv(
+      "username,email,role\nroot,root@example.com,super_user\nalice,alice@example.com,general\n",
+      suppliers
+    );
+
+    expect(flagRestrictedRoles(rows, UserRole.ADMIN_USER).map((row) => row.errors)).toEqual([
+      ["Only super users can import super users"],
+      [],
+    ]);
+    expect(flagRestrictedRoles(rows, UserRole.SUPER_USER).map((row) => row.errors)).toEqual([[], []]);
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(parseUserImportCsv("name,role\nalice,admin\n", suppliers).error).toBe(
+      "Missing required columns: username, email"
+    );
+  });
+
+  it("flags duplicates within the file and against existing accounts", () => {
+    const { rows } = parseUserImportCsv(
+      "username,email\nalice,alice@example.com\nALICE,other@example.com\ndave,Dave@Example.com\n",
+      suppliers
+    );
+
+    const flagged = flagDuplicateUsers(rows, {
+      usernames: new Set(),
+      emails: new Set(["dave@example.com"]),
+    });
+
+    expect(flagged.map((row) => row.errors)).toEqual([
+      [],
+      ["Username repeats line 2"],
+      ['Email "Dave@Example.com" already belongs to an account'],
+    ]);
+    expect(rows[1].errors).toEqual([]);
+  });
+
+  it("builds a results report", () => {
+    expect(
+      buildUserImportReportCsv([
+        { line: 2, username: "alice", email: "alice@example.com", status: "created", userId: "u1" },
+        { line: 3, username: "bob", email: "bob@example.com", status: "failed", message: "Email taken, try again" },
+      ])
+    ).toBe(
+      "line,username,email,status,user_id,message\r\n" +
+        "2,alice,alice@example.com,created,u1,\r\n" +
+        '3,bob,bob@example.com,failed,,"Email taken, try again"\r\n'
+    );
+  });
+
+  it("stops imported values from running as spreadsheet formulas in the report", () => {
+    expect(
+      buildUserImportReportCsv([
+        { line: 2, username: "+alice", email: "=alice@example.com", status: "failed", message: "-Invalid" },
+      ])
+    ).toContain("2,'+alice,'=alice@example.com,failed,,'-Invalid\r\n");
+  });
+});
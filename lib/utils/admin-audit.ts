@@ -0,0 +1,126 @@
+/**
+ * Admin audit log helpers
+ * Action labels, filtering and CSV export shared by the audit route and the audit page.
+ */
+
+import type {
+    AdminAuditAction,
+    AdminAuditEntry,
+    AdminAuditFilters,
+} from '@/lib/types/admin-audit';
+import { toCsv } from './csv';
+
+export const ADMIN_AUDIT_ACTION_LABELS: Record<AdminAuditAction, string> = {
+    'points.allocate': 'Points allocated',
+    'points.reset': 'Points reset',
+    'points.reverse': 'Allocation reversed',
+    'points.threshold': 'Point threshold changed',
+    'points.top_up_rule': 'Auto top-up rule changed',
+    'suppliers.activate': 'Suppliers activated',
+    'suppliers.deactivate': 'Suppliers deactivated',
+    'user.activate': 'User activation toggled',
+    'user.delete': 'User deleted',
+    'super_user.delete': 'Super user deleted',
+    'api_key.regenerate': 'API key regenerated',
+    'api_key.create': 'API key created',
+    'api_key.rotate': 'API key rotated',
+    'api_key.revoke': 'API key revoked',
+    'trial.approve': 'Trial approved',
+    'trial.reject': 'Trial rejected',
+    'trial.contact': 'Trial marked contacted',
+    'role.create': 'Role created',
+    'role.update': 'Role updated',
+    'role.delete': 'Role deleted',
+    'role.assign': 'Role assigned',
+    'permissions.override': 'Permission overrides changed',
+};
+
+export const ADMIN_AUDIT_ACTIONS = Object.keys(ADMIN_AUDIT_ACTION_LABELS) as AdminAuditAction[];
+
+export function isAdminAuditAction(value: unknown): value is AdminAuditAction {
+    return ADMIN_AUDIT_ACTIONS.includes(value as AdminAuditAction);
+}
+
+/**
+ * Read filters from query parameters (the audit list and CSV export take the same ones)
+ */
+export function parseAuditFilters(params: URLSearchParams): AdminAuditFilters {
+    const action = params.get('action');
+
+    return {
+        actor: params.get('actor') || undefined,
+        action: isAdminAuditAction(action) ? action : undefined,
+        from: params.get('from') || undefined,
+        to: params.get('to') || undefined,
+        search: params.get('search') || undefined,
+    };
+}
+
+/**
+ * Filters as query parameters, skipping empty ones
+ */
+export function toAuditQuery(filters: AdminAuditFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    (Object.keys(filters) as (keyof AdminAuditFilters)[]).forEach(key => {
+        const value = filters[key];
+        if (value) params.set(key, value);
+    });
+    return params;
+}
+
+/**
+ * Apply the audit page filters. Dates are whole UTC days, both ends inclusive;
+ * search matches the target, action label and details.
+ */
+export function filterAuditEntries(entries: AdminAuditEntry[], filters: AdminAuditFilters): AdminAuditEntry[] {
+    const actor = filters.actor?.trim().toLowerCase();
+    const search = filters.search?.trim().toLowerCase();
+
+    return entries.filter(entry => {
+        if (actor && entry.actorName.toLowerCase() !== actor && entry.actorId !== filters.actor?.trim()) {
+            return false;
+        }
+        if (filters.action && entry.action !== filters.action) {
+            return false;
+        }
+
+        const day = entry.createdAt.slice(0, 10);
+        if (filters.from && day < filters.from) return false;
+        if (filters.to && day > filters.to) return false;
+
+        if (search) {
+            const haystack = [
+                entry.targetId,
+                entry.targetName,
+                entry.actorName,
+                ADMIN_AUDIT_ACTION_LABELS[entry.action],
+                entry.details ? JSON.stringify(entry.details) : '',
+            ]
+                .join(' ')
+                .toLowerCase();
+            if (!haystack.includes(search)) return false;
+        }
+
+        return true;
+    });
+}
+
+/**
+ * One row per entry, details as JSON
+ */
+export function buildAuditCsv(entries: AdminAuditEntry[]): string {
+    const header = ['Time', 'Actor', 'Actor ID', 'Action', 'Target Type', 'Target ID', 'Target', 'Outcome', 'Details'];
+    const rows = entries.map(entry => [
+        entry.createdAt,
+        entry.actorName,
+        entry.actorId,
+        entry.action,
+        entry.targetType,
+        entry.targetId,
+        entry.targetName,
+        entry.outcome,
+        entry.details,
+    ]);
+
+    return toCsv([header, ...rows]);
+}
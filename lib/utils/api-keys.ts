@@ -0,0 +1,150 @@
+/**
+ * API key helpers
+ * Status, scope checks and validation shared by the API key routes and the key manager.
+ */
+
+import type {
+    ApiKeyRecord,
+    ApiKeyScope,
+    ApiKeyStatus,
+    ApiKeySummary,
+    CreateApiKeyInput,
+    VerifyApiKeyResult,
+} from '@/lib/types/api-keys';
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+    'content:read': 'Read-only content',
+    exports: 'Exports',
+};
+
+export const API_KEY_SCOPES = Object.keys(API_KEY_SCOPE_LABELS) as ApiKeyScope[];
+
+export const API_KEY_STATUS_LABELS: Record<ApiKeyStatus, string> = {
+    active: 'Active',
+    rotating: 'Rotating out',
+    expired: 'Expired',
+    revoked: 'Revoked',
+};
+
+// How long a rotated key keeps working; 0 revokes it straight away
+export const ROTATION_GRACE_OPTIONS = [
+    { hours: 0, label: 'Stop immediately' },
+    { hours: 1, label: '1 hour' },
+    { hours: 24, label: '24 hours' },
+    { hours: 24 * 7, label: '7 days' },
+];
+
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+export const MAX_API_KEYS_PER_USER = 10;
+export const MAX_ROTATION_GRACE_HOURS = 24 * 30;
+
+export function getApiKeyStatus(key: ApiKeyRecord | ApiKeySummary, now: Date = new Date()): ApiKeyStatus {
+    const time = now.getTime();
+
+    if (key.revokedAt) return 'revoked';
+    if (key.expiresAt && new Date(key.expiresAt).getTime() <= time) return 'expired';
+    if (key.graceEndsAt) {
+        return new Date(key.graceEndsAt).getTime() > time ? 'rotating' : 'expired';
+    }
+    return 'active';
+}
+
+export function toApiKeySummary(key: ApiKeyRecord, now: Date = new Date()): ApiKeySummary {
+    const { hash: _hash, ...summary } = key;
+    return { ...summary, status: getApiKeyStatus(key, now) };
+}
+
+/**
+ * Whether a key may be used right now, optionally for one scope
+ */
+export function checkApiKeyAccess(
+    key: ApiKeyRecord,
+    scope?: ApiKeyScope,
+    now: Date = new Date()
+): VerifyApiKeyResult {
+    const status = getApiKeyStatus(key, now);
+
+    if (status === 'revoked' || status === 'expired') {
+        return { valid: false, reason: status, keyId: key.id };
+    }
+    if (scope && !key.scopes.includes(scope)) {
+        return { valid: false, reason: 'scope', keyId: key.id };
+    }
+
+    return { valid: true, userId: key.userId, keyId: key.id, scopes: key.scopes };
+}
+
+/**
+ * Keys that can still be used count towards the per-user limit
+ */
+export function countUsableKeys(keys: ApiKeyRecord[], now: Date = new Date()): number {
+    return keys.filter(key => {
+        const status = getApiKeyStatus(key, now);
+        return status === 'active' || status === 'rotating';
+    }).length;
+}
+
+/**
+ * Validation errors for a new key, keyed by field
+ */
+export function validateCreateApiKey(
+    input: Partial<CreateApiKeyInput>,
+    existing: ApiKeyRecord[],
+    now: Date = new Date()
+): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const name = input.name?.trim() ?? '';
+
+    if (!name) {
+        errors.name = 'Name is required';
+    } else if (name.length > 60) {
+        errors.name = 'Name must be 60 characters or fewer';
+    } else if (
+        existing.some(
+            key => getApiKeyStatus(key, now) === 'active' && key.name.toLowerCase() === name.toLowerCase()
+        )
+    ) {
+        errors.name = 'An active key already has this name';
+    }
+
+    if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+        errors.scopes = 'Choose at least one scope';
+    } else if (input.scopes.some(scope => !API_KEY_SCOPES.includes(scope))) {
+        errors.scopes = 'Unknown scope';
+    }
+
+    if (
+        input.expiresInDays !== undefined &&
+        input.expiresInDays !== null &&
+        (!Number.isInteger(input.expiresInDays) ||
+            input.expiresInDays < 1 ||
+            input.expiresInDays > MAX_API_KEY_EXPIRY_DAYS)
+    ) {
+        errors.expiresInDays = `Expiry must be between 1 and ${MAX_API_KEY_EXPIRY_DAYS} days`;
+    }
+
+    if (countUsableKeys(existing, now) >= MAX_API_KEYS_PER_USER) {
+        errors.keys = `A user can have at most ${MAX_API_KEYS_PER_USER} usable keys`;
+    }
+
+    return errors;
+}
+
+/**
+ * Why a key can't be rotated, or null when it can
+ */
+export function getRotationError(key: ApiKeyRecord, graceHours: unknown, now: Date = new Date()): string | null {
+    if (getApiKeyStatus(key, now) !== 'active') {
+        return 'Only active keys can be rotated';
+    }
+    if (
+        typeof graceHours !== 'number' ||
+        !Number.isInteger(graceHours) ||
+        graceHours < 0 ||
+        graceHours > MAX_ROTATION_GRACE_HOURS
+    ) {
+        return `Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours`;
+    }
+
+    return null;
+}
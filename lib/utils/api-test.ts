@@ -4,31 +4,22 @@
  */
 
 import { config } from "../config";
-import { TokenStorage } from "../auth/token-storage";
+import { backendUrl } from "../api/backend-proxy";
 import { shouldLogApiErrors, getApiErrorMessage } from "./dev-mode-helper";
 
 export const testDashboardStatsAPI = async () => {
-    const url = `${config.api.url}/users/dashboard/statistics`;
-    console.log('🧪 Testing API endpoint:', url);
-
-    // Get authentication token
-    const token = TokenStorage.getToken();
-    console.log('🔐 Using token:', token ? `${token.substring(0, 20)}...` : 'None');
+    // The backend proxy adds the access token from the session cookie
+    const url = backendUrl('/users/dashboard/statistics');
+    console.log('🧪 Testing API endpoint:', `${config.api.url}/users/dashboard/statistics`);
 
     try {
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
         };
 
-        // Add authentication header if token exists
-        if (token) {
-            headers.Authorization = `Bearer ${token}`;
-        }
-
         const response = await fetch(url, {
             method: 'GET',
             headers,
-            mode: 'cors',
         });
 
         console.log('📡 Response status:', response.status);
@@ -0,0 +1,141 @@
+/**
+ * Bulk user action helpers
+ * Labels, confirmation summaries and the sequential runner used by the user table's bulk actions.
+ */
+
+import type {
+    BulkUserAction,
+    BulkUserActionOptions,
+    BulkUserResult,
+    UserListItem,
+} from '@/lib/types/user';
+
+type BulkTarget = Pick<UserListItem, 'id' | 'username'>;
+
+/** Per-user operation; resolves to an API-style result or throws */
+export type BulkUserRunner<T extends BulkTarget> = (
+    user: T
+) => Promise<{ success: boolean; error?: { message?: string } }>;
+
+export const BULK_USER_ACTION_LABELS: Record<BulkUserAction, string> = {
+    allocate_points: 'Allocate points',
+    activate_suppliers: 'Activate suppliers',
+    deactivate_suppliers: 'Deactivate suppliers',
+    toggle_status: 'Toggle active status',
+    reset_points: 'Reset points',
+    delete: 'Delete',
+};
+
+export const BULK_USER_ACTIONS = Object.keys(BULK_USER_ACTION_LABELS) as BulkUserAction[];
+
+const SUMMARY_NAME_LIMIT = 5;
+
+/**
+ * Returns a validation message for the chosen action, or null when it can run
+ */
+export function validateBulkAction(
+    action: BulkUserAction,
+    options: BulkUserActionOptions
+): string | null {
+    if (action === 'allocate_points' && !options.allocationType) {
+        return 'Choose an allocation type';
+    }
+    if (
+        (action === 'activate_suppliers' || action === 'deactivate_suppliers') &&
+        !options.suppliers?.length
+    ) {
+        return 'Choose at least one supplier';
+    }
+    return null;
+}
+
+/**
+ * Confirmation text naming the action, its options and the affected users
+ */
+export function describeBulkAction(
+    action: BulkUserAction,
+    options: BulkUserActionOptions,
+    users: BulkTarget[],
+    allocationLabel?: string
+): string {
+    const count = `${users.length} user${users.length === 1 ? '' : 's'}`;
+    const names = users.slice(0, SUMMARY_NAME_LIMIT).map((user) => user.username).join(', ');
+    const more = users.length > SUMMARY_NAME_LIMIT ? ` and ${users.length - SUMMARY_NAME_LIMIT} more` : '';
+    const suppliers = options.suppliers?.join(', ');
+
+    let summary: string;
+    switch (action) {
+        case 'allocate_points':
+            summary = `Allocate ${allocationLabel || options.allocationType} to ${count}`;
+            break;
+        case 'activate_suppliers':
+            summary = `Activate ${suppliers} for ${count}`;
+            break;
+        case 'deactivate_suppliers':
+            summary = `Deactivate ${suppliers} for ${count}`;
+            break;
+        case 'toggle_status':
+            summary = `Toggle the active status of ${count}`;
+            break;
+        case 'reset_points':
+            summary = `Reset the point balance of ${count} to zero`;
+            break;
+        case 'delete':
+            summary = `Permanently delete ${count}`;
+            break;
+    }
+
+    return `${summary}: ${names}${more}.`;
+}
+
+/**
+ * Runs the operation for each user in turn, so one failure never stops the batch
+ */
+export async function runBulkUserAction<T extends BulkTarget>(
+    users: T[],
+    runner: BulkUserRunner<T>,
+    onProgress?: (result: BulkUserResult, done: number) => void
+): Promise<BulkUserResult[]> {
+    const results: BulkUserResult[] = [];
+
+    for (const user of users) {
+        let result: BulkUserResult;
+        try {
+            const response = await runner(user);
+            result = response.success
+                ? { userId: user.id, username: user.username, status: 'success' }
+                : {
+                      userId: user.id,
+                      username: user.username,
+                      status: 'failed',
+                      message: response.error?.message || 'Request failed',
+                  };
+        } catch (error) {
+            result = {
+                userId: user.id,
+                username: user.username,
+                status: 'failed',
+                message: error instanceof Error ? error.message : 'Request failed',
+            };
+        }
+        results.push(result);
+        onProgress?.(result, results.length);
+    }
+
+    return results;
+}
+
+/**
+ * Replaces earlier rows with their retried outcome, keeping the original order
+ */
+export function mergeBulkResults(
+    previous: BulkUserResult[],
+    retried: BulkUserResult[]
+): BulkUserResult[] {
+    const byId = new Map(retried.map((result) => [result.userId, result]));
+    return previous.map((result) => byId.get(result.userId) ?? result);
+}
+
+export function getFailedUserIds(results: BulkUserResult[]): string[] {
+    return results.filter((result) => result.status === 'failed').map((result) => result.userId);
+}
@@ -0,0 +1,203 @@
+/**
+ * Content quality scoring
+ * Scores how complete a supplier's content for a hotel is, out of 100, and rolls
+ * scores up per supplier so we know whose content to chase.
+ */
+
+import type { FullHotelDetailsResponse, ProviderFullDetails } from '@/lib/types/full-hotel-details';
+import type {
+    ContentQualityBand,
+    ContentQualityCheckKey,
+    ContentQualityRecord,
+    ContentQualityScore,
+    SaveContentQualityInput,
+    SupplierContentQuality,
+} from '@/lib/types/content-quality';
+
+// Weights add up to 100
+export const CONTENT_QUALITY_CHECKS: Record<ContentQualityCheckKey, { label: string; weight: number }> = {
+    name: { label: 'Name', weight: 10 },
+    address: { label: 'Address', weight: 10 },
+    coordinates: { label: 'Coordinates', weight: 15 },
+    starRating: { label: 'Star rating', weight: 5 },
+    propertyType: { label: 'Property type', weight: 5 },
+    descriptions: { label: 'Descriptions', weight: 15 },
+    photos: { label: 'Photos', weight: 15 },
+    roomTypes: { label: 'Room types', weight: 10 },
+    facilities: { label: 'Facilities', weight: 5 },
+    policies: { label: 'Policies', weight: 5 },
+    contacts: { label: 'Contacts', weight: 5 },
+};
+
+export const CONTENT_QUALITY_BANDS: Record<ContentQualityBand, { label: string; min: number }> = {
+    good: { label: 'Good', min: 80 },
+    fair: { label: 'Fair', min: 50 },
+    poor: { label: 'Poor', min: 0 },
+};
+
+export function getContentQualityBand(score: number): ContentQualityBand {
+    if (score >= CONTENT_QUALITY_BANDS.good.min) return 'good';
+    if (score >= CONTENT_QUALITY_BANDS.fair.min) return 'fair';
+    return 'poor';
+}
+
+export function isContentQualityCheckKey(value: unknown): value is ContentQualityCheckKey {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONTENT_QUALITY_CHECKS, value);
+}
+
+/**
+ * Score from the checks a supplier fails
+ */
+export function getContentQualityScore(missing: ContentQualityCheckKey[]): number {
+    const lost = new Set(missing);
+    return Object.entries(CONTENT_QUALITY_CHECKS).reduce(
+        (score, [key, check]) => (lost.has(key as ContentQualityCheckKey) ? score - check.weight : score),
+        100
+    );
+}
+
+function hasText(value: string | null | undefined): boolean {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function hasCoordinates(latitude: unknown, longitude: unknown): boolean {
+    const lat = Number(latitude);
+    const lng = Number(longitude);
+    // 0,0 is a placeholder, not a hotel
+    return Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function hasPolicies(policies: ProviderFullDetails['policies'] | null | undefined): boolean {
+    if (!policies) return false;
+    const { checkin, checkout, child_and_extra_bed_policy: child } = policies;
+
+    return (
+        hasText(checkin?.begin_time) ||
+        hasText(checkout?.time) ||
+        hasText(checkin?.instructions) ||
+        (child != null && Object.values(child).some(value => value !== null && value !== '')) ||
+        [policies.know_before_you_go, policies.pets, policies.remark].some(value => value != null && value !== '')
+    );
+}
+
+function runChecks(details: ProviderFullDetails): Record<ContentQualityCheckKey, boolean> {
+    const address = details.address;
+    const contacts = details.contacts;
+
+    return {
+        name: hasText(details.name),
+        address: hasText(address?.full_address) || hasText(address?.address_line_1),
+        coordinates: hasCoordinates(address?.latitude, address?.longitude),
+        starRating: parseFloat(details.star_rating ?? '') > 0,
+        propertyType: hasText(details.property_type),
+        descriptions: (details.descriptions ?? []).some(description => hasText(description.text)),
+        photos: (details.hotel_photo ?? []).some(photo => hasText(photo.url)),
+        roomTypes: (details.room_type ?? []).length > 0,
+        facilities: (details.facilities ?? []).length > 0,
+        policies: hasPolicies(details.policies),
+        contacts: [contacts?.phone_numbers, contacts?.email_address, contacts?.website].some(
+            list => (list ?? []).some(hasText)
+        ),
+    };
+}
+
+/**
+ * Score one supplier's content for a hotel. No content at all scores 0.
+ */
+export function scoreProviderContent(details: ProviderFullDetails | null): ContentQualityScore {
+    const results = details ? runChecks(details) : null;
+    const checks = (Object.keys(CONTENT_QUALITY_CHECKS) as ContentQualityCheckKey[]).map(key => ({
+        key,
+        ...CONTENT_QUALITY_CHECKS[key],
+        passed: results ? results[key] : false,
+    }));
+    const missing = checks.filter(check => !check.passed).map(check => check.key);
+
+    return { score: getContentQualityScore(missing), checks, missing };
+}
+
+/**
+ * The scores to record for every supplier mapped to a hotel. Suppliers mapped
+ * without any content are recorded too, with everything missing.
+ */
+export function buildContentQualityInput(hotel: FullHotelDetailsResponse): SaveContentQualityInput | null {
+    const mappings = hotel.provider_mappings ?? [];
+    if (!hotel.hotel?.ittid || mappings.length === 0) return null;
+
+    const countryCode =
+        hotel.locations?.[0]?.country_code ||
+        mappings.find(mapping => mapping.full_details?.country_code)?.full_details?.country_code ||
+        '';
+
+    return {
+        ittid: hotel.hotel.ittid,
+        hotelName: hotel.hotel.name ?? '',
+        countryCode,
+        suppliers: mappings.map(mapping => ({
+            supplier: mapping.provider_name,
+            providerHotelId: mapping.provider_id,
+            missing: scoreProviderContent(mapping.full_details).missing,
+        })),
+    };
+}
+
+/**
+ * Roll hotel scores up per supplier, lowest average first
+ */
+export function aggregateContentQuality(records: ContentQualityRecord[]): SupplierContentQuality[] {
+    const bySupplier = new Map<string, ContentQualityRecord[]>();
+    for (const record of records) {
+        const list = bySupplier.get(record.supplier);
+        if (list) list.push(record);
+        else bySupplier.set(record.supplier, [record]);
+    }
+
+    return Array.from(bySupplier, ([supplier, list]) => {
+        const missingCounts: SupplierContentQuality['missingCounts'] = {};
+        let total = 0;
+        let lowestScore = 100;
+        let poorHotels = 0;
+        let lastScoredAt = '';
+
+        for (const record of list) {
+            total += record.score;
+            lowestScore = Math.min(lowestScore, record.score);
+            if (getContentQualityBand(record.score) === 'poor') poorHotels++;
+            if (record.scoredAt > lastScoredAt) lastScoredAt = record.scoredAt;
+            for (const key of record.missing) {
+                missingCounts[key] = (missingCounts[key] ?? 0) + 1;
+            }
+        }
+
+        return {
+            supplier,
+            hotels: list.length,
+            averageScore: Math.round(total / list.length),
+            lowestScore,
+            poorHotels,
+            missingCounts,
+            lastScoredAt,
+        };
+    }).sort((a, b) => a.averageScore - b.averageScore || a.supplier.localeCompare(b.supplier));
+}
+
+/**
+ * How many of the suppliers' hotels have been scored, given each supplier's hotel count keyed by
+ * lower-case name. Suppliers without a known count are left out of both sides; null when none are known.
+ */
+export function getContentQualityCoverage(
+    summaries: SupplierContentQuality[],
+    totalHotels: Map<string, number>
+): { scored: number; total: number } | null {
+    let scored = 0;
+    let total = 0;
+
+    for (const summary of summaries) {
+        const supplierTotal = totalHotels.get(summary.supplier.toLowerCase());
+        if (!supplierTotal) continue;
+        scored += Math.min(summary.hotels, supplierTotal);
+        total += supplierTotal;
+    }
+
+    return total > 0 ? { scored, total } : null;
+}
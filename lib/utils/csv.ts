@@ -0,0 +1,80 @@
+/**
+ * CSV reading and writing shared by the import pages, report downloads and export comparison
+ */
+
+// Leading characters that make a spreadsheet read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+/**
+ * Quote a cell when it contains a comma, quote or line break. Objects are written as JSON.
+ */
+export function escapeCsvCell(value: unknown): string {
+    const text = value === null || value === undefined
+        ? ''
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prefix text a spreadsheet would run as a formula with a quote, so it is shown as text.
+ * Numbers are left alone so negative values stay numeric.
+ */
+export function guardCsvFormula(value: unknown): unknown {
+    return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Join rows into a report meant to be opened in a spreadsheet, with CRLF line endings.
+ * Text cells are guarded against formula injection, so don't use this where values must round-trip.
+ */
+export function toCsv(rows: unknown[][]): string {
+    const lines = rows.map(row => row.map(cell => escapeCsvCell(guardCsvFormula(cell))).join(','));
+    return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,305 @@
+/**
+ * Export job comparison
+ * Diffs two completed exports of the same type by ITTID and builds a delta file.
+ * Runs entirely in the browser on the downloaded files; only text formats can be compared.
+ */
+
+import type {
+    ExportDiffEntry,
+    ExportDiffResult,
+    ExportDiffSummary,
+    ExportFormat,
+    ExportJob,
+} from '@/lib/types/exports';
+import { escapeCsvCell, parseCsv } from './csv';
+
+// Binary formats (excel, parquet) can't be parsed client-side
+export const DIFFABLE_FORMATS: ExportFormat[] = ['json', 'csv', 'ndjson', 'geojson'];
+
+// Array properties checked, in order, when a JSON export wraps its records in an object
+const RECORD_CONTAINER_KEYS = ['data', 'records', 'hotels', 'mappings', 'items', 'results', 'features'];
+
+type ExportRecord = Record<string, unknown>;
+
+/**
+ * Check whether two jobs can be compared. Returns an error message, or null when they can.
+ */
+export function checkComparableJobs(base: ExportJob, compare: ExportJob): string | null {
+    if (base.jobId === compare.jobId) {
+        return 'Choose two different exports';
+    }
+
+    if (base.status !== 'completed' || compare.status !== 'completed') {
+        return 'Both exports must be completed';
+    }
+
+    if (base.exportType !== compare.exportType) {
+        return 'Both exports must be the same type';
+    }
+
+    if (base.filters.format !== compare.filters.format) {
+        return 'Both exports must use the same file format';
+    }
+
+    if (!DIFFABLE_FORMATS.includes(base.filters.format)) {
+        return `${base.filters.format.toUpperCase()} exports can't be compared. Use JSON, CSV, NDJSON or GeoJSON.`;
+    }
+
+    return null;
+}
+
+/**
+ * Flatten a GeoJSON feature into its properties plus coordinates
+ */
+function flattenFeature(record: ExportRecord): ExportRecord {
+    if (record.type !== 'Feature' || !record.properties || typeof record.properties !== 'object') {
+        return record;
+    }
+
+    const geometry = record.geometry as { coordinates?: unknown } | null | undefined;
+    return { ...(record.properties as ExportRecord), coordinates: geometry?.coordinates ?? null };
+}
+
+function isRecord(value: unknown): value is ExportRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse the contents of an export file into records
+ * @throws Error when the file can't be read as the given format
+ */
+export function parseExportRecords(content: string, format: ExportFormat): ExportRecord[] {
+    if (format === 'csv') {
+        const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+        if (!header) return [];
+
+        return rows.map(cells =>
+            Object.fromEntries(header.map((column, index) => [column, cells[index] ?? '']))
+        );
+    }
+
+    if (format === 'ndjson') {
+        return content
+            .split(/\r?\n/)
+            .filter(line => line.trim() !== '')
+            .map((line, index) => {
+                try {
+                    return JSON.parse(line);
+                } catch {
+                    throw new Error(`Line ${index + 1} is not valid JSON`);
+                }
+            })
+            .filter(isRecord);
+    }
+
+    if (format === 'json' || format === 'geojson') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            throw new Error('File is not valid JSON');
+        }
+
+        let records: unknown = parsed;
+        if (isRecord(parsed)) {
+            const key = RECORD_CONTAINER_KEYS.find(candidate => Array.isArray(parsed[candidate]));
+            records = key ? parsed[key] : [parsed];
+        }
+
+        if (!Array.isArray(records)) {
+            throw new Error('File does not contain a list of records');
+        }
+
+        return records.filter(isRecord).map(flattenFeature);
+    }
+
+    throw new Error(`${format.toUpperCase()} exports can't be compared`);
+}
+
+/**
+ * Get a record's ITTID, matching the field name case-insensitively
+ */
+export function getRecordIttid(record: ExportRecord): string | null {
+    const key = Object.keys(record).find(name => name.toLowerCase() === 'ittid');
+    const value = key ? record[key] : null;
+
+    if (value === null || value === undefined || value === '') return null;
+    return String(value);
+}
+
+/**
+ * JSON with sorted object keys, so equal values always serialize the same way
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (isRecord(value)) {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+function groupByIttid(records: ExportRecord[]): { groups: Map<string, ExportRecord[]>; unkeyed: number } {
+    const groups = new Map<string, ExportRecord[]>();
+    let unkeyed = 0;
+
+    for (const record of records) {
+        const ittid = getRecordIttid(record);
+        if (!ittid) {
+            unkeyed++;
+            continue;
+        }
+
+        const group = groups.get(ittid);
+        if (group) {
+            group.push(record);
+        } else {
+            groups.set(ittid, [record]);
+        }
+    }
+
+    return { groups, unkeyed };
+}
+
+/**
+ * Fields whose values differ between two groups of rows.
+ * Each field is compared as the sorted list of its values across the rows, so a mapping
+ * export's rows for one ITTID can come back in any order.
+ */
+function getChangedFields(before: ExportRecord[], after: ExportRecord[]): string[] {
+    const fields = new Set<string>();
+    [...before, ...after].forEach(row => Object.keys(row).forEach(field => fields.add(field)));
+
+    const fieldValues = (rows: ExportRecord[], field: string) =>
+        rows.map(row => stableStringify(row[field])).sort().join('\n');
+
+    return Array.from(fields)
+        .filter(field => fieldValues(before, field) !== fieldValues(after, field))
+        .sort();
+}
+
+/**
+ * Diff two exports' records by ITTID.
+ * Entries are ordered added, removed, then changed, each by ITTID.
+ */
+export function diffExportRecords(
+    baseRecords: ExportRecord[],
+    compareRecords: ExportRecord[]
+): { summary: ExportDiffSummary; entries: ExportDiffEntry[] } {
+    const base = groupByIttid(baseRecords);
+    const compare = groupByIttid(compareRecords);
+
+    const added: ExportDiffEntry[] = [];
+    const removed: ExportDiffEntry[] = [];
+    const changed: ExportDiffEntry[] = [];
+    const fieldChangeCounts: Record<string, number> = {};
+    let unchanged = 0;
+
+    for (const [ittid, after] of compare.groups) {
+        const before = base.groups.get(ittid);
+
+        if (!before) {
+            added.push({ ittid, changeType: 'added', changedFields: [], before: [], after });
+            continue;
+        }
+
+        const changedFields = getChangedFields(before, after);
+        if (changedFields.length === 0) {
+            unchanged++;
+            continue;
+        }
+
+        changedFields.forEach(field => {
+            fieldChangeCounts[field] = (fieldChangeCounts[field] || 0) + 1;
+        });
+        changed.push({ ittid, changeType: 'changed', changedFields, before, after });
+    }
+
+    for (const [ittid, before] of base.groups) {
+        if (!compare.groups.has(ittid)) {
+            removed.push({ ittid, changeType: 'removed', changedFields: [], before, after: [] });
+        }
+    }
+
+    const byIttid = (a: ExportDiffEntry, b: ExportDiffEntry) =>
+        a.ittid.localeCompare(b.ittid, undefined, { numeric: true });
+
+    return {
+        summary: {
+            baseRecords: baseRecords.length,
+            compareRecords: compareRecords.length,
+            added: added.length,
+            removed: removed.length,
+            changed: changed.length,
+            unchanged,
+            unkeyedRecords: base.unkeyed + compare.unkeyed,
+            fieldChangeCounts,
+        },
+        entries: [...added.sort(byIttid), ...removed.sort(byIttid), ...changed.sort(byIttid)],
+    };
+}
+
+/**
+ * Build the delta file for a comparison, in the same format family as the compared exports:
+ * CSV gets one row per changed row, NDJSON one line per entry, JSON/GeoJSON a single document.
+ */
+export function buildDeltaFile(
+    result: ExportDiffResult,
+    generatedAt: Date = new Date()
+): { content: string; mimeType: string; extension: string } {
+    if (result.format === 'csv') {
+        const columns: string[] = [];
+        result.entries.forEach(entry => {
+            [...entry.before, ...entry.after].forEach(row => {
+                Object.keys(row).forEach(column => {
+                    if (!columns.includes(column)) columns.push(column);
+                });
+            });
+        });
+
+        const header = ['change_type', 'changed_fields', ...columns];
+        const lines = [header.map(escapeCsvCell).join(',')];
+
+        result.entries.forEach(entry => {
+            // Removed rows show what was dropped; added and changed rows show the new values
+            const rows = entry.changeType === 'removed' ? entry.before : entry.after;
+            rows.forEach(row => {
+                lines.push([
+                    entry.changeType,
+                    entry.changedFields.join(';'),
+                    ...columns.map(column => row[column]),
+                ].map(escapeCsvCell).join(','));
+            });
+        });
+
+        return { content: lines.join('\r\n') + '\r\n', mimeType: 'text/csv', extension: 'csv' };
+    }
+
+    if (result.format === 'ndjson') {
+        const content = result.entries.map(entry => JSON.stringify(entry)).join('\n');
+        return { content: content ? `${content}\n` : '', mimeType: 'application/x-ndjson', extension: 'ndjson' };
+    }
+
+    const entriesOfType = (changeType: ExportDiffEntry['changeType']) =>
+        result.entries.filter(entry => entry.changeType === changeType);
+
+    const content = JSON.stringify({
+        version: 1,
+        exportType: result.exportType,
+        baseJobId: result.baseJobId,
+        compareJobId: result.compareJobId,
+        generatedAt: generatedAt.toISOString(),
+        summary: result.summary,
+        added: entriesOfType('added').map(({ ittid, after }) => ({ ittid, records: after })),
+        removed: entriesOfType('removed').map(({ ittid, before }) => ({ ittid, records: before })),
+        changed: entriesOfType('changed').map(({ ittid, changedFields, before, after }) => ({
+            ittid,
+            changedFields,
+            before,
+            after,
+        })),
+    }, null, 2);
+
+    return { content, mimeType: 'application/json', extension: 'json' };
+}
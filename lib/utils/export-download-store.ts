@@ -0,0 +1,162 @@
+/**
+ * IndexedDB store for partially downloaded export files
+ *
+ * Export downloads are fetched in HTTP Range chunks. Each chunk is written here as it
+ * arrives, so a failed or interrupted download (including a page reload) resumes from
+ * the last stored byte instead of starting over.
+ */
+
+const DB_NAME = 'export-downloads';
+const DB_VERSION = 1;
+const META_STORE = 'downloads';
+const CHUNK_STORE = 'chunks';
+
+// Partial downloads older than this are discarded (export files expire server-side anyway)
+const STALE_DOWNLOAD_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface StoredDownload {
+    jobId: string;
+    totalBytes: number | null;
+    receivedBytes: number;
+    chunkCount: number;
+    // Validator sent back in If-Range so a changed file restarts instead of mixing bytes
+    etag: string | null;
+    contentType: string;
+    updatedAt: number;
+}
+
+interface StoredChunk {
+    jobId: string;
+    index: number;
+    data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether chunks can be persisted in this environment
+ */
+export function isDownloadStoreAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE, { keyPath: 'jobId' });
+                }
+                if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+                    db.createObjectStore(CHUNK_STORE, { keyPath: ['jobId', 'index'] });
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let the cache manager delete the database without being blocked
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Get the stored state of a partial download, if any
+ */
+export async function getStoredDownload(jobId: string): Promise<StoredDownload | null> {
+    const db = await openDatabase();
+    const stored = await promisify<StoredDownload | undefined>(
+        db.transaction(META_STORE).objectStore(META_STORE).get(jobId)
+    );
+
+    if (stored && Date.now() - stored.updatedAt > STALE_DOWNLOAD_MS) {
+        await clearStoredDownload(jobId);
+        return null;
+    }
+
+    return stored ?? null;
+}
+
+/**
+ * Append the next chunk and update the download state in one transaction
+ */
+export async function appendChunk(
+    download: Omit<StoredDownload, 'chunkCount' | 'receivedBytes' | 'updatedAt'>,
+    previous: StoredDownload | null,
+    data: Blob
+): Promise<StoredDownload> {
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, CHUNK_STORE], 'readwrite');
+    const index = previous?.chunkCount ?? 0;
+
+    const next: StoredDownload = {
+        ...download,
+        chunkCount: index + 1,
+        receivedBytes: (previous?.receivedBytes ?? 0) + data.size,
+        updatedAt: Date.now(),
+    };
+
+    const chunk: StoredChunk = { jobId: download.jobId, index, data };
+    transaction.objectStore(CHUNK_STORE).put(chunk);
+    transaction.objectStore(META_STORE).put(next);
+    await transactionDone(transaction);
+
+    return next;
+}
+
+/**
+ * Join the stored chunks into the complete file
+ */
+export async function assembleDownload(download: StoredDownload): Promise<Blob> {
+    const db = await openDatabase();
+    const range = IDBKeyRange.bound([download.jobId, 0], [download.jobId, Number.MAX_SAFE_INTEGER]);
+    const chunks = await promisify<StoredChunk[]>(
+        db.transaction(CHUNK_STORE).objectStore(CHUNK_STORE).getAll(range)
+    );
+
+    return new Blob(
+        chunks.sort((a, b) => a.index - b.index).map((chunk) => chunk.data),
+        { type: download.contentType }
+    );
+}
+
+/**
+ * Remove a download's state and chunks
+ */
+export async function clearStoredDownload(jobId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, CHUNK_STORE], 'readwrite');
+    const range = IDBKeyRange.bound([jobId, 0], [jobId, Number.MAX_SAFE_INTEGER]);
+
+    transaction.objectStore(META_STORE).delete(jobId);
+    transaction.objectStore(CHUNK_STORE).delete(range);
+    await transactionDone(transaction);
+}
@@ -0,0 +1,238 @@
+/**
+ * Export schedule rules
+ * Shared by the schedule dialog (preview and validation) and the scheduler route (next run times).
+ * Every rule is evaluated as a UTC cron expression; daily/weekly/monthly are shorthands for one.
+ */
+
+import type { ExportScheduleRule } from '@/lib/types/exports';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Days 29-31 don't exist in every month, so monthly rules stop at 28
+export const MAX_SCHEDULE_DAY_OF_MONTH = 28;
+
+// How far ahead to look for a matching day before declaring a rule unsatisfiable
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+interface ParsedCron {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    domRestricted: boolean;
+    dowRestricted: boolean;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse one cron field ("*", "5", "1-5", "*\/15", "1,15,30", "10-40/10").
+ * Returns the sorted values, or null when the field is invalid.
+ */
+function parseCronField(field: string, min: number, max: number): number[] | null {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+        if (!match) return null;
+
+        const [, range, stepText] = match;
+        const step = stepText ? parseInt(stepText, 10) : 1;
+        if (step < 1) return null;
+
+        let start = min;
+        let end = max;
+
+        if (range !== '*') {
+            const [from, to] = range.split('-').map(value => parseInt(value, 10));
+            start = from;
+            end = to === undefined ? (stepText ? max : from) : to;
+        }
+
+        if (start < min || end > max || start > end) return null;
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Returns null when the expression is invalid.
+ */
+export function parseCronExpression(expression: string): ParsedCron | null {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) return null;
+
+    const minutes = parseCronField(fields[0], 0, 59);
+    const hours = parseCronField(fields[1], 0, 23);
+    const daysOfMonth = parseCronField(fields[2], 1, 31);
+    const months = parseCronField(fields[3], 1, 12);
+    // Accept 7 as Sunday, as most cron implementations do
+    const daysOfWeek = parseCronField(fields[4], 0, 7);
+
+    if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+        return null;
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth: new Set(daysOfMonth),
+        months: new Set(months),
+        daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+        // As in Vixie cron, a field starting with "*" (including "*/n") isn't a restriction
+        domRestricted: !fields[2].startsWith('*'),
+        dowRestricted: !fields[4].startsWith('*'),
+    };
+}
+
+/**
+ * Convert a schedule rule into its cron expression
+ */
+export function toCronExpression(rule: ExportScheduleRule): string {
+    if (rule.frequency === 'cron') {
+        return (rule.cron || '').trim();
+    }
+
+    const [hour, minute] = rule.time.split(':').map(value => parseInt(value, 10));
+
+    switch (rule.frequency) {
+        case 'weekly':
+            return `${minute} ${hour} * * ${rule.dayOfWeek ?? 1}`;
+        case 'monthly':
+            return `${minute} ${hour} ${rule.dayOfMonth ?? 1} * *`;
+        default:
+            return `${minute} ${hour} * * *`;
+    }
+}
+
+/**
+ * Validate a schedule rule. Returns an error message, or null when the rule is valid.
+ */
+export function validateScheduleRule(rule: ExportScheduleRule | undefined | null): string | null {
+    if (!rule || !['daily', 'weekly', 'monthly', 'cron'].includes(rule.frequency)) {
+        return 'Frequency must be daily, weekly, monthly or cron';
+    }
+
+    if (rule.frequency === 'cron') {
+        if (!rule.cron || !parseCronExpression(rule.cron)) {
+            return 'Cron expression must have 5 valid fields (minute hour day month weekday)';
+        }
+        return getNextRunTime(rule, new Date()) ? null : 'Cron expression never matches a date';
+    }
+
+    if (!TIME_PATTERN.test(rule.time || '')) {
+        return 'Time must be in HH:MM format';
+    }
+
+    if (rule.frequency === 'weekly') {
+        if (!Number.isInteger(rule.dayOfWeek) || rule.dayOfWeek! < 0 || rule.dayOfWeek! > 6) {
+            return 'Day of week must be between 0 (Sunday) and 6 (Saturday)';
+        }
+    }
+
+    if (rule.frequency === 'monthly') {
+        if (
+            !Number.isInteger(rule.dayOfMonth) ||
+            rule.dayOfMonth! < 1 ||
+            rule.dayOfMonth! > MAX_SCHEDULE_DAY_OF_MONTH
+        ) {
+            return `Day of month must be between 1 and ${MAX_SCHEDULE_DAY_OF_MONTH}`;
+        }
+    }
+
+    return null;
+}
+
+function matchesDay(cron: ParsedCron, day: Date): boolean {
+    if (!cron.months.has(day.getUTCMonth() + 1)) return false;
+
+    const domMatch = cron.daysOfMonth.has(day.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(day.getUTCDay());
+
+    // Standard cron: when both day fields are restricted, either one may match.
+    // Otherwise both must, which also applies steps like "*/2" in the day of month.
+    if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+    return domMatch && dowMatch;
+}
+
+/**
+ * First run time strictly after `after`, or null when the rule is invalid or never matches.
+ */
+export function getNextRunTime(rule: ExportScheduleRule, after: Date): Date | null {
+    const cron = parseCronExpression(toCronExpression(rule));
+    if (!cron) return null;
+
+    // Runs happen on whole minutes
+    const earliest = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+    const day = new Date(earliest);
+    day.setUTCHours(0, 0, 0, 0);
+
+    for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+        if (matchesDay(cron, day)) {
+            for (const hour of cron.hours) {
+                for (const minute of cron.minutes) {
+                    const candidate = Date.UTC(
+                        day.getUTCFullYear(),
+                        day.getUTCMonth(),
+                        day.getUTCDate(),
+                        hour,
+                        minute
+                    );
+                    if (candidate >= earliest) {
+                        return new Date(candidate);
+                    }
+                }
+            }
+        }
+        day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return null;
+}
+
+/**
+ * The next `count` run times after `after`
+ */
+export function getUpcomingRunTimes(rule: ExportScheduleRule, after: Date, count: number): Date[] {
+    const runs: Date[] = [];
+    let cursor = after;
+
+    while (runs.length < count) {
+        const next = getNextRunTime(rule, cursor);
+        if (!next) break;
+        runs.push(next);
+        cursor = next;
+    }
+
+    return runs;
+}
+
+/**
+ * Human readable summary, e.g. "Every Monday at 06:00 UTC"
+ */
+export function describeScheduleRule(rule: ExportScheduleRule): string {
+    switch (rule.frequency) {
+        case 'daily':
+            return `Every day at ${rule.time} UTC`;
+        case 'weekly':
+            return `Every ${WEEKDAY_NAMES[rule.dayOfWeek ?? 1]} at ${rule.time} UTC`;
+        case 'monthly':
+            return `Monthly on day ${rule.dayOfMonth ?? 1} at ${rule.time} UTC`;
+        default:
+            return `Cron "${rule.cron}" (UTC)`;
+    }
+}
+
+/**
+ * Suppliers in an export's filters the owner can't export themselves (case-insensitive)
+ */
+export function findInaccessibleSuppliers(requested: string[], accessible: string[]): string[] {
+    const allowed = new Set(accessible.map(supplier => supplier.toLowerCase()));
+    return requested.filter(supplier => !allowed.has(supplier.toLowerCase()));
+}
@@ -0,0 +1,184 @@
+/**
+ * Export filter preset rules
+ * Shared by the presets route handlers (access checks, import validation) and the
+ * presets manager (which actions to offer, JSON file export).
+ *
+ * Visibility:
+ *   private - only the owner
+ *   team    - the admin team (admin and super users)
+ *   global  - every user; admins can additionally mark global presets as official
+ */
+
+import { isAdminOrSuper } from '@/lib/utils/rbac';
+import type { User } from '@/lib/types/auth';
+import type {
+    ExportType,
+    FilterPreset,
+    FilterPresetFile,
+    FilterPresetVisibility,
+} from '@/lib/types/exports';
+
+export const FILTER_PRESET_VISIBILITIES: FilterPresetVisibility[] = ['private', 'team', 'global'];
+
+export const VISIBILITY_LABELS: Record<FilterPresetVisibility, string> = {
+    private: 'Only me',
+    team: 'Admin team',
+    global: 'Everyone',
+};
+
+export const MAX_PRESET_NAME_LENGTH = 80;
+
+// Guard against accidentally importing huge files
+export const MAX_IMPORTED_PRESETS = 200;
+
+/**
+ * Visibilities the user may choose when saving a preset
+ */
+export function getAllowedVisibilities(user: User | null): FilterPresetVisibility[] {
+    if (!user) return [];
+    return isAdminOrSuper(user) ? FILTER_PRESET_VISIBILITIES : ['private'];
+}
+
+/**
+ * Only admins can publish (or unpublish) official presets
+ */
+export function canPublishOfficialPresets(user: User | null): boolean {
+    return isAdminOrSuper(user);
+}
+
+/**
+ * Whether the user can see (and load) a preset
+ */
+export function canViewPreset(user: User | null, preset: FilterPreset): boolean {
+    if (!user) return false;
+    if (preset.ownerId === user.id) return true;
+    if (preset.visibility === 'global') return true;
+    return preset.visibility === 'team' && isAdminOrSuper(user);
+}
+
+/**
+ * Whether the user can rename, change or delete a preset.
+ * Owners manage their own presets; admins also manage official presets.
+ */
+export function canManagePreset(user: User | null, preset: FilterPreset): boolean {
+    if (!user) return false;
+    if (preset.isOfficial) return isAdminOrSuper(user);
+    return preset.ownerId === user.id;
+}
+
+/**
+ * Check a requested visibility/official combination against the user's role.
+ * Official presets are always global. Returns an error message, or null when allowed.
+ */
+export function checkPresetSharing(
+    user: User | null,
+    visibility: FilterPresetVisibility,
+    isOfficial: boolean
+): string | null {
+    if (!FILTER_PRESET_VISIBILITIES.includes(visibility)) {
+        return 'Visibility must be private, team or global';
+    }
+    if (isOfficial && !canPublishOfficialPresets(user)) {
+        return 'Only admins can publish official presets';
+    }
+    if (isOfficial && visibility !== 'global') {
+        return 'Official presets must be visible to everyone';
+    }
+    if (!getAllowedVisibilities(user).includes(visibility)) {
+        return 'Only admins can share presets with the team or everyone';
+    }
+    return null;
+}
+
+/**
+ * Official presets first, then the user's own, then shared ones, each alphabetically
+ */
+export function sortPresets(presets: FilterPreset[], userId?: string): FilterPreset[] {
+    const rank = (preset: FilterPreset) => (preset.isOfficial ? 0 : preset.ownerId === userId ? 1 : 2);
+
+    return [...presets].sort(
+        (a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+    );
+}
+
+/**
+ * Validate a preset name. Returns an error message, or null when valid.
+ */
+export function validatePresetName(name: unknown): string | null {
+    if (typeof name !== 'string' || !name.trim()) {
+        return 'Preset name is required';
+    }
+    if (name.trim().length > MAX_PRESET_NAME_LENGTH) {
+        return `Preset name must be ${MAX_PRESET_NAME_LENGTH} characters or less`;
+    }
+    return null;
+}
+
+function isExportType(value: unknown): value is ExportType {
+    return value === 'hotel' || value === 'mapping';
+}
+
+function isVisibility(value: unknown): value is FilterPresetVisibility {
+    return FILTER_PRESET_VISIBILITIES.includes(value as FilterPresetVisibility);
+}
+
+/**
+ * Build the JSON file for a set of presets. Ownership and ids are not exported.
+ */
+export function buildPresetFile(presets: FilterPreset[], now: Date = new Date()): FilterPresetFile {
+    return {
+        version: 1,
+        exportedAt: now.toISOString(),
+        presets: presets.map(({ name, exportType, filters, visibility }) => ({
+            name,
+            exportType,
+            filters,
+            visibility,
+        })),
+    };
+}
+
+/**
+ * Parse an imported presets file. Accepts the FilterPresetFile format or a bare array
+ * (the shape presets used to have in browser storage). Throws when the file is unusable.
+ */
+export function parsePresetFile(content: unknown): FilterPresetFile['presets'] {
+    const data = typeof content === 'string' ? JSON.parse(content) : content;
+    const entries: unknown = Array.isArray(data) ? data : data?.presets;
+
+    if (!Array.isArray(entries)) {
+        throw new Error('File does not contain any presets');
+    }
+
+    if (entries.length > MAX_IMPORTED_PRESETS) {
+        throw new Error(`A file can contain at most ${MAX_IMPORTED_PRESETS} presets`);
+    }
+
+    return entries.map((entry, index) => {
+        const label = `Preset ${index + 1}`;
+
+        if (!entry || typeof entry !== 'object') {
+            throw new Error(`${label} is not an object`);
+        }
+
+        const nameError = validatePresetName(entry.name);
+        if (nameError) {
+            throw new Error(`${label}: ${nameError}`);
+        }
+
+        if (!isExportType(entry.exportType)) {
+            throw new Error(`${label}: export type must be hotel or mapping`);
+        }
+
+        if (!entry.filters || typeof entry.filters !== 'object' || !('filters' in entry.filters)) {
+            throw new Error(`${label}: filters are missing`);
+        }
+
+        return {
+            name: entry.name.trim(),
+            exportType: entry.exportType,
+            filters: entry.filters,
+            visibility: isVisibility(entry.visibility) ? entry.visibility : 'private',
+        };
+    });
+}
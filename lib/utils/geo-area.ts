@@ -0,0 +1,177 @@
+/**
+ * Search area helpers
+ * Polygon and bounding-box areas for hotel search: URL encoding, validation,
+ * the circle the backend is searched with, and point-in-area filtering of its results.
+ */
+
+import type { GeoPoint, SearchArea } from '@/lib/types/hotel';
+
+// The backend only searches a point and radius, so areas must fit in this circle
+export const MAX_AREA_RADIUS_KM = 100;
+export const MAX_POLYGON_POINTS = 100;
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+}
+
+function isLatitude(value: number): boolean {
+    return Number.isFinite(value) && Math.abs(value) <= 90;
+}
+
+function isLongitude(value: number): boolean {
+    return Number.isFinite(value) && Math.abs(value) <= 180;
+}
+
+// Five decimals is about a metre, and keeps URLs short
+function formatCoordinate(value: number): string {
+    return String(Number(value.toFixed(5)));
+}
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h =
+        Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Corners of a bounding box, or the points of a polygon
+ */
+export function getAreaPolygon(area: SearchArea): GeoPoint[] {
+    if (area.kind === 'polygon') return area.points;
+
+    return [
+        { lat: area.south, lng: area.west },
+        { lat: area.north, lng: area.west },
+        { lat: area.north, lng: area.east },
+        { lat: area.south, lng: area.east },
+    ];
+}
+
+/**
+ * Ray casting. Points exactly on an edge may fall either side.
+ */
+export function isPointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+
+        if (a.lat > point.lat !== b.lat > point.lat) {
+            const lngAtLat = ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+            if (point.lng < lngAtLat) inside = !inside;
+        }
+    }
+
+    return inside;
+}
+
+export function isPointInArea(point: GeoPoint, area: SearchArea): boolean {
+    if (area.kind === 'bbox') {
+        return point.lat >= area.south && point.lat <= area.north && point.lng >= area.west && point.lng <= area.east;
+    }
+    return isPointInPolygon(point, area.points);
+}
+
+/**
+ * Smallest circle around the area's bounding box centre that covers it, for the backend search
+ */
+export function getAreaSearchCircle(area: SearchArea): { center: GeoPoint; radiusKm: number } {
+    const points = getAreaPolygon(area);
+    const lats = points.map(point => point.lat);
+    const lngs = points.map(point => point.lng);
+    const center = {
+        lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+        lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+    };
+    const farthest = Math.max(...points.map(point => haversineKm(center, point)));
+
+    // Round up so edge points stay inside the circle
+    return { center, radiusKm: Math.ceil(farthest * 10) / 10 };
+}
+
+/**
+ * Why an area can't be searched, or null when it can
+ */
+export function validateSearchArea(area: SearchArea): string | null {
+    const points = getAreaPolygon(area);
+
+    if (points.some(point => !isLatitude(point.lat) || !isLongitude(point.lng))) {
+        return 'Coordinates must be valid latitudes (-90 to 90) and longitudes (-180 to 180)';
+    }
+    if (area.kind === 'bbox' && (area.south >= area.north || area.west >= area.east)) {
+        return 'The south edge must be below the north edge and the west edge left of the east edge';
+    }
+    if (area.kind === 'polygon' && points.length < 3) {
+        return 'A polygon needs at least 3 points';
+    }
+    if (area.kind === 'polygon' && points.length > MAX_POLYGON_POINTS) {
+        return `A polygon can have at most ${MAX_POLYGON_POINTS} points`;
+    }
+    if (getAreaSearchCircle(area).radiusKm > MAX_AREA_RADIUS_KM) {
+        return `The area is too large. It must fit within ${MAX_AREA_RADIUS_KM} km of its centre`;
+    }
+
+    return null;
+}
+
+/**
+ * URL form: "bbox:south,west,north,east" or "poly:lat,lng;lat,lng;..."
+ */
+export function serializeSearchArea(area: SearchArea): string {
+    if (area.kind === 'bbox') {
+        return `bbox:${[area.south, area.west, area.north, area.east].map(formatCoordinate).join(',')}`;
+    }
+    return `poly:${area.points.map(point => `${formatCoordinate(point.lat)},${formatCoordinate(point.lng)}`).join(';')}`;
+}
+
+/**
+ * Read an area from its URL form. Returns null if it is malformed or invalid.
+ */
+export function parseSearchArea(value: string | null): SearchArea | null {
+    if (!value) return null;
+
+    const [kind, body = ''] = value.split(':', 2);
+    let area: SearchArea | null = null;
+
+    if (kind === 'bbox') {
+        const numbers = body.split(',').map(Number);
+        if (numbers.length === 4 && numbers.every(Number.isFinite)) {
+            const [south, west, north, east] = numbers;
+            area = { kind: 'bbox', south, west, north, east };
+        }
+    } else if (kind === 'poly') {
+        const points = body.split(';').map(pair => {
+            const [lat, lng] = pair.split(',').map(Number);
+            return { lat, lng };
+        });
+        if (points.every(point => Number.isFinite(point.lat) && Number.isFinite(point.lng))) {
+            area = { kind: 'polygon', points };
+        }
+    }
+
+    return area && !validateSearchArea(area) ? area : null;
+}
+
+/**
+ * Read pasted "lat, lng" pairs, one per line. Returns null if any line can't be read.
+ */
+export function parseCoordinateList(text: string): GeoPoint[] | null {
+    const points: GeoPoint[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+
+        const parts = line.trim().split(/[\s,;]+/).map(Number);
+        if (parts.length !== 2 || !parts.every(Number.isFinite)) return null;
+
+        points.push({ lat: parts[0], lng: parts[1] });
+    }
+
+    return points;
+}
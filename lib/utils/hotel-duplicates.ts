@@ -0,0 +1,315 @@
+/**
+ * Duplicate hotel helpers
+ * Finds ITTID pairs that likely describe the same property from name similarity,
+ * coordinate distance and shared GIATA / Vervotech codes, and exports review decisions.
+ */
+
+import type { CountryMappingResponse } from '@/lib/api/provider-updates';
+import type {
+    DuplicateCandidate,
+    DuplicateCandidateHotel,
+    DuplicateDecision,
+    DuplicateReview,
+} from '@/lib/types/hotel-duplicates';
+import { toCsv } from './csv';
+import { haversineKm } from './geo-area';
+
+export const DUPLICATE_DECISION_LABELS: Record<DuplicateDecision, string> = {
+    same: 'Same property',
+    different: 'Different properties',
+    unsure: 'Unsure',
+};
+
+export interface DuplicateSearchOptions {
+    // Hotels further apart than this are only paired on shared codes
+    maxDistanceKm: number;
+    minConfidence: number;
+    limit: number;
+}
+
+export const DEFAULT_DUPLICATE_SEARCH: DuplicateSearchOptions = {
+    maxDistanceKm: 0.5,
+    minConfidence: 0.6,
+    limit: 500,
+};
+
+// Words that say little about which property it is
+const GENERIC_NAME_WORDS = new Set(['hotel', 'hotels', 'the', 'and', 'resort', 'spa', 'inn', 'by']);
+
+type CountryMappingRow = CountryMappingResponse['data'][number];
+
+function splitCodes(value: unknown): string[] {
+    if (value === null || value === undefined) return [];
+    return String(value)
+        .split(',')
+        .map(code => code.trim())
+        .filter(code => code && code !== '0' && code.toLowerCase() !== 'null');
+}
+
+function union(a: string[], b: string[]): string[] {
+    return Array.from(new Set([...a, ...b]));
+}
+
+function intersection(a: string[], b: string[]): string[] {
+    const set = new Set(b);
+    return a.filter(item => set.has(item));
+}
+
+export function getDuplicatePairKey(ittidA: string, ittidB: string): string {
+    return ittidA < ittidB ? `${ittidA}|${ittidB}` : `${ittidB}|${ittidA}`;
+}
+
+/**
+ * Lower case, no accents or punctuation, without generic words unless nothing else is left
+ */
+export function normalizeHotelName(name: string): string {
+    const words = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean);
+    const specific = words.filter(word => !GENERIC_NAME_WORDS.has(word));
+
+    return (specific.length > 0 ? specific : words).join(' ');
+}
+
+function bigrams(text: string): string[] {
+    const compact = text.replace(/ /g, '');
+    if (compact.length < 2) return compact ? [compact] : [];
+
+    const result: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) {
+        result.push(compact.slice(i, i + 2));
+    }
+    return result;
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    a.forEach(gram => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+    let shared = 0;
+    b.forEach(gram => {
+        const count = counts.get(gram) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(gram, count - 1);
+        }
+    });
+
+    return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * 0-1, from shared character pairs of the normalized names
+ */
+export function getNameSimilarity(a: string, b: string): number {
+    const left = normalizeHotelName(a);
+    const right = normalizeHotelName(b);
+    if (left === right) return left ? 1 : 0;
+
+    return diceCoefficient(bigrams(left), bigrams(right));
+}
+
+function hasCoordinates(hotel: DuplicateCandidateHotel): boolean {
+    return (
+        typeof hotel.latitude === 'number' &&
+        typeof hotel.longitude === 'number' &&
+        Number.isFinite(hotel.latitude) &&
+        Number.isFinite(hotel.longitude) &&
+        !(hotel.latitude === 0 && hotel.longitude === 0)
+    );
+}
+
+/**
+ * Score one pair. Shared codes make a duplicate likely whatever the names say;
+ * codes that exist on both sides but differ make it unlikely.
+ */
+export function scoreDuplicatePair(
+    a: DuplicateCandidateHotel,
+    b: DuplicateCandidateHotel,
+    maxDistanceKm: number = DEFAULT_DUPLICATE_SEARCH.maxDistanceKm
+): DuplicateCandidate {
+    const nameSimilarity = getNameSimilarity(a.name, b.name);
+    const distanceKm =
+        hasCoordinates(a) && hasCoordinates(b)
+            ? haversineKm({ lat: a.latitude!, lng: a.longitude! }, { lat: b.latitude!, lng: b.longitude! })
+            : null;
+    const sharedGiataCodes = intersection(a.giataCodes, b.giataCodes);
+    const sharedVervotechIds = intersection(a.vervotechIds, b.vervotechIds);
+    const conflictingCodes =
+        (a.giataCodes.length > 0 && b.giataCodes.length > 0 && sharedGiataCodes.length === 0) ||
+        (a.vervotechIds.length > 0 && b.vervotechIds.length > 0 && sharedVervotechIds.length === 0);
+
+    let confidence =
+        distanceKm === null
+            ? nameSimilarity * 0.8
+            : nameSimilarity * 0.55 + Math.max(0, 1 - distanceKm / maxDistanceKm) * 0.45;
+
+    if (sharedGiataCodes.length > 0 || sharedVervotechIds.length > 0) {
+        confidence = 0.7 + confidence * 0.3;
+    } else if (conflictingCodes) {
+        confidence *= 0.6;
+    }
+
+    return {
+        key: getDuplicatePairKey(a.ittid, b.ittid),
+        a: a.ittid < b.ittid ? a : b,
+        b: a.ittid < b.ittid ? b : a,
+        confidence: Math.round(confidence * 100) / 100,
+        nameSimilarity: Math.round(nameSimilarity * 100) / 100,
+        distanceKm: distanceKm === null ? null : Math.round(distanceKm * 1000) / 1000,
+        sharedGiataCodes,
+        sharedVervotechIds,
+        conflictingCodes,
+    };
+}
+
+/**
+ * Likely duplicate pairs, most confident first. Only hotels near each other or
+ * sharing a code are compared, so large countries stay fast.
+ */
+export function findDuplicateCandidates(
+    hotels: DuplicateCandidateHotel[],
+    options: Partial<DuplicateSearchOptions> = {}
+): DuplicateCandidate[] {
+    const { maxDistanceKm, minConfidence, limit } = { ...DEFAULT_DUPLICATE_SEARCH, ...options };
+    // Pairs already scored from shared codes, so the nearby pass skips them
+    const codePairs = new Set<string>();
+    const candidates: DuplicateCandidate[] = [];
+
+    const consider = (a: DuplicateCandidateHotel, b: DuplicateCandidateHotel) => {
+        const candidate = scoreDuplicatePair(a, b, maxDistanceKm);
+        if (candidate.confidence >= minConfidence) candidates.push(candidate);
+    };
+
+    // Shared codes
+    const byCode = new Map<string, DuplicateCandidateHotel[]>();
+    hotels.forEach(hotel => {
+        [...hotel.giataCodes.map(code => `giata:${code}`), ...hotel.vervotechIds.map(id => `vervotech:${id}`)].forEach(
+            code => {
+                const group = byCode.get(code);
+                if (group) group.push(hotel);
+                else byCode.set(code, [hotel]);
+            }
+        );
+    });
+    byCode.forEach(group => {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                const key = getDuplicatePairKey(group[i].ittid, group[j].ittid);
+                if (group[i].ittid === group[j].ittid || codePairs.has(key)) continue;
+
+                codePairs.add(key);
+                consider(group[i], group[j]);
+            }
+        }
+    });
+
+    // Nearby hotels, bucketed into cells at least maxDistanceKm wide
+    const located = hotels.filter(hasCoordinates);
+    const maxLatitude = Math.min(85, located.reduce((max, hotel) => Math.max(max, Math.abs(hotel.latitude!)), 0));
+    const latCell = maxDistanceKm / 111;
+    const lngCell = latCell / Math.cos((maxLatitude * Math.PI) / 180);
+    const cells = new Map<string, DuplicateCandidateHotel[]>();
+
+    located.forEach(hotel => {
+        const key = `${Math.floor(hotel.latitude! / latCell)}:${Math.floor(hotel.longitude! / lngCell)}`;
+        const group = cells.get(key);
+        if (group) group.push(hotel);
+        else cells.set(key, [hotel]);
+    });
+
+    const considerNearby = (a: DuplicateCandidateHotel, b: DuplicateCandidateHotel) => {
+        if (a.ittid !== b.ittid && !codePairs.has(getDuplicatePairKey(a.ittid, b.ittid))) consider(a, b);
+    };
+
+    cells.forEach((group, key) => {
+        const [row, column] = key.split(':').map(Number);
+
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) considerNearby(group[i], group[j]);
+        }
+
+        // Half of the surrounding cells, so each pair of cells is visited once
+        [[0, 1], [1, -1], [1, 0], [1, 1]].forEach(([dRow, dColumn]) => {
+            const neighbours = cells.get(`${row + dRow}:${column + dColumn}`);
+            neighbours?.forEach(b => group.forEach(a => considerNearby(a, b)));
+        });
+    });
+
+    return candidates
+        .sort((a, b) => b.confidence - a.confidence || a.key.localeCompare(b.key))
+        .slice(0, limit);
+}
+
+/**
+ * Hotels from the country mapping API of several suppliers, one per ITTID
+ */
+export function toDuplicateCandidateHotels(
+    results: { supplier: string; rows: CountryMappingRow[] }[]
+): DuplicateCandidateHotel[] {
+    const hotels = new Map<string, DuplicateCandidateHotel>();
+
+    results.forEach(({ supplier, rows }) => {
+        rows.forEach(row => {
+            const ittids = Array.isArray(row[supplier]) ? (row[supplier] as string[]) : [];
+            const giataCodes = splitCodes(row.giata);
+            const vervotechIds = splitCodes(row.vervotech);
+
+            ittids.forEach(ittid => {
+                const existing = hotels.get(ittid);
+
+                if (existing) {
+                    existing.suppliers = union(existing.suppliers, [supplier]);
+                    existing.giataCodes = union(existing.giataCodes, giataCodes);
+                    existing.vervotechIds = union(existing.vervotechIds, vervotechIds);
+                    return;
+                }
+
+                hotels.set(ittid, {
+                    ittid,
+                    name: row.name || ittid,
+                    address: row.addr || undefined,
+                    latitude: Number.isFinite(Number(row.lat)) ? Number(row.lat) : undefined,
+                    longitude: Number.isFinite(Number(row.lon)) ? Number(row.lon) : undefined,
+                    propertyType: row.ptype || undefined,
+                    starRating: row.star || undefined,
+                    photo: row.photo || undefined,
+                    suppliers: [supplier],
+                    giataCodes,
+                    vervotechIds,
+                });
+            });
+        });
+    });
+
+    return Array.from(hotels.values());
+}
+
+/**
+ * One row per reviewed pair
+ */
+export function buildDuplicateReviewsCsv(reviews: DuplicateReview[]): string {
+    const header = ['ittid_a', 'name_a', 'ittid_b', 'name_b', 'country', 'confidence', 'decision', 'note', 'reviewed_by', 'reviewed_at'];
+    const rows = reviews.map(review => [
+        review.ittidA,
+        review.nameA,
+        review.ittidB,
+        review.nameB,
+        review.countryCode,
+        review.confidence,
+        review.decision,
+        review.note,
+        review.reviewedBy,
+        review.reviewedAt,
+    ]);
+
+    return toCsv([header, ...rows]);
+}
@@ -0,0 +1,282 @@
+/**
+ * IP range helpers
+ * Parsing, overlap detection and matching for IPv4 and IPv6 addresses and CIDR ranges,
+ * shared by the IP permission section and the IP entry routes.
+ */
+
+import type { BulkIpRow, IpEntryDetails, IpRange, IpRuleMatch, IpVersion } from '@/lib/types/ip-permissions';
+
+const BITS: Record<IpVersion, number> = { 4: 32, 6: 128 };
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+function allOnes(bits: number): bigint {
+    return (ONE << BigInt(bits)) - ONE;
+}
+
+function parseIpv4(value: string): bigint | null {
+    const parts = value.split('.');
+
+    if (parts.length !== 4) return null;
+
+    let result = ZERO;
+    for (const part of parts) {
+        // Leading zeros are read as octal by some tools, so reject them
+        if (!/^(0|[1-9]\d{0,2})$/.test(part) || Number(part) > 255) return null;
+        result = (result << BigInt(8)) + BigInt(part);
+    }
+
+    return result;
+}
+
+function parseIpv6(value: string): bigint | null {
+    let text = value.toLowerCase();
+    const groups: string[] = [];
+
+    // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+    const lastColon = text.lastIndexOf(':');
+    if (text.slice(lastColon + 1).includes('.')) {
+        const ipv4 = parseIpv4(text.slice(lastColon + 1));
+        if (ipv4 === null) return null;
+        text = `${text.slice(0, lastColon + 1)}${(ipv4 >> BigInt(16)).toString(16)}:${(ipv4 & BigInt(0xffff)).toString(16)}`;
+    }
+
+    const halves = text.split('::');
+    if (halves.length > 2) return null;
+
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+
+    if (halves.length === 2) {
+        const missing = 8 - head.length - tail.length;
+        if (missing < 1) return null;
+        groups.push(...head, ...Array(missing).fill('0'), ...tail);
+    } else {
+        groups.push(...head);
+    }
+
+    if (groups.length !== 8) return null;
+
+    let result = ZERO;
+    for (const group of groups) {
+        if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+        result = (result << BigInt(16)) + BigInt(parseInt(group, 16));
+    }
+
+    return result;
+}
+
+function formatIpv4(value: bigint): string {
+    return [24, 16, 8, 0].map(shift => ((value >> BigInt(shift)) & BigInt(255)).toString()).join('.');
+}
+
+// RFC 5952 form: lowercase, no leading zeros, longest run of zero groups as "::"
+function formatIpv6(value: bigint): string {
+    const groups = Array.from({ length: 8 }, (_, index) =>
+        ((value >> BigInt((7 - index) * 16)) & BigInt(0xffff)).toString(16)
+    );
+
+    let bestStart = -1;
+    let bestLength = 1;
+    for (let start = 0; start < 8; start++) {
+        let length = 0;
+        while (start + length < 8 && groups[start + length] === '0') length++;
+        if (length > bestLength) {
+            bestStart = start;
+            bestLength = length;
+        }
+    }
+
+    if (bestStart === -1) return groups.join(':');
+
+    const head = groups.slice(0, bestStart).join(':');
+    const tail = groups.slice(bestStart + bestLength).join(':');
+    return `${head}::${tail}`;
+}
+
+function readIpRange(input: string): { range: IpRange | null; error: string | null } {
+    const value = input.trim();
+
+    if (!value) {
+        return { range: null, error: 'IP address is required' };
+    }
+
+    const [address, prefixText, ...rest] = value.split('/');
+    const version: IpVersion = address.includes(':') ? 6 : 4;
+    const parsed = version === 4 ? parseIpv4(address) : parseIpv6(address);
+
+    if (rest.length > 0 || parsed === null) {
+        return { range: null, error: `"${value}" is not a valid IPv${version} address or CIDR range` };
+    }
+
+    const bits = BITS[version];
+    let prefix = bits;
+
+    if (prefixText !== undefined) {
+        if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) {
+            return { range: null, error: `Prefix length must be between 1 and ${bits} for IPv${version}` };
+        }
+        prefix = Number(prefixText);
+        if (prefix === 0) {
+            return { range: null, error: `"${value}" would allow every IPv${version} address` };
+        }
+    }
+
+    const hostMask = allOnes(bits - prefix);
+    const format = version === 4 ? formatIpv4 : formatIpv6;
+
+    if ((parsed & hostMask) !== ZERO) {
+        const network = format(parsed & ~hostMask);
+        return { range: null, error: `"${value}" has host bits set; did you mean ${network}/${prefix}?` };
+    }
+
+    return {
+        error: null,
+        range: {
+            version,
+            normalized: prefix === bits ? format(parsed) : `${format(parsed)}/${prefix}`,
+            prefix,
+            start: parsed,
+            end: parsed | hostMask,
+        },
+    };
+}
+
+/**
+ * Parse an address or CIDR range, or null when it isn't valid
+ */
+export function parseIpRange(input: string): IpRange | null {
+    return readIpRange(input).range;
+}
+
+/**
+ * Why an address or CIDR range isn't valid, or null when it is
+ */
+export function getIpRangeError(input: string): string | null {
+    return readIpRange(input).error;
+}
+
+export function rangesOverlap(a: IpRange, b: IpRange): boolean {
+    return a.version === b.version && a.start <= b.end && b.start <= a.end;
+}
+
+export function isSingleAddress(range: IpRange): boolean {
+    return range.prefix === BITS[range.version];
+}
+
+export function describeIpRange(range: IpRange): string {
+    const hostBits = BITS[range.version] - range.prefix;
+
+    if (hostBits === 0) return 'Single address';
+    if (hostBits <= 32) return `${(2 ** hostBits).toLocaleString()} addresses`;
+    return `2^${hostBits} addresses`;
+}
+
+export function isIpEntryExpired(details: Pick<IpEntryDetails, 'expiresAt'> | undefined, now: Date = new Date()): boolean {
+    return !!details?.expiresAt && new Date(details.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Expiry from a date input (YYYY-MM-DD): the entry works until the end of that day, UTC
+ */
+export function toIpExpiryTimestamp(date: string): string | null {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T23:59:59.999Z` : null;
+}
+
+/**
+ * For each entry, the other entries whose ranges overlap it
+ */
+export function findOverlappingEntries(ipAddresses: string[]): Record<string, string[]> {
+    const ranges = ipAddresses
+        .map(ipAddress => ({ ipAddress, range: parseIpRange(ipAddress) }))
+        .filter((item): item is { ipAddress: string; range: IpRange } => item.range !== null);
+    const overlaps: Record<string, string[]> = {};
+
+    for (const item of ranges) {
+        const others = ranges
+            .filter(other => other.ipAddress !== item.ipAddress && rangesOverlap(item.range, other.range))
+            .map(other => other.ipAddress);
+        if (others.length > 0) overlaps[item.ipAddress] = others;
+    }
+
+    return overlaps;
+}
+
+/**
+ * Split pasted text into rows. Entries are separated by new lines or commas;
+ * anything after the address on the same entry is its label.
+ */
+export function parseBulkIpInput(text: string, existing: string[], defaultLabel = ''): BulkIpRow[] {
+    const existingRanges = existing
+        .map(ipAddress => parseIpRange(ipAddress))
+        .filter((range): range is IpRange => range !== null);
+    const rows: BulkIpRow[] = [];
+
+    text.split(/\r?\n/).forEach((lineText, index) => {
+        for (const segment of lineText.split(',')) {
+            const trimmed = segment.trim();
+            if (!trimmed || trimmed.startsWith('#')) continue;
+
+            const [input, ...labelParts] = trimmed.split(/\s+/);
+            const { range, error } = readIpRange(input);
+            const row: BulkIpRow = {
+                line: index + 1,
+                input,
+                label: labelParts.join(' ') || defaultLabel.trim(),
+                range,
+                duplicate: false,
+                overlaps: [],
+            };
+
+            if (!range) {
+                row.error = error ?? 'Invalid IP address';
+            } else if (rows.some(other => other.range?.normalized === range.normalized)) {
+                row.error = 'Listed more than once';
+            } else {
+                row.duplicate = existingRanges.some(other => other.normalized === range.normalized);
+                row.overlaps = [
+                    ...existingRanges
+                        .filter(other => other.normalized !== range.normalized && rangesOverlap(range, other))
+                        .map(other => other.normalized),
+                    ...rows
+                        .filter(other => !other.error && other.range && rangesOverlap(range, other.range))
+                        .map(other => other.range!.normalized),
+                ];
+            }
+
+            rows.push(row);
+        }
+    });
+
+    return rows;
+}
+
+/**
+ * Every entry that covers an address, most specific first. The first one that
+ * hasn't expired is the rule that applies.
+ */
+export function findMatchingIpRules(
+    ipAddress: string,
+    entries: { ipAddress: string; details?: Pick<IpEntryDetails, 'label' | 'expiresAt'> }[],
+    now: Date = new Date()
+): IpRuleMatch[] {
+    const address = parseIpRange(ipAddress);
+    if (!address) return [];
+
+    const matches: IpRuleMatch[] = [];
+
+    for (const entry of entries) {
+        const range = parseIpRange(entry.ipAddress);
+        if (range && range.version === address.version && range.start <= address.start && address.end <= range.end) {
+            matches.push({
+                ipAddress: entry.ipAddress,
+                label: entry.details?.label ?? '',
+                prefix: range.prefix,
+                expired: isIpEntryExpired(entry.details, now),
+            });
+        }
+    }
+
+    return matches.sort((a, b) => b.prefix - a.prefix);
+}
@@ -0,0 +1,81 @@
+/**
+ * Issue attachment rules
+ * Shared by IssueForm (client-side checks) and the attachments route handler (authoritative checks)
+ */
+
+export const ISSUE_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024; // 10 MB per file
+export const ISSUE_ATTACHMENT_MAX_FILES = 5; // per issue
+
+export const ISSUE_ATTACHMENT_IMAGE_TYPES = [
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+];
+
+export const ISSUE_ATTACHMENT_MIME_TYPES = [
+    ...ISSUE_ATTACHMENT_IMAGE_TYPES,
+    'application/pdf',
+    'application/json',
+    'application/zip',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/csv',
+    'text/plain',
+];
+
+/**
+ * `accept` attribute value for file inputs
+ */
+export const ISSUE_ATTACHMENT_ACCEPT = ISSUE_ATTACHMENT_MIME_TYPES.join(',');
+
+export function isImageAttachment(mimeType: string): boolean {
+    return ISSUE_ATTACHMENT_IMAGE_TYPES.includes(mimeType);
+}
+
+/**
+ * Validate a single file. Returns an error message, or null when the file is acceptable.
+ */
+export function validateAttachmentFile(file: { name: string; size: number; type: string }): string | null {
+    if (!ISSUE_ATTACHMENT_MIME_TYPES.includes(file.type)) {
+        return `${file.name}: unsupported file type${file.type ? ` (${file.type})` : ''}`;
+    }
+
+    if (file.size === 0) {
+        return `${file.name}: file is empty`;
+    }
+
+    if (file.size > ISSUE_ATTACHMENT_MAX_BYTES) {
+        return `${file.name}: exceeds the ${ISSUE_ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB limit`;
+    }
+
+    return null;
+}
+
+// Magic bytes for binary types we accept; text-based types have no reliable signature
+const FILE_SIGNATURES: Record<string, number[][]> = {
+    'image/png': [[0x89, 0x50, 0x4e, 0x47]],
+    'image/jpeg': [[0xff, 0xd8, 0xff]],
+    'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+    'image/webp': [[0x52, 0x49, 0x46, 0x46]],
+    'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+    'application/zip': [[0x50, 0x4b, 0x03, 0x04]],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [[0x50, 0x4b, 0x03, 0x04]],
+    'application/vnd.ms-excel': [[0xd0, 0xcf, 0x11, 0xe0]],
+};
+
+/**
+ * Check that the file content matches its declared MIME type, so a renamed
+ * executable can't be served back as an image.
+ */
+export function matchesDeclaredType(bytes: Uint8Array, mimeType: string): boolean {
+    const signatures = FILE_SIGNATURES[mimeType];
+
+    if (!signatures) {
+        return true;
+    }
+
+    return signatures.some(signature =>
+        signature.every((byte, index) => bytes[index] === byte)
+    );
+}
@@ -0,0 +1,79 @@
+/**
+ * Issue field values and the upload of issues saved in the browser before
+ * issues moved to /api/v1/issues
+ */
+
+import type { IssueCategory, IssuePriority, IssueRecord, IssueStatus } from '@/lib/types/issue';
+
+export const ISSUE_CATEGORIES: IssueCategory[] = ['bug', 'feature', 'help', 'other'];
+export const ISSUE_PRIORITIES: IssuePriority[] = ['low', 'medium', 'high', 'critical'];
+export const ISSUE_STATUSES: IssueStatus[] = ['open', 'in_progress', 'resolved', 'closed'];
+
+// localStorage key older versions of the issues page saved every issue under
+export const LEGACY_ISSUES_STORAGE_KEY = 'user_issues';
+
+// Most issues one legacy upload may contain
+export const MAX_LEGACY_ISSUES = 500;
+
+function pick<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+    return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function toIsoDate(value: unknown, fallback: string): string {
+    const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+    return Number.isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/**
+ * Turn browser-saved issues into records owned by `owner`. Entries belonging to
+ * another user or without a title and description are dropped. Old attachments
+ * were file names only, so they are listed in the description instead.
+ * Throws when the content isn't a list of issues.
+ */
+export function parseLegacyIssues(
+    value: unknown,
+    owner: { id: string; username?: string },
+    now: string = new Date().toISOString()
+): IssueRecord[] {
+    if (!Array.isArray(value)) {
+        throw new Error('Expected a list of issues');
+    }
+    if (value.length > MAX_LEGACY_ISSUES) {
+        throw new Error(`No more than ${MAX_LEGACY_ISSUES} issues can be uploaded at once`);
+    }
+
+    return value.flatMap((entry: any): IssueRecord[] => {
+        if (!entry || typeof entry !== 'object' || entry.userId !== owner.id) return [];
+
+        const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+        const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+        const description = typeof entry.description === 'string' ? entry.description.trim() : '';
+        if (!id || !title || !description) return [];
+
+        const attachmentNames: string[] = Array.isArray(entry.attachments)
+            ? entry.attachments.filter((name: unknown): name is string => typeof name === 'string' && name.trim() !== '')
+            : [];
+        const createdAt = toIsoDate(entry.createdAt, now);
+
+        return [
+            {
+                id,
+                title,
+                description:
+                    attachmentNames.length > 0
+                        ? `${description}\n\nAttachments (not uploaded): ${attachmentNames.join(', ')}`
+                        : description,
+                category: pick(entry.category, ISSUE_CATEGORIES, 'other'),
+                priority: pick(entry.priority, ISSUE_PRIORITIES, 'medium'),
+                status: pick(entry.status, ISSUE_STATUSES, 'open'),
+                createdAt,
+                updatedAt: toIsoDate(entry.updatedAt, createdAt),
+                userId: owner.id,
+                username: owner.username,
+                userEmail: typeof entry.userEmail === 'string' && entry.userEmail ? entry.userEmail : undefined,
+                response: typeof entry.response === 'string' && entry.response ? entry.response : undefined,
+                respondedAt: entry.respondedAt ? toIsoDate(entry.respondedAt, now) : undefined,
+            },
+        ];
+    });
+}
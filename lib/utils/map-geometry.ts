@@ -0,0 +1,179 @@
+/**
+ * Map geometry helpers
+ * Web Mercator projection, tile layout and marker clustering for the tile maps
+ * (XYZ tiles, 256px, the scheme used by OpenStreetMap and most tile servers).
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_MAP_ZOOM = 1;
+
+// Web Mercator can't show the poles
+const MAX_LATITUDE = 85.05112878;
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface MapTile {
+    key: string;
+    url: string;
+    // Position inside the viewport, in pixels
+    left: number;
+    top: number;
+}
+
+export interface MarkerCluster<T> {
+    // Position inside the viewport, in pixels
+    x: number;
+    y: number;
+    items: T[];
+}
+
+function worldSize(zoom: number): number {
+    return TILE_SIZE * 2 ** zoom;
+}
+
+export function isValidLatLng(lat: unknown, lng: unknown): boolean {
+    return (
+        typeof lat === 'number' &&
+        typeof lng === 'number' &&
+        Number.isFinite(lat) &&
+        Number.isFinite(lng) &&
+        Math.abs(lat) <= 90 &&
+        Math.abs(lng) <= 180
+    );
+}
+
+/**
+ * Position of a coordinate in world pixels at a zoom level
+ */
+export function project({ lat, lng }: LatLng, zoom: number): Point {
+    const size = worldSize(zoom);
+    const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+    const sin = Math.sin((clamped * Math.PI) / 180);
+
+    return {
+        x: ((lng + 180) / 360) * size,
+        y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+    };
+}
+
+/**
+ * Coordinate of a world pixel at a zoom level
+ */
+export function unproject({ x, y }: Point, zoom: number): LatLng {
+    const size = worldSize(zoom);
+    const n = Math.PI - (2 * Math.PI * y) / size;
+
+    return {
+        lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+        lng: (x / size) * 360 - 180,
+    };
+}
+
+export function metersPerPixel(lat: number, zoom: number): number {
+    return (EARTH_CIRCUMFERENCE_M * Math.cos((lat * Math.PI) / 180)) / worldSize(zoom);
+}
+
+/**
+ * Highest zoom at which a circle of `radiusKm` around `lat` fits in `viewportPx`
+ */
+export function getZoomForRadius(radiusKm: number, lat: number, viewportPx: number, maxZoom: number): number {
+    for (let zoom = maxZoom; zoom > MIN_MAP_ZOOM; zoom--) {
+        if ((2 * radiusKm * 1000) / metersPerPixel(lat, zoom) <= viewportPx * 0.9) {
+            return zoom;
+        }
+    }
+    return MIN_MAP_ZOOM;
+}
+
+/**
+ * Fill a tile URL template. Supports {z}, {x}, {y} and {s} (a, b or c).
+ */
+export function buildTileUrl(template: string, z: number, x: number, y: number): string {
+    return template
+        .replace('{s}', 'abc'[Math.abs(x + y) % 3])
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+}
+
+/**
+ * Tiles covering a viewport of `width` x `height` centred on `center`
+ */
+export function getVisibleTiles(
+    center: LatLng,
+    zoom: number,
+    width: number,
+    height: number,
+    template: string
+): MapTile[] {
+    const origin = project(center, zoom);
+    const left = origin.x - width / 2;
+    const top = origin.y - height / 2;
+    const count = 2 ** zoom;
+    const tiles: MapTile[] = [];
+
+    for (let ty = Math.floor(top / TILE_SIZE); ty < Math.ceil((top + height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue;
+
+        for (let tx = Math.floor(left / TILE_SIZE); tx < Math.ceil((left + width) / TILE_SIZE); tx++) {
+            // Wrap around the antimeridian
+            const wrapped = ((tx % count) + count) % count;
+            tiles.push({
+                key: `${zoom}/${tx}/${ty}`,
+                url: buildTileUrl(template, zoom, wrapped, ty),
+                left: tx * TILE_SIZE - left,
+                top: ty * TILE_SIZE - top,
+            });
+        }
+    }
+
+    return tiles;
+}
+
+/**
+ * Position of a coordinate inside a viewport centred on `center`
+ */
+export function toViewportPoint(point: LatLng, center: LatLng, zoom: number, width: number, height: number): Point {
+    const origin = project(center, zoom);
+    const target = project(point, zoom);
+
+    return { x: target.x - origin.x + width / 2, y: target.y - origin.y + height / 2 };
+}
+
+/**
+ * Group markers that would overlap on screen. Markers are bucketed into a grid of
+ * `cellSize` pixels; each cluster sits at the average position of its markers.
+ */
+export function clusterMarkers<T>(
+    items: T[],
+    getPoint: (item: T) => Point,
+    cellSize: number
+): MarkerCluster<T>[] {
+    const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+
+    for (const item of items) {
+        const point = getPoint(item);
+        const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+        const cell = cells.get(key) ?? { sumX: 0, sumY: 0, items: [] };
+
+        cell.sumX += point.x;
+        cell.sumY += point.y;
+        cell.items.push(item);
+        cells.set(key, cell);
+    }
+
+    return Array.from(cells.values()).map(cell => ({
+        x: cell.sumX / cell.items.length,
+        y: cell.sumY / cell.items.length,
+        items: cell.items,
+    }));
+}
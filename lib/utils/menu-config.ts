@@ -21,8 +21,12 @@ import {
     User,
     Bell,
     BookOpen,
+    History,
+    Wallet,
+    Copy,
 } from "lucide-react";
 import { UserRole } from "@/lib/types/auth";
+import { Permission } from "@/lib/utils/rbac";
 
 export interface MenuItem {
     id: string;
@@ -30,6 +34,8 @@ export interface MenuItem {
     icon: React.ComponentType<{ className?: string }>;
     path: string;
     requiredRoles: UserRole[];
+    // When set, roles from the role matrix are checked for this permission instead of requiredRoles
+    requiredPermission?: Permission;
     description?: string;
     badge?: string;
     children?: MenuItem[];
@@ -82,6 +88,7 @@ export const mainMenuItems: MenuItem[] = [
         path: "/dashboard/users",
         description: "Manage system users and permissions",
         requiredRoles: [UserRole.SUPER_USER, UserRole.ADMIN_USER],
+        requiredPermission: Permission.VIEW_ALL_USERS,
     },
     {
         id: "hotels",
@@ -134,6 +141,25 @@ export const adminMenuItems: MenuItem[] = [
         path: "/dashboard/managePermission",
         description: "Manage user points",
         requiredRoles: [UserRole.SUPER_USER, UserRole.ADMIN_USER],
+        requiredPermission: Permission.MANAGE_POINTS,
+    },
+    {
+        id: "point-budgets",
+        label: "Point Budgets",
+        icon: Wallet,
+        path: "/dashboard/admin/point-budgets",
+        description: "Low-balance alerts and auto top-up rules",
+        requiredRoles: [UserRole.SUPER_USER, UserRole.ADMIN_USER],
+        requiredPermission: Permission.MANAGE_POINTS,
+    },
+    {
+        id: "hotel-duplicates",
+        label: "Duplicate Review",
+        icon: Copy,
+        path: "/dashboard/hotels/duplicates",
+        description: "Review ITTIDs that likely describe the same hotel",
+        requiredRoles: [UserRole.SUPER_USER, UserRole.ADMIN_USER],
+        requiredPermission: Permission.EDIT_HOTELS,
     },
     {
         id: "sync",
@@ -166,6 +192,25 @@ export const adminMenuItems: MenuItem[] = [
         path: "/dashboard/blog",
         description: "Manage blog content and rollout readiness",
         requiredRoles: [UserRole.SUPER_USER, UserRole.ADMIN_USER],
+        requiredPermission: Permission.VIEW_ALL_CONTENT,
+    },
+    {
+        id: "roles",
+        label: "Roles & Permissions",
+        icon: Shield,
+        path: "/dashboard/admin/roles",
+        description: "Edit the role permission matrix and custom roles",
+        requiredRoles: [UserRole.SUPER_USER],
+        requiredPermission: Permission.MANAGE_USER_ROLES,
+    },
+    {
+        id: "audit",
+        label: "Audit Log",
+        icon: History,
+        path: "/dashboard/admin/audit",
+        description: "Who did what to which user, role or trial request",
+        requiredRoles: [UserRole.SUPER_USER],
+        requiredPermission: Permission.VIEW_SYSTEM_SETTINGS,
     },
 ];
 
@@ -178,6 +223,7 @@ export const systemMenuItems: MenuItem[] = [
         path: "/admin",
         description: "System configuration and management",
         requiredRoles: [UserRole.SUPER_USER],
+        requiredPermission: Permission.MANAGE_SYSTEM_SETTINGS,
         children: [
             {
                 id: "admin-permissions",
@@ -186,6 +232,7 @@ export const systemMenuItems: MenuItem[] = [
                 path: "/admin/permissions",
                 description: "Manage user permissions",
                 requiredRoles: [UserRole.SUPER_USER],
+                requiredPermission: Permission.MANAGE_USER_ROLES,
             },
             {
                 id: "admin-config",
@@ -194,6 +241,7 @@ export const systemMenuItems: MenuItem[] = [
                 path: "/dashboard/settings",
                 description: "System configuration",
                 requiredRoles: [UserRole.SUPER_USER],
+                requiredPermission: Permission.MANAGE_SYSTEM_SETTINGS,
             },
         ],
     },
@@ -228,24 +276,59 @@ export function getMenuItemsByRole(userRole: UserRole): MenuItem[] {
 }
 
 /**
- * Get menu sections filtered by user role
+ * Get menu sections filtered by user role (and the role matrix's permissions, when known)
  */
-export function getMenuSectionsByRole(userRole: UserRole): MenuSection[] {
+export function getMenuSectionsByRole(userRole: UserRole, permissions?: Permission[]): MenuSection[] {
     return menuSections
         .map((section) => ({
             ...section,
-            items: section.items.filter((item) => item.requiredRoles.includes(userRole)),
+            items: section.items.filter((item) => hasMenuAccess(item, userRole, permissions)),
         }))
         .filter((section) => section.items.length > 0);
 }
 
 /**
- * Check if user has access to a menu item
+ * Check if user has access to a menu item.
+ * With permissions from the role matrix, items that name a requiredPermission are gated by it.
  */
-export function hasMenuAccess(item: MenuItem, userRole: UserRole): boolean {
+export function hasMenuAccess(item: MenuItem, userRole: UserRole, permissions?: Permission[]): boolean {
+    if (permissions && item.requiredPermission) {
+        return permissions.includes(item.requiredPermission);
+    }
     return item.requiredRoles.includes(userRole);
 }
 
+/**
+ * Find the most specific menu item (children included) whose path covers the given pathname.
+ * "/dashboard/users/42" matches "/dashboard/users" rather than "/dashboard".
+ */
+export function findMenuItemForPath(pathname: string): MenuItem | null {
+    let match: MenuItem | null = null;
+
+    const visit = (items: MenuItem[]) => {
+        for (const item of items) {
+            const covers = pathname === item.path || pathname.startsWith(`${item.path}/`);
+            if (covers && (!match || item.path.length > match.path.length)) {
+                match = item;
+            }
+            if (item.children) {
+                visit(item.children);
+            }
+        }
+    };
+
+    visit(menuSections.flatMap((section) => section.items));
+    return match;
+}
+
+/**
+ * Check if a role may open a path. Paths outside the menu are not role-gated.
+ */
+export function canAccessPath(pathname: string, userRole: UserRole, permissions?: Permission[]): boolean {
+    const item = findMenuItemForPath(pathname);
+    return !item || hasMenuAccess(item, userRole, permissions);
+}
+
 /**
  * Get breadcrumb items for a given path
  */
@@ -0,0 +1,179 @@
+/**
+ * Point budget helpers
+ * Threshold resolution, low-balance crossing detection, auto top-up matching and validation,
+ * shared by the point budget routes, the scheduler tick and the dashboard.
+ */
+
+import { UserRole } from '@/lib/types/auth';
+import type { CreateNotificationRequest } from '@/lib/api/notifications';
+import type {
+    AutoTopUpPaidStatus,
+    AutoTopUpRule,
+    PointAlertState,
+    PointBudgetStatus,
+    PointThreshold,
+    SaveAutoTopUpRuleInput,
+    SavePointThresholdInput,
+} from '@/lib/types/point-budgets';
+import { validateScheduleRule } from './export-schedule';
+
+export const POINT_ROLE_LABELS: Record<UserRole, string> = {
+    [UserRole.SUPER_USER]: 'Super users',
+    [UserRole.ADMIN_USER]: 'Admin users',
+    [UserRole.USER]: 'Users',
+    [UserRole.GENERAL_USER]: 'General users',
+};
+
+export const AUTO_TOP_UP_PAID_STATUS_LABELS: Record<AutoTopUpPaidStatus, string> = {
+    any: 'Paid and unpaid',
+    paid: 'Paid only',
+    unpaid: 'Unpaid only',
+};
+
+// The backend reports "Paid", "Unpaid" or "Unknown"
+export function isPaidStatus(paidStatus: string | undefined): boolean {
+    return paidStatus?.trim().toLowerCase() === 'paid';
+}
+
+/**
+ * The threshold that applies to a user: their own, otherwise their role's
+ */
+export function findEffectiveThreshold(
+    thresholds: PointThreshold[],
+    userId: string,
+    role?: string
+): PointThreshold | null {
+    return (
+        thresholds.find(item => item.scope === 'user' && item.targetId === userId) ??
+        thresholds.find(item => item.scope === 'role' && item.targetId === role) ??
+        null
+    );
+}
+
+/**
+ * Compare a balance with its threshold. `crossed` is only true when the user
+ * hasn't been alerted since they last went below it.
+ */
+export function evaluatePointBudget(
+    userId: string,
+    balance: number,
+    threshold: PointThreshold | null,
+    alert?: PointAlertState
+): PointBudgetStatus {
+    const low = threshold !== null && balance < threshold.threshold;
+    return { userId, balance, threshold, low, crossed: low && !alert };
+}
+
+export function buildLowBalanceNotification(
+    status: PointBudgetStatus,
+    username?: string
+): CreateNotificationRequest {
+    const threshold = status.threshold?.threshold ?? 0;
+
+    return {
+        user_id: status.userId,
+        type: 'point',
+        priority: status.balance === 0 ? 'critical' : 'high',
+        title: 'Point balance is running low',
+        message: `${username ? `${username} has` : 'You have'} ${status.balance.toLocaleString()} points left, below the ${threshold.toLocaleString()} point threshold.`,
+        meta_data: {
+            notification_source: 'point_budget',
+            threshold_id: status.threshold?.id,
+            threshold,
+            balance: status.balance,
+            action_url: '/dashboard/billing',
+        },
+    };
+}
+
+/**
+ * Whether a rule applies to a user, ignoring their balance
+ */
+export function matchesTopUpRule(
+    rule: Pick<AutoTopUpRule, 'roles' | 'paidStatus' | 'userIds'>,
+    user: { id: string; role: string; paidStatus?: string }
+): boolean {
+    if (rule.userIds.length > 0 && !rule.userIds.includes(user.id)) return false;
+    if (rule.roles.length > 0 && !rule.roles.includes(user.role as UserRole)) return false;
+    if (rule.paidStatus === 'paid') return isPaidStatus(user.paidStatus);
+    if (rule.paidStatus === 'unpaid') return !isPaidStatus(user.paidStatus);
+    return true;
+}
+
+/**
+ * Points needed to bring a balance up to the rule's target; never negative
+ */
+export function getTopUpAmount(targetBalance: number, balance: number): number {
+    return Math.max(0, targetBalance - Math.max(0, balance));
+}
+
+/**
+ * "Paid admin users", "All users", "3 selected users"...
+ */
+export function describeTopUpAudience(rule: Pick<AutoTopUpRule, 'roles' | 'paidStatus' | 'userIds'>): string {
+    const paid = rule.paidStatus === 'any' ? '' : `${rule.paidStatus === 'paid' ? 'Paid' : 'Unpaid'} `;
+
+    if (rule.userIds.length > 0) {
+        return `${paid}${rule.userIds.length} selected user${rule.userIds.length === 1 ? '' : 's'}`;
+    }
+    if (rule.roles.length === 0) {
+        return `${paid || 'All '}users`;
+    }
+
+    const roles = rule.roles.map(role => POINT_ROLE_LABELS[role]?.toLowerCase() ?? role).join(', ');
+    return paid ? `${paid}${roles}` : roles.charAt(0).toUpperCase() + roles.slice(1);
+}
+
+/**
+ * Validation errors for a threshold, keyed by field
+ */
+export function validatePointThreshold(input: Partial<SavePointThresholdInput>): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    if (input.scope !== 'user' && input.scope !== 'role') {
+        errors.scope = 'Scope must be user or role';
+    }
+    if (!input.targetId?.trim()) {
+        errors.targetId = input.scope === 'role' ? 'Choose a role' : 'User ID is required';
+    } else if (input.scope === 'role' && !Object.prototype.hasOwnProperty.call(POINT_ROLE_LABELS, input.targetId)) {
+        errors.targetId = 'Unknown role';
+    }
+    if (!Number.isInteger(input.threshold) || (input.threshold ?? 0) <= 0) {
+        errors.threshold = 'Threshold must be a positive whole number of points';
+    }
+
+    return errors;
+}
+
+/**
+ * Validation errors for an auto top-up rule, keyed by field
+ */
+export function validateTopUpRule(input: Partial<SaveAutoTopUpRuleInput>): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    if (!input.name?.trim()) {
+        errors.name = 'Name is required';
+    } else if (input.name.trim().length > 100) {
+        errors.name = 'Name must be 100 characters or fewer';
+    }
+    if (!Number.isInteger(input.targetBalance) || (input.targetBalance ?? 0) <= 0) {
+        errors.targetBalance = 'Target balance must be a positive whole number of points';
+    }
+    if (
+        !Array.isArray(input.roles) ||
+        input.roles.some(role => !Object.prototype.hasOwnProperty.call(POINT_ROLE_LABELS, role))
+    ) {
+        errors.roles = 'Roles must be known user roles';
+    }
+    if (!input.paidStatus || !Object.prototype.hasOwnProperty.call(AUTO_TOP_UP_PAID_STATUS_LABELS, input.paidStatus)) {
+        errors.paidStatus = 'Paid status must be any, paid or unpaid';
+    }
+    if (!Array.isArray(input.userIds) || input.userIds.some(id => typeof id !== 'string' || !id.trim())) {
+        errors.userIds = 'User IDs must be a list of IDs';
+    }
+
+    const scheduleError = validateScheduleRule(input.schedule);
+    if (scheduleError) errors.schedule = scheduleError;
+
+    return errors;
+}
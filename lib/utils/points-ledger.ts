@@ -0,0 +1,135 @@
+/**
+ * Points ledger helpers
+ * Running balances, reconciliation against the backend balance, and reversal rules
+ * shared by the ledger routes and the ledger page.
+ */
+
+import type {
+    PointsLedger,
+    PointsLedgerEntry,
+    PointsLedgerEntryType,
+    RecordPointsLedgerInput,
+} from '@/lib/types/points-ledger';
+import type { AllocationType } from '@/lib/types/user';
+
+export type PlannedLedgerEntry = Omit<PointsLedgerEntry, 'id' | 'createdAt'>;
+
+// Nominal package sizes, shown as estimates before an allocation; the ledger records the actual change
+export const ALLOCATION_PACKAGE_POINTS: Record<AllocationType, number> = {
+    admin_user_package: 10000,
+    one_year_package: 5000,
+    one_month_package: 500,
+    per_request_point: 10,
+    guest_point: 100,
+};
+
+export const POINTS_LEDGER_TYPE_LABELS: Record<PointsLedgerEntryType, string> = {
+    opening: 'Opening balance',
+    allocation: 'Allocation',
+    reset: 'Reset',
+    reversal: 'Reversal',
+    adjustment: 'Adjustment',
+    top_up: 'Auto top-up',
+};
+
+/**
+ * Sum of every entry, oldest first
+ */
+export function getLedgerBalance(entries: PointsLedgerEntry[]): number {
+    return entries.reduce((balance, entry) => balance + entry.amount, 0);
+}
+
+/**
+ * Build the ledger view from entries in the order they were recorded
+ */
+export function buildPointsLedger(userId: string, entries: PointsLedgerEntry[]): PointsLedger {
+    let balance = 0;
+    let totalCredits = 0;
+    let totalDebits = 0;
+
+    const rows = entries.map(entry => {
+        balance += entry.amount;
+        if (entry.amount > 0) totalCredits += entry.amount;
+        if (entry.amount < 0) totalDebits -= entry.amount;
+
+        return {
+            ...entry,
+            balance,
+            reversible: entry.type === 'allocation' && entry.amount > 0 && !entry.reversedById,
+        };
+    });
+
+    return { userId, entries: rows.reverse(), balance, totalCredits, totalDebits };
+}
+
+/**
+ * When the backend balance differs from the ledger (first use, or points spent on requests),
+ * plan an opening or adjustment entry so running balances stay true.
+ */
+export function planReconciliation(
+    existing: PointsLedgerEntry[],
+    currentBalance: number | undefined,
+    base: Pick<PointsLedgerEntry, 'userId' | 'username' | 'actorId' | 'actorName'>
+): PlannedLedgerEntry | null {
+    if (currentBalance === undefined) return null;
+
+    const difference = currentBalance - getLedgerBalance(existing);
+    if (difference === 0) return null;
+
+    return existing.length === 0
+        ? { ...base, type: 'opening', amount: difference, reason: 'Balance before ledger tracking' }
+        : { ...base, type: 'adjustment', amount: difference, reason: 'Balance changed outside the dashboard' };
+}
+
+/**
+ * Entries to append for an allocation, top-up or reset, including any reconciliation
+ */
+export function planLedgerEntries(
+    existing: PointsLedgerEntry[],
+    userId: string,
+    input: RecordPointsLedgerInput,
+    actor: { id: string; username: string }
+): PlannedLedgerEntry[] {
+    const base = { userId, username: input.username, actorId: actor.id, actorName: actor.username };
+    const reconciliation = planReconciliation(existing, input.currentBalance, base);
+    const balance = getLedgerBalance(existing) + (reconciliation?.amount ?? 0);
+
+    const entry: PlannedLedgerEntry =
+        input.type === 'reset'
+            ? {
+                  ...base,
+                  type: 'reset',
+                  amount: -balance,
+                  reason: input.reason?.trim() || 'Balance reset',
+              }
+            : {
+                  ...base,
+                  type: input.type,
+                  amount: input.amount!,
+                  allocationType: input.allocationType,
+                  reason: input.reason?.trim() || 'Points allocated',
+              };
+
+    return reconciliation ? [reconciliation, entry] : [entry];
+}
+
+/**
+ * Why an allocation can't be reversed, or null when it can.
+ * The balance must still cover the allocation so the user never goes negative.
+ */
+export function getReversalError(
+    entries: PointsLedgerEntry[],
+    entryId: string,
+    balance: number = getLedgerBalance(entries)
+): string | null {
+    const entry = entries.find(candidate => candidate.id === entryId);
+
+    if (!entry) return 'Ledger entry not found';
+    if (entry.type !== 'allocation' || entry.amount <= 0) return 'Only allocations can be reversed';
+    if (entry.reversedById) return 'This allocation has already been reversed';
+    if (balance < entry.amount) {
+        return `Only ${balance.toLocaleString()} points remain, so the allocation of ${entry.amount.toLocaleString()} can't be reversed`;
+    }
+
+    return null;
+}
@@ -5,6 +5,7 @@
 
 import { UserRole } from '@/lib/types/auth';
 import type { User } from '@/lib/types/auth';
+import type { PermissionOverrides } from '@/lib/types/roles';
 
 // Define permissions for different features
 export enum Permission {
@@ -46,8 +47,57 @@ export enum Permission {
     GIVE_POINTS = 'give_points',
 }
 
-// Role-based permissions mapping
-const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+export const ALL_PERMISSIONS: Permission[] = Object.values(Permission);
+
+// Permission groups, in the order the role matrix shows them
+export const PERMISSION_GROUPS: { label: string; permissions: Permission[] }[] = [
+    {
+        label: 'User Management',
+        permissions: [
+            Permission.VIEW_ALL_USERS,
+            Permission.CREATE_USERS,
+            Permission.EDIT_USERS,
+            Permission.DELETE_USERS,
+            Permission.MANAGE_USER_ROLES,
+        ],
+    },
+    {
+        label: 'Dashboard & Analytics',
+        permissions: [Permission.VIEW_DASHBOARD_STATS, Permission.VIEW_ANALYTICS, Permission.EXPORT_DATA],
+    },
+    {
+        label: 'Hotel Management',
+        permissions: [Permission.VIEW_ALL_HOTELS, Permission.CREATE_HOTELS, Permission.EDIT_HOTELS, Permission.DELETE_HOTELS],
+    },
+    {
+        label: 'Content Management',
+        permissions: [Permission.VIEW_ALL_CONTENT, Permission.CREATE_CONTENT, Permission.EDIT_CONTENT, Permission.DELETE_CONTENT],
+    },
+    {
+        label: 'Provider Management',
+        permissions: [Permission.VIEW_ALL_PROVIDERS, Permission.MANAGE_PROVIDERS],
+    },
+    {
+        label: 'System Settings',
+        permissions: [Permission.VIEW_SYSTEM_SETTINGS, Permission.MANAGE_SYSTEM_SETTINGS],
+    },
+    {
+        label: 'Points & Transactions',
+        permissions: [Permission.VIEW_ALL_TRANSACTIONS, Permission.MANAGE_POINTS, Permission.GIVE_POINTS],
+    },
+];
+
+/**
+ * Readable label for a permission ("view_all_users" → "View all users")
+ */
+export function getPermissionLabel(permission: Permission): string {
+    const words = permission.split('_');
+    return [words[0].charAt(0).toUpperCase() + words[0].slice(1), ...words.slice(1)].join(' ');
+}
+
+// Default permissions for the built-in roles. The role matrix (lib/db/role-storage.ts) can
+// override these and add custom roles; the session user then carries its resolved permissions.
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     [UserRole.SUPER_USER]: [
         // Super users have ALL permissions
         Permission.VIEW_ALL_USERS,
@@ -127,8 +177,7 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
 export function hasPermission(user: User | null, permission: Permission): boolean {
     if (!user) return false;
 
-    const userPermissions = ROLE_PERMISSIONS[user.role] || [];
-    return userPermissions.includes(permission);
+    return getUserPermissions(user).includes(permission);
 }
 
 /**
@@ -150,12 +199,28 @@ export function hasAllPermissions(user: User | null, permissions: Permission[]):
 }
 
 /**
- * Get all permissions for a user's role
+ * Add a user's granted permissions to their role permissions and remove denied ones.
+ * Denies win over grants. Applying the same overrides twice changes nothing.
+ */
+export function applyPermissionOverrides(
+    permissions: Permission[],
+    overrides?: PermissionOverrides | null
+): Permission[] {
+    if (!overrides) return permissions;
+
+    const granted = new Set([...permissions, ...overrides.granted]);
+    return ALL_PERMISSIONS.filter(permission => granted.has(permission) && !overrides.denied.includes(permission));
+}
+
+/**
+ * Get all permissions for a user: the role matrix's resolved permissions when loaded,
+ * otherwise the built-in defaults for the user's role, plus the user's overrides
  */
 export function getUserPermissions(user: User | null): Permission[] {
     if (!user) return [];
 
-    return ROLE_PERMISSIONS[user.role] || [];
+    const rolePermissions = user.permissions ?? DEFAULT_ROLE_PERMISSIONS[user.role] ?? [];
+    return applyPermissionOverrides(rolePermissions, user.permissionOverrides);
 }
 
 /**
@@ -168,12 +233,15 @@ export function canAccessRoute(user: User | null, route: string): boolean {
     const routePermissions: Record<string, Permission[]> = {
         '/dashboard/users': [Permission.VIEW_ALL_USERS],
         '/dashboard/users/create': [Permission.CREATE_USERS],
+        '/dashboard/users/import': [Permission.CREATE_USERS],
         '/dashboard/hotels': [Permission.VIEW_ALL_HOTELS],
+        '/dashboard/hotels/duplicates': [Permission.EDIT_HOTELS],
         '/dashboard/analytics': [Permission.VIEW_ANALYTICS],
         '/dashboard/providers': [Permission.VIEW_ALL_PROVIDERS],
         '/dashboard/exports': [Permission.EXPORT_DATA],
         '/dashboard/blog': [Permission.VIEW_ALL_CONTENT],
         '/dashboard/settings': [Permission.VIEW_SYSTEM_SETTINGS],
+        '/dashboard/admin/point-budgets': [Permission.MANAGE_POINTS],
     };
 
     const requiredPermissions = routePermissions[route];
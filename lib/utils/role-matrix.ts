@@ -0,0 +1,207 @@
+/**
+ * Role matrix rules
+ * Shared by the roles admin screen and the role routes: built-in role defaults, custom role
+ * validation, resolving a user's effective role and permissions, and previewing the menu a role would see.
+ */
+
+import { UserRole, type User } from '@/lib/types/auth';
+import type {
+    EffectivePermission,
+    PermissionOverrides,
+    PermissionSource,
+    RoleDefinition,
+    RoleMatrix,
+    UserPermissionSummary,
+} from '@/lib/types/roles';
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, Permission } from '@/lib/utils/rbac';
+import { getMenuSectionsByRole, type MenuSection } from '@/lib/utils/menu-config';
+
+export const MAX_ROLE_NAME_LENGTH = 50;
+
+export const BUILT_IN_ROLES: { id: UserRole; name: string; description: string }[] = [
+    { id: UserRole.SUPER_USER, name: 'Super User', description: 'Full access, including system settings and roles' },
+    { id: UserRole.ADMIN_USER, name: 'Admin User', description: 'Manages users, content and points' },
+    { id: UserRole.USER, name: 'User', description: 'Own dashboard and analytics' },
+    { id: UserRole.GENERAL_USER, name: 'General User', description: 'Basic dashboard access' },
+];
+
+const BUILT_IN_ROLE_IDS: string[] = BUILT_IN_ROLES.map(role => role.id);
+
+/**
+ * Super users always keep every permission, so the matrix can't lock everyone out of it
+ */
+export function isLockedRole(roleId: string): boolean {
+    return roleId === UserRole.SUPER_USER;
+}
+
+export function isBuiltInRoleId(roleId: string): roleId is UserRole {
+    return BUILT_IN_ROLE_IDS.includes(roleId);
+}
+
+/**
+ * Keep known permissions only, deduplicated and in matrix order
+ */
+export function sanitizePermissions(permissions: unknown): Permission[] {
+    if (!Array.isArray(permissions)) return [];
+    return ALL_PERMISSIONS.filter(permission => permissions.includes(permission));
+}
+
+/**
+ * Merge stored roles with the built-in defaults.
+ * Built-in roles come first in their fixed order, then custom roles by name.
+ */
+export function mergeRoles(stored: RoleDefinition[], now: string = new Date().toISOString()): RoleDefinition[] {
+    const builtIn = BUILT_IN_ROLES.map(({ id, name, description }): RoleDefinition => {
+        const override = stored.find(role => role.id === id);
+        return {
+            id,
+            name,
+            description,
+            builtIn: true,
+            baseRole: id,
+            permissions: isLockedRole(id)
+                ? [...ALL_PERMISSIONS]
+                : override ? sanitizePermissions(override.permissions) : [...DEFAULT_ROLE_PERMISSIONS[id]],
+            createdAt: override?.createdAt ?? now,
+            updatedAt: override?.updatedAt ?? now,
+        };
+    });
+
+    const custom = stored
+        .filter(role => !isBuiltInRoleId(role.id))
+        .map(role => ({ ...role, builtIn: false, permissions: sanitizePermissions(role.permissions) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    return [...builtIn, ...custom];
+}
+
+/**
+ * ID for a new custom role ("Support Agent" → "role_support_agent")
+ */
+export function getRoleIdForName(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return `role_${slug || 'custom'}`;
+}
+
+/**
+ * Validate a role name. Returns an error message, or null when valid.
+ */
+export function validateRoleName(name: unknown): string | null {
+    if (typeof name !== 'string' || !name.trim()) {
+        return 'Role name is required';
+    }
+
+    if (name.trim().length > MAX_ROLE_NAME_LENGTH) {
+        return `Role name must be ${MAX_ROLE_NAME_LENGTH} characters or fewer`;
+    }
+
+    return null;
+}
+
+/**
+ * Whether another role already uses this name, or the ID a new role with this name would get
+ */
+export function isRoleNameTaken(name: string, roles: RoleDefinition[], excludeId?: string): boolean {
+    const trimmed = name.trim().toLowerCase();
+    const id = getRoleIdForName(name);
+
+    return roles.some(
+        role => role.id !== excludeId && (role.name.toLowerCase() === trimmed || (!excludeId && role.id === id))
+    );
+}
+
+/**
+ * The role a user acts as: their custom role assignment, or their built-in role
+ */
+export function resolveUserRole(user: Pick<User, 'id' | 'role'>, matrix: RoleMatrix): RoleDefinition | undefined {
+    const assignment = matrix.assignments.find(entry => entry.userId === user.id);
+    const assigned = assignment && matrix.roles.find(role => role.id === assignment.roleId);
+
+    return assigned || matrix.roles.find(role => role.id === user.role);
+}
+
+/**
+ * Validate per-user overrides. Returns an error message, or null when valid.
+ */
+export function validatePermissionOverrides(granted: unknown, denied: unknown): string | null {
+    if (!Array.isArray(granted) || !Array.isArray(denied)) {
+        return 'Granted and denied permissions must be lists';
+    }
+
+    const unknown = [...granted, ...denied].find(permission => !ALL_PERMISSIONS.includes(permission));
+    if (unknown !== undefined) {
+        return `Unknown permission: ${unknown}`;
+    }
+
+    const both = granted.find(permission => denied.includes(permission));
+    return both ? `"${both}" can't be both granted and denied` : null;
+}
+
+/**
+ * Every permission with whether the user has it and why.
+ * Super users keep all permissions regardless of overrides.
+ */
+export function getPermissionSources(
+    role: RoleDefinition,
+    overrides?: PermissionOverrides | null
+): EffectivePermission[] {
+    const applied = isLockedRole(role.id) ? null : overrides;
+
+    return ALL_PERMISSIONS.map(permission => {
+        if (applied?.denied.includes(permission)) {
+            return { permission, granted: false, source: 'deny' as const };
+        }
+        if (role.permissions.includes(permission)) {
+            return { permission, granted: true, source: 'role' as const };
+        }
+        if (applied?.granted.includes(permission)) {
+            return { permission, granted: true, source: 'grant' as const };
+        }
+        return { permission, granted: false, source: 'none' as const };
+    });
+}
+
+/**
+ * Human-readable origin of a permission, e.g. "From role: Support Agent"
+ */
+export function getPermissionSourceLabel(source: PermissionSource, roleName: string): string {
+    switch (source) {
+        case 'role':
+            return `From role: ${roleName}`;
+        case 'grant':
+            return 'Granted to this user';
+        case 'deny':
+            return 'Denied for this user';
+        default:
+            return 'Not granted';
+    }
+}
+
+/**
+ * A user's role, overrides and effective permissions with their sources
+ */
+export function getUserPermissionSummary(
+    user: Pick<User, 'id' | 'role'>,
+    matrix: RoleMatrix
+): UserPermissionSummary | undefined {
+    const role = resolveUserRole(user, matrix);
+    if (!role) return undefined;
+
+    const overrides = matrix.overrides.find(entry => entry.userId === user.id) ?? null;
+
+    return {
+        userId: user.id,
+        roleId: role.id,
+        roleName: role.name,
+        locked: isLockedRole(role.id),
+        overrides,
+        permissions: getPermissionSources(role, overrides),
+    };
+}
+
+/**
+ * Menu sections a role would see in the sidebar
+ */
+export function getMenuPreview(role: RoleDefinition): MenuSection[] {
+    return getMenuSectionsByRole(role.baseRole, role.permissions);
+}
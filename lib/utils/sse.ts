@@ -0,0 +1,47 @@
+/**
+ * Minimal Server-Sent Events parser
+ * Used where EventSource can't be (it cannot send an Authorization header)
+ */
+
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+    id?: string;
+}
+
+/**
+ * Parse complete events out of a text buffer.
+ * Returns the parsed events and the trailing partial event to prepend to the next chunk.
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; remainder: string } {
+    const normalized = buffer.replace(/\r\n?/g, '\n');
+    const blocks = normalized.split('\n\n');
+    const remainder = blocks.pop() ?? '';
+    const events: ServerSentEvent[] = [];
+
+    for (const block of blocks) {
+        let event = 'message';
+        let id: string | undefined;
+        const data: string[] = [];
+
+        for (const line of block.split('\n')) {
+            // Comment lines (": ping") are keep-alives
+            if (!line || line.startsWith(':')) continue;
+
+            const colon = line.indexOf(':');
+            const field = colon === -1 ? line : line.slice(0, colon);
+            let value = colon === -1 ? '' : line.slice(colon + 1);
+            if (value.startsWith(' ')) value = value.slice(1);
+
+            if (field === 'event') event = value;
+            else if (field === 'data') data.push(value);
+            else if (field === 'id') id = value;
+        }
+
+        if (data.length > 0) {
+            events.push({ event, data: data.join('\n'), id });
+        }
+    }
+
+    return { events, remainder };
+}
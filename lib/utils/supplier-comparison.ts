@@ -0,0 +1,166 @@
+/**
+ * Supplier content comparison
+ * Lines up several suppliers' full_details for one hotel field by field, flags fields
+ * they disagree on and marks whose content is richest.
+ */
+
+import type { ProviderMappingDetail } from '@/lib/types/full-hotel-details';
+
+export type SupplierComparisonField =
+    | 'name'
+    | 'address'
+    | 'starRating'
+    | 'propertyType'
+    | 'facilities'
+    | 'roomTypes'
+    | 'photos'
+    | 'descriptions';
+
+export interface ComparisonItem {
+    label: string;
+    // Listed by every supplier that lists anything for this field
+    shared: boolean;
+}
+
+export interface ComparisonCell {
+    // null when the supplier has nothing for this field
+    text: string | null;
+    count?: number;
+    items?: ComparisonItem[];
+}
+
+export interface ComparisonRow {
+    field: SupplierComparisonField;
+    label: string;
+    // One per compared supplier, in order
+    cells: ComparisonCell[];
+    // Suppliers that have a value don't all agree
+    disagree: boolean;
+    // Indexes of the suppliers with the most content, for list and count fields
+    richest: number[];
+}
+
+export interface SupplierComparison {
+    suppliers: string[];
+    rows: ComparisonRow[];
+    // Fields each supplier has a value for
+    filled: number[];
+}
+
+export const SUPPLIER_COMPARISON_LABELS: Record<SupplierComparisonField, string> = {
+    name: 'Name',
+    address: 'Address',
+    starRating: 'Star rating',
+    propertyType: 'Property type',
+    facilities: 'Facilities',
+    roomTypes: 'Room types',
+    photos: 'Photos',
+    descriptions: 'Descriptions',
+};
+
+// Case, accents, punctuation and spacing don't count as disagreement
+export function normalizeComparisonText(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function presentText(value: string | null | undefined): string | null {
+    return value && value.trim() ? value.trim() : null;
+}
+
+function textsDisagree(cells: ComparisonCell[], normalize: (text: string) => string = normalizeComparisonText): boolean {
+    const values = new Set(cells.filter(cell => cell.text !== null).map(cell => normalize(cell.text!)));
+    return values.size > 1;
+}
+
+function richestOf(counts: number[]): number[] {
+    const max = Math.max(0, ...counts);
+    if (max === 0 || counts.every(count => count === max)) return [];
+
+    return counts.reduce<number[]>((indexes, count, index) => (count === max ? [...indexes, index] : indexes), []);
+}
+
+function textRow(field: SupplierComparisonField, values: (string | null)[], normalize?: (text: string) => string): ComparisonRow {
+    const cells = values.map(text => ({ text }));
+    return { field, label: SUPPLIER_COMPARISON_LABELS[field], cells, disagree: textsDisagree(cells, normalize), richest: [] };
+}
+
+function listRow(field: SupplierComparisonField, lists: string[][]): ComparisonRow {
+    const normalized = lists.map(list => new Set(list.map(normalizeComparisonText)));
+    const listing = normalized.filter(set => set.size > 0);
+
+    const cells = lists.map(list => ({
+        text: list.length > 0 ? `${list.length}` : null,
+        count: list.length,
+        items: list.map(label => ({
+            label,
+            shared: listing.every(set => set.has(normalizeComparisonText(label))),
+        })),
+    }));
+    const keys = listing.map(set => Array.from(set).sort().join('\n'));
+
+    return {
+        field,
+        label: SUPPLIER_COMPARISON_LABELS[field],
+        cells,
+        disagree: new Set(keys).size > 1,
+        richest: richestOf(normalized.map(set => set.size)),
+    };
+}
+
+/**
+ * Compare the given suppliers' content. Suppliers without full_details get empty cells.
+ */
+export function compareSupplierContent(providers: ProviderMappingDetail[]): SupplierComparison {
+    const details = providers.map(provider => provider.full_details);
+
+    const address = details.map(detail => {
+        if (!detail?.address) return null;
+        const { full_address, address_line_1, city, postal_code } = detail.address;
+        return presentText(full_address) ?? presentText([address_line_1, city, postal_code].filter(Boolean).join(', '));
+    });
+    const starRatings = details.map(detail => {
+        const rating = parseFloat(detail?.star_rating ?? '');
+        return Number.isFinite(rating) && rating > 0 ? String(rating) : null;
+    });
+    const photoCounts = details.map(detail => detail?.hotel_photo?.length ?? 0);
+    const descriptions = details.map(detail =>
+        presentText(
+            (detail?.descriptions ?? [])
+                .map(description => description.text)
+                .filter(Boolean)
+                .join('\n\n')
+        )
+    );
+
+    const descriptionRow = textRow('descriptions', descriptions);
+    descriptionRow.cells = descriptionRow.cells.map(cell => ({ ...cell, count: cell.text?.length ?? 0 }));
+    descriptionRow.richest = richestOf(descriptionRow.cells.map(cell => cell.count ?? 0));
+
+    const rows: ComparisonRow[] = [
+        textRow('name', details.map(detail => presentText(detail?.name))),
+        textRow('address', address),
+        textRow('starRating', starRatings, text => text),
+        textRow('propertyType', details.map(detail => presentText(detail?.property_type))),
+        listRow('facilities', details.map(detail => (detail?.facilities ?? []).map(facility => facility.title).filter(Boolean))),
+        listRow('roomTypes', details.map(detail => (detail?.room_type ?? []).map(room => room.title).filter(Boolean))),
+        {
+            field: 'photos',
+            label: SUPPLIER_COMPARISON_LABELS.photos,
+            cells: photoCounts.map(count => ({ text: count > 0 ? `${count}` : null, count })),
+            disagree: new Set(photoCounts.filter(count => count > 0)).size > 1,
+            richest: richestOf(photoCounts),
+        },
+        descriptionRow,
+    ];
+
+    return {
+        suppliers: providers.map(provider => provider.provider_name),
+        rows,
+        filled: providers.map((_, index) => rows.filter(row => row.cells[index].text !== null).length),
+    };
+}
@@ -0,0 +1,235 @@
+/**
+ * CSV user import helpers
+ * Parsing, validation and the results report used by the user import page.
+ */
+
+import { UserRole } from '@/lib/types/auth';
+import type { UserImportResult, UserImportRow } from '@/lib/types/user';
+import { parseCsv, toCsv } from './csv';
+
+export interface ImportSupplier {
+    id: string;
+    name: string;
+}
+
+export interface ParsedUserImport {
+    rows: UserImportRow[];
+    error?: string;
+}
+
+/** Accounts already in the system, matched case-insensitively */
+export interface ExistingUserMatches {
+    usernames: Set<string>;
+    emails: Set<string>;
+}
+
+export const USER_IMPORT_MAX_ROWS = 500;
+
+export const USER_IMPORT_TEMPLATE =
+    'username,email,role,points,suppliers,business_id\r\n' +
+    'jane_doe,jane@example.com,general_user,100,hotelbeds;expedia,\r\n';
+
+const COLUMN_ALIASES: Record<string, keyof UserImportRow> = {
+    username: 'username',
+    user: 'username',
+    email: 'email',
+    role: 'role',
+    points: 'points',
+    initial_points: 'points',
+    suppliers: 'suppliers',
+    business_id: 'businessId',
+};
+
+const ROLE_ALIASES: Record<string, UserRole> = {
+    general: UserRole.GENERAL_USER,
+    general_user: UserRole.GENERAL_USER,
+    user: UserRole.USER,
+    admin: UserRole.ADMIN_USER,
+    admin_user: UserRole.ADMIN_USER,
+    super: UserRole.SUPER_USER,
+    super_user: UserRole.SUPER_USER,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+function normalizeHeader(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Parse an uploaded CSV into import rows with per-row format errors.
+ * Suppliers are separated by ";" or "|" and may be given by id or name.
+ */
+export function parseUserImportCsv(text: string, knownSuppliers: ImportSupplier[]): ParsedUserImport {
+    const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+
+    if (!header) {
+        return { rows: [], error: 'The file is empty' };
+    }
+
+    const columns = header.map(cell => COLUMN_ALIASES[normalizeHeader(cell)]);
+    const missing = (['username', 'email'] as const).filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+        return { rows: [], error: `Missing required column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+    }
+    if (records.length === 0) {
+        return { rows: [], error: 'The file has a header but no users' };
+    }
+    if (records.length > USER_IMPORT_MAX_ROWS) {
+        return { rows: [], error: `Import at most ${USER_IMPORT_MAX_ROWS} users per file` };
+    }
+
+    const supplierLookup = new Map<string, string>();
+    knownSuppliers.forEach(supplier => {
+        supplierLookup.set(supplier.id.toLowerCase(), supplier.id);
+        supplierLookup.set(supplier.name.toLowerCase(), supplier.id);
+    });
+
+    const rows = records.map((cells, index) => {
+        const value = (column: keyof UserImportRow) => {
+            const position = columns.indexOf(column);
+            return position === -1 ? '' : (cells[position] ?? '').trim();
+        };
+
+        const row: UserImportRow = {
+            // Line 1 is the header
+            line: index + 2,
+            username: value('username'),
+            email: value('email'),
+            role: null,
+            points: null,
+            suppliers: [],
+            businessId: value('businessId'),
+            errors: [],
+            warnings: [],
+        };
+
+        if (!row.username) {
+            row.errors.push('Username is required');
+        } else if (row.username.length < 3) {
+            row.errors.push('Username must be at least 3 characters');
+        } else if (!USERNAME_PATTERN.test(row.username)) {
+            row.errors.push('Username can only contain letters, numbers, hyphens, and underscores');
+        }
+
+        if (!row.email) {
+            row.errors.push('Email is required');
+        } else if (!EMAIL_PATTERN.test(row.email)) {
+            row.errors.push(`"${row.email}" is not a valid email address`);
+        }
+
+        const role = value('role');
+        const roleKey = normalizeHeader(role);
+        row.role = !role
+            ? UserRole.GENERAL_USER
+            : Object.prototype.hasOwnProperty.call(ROLE_ALIASES, roleKey) ? ROLE_ALIASES[roleKey] : null;
+        if (!row.role) {
+            row.errors.push(`Unknown role "${role}"`);
+        } else if (row.role === UserRole.USER) {
+            // The backend only has create endpoints for super, admin and general users
+            row.errors.push('Users with the "user" role can\'t be imported; use general_user');
+        } else if (row.role === UserRole.ADMIN_USER && !row.businessId) {
+            row.errors.push('Admin users need a business_id');
+        }
+
+        const points = value('points');
+        if (points) {
+            const parsed = Number(points);
+            if (!Number.isInteger(parsed) || parsed < 0) {
+                row.errors.push(`Points must be a whole number of 0 or more, got "${points}"`);
+            } else {
+                row.points = parsed;
+            }
+        }
+
+        value('suppliers')
+            .split(/[;|]/)
+            .map(supplier => supplier.trim())
+            .filter(Boolean)
+            .forEach(supplier => {
+                const id = supplierLookup.get(supplier.toLowerCase());
+                if (!id) {
+                    row.errors.push(`Unknown supplier "${supplier}"`);
+                } else if (!row.suppliers.includes(id)) {
+                    row.suppliers.push(id);
+                }
+            });
+
+        return row;
+    });
+
+    return { rows };
+}
+
+/**
+ * Flag rows that repeat a username or email earlier in the file or that match an existing account.
+ * Returns new rows; the input is left untouched so validation can be re-run with fresh matches.
+ */
+export function flagDuplicateUsers(rows: UserImportRow[], existing: ExistingUserMatches): UserImportRow[] {
+    const seenUsernames = new Map<string, number>();
+    const seenEmails = new Map<string, number>();
+
+    return rows.map(row => {
+        const errors = [...row.errors];
+        const username = row.username.toLowerCase();
+        const email = row.email.toLowerCase();
+
+        if (username && seenUsernames.has(username)) {
+            errors.push(`Username repeats line ${seenUsernames.get(username)}`);
+        } else if (username && existing.usernames.has(username)) {
+            errors.push(`Username "${row.username}" already exists`);
+        }
+        if (email && seenEmails.has(email)) {
+            errors.push(`Email repeats line ${seenEmails.get(email)}`);
+        } else if (email && existing.emails.has(email)) {
+            errors.push(`Email "${row.email}" already belongs to an account`);
+        }
+
+        if (username && !seenUsernames.has(username)) seenUsernames.set(username, row.line);
+        if (email && !seenEmails.has(email)) seenEmails.set(email, row.line);
+
+        return { ...row, errors };
+    });
+}
+
+/**
+ * Flag super user rows unless the importer is a super user. Returns new rows.
+ */
+export function flagRestrictedRoles(rows: UserImportRow[], importerRole: UserRole | undefined): UserImportRow[] {
+    if (importerRole === UserRole.SUPER_USER) return rows;
+
+    return rows.map(row =>
+        row.role === UserRole.SUPER_USER
+            ? { ...row, errors: [...row.errors, 'Only super users can import super users'] }
+            : row
+    );
+}
+
+/**
+ * Split rows into fixed-size batches
+ */
+export function chunkRows<T>(rows: T[], size: number): T[][] {
+    const batches: T[][] = [];
+    for (let i = 0; i < rows.length; i += size) {
+        batches.push(rows.slice(i, i + size));
+    }
+    return batches;
+}
+
+/**
+ * Results report with one line per imported row
+ */
+export function buildUserImportReportCsv(results: UserImportResult[]): string {
+    const header = ['line', 'username', 'email', 'status', 'user_id', 'message'];
+    const rows = results.map(result => [
+        result.line,
+        result.username,
+        result.email,
+        result.status,
+        result.userId,
+        result.message,
+    ]);
+
+    return toCsv([header, ...rows]);
+}
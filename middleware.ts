@@ -1,13 +1,77 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-
-// Define public routes that don't require authentication
-const publicRoutes = ['/login', '/register', '/forgot-password', '/'];
+import { RETURN_TO_PARAM, SESSION_COOKIE_NAME } from '@/lib/auth/session-cookie';
+import { canAccessPath } from '@/lib/utils/menu-config';
+import type { User } from '@/lib/types/auth';
 
 // Define protected routes that require authentication
-const protectedRoutes = ['/dashboard'];
+const protectedRoutes = ['/dashboard', '/admin'];
+
+// Where signed-in users land when their role can't open a page
+const ACCESS_DENIED_REDIRECT = '/dashboard';
+
+// Validated sessions are reused briefly so page navigations don't each hit the backend
+const SESSION_CACHE_TTL_MS = 30 * 1000;
+const SESSION_CACHE_MAX_ENTRIES = 500;
+type SessionValidation =
+    | { status: 'valid'; user: User }
+    | { status: 'invalid' }
+    | { status: 'unavailable' };
+
+const sessionCache = new Map<string, { validation: SessionValidation; expiresAt: number }>();
+
+/**
+ * Resolve the session through the session route, which runs on the Node.js runtime and can
+ * read the role matrix (the middleware runs on the edge runtime without file access)
+ */
+async function fetchSession(request: NextRequest, token: string): Promise<SessionValidation> {
+    try {
+        const response = await fetch(new URL('/api/v1/auth/session', request.url), {
+            headers: { Cookie: `${SESSION_COOKIE_NAME}=${token}` },
+            cache: 'no-store',
+        });
+
+        if (response.status === 401) {
+            return { status: 'invalid' };
+        }
+        if (!response.ok) {
+            return { status: 'unavailable' };
+        }
+
+        const result = await response.json();
+        return { status: 'valid', user: result.data };
+    } catch (error) {
+        console.error('❌ Error resolving session in middleware:', error);
+        return { status: 'unavailable' };
+    }
+}
 
-export function middleware(request: NextRequest) {
+async function getCachedValidation(request: NextRequest, token: string): Promise<SessionValidation> {
+    const cached = sessionCache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.validation;
+    }
+
+    const validation = await fetchSession(request, token);
+
+    // Don't cache an unreachable backend; the next request should try again
+    if (validation.status !== 'unavailable') {
+        if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+            sessionCache.delete(sessionCache.keys().next().value as string);
+        }
+        sessionCache.set(token, { validation, expiresAt: Date.now() + SESSION_CACHE_TTL_MS });
+    }
+
+    return validation;
+}
+
+function redirectToLogin(request: NextRequest): NextResponse {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set(RETURN_TO_PARAM, `${request.nextUrl.pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(loginUrl);
+}
+
+export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
     // Skip middleware for service worker files and other static assets
@@ -36,8 +100,39 @@ export function middleware(request: NextRequest) {
         return NextResponse.redirect(new URL('/', request.url));
     }
 
-    // Temporarily disable other middleware logic to allow client-side auth handling
-    // The auth context will handle redirects on the client side
+    const isProtectedRoute = protectedRoutes.some(
+        (route) => pathname === route || pathname.startsWith(`${route}/`)
+    );
+
+    if (!isProtectedRoute) {
+        return NextResponse.next();
+    }
+
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+
+    if (!token) {
+        return redirectToLogin(request);
+    }
+
+    const validation = await getCachedValidation(request, token);
+
+    if (validation.status === 'invalid') {
+        const response = redirectToLogin(request);
+        response.cookies.delete(SESSION_COOKIE_NAME);
+        return response;
+    }
+
+    // Backend unreachable: let the page load and leave the decision to the client-side auth context
+    if (validation.status === 'unavailable') {
+        return NextResponse.next();
+    }
+
+    // Role gating uses the same menu data as the sidebar, including role matrix permissions
+    if (!canAccessPath(pathname, validation.user.role, validation.user.permissions)) {
+        console.warn(`⚠️ ${validation.user.role} denied access to ${pathname}`);
+        return NextResponse.redirect(new URL(ACCESS_DENIED_REDIRECT, request.url));
+    }
+
     return NextResponse.next();
 }
 
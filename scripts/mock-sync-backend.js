@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the content sync jobs API.
+ *
+ * Serves the same routes as the backend under /v1.0/content/sync so the
+ * Sync History page can be exercised without the real service:
+ *
+ *   GET  /v1.0/content/sync/jobs             ?status=&type=&provider=&limit=
+ *   POST /v1.0/content/sync/jobs             { type, provider? }
+ *   GET  /v1.0/content/sync/jobs/:id
+ *   POST /v1.0/content/sync/jobs/:id/cancel
+ *   GET  /v1.0/content/sync/stats
+ *
+ * Usage:
+ *   npm run mock:sync
+ *   NEXT_PUBLIC_SYNC_API_URL=http://127.0.0.1:8010/v1.0 npm run dev
+ *
+ * Options (environment):
+ *   MOCK_SYNC_PORT       port to listen on (default 8010)
+ *   MOCK_SYNC_FAIL_RATE  chance 0..1 that a job fails part-way (default 0.1)
+ */
+
+const http = require("http");
+const { URL } = require("url");
+
+const PORT = parseInt(process.env.MOCK_SYNC_PORT || "8010", 10);
+const FAIL_RATE = parseFloat(process.env.MOCK_SYNC_FAIL_RATE || "0.1");
+const PREFIX = "/v1.0/content/sync";
+
+const JOB_TYPES = ["hotel", "mapping", "content", "full"];
+
+// Simulated size and run time of each job type
+const JOB_PROFILES = {
+  hotel: { itemsTotal: 500, durationMs: 20000 },
+  mapping: { itemsTotal: 1200, durationMs: 30000 },
+  content: { itemsTotal: 1000, durationMs: 25000 },
+  full: { itemsTotal: 5000, durationMs: 60000 },
+};
+
+const QUEUE_DELAY_MS = 2000;
+
+let nextId = 1;
+const jobs = [];
+
+function createJob(type, provider, startedAt) {
+  const profile = JOB_PROFILES[type];
+  const job = {
+    id: `sync_${Date.now()}_${nextId++}`,
+    type,
+    provider: provider || undefined,
+    status: "pending",
+    startedAt: new Date(startedAt).toISOString(),
+    itemsProcessed: 0,
+    itemsTotal: profile.itemsTotal,
+    progress: 0,
+    // Internal simulation state, stripped from responses
+    _createdAt: startedAt,
+    _failAt: Math.random() < FAIL_RATE ? 0.2 + Math.random() * 0.6 : null,
+  };
+  jobs.unshift(job);
+  return job;
+}
+
+function finishJob(job, status, finishedAt, error) {
+  job.status = status;
+  job.completedAt = new Date(finishedAt).toISOString();
+  job.duration = Math.round((finishedAt - job._createdAt) / 1000);
+  if (error) job.error = error;
+}
+
+/**
+ * Advance a job based on wall-clock time since it was created
+ */
+function advance(job, now = Date.now()) {
+  if (job.status !== "pending" && job.status !== "running") return;
+
+  const elapsed = now - job._createdAt;
+  if (elapsed < QUEUE_DELAY_MS) return;
+
+  const profile = JOB_PROFILES[job.type];
+  const fraction = Math.min((elapsed - QUEUE_DELAY_MS) / profile.durationMs, 1);
+
+  job.status = "running";
+
+  if (job._failAt !== null && fraction >= job._failAt) {
+    job.progress = Math.floor(job._failAt * 100);
+    job.itemsProcessed = Math.floor(job._failAt * job.itemsTotal);
+    finishJob(job, "failed", now, "Connection timeout while fetching supplier content");
+    return;
+  }
+
+  job.progress = Math.floor(fraction * 100);
+  job.itemsProcessed = Math.floor(fraction * job.itemsTotal);
+
+  if (fraction >= 1) {
+    finishJob(job, "completed", now);
+  }
+}
+
+function publicJob(job) {
+  const { _createdAt, _failAt, ...rest } = job;
+  return rest;
+}
+
+function computeStats() {
+  const finished = jobs.filter((job) => job.status === "completed" || job.status === "failed");
+  const completed = finished.filter((job) => job.status === "completed");
+  const dayAgo = Date.now() - 24 * 3600 * 1000;
+
+  const lastFinished = finished
+    .map((job) => job.completedAt)
+    .sort()
+    .pop();
+
+  return {
+    totalSyncs: jobs.length,
+    successfulSyncs: completed.length,
+    failedSyncs: finished.length - completed.length,
+    averageDuration: completed.length
+      ? Math.round(completed.reduce((sum, job) => sum + (job.duration || 0), 0) / completed.length)
+      : 0,
+    lastSyncTime: lastFinished || null,
+    itemsSyncedToday: jobs
+      .filter((job) => job._createdAt >= dayAgo)
+      .reduce((sum, job) => sum + (job.itemsProcessed || 0), 0),
+  };
+}
+
+function seedHistory() {
+  const now = Date.now();
+  const seeds = [
+    { type: "content", hoursAgo: 8, status: "failed" },
+    { type: "mapping", hoursAgo: 5, status: "completed" },
+    { type: "hotel", hoursAgo: 2, status: "completed" },
+  ];
+
+  seeds.forEach(({ type, hoursAgo, status }) => {
+    const startedAt = now - hoursAgo * 3600 * 1000;
+    const job = createJob(type, undefined, startedAt);
+    const finishedAt = startedAt + QUEUE_DELAY_MS + JOB_PROFILES[type].durationMs;
+
+    job._failAt = null;
+    if (status === "failed") {
+      job.progress = 15;
+      job.itemsProcessed = Math.floor(job.itemsTotal * 0.15);
+      finishJob(job, "failed", finishedAt, "Connection timeout");
+    } else {
+      job.progress = 100;
+      job.itemsProcessed = job.itemsTotal;
+      finishJob(job, "completed", finishedAt);
+    }
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        resolve(null);
+      }
+    });
+  });
+}
+
+async function handle(req, res) {
+  if (req.method === "OPTIONS") {
+    return send(res, 204);
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+  const path = url.pathname.replace(/\/+$/, "");
+
+  if (!path.startsWith(PREFIX)) {
+    return send(res, 404, { detail: "Not found" });
+  }
+
+  const route = path.slice(PREFIX.length);
+  jobs.forEach((job) => advance(job));
+
+  if (route === "/stats" && req.method === "GET") {
+    return send(res, 200, computeStats());
+  }
+
+  if (route === "/jobs" && req.method === "GET") {
+    const status = url.searchParams.get("status");
+    const type = url.searchParams.get("type");
+    const provider = url.searchParams.get("provider");
+    const limit = parseInt(url.searchParams.get("limit") || "50", 10);
+
+    const matching = jobs.filter(
+      (job) =>
+        (!status || job.status === status) &&
+        (!type || job.type === type) &&
+        (!provider || job.provider === provider)
+    );
+
+    return send(res, 200, {
+      jobs: matching.slice(0, limit).map(publicJob),
+      total: matching.length,
+    });
+  }
+
+  if (route === "/jobs" && req.method === "POST") {
+    const body = await readJson(req);
+
+    if (!body || !JOB_TYPES.includes(body.type)) {
+      return send(res, 422, { detail: `type must be one of: ${JOB_TYPES.join(", ")}` });
+    }
+
+    const job = createJob(body.type, body.provider, Date.now());
+    console.log(`🔄 Started ${job.type} sync ${job.id}${job.provider ? ` (${job.provider})` : ""}`);
+    return send(res, 201, publicJob(job));
+  }
+
+  const match = route.match(/^\/jobs\/([^/]+)(\/cancel)?$/);
+  const job = match && jobs.find((item) => item.id === decodeURIComponent(match[1]));
+
+  if (match && !job) {
+    return send(res, 404, { detail: "Sync job not found" });
+  }
+
+  if (match && !match[2] && req.method === "GET") {
+    return send(res, 200, publicJob(job));
+  }
+
+  if (match && match[2] && req.method === "POST") {
+    if (job.status !== "pending" && job.status !== "running") {
+      return send(res, 409, { detail: `Sync job is already ${job.status}` });
+    }
+
+    finishJob(job, "cancelled", Date.now());
+    console.log(`⚠️ Cancelled sync ${job.id}`);
+    return send(res, 200, publicJob(job));
+  }
+
+  return send(res, 404, { detail: "Not found" });
+}
+
+seedHistory();
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("❌ Mock sync backend error:", error);
+      send(res, 500, { detail: "Internal server error" });
+    });
+  })
+  .listen(PORT, "127.0.0.1", () => {
+    console.log(`✅ Mock sync backend listening on http://127.0.0.1:${PORT}${PREFIX}`);
+  });
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+// Trigger one export scheduler tick.
+//
+// Run this from cron every few minutes, e.g.
+//   */5 * * * * cd /path/to/app && EXPORT_SCHEDULER_SECRET=... node scripts/run-export-schedules.js
+//
+// Options (environment):
+//   EXPORT_SCHEDULER_SECRET  must match the value configured for the Next.js server
+//   EXPORT_SCHEDULER_URL     base URL of the dashboard (default http://localhost:3000)
+
+const baseUrl = (process.env.EXPORT_SCHEDULER_URL || "http://localhost:3000").replace(/\/+$/, "");
+const secret = process.env.EXPORT_SCHEDULER_SECRET;
+
+if (!secret) {
+  console.error("❌ EXPORT_SCHEDULER_SECRET is not set");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/v1/exports/schedules/tick`, {
+    method: "POST",
+    headers: { "X-Scheduler-Secret": secret },
+    signal: AbortSignal.timeout(120000),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.success) {
+    console.error(`❌ Scheduler tick failed (${response.status}):`, body?.message || body);
+    process.exit(1);
+  }
+
+  const { checkedRuns, finishedRuns, startedRuns, failedToStart, blockedRuns, deferredRuns } = body.data;
+  console.log(
+    `✅ Scheduler tick: ${startedRuns} started, ${failedToStart} failed to start, ` +
+      `${blockedRuns} blocked (owner can no longer export), ${deferredRuns} deferred, ` +
+      `${finishedRuns}/${checkedRuns} in-flight runs finished`,
+  );
+}
+
+main().catch((error) => {
+  console.error("❌ Scheduler tick failed:", error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+
+// Trigger one IP expiry tick: whitelisted IPs past their expiry date are removed.
+//
+// Run this from cron, e.g. hourly:
+//   0 * * * * cd /path/to/app && IP_EXPIRY_SCHEDULER_SECRET=... node scripts/run-ip-expiry.js
+//
+// Options (environment):
+//   IP_EXPIRY_SCHEDULER_SECRET  must match the value configured for the Next.js server
+//   IP_EXPIRY_SCHEDULER_URL     base URL of the dashboard (default http://localhost:3000)
+
+const baseUrl = (process.env.IP_EXPIRY_SCHEDULER_URL || "http://localhost:3000").replace(/\/+$/, "");
+const secret = process.env.IP_EXPIRY_SCHEDULER_SECRET;
+
+if (!secret) {
+  console.error("❌ IP_EXPIRY_SCHEDULER_SECRET is not set");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/v1/admin/ip-entries/expire`, {
+    method: "POST",
+    headers: { "X-Scheduler-Secret": secret },
+    signal: AbortSignal.timeout(300000),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.success) {
+    console.error(`❌ IP expiry tick failed (${response.status}):`, body?.message || body);
+    process.exit(1);
+  }
+
+  const { expired, removed, failed } = body.data;
+  console.log(`✅ IP expiry tick: ${expired} expired entries, ${removed} removed, ${failed} failed`);
+}
+
+main().catch((error) => {
+  console.error("❌ IP expiry tick failed:", error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+
+// Trigger one point budget scheduler tick (auto top-ups and low-balance alerts).
+//
+// Run this from cron, e.g. hourly:
+//   0 * * * * cd /path/to/app && POINT_BUDGET_SCHEDULER_SECRET=... node scripts/run-point-budgets.js
+//
+// Options (environment):
+//   POINT_BUDGET_SCHEDULER_SECRET  must match the value configured for the Next.js server
+//   POINT_BUDGET_SCHEDULER_URL     base URL of the dashboard (default http://localhost:3000)
+
+const baseUrl = (process.env.POINT_BUDGET_SCHEDULER_URL || "http://localhost:3000").replace(/\/+$/, "");
+const secret = process.env.POINT_BUDGET_SCHEDULER_SECRET;
+
+if (!secret) {
+  console.error("❌ POINT_BUDGET_SCHEDULER_SECRET is not set");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/v1/admin/point-budgets/tick`, {
+    method: "POST",
+    headers: { "X-Scheduler-Secret": secret },
+    signal: AbortSignal.timeout(300000),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.success) {
+    console.error(`❌ Point budget tick failed (${response.status}):`, body?.message || body);
+    process.exit(1);
+  }
+
+  const { rulesRun, usersToppedUp, failedTopUps, pointsAdded, alertsSent } = body.data;
+  console.log(
+    `✅ Point budget tick: ${rulesRun} rules run, ${usersToppedUp} users topped up ` +
+      `(${pointsAdded} points, ${failedTopUps} failed), ${alertsSent} low-balance alerts sent`,
+  );
+}
+
+main().catch((error) => {
+  console.error("❌ Point budget tick failed:", error.message || error);
+  process.exit(1);
+});